@@ -0,0 +1,32 @@
+// public/care-reminders-sw.js
+// Imported into the generated service worker. The worker has no signed-in
+// Firebase session, so notification actions are handed to an app window,
+// opening one if none is running.
+self.addEventListener("notificationclick", (event) => {
+  const { tag } = event.notification;
+  const action = event.action || "open";
+  event.notification.close();
+
+  if (!tag || !tag.startsWith("care-digest-")) return;
+
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({
+        type: "window",
+        includeUncontrolled: true,
+      });
+
+      if (windows.length > 0) {
+        const client = windows[0];
+        client.postMessage({ type: "care-reminder-action", action, tag });
+        if (action === "open" && "focus" in client) {
+          await client.focus();
+        }
+        return;
+      }
+
+      const params = new URLSearchParams({ reminderAction: action, reminderTag: tag });
+      await self.clients.openWindow(`/?${params.toString()}`);
+    })()
+  );
+});
@@ -1,8 +1,12 @@
 import React from "react";
-import { Routes, Route } from "react-router-dom";
+import { Routes, Route, useMatch } from "react-router-dom";
 import { useFirebaseAuth } from "./hooks/useFirebaseAuth";
 import { useAppInitialization } from "./hooks/useAppInitialization";
 import { useDarkMode } from "./hooks/useDarkMode";
+import { useCareReminders } from "./hooks/useCareReminders";
+import { useUserSettingsSync } from "./hooks/useUserSettings";
+import { useGardensSync } from "./hooks/useGardens";
+import { useSitterSharesSync } from "./hooks/useSitterShares";
 import LogCare from "./pages/care/LogCare";
 import { Dashboard } from "./pages/dashboard";
 import Plants from "./pages/plants/Plants";
@@ -12,14 +16,26 @@ import { AuthForm } from "./components/AuthForm";
 import AddPlant from "./pages/plants/AddPlant";
 import Layout from "./components/Layout";
 import CatchUpPage from "./pages/catch-up";
+import Analytics from "./pages/analytics";
+import CareCalendar from "./pages/calendar";
+import Settings from "./pages/settings";
+import Inventory from "./pages/inventory";
+import SitterPage from "./pages/sitter";
 import { ServiceRegistry } from "./services/serviceRegistry";
 import { DataInspection } from "./pages/admin/DataInspection";
+import { GardenArchive } from "./pages/admin/GardenArchive";
+import { VarietyProtocols } from "./pages/admin/VarietyProtocols";
 import { CareActivityGroupingTest } from "./pages/admin/CareActivityGroupingTest";
 
 const App = () => {
   const { user, loading } = useFirebaseAuth();
   useDarkMode();
   useAppInitialization();
+  useUserSettingsSync();
+  useGardensSync();
+  useSitterSharesSync();
+  useCareReminders();
+  const sitterMatch = useMatch("/sit/:shareId");
 
   // Initialize service registry early in app lifecycle
   // This ensures all services are properly configured before any components use them
@@ -27,6 +43,15 @@ const App = () => {
     ServiceRegistry.bootstrap();
   }, []);
 
+  // Sitter links work without an account
+  if (sitterMatch) {
+    return (
+      <Routes>
+        <Route path="/sit/:shareId" element={<SitterPage />} />
+      </Routes>
+    );
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -50,7 +75,13 @@ const App = () => {
         <Route path="/log-care" element={<LogCare />} />
         <Route path="/log-care/:plantId" element={<LogCare />} />
         <Route path="/catch-up" element={<CatchUpPage />} />
+        <Route path="/calendar" element={<CareCalendar />} />
+        <Route path="/analytics" element={<Analytics />} />
+        <Route path="/inventory" element={<Inventory />} />
+        <Route path="/settings" element={<Settings />} />
         <Route path="/admin/data-inspection" element={<DataInspection />} />
+        <Route path="/admin/garden-archive" element={<GardenArchive />} />
+        <Route path="/admin/variety-protocols" element={<VarietyProtocols />} />
         <Route path="/admin/grouping-test" element={<CareActivityGroupingTest />} />
       </Routes>
     </Layout>
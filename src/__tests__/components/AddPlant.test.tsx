@@ -31,6 +31,14 @@ jest.mock("@/components/plant/SimplifiedLocationSelector", () => ({
 jest.mock("@/hooks/useFirebaseAuth");
 jest.mock("@/hooks/useFirebasePlants");
 jest.mock("@/types/database");
+jest.mock("@/hooks/useOutbox", () => ({
+  useOutbox: () => ({
+    pendingCount: 0,
+    failed: [],
+    retryFailed: jest.fn(),
+    discardFailed: jest.fn(),
+  }),
+}));
 
 // Mock react-router-dom's navigate function
 const mockNavigate = jest.fn();
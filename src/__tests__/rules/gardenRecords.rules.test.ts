@@ -0,0 +1,170 @@
+/**
+ * @jest-environment node
+ */
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+
+// Needs the Firestore emulator: npm run test:rules
+const describeWithEmulator = process.env.FIRESTORE_EMULATOR_HOST ? describe : describe.skip;
+
+const garden = (members: Record<string, "owner" | "editor" | "viewer">) => ({
+  ownerId: Object.keys(members).find((userId) => members[userId] === "owner"),
+  memberIds: Object.keys(members),
+  members: Object.fromEntries(
+    Object.entries(members).map(([userId, role]) => [userId, { userId, role }])
+  ),
+});
+
+describeWithEmulator("firestore.rules garden records", () => {
+  let env: RulesTestEnvironment;
+
+  beforeAll(async () => {
+    env = await initializeTestEnvironment({
+      projectId: "demo-garden-rules",
+      firestore: { rules: readFileSync(resolve(__dirname, "../../../firestore.rules"), "utf8") },
+    });
+  });
+
+  afterAll(async () => {
+    await env.cleanup();
+  });
+
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await env.withSecurityRulesDisabled(async (context) => {
+      const db = context.firestore();
+      await db.doc("gardens/alice").set(garden({ alice: "owner" }));
+      await db.doc("gardens/bob").set(garden({ bob: "owner" }));
+      await db.doc("gardens/garden-a").set(garden({ alice: "owner", bob: "viewer" }));
+      await db.doc("gardens/garden-b").set(garden({ bob: "owner", alice: "viewer" }));
+      await db.doc("plants/bobs-plant").set({ userId: "bob", gardenId: "garden-b", name: "Basil" });
+      await db.doc("plants/alices-plant").set({ userId: "alice", gardenId: "garden-a", name: "Mint" });
+      await db.doc("plants/legacy-plant").set({ userId: "alice", name: "Thyme" });
+    });
+  });
+
+  describe.each(["plants", "careActivities", "scheduledTasks", "beds", "varieties"])("%s", (collection) => {
+    beforeEach(async () => {
+      if (collection === "plants") return;
+      await env.withSecurityRulesDisabled(async (context) => {
+        const db = context.firestore();
+        for (const id of ["bobs-plant", "alices-plant", "legacy-plant"]) {
+          const snapshot = await db.doc(`plants/${id}`).get();
+          await db.doc(`${collection}/${id}`).set(snapshot.data()!);
+        }
+      });
+    });
+
+    it("won't let an editor move a record out of a garden they can't edit", async () => {
+      const db = env.authenticatedContext("alice").firestore();
+
+      await assertFails(db.doc(`${collection}/bobs-plant`).update({ gardenId: "garden-a" }));
+      await assertFails(db.doc(`${collection}/bobs-plant`).update({ gardenId: "alice" }));
+    });
+
+    it("lets an editor move a record between gardens they edit", async () => {
+      const db = env.authenticatedContext("alice").firestore();
+
+      await assertSucceeds(db.doc(`${collection}/alices-plant`).update({ gardenId: "alice" }));
+    });
+
+    it("shuts a removed member out of the records they logged", async () => {
+      await env.withSecurityRulesDisabled(async (context) => {
+        const db = context.firestore();
+        await db.doc(`${collection}/carols-plant`).set({
+          userId: "carol",
+          gardenId: "garden-a",
+          name: "Sage",
+        });
+        // Carol logged the plant as an editor, then was removed from garden-a
+        await db.doc("gardens/garden-a").set(garden({ alice: "owner", bob: "viewer" }));
+      });
+      const db = env.authenticatedContext("carol").firestore();
+
+      await assertFails(db.doc(`${collection}/carols-plant`).get());
+      await assertFails(db.doc(`${collection}/carols-plant`).update({ name: "Clary Sage" }));
+      await assertFails(db.doc(`${collection}/carols-plant`).delete());
+    });
+
+    it("only moves a legacy record into its owner's personal garden", async () => {
+      const db = env.authenticatedContext("alice").firestore();
+
+      await assertFails(db.doc(`${collection}/legacy-plant`).update({ gardenId: "garden-b" }));
+      await assertFails(db.doc(`${collection}/legacy-plant`).update({ gardenId: "garden-a" }));
+      await assertSucceeds(db.doc(`${collection}/legacy-plant`).update({ name: "Lemon Thyme" }));
+      await assertSucceeds(db.doc(`${collection}/legacy-plant`).update({ gardenId: "alice" }));
+    });
+  });
+
+  describe("records from before gardens existed", () => {
+    it("lets a user list their records only until their personal garden exists", async () => {
+      await env.withSecurityRulesDisabled(async (context) => {
+        await context.firestore().doc("plants/daves-plant").set({ userId: "dave", name: "Dill" });
+      });
+      const db = env.authenticatedContext("dave").firestore();
+      const ownPlants = db.collection("plants").where("userId", "==", "dave");
+
+      await assertSucceeds(ownPlants.get());
+      await assertSucceeds(db.doc("plants/daves-plant").update({ gardenId: "dave" }));
+
+      await assertSucceeds(db.doc("gardens/dave").set(garden({ dave: "owner" })));
+      await assertFails(ownPlants.get());
+      await assertSucceeds(db.collection("plants").where("gardenId", "==", "dave").get());
+    });
+
+    it("keeps a personal garden from being deleted", async () => {
+      const db = env.authenticatedContext("alice").firestore();
+
+      await assertFails(db.doc("gardens/alice").delete());
+      await assertSucceeds(db.doc("gardens/garden-a").delete());
+    });
+  });
+
+  it("lets a device check whether a local bed was copied to Firestore", async () => {
+    await env.withSecurityRulesDisabled(async (context) => {
+      await context
+        .firestore()
+        .doc("beds/bobs-bed")
+        .set({ userId: "bob", gardenId: "bob", name: "Bob's Bed" });
+    });
+    const db = env.authenticatedContext("alice").firestore();
+
+    await assertSucceeds(db.doc("beds/never-copied").get());
+    await assertFails(db.doc("beds/bobs-bed").get());
+  });
+
+  describe("varieties", () => {
+    it("keeps a garden's varieties to its members", async () => {
+      await env.withSecurityRulesDisabled(async (context) => {
+        await context
+          .firestore()
+          .doc("varieties/bobs-variety")
+          .set({ userId: "bob", gardenId: "bob", name: "Bob's Tomato" });
+      });
+      const db = env.authenticatedContext("alice").firestore();
+
+      await assertFails(db.doc("varieties/bobs-variety").get());
+      await assertFails(db.doc("varieties/bobs-variety").update({ name: "Mine now" }));
+      await assertFails(db.doc("varieties/bobs-variety").delete());
+      await assertFails(db.collection("varieties").where("gardenId", "==", "bob").get());
+    });
+
+    it("lets an editor add varieties to their garden but not a viewer", async () => {
+      const db = env.authenticatedContext("alice").firestore();
+
+      await assertSucceeds(
+        db.doc("varieties/new-variety").set({ userId: "alice", gardenId: "garden-a", name: "Mint" })
+      );
+      await assertFails(
+        db.doc("varieties/other-variety").set({ userId: "alice", gardenId: "garden-b", name: "Mint" })
+      );
+      await assertSucceeds(db.collection("varieties").where("gardenId", "==", "garden-b").get());
+    });
+  });
+});
@@ -250,6 +250,27 @@ describe("ProtocolTranspilerService - All Varieties Coverage", () => {
         expect(futureTasksCount).toBeGreaterThan(0);
       }
     });
+
+    it("should schedule root development tasks after vegetative growth ends", async () => {
+      const carrots = seedVarieties.find(v => v.name === "Little Finger Carrots")!;
+      const day = 24 * 60 * 60 * 1000;
+      const plantedDate = new Date(Date.now() - 50 * day); // 42-70 days is root development
+      const mockPlant = { ...createMockPlant(carrots.name, 'carrot-test'), plantedDate };
+
+      const tasks = await ProtocolTranspilerService.transpilePlantProtocol(
+        mockPlant,
+        getVarietyRecord(carrots)
+      );
+
+      expect(tasks.length).toBeGreaterThan(0);
+      expect(new Set(tasks.map(task => task.sourceProtocol.stage))).toEqual(
+        new Set(["rootDevelopment"])
+      );
+
+      const rootSchedule = carrots.protocols!.fertilization!.rootDevelopment.schedule![0];
+      const firstDue = Math.min(...tasks.map(task => task.dueDate.getTime()));
+      expect(firstDue).toBe(plantedDate.getTime() + (42 + rootSchedule.startDays) * day);
+    });
   });
 
   describe("Protocol Data Integrity", () => {
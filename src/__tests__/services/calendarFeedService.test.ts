@@ -0,0 +1,119 @@
+// src/__tests__/services/calendarFeedService.test.ts
+import { CalendarFeedService } from "@/services/calendarFeedService";
+import { UpcomingTask } from "@/types";
+import { createMockPlant, createMockScheduledTask } from "../test-utils";
+
+const now = new Date(Date.UTC(2025, 5, 1, 12, 0, 0));
+const plant = createMockPlant({ id: "plant-1", name: "Basil" });
+
+const fertilizeTask = createMockScheduledTask({
+  id: "task-1",
+  plantId: "plant-1",
+  taskName: "Fertilize",
+  taskType: "fertilize",
+  details: {
+    type: "fertilize",
+    product: "Neptune's Harvest Fish + Seaweed",
+    dilution: "1 tbsp/gallon",
+    amount: "1 cup",
+    method: "soil-drench",
+  },
+  dueDate: new Date(2025, 5, 10, 9),
+  updatedAt: new Date(Date.UTC(2025, 4, 20, 8, 30)),
+});
+
+const createWateringTask = (day: number, plantId = "plant-1"): UpcomingTask => ({
+  id: `water-${plantId}-2025-06-${day}`,
+  plantId,
+  plantName: "Basil",
+  task: "Check water level",
+  type: "water",
+  dueDate: new Date(2025, 5, day, 9),
+  dueIn: "",
+  priority: "low",
+  category: "watering",
+  plantStage: "vegetative",
+});
+
+const unfold = (ics: string) => ics.replace(/\r\n /g, "");
+
+describe("CalendarFeedService", () => {
+  it("wraps events in a CRLF-delimited VCALENDAR", () => {
+    const ics = CalendarFeedService.buildIcs(
+      { scheduledTasks: [fertilizeTask], projectedTasks: [], plants: [plant] },
+      now
+    );
+
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true);
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(ics.split("\r\n").filter((line) => line === "BEGIN:VEVENT")).toHaveLength(1);
+    expect(ics).toContain("DTSTAMP:20250601T120000Z");
+  });
+
+  it("exports pending tasks as all-day events with stable UIDs", () => {
+    const input = {
+      scheduledTasks: [
+        fertilizeTask,
+        createMockScheduledTask({ id: "task-2", status: "completed" }),
+      ],
+      projectedTasks: [],
+      plants: [plant],
+    };
+    const ics = unfold(CalendarFeedService.buildIcs(input, now));
+    const later = unfold(CalendarFeedService.buildIcs(input, new Date(2025, 5, 5)));
+
+    expect(ics).toContain("UID:scheduled-task-1@garden-tracker.app");
+    expect(ics).not.toContain("task-2");
+    expect(ics).toContain("DTSTART;VALUE=DATE:20250610");
+    expect(ics).toContain("DTEND;VALUE=DATE:20250611");
+    expect(ics).toContain("SUMMARY:Fertilize – Basil");
+    expect(later).toContain("UID:scheduled-task-1@garden-tracker.app");
+  });
+
+  it("puts product, dilution and method in the description", () => {
+    const ics = unfold(
+      CalendarFeedService.buildIcs(
+        { scheduledTasks: [fertilizeTask], projectedTasks: [], plants: [plant] },
+        now
+      )
+    );
+
+    expect(ics).toContain(
+      "DESCRIPTION:Product: Neptune's Harvest Fish + Seaweed\\nDilution: 1 tbsp/gallon\\nAmount: 1 cup\\nMethod: soil drench"
+    );
+  });
+
+  it("exports projected watering as one recurring event per plant", () => {
+    const ics = unfold(
+      CalendarFeedService.buildIcs(
+        {
+          scheduledTasks: [],
+          projectedTasks: [createWateringTask(7), createWateringTask(3), createWateringTask(5)],
+          plants: [plant],
+        },
+        now
+      )
+    );
+
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    expect(ics).toContain("UID:projected-water-plant-1@garden-tracker.app");
+    expect(ics).toContain("DTSTART;VALUE=DATE:20250603");
+    expect(ics).toContain("RRULE:FREQ=DAILY;INTERVAL=2;COUNT=3");
+  });
+
+  it("escapes text values", () => {
+    expect(CalendarFeedService.escapeText("a,b;c\\d\ne")).toBe("a\\,b\\;c\\\\d\\ne");
+  });
+
+  it("folds lines longer than 75 octets", () => {
+    const line = `DESCRIPTION:${"é".repeat(60)}`;
+    const folded = CalendarFeedService.foldLine(line).split("\r\n");
+
+    expect(folded.length).toBeGreaterThan(1);
+    for (const part of folded) {
+      expect(Buffer.byteLength(part, "utf8")).toBeLessThanOrEqual(75);
+    }
+    expect(folded.slice(1).every((part) => part.startsWith(" "))).toBe(true);
+    expect(folded.map((part, i) => (i === 0 ? part : part.slice(1))).join("")).toBe(line);
+  });
+});
@@ -0,0 +1,139 @@
+// src/__tests__/services/careCalendarService.test.ts
+import { CareCalendarService } from "@/services/careCalendarService";
+import { UpcomingTask } from "@/types";
+import { createMockPlant, createMockScheduledTask } from "../test-utils";
+
+const plant = createMockPlant({ id: "plant-1", name: "Basil" });
+
+const createProjectedTask = (overrides: Partial<UpcomingTask> = {}): UpcomingTask => ({
+  id: "water-plant-1-2025-06-10",
+  plantId: "plant-1",
+  plantName: "Basil",
+  task: "Check water level",
+  type: "water",
+  dueDate: new Date(2025, 5, 10, 9),
+  dueIn: "in 3 days",
+  priority: "low",
+  category: "watering",
+  plantStage: "vegetative",
+  ...overrides,
+});
+
+const rangeStart = new Date(2025, 5, 1);
+const rangeEnd = new Date(2025, 5, 30, 23, 59);
+
+describe("CareCalendarService", () => {
+  describe("getVisibleRange", () => {
+    it("pads a month out to whole weeks", () => {
+      const { start, end } = CareCalendarService.getVisibleRange(new Date(2025, 5, 15), "month");
+
+      // June 2025 starts on a Sunday and ends on a Monday
+      expect(start).toEqual(new Date(2025, 5, 1));
+      expect(end.getDate()).toBe(5);
+      expect(end.getMonth()).toBe(6);
+    });
+
+    it("covers Sunday to Saturday for a week", () => {
+      const days = CareCalendarService.getVisibleDays(new Date(2025, 5, 11), "week");
+
+      expect(days).toHaveLength(7);
+      expect(days[0]).toEqual(new Date(2025, 5, 8));
+      expect(days[6]).toEqual(new Date(2025, 5, 14));
+    });
+  });
+
+  describe("buildEvents", () => {
+    it("combines scheduled, projected and stage events inside the range", () => {
+      const events = CareCalendarService.buildEvents(
+        {
+          scheduledTasks: [
+            createMockScheduledTask({
+              id: "task-1",
+              plantId: "plant-1",
+              taskName: "Fertilize with fish emulsion",
+              taskType: "fertilize",
+              dueDate: new Date(2025, 5, 10, 8),
+            }),
+            createMockScheduledTask({ id: "task-2", dueDate: new Date(2025, 6, 10) }),
+          ],
+          projectedTasks: [createProjectedTask()],
+          stageTransitions: [
+            {
+              plant,
+              predictedNextStage: "flowering",
+              predictedTransitionDate: new Date(2025, 5, 10),
+            },
+          ],
+          plants: [plant],
+        },
+        rangeStart,
+        rangeEnd
+      );
+
+      expect(events.map((event) => event.kind)).toEqual(["stage", "scheduled", "projected"]);
+      expect(events[1]).toMatchObject({
+        taskId: "task-1",
+        plantName: "Basil",
+        draggable: true,
+      });
+      expect(events[2].draggable).toBe(false);
+    });
+
+    it("only lets pending scheduled tasks be dragged", () => {
+      const [event] = CareCalendarService.buildEvents(
+        {
+          scheduledTasks: [
+            createMockScheduledTask({ dueDate: new Date(2025, 5, 3), status: "completed" }),
+          ],
+          projectedTasks: [],
+          stageTransitions: [],
+          plants: [],
+        },
+        rangeStart,
+        rangeEnd
+      );
+
+      expect(event.draggable).toBe(false);
+      expect(event.plantName).toBe("Unknown plant");
+    });
+  });
+
+  it("groups events by local day", () => {
+    const events = CareCalendarService.buildEvents(
+      {
+        scheduledTasks: [],
+        projectedTasks: [
+          createProjectedTask({ id: "a", dueDate: new Date(2025, 5, 10, 0, 30) }),
+          createProjectedTask({ id: "b", dueDate: new Date(2025, 5, 10, 23, 30) }),
+          createProjectedTask({ id: "c", dueDate: new Date(2025, 5, 11, 7) }),
+        ],
+        stageTransitions: [],
+        plants: [],
+      },
+      rangeStart,
+      rangeEnd
+    );
+
+    const byDay = CareCalendarService.groupByDay(events);
+    expect(byDay.get("2025-06-10")).toHaveLength(2);
+    expect(byDay.get("2025-06-11")).toHaveLength(1);
+  });
+
+  it("keeps the time of day when moving a task", () => {
+    const moved = CareCalendarService.moveToDay(
+      new Date(2025, 5, 10, 14, 45),
+      new Date(2025, 5, 12)
+    );
+
+    expect(moved).toEqual(new Date(2025, 5, 12, 14, 45));
+  });
+
+  it("steps months and weeks", () => {
+    expect(CareCalendarService.shiftAnchor(new Date(2025, 0, 31), "month", 1)).toEqual(
+      new Date(2025, 1, 1)
+    );
+    expect(CareCalendarService.shiftAnchor(new Date(2025, 5, 10), "week", -1)).toEqual(
+      new Date(2025, 5, 3)
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import { CareHistoryExportService } from "@/services/careHistoryExportService";
+import { createMockBed, createMockCareActivity, createMockPlant } from "../test-utils";
+
+const loggedAt = new Date(2025, 5, 2, 9, 30);
+
+const parseRow = (csv: string, index: number) => {
+  const headers = CareHistoryExportService.headers;
+  const line = csv.split("\r\n")[index];
+  return { headers, line };
+};
+
+describe("CareHistoryExportService", () => {
+  describe("filterActivities", () => {
+    const activities = [
+      createMockCareActivity({ id: "late", date: new Date(2025, 5, 10, 18) }),
+      createMockCareActivity({ id: "early", date: new Date(2025, 5, 1, 7) }),
+      createMockCareActivity({ id: "other-plant", plantId: "plant-2", date: loggedAt }),
+      createMockCareActivity({
+        id: "fertilize",
+        type: "fertilize",
+        date: loggedAt,
+        details: { type: "fertilize" },
+      }),
+    ];
+
+    it("filters by plant and type and sorts oldest first", () => {
+      const result = CareHistoryExportService.filterActivities(activities, {
+        plantId: "test-plant-id",
+        activityType: "water",
+      });
+      expect(result.map((a) => a.id)).toEqual(["early", "late"]);
+    });
+
+    it("includes whole days at both ends of the date range", () => {
+      const result = CareHistoryExportService.filterActivities(activities, {
+        plantId: "test-plant-id",
+        startDate: new Date(2025, 5, 1),
+        endDate: new Date(2025, 5, 2),
+      });
+      expect(result.map((a) => a.id)).toEqual(["early", "fertilize"]);
+    });
+  });
+
+  describe("buildCsv", () => {
+    it("writes one row per activity with plant, variety and bed columns", () => {
+      const plant = createMockPlant({
+        name: "Lettuce by the door",
+        varietyName: "Butter Lettuce",
+        structuredSection: {
+          bedId: "bed-1",
+          position: { start: 0, length: 12, unit: "inches" },
+        },
+      });
+      const csv = CareHistoryExportService.buildCsv(
+        [
+          createMockCareActivity({
+            date: loggedAt,
+            details: {
+              type: "water",
+              waterAmount: 16,
+              waterUnit: "oz",
+              moistureLevel: { before: 3, after: 7, scale: "1-10" },
+            },
+          }),
+        ],
+        [plant],
+        [createMockBed({ id: "bed-1", name: "Front Bed" })]
+      );
+
+      const { headers, line } = parseRow(csv, 1);
+      expect(csv.split("\r\n")).toHaveLength(2);
+      const cells = line.split(",");
+      const cell = (header: string) => cells[headers.indexOf(header)];
+      expect(cell("Date")).toBe("2025-06-02");
+      expect(cell("Time")).toBe("09:30");
+      expect(cell("Plant")).toBe("Lettuce by the door");
+      expect(cell("Variety")).toBe("Butter Lettuce");
+      expect(cell("Bed")).toBe("Front Bed");
+      expect(cell("Water Amount")).toBe("16");
+      expect(cell("Water Unit")).toBe("oz");
+      expect(cell("Moisture Before")).toBe("3");
+      expect(cell("Moisture After")).toBe("7");
+    });
+
+    it("reads water volume stored as an amount object", () => {
+      const csv = CareHistoryExportService.buildCsv(
+        [
+          createMockCareActivity({
+            details: { type: "water", amount: { value: 1, unit: "L" } },
+          }),
+        ],
+        [createMockPlant()]
+      );
+
+      const { headers, line } = parseRow(csv, 1);
+      const cells = line.split(",");
+      expect(cells[headers.indexOf("Water Amount")]).toBe("1");
+      expect(cells[headers.indexOf("Water Unit")]).toBe("L");
+      expect(cells[headers.indexOf("Amount")]).toBe("");
+    });
+
+    it("quotes commas and quotes and neutralises formulas", () => {
+      const csv = CareHistoryExportService.buildCsv(
+        [
+          createMockCareActivity({
+            type: "fertilize",
+            details: {
+              type: "fertilize",
+              product: "Fish, \"kelp\" blend",
+              dilution: "=1+1",
+              applicationMethod: "soil-drench",
+            },
+          }),
+        ],
+        [createMockPlant()]
+      );
+
+      expect(csv).toContain('"Fish, ""kelp"" blend"');
+      expect(csv).toContain(",'=1+1,");
+      expect(csv).toContain(",soil-drench,");
+    });
+  });
+});
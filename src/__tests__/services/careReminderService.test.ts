@@ -0,0 +1,208 @@
+import {
+  CareReminderService,
+  DEFAULT_NOTIFICATION_SETTINGS,
+} from "@/services/careReminderService";
+import {
+  createMockPlant,
+  createMockScheduledTask,
+  createMockUpcomingTask,
+} from "../test-utils";
+
+const NOW = new Date(2025, 5, 10, 9, 0);
+
+// Watering was due an hour ago; feeding is due tomorrow
+const wateringDue = { dueDate: new Date(2025, 5, 10, 8) };
+const feedingDue = {
+  taskName: "Fertilize with Neptune's Harvest",
+  taskType: "fertilize" as const,
+  dueDate: new Date(2025, 5, 11, 8),
+};
+
+describe("CareReminderService", () => {
+  describe("collectReminders", () => {
+    it("includes overdue and due-soon tasks from both schedules, soonest first", () => {
+      const reminders = CareReminderService.collectReminders(
+        [createMockUpcomingTask(wateringDue)],
+        [
+          createMockScheduledTask(feedingDue),
+          createMockScheduledTask({
+            ...feedingDue,
+            id: "far-future",
+            dueDate: new Date(2025, 5, 20),
+          }),
+          createMockScheduledTask({ ...feedingDue, id: "done", status: "completed" }),
+        ],
+        [createMockPlant()],
+        NOW
+      );
+
+      expect(reminders.map((r) => r.id)).toEqual([
+        "care:test-upcoming-task-id",
+        "scheduled:test-task-id",
+      ]);
+      expect(reminders[0].isOverdue).toBe(true);
+      expect(reminders[1].isOverdue).toBe(false);
+      expect(reminders[1].details?.product).toBe("Test Fertilizer");
+    });
+
+    it("respects per-plant reminder preferences", () => {
+      const plant = createMockPlant({
+        reminderPreferences: { watering: false, fertilizing: true },
+      });
+
+      const reminders = CareReminderService.collectReminders(
+        [createMockUpcomingTask(wateringDue)],
+        [createMockScheduledTask(feedingDue)],
+        [plant],
+        NOW
+      );
+
+      expect(reminders.map((r) => r.taskType)).toEqual(["fertilize"]);
+    });
+
+    it("keeps only the plants of a grouped task that want the reminder", () => {
+      const reminders = CareReminderService.collectReminders(
+        [
+          createMockUpcomingTask({
+            ...wateringDue,
+            plantId: "group-key",
+            plantIds: ["test-plant-id", "plant-2"],
+          }),
+        ],
+        [],
+        [
+          createMockPlant(),
+          createMockPlant({ id: "plant-2", reminderPreferences: { watering: false } }),
+        ],
+        NOW
+      );
+
+      expect(reminders).toHaveLength(1);
+      expect(reminders[0].plantIds).toEqual(["test-plant-id"]);
+    });
+  });
+
+  describe("applyNotificationSettings", () => {
+    it("drops harvest reminders when harvest alerts are off", () => {
+      const reminders = CareReminderService.collectReminders(
+        [createMockUpcomingTask(wateringDue)],
+        [
+          createMockScheduledTask({
+            ...feedingDue,
+            id: "harvest",
+            taskName: "Harvest outer leaves",
+            taskType: "harvest",
+          }),
+        ],
+        [createMockPlant()],
+        NOW
+      );
+
+      const filtered = CareReminderService.applyNotificationSettings(reminders, {
+        ...DEFAULT_NOTIFICATION_SETTINGS,
+        harvestAlerts: false,
+      });
+
+      expect(reminders).toHaveLength(2);
+      expect(filtered.map((r) => r.taskType)).toEqual(["water"]);
+    });
+  });
+
+  describe("isWithinQuietHours", () => {
+    const overnight = { start: "21:00", end: "07:00" };
+
+    it("handles quiet hours that wrap past midnight", () => {
+      expect(CareReminderService.isWithinQuietHours(new Date(2025, 5, 10, 22), overnight)).toBe(true);
+      expect(CareReminderService.isWithinQuietHours(new Date(2025, 5, 10, 6, 59), overnight)).toBe(true);
+      expect(CareReminderService.isWithinQuietHours(new Date(2025, 5, 10, 7), overnight)).toBe(false);
+    });
+
+    it("handles quiet hours within a single day", () => {
+      const afternoon = { start: "13:00", end: "15:00" };
+      expect(CareReminderService.isWithinQuietHours(new Date(2025, 5, 10, 14), afternoon)).toBe(true);
+      expect(CareReminderService.isWithinQuietHours(new Date(2025, 5, 10, 16), afternoon)).toBe(false);
+      expect(CareReminderService.isWithinQuietHours(new Date(2025, 5, 10, 16), null)).toBe(false);
+    });
+  });
+
+  describe("shouldSendDigest", () => {
+    const settings = { ...DEFAULT_NOTIFICATION_SETTINGS, dailyDigestTime: "08:00" };
+
+    it("sends once a day after the digest time", () => {
+      expect(CareReminderService.shouldSendDigest(settings, {}, new Date(2025, 5, 10, 7, 30))).toBe(false);
+      expect(CareReminderService.shouldSendDigest(settings, {}, NOW)).toBe(true);
+      expect(
+        CareReminderService.shouldSendDigest(settings, { lastDigestDate: "2025-06-10" }, NOW)
+      ).toBe(false);
+    });
+
+    it("waits for a snooze to end and for quiet hours to pass", () => {
+      const snoozed = CareReminderService.snooze({ lastDigestDate: "2025-06-10" }, settings, NOW);
+
+      expect(CareReminderService.shouldSendDigest(settings, snoozed, new Date(2025, 5, 10, 9, 30))).toBe(false);
+      expect(CareReminderService.shouldSendDigest(settings, snoozed, new Date(2025, 5, 10, 10))).toBe(true);
+      expect(CareReminderService.shouldSendDigest(settings, snoozed, new Date(2025, 5, 10, 22))).toBe(false);
+    });
+
+    it("never sends when care reminders are off", () => {
+      expect(
+        CareReminderService.shouldSendDigest({ ...settings, careReminders: false }, {}, NOW)
+      ).toBe(false);
+    });
+  });
+
+  describe("buildDigest", () => {
+    it("summarises several reminders in one notification", () => {
+      const reminders = CareReminderService.collectReminders(
+        [createMockUpcomingTask(wateringDue)],
+        [createMockScheduledTask(feedingDue)],
+        [createMockPlant()],
+        NOW
+      );
+
+      const digest = CareReminderService.buildDigest(reminders, NOW);
+
+      expect(digest?.title).toBe("2 garden tasks need attention");
+      expect(digest?.body).toContain("1 overdue");
+      expect(digest?.body).toContain("Check water level – Test Plant (overdue)");
+      expect(digest?.body).toContain("Fertilize with Neptune's Harvest – Test Plant (tomorrow)");
+      expect(CareReminderService.buildDigest([], NOW)).toBeNull();
+    });
+  });
+
+  describe("markPlantDone and markReminderDone", () => {
+    const savedState = () => {
+      const reminders = CareReminderService.collectReminders(
+        [
+          createMockUpcomingTask({
+            ...wateringDue,
+            plantId: "group-1",
+            plantIds: ["test-plant-id", "plant-2"],
+          }),
+        ],
+        [createMockScheduledTask(feedingDue)],
+        [createMockPlant(), createMockPlant({ id: "plant-2" })],
+        NOW
+      );
+      return CareReminderService.recordDigestSent(CareReminderService.buildDigest(reminders, NOW)!, NOW);
+    };
+
+    it("leaves only the work a retry still has to do", () => {
+      const state = savedState();
+      const [watering, feeding] = state.lastDigest!.reminders;
+
+      const afterPlant = CareReminderService.markPlantDone(state, watering.id, "test-plant-id");
+      const afterReminder = CareReminderService.markReminderDone(afterPlant, feeding.id);
+
+      expect(afterReminder.lastDigest!.reminders).toEqual([
+        { ...watering, plantIds: ["plant-2"] },
+      ]);
+      expect(afterReminder.lastDigestDate).toBe(state.lastDigestDate);
+    });
+
+    it("ignores a state without a saved digest", () => {
+      expect(CareReminderService.markPlantDone({}, "water-plant-1", "plant-1")).toEqual({});
+      expect(CareReminderService.markReminderDone({}, "water-plant-1")).toEqual({});
+    });
+  });
+});
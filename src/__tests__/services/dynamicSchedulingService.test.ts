@@ -183,5 +183,35 @@ describe("DynamicSchedulingService", () => {
       // So the new interval is 7 + 2 = 9 days.
       expect(nextDueDate).toEqual(addDays(lastCompletion, 9));
     });
+
+    it("should repeat at the given base interval", async () => {
+      const lastCompletion = new Date("2025-06-20");
+      const nextDueDate = await DynamicSchedulingService.getNextDueDateForTask(
+        plantId,
+        "water",
+        lastCompletion,
+        2
+      );
+      expect(nextDueDate).toEqual(addDays(lastCompletion, 2));
+    });
+  });
+
+  describe("getRecurringIntervalDays", () => {
+    it("should adjust the base interval without dropping below a day", async () => {
+      for (let i = 0; i < 5; i++) {
+        await DynamicSchedulingService.recordTaskCompletion(
+          plantId,
+          "water",
+          subDays(new Date(), i),
+          subDays(new Date(), i + 3),
+          `care-${i}`,
+          "vegetative"
+        );
+      }
+
+      // Consistently 3 days early: adjustment is round(-3 * 0.7) = -2
+      expect(await DynamicSchedulingService.getRecurringIntervalDays(plantId, "water")).toBe(5);
+      expect(await DynamicSchedulingService.getRecurringIntervalDays(plantId, "water", 2)).toBe(1);
+    });
   });
 });
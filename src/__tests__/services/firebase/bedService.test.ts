@@ -0,0 +1,66 @@
+import { getDoc, writeBatch } from "firebase/firestore";
+import { FirebaseBedService } from "@/services/firebase/bedService";
+import { db as localDb } from "@/types/database";
+import { createMockBed } from "../../test-utils";
+
+jest.mock("firebase/firestore", () => ({
+  collection: jest.fn(),
+  doc: jest.fn((_collection, id: string) => ({ id })),
+  getDoc: jest.fn(),
+  writeBatch: jest.fn(),
+  Timestamp: {
+    fromDate: jest.fn((date: Date) => date),
+    now: jest.fn(),
+  },
+}));
+
+jest.mock("@/services/firebase/config", () => ({
+  db: { mockDb: true },
+}));
+
+const mockGetDoc = getDoc as jest.Mock;
+
+describe("FirebaseBedService", () => {
+  const batch = { set: jest.fn(), commit: jest.fn().mockResolvedValue(undefined) };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    (writeBatch as jest.Mock).mockReturnValue(batch);
+    await localDb.beds.clear();
+  });
+
+  describe("migrateLocalBeds", () => {
+    it("copies only beds Firestore doesn't have yet", async () => {
+      await localDb.beds.bulkAdd([
+        createMockBed({ id: "local-bed", name: "Porch Pots" }),
+        createMockBed({ id: "synced-bed", name: "North Bed" }),
+        createMockBed({ id: "shared-bed", name: "Someone else's bed", gardenId: "garden-2" }),
+      ]);
+      mockGetDoc.mockImplementation(async ({ id }: { id: string }) => {
+        if (id === "shared-bed") {
+          throw Object.assign(new Error("Missing or insufficient permissions"), {
+            code: "permission-denied",
+          });
+        }
+        return { exists: () => id === "synced-bed" };
+      });
+
+      const copied = await FirebaseBedService.migrateLocalBeds("user-1");
+
+      expect(copied).toBe(1);
+      expect(batch.set).toHaveBeenCalledTimes(1);
+      expect(batch.set).toHaveBeenCalledWith(
+        { id: "local-bed" },
+        expect.objectContaining({ name: "Porch Pots", userId: "user-1", gardenId: "user-1" })
+      );
+    });
+
+    it("fails when Firestore can't be checked", async () => {
+      await localDb.beds.add(createMockBed());
+      mockGetDoc.mockRejectedValue(Object.assign(new Error("offline"), { code: "unavailable" }));
+
+      await expect(FirebaseBedService.migrateLocalBeds("user-1")).rejects.toThrow("offline");
+      expect(batch.set).not.toHaveBeenCalled();
+    });
+  });
+});
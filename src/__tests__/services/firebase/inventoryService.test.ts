@@ -0,0 +1,69 @@
+import { getDocs, increment, updateDoc } from "firebase/firestore";
+import { FirebaseInventoryService } from "@/services/firebase/inventoryService";
+import { createMockInventoryItem } from "../../test-utils";
+
+jest.mock("firebase/firestore", () => ({
+  collection: jest.fn(),
+  doc: jest.fn((_collection, id: string) => ({ id })),
+  query: jest.fn(),
+  where: jest.fn(),
+  orderBy: jest.fn(),
+  getDocs: jest.fn(),
+  updateDoc: jest.fn(),
+  increment: jest.fn((n: number) => ({ increment: n })),
+  Timestamp: {
+    now: jest.fn(() => "now"),
+  },
+}));
+
+jest.mock("@/services/firebase/config", () => ({
+  db: { mockDb: true },
+}));
+
+const storedItem = (remaining: number) => {
+  const { id, createdAt, ...fields } = createMockInventoryItem({ remaining });
+  return {
+    id,
+    data: () => ({
+      ...fields,
+      userId: "user-1",
+      createdAt: { toDate: () => createdAt },
+      updatedAt: { toDate: () => createdAt },
+    }),
+  };
+};
+
+describe("FirebaseInventoryService", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("recordFertilizerUsage", () => {
+    it("decrements the stock on the server rather than writing a new total", async () => {
+      (getDocs as jest.Mock).mockResolvedValue({ docs: [storedItem(36)] });
+
+      const usage = await FirebaseInventoryService.recordFertilizerUsage("user-1", {
+        type: "fertilize",
+        product: "Test Fertilizer",
+        dilution: "1-2 Tbsp/gal",
+        amount: "2 gal",
+      });
+
+      // 3 Tbsp is 1.5 fl oz
+      expect(usage?.used).toBeCloseTo(1.5);
+      expect(increment).toHaveBeenCalledWith(-usage!.used);
+      expect(updateDoc).toHaveBeenCalledWith(
+        { id: "test-inventory-item-id" },
+        { remaining: { increment: -usage!.used }, updatedAt: "now" }
+      );
+    });
+
+    it("reads stock that usage took below zero as empty", async () => {
+      (getDocs as jest.Mock).mockResolvedValue({ docs: [storedItem(-0.5)] });
+
+      const [item] = await FirebaseInventoryService.getUserInventory("user-1");
+
+      expect(item.remaining).toBe(0);
+    });
+  });
+});
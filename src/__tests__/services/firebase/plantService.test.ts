@@ -1,5 +1,7 @@
 import { FirebasePlantService } from "@/services/firebase/plantService";
-import { writeBatch, onSnapshot, addDoc, where } from "firebase/firestore";
+import { FirebaseOutboxService } from "@/services/firebase/outboxService";
+import { ProtocolTranspilerService, ScheduledTask } from "@/services/ProtocolTranspilerService";
+import { writeBatch, onSnapshot, addDoc, doc, updateDoc, where } from "firebase/firestore";
 import { Logger } from "@/utils/logger";
 import { convertPlantFromFirebase } from "@/types";
 
@@ -50,6 +52,10 @@ describe("FirebasePlantService", () => {
     console.error = jest.fn();
   });
 
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
   describe("createPlant", () => {
     it("creates a new plant and returns the ID", async () => {
       const plantToCreate = {
@@ -68,6 +74,66 @@ describe("FirebasePlantService", () => {
 
       expect(result).toBe("mock-id");
     });
+
+    it("queues the plant and its protocol tasks in the outbox when offline", async () => {
+      jest.spyOn(FirebaseOutboxService, "isOffline").mockReturnValue(true);
+      const queueSpy = jest
+        .spyOn(FirebaseOutboxService, "queueCreate")
+        .mockImplementation(async () => ({ id: `queued-${queueSpy.mock.calls.length}` }) as never);
+      const queueAtSpy = jest.spyOn(FirebaseOutboxService, "queueCreateAt").mockResolvedValue();
+      (doc as jest.Mock).mockImplementation(() => ({
+        id: `task-${(doc as jest.Mock).mock.calls.length}`,
+      }));
+      const task = (id: string, taskName: string, coordinatedWith?: string[]) =>
+        ({
+          id,
+          plantId: "queued-1",
+          taskName,
+          taskType: "fertilize",
+          details: {
+            type: "fertilize",
+            product: "Fish emulsion",
+            dilution: "1 Tbsp/gal",
+            amount: "1 gal",
+            method: "soil-drench",
+          },
+          dueDate: new Date("2024-02-01"),
+          status: "pending",
+          sourceProtocol: { stage: "vegetative", originalStartDays: 14, isDynamic: false },
+          coordinatedWith,
+        }) as ScheduledTask;
+      jest
+        .spyOn(ProtocolTranspilerService, "transpilePlantProtocol")
+        .mockResolvedValue([task("feed-0", "Feed", ["feed-1"]), task("feed-1", "Feed again")]);
+
+      const result = await FirebasePlantService.createPlant(
+        {
+          varietyId: "albion",
+          varietyName: "Albion Strawberries",
+          plantedDate: new Date("2024-01-01"),
+          location: "Indoor",
+          container: "Grow Bag",
+          isActive: true,
+        },
+        mockUserId
+      );
+
+      expect(result).toBe("queued-1");
+      expect(queueSpy).toHaveBeenCalledTimes(1);
+      expect(
+        queueAtSpy.mock.calls.map(([taskDoc, data]) => ({
+          id: taskDoc.id,
+          ...(data as { taskName: string; coordinatedWith?: string[] }),
+        }))
+      ).toEqual([
+        expect.objectContaining({ id: "task-1", taskName: "Feed", coordinatedWith: ["task-2"] }),
+        expect.objectContaining({ id: "task-2", taskName: "Feed again" }),
+      ]);
+      expect(queueSpy.mock.invocationCallOrder[0]).toBeLessThan(
+        queueAtSpy.mock.invocationCallOrder[0]
+      );
+      expect(addDoc).not.toHaveBeenCalled();
+    });
   });
 
   describe("updatePlant", () => {
@@ -78,6 +144,26 @@ describe("FirebasePlantService", () => {
         FirebasePlantService.updatePlant(mockPlantId, updates)
       ).resolves.not.toThrow();
     });
+
+    it("queues the same converted update offline, stamped with the client time", async () => {
+      jest.spyOn(FirebaseOutboxService, "isOffline").mockReturnValue(true);
+      const queueSpy = jest
+        .spyOn(FirebaseOutboxService, "queueUpdate")
+        .mockResolvedValue();
+      (doc as jest.Mock).mockReturnValueOnce("plant-ref");
+
+      await FirebasePlantService.updatePlant(mockPlantId, {
+        name: "Moved",
+        plantedDate: new Date("2024-02-01"),
+      });
+
+      expect(queueSpy).toHaveBeenCalledWith("plant-ref", {
+        name: "Moved",
+        plantedDate: "mock-timestamp",
+        updatedAt: "mock-now",
+      });
+      expect(updateDoc).not.toHaveBeenCalled();
+    });
   });
 
   describe("deletePlant", () => {
@@ -0,0 +1,147 @@
+import { GardenAnalyticsService, AnalyticsFilter } from "@/services/gardenAnalyticsService";
+import { CareActivityRecord, TaskCompletionRecord } from "@/types";
+import { createMockCareActivity, createMockPlant } from "../test-utils";
+
+const wateringActivity = (
+  details: Partial<CareActivityRecord["details"]> = {},
+  overrides: Partial<CareActivityRecord> = {}
+) =>
+  createMockCareActivity({
+    id: `activity-${Math.random()}`,
+    plantId: "plant-1",
+    date: new Date(2025, 5, 2, 9),
+    details: { type: "water", ...details },
+    ...overrides,
+  });
+
+const createCompletion = (varianceDays: number, plantId = "plant-1"): TaskCompletionRecord => ({
+  id: `completion-${Math.random()}`,
+  plantId,
+  taskType: "fertilize",
+  scheduledDate: new Date(2025, 5, 4),
+  actualCompletionDate: new Date(2025, 5, 4 + varianceDays),
+  varianceDays,
+  careActivityId: "activity",
+  plantStage: "vegetative",
+  createdAt: new Date(2025, 5, 3),
+});
+
+const filter: AnalyticsFilter = {
+  startDate: new Date(2025, 5, 1),
+  endDate: new Date(2025, 5, 7, 23, 59),
+};
+
+describe("GardenAnalyticsService", () => {
+  describe("filterActivities", () => {
+    it("keeps activities inside the date range", () => {
+      const plants = [createMockPlant({ id: "plant-1" })];
+      const activities = [
+        wateringActivity({}, { date: new Date(2025, 4, 30) }),
+        wateringActivity({}, { date: new Date(2025, 5, 4) }),
+        wateringActivity({}, { date: new Date(2025, 5, 9) }),
+      ];
+
+      expect(GardenAnalyticsService.filterActivities(activities, plants, filter)).toHaveLength(1);
+    });
+
+    it("filters by plant and by bed", () => {
+      const plants = [
+        createMockPlant({
+          id: "a",
+          structuredSection: { bedId: "bed-1", position: { start: 0, length: 6, unit: "inches" } },
+        }),
+        createMockPlant({ id: "b" }),
+      ];
+      const activities = [wateringActivity({}, { plantId: "a" }), wateringActivity({}, { plantId: "b" })];
+
+      expect(
+        GardenAnalyticsService.filterActivities(activities, plants, { ...filter, plantId: "b" }).map((a) => a.plantId)
+      ).toEqual(["b"]);
+      expect(
+        GardenAnalyticsService.filterActivities(activities, plants, { ...filter, bedId: "bed-1" }).map((a) => a.plantId)
+      ).toEqual(["a"]);
+    });
+  });
+
+  describe("getWaterVolumeOz", () => {
+    it("reads both the amount object and legacy waterAmount fields", () => {
+      expect(
+        GardenAnalyticsService.getWaterVolumeOz(wateringActivity({ amount: { value: 2, unit: "cups" } }))
+      ).toBe(16);
+      expect(
+        GardenAnalyticsService.getWaterVolumeOz(wateringActivity({ waterAmount: 12, waterUnit: "oz" }))
+      ).toBe(12);
+      expect(GardenAnalyticsService.getWaterVolumeOz(wateringActivity())).toBe(0);
+    });
+  });
+
+  describe("getWateringVolumeSeries", () => {
+    it("builds one daily point per day for each watered plant", () => {
+      const plants = [createMockPlant({ id: "plant-1" }), createMockPlant({ id: "dry" })];
+      const activities = [
+        wateringActivity({ amount: { value: 8, unit: "oz" } }),
+        wateringActivity({ amount: { value: 4, unit: "oz" } }, { date: new Date(2025, 5, 2, 18) }),
+      ];
+
+      const series = GardenAnalyticsService.getWateringVolumeSeries(activities, plants, filter);
+
+      expect(series).toHaveLength(1);
+      expect(series[0].points).toHaveLength(7);
+      expect(series[0].points[1].value).toBe(12);
+      expect(series[0].totalOz).toBe(12);
+    });
+  });
+
+  describe("getFertilizationTimeliness", () => {
+    it("classifies completions by variance days", () => {
+      const completions = [createCompletion(0), createCompletion(1), createCompletion(-3), createCompletion(3)];
+
+      const result = GardenAnalyticsService.getFertilizationTimeliness(completions, [createMockPlant({ id: "plant-1" })], filter);
+
+      expect(result).toMatchObject({ total: 4, onTime: 2, early: 1, late: 1, onTimeRate: 0.5 });
+      expect(result.averageVarianceDays).toBeCloseTo(0.25);
+    });
+
+    it("returns zero rates when nothing was completed", () => {
+      expect(GardenAnalyticsService.getFertilizationTimeliness([], [createMockPlant({ id: "plant-1" })], filter).onTimeRate).toBe(0);
+    });
+  });
+
+  describe("getActivityCountsByType", () => {
+    it("counts activities per type, most frequent first", () => {
+      const activities = [
+        wateringActivity(),
+        wateringActivity(),
+        createMockCareActivity({
+          plantId: "plant-1",
+          type: "fertilize",
+          date: new Date(2025, 5, 2, 9),
+          details: { type: "fertilize" },
+        }),
+      ];
+
+      expect(GardenAnalyticsService.getActivityCountsByType(activities, [createMockPlant({ id: "plant-1" })], filter)).toEqual([
+        { type: "water", count: 2 },
+        { type: "fertilize", count: 1 },
+      ]);
+    });
+  });
+
+  describe("getPartialWateringStats", () => {
+    it("reports the share of partial waterings", () => {
+      const activities = [
+        wateringActivity({ isPartialWatering: true }),
+        wateringActivity(),
+        wateringActivity(),
+        wateringActivity({ isPartialWatering: true }, { date: new Date(2025, 5, 5) }),
+      ];
+
+      const stats = GardenAnalyticsService.getPartialWateringStats(activities, [createMockPlant({ id: "plant-1" })], filter);
+
+      expect(stats.totalWaterings).toBe(4);
+      expect(stats.partialWaterings).toBe(2);
+      expect(stats.partialRate).toBe(0.5);
+      expect(stats.points.map((p) => p.value)).toEqual([0, 1, 0, 0, 1, 0, 0]);
+    });
+  });
+});
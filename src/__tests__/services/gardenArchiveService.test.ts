@@ -0,0 +1,180 @@
+import {
+  GardenArchiveData,
+  GardenArchiveService,
+} from "@/services/gardenArchiveService";
+import {
+  createMockBed,
+  createMockCareActivity,
+  createMockPlant,
+  createMockScheduledTask,
+} from "../test-utils";
+
+const emptyData = (): GardenArchiveData => ({
+  plants: [],
+  careActivities: [],
+  scheduledTasks: [],
+  beds: [],
+  customVarieties: [],
+  taskBypasses: [],
+});
+
+const inBed = (bedId: string) => ({
+  structuredSection: { bedId, position: { start: 0, length: 6, unit: "inches" as const } },
+});
+
+const roundTrip = (data: GardenArchiveData) => {
+  const archive = GardenArchiveService.buildArchive(data, new Date(2025, 6, 1));
+  const result = GardenArchiveService.parseArchive(
+    GardenArchiveService.serializeArchive(archive)
+  );
+  if (!result.success) throw new Error(result.errors.join("\n"));
+  return result.archive;
+};
+
+let idCounter = 0;
+const createId = () => `new-${++idCounter}`;
+
+describe("GardenArchiveService", () => {
+  beforeEach(() => {
+    idCounter = 0;
+  });
+
+  describe("parseArchive", () => {
+    it("revives dates and keeps optional fields after a round trip", () => {
+      const archive = roundTrip({
+        ...emptyData(),
+        plants: [
+          createMockPlant({
+            plantedDate: new Date(2025, 4, 1),
+            currentPlantCount: 3,
+            ...inBed("bed-1"),
+          }),
+        ],
+      });
+
+      const [plant] = archive.data.plants;
+      expect(plant.plantedDate).toEqual(new Date(2025, 4, 1));
+      expect(plant.currentPlantCount).toBe(3);
+      expect(plant.structuredSection?.bedId).toBe("bed-1");
+      expect(archive.exportedAt).toEqual(new Date(2025, 6, 1));
+    });
+
+    it("reports invalid records with their location", () => {
+      const archive = GardenArchiveService.buildArchive({
+        ...emptyData(),
+        plants: [createMockPlant()],
+      });
+      const raw = JSON.parse(GardenArchiveService.serializeArchive(archive));
+      raw.data.plants[0].plantedDate = "not a date";
+
+      const result = GardenArchiveService.parseArchive(JSON.stringify(raw));
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.errors).toContain("plants[0].plantedDate: Invalid date");
+      }
+    });
+
+    it("rejects files that are not archives or come from a newer version", () => {
+      expect(GardenArchiveService.parseArchive("{oops")).toEqual({
+        success: false,
+        errors: ["File is not valid JSON"],
+      });
+
+      const newer = GardenArchiveService.buildArchive(emptyData());
+      const result = GardenArchiveService.parseArchive(
+        JSON.stringify({ ...newer, version: 99 })
+      );
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.errors[0]).toMatch(/^version: Archive was made by a newer version/);
+      }
+    });
+  });
+
+  describe("planImport", () => {
+    it("gives new IDs to every record and rewrites references", () => {
+      const archive = roundTrip({
+        ...emptyData(),
+        beds: [createMockBed()],
+        plants: [createMockPlant(inBed("test-bed-id"))],
+        careActivities: [createMockCareActivity()],
+        scheduledTasks: [
+          createMockScheduledTask({ id: "task-1", coordinatedWith: ["task-2"] }),
+          createMockScheduledTask({ id: "task-2", taskName: "Water after feeding" }),
+        ],
+      });
+
+      const plan = GardenArchiveService.planImport(archive, emptyData(), createId);
+      const bedId = plan.idMap.beds.get("test-bed-id");
+      const plantId = plan.idMap.plants.get("test-plant-id");
+
+      expect(plan.records.plants[0].id).toBe(plantId);
+      expect(plan.records.plants[0].structuredSection?.bedId).toBe(bedId);
+      expect(plan.records.careActivities[0].plantId).toBe(plantId);
+      expect(plan.records.scheduledTasks[0].coordinatedWith).toEqual([
+        plan.idMap.scheduledTasks.get("task-2"),
+      ]);
+      expect(plan.diff.plants).toEqual({ create: 1, duplicates: 0, skipped: 0 });
+      expect(plan.diff.scheduledTasks.create).toBe(2);
+    });
+
+    it("matches records already in the garden instead of duplicating them", () => {
+      const existing: GardenArchiveData = {
+        ...emptyData(),
+        beds: [createMockBed({ id: "existing-bed", name: "test bed" })],
+        plants: [createMockPlant({ id: "existing-plant", ...inBed("existing-bed") })],
+        careActivities: [
+          createMockCareActivity({
+            id: "existing-activity",
+            plantId: "existing-plant",
+            date: new Date(2025, 5, 2, 9),
+          }),
+        ],
+      };
+      const archive = roundTrip({
+        ...emptyData(),
+        beds: [createMockBed()],
+        plants: [createMockPlant(inBed("test-bed-id"))],
+        careActivities: [
+          createMockCareActivity({ date: new Date(2025, 5, 2, 9) }),
+          createMockCareActivity({ id: "activity-2", date: new Date(2025, 5, 4, 9) }),
+        ],
+      });
+
+      const plan = GardenArchiveService.planImport(archive, existing, createId);
+
+      expect(plan.diff.beds).toEqual({ create: 0, duplicates: 1, skipped: 0 });
+      expect(plan.diff.plants).toEqual({ create: 0, duplicates: 1, skipped: 0 });
+      expect(plan.diff.careActivities).toEqual({ create: 1, duplicates: 1, skipped: 0 });
+      expect(plan.records.careActivities[0].plantId).toBe("existing-plant");
+    });
+
+    it("pairs identical batch plants one to one with existing plants", () => {
+      const existing = { ...emptyData(), plants: [createMockPlant({ id: "existing-plant" })] };
+      const archive = roundTrip({
+        ...emptyData(),
+        plants: [createMockPlant({ id: "plant-1" }), createMockPlant({ id: "plant-2" })],
+      });
+
+      const plan = GardenArchiveService.planImport(archive, existing, createId);
+
+      expect(plan.diff.plants).toEqual({ create: 1, duplicates: 1, skipped: 0 });
+      expect(plan.idMap.plants.get("plant-1")).toBe("existing-plant");
+      expect(plan.idMap.plants.get("plant-2")).toBe("new-1");
+    });
+
+    it("skips records whose plant is missing from the archive and warns", () => {
+      const archive = roundTrip({
+        ...emptyData(),
+        careActivities: [createMockCareActivity({ plantId: "deleted-plant" })],
+      });
+
+      const plan = GardenArchiveService.planImport(archive, emptyData(), createId);
+
+      expect(plan.diff.careActivities).toEqual({ create: 0, duplicates: 0, skipped: 1 });
+      expect(plan.warnings).toHaveLength(1);
+      expect(GardenArchiveService.hasChanges(plan)).toBe(false);
+    });
+  });
+});
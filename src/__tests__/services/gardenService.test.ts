@@ -0,0 +1,127 @@
+import { GardenService } from "@/services/gardenService";
+import { UserSettingsService } from "@/services/userSettingsService";
+import { Garden } from "@/types";
+
+const owner = { uid: "owner-1", email: "Owner@Example.com", displayName: "Sam" };
+const editor = { uid: "editor-1", email: "ed@example.com", displayName: null };
+
+const createSharedGarden = (): Garden => {
+  const garden = GardenService.createPersonalGarden(owner, new Date("2025-05-01"));
+  return {
+    ...garden,
+    members: {
+      ...garden.members,
+      [editor.uid]: GardenService.createMember(editor, "editor", new Date("2025-05-02")),
+    },
+    memberIds: [owner.uid, editor.uid],
+  };
+};
+
+describe("GardenService", () => {
+  afterEach(() => {
+    GardenService.reset();
+    UserSettingsService.reset();
+  });
+
+  describe("roles", () => {
+    it("gives the creator of a personal garden the owner role", () => {
+      const garden = GardenService.createPersonalGarden(owner);
+
+      expect(garden.id).toBe(owner.uid);
+      expect(garden.name).toBe("Sam's Garden");
+      expect(garden.members[owner.uid].email).toBe("owner@example.com");
+      expect(GardenService.getRole(garden, owner.uid)).toBe("owner");
+    });
+
+    it("lets owners and editors change data but only owners manage members", () => {
+      const garden = createSharedGarden();
+
+      expect(GardenService.canEdit(GardenService.getRole(garden, editor.uid))).toBe(true);
+      expect(GardenService.canManageMembers(GardenService.getRole(garden, editor.uid))).toBe(false);
+      expect(GardenService.canEdit("viewer")).toBe(false);
+      expect(GardenService.canEdit(GardenService.getRole(garden, "stranger"))).toBe(false);
+      expect(GardenService.canManageMembers("owner")).toBe(true);
+    });
+
+    it("keys invites by garden and normalized email", () => {
+      expect(GardenService.getInviteId("garden-1", " Ed@Example.COM ")).toBe(
+        "garden-1_ed@example.com"
+      );
+    });
+  });
+
+  describe("getActiveGardenId", () => {
+    it("uses the personal garden when none has been picked", () => {
+      expect(GardenService.getActiveGardenId(owner.uid)).toBe(owner.uid);
+      expect(GardenService.getActiveGardenId(undefined)).toBeUndefined();
+    });
+
+    it("uses the picked garden while the user is a member", () => {
+      UserSettingsService.apply(
+        UserSettingsService.withDefaults(editor.uid, { activeGardenId: owner.uid })
+      );
+
+      // Trusted before memberships load
+      expect(GardenService.getActiveGardenId(editor.uid)).toBe(owner.uid);
+
+      GardenService.apply([createSharedGarden()]);
+      expect(GardenService.getActiveGardenId(editor.uid)).toBe(owner.uid);
+    });
+
+    it("falls back to the personal garden after the user is removed", () => {
+      UserSettingsService.apply(
+        UserSettingsService.withDefaults(editor.uid, { activeGardenId: owner.uid })
+      );
+
+      GardenService.apply([GardenService.createPersonalGarden(editor)]);
+
+      expect(GardenService.getActiveGardenId(editor.uid)).toBe(editor.uid);
+    });
+  });
+
+  describe("getLoggedByName", () => {
+    const garden = createSharedGarden();
+
+    it("names the current user as you", () => {
+      expect(
+        GardenService.getLoggedByName({ loggedBy: { userId: owner.uid } }, garden, owner.uid)
+      ).toBe("You");
+    });
+
+    it("prefers the member's name in the garden, then the saved name", () => {
+      expect(
+        GardenService.getLoggedByName(
+          { loggedBy: { userId: owner.uid, displayName: "Old name" } },
+          garden,
+          editor.uid
+        )
+      ).toBe("Sam");
+      expect(
+        GardenService.getLoggedByName(
+          { loggedBy: { userId: "former-member", displayName: "Alex" } },
+          garden,
+          owner.uid
+        )
+      ).toBe("Alex");
+      expect(
+        GardenService.getLoggedByName({ loggedBy: { userId: editor.uid } }, garden, owner.uid)
+      ).toBe("ed@example.com");
+    });
+
+    it("returns null for activities without attribution", () => {
+      expect(GardenService.getLoggedByName({}, garden, owner.uid)).toBeNull();
+    });
+  });
+
+  it("notifies subscribers when gardens change", () => {
+    const listener = jest.fn();
+    const unsubscribe = GardenService.subscribe(listener);
+    const gardens = [createSharedGarden()];
+
+    GardenService.apply(gardens);
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledWith(gardens);
+    expect(GardenService.isShared(gardens[0])).toBe(true);
+  });
+});
@@ -0,0 +1,132 @@
+// src/__tests__/services/germinationAnalyticsService.test.ts
+import { GerminationAnalyticsService } from "@/services/germinationAnalyticsService";
+import { CareActivityDetails } from "@/types";
+import { createMockCareActivity, createMockPlant } from "../test-utils";
+
+const thin = (
+  plantId: string,
+  date: Date,
+  details: Omit<CareActivityDetails, "type">
+) =>
+  createMockCareActivity({
+    id: `thin-${plantId}-${date.getTime()}`,
+    plantId,
+    type: "thin",
+    date,
+    details: { type: "thin", ...details },
+  });
+
+describe("GerminationAnalyticsService", () => {
+  const lettuceA = createMockPlant({
+    id: "lettuce-a",
+    varietyId: "lettuce",
+    varietyName: "Lettuce",
+    soilMix: "Leafy Greens Mix: 40% Coco Coir, 25% Perlite",
+    container: "🏗️ North Bed - Row 1",
+    section: "Row 1",
+    seedsSown: 4,
+  });
+  const lettuceB = createMockPlant({
+    id: "lettuce-b",
+    varietyId: "lettuce",
+    varietyName: "Lettuce",
+    soilMix: "Leafy Greens Mix: 40% Coco Coir, 25% Perlite",
+    container: "🏗️ North Bed - Row 2",
+    section: "Row 2",
+    seedsSown: 4,
+  });
+  const basil = createMockPlant({
+    id: "basil",
+    varietyId: "basil",
+    varietyName: "Basil",
+    container: "🪣 Kitchen Pot",
+    originalPlantCount: 5,
+  });
+
+  const activities = [
+    thin("lettuce-a", new Date(2025, 4, 20), {
+      originalCount: 2,
+      finalCount: 1,
+      removedPlants: [{ condition: "weak", action: "compost" }],
+    }),
+    // A later thinning's original count doesn't replace the seedlings that came up
+    thin("lettuce-a", new Date(2025, 4, 10), { originalCount: 3, finalCount: 2 }),
+    thin("lettuce-b", new Date(2025, 4, 10), {
+      originalCount: 3,
+      finalCount: 1,
+      removedPlants: [
+        { condition: "healthy", action: "transplant" },
+        { condition: "diseased", action: "discard" },
+      ],
+    }),
+  ];
+
+  it("takes seedlings from the first thinning and counts unhealthy removals as lost", () => {
+    const establishments = GerminationAnalyticsService.getPlantEstablishments(
+      [lettuceA, lettuceB, basil, createMockPlant({ id: "untracked" })],
+      activities
+    );
+
+    expect(
+      establishments.map(({ plant, seedsSown, seedlings, lost }) => ({
+        id: plant.id,
+        seedsSown,
+        seedlings,
+        lost,
+      }))
+    ).toEqual([
+      { id: "lettuce-a", seedsSown: 4, seedlings: 3, lost: 1 },
+      { id: "lettuce-b", seedsSown: 4, seedlings: 3, lost: 1 },
+      { id: "basil", seedsSown: undefined, seedlings: 5, lost: 0 },
+    ]);
+  });
+
+  it("pools rates per variety and suggests seeds per container", () => {
+    const { byVariety } = GerminationAnalyticsService.getReport(
+      [lettuceA, lettuceB, basil],
+      activities
+    );
+    const lettuce = byVariety.find((stats) => stats.key === "lettuce");
+
+    expect(lettuce).toMatchObject({
+      plantings: 2,
+      seedsSown: 8,
+      germinated: 6,
+      seedlings: 6,
+      lost: 2,
+      germinationRate: 0.75,
+    });
+    expect(lettuce?.survivalRate).toBeCloseTo(4 / 6);
+    // Half of seeds become healthy seedlings: 4 seeds gives a 90% chance of one
+    expect(lettuce?.suggestedSeedsPerContainer).toBe(4);
+  });
+
+  it("reports survival without a suggestion when seeds sown weren't recorded", () => {
+    const { byVariety } = GerminationAnalyticsService.getReport([basil], []);
+
+    expect(byVariety).toEqual([
+      expect.objectContaining({
+        key: "basil",
+        germinationRate: null,
+        survivalRate: 1,
+        suggestedSeedsPerContainer: null,
+      }),
+    ]);
+  });
+
+  it("groups by soil mix name and by bed without the section", () => {
+    const { bySoilMix, byBed } = GerminationAnalyticsService.getReport(
+      [lettuceA, lettuceB, basil],
+      activities
+    );
+
+    expect(bySoilMix.map((stats) => [stats.label, stats.plantings])).toEqual([
+      ["Leafy Greens Mix", 2],
+      ["Potting Mix", 1],
+    ]);
+    expect(byBed.map((stats) => [stats.label, stats.plantings])).toEqual([
+      ["🏗️ North Bed", 2],
+      ["🪣 Kitchen Pot", 1],
+    ]);
+  });
+});
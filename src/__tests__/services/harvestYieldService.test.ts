@@ -0,0 +1,164 @@
+import { HarvestYieldService } from "@/services/harvestYieldService";
+import { CareActivityRecord } from "@/types";
+import { createMockBed, createMockCareActivity, createMockPlant } from "../test-utils";
+
+const albion = { varietyId: "variety-1", varietyName: "Albion Strawberry" };
+
+const harvestActivity = (
+  details: Partial<CareActivityRecord["details"]>,
+  overrides: Partial<CareActivityRecord> = {}
+) =>
+  createMockCareActivity({
+    id: `harvest-${Math.random()}`,
+    plantId: "plant-1",
+    type: "harvest",
+    date: new Date("2025-06-15"),
+    details: { type: "harvest", ...details },
+    ...overrides,
+  });
+
+describe("HarvestYieldService", () => {
+  describe("weight conversion", () => {
+    it("converts weights to grams", () => {
+      expect(HarvestYieldService.toGrams({ amount: 1, unit: "kg" })).toBe(1000);
+      expect(HarvestYieldService.toGrams({ amount: 1, unit: "lbs" })).toBeCloseTo(453.592, 3);
+      expect(HarvestYieldService.toGrams({ amount: 16, unit: "oz" })).toBeCloseTo(453.592, 3);
+    });
+
+    it("formats grams in the requested unit", () => {
+      expect(HarvestYieldService.formatWeight(453.59237, "lbs")).toBe("1 lbs");
+      expect(HarvestYieldService.formatWeight(1500, "kg")).toBe("1.5 kg");
+    });
+  });
+
+  describe("getSeason", () => {
+    it("maps months to meteorological seasons", () => {
+      expect(HarvestYieldService.getSeason(new Date(2025, 3, 10))).toEqual({ season: "spring", year: 2025 });
+      expect(HarvestYieldService.getSeason(new Date(2025, 6, 10))).toEqual({ season: "summer", year: 2025 });
+      expect(HarvestYieldService.getSeason(new Date(2025, 9, 10))).toEqual({ season: "fall", year: 2025 });
+    });
+
+    it("counts December toward the following winter", () => {
+      expect(HarvestYieldService.getSeason(new Date(2025, 11, 20))).toEqual({ season: "winter", year: 2026 });
+      expect(HarvestYieldService.getSeason(new Date(2026, 0, 20))).toEqual({ season: "winter", year: 2026 });
+    });
+  });
+
+  describe("buildReport", () => {
+    it("totals weight and pieces per plant", () => {
+      const plant = createMockPlant({ ...albion, id: "plant-1" });
+      const activities = [
+        harvestActivity({ harvestWeight: { amount: 100, unit: "g" }, harvestCount: 8 }),
+        harvestActivity({ harvestWeight: { amount: 0.2, unit: "kg" }, harvestCount: 12 }),
+        createMockCareActivity({ plantId: "plant-1" }),
+      ];
+
+      const summary = HarvestYieldService.calculatePlantYield(plant, activities);
+
+      expect(summary.harvestEvents).toBe(2);
+      expect(summary.totalWeightGrams).toBeCloseTo(300);
+      expect(summary.totalPieces).toBe(20);
+    });
+
+    it("splits section harvests across the plants they were logged for", () => {
+      const plants = [
+        createMockPlant({ ...albion, id: "a" }),
+        createMockPlant({ ...albion, id: "b" }),
+      ];
+      const sectionDetails = {
+        sectionBased: true,
+        sectionId: "section-1",
+        harvestWeight: { amount: 400, unit: "g" as const },
+        harvestCount: 10,
+      };
+      const activities = [
+        harvestActivity(sectionDetails, { plantId: "a" }),
+        harvestActivity(sectionDetails, { plantId: "b" }),
+      ];
+
+      const report = HarvestYieldService.buildReport(plants, activities);
+
+      expect(report.totals.totalWeightGrams).toBeCloseTo(400);
+      expect(report.totals.totalPieces).toBe(10);
+      expect(report.totals.harvestEvents).toBe(1);
+      expect(report.byPlant.map((p) => p.totalWeightGrams)).toEqual([200, 200]);
+    });
+
+    it("credits one plant its share of a section harvest on its own", () => {
+      const plant = createMockPlant({ ...albion, id: "a" });
+      const activities = [
+        harvestActivity(
+          {
+            sectionBased: true,
+            sectionId: "section-1",
+            plantsInSection: 3,
+            harvestWeight: { amount: 600, unit: "g" },
+            harvestCount: 9,
+          },
+          { plantId: "a" }
+        ),
+      ];
+
+      const summary = HarvestYieldService.calculatePlantYield(plant, activities);
+
+      expect(summary.harvestEvents).toBe(1);
+      expect(summary.totalWeightGrams).toBeCloseTo(200);
+      expect(summary.totalPieces).toBe(3);
+    });
+
+    it("ranks varieties by yield per plant", () => {
+      const plants = [
+        createMockPlant({ ...albion, id: "s1" }),
+        createMockPlant({ ...albion, id: "s2" }),
+        createMockPlant({ id: "l1", varietyId: "lettuce", varietyName: "Lettuce" }),
+      ];
+      const activities = [
+        harvestActivity({ harvestWeight: { amount: 300, unit: "g" } }, { plantId: "s1" }),
+        harvestActivity({ harvestWeight: { amount: 200, unit: "g" } }, { plantId: "l1" }),
+      ];
+
+      const report = HarvestYieldService.buildReport(plants, activities);
+
+      expect(report.byVariety[0]).toMatchObject({
+        varietyName: "Lettuce",
+        plantCount: 1,
+        weightPerPlantGrams: 200,
+      });
+      expect(report.byVariety[1]).toMatchObject({
+        varietyName: "Albion Strawberry",
+        plantCount: 2,
+        weightPerPlantGrams: 150,
+      });
+    });
+
+    it("groups yield by bed and season", () => {
+      const bed = createMockBed({ id: "bed-1", name: "North Bed" });
+      const plants = [
+        createMockPlant({
+          ...albion,
+          id: "plant-1",
+          structuredSection: { bedId: "bed-1", position: { start: 0, length: 12, unit: "inches" } },
+        }),
+      ];
+      const activities = [
+        harvestActivity({ harvestCount: 3 }, { date: new Date(2025, 5, 1) }),
+        harvestActivity({ harvestCount: 5 }, { date: new Date(2025, 8, 1) }),
+      ];
+
+      const report = HarvestYieldService.buildReport(plants, activities, [bed]);
+
+      expect(report.byBed).toHaveLength(1);
+      expect(report.byBed[0]).toMatchObject({ bedName: "North Bed", totalPieces: 8 });
+      expect(report.bySeason.map((s) => s.label)).toEqual(["Summer 2025", "Fall 2025"]);
+    });
+
+    it("ignores harvests for plants outside the report", () => {
+      const report = HarvestYieldService.buildReport(
+        [createMockPlant({ ...albion, id: "plant-1" })],
+        [harvestActivity({ harvestCount: 4 }, { plantId: "other" })]
+      );
+
+      expect(report.totals.harvestEvents).toBe(0);
+    });
+  });
+});
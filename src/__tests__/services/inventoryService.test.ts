@@ -0,0 +1,116 @@
+// src/__tests__/services/inventoryService.test.ts
+import { InventoryService } from "@/services/inventoryService";
+import { InventoryItem } from "@/types";
+import { createMockScheduledTask } from "../test-utils";
+
+const createItem = (overrides: Partial<InventoryItem> = {}): InventoryItem => ({
+  id: "fish",
+  name: "Neptune's Harvest Fish + Seaweed",
+  category: "fertilizer",
+  form: "liquid",
+  containerSize: 36,
+  remaining: 36,
+  unit: "oz",
+  createdAt: new Date(2025, 0, 1),
+  ...overrides,
+});
+
+describe("InventoryService", () => {
+  describe("estimateUsage", () => {
+    it("applies the dilution rate to the water volume", () => {
+      const used = InventoryService.estimateUsage(createItem(), {
+        dilution: "1-2 Tbsp/gal",
+        amount: "2 gal",
+      });
+
+      // 3 Tbsp is 1.5 fl oz
+      expect(used).toBeCloseTo(1.5);
+    });
+
+    it("falls back to the method's usual water volume", () => {
+      const used = InventoryService.estimateUsage(createItem({ unit: "ml" }), {
+        dilution: "1 tsp/quart",
+        method: "soil-drench",
+      });
+
+      expect(used).toBeCloseTo((250 / 946.352946) * 4.92892159375);
+    });
+
+    it("takes dry amounts as given, using the item's density for spoon measures", () => {
+      const bonemeal = createItem({ form: "dry", unit: "g", gramsPerTablespoon: 10 });
+
+      expect(
+        InventoryService.estimateUsage(bonemeal, { dilution: "As directed", amount: "2 Tbsp/container" })
+      ).toBeCloseTo(20);
+      expect(
+        InventoryService.estimateUsage(createItem({ form: "dry", unit: "lbs" }), { amount: "4 oz" })
+      ).toBeCloseTo(0.25);
+      expect(
+        InventoryService.estimateUsage(createItem({ form: "dry", unit: "g" }), { amount: "1 tsp/container" })
+      ).toBeNull();
+    });
+  });
+
+  describe("findItemForProduct", () => {
+    const items = [createItem(), createItem({ id: "kelp", name: "Kelp" })];
+
+    it("prefers exact matches and ignores case and punctuation", () => {
+      expect(InventoryService.findItemForProduct(items, "kelp")?.id).toBe("kelp");
+      expect(
+        InventoryService.findItemForProduct(items, "neptunes harvest fish seaweed")?.id
+      ).toBe("fish");
+    });
+
+    it("matches a product name that contains the item name", () => {
+      expect(InventoryService.findItemForProduct(items, "Kelp meal tea")?.id).toBe("kelp");
+      expect(InventoryService.findItemForProduct(items, "Bone meal")).toBeUndefined();
+    });
+  });
+
+  describe("getShortfalls", () => {
+    const now = new Date(2025, 5, 1);
+    const fertilizeTask = (id: string, dueDate: Date, overrides = {}) =>
+      createMockScheduledTask({
+        id,
+        taskType: "fertilize",
+        dueDate,
+        details: {
+          type: "fertilize",
+          product: "Neptune's Harvest Fish + Seaweed",
+          dilution: "1-2 Tbsp/gal",
+          amount: "2 gal",
+          method: "soil-drench",
+        },
+        ...overrides,
+      });
+
+    it("totals pending tasks within the horizon against what's on hand", () => {
+      const shortfalls = InventoryService.getShortfalls(
+        [createItem({ remaining: 2 }), createItem({ id: "kelp", name: "Kelp" })],
+        [
+          fertilizeTask("t2", new Date(2025, 5, 10)),
+          fertilizeTask("t1", new Date(2025, 5, 3)),
+          fertilizeTask("t3", new Date(2025, 5, 20)),
+          fertilizeTask("t4", new Date(2025, 5, 4), { status: "completed" }),
+        ],
+        now
+      );
+
+      expect(shortfalls).toHaveLength(1);
+      expect(shortfalls[0]).toMatchObject({ remaining: 2, taskCount: 2 });
+      expect(shortfalls[0].item.id).toBe("fish");
+      expect(shortfalls[0].required).toBeCloseTo(3);
+      expect(shortfalls[0].firstDueDate).toEqual(new Date(2025, 5, 3));
+    });
+
+    it("is empty when stock covers every task", () => {
+      expect(
+        InventoryService.getShortfalls(
+          [createItem()],
+          [fertilizeTask("t1", new Date(2025, 5, 3))],
+          now
+        )
+      ).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { MeasurementService } from "@/services/measurementService";
+import { BedRecord, CareActivityDetails, VolumeUnit, WeightUnit } from "@/types";
+
+describe("MeasurementService", () => {
+  describe("conversion", () => {
+    it("converts between volume, weight, length and position units", () => {
+      expect(MeasurementService.convertVolume(1, "gal", "cups")).toBe(16);
+      expect(MeasurementService.convertVolume(1, "L", "ml")).toBe(1000);
+      expect(MeasurementService.convertVolume(8, "oz", "ml")).toBeCloseTo(236.588, 3);
+      expect(MeasurementService.convertWeight(1, "lbs", "oz")).toBe(16);
+      expect(MeasurementService.convertLength(1, "ft", "inches")).toBe(12);
+      expect(MeasurementService.convertPosition(1, "feet", "cm")).toBe(30.48);
+      expect(MeasurementService.convertTemperature(212, "F", "C")).toBe(100);
+      expect(MeasurementService.convertTemperature(-40, "C", "F")).toBe(-40);
+    });
+
+    it("returns the original value after converting there and back", () => {
+      const volumeUnits: VolumeUnit[] = ["oz", "ml", "gal", "L", "cups"];
+      const weightUnits: WeightUnit[] = ["oz", "lbs", "g", "kg"];
+
+      for (const value of [0.1, 7, 16.5, 333.3]) {
+        for (const from of volumeUnits) {
+          for (const to of volumeUnits) {
+            const there = MeasurementService.convertVolume(value, from, to);
+            expect(MeasurementService.convertVolume(there, to, from)).toBe(value);
+          }
+        }
+        for (const from of weightUnits) {
+          for (const to of weightUnits) {
+            const there = MeasurementService.convertWeight(value, from, to);
+            expect(MeasurementService.convertWeight(there, to, from)).toBe(value);
+          }
+        }
+        const celsius = MeasurementService.convertTemperature(value, "F", "C");
+        expect(MeasurementService.convertTemperature(celsius, "C", "F")).toBe(value);
+      }
+    });
+  });
+
+  describe("normalization", () => {
+    it("maps legacy and free-form spellings onto the unit types", () => {
+      expect(MeasurementService.normalizeVolumeUnit("liters")).toBe("L");
+      expect(MeasurementService.normalizeVolumeUnit("Gallons")).toBe("gal");
+      expect(MeasurementService.normalizeVolumeUnit("fl-oz")).toBeNull();
+      expect(MeasurementService.normalizeVolumeUnit("fl oz")).toBe("oz");
+      expect(MeasurementService.normalizeWeightUnit("lb")).toBe("lbs");
+      expect(MeasurementService.normalizeLengthUnit("feet")).toBe("ft");
+      expect(MeasurementService.normalizePositionUnit("ft")).toBe("feet");
+      expect(MeasurementService.normalizePositionUnit("mm")).toBe("mm");
+    });
+  });
+
+  describe("formatting", () => {
+    it("shows everyday units for the chosen unit system", () => {
+      expect(MeasurementService.formatVolume(16, "oz", "imperial")).toBe("16 oz");
+      expect(MeasurementService.formatVolume(256, "oz", "imperial")).toBe("2 gal");
+      expect(MeasurementService.formatVolume(16, "oz", "metric")).toBe("473 ml");
+      expect(MeasurementService.formatVolume(2500, "ml", "metric")).toBe("2.5 L");
+      expect(MeasurementService.formatWeight(1500, "g", "metric")).toBe("1.5 kg");
+      expect(MeasurementService.formatWeight(1500, "g", "imperial")).toBe("3.31 lbs");
+      expect(MeasurementService.formatLength(30, "inches", "imperial")).toBe("2.5 ft");
+      expect(MeasurementService.formatTemperature(75, "F", "C")).toBe("24°C");
+    });
+
+    it("uses the user's saved unit system by default", () => {
+      expect(MeasurementService.getUnitSystem()).toBe("imperial");
+      expect(
+        MeasurementService.getUnitSystem({ units: { volume: "liters", temperature: "celsius" } })
+      ).toBe("metric");
+    });
+  });
+
+  describe("record migration", () => {
+    it("rewrites mismatched unit strings on care activity details", () => {
+      const details = {
+        type: "water",
+        waterAmount: 2,
+        waterUnit: "liters",
+        recommendedAmount: { value: 16, unit: "oz" },
+        harvestWeight: { amount: 1, unit: "lb" },
+      } as unknown as CareActivityDetails;
+
+      const migrated = MeasurementService.migrateCareActivityDetails(details);
+
+      expect(migrated?.waterUnit).toBe("L");
+      expect(migrated?.recommendedAmount).toEqual({ value: 16, unit: "oz" });
+      expect(migrated?.harvestWeight).toEqual({ amount: 1, unit: "lbs" });
+      expect(MeasurementService.migrateCareActivityDetails(migrated!)).toBeNull();
+    });
+
+    it("rewrites bed dimensions that use length units", () => {
+      const bed = {
+        id: "bed-1",
+        name: "Front Bed",
+        dimensions: { length: 8, width: 4, unit: "ft" },
+        type: "raised-bed",
+        isActive: true,
+        createdAt: new Date(2025, 3, 1),
+      } as unknown as BedRecord;
+
+      expect(MeasurementService.migrateBedRecord(bed)?.dimensions.unit).toBe("feet");
+    });
+  });
+});
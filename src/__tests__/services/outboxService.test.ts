@@ -0,0 +1,167 @@
+// src/__tests__/services/outboxService.test.ts
+import {
+  addDoc,
+  deleteDoc,
+  doc,
+  DocumentReference,
+  getDoc,
+  setDoc,
+  updateDoc,
+} from "firebase/firestore";
+import { FirebaseOutboxService } from "@/services/firebase/outboxService";
+import { FirebaseCareActivityService } from "@/services/firebase/careActivityService";
+import { db as localDb } from "@/types/database";
+
+const mockDoc = doc as jest.Mock;
+const mockGetDoc = getDoc as jest.Mock;
+const mockSetDoc = setDoc as jest.Mock;
+const mockUpdateDoc = updateDoc as jest.Mock;
+
+const ref = (collectionId: string, docId: string) =>
+  ({ id: docId, parent: { id: collectionId } } as unknown as DocumentReference);
+
+const remoteDoc = (updatedAt?: Date) => ({
+  exists: () => updatedAt !== undefined,
+  data: () => ({ updatedAt: updatedAt && { toDate: () => updatedAt } }),
+});
+
+describe("FirebaseOutboxService", () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockDoc.mockImplementation((_parent, collectionId: string, docId: string) =>
+      ref(collectionId, docId)
+    );
+    await localDb.outbox.clear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("resolveConflict", () => {
+    const queuedAt = new Date(2025, 5, 10, 12, 0);
+
+    it("always applies creates", () => {
+      expect(
+        FirebaseOutboxService.resolveConflict(
+          { operation: "create", queuedAt },
+          { exists: true, updatedAt: new Date(2025, 5, 11) }
+        )
+      ).toBe("apply");
+    });
+
+    it("keeps the server copy when it changed after the offline edit", () => {
+      expect(
+        FirebaseOutboxService.resolveConflict(
+          { operation: "update", queuedAt },
+          { exists: true, updatedAt: new Date(2025, 5, 10, 13, 0) }
+        )
+      ).toBe("supersede");
+      expect(
+        FirebaseOutboxService.resolveConflict(
+          { operation: "update", queuedAt },
+          { exists: true, updatedAt: new Date(2025, 5, 10, 11, 0) }
+        )
+      ).toBe("apply");
+    });
+
+    it("drops edits to documents that no longer exist", () => {
+      expect(
+        FirebaseOutboxService.resolveConflict(
+          { operation: "delete", queuedAt },
+          { exists: false }
+        )
+      ).toBe("supersede");
+    });
+  });
+
+  it("queues care logs while offline and returns a usable ID", async () => {
+    jest.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+    mockDoc.mockReturnValueOnce(ref("careActivities", "offline-log"));
+
+    const id = await FirebaseCareActivityService.createCareActivity(
+      {
+        plantId: "plant-1",
+        type: "water",
+        date: new Date(2025, 5, 10),
+        details: { type: "water" },
+      },
+      "user-1"
+    );
+
+    expect(id).toBe("offline-log");
+    expect(addDoc).not.toHaveBeenCalled();
+    const [entry] = await FirebaseOutboxService.getEntries();
+    expect(entry).toMatchObject({
+      collection: "careActivities",
+      docId: "offline-log",
+      operation: "create",
+      status: "pending",
+      data: { plantId: "plant-1", userId: "user-1" },
+    });
+  });
+
+  it("replays in order, skipping superseded edits", async () => {
+    await FirebaseOutboxService.queueUpdate(ref("plants", "stale"), { name: "Old" });
+    await FirebaseOutboxService.queueUpdate(ref("plants", "fresh"), { name: "New" });
+    await FirebaseOutboxService.queueDelete(ref("careActivities", "log"));
+    mockGetDoc
+      .mockResolvedValueOnce(remoteDoc(new Date(Date.now() + 60_000)))
+      .mockResolvedValueOnce(remoteDoc(new Date(2020, 0, 1)))
+      .mockResolvedValueOnce(remoteDoc(new Date(2020, 0, 1)));
+
+    const result = await FirebaseOutboxService.replay();
+
+    expect(result).toEqual({ applied: 2, superseded: 1, failed: 0 });
+    expect(mockUpdateDoc).toHaveBeenCalledTimes(1);
+    expect(mockUpdateDoc).toHaveBeenCalledWith(
+      ref("plants", "fresh"),
+      expect.objectContaining({ name: "New", updatedAt: expect.any(Date) })
+    );
+    expect(deleteDoc).toHaveBeenCalledWith(ref("careActivities", "log"));
+    expect(await FirebaseOutboxService.getEntries()).toEqual([]);
+  });
+
+  it("holds back later edits to a document whose earlier write failed", async () => {
+    await FirebaseOutboxService.queueUpdate(ref("scheduledTasks", "task"), {
+      status: "completed",
+    });
+    await FirebaseOutboxService.queueUpdate(ref("scheduledTasks", "task"), {
+      status: "skipped",
+    });
+    mockGetDoc.mockResolvedValue(remoteDoc(new Date(2020, 0, 1)));
+    mockUpdateDoc.mockRejectedValueOnce(new Error("Missing or insufficient permissions"));
+    jest.spyOn(console, "error").mockImplementation(() => {});
+
+    const result = await FirebaseOutboxService.replay();
+
+    expect(result).toEqual({ applied: 0, superseded: 0, failed: 1 });
+    expect(mockUpdateDoc).toHaveBeenCalledTimes(1);
+    expect(
+      (await FirebaseOutboxService.getEntries()).map(({ status, lastError }) => ({
+        status,
+        lastError,
+      }))
+    ).toEqual([
+      { status: "failed", lastError: "Missing or insufficient permissions" },
+      { status: "pending", lastError: undefined },
+    ]);
+
+    await FirebaseOutboxService.retryFailed();
+    expect(mockUpdateDoc).toHaveBeenCalledTimes(3);
+    expect(await FirebaseOutboxService.getEntries()).toEqual([]);
+  });
+
+  it("leaves everything queued while Firestore is unreachable", async () => {
+    mockDoc.mockReturnValueOnce(ref("plants", "new-plant"));
+    await FirebaseOutboxService.queueCreate({} as never, { name: "Basil" });
+    mockSetDoc.mockRejectedValueOnce(Object.assign(new Error("offline"), { code: "unavailable" }));
+
+    const result = await FirebaseOutboxService.replay();
+
+    expect(result).toEqual({ applied: 0, superseded: 0, failed: 0 });
+    expect(await FirebaseOutboxService.getEntries()).toEqual([
+      expect.objectContaining({ status: "pending", attempts: 0 }),
+    ]);
+  });
+});
@@ -0,0 +1,182 @@
+// src/__tests__/services/plantIssueService.test.ts
+import { PlantIssueService } from "@/services/plantIssueService";
+import { CareActivityRecord, IssueDetails } from "@/types";
+import { PlantGroup } from "@/utils/plantGrouping";
+import { createMockPlant } from "../test-utils";
+
+const aphids: IssueDetails = {
+  issueId: "issue-1",
+  catalogId: "aphids",
+  name: "Aphids",
+  category: "pest",
+  affectedParts: ["leaves"],
+  severity: "moderate",
+  spread: "isolated",
+  status: "open",
+};
+
+const createIssueActivity = (
+  id: string,
+  plantId: string,
+  date: Date,
+  issue: IssueDetails
+): CareActivityRecord => ({
+  id,
+  plantId,
+  type: "issue",
+  date,
+  details: { type: "issue", issue },
+  createdAt: date,
+  updatedAt: date,
+});
+
+const createGroup = (
+  id: string,
+  plants: ReturnType<typeof createMockPlant>[],
+  container: string
+): PlantGroup => ({
+  id,
+  varietyId: plants[0].varietyId,
+  varietyName: plants[0].varietyName,
+  plantedDate: plants[0].plantedDate,
+  location: plants[0].location,
+  container,
+  soilMix: plants[0].soilMix,
+  plants,
+  setupType: "same-container",
+});
+
+describe("PlantIssueService", () => {
+  describe("summarizeIssues", () => {
+    it("folds reports into the latest state and keeps the last treatment", () => {
+      const issues = PlantIssueService.summarizeIssues([
+        createIssueActivity("a1", "plant-1", new Date(2025, 5, 1), {
+          ...aphids,
+          treatment: { product: "Neem oil", method: "foliar-spray" },
+        }),
+        createIssueActivity("a2", "plant-1", new Date(2025, 5, 5), {
+          ...aphids,
+          spread: "spreading",
+        }),
+      ]);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({
+        spread: "spreading",
+        reportCount: 2,
+        treatmentCount: 1,
+        lastActivityId: "a2",
+        treatment: { product: "Neem oil" },
+      });
+      expect(issues[0].firstReported).toEqual(new Date(2025, 5, 1));
+    });
+
+    it("lists open issues first, most severe first", () => {
+      const issues = PlantIssueService.summarizeIssues([
+        createIssueActivity("a1", "plant-1", new Date(2025, 5, 3), {
+          ...aphids,
+          status: "resolved",
+        }),
+        createIssueActivity("a2", "plant-1", new Date(2025, 5, 2), {
+          ...aphids,
+          issueId: "issue-2",
+          catalogId: "powdery-mildew",
+          name: "Powdery mildew",
+          severity: "severe",
+        }),
+        createIssueActivity("a3", "plant-1", new Date(2025, 5, 4), {
+          ...aphids,
+          issueId: "issue-3",
+          severity: "low",
+        }),
+      ]);
+
+      expect(issues.map((issue) => issue.issueId)).toEqual(["issue-2", "issue-3", "issue-1"]);
+    });
+  });
+
+  describe("buildFollowUpTasks", () => {
+    const treatedAt = new Date(2025, 5, 1, 9);
+
+    it("schedules a re-inspection per catalogue interval after a treatment", () => {
+      const tasks = PlantIssueService.buildFollowUpTasks(
+        "plant-1",
+        { ...aphids, severity: "severe", treatment: { product: "Neem oil", method: "foliar-spray" } },
+        treatedAt,
+        "vegetative"
+      );
+
+      expect(tasks.map((task) => task.dueDate)).toEqual([
+        new Date(2025, 5, 4, 9),
+        new Date(2025, 5, 8, 9),
+      ]);
+      expect(tasks[0]).toMatchObject({
+        plantId: "plant-1",
+        taskName: "Re-inspect for Aphids",
+        taskType: "observe",
+        status: "pending",
+        priority: "high",
+        details: { type: "issue-follow-up", issueId: "issue-1", product: "Neem oil" },
+      });
+    });
+    it("moves later re-inspections along when one is rescheduled", () => {
+      const [first, second] = PlantIssueService.buildFollowUpTasks(
+        "plant-1",
+        { ...aphids, treatment: { product: "Neem oil", method: "foliar-spray" } },
+        treatedAt,
+        "vegetative"
+      );
+
+      expect(first.coordinatedWith).toEqual([second.id]);
+      expect(second.coordinatedWith).toBeUndefined();
+    });
+
+    it("skips untreated and resolved issues", () => {
+      const treatment = { product: "Neem oil", method: "foliar-spray" } as const;
+
+      expect(PlantIssueService.buildFollowUpTasks("plant-1", aphids, treatedAt, "vegetative")).toEqual([]);
+      expect(
+        PlantIssueService.buildFollowUpTasks(
+          "plant-1",
+          { ...aphids, status: "resolved", treatment },
+          treatedAt,
+          "vegetative"
+        )
+      ).toEqual([]);
+    });
+  });
+
+  describe("getContainerMateWarnings", () => {
+    const basil = createMockPlant({ id: "basil-1", varietyName: "Basil", container: "Bed A" });
+    const tomato = createMockPlant({
+      id: "tomato-1",
+      varietyId: "tomato",
+      varietyName: "Tomato",
+      container: "Bed A",
+    });
+    const groups = [createGroup("basil", [basil], "Bed A"), createGroup("tomato", [tomato], "Bed A")];
+
+    it("warns about spreading issues on container-mates", () => {
+      const warnings = PlantIssueService.getContainerMateWarnings("basil-1", groups, [
+        createIssueActivity("a1", "tomato-1", new Date(2025, 5, 1), aphids),
+      ]);
+
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0].issue.name).toBe("Aphids");
+      expect(warnings[0].sourcePlant.id).toBe("tomato-1");
+    });
+
+    it("ignores issues that do not spread and the plant's own issues", () => {
+      const warnings = PlantIssueService.getContainerMateWarnings("basil-1", groups, [
+        createIssueActivity("a1", "tomato-1", new Date(2025, 5, 1), {
+          ...aphids,
+          catalogId: "blossom-end-rot",
+          name: "Blossom end rot",
+        }),
+        createIssueActivity("a2", "basil-1", new Date(2025, 5, 1), aphids),
+      ]);
+
+      expect(warnings).toEqual([]);
+    });
+  });
+});
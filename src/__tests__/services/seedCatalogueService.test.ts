@@ -0,0 +1,142 @@
+import { varieties } from "@/data";
+import { SEED_CATALOGUE_VERSION } from "@/data/catalogueMigrations";
+import { PlantRecord, VarietyRecord } from "@/types";
+import { db } from "@/types/database";
+import {
+  CatalogueUpdate,
+  SeedCatalogueService,
+} from "@/services/seedCatalogueService";
+
+const now = new Date("2025-06-01T12:00:00.000Z");
+const installedAt = new Date("2025-01-01T00:00:00.000Z");
+let nextId = 0;
+const createId = () => `new-${++nextId}`;
+
+// The catalogue as an installation stored it, with its own ids and timestamps
+const installed = (): VarietyRecord[] =>
+  varieties.map((variety, i) => ({
+    ...JSON.parse(JSON.stringify(variety)),
+    id: `db-${i}`,
+    createdAt: installedAt,
+    updatedAt: installedAt,
+  }));
+
+const plant = (overrides: Partial<PlantRecord>): PlantRecord => ({
+  id: "plant-1",
+  varietyId: "db-0",
+  varietyName: varieties[0].name,
+  plantedDate: new Date("2025-05-01"),
+  location: "Indoor",
+  container: "5 gal",
+  isActive: true,
+  createdAt: now,
+  updatedAt: now,
+  ...overrides,
+});
+
+describe("SeedCatalogueService", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    nextId = 0;
+  });
+
+  describe("planMigration", () => {
+    it("leaves an up-to-date catalogue alone", () => {
+      const { records, update } = SeedCatalogueService.planMigration(installed(), 1, now, createId);
+
+      expect(records).toEqual([]);
+      expect(update).toMatchObject({ fromVersion: 1, toVersion: SEED_CATALOGUE_VERSION, added: [], updated: [] });
+    });
+
+    it("updates changed built-ins in place and adds missing ones", () => {
+      const existing = installed();
+      const stale = existing[0];
+      stale.growthTimeline = { ...stale.growthTimeline, vegetative: 1 };
+      const missing = existing.splice(1, 1)[0];
+
+      const { records, update } = SeedCatalogueService.planMigration(existing, 1, now, createId);
+
+      expect(update.updated).toEqual([stale.name]);
+      expect(update.added).toEqual([missing.name]);
+      expect(update.varietyIds).toEqual(["db-0", "new-1"]);
+      expect(records[0]).toEqual({
+        ...varieties[0],
+        id: "db-0",
+        createdAt: installedAt,
+        updatedAt: now,
+      });
+      expect(records[1]).toMatchObject({ id: "new-1", name: missing.name, createdAt: now });
+    });
+
+    it("never touches custom varieties, even with a built-in's name", () => {
+      const existing = installed();
+      existing[0] = { ...existing[0], growthTimeline: { ...existing[0].growthTimeline, seedling: 99 }, isCustom: true };
+
+      const { records, update } = SeedCatalogueService.planMigration(existing, 1, now, createId);
+
+      expect(records).toEqual([]);
+      expect(update.skippedCustom).toEqual([existing[0].name]);
+    });
+
+    it("skips migrations the installation already has", () => {
+      const existing = installed();
+      existing.splice(0, 1);
+
+      const { records } = SeedCatalogueService.planMigration(existing, SEED_CATALOGUE_VERSION, now, createId);
+
+      expect(records).toEqual([]);
+    });
+  });
+
+  describe("migrate", () => {
+    beforeEach(async () => {
+      await db.varieties.clear();
+    });
+
+    it("upserts by normalizedName, records the version and reports the update", async () => {
+      const existing = installed();
+      existing[0].protocols = undefined;
+      await db.varieties.bulkAdd(existing);
+
+      const update = await SeedCatalogueService.migrate();
+
+      expect(update?.updated).toEqual([varieties[0].name]);
+      expect(await db.varieties.count()).toBe(varieties.length);
+      expect((await db.varieties.get("db-0"))?.protocols).toEqual(varieties[0].protocols);
+      expect(SeedCatalogueService.getStoredVersion()).toBe(SEED_CATALOGUE_VERSION);
+      expect(SeedCatalogueService.getPendingUpdate()?.varietyIds).toEqual(["db-0"]);
+
+      expect(await SeedCatalogueService.migrate()).toBeNull();
+    });
+
+    it("does nothing on a freshly seeded database", async () => {
+      SeedCatalogueService.markSeeded();
+
+      expect(await SeedCatalogueService.migrate()).toBeNull();
+      expect(SeedCatalogueService.getPendingUpdate()).toBeNull();
+    });
+  });
+
+  it("reports active plants growing an updated variety", () => {
+    const update: CatalogueUpdate = {
+      fromVersion: 1,
+      toVersion: 2,
+      appliedAt: now.toISOString(),
+      added: [],
+      updated: [varieties[1].name],
+      varietyIds: ["db-1"],
+      skippedCustom: [],
+    };
+    const plants = [
+      plant({ id: "by-id", varietyId: "db-1", varietyName: "Renamed locally" }),
+      plant({ id: "by-name", varietyId: "legacy-id", varietyName: varieties[1].name.toUpperCase() }),
+      plant({ id: "retired", varietyId: "db-1", isActive: false }),
+      plant({ id: "unaffected" }),
+    ];
+
+    expect(SeedCatalogueService.getAffectedPlants(plants, update).map((p) => p.id)).toEqual([
+      "by-id",
+      "by-name",
+    ]);
+  });
+});
@@ -0,0 +1,81 @@
+// src/__tests__/services/seedPacketService.test.ts
+import { SeedPacketService } from "@/services/seedPacketService";
+import { SeedPacket } from "@/types";
+
+const createPacket = (overrides: Partial<SeedPacket> = {}): SeedPacket => ({
+  id: "packet-1",
+  varietyId: "lettuce",
+  varietyName: "Buttercrunch Lettuce",
+  category: "leafy-greens",
+  purchaseYear: 2025,
+  seedCount: 200,
+  labelGerminationRate: 0.9,
+  createdAt: new Date(2025, 0, 1),
+  ...overrides,
+});
+
+describe("SeedPacketService", () => {
+  const now = new Date(2027, 3, 1);
+
+  describe("estimateGerminationRate", () => {
+    it("ages the label rate by the category's yearly retention", () => {
+      expect(SeedPacketService.estimateGerminationRate(createPacket(), now)).toBeCloseTo(
+        0.9 * 0.85 * 0.85
+      );
+      expect(
+        SeedPacketService.estimateGerminationRate(
+          createPacket({ category: "fruiting-plants" }),
+          now
+        )
+      ).toBeCloseTo(0.9 * 0.9 * 0.9);
+    });
+
+    it("uses the label rate as-is in the purchase year and assumes one when missing", () => {
+      expect(
+        SeedPacketService.estimateGerminationRate(createPacket({ purchaseYear: 2027 }), now)
+      ).toBeCloseTo(0.9);
+      expect(
+        SeedPacketService.estimateGerminationRate(
+          createPacket({ purchaseYear: 2027, labelGerminationRate: undefined }),
+          now
+        )
+      ).toBeCloseTo(0.85);
+    });
+  });
+
+  describe("getEffectiveGerminationRate", () => {
+    it("prefers the rate measured from thinning", () => {
+      const packet = createPacket({ seedsSown: 20, seedsGerminated: 11 });
+
+      expect(SeedPacketService.getMeasuredGerminationRate(packet)).toBeCloseTo(0.55);
+      expect(SeedPacketService.getEffectiveGerminationRate(packet, now)).toBeCloseTo(0.55);
+    });
+
+    it("falls back to the age estimate before anything is sown", () => {
+      expect(SeedPacketService.getMeasuredGerminationRate(createPacket())).toBeNull();
+      expect(SeedPacketService.getEffectiveGerminationRate(createPacket(), now)).toBeCloseTo(
+        0.65025
+      );
+    });
+  });
+
+  it("suggests enough seeds per spot for one to come up, within reason", () => {
+    expect(SeedPacketService.suggestSeedsPerSpot(0.95)).toBe(1);
+    expect(SeedPacketService.suggestSeedsPerSpot(0.8)).toBe(2);
+    expect(SeedPacketService.suggestSeedsPerSpot(0.6)).toBe(3);
+    expect(SeedPacketService.suggestSeedsPerSpot(0.1)).toBe(4);
+  });
+
+  it("lists a variety's packets that still have seed, freshest first", () => {
+    const packets = [
+      createPacket({ id: "old", purchaseYear: 2023 }),
+      createPacket({ id: "new", purchaseYear: 2026 }),
+      createPacket({ id: "empty", purchaseYear: 2027, seedCount: 0 }),
+      createPacket({ id: "basil", varietyId: "basil" }),
+    ];
+
+    expect(
+      SeedPacketService.getPacketsForVariety(packets, "lettuce").map((packet) => packet.id)
+    ).toEqual(["new", "old"]);
+  });
+});
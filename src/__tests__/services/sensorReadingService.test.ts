@@ -0,0 +1,236 @@
+import { SensorReadingService } from "@/services/sensorReadingService";
+import { BedRecord, PlantRecord, SensorReading, VarietyRecord } from "@/types";
+
+const bed: BedRecord = {
+  id: "bed-1",
+  name: "Greenhouse",
+  type: "greenhouse-bench",
+  dimensions: { length: 48, width: 24, unit: "inches" },
+  isActive: true,
+  createdAt: new Date("2025-05-01"),
+};
+
+const plant = (id: string, overrides: Partial<PlantRecord> = {}): PlantRecord => ({
+  id,
+  varietyId: "strawberry",
+  varietyName: "Strawberry",
+  plantedDate: new Date("2025-05-01"),
+  location: "Indoor",
+  container: "1 gallon",
+  isActive: true,
+  createdAt: new Date("2025-05-01"),
+  ...overrides,
+});
+
+const inBed = (id: string) =>
+  plant(id, {
+    structuredSection: {
+      bedId: bed.id,
+      position: { start: 0, length: 12, unit: "inches" },
+    },
+  } as Partial<PlantRecord>);
+
+const variety: VarietyRecord = {
+  id: "strawberry",
+  name: "Strawberry",
+  normalizedName: "strawberry",
+  category: "berries",
+  growthTimeline: { germination: 7, seedling: 14, vegetative: 30, maturation: 60 },
+  protocols: {
+    environment: {
+      temperature: { min: 60, max: 75, unit: "F", criticalMin: 40, criticalMax: 90 },
+      humidity: { min: 40, max: 60 },
+      pH: { min: 6, max: 7, optimal: 6.5 },
+    },
+  },
+  createdAt: new Date("2025-01-01"),
+};
+
+const plants = [inBed("plant-1"), inBed("plant-2"), plant("plant-3")];
+const targets = { plants, beds: [bed] };
+const now = new Date("2025-07-01T12:00:00");
+
+const reading = (overrides: Partial<SensorReading>): SensorReading => ({
+  id: "reading-1",
+  gardenId: "garden-1",
+  bedId: bed.id,
+  metric: "temperature",
+  value: 70,
+  unit: "F",
+  recordedAt: new Date("2025-07-01T10:00:00"),
+  createdAt: now,
+  ...overrides,
+});
+
+describe("SensorReadingService", () => {
+  describe("parseBatch", () => {
+    it("reads one reading per metric column from a CSV export", () => {
+      const { readings, errors } = SensorReadingService.parseBatch(
+        "Timestamp,Bed,Temperature,Humidity\n" +
+          "2025-07-01T08:00:00,greenhouse,20,55\n" +
+          '2025-07-01T09:00:00,"Greenhouse",,61\n',
+        "csv",
+        targets,
+        "C"
+      );
+
+      expect(errors).toEqual([]);
+      expect(readings).toEqual([
+        {
+          bedId: "bed-1",
+          metric: "temperature",
+          value: 20,
+          unit: "C",
+          recordedAt: new Date("2025-07-01T08:00:00"),
+        },
+        {
+          bedId: "bed-1",
+          metric: "humidity",
+          value: 55,
+          recordedAt: new Date("2025-07-01T08:00:00"),
+        },
+        {
+          bedId: "bed-1",
+          metric: "humidity",
+          value: 61,
+          recordedAt: new Date("2025-07-01T09:00:00"),
+        },
+      ]);
+    });
+
+    it("reads JSON readings with a metric field", () => {
+      const { readings, errors } = SensorReadingService.parseBatch(
+        JSON.stringify({
+          readings: [
+            {
+              sensorId: "probe-7",
+              plantId: "plant-3",
+              metric: "soil_moisture",
+              value: 4,
+              timestamp: "2025-07-01T08:00:00",
+            },
+            { bedId: "bed-1", metric: "temp", value: 71, unit: "°f", recordedAt: "2025-07-01" },
+          ],
+        }),
+        "json",
+        targets
+      );
+
+      expect(errors).toEqual([]);
+      expect(readings.map((r) => [r.metric, r.plantId ?? r.bedId, r.sensorId, r.unit])).toEqual([
+        ["soilMoisture", "plant-3", "probe-7", undefined],
+        ["temperature", "bed-1", undefined, "F"],
+      ]);
+    });
+
+    it("reports rows it can't read or place", () => {
+      const { readings, errors } = SensorReadingService.parseBatch(
+        JSON.stringify([
+          { bed: "Shed", metric: "humidity", value: 50, timestamp: "2025-07-01" },
+          { plantId: "gone", metric: "humidity", value: 50, timestamp: "2025-07-01" },
+          { metric: "humidity", value: 50, timestamp: "2025-07-01" },
+          { bed: "Greenhouse", metric: "humidity", value: "damp", timestamp: "2025-07-01" },
+          { bed: "Greenhouse", metric: "pressure", value: 1, timestamp: "2025-07-01" },
+        ]),
+        "json",
+        targets
+      );
+
+      expect(readings).toEqual([]);
+      expect(errors).toEqual([
+        "Reading 1: No bed called Shed",
+        "Reading 2: No plant with ID gone",
+        "Reading 3: Each reading needs a bed or plant",
+        "Reading 4: Value must be a number (value)",
+        "Reading 5: Metric must be one of temperature, humidity, soilMoisture, lightLevel (metric)",
+      ]);
+    });
+
+    it("rejects files that aren't readings", () => {
+      expect(SensorReadingService.parseBatch("{ nope", "json", targets).errors).toEqual([
+        "The file isn't valid JSON",
+      ]);
+      expect(SensorReadingService.parseBatch('{"a": 1}', "json", targets).errors).toEqual([
+        'Expected an array of readings or { "readings": [...] }',
+      ]);
+    });
+
+    it("detects the format from the file name or contents", () => {
+      expect(SensorReadingService.detectFormat("export.CSV", "[")).toBe("csv");
+      expect(SensorReadingService.detectFormat("readings", ' [{"a":1}]')).toBe("json");
+      expect(SensorReadingService.detectFormat("readings.txt", "time,bed")).toBe("csv");
+    });
+  });
+
+  describe("getAlerts", () => {
+    it("checks each plant in a bed against its variety's ranges", () => {
+      const alerts = SensorReadingService.getAlerts(
+        [reading({ value: 80 })],
+        plants,
+        [variety],
+        now
+      );
+
+      expect(alerts.map((alert) => [alert.plant.id, alert.severity])).toEqual([
+        ["plant-1", "warning"],
+        ["plant-2", "warning"],
+      ]);
+      expect(alerts[0].message).toBe("80°F is above the 75°F maximum for Strawberry (1 gallon)");
+    });
+
+    it("raises critical alerts beyond the critical limits, converting units", () => {
+      const alerts = SensorReadingService.getAlerts(
+        [reading({ bedId: undefined, plantId: "plant-3", value: 2, unit: "C" })],
+        plants,
+        [variety],
+        now
+      );
+
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0].severity).toBe("critical");
+      expect(alerts[0].message).toBe(
+        "36°F is below the critical minimum of 40°F for Strawberry (1 gallon)"
+      );
+    });
+
+    it("only uses the latest recent reading of each metric", () => {
+      const alerts = SensorReadingService.getAlerts(
+        [
+          reading({ id: "old-hot", value: 85, recordedAt: new Date("2025-07-01T06:00:00") }),
+          reading({ id: "now-fine", value: 70, recordedAt: new Date("2025-07-01T11:00:00") }),
+          reading({
+            id: "stale",
+            metric: "humidity",
+            value: 95,
+            unit: undefined,
+            recordedAt: new Date("2025-06-29T11:00:00"),
+          }),
+          reading({
+            id: "dry",
+            plantId: "plant-1",
+            bedId: undefined,
+            metric: "humidity",
+            value: 30,
+            unit: undefined,
+          }),
+        ],
+        plants,
+        [variety],
+        now
+      );
+
+      expect(alerts.map((alert) => [alert.plant.id, alert.reading.id])).toEqual([
+        ["plant-1", "dry"],
+      ]);
+      expect(alerts[0].message).toBe(
+        "Humidity of 30% is below the 40% minimum for Strawberry (1 gallon)"
+      );
+    });
+
+    it("skips plants without environmental ranges", () => {
+      expect(
+        SensorReadingService.getAlerts([reading({ value: 120 })], plants, [], now)
+      ).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import { SitterShareService } from "@/services/sitterShareService";
+import { PlantRecord, SitterCompletion, SitterShare, UpcomingTask } from "@/types";
+
+const plant = (id: string): PlantRecord => ({
+  id,
+  varietyId: "tomato",
+  varietyName: "Tomato",
+  name: `Tomato ${id}`,
+  plantedDate: new Date("2025-05-01"),
+  location: "Indoor",
+  container: "5 gallon",
+  isActive: true,
+  createdAt: new Date("2025-05-01"),
+  updatedAt: new Date("2025-05-01"),
+});
+
+const upcomingTask = (overrides: Partial<UpcomingTask>): UpcomingTask => ({
+  id: "task-1",
+  plantId: "plant-1",
+  plantName: "Tomato plant-1",
+  task: "Water",
+  type: "water",
+  dueDate: new Date("2025-07-02T09:00:00"),
+  dueIn: "Due in 1 day",
+  priority: "medium",
+  category: "watering",
+  plantStage: "vegetative",
+  ...overrides,
+});
+
+const plants = [plant("plant-1"), plant("plant-2"), plant("plant-3")];
+
+const createShare = (overrides: Partial<SitterShare> = {}): SitterShare => {
+  const window = SitterShareService.getWindow(new Date("2025-07-01"), new Date("2025-07-03"));
+  return {
+    id: "share-1",
+    gardenId: "garden-1",
+    sitterName: "Jo",
+    createdBy: { userId: "owner-1", displayName: "Sam" },
+    ...window,
+    tasks: SitterShareService.selectTasks(
+      [
+        upcomingTask({ id: "water-group", plantIds: ["plant-1", "plant-2"] }),
+        upcomingTask({
+          id: "feed-3",
+          plantId: "plant-3",
+          plantName: "Tomato plant-3",
+          task: "Fertilize",
+          type: "fertilize",
+          category: "fertilizing",
+        }),
+      ],
+      plants,
+      window.expiresAt
+    ),
+    createdAt: new Date("2025-06-30"),
+    ...overrides,
+  };
+};
+
+const completion = (overrides: Partial<SitterCompletion> = {}): SitterCompletion => ({
+  id: "completion-1",
+  taskId: "water-group",
+  plantIds: ["plant-1", "plant-2"],
+  activityType: "water",
+  completedAt: new Date("2025-07-01T18:00:00"),
+  imported: false,
+  ...overrides,
+});
+
+describe("SitterShareService", () => {
+  describe("selectTasks", () => {
+    it("keeps care a sitter can do that is due by the end of the last day", () => {
+      const tasks = SitterShareService.selectTasks(
+        [
+          upcomingTask({ id: "overdue", dueDate: new Date("2025-06-28") }),
+          upcomingTask({ id: "last-day", dueDate: new Date("2025-07-03T23:00:00") }),
+          upcomingTask({ id: "after", dueDate: new Date("2025-07-04T08:00:00") }),
+          upcomingTask({ id: "prune", type: "pruning", category: "maintenance" }),
+          upcomingTask({ id: "removed-plant", plantId: "gone" }),
+        ],
+        plants,
+        new Date("2025-07-03T00:00:00")
+      );
+
+      expect(tasks.map((task) => task.id)).toEqual(["overdue", "last-day"]);
+      expect(tasks[0].plant).not.toHaveProperty("updatedAt");
+    });
+  });
+
+  describe("getStatus", () => {
+    const share = createShare();
+
+    it("opens at the start of the first day and expires after the last", () => {
+      expect(SitterShareService.getStatus(share, new Date("2025-06-30T23:59:00"))).toBe(
+        "scheduled"
+      );
+      expect(SitterShareService.getStatus(share, new Date("2025-07-01T00:00:00"))).toBe("active");
+      expect(SitterShareService.getStatus(share, new Date("2025-07-03T23:59:00"))).toBe("active");
+      expect(SitterShareService.getStatus(share, new Date("2025-07-04T00:00:00"))).toBe(
+        "expired"
+      );
+    });
+
+    it("treats a revoked share as ended straight away", () => {
+      const revoked = createShare({ revokedAt: new Date("2025-07-02T10:00:00") });
+
+      expect(SitterShareService.getStatus(revoked, new Date("2025-07-02T12:00:00"))).toBe(
+        "revoked"
+      );
+      expect(SitterShareService.isActive(revoked, new Date("2025-07-02T12:00:00"))).toBe(false);
+    });
+  });
+
+  describe("createCompletion", () => {
+    const [waterTask, feedTask] = createShare().tasks;
+
+    it("records the water amount and notes from a quick completion", () => {
+      const completedAt = new Date("2025-07-01T18:00:00");
+
+      expect(
+        SitterShareService.createCompletion(
+          waterTask,
+          { waterValue: 500, waterUnit: "ml", notes: "  Soil was dry " },
+          completedAt
+        )
+      ).toEqual({
+        taskId: "water-group",
+        plantIds: ["plant-1", "plant-2"],
+        activityType: "water",
+        completedAt,
+        amount: { value: 500, unit: "ml" },
+        notes: "Soil was dry",
+        imported: false,
+      });
+    });
+
+    it("leaves out amounts for other activity types", () => {
+      const created = SitterShareService.createCompletion(feedTask, {
+        waterValue: 500,
+        waterUnit: "ml",
+      });
+
+      expect(created).not.toHaveProperty("amount");
+      expect(created).not.toHaveProperty("notes");
+    });
+  });
+
+  describe("buildActivities", () => {
+    const share = createShare();
+
+    it("logs one activity per plant, tagged with the sitter", () => {
+      const activities = SitterShareService.buildActivities(share, completion());
+
+      expect(activities).toHaveLength(2);
+      expect(activities[0]).toMatchObject({
+        plantId: "plant-1",
+        type: "water",
+        gardenId: "garden-1",
+        date: new Date("2025-07-01T18:00:00"),
+        loggedBy: { userId: "sitter:share-1", displayName: "Jo", sitterShareId: "share-1" },
+        details: { type: "water", notes: "Water by Jo while you were away" },
+      });
+    });
+
+    it("ignores plants and tasks the share doesn't cover", () => {
+      expect(
+        SitterShareService.buildActivities(
+          share,
+          completion({ plantIds: ["plant-1", "plant-3", "someone-elses"] })
+        ).map((activity) => activity.plantId)
+      ).toEqual(["plant-1"]);
+      expect(
+        SitterShareService.buildActivities(share, completion({ taskId: "made-up" }))
+      ).toEqual([]);
+    });
+
+    it("uses a stable ID per completion and plant", () => {
+      expect(SitterShareService.getActivityId(completion(), "plant-2")).toBe(
+        "sitter_completion-1_plant-2"
+      );
+    });
+  });
+
+  describe("summarize", () => {
+    it("groups what the sitter did by day and lists what they missed", () => {
+      const share = createShare();
+      const summary = SitterShareService.summarize(share, [
+        completion({ id: "c2", completedAt: new Date("2025-07-02T08:00:00") }),
+        completion({ id: "c1" }),
+      ]);
+
+      expect(summary.activityCount).toBe(4);
+      expect(summary.days.map((day) => day.completions.map((c) => c.id))).toEqual([
+        ["c1"],
+        ["c2"],
+      ]);
+      expect(summary.missedTasks.map((task) => task.id)).toEqual(["feed-3"]);
+    });
+  });
+
+  describe("getUnseenSummaries", () => {
+    it("returns visits that are over and haven't been dismissed", () => {
+      const now = new Date("2025-07-05");
+      const ended = createShare({ id: "ended" });
+      const seen = createShare({ id: "seen", summarySeenAt: new Date("2025-07-04") });
+      const cancelledEarly = createShare({
+        id: "cancelled",
+        startsAt: new Date("2025-07-10"),
+        expiresAt: new Date("2025-07-12"),
+        revokedAt: new Date("2025-07-04"),
+      });
+      const upcoming = createShare({
+        id: "upcoming",
+        startsAt: new Date("2025-07-10"),
+        expiresAt: new Date("2025-07-12"),
+      });
+
+      expect(
+        SitterShareService.getUnseenSummaries([ended, seen, cancelledEarly, upcoming], now).map(
+          (share) => share.id
+        )
+      ).toEqual(["ended"]);
+    });
+  });
+});
@@ -0,0 +1,276 @@
+// src/__tests__/services/syncedRepositories.test.ts
+import {
+  SyncedBedRepository,
+  SyncedCareRepository,
+  SyncedPlantRepository,
+  SyncedVarietyRepository,
+} from "@/services/syncedRepositories";
+import {
+  IBedRepository,
+  ICareRepository,
+  IPlantRepository,
+  IVarietyRepository,
+} from "@/services/interfaces";
+import { BedRecord, VarietyRecord } from "@/types";
+import { createMockCareActivity, createMockPlant } from "../test-utils";
+
+jest.mock("@/utils/logger", () => ({
+  Logger: { warn: jest.fn(), error: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+const createPlantRepository = (): jest.Mocked<IPlantRepository> => ({
+  addPlant: jest.fn(),
+  getActivePlants: jest.fn(),
+  getPlant: jest.fn(),
+  updatePlant: jest.fn(),
+  deletePlant: jest.fn(),
+  putPlants: jest.fn(),
+});
+
+const createCareRepository = (): jest.Mocked<ICareRepository> => ({
+  addCareActivity: jest.fn(),
+  getLastActivityByType: jest.fn(),
+  getPlantCareHistory: jest.fn(),
+  getRecentActivities: jest.fn(),
+  putActivities: jest.fn(),
+});
+
+const createBedRepository = (): jest.Mocked<IBedRepository> => ({
+  addBed: jest.fn(),
+  getActiveBeds: jest.fn(),
+  getBed: jest.fn(),
+  updateBed: jest.fn(),
+  deleteBed: jest.fn(),
+  putBeds: jest.fn(),
+});
+
+const createVarietyRepository = (): jest.Mocked<IVarietyRepository> => ({
+  addVariety: jest.fn(),
+  getVariety: jest.fn(),
+  getAllVarieties: jest.fn(),
+  getVarietiesByCategory: jest.fn(),
+  getVarietyByName: jest.fn(),
+  putVarieties: jest.fn(),
+});
+
+const createVariety = (overrides: Partial<VarietyRecord> = {}): VarietyRecord => ({
+  id: "variety-1",
+  name: "Purple Basil",
+  normalizedName: "purple basil",
+  category: "herbs",
+  growthTimeline: { germination: 7, seedling: 14, vegetative: 28, maturation: 60 },
+  isCustom: true,
+  createdAt: new Date(2025, 2, 1),
+  ...overrides,
+});
+
+const newVariety = {
+  name: "Purple Basil",
+  category: "herbs" as const,
+  growthTimeline: { germination: 7, seedling: 14, vegetative: 28, maturation: 60 },
+  isCustom: true,
+};
+
+const createBed = (overrides: Partial<BedRecord> = {}): BedRecord => ({
+  id: "bed-1",
+  name: "Raised Bed 1",
+  type: "raised-bed",
+  dimensions: { length: 96, width: 48, unit: "inches" },
+  isActive: true,
+  createdAt: new Date(2025, 2, 1),
+  ...overrides,
+});
+
+describe("SyncedPlantRepository", () => {
+  let remote: jest.Mocked<IPlantRepository>;
+  let local: jest.Mocked<IPlantRepository>;
+  let userId: string | undefined;
+  let repository: SyncedPlantRepository;
+
+  beforeEach(() => {
+    remote = createPlantRepository();
+    local = createPlantRepository();
+    userId = "user-1";
+    repository = new SyncedPlantRepository(remote, local, () => userId);
+  });
+
+  it("uses only the local store when signed out", async () => {
+    userId = undefined;
+    await repository.updatePlant("plant-1", { notes: ["Moved"] });
+
+    expect(local.updatePlant).toHaveBeenCalledWith("plant-1", { notes: ["Moved"] });
+    expect(remote.updatePlant).not.toHaveBeenCalled();
+  });
+
+  it("writes to Firestore first and mirrors the change locally", async () => {
+    local.updatePlant.mockRejectedValue(new Error("Dexie unavailable"));
+
+    await repository.updatePlant("plant-1", { growthRateModifier: 0.9 });
+
+    expect(remote.updatePlant).toHaveBeenCalledWith("plant-1", { growthRateModifier: 0.9 });
+    expect(local.updatePlant).toHaveBeenCalledWith("plant-1", { growthRateModifier: 0.9 });
+  });
+
+  it("caches plants read from Firestore", async () => {
+    const plants = [createMockPlant({ id: "plant-1" })];
+    remote.getActivePlants.mockResolvedValue(plants);
+
+    await expect(repository.getActivePlants()).resolves.toBe(plants);
+    expect(local.putPlants).toHaveBeenCalledWith(plants);
+  });
+
+  it("falls back to the cache when Firestore can't be read", async () => {
+    const cached = createMockPlant({ id: "plant-1" });
+    remote.getPlant.mockRejectedValue(new Error("unavailable"));
+    local.getPlant.mockResolvedValue(cached);
+
+    await expect(repository.getPlant("plant-1")).resolves.toBe(cached);
+  });
+
+  it("mirrors new plants locally under the Firestore ID", async () => {
+    const plant = createMockPlant({ id: "local-id" });
+    remote.addPlant.mockResolvedValue("firestore-id");
+
+    await expect(repository.addPlant(plant)).resolves.toBe("firestore-id");
+    expect(local.putPlants).toHaveBeenCalledWith([
+      expect.objectContaining({ varietyName: plant.varietyName, id: "firestore-id" }),
+    ]);
+  });
+});
+
+describe("SyncedCareRepository", () => {
+  it("reads the last activity from Firestore and caches it", async () => {
+    const remote = createCareRepository();
+    const local = createCareRepository();
+    const activity = createMockCareActivity({ id: "log-1", type: "water" });
+    remote.getLastActivityByType.mockResolvedValue(activity);
+    const repository = new SyncedCareRepository(remote, local, () => "user-1");
+
+    await expect(repository.getLastActivityByType("plant-1", "water")).resolves.toBe(
+      activity
+    );
+    expect(local.putActivities).toHaveBeenCalledWith([activity]);
+    expect(local.getLastActivityByType).not.toHaveBeenCalled();
+  });
+});
+
+describe("SyncedBedRepository", () => {
+  let remote: jest.Mocked<IBedRepository>;
+  let local: jest.Mocked<IBedRepository>;
+  let userId: string | undefined;
+  let repository: SyncedBedRepository;
+
+  beforeEach(() => {
+    remote = createBedRepository();
+    local = createBedRepository();
+    userId = "user-1";
+    repository = new SyncedBedRepository(remote, local, () => userId);
+  });
+
+  it("resolves a plant's bedId from Firestore and caches the bed", async () => {
+    const bed = createBed();
+    remote.getBed.mockResolvedValue(bed);
+
+    await expect(repository.getBed("bed-1")).resolves.toBe(bed);
+    expect(local.putBeds).toHaveBeenCalledWith([bed]);
+  });
+
+  it("mirrors new beds locally under the Firestore ID", async () => {
+    const bed = createBed({ id: "local-bed" });
+    remote.addBed.mockResolvedValue("firestore-bed");
+
+    await expect(repository.addBed(bed)).resolves.toBe("firestore-bed");
+    expect(local.putBeds).toHaveBeenCalledWith([
+      expect.objectContaining({ name: "Raised Bed 1", id: "firestore-bed" }),
+    ]);
+  });
+
+  it("archives beds in both stores", async () => {
+    await repository.deleteBed("bed-1");
+
+    expect(remote.deleteBed).toHaveBeenCalledWith("bed-1");
+    expect(local.deleteBed).toHaveBeenCalledWith("bed-1");
+  });
+
+  it("keeps beds on the device while signed out", async () => {
+    userId = undefined;
+    const beds = [createBed()];
+    local.getActiveBeds.mockResolvedValue(beds);
+
+    await expect(repository.getActiveBeds()).resolves.toBe(beds);
+    expect(remote.getActiveBeds).not.toHaveBeenCalled();
+  });
+});
+
+describe("SyncedVarietyRepository", () => {
+  let remote: jest.Mocked<IVarietyRepository>;
+  let local: jest.Mocked<IVarietyRepository>;
+  let userId: string | undefined;
+  let repository: SyncedVarietyRepository;
+
+  beforeEach(() => {
+    remote = createVarietyRepository();
+    local = createVarietyRepository();
+    userId = "user-1";
+    repository = new SyncedVarietyRepository(remote, local, () => userId);
+  });
+
+  it("finds built-in varieties locally without asking Firestore", async () => {
+    const builtIn = createVariety({ id: "built-in", isCustom: false });
+    local.getVariety.mockResolvedValue(builtIn);
+
+    await expect(repository.getVariety("built-in")).resolves.toBe(builtIn);
+    expect(remote.getVariety).not.toHaveBeenCalled();
+  });
+
+  it("resolves a variety added on another device from Firestore and caches it", async () => {
+    const variety = createVariety();
+    remote.getVariety.mockResolvedValue(variety);
+
+    await expect(repository.getVariety("variety-1")).resolves.toBe(variety);
+    expect(local.putVarieties).toHaveBeenCalledWith([variety]);
+  });
+
+  it("pulls the garden's varieties into the local catalogue before listing", async () => {
+    const added = [createVariety()];
+    const catalogue = [createVariety({ id: "built-in", name: "Genovese Basil" }), ...added];
+    remote.getAllVarieties.mockResolvedValue(added);
+    local.getAllVarieties.mockResolvedValue(catalogue);
+
+    await expect(repository.getAllVarieties()).resolves.toBe(catalogue);
+    expect(local.putVarieties).toHaveBeenCalledWith(added);
+  });
+
+  it("lists the local catalogue when Firestore can't be read", async () => {
+    const catalogue = [createVariety()];
+    remote.getAllVarieties.mockRejectedValue(new Error("unavailable"));
+    local.getAllVarieties.mockResolvedValue(catalogue);
+
+    await expect(repository.getAllVarieties()).resolves.toBe(catalogue);
+  });
+
+  it("adds new varieties to Firestore and mirrors them under the Firestore ID", async () => {
+    remote.getAllVarieties.mockResolvedValue([]);
+    remote.addVariety.mockResolvedValue("firestore-variety");
+
+    await expect(repository.addVariety(newVariety)).resolves.toBe("firestore-variety");
+    expect(local.putVarieties).toHaveBeenCalledWith([
+      expect.objectContaining({ id: "firestore-variety", normalizedName: "purple basil" }),
+    ]);
+  });
+
+  it("returns the existing ID for a variety name already in the catalogue", async () => {
+    local.getVarietyByName.mockResolvedValue(createVariety({ id: "existing" }));
+
+    await expect(repository.addVariety(newVariety)).resolves.toBe("existing");
+    expect(remote.addVariety).not.toHaveBeenCalled();
+  });
+
+  it("keeps varieties on the device while signed out", async () => {
+    userId = undefined;
+    local.addVariety.mockResolvedValue("local-variety");
+
+    await expect(repository.addVariety(newVariety)).resolves.toBe("local-variety");
+    expect(remote.addVariety).not.toHaveBeenCalled();
+  });
+});
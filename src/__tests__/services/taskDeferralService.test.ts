@@ -0,0 +1,143 @@
+// src/__tests__/services/taskDeferralService.test.ts
+import { TaskDeferralService } from "@/services/taskDeferralService";
+import { ProtocolTranspilerService } from "@/services/ProtocolTranspilerService";
+import { createMockPlant, createMockScheduledTask, createMockVariety } from "../test-utils";
+
+describe("TaskDeferralService", () => {
+  const now = new Date(2025, 5, 10, 15, 30);
+
+  describe("getSnoozeDate", () => {
+    it("snoozes upcoming tasks from their due date", () => {
+      const task = createMockScheduledTask({ dueDate: new Date(2025, 5, 12, 9, 0) });
+
+      expect(TaskDeferralService.getSnoozeDate(task, { days: 3 }, now)).toEqual(
+        new Date(2025, 5, 15, 9, 0)
+      );
+    });
+
+    it("snoozes overdue tasks from today, keeping the time of day", () => {
+      const task = createMockScheduledTask({ dueDate: new Date(2025, 5, 1, 9, 0) });
+
+      expect(TaskDeferralService.getSnoozeDate(task, { days: 1 }, now)).toEqual(
+        new Date(2025, 5, 11, 9, 0)
+      );
+    });
+
+    it("snoozes until a given day", () => {
+      const task = createMockScheduledTask({ dueDate: new Date(2025, 5, 12, 9, 0) });
+
+      expect(
+        TaskDeferralService.getSnoozeDate(task, { until: new Date(2025, 5, 20) }, now)
+      ).toEqual(new Date(2025, 5, 20, 9, 0));
+    });
+  });
+
+  it("resolves a reschedule to the chosen day", () => {
+    const task = createMockScheduledTask({ dueDate: new Date(2025, 5, 12, 9, 0) });
+
+    expect(
+      TaskDeferralService.resolveDueDate(
+        task,
+        { kind: "reschedule", dueDate: new Date(2025, 5, 14) },
+        now
+      )
+    ).toEqual(new Date(2025, 5, 14, 9, 0));
+  });
+
+  it("shifts pending coordinated tasks by the same amount", () => {
+    const task = createMockScheduledTask({
+      id: "feed",
+      dueDate: new Date(2025, 5, 12),
+      coordinatedWith: ["water", "done", "missing"],
+    });
+    const water = createMockScheduledTask({ id: "water", dueDate: new Date(2025, 5, 13) });
+    const done = createMockScheduledTask({
+      id: "done",
+      dueDate: new Date(2025, 5, 13),
+      status: "completed",
+    });
+
+    const changes = TaskDeferralService.planMove(task, new Date(2025, 5, 15), [
+      task,
+      water,
+      done,
+    ]);
+
+    expect(changes).toEqual([
+      { task, dueDate: new Date(2025, 5, 15) },
+      { task: water, dueDate: new Date(2025, 5, 16), movedWith: task },
+    ]);
+  });
+
+  it("moves the rest of a transpiled feeding schedule with a snoozed feed", async () => {
+    const plantedDate = new Date();
+    // The transpiler spaces tasks in whole 24-hour days
+    const daysAfterPlanting = (days: number) =>
+      new Date(plantedDate.getTime() + days * 24 * 60 * 60 * 1000);
+    const tasks = await ProtocolTranspilerService.transpilePlantProtocol(
+      createMockPlant({ plantedDate }),
+      createMockVariety({
+        protocols: {
+          fertilization: {
+            germination: {
+              schedule: [
+                {
+                  taskName: "Feed seedlings",
+                  details: { product: "Fish emulsion" },
+                  startDays: 1,
+                  frequencyDays: 7,
+                  repeatCount: 3,
+                },
+              ],
+            },
+          },
+        },
+      })
+    );
+    expect(tasks.map((task) => task.dueDate)).toEqual([
+      daysAfterPlanting(1),
+      daysAfterPlanting(8),
+      daysAfterPlanting(15),
+    ]);
+
+    const changes = TaskDeferralService.planMove(tasks[1], daysAfterPlanting(11), tasks);
+
+    expect(changes).toEqual([
+      { task: tasks[1], dueDate: daysAfterPlanting(11) },
+      { task: tasks[2], dueDate: daysAfterPlanting(18), movedWith: tasks[1] },
+    ]);
+  });
+
+  it("keeps the first original due date and notes coordinated moves", () => {
+    const feed = createMockScheduledTask({
+      taskName: "Feed tomatoes",
+      dueDate: new Date(2025, 5, 15),
+      originalDueDate: new Date(2025, 5, 12),
+    });
+    const water = createMockScheduledTask({ dueDate: new Date(2025, 5, 13) });
+
+    expect(
+      TaskDeferralService.getDeferralUpdate(
+        { task: feed, dueDate: new Date(2025, 5, 18) },
+        { kind: "snooze", reason: "Rain forecast" },
+        now
+      )
+    ).toEqual({
+      dueDate: new Date(2025, 5, 18),
+      originalDueDate: new Date(2025, 5, 12),
+      deferral: { kind: "snooze", reason: "Rain forecast", deferredAt: now },
+    });
+
+    expect(
+      TaskDeferralService.getDeferralUpdate(
+        { task: water, dueDate: new Date(2025, 5, 16), movedWith: feed },
+        { kind: "snooze" },
+        now
+      )
+    ).toEqual({
+      dueDate: new Date(2025, 5, 16),
+      originalDueDate: new Date(2025, 5, 13),
+      deferral: { kind: "snooze", reason: 'Moved with "Feed tomatoes"', deferredAt: now },
+    });
+  });
+});
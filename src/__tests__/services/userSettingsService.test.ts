@@ -0,0 +1,59 @@
+import {
+  DEFAULT_USER_SETTINGS,
+  UserSettingsService,
+} from "@/services/userSettingsService";
+import { formatTime, getAppTimeZone } from "@/utils/dateUtils";
+
+describe("UserSettingsService", () => {
+  afterEach(() => {
+    UserSettingsService.reset();
+  });
+
+  describe("withDefaults", () => {
+    it("fills in sections and fields missing from a stored record", () => {
+      const settings = UserSettingsService.withDefaults("user-1", {
+        units: { volume: "liters" },
+        notifications: { careReminders: false },
+      });
+
+      expect(settings.id).toBe("user-1");
+      expect(settings.units).toEqual({ temperature: "fahrenheit", volume: "liters" });
+      expect(settings.notifications.careReminders).toBe(false);
+      expect(settings.notifications.dailyDigestTime).toBe("08:00");
+      expect(settings.location.timezone).toBe(DEFAULT_USER_SETTINGS.location.timezone);
+    });
+
+    it("returns defaults when nothing has been saved", () => {
+      expect(UserSettingsService.withDefaults("user-1", null)).toEqual({
+        id: "user-1",
+        ...DEFAULT_USER_SETTINGS,
+      });
+    });
+  });
+
+  describe("apply", () => {
+    it("notifies subscribers and sets the app time zone for date formatting", () => {
+      const listener = jest.fn();
+      const unsubscribe = UserSettingsService.subscribe(listener);
+      const settings = UserSettingsService.withDefaults("user-1", {
+        location: { timezone: "Asia/Tokyo" },
+      });
+
+      UserSettingsService.apply(settings);
+      unsubscribe();
+
+      expect(listener).toHaveBeenCalledWith(settings);
+      expect(UserSettingsService.getCurrent()).toBe(settings);
+      expect(getAppTimeZone()).toBe("Asia/Tokyo");
+      expect(formatTime(new Date(Date.UTC(2025, 5, 10, 0, 30)))).toBe("9:30 AM");
+    });
+
+    it("falls back to the device time zone when the saved one is invalid", () => {
+      UserSettingsService.apply(
+        UserSettingsService.withDefaults("user-1", { location: { timezone: "Mars/Olympus" } })
+      );
+
+      expect(getAppTimeZone()).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { varieties } from "@/data";
+import { VarietyRecord } from "@/types";
+import {
+  VARIETY_FILE_FORMAT,
+  VarietyFileService,
+} from "@/services/varietyFileService";
+
+const customVariety: VarietyRecord = {
+  id: "custom-1",
+  name: "Lemon Queen Sunflower",
+  normalizedName: "lemon queen sunflower",
+  category: "flowers",
+  description: "Pale yellow, pollinator favourite",
+  growthTimeline: { germination: 10, seedling: 14, vegetative: 40, maturation: 90 },
+  protocols: {
+    fertilization: {
+      vegetative: {
+        schedule: [
+          {
+            taskName: "Light feeding",
+            details: { product: "Fish emulsion", dilution: "1 tbsp/gallon", method: "soil-drench" },
+            startDays: 0,
+            frequencyDays: 14,
+            repeatCount: 3,
+          },
+        ],
+      },
+    },
+  },
+  visualCues: { budding: ["Flat green bud forms at the top of the stem"] },
+  isCustom: true,
+  createdAt: new Date("2025-04-01"),
+};
+
+const fileText = (overrides: Record<string, unknown> = {}, entry: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    format: VARIETY_FILE_FORMAT,
+    version: 1,
+    exportedAt: "2025-06-01T12:00:00.000Z",
+    varieties: [{ ...VarietyFileService.toEntry(customVariety), ...entry }],
+    ...overrides,
+  });
+
+const parseErrors = (text: string) => {
+  const result = VarietyFileService.parseFile(text);
+  if (result.success) throw new Error("Expected the file to be rejected");
+  return result.errors;
+};
+
+describe("VarietyFileService", () => {
+  it("round-trips every built-in variety through a file", () => {
+    const file = VarietyFileService.buildFile(varieties, new Date("2025-06-01"));
+    const result = VarietyFileService.parseFile(VarietyFileService.serializeFile(file));
+
+    expect(result.success && result.file.varieties).toHaveLength(varieties.length);
+    if (!result.success) return;
+
+    const plan = VarietyFileService.planImport(result.file, []);
+    const arugula = plan.create.find((variety) => variety.name === "Astro Arugula");
+    const original = varieties.find((variety) => variety.name === "Astro Arugula")!;
+    expect(arugula?.protocols).toEqual(JSON.parse(JSON.stringify(original.protocols)));
+    expect(arugula?.growthTimeline).toEqual(original.growthTimeline);
+    expect(arugula?.isCustom).toBe(true);
+  });
+
+  it("exports built-in visual cues and custom variety fields", () => {
+    const carrots = varieties.find((variety) => variety.name === "Little Finger Carrots")!;
+
+    expect(VarietyFileService.toEntry(carrots).visualCues?.seedling).toHaveLength(3);
+    expect(VarietyFileService.toEntry(customVariety)).toEqual({
+      name: "Lemon Queen Sunflower",
+      category: "flowers",
+      description: "Pale yellow, pollinator favourite",
+      growthTimeline: customVariety.growthTimeline,
+      protocols: customVariety.protocols,
+      visualCues: customVariety.visualCues,
+    });
+  });
+
+  it("names single-variety files after the variety", () => {
+    const file = VarietyFileService.buildFile([customVariety], new Date(2025, 5, 1));
+
+    expect(VarietyFileService.getFileName(file)).toBe(
+      "smartgarden-variety-lemon-queen-sunflower-2025-06-01.json"
+    );
+  });
+
+  it("maps seed catalogue stage aliases to growth stages on import", () => {
+    const result = VarietyFileService.parseFile(
+      fileText(
+        {},
+        {
+          growthTimeline: { germinationEmergence: 7, establishment: 14, vegetativeGrowth: 21, ongoingProduction: 60 },
+          protocols: {
+            watering: {
+              establishment: { trigger: { moistureLevel: "3-4" }, target: { moistureLevel: 6 } },
+            },
+          },
+        }
+      )
+    );
+    if (!result.success) throw new Error(result.errors.join("\n"));
+
+    const [variety] = VarietyFileService.planImport(result.file, []).create;
+    expect(variety.growthTimeline).toMatchObject({ germination: 7, seedling: 14, vegetative: 21 });
+    expect(Object.keys(variety.protocols?.watering ?? {})).toEqual(["seedling"]);
+    expect(variety.visualCues).toEqual(customVariety.visualCues);
+  });
+
+  it("skips varieties already in the catalogue", () => {
+    const file = VarietyFileService.buildFile([customVariety, varieties[0]]);
+    const plan = VarietyFileService.planImport(file, [{ ...customVariety, name: "lemon queen SUNFLOWER" }]);
+
+    expect(plan.duplicates).toEqual(["Lemon Queen Sunflower"]);
+    expect(plan.create.map((variety) => variety.name)).toEqual([varieties[0].name]);
+  });
+
+  describe("parseFile", () => {
+    it("rejects text that isn't JSON or isn't a variety file", () => {
+      expect(parseErrors("{ nope")).toEqual(["File is not valid JSON"]);
+      expect(parseErrors(fileText({ format: "smart-garden-archive" }))).toEqual([
+        "format: Not a Smart Garden variety file",
+      ]);
+      expect(parseErrors(fileText({ version: 2 }))).toEqual([
+        "version: File was made by a newer version of the app (supported up to version 1)",
+      ]);
+    });
+
+    it("reports problems by variety name and field", () => {
+      const errors = parseErrors(
+        fileText(
+          {},
+          {
+            category: "trees",
+            protocols: {
+              lighting: { vegetative: { ppfd: { min: 300, max: 200, unit: "lux" } } },
+              fertilization: {
+                vegetative: {
+                  schedule: [{ taskName: "Feed", details: { product: "" }, startDays: 0, frequencyDays: 7, repeatCount: 0 }],
+                },
+              },
+            },
+          }
+        )
+      );
+
+      expect(errors).toEqual([
+        "Lemon Queen Sunflower: category: Category must be one of: fruiting-plants, leafy-greens, root-vegetables, herbs, berries, flowers",
+        "Lemon Queen Sunflower: protocols.fertilization.vegetative.schedule[0].details.product: Must not be empty",
+        "Lemon Queen Sunflower: protocols.fertilization.vegetative.schedule[0].repeatCount: repeatCount must be at least 1",
+        'Lemon Queen Sunflower: protocols.lighting.vegetative.ppfd.unit: PPFD unit must be "µmol/m²/s"',
+      ]);
+    });
+
+    it("rejects unknown fields instead of dropping them", () => {
+      const errors = parseErrors(fileText({}, { protocol: {} }));
+
+      expect(errors).toEqual(["Lemon Queen Sunflower: Unrecognized key(s) in object: 'protocol'"]);
+    });
+
+    it("rejects a variety listed twice", () => {
+      const entry = VarietyFileService.toEntry(customVariety);
+
+      expect(parseErrors(fileText({ varieties: [entry, entry] }))).toEqual([
+        "Lemon Queen Sunflower: appears more than once in the file",
+      ]);
+    });
+  });
+});
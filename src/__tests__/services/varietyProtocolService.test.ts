@@ -0,0 +1,189 @@
+import { FertilizationScheduleItem, VarietyRecord } from "@/types";
+import {
+  VarietyDraft,
+  VarietyProtocolService,
+} from "@/services/varietyProtocolService";
+
+const feeding = (overrides: Partial<FertilizationScheduleItem> = {}): FertilizationScheduleItem => ({
+  taskName: "Light feeding",
+  details: { product: "Fish emulsion", dilution: "1 tbsp/gallon", amount: "Until runoff", method: "soil-drench" },
+  startDays: 7,
+  frequencyDays: 14,
+  repeatCount: 2,
+  ...overrides,
+});
+
+const draft = (overrides: Partial<VarietyDraft> = {}): VarietyDraft => ({
+  ...VarietyProtocolService.createDraft("flowers"),
+  name: "Zinnia",
+  ...overrides,
+});
+
+const seedVariety: VarietyRecord = {
+  id: "tomato",
+  name: "Cherry Tomato",
+  normalizedName: "cherry tomato",
+  category: "fruiting-plants",
+  growthTimeline: { germination: 7, seedling: 21, vegetative: 28, maturation: 75 },
+  protocols: {
+    fertilization: { "ongoing-production": { schedule: [feeding()] } },
+  },
+  createdAt: new Date("2025-01-01"),
+};
+
+describe("VarietyProtocolService", () => {
+  describe("validateScheduleItem", () => {
+    it("accepts a complete schedule item", () => {
+      expect(VarietyProtocolService.validateScheduleItem(feeding())).toEqual([]);
+    });
+
+    it("requires a task name and product", () => {
+      const issues = VarietyProtocolService.validateScheduleItem(
+        feeding({ taskName: " ", details: { product: "" } })
+      );
+
+      expect(issues.map((issue) => issue.path)).toEqual(["taskName", "details.product"]);
+    });
+
+    it("requires whole days and a frequency for repeating tasks", () => {
+      expect(VarietyProtocolService.validateScheduleItem(feeding({ startDays: 2.5 }))).toEqual([
+        { path: "startDays", message: "Use whole days" },
+      ]);
+      expect(
+        VarietyProtocolService.validateScheduleItem(feeding({ frequencyDays: 0, repeatCount: 3 }))
+      ).toEqual([{ path: "frequencyDays", message: "Repeating tasks need a frequency" }]);
+      expect(
+        VarietyProtocolService.validateScheduleItem(feeding({ frequencyDays: 0, repeatCount: 1 }))
+      ).toEqual([]);
+    });
+  });
+
+  describe("validate", () => {
+    it("drops untouched fields and fills in units", () => {
+      const result = VarietyProtocolService.validate(
+        draft({
+          description: "  ",
+          protocols: {
+            watering: { seedling: { trigger: { moistureLevel: "" } } },
+            lighting: { vegetative: { ppfd: { min: 200, max: 400, unit: "" }, notes: [""] } },
+            environment: {
+              temperature: { unit: "C" },
+              pH: { min: 6, max: 7, optimal: 6.5 },
+            },
+          },
+        })
+      );
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.variety.description).toBeUndefined();
+      expect(result.variety.isCustom).toBe(true);
+      expect(result.variety.protocols).toEqual({
+        lighting: { vegetative: { ppfd: { min: 200, max: 400, unit: "µmol/m²/s" } } },
+        environment: { pH: { min: 6, max: 7, optimal: 6.5 } },
+      });
+    });
+
+    it("omits protocols when none were filled in", () => {
+      const result = VarietyProtocolService.validate(draft());
+
+      expect(result).toEqual({
+        success: true,
+        variety: expect.not.objectContaining({ protocols: expect.anything() }),
+      });
+    });
+
+    it("requires a pH range once any environment field is set", () => {
+      const result = VarietyProtocolService.validate(
+        draft({
+          protocols: {
+            environment: { humidity: { min: 40, max: 60 } } as VarietyDraft["protocols"]["environment"],
+          },
+        })
+      );
+
+      expect(result).toEqual({
+        success: false,
+        issues: [{ path: "protocols.environment.pH", message: "Environment protocols need a pH range" }],
+      });
+    });
+
+    it("checks soil components add up to 100%", () => {
+      const result = VarietyProtocolService.validate(
+        draft({
+          protocols: { soilMixture: { components: { "Coco coir": 40, Perlite: 30 } } },
+        })
+      );
+
+      expect(result).toEqual({
+        success: false,
+        issues: [
+          { path: "protocols.soilMixture.components", message: "Components should add up to 100%" },
+        ],
+      });
+    });
+
+    it("reports schedule item issues with their stage and position", () => {
+      const result = VarietyProtocolService.validate(
+        draft({
+          protocols: {
+            fertilization: { vegetative: { schedule: [feeding(), feeding({ taskName: "" })] } },
+          },
+        })
+      );
+
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.issues.map((issue) => issue.path)).toEqual([
+        "protocols.fertilization.vegetative.schedule[2].taskName",
+      ]);
+    });
+  });
+
+  describe("cloneVariety", () => {
+    it("copies a seed variety into an independent custom draft", () => {
+      const clone = VarietyProtocolService.cloneVariety(seedVariety);
+      clone.protocols.fertilization!["ongoing-production"]!.schedule![0].taskName = "Changed";
+
+      expect(clone.name).toBe("Cherry Tomato (custom)");
+      expect(clone.growthTimeline).toEqual(seedVariety.growthTimeline);
+      expect(seedVariety.protocols!.fertilization!["ongoing-production"]!.schedule![0].taskName).toBe(
+        "Light feeding"
+      );
+    });
+  });
+
+  describe("getStages", () => {
+    it("lists the category's stages, then stages a clone already has protocols for", () => {
+      expect(VarietyProtocolService.getStages(draft())).not.toContain("ongoing-production");
+      expect(
+        VarietyProtocolService.getStages({
+          category: "flowers",
+          protocols: seedVariety.protocols!,
+        })
+      ).toContain("ongoing-production");
+    });
+  });
+
+  describe("previewTasks", () => {
+    it("lists fertilization tasks by day after planting", async () => {
+      const result = VarietyProtocolService.validate(
+        draft({
+          growthTimeline: { germination: 7, seedling: 14, vegetative: 30, maturation: 60 },
+          protocols: {
+            fertilization: { seedling: { schedule: [feeding({ startDays: 0 })] } },
+          },
+        })
+      );
+      if (!result.success) throw new Error("Expected a valid variety");
+
+      const preview = await VarietyProtocolService.previewTasks(result.variety);
+
+      expect(preview.map(({ day, stage }) => ({ day, stage }))).toEqual([
+        { day: 7, stage: "seedling" },
+        { day: 21, stage: "seedling" },
+      ]);
+      expect(preview[0].task.details.product).toBe("Fish emulsion");
+    });
+  });
+});
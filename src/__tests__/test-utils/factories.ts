@@ -10,8 +10,11 @@ import {
   PlantRecord, 
   VarietyRecord, 
   CareActivityRecord,
+  BedRecord,
   CareActivityType,
-  GrowthStage 
+  GrowthStage,
+  InventoryItem,
+  UpcomingTask
 } from '@/types';
 import { ScheduledTask } from '@/services/ProtocolTranspilerService';
 import { TEST_VARIETIES, TEST_DATES } from './constants';
@@ -139,6 +142,56 @@ export const createMockScheduledTask: FactoryFunction<ScheduledTask> = (override
   ...overrides,
 });
 
+/**
+ * Create mock upcoming task, as shown on the dashboard
+ */
+export const createMockUpcomingTask: FactoryFunction<UpcomingTask> = (overrides = {}) => ({
+  id: 'test-upcoming-task-id',
+  plantId: 'test-plant-id',
+  plantName: 'Test Plant',
+  task: 'Check water level',
+  type: 'water',
+  dueDate: TEST_DATES.TASK_DUE,
+  dueIn: 'Today',
+  priority: 'medium',
+  category: 'watering',
+  plantStage: 'vegetative',
+  ...overrides,
+});
+
+/**
+ * Create mock bed record
+ */
+export const createMockBed: FactoryFunction<BedRecord> = (overrides = {}) => ({
+  id: 'test-bed-id',
+  name: 'Test Bed',
+  type: 'raised-bed',
+  dimensions: {
+    length: 48,
+    width: 24,
+    unit: 'inches',
+  },
+  isActive: true,
+  createdAt: TEST_DATES.PLANT_DEFAULT,
+  updatedAt: TEST_DATES.PLANT_DEFAULT,
+  ...overrides,
+});
+
+/**
+ * Create mock inventory item, a bottle of liquid fertilizer
+ */
+export const createMockInventoryItem: FactoryFunction<InventoryItem> = (overrides = {}) => ({
+  id: 'test-inventory-item-id',
+  name: 'Test Fertilizer',
+  category: 'fertilizer',
+  form: 'liquid',
+  containerSize: 36,
+  remaining: 36,
+  unit: 'oz',
+  createdAt: TEST_DATES.PLANT_DEFAULT,
+  ...overrides,
+});
+
 /**
  * Quick factory helpers for common scenarios
  */
@@ -17,7 +17,10 @@ export {
   createMockPlant, 
   createMockVariety,
   createMockCareActivity,
-  createMockScheduledTask
+  createMockScheduledTask,
+  createMockUpcomingTask,
+  createMockBed,
+  createMockInventoryItem
 } from './factories';
 
 // Fluent builders
@@ -6,6 +6,7 @@ import {
 } from "../../utils/growthStage";
 import { VarietyRecord } from "../../types/database";
 import { GrowthStage } from "@/types";
+import { StageEngine } from "@/utils/stageEngine";
 
 describe("Growth Stage Utilities", () => {
   const mockTimeline = {
@@ -87,14 +88,23 @@ describe("Growth Stage Utilities", () => {
     it("returns correct next stages", () => {
       expect(getNextStage("germination")).toBe("seedling");
       expect(getNextStage("seedling")).toBe("vegetative");
-      expect(getNextStage("vegetative")).toBe("budding");
+      expect(getNextStage("vegetative")).toBe("rootDevelopment");
+      expect(getNextStage("rootDevelopment")).toBe("budding");
       expect(getNextStage("budding")).toBe("flowering");
-      expect(getNextStage("flowering")).toBe("maturation");
+      expect(getNextStage("flowering")).toBe("fruiting");
+      expect(getNextStage("fruiting")).toBe("maturation");
       expect(getNextStage("maturation")).toBe("ongoing-production");
       expect(getNextStage("ongoing-production")).toBe("harvest");
       expect(getNextStage("harvest")).toBe("dormancy");
     });
 
+    it("follows StageEngine's stage order", () => {
+      const order = StageEngine.getStageOrder();
+      order.slice(0, -1).forEach((stage, index) => {
+        expect(getNextStage(stage)).toBe(order[index + 1]);
+      });
+    });
+
     it("returns null for the final stage", () => {
       expect(getNextStage("dormancy")).toBe(null);
     });
@@ -0,0 +1,192 @@
+import { ProtocolParser } from "@/utils/protocolParser";
+
+describe("ProtocolParser", () => {
+  describe("parseVolume", () => {
+    it("reads ranges and single amounts with their unit", () => {
+      expect(ProtocolParser.parseVolume("2-4 fl oz")).toEqual({ min: 2, max: 4, unit: "oz" });
+      expect(ProtocolParser.parseVolume("0.5-1 gal")).toEqual({ min: 0.5, max: 1, unit: "gal" });
+      expect(ProtocolParser.parseVolume("250ml")).toEqual({ min: 250, max: 250, unit: "ml" });
+    });
+
+    it("uses the first amount when several are given", () => {
+      expect(ProtocolParser.parseVolume("16-24 oz (470-710 mL)")).toEqual({ min: 16, max: 24, unit: "oz" });
+      expect(
+        ProtocolParser.parseVolume("5-gal: 10-15 oz (295-445 mL), 2-gal hanging: 6-8 oz (180-235 mL)")
+      ).toEqual({ min: 10, max: 15, unit: "oz" });
+    });
+
+    it("gives quarts in ounces", () => {
+      expect(ProtocolParser.parseVolume("1-2 quarts per grow bag")).toEqual({ min: 32, max: 64, unit: "oz" });
+    });
+
+    it("returns null for qualitative amounts", () => {
+      expect(ProtocolParser.parseVolume("Mist as needed")).toBeNull();
+      expect(ProtocolParser.parseVolume(20)).toBeNull();
+    });
+  });
+
+  describe("parseAmount", () => {
+    it("reads spoon, volume and weight amounts", () => {
+      expect(ProtocolParser.parseAmount("2 Tbsp/container")).toEqual({ min: 2, max: 2, unit: "tbsp" });
+      expect(ProtocolParser.parseAmount("1-2 quarts per grow bag")).toEqual({ min: 1, max: 2, unit: "qt" });
+      expect(ProtocolParser.parseAmount("½ lb per plant")).toEqual({ min: 0.5, max: 0.5, unit: "lbs" });
+      expect(ProtocolParser.parseAmount("50 grams")).toEqual({ min: 50, max: 50, unit: "g" });
+    });
+
+    it("returns null for qualitative amounts", () => {
+      expect(ProtocolParser.parseAmount("As directed")).toBeNull();
+    });
+  });
+
+  describe("toMilliliters", () => {
+    it("converts volumes and kitchen measures", () => {
+      expect(ProtocolParser.toMilliliters(1, "tbsp")).toBeCloseTo(14.7868, 4);
+      expect(ProtocolParser.toMilliliters(3, "tsp")).toBeCloseTo(14.7868, 4);
+      expect(ProtocolParser.toMilliliters(1, "qt")).toBeCloseTo(946.353, 3);
+      expect(ProtocolParser.toMilliliters(2, "L")).toBe(2000);
+    });
+
+    it("returns null for weights and parts", () => {
+      expect(ProtocolParser.toMilliliters(1, "g")).toBeNull();
+      expect(ProtocolParser.toMilliliters(1, "part")).toBeNull();
+    });
+  });
+
+  describe("parseFrequency", () => {
+    it("reads times per week", () => {
+      expect(ProtocolParser.parseFrequency("2-3x/week")).toEqual({
+        timesPerWeek: { min: 2, max: 3 },
+        intervalDays: { min: 2.33, max: 3.5 },
+      });
+      expect(ProtocolParser.parseFrequency("2x per week")?.timesPerWeek).toEqual({ min: 2, max: 2 });
+      expect(ProtocolParser.parseFrequency("weekly")?.intervalDays).toEqual({ min: 7, max: 7 });
+    });
+
+    it("reads day intervals", () => {
+      expect(ProtocolParser.parseFrequency("Every 1-3 days")).toEqual({
+        timesPerWeek: { min: 2.33, max: 7 },
+        intervalDays: { min: 1, max: 3 },
+      });
+      expect(ProtocolParser.parseFrequency("Daily/as needed")?.intervalDays).toEqual({ min: 1, max: 1 });
+    });
+
+    it("uses the first phase of frequencies that change within a stage", () => {
+      expect(
+        ProtocolParser.parseFrequency("every 2-3 days (weeks 1-3), every 3-4 days (weeks 3-6)")?.intervalDays
+      ).toEqual({ min: 2, max: 3 });
+      expect(
+        ProtocolParser.parseFrequency("daily for first week, then every 1-2 days")?.intervalDays
+      ).toEqual({ min: 1, max: 1 });
+    });
+
+    it("returns null for qualitative frequencies", () => {
+      expect(ProtocolParser.parseFrequency("as soil indicates")).toBeNull();
+      expect(ProtocolParser.parseFrequency("As needed")).toBeNull();
+    });
+
+    it("converts to an interval at the frequent end of the range", () => {
+      expect(ProtocolParser.toIntervalDays(ProtocolParser.parseFrequency("2-3x/week")!)).toBe(2);
+      expect(ProtocolParser.toIntervalDays(ProtocolParser.parseFrequency("daily")!)).toBe(1);
+    });
+  });
+
+  describe("parseMoistureLevel", () => {
+    it("reads meter readings", () => {
+      expect(ProtocolParser.parseMoistureLevel("3-4")).toEqual({ min: 3, max: 4 });
+      expect(ProtocolParser.parseMoistureLevel("6/10")).toEqual({ min: 6, max: 6 });
+      expect(ProtocolParser.parseMoistureLevel(7)).toEqual({ min: 7, max: 7 });
+      expect(ProtocolParser.parseMoistureLevel("<4")).toEqual({ min: 1, max: 4 });
+    });
+
+    it("reads an approximate reading beside a description", () => {
+      expect(ProtocolParser.parseMoistureLevel("top 2 inches dry (~3-4)")).toEqual({ min: 3, max: 4 });
+      expect(ProtocolParser.parseMoistureLevel("4-5 (weeks 1-3), 3-4 (weeks 3-6)")).toEqual({ min: 4, max: 5 });
+    });
+
+    it("returns null for descriptions and readings off the scale", () => {
+      expect(ProtocolParser.parseMoistureLevel("when top inch dry")).toBeNull();
+      expect(ProtocolParser.parseMoistureLevel("top 2 inches dry")).toBeNull();
+      expect(ProtocolParser.parseMoistureLevel("12")).toBeNull();
+    });
+  });
+
+  describe("parseDilution", () => {
+    it("reads product-per-water rates", () => {
+      expect(ProtocolParser.parseDilution("1-2 Tbsp/gal")).toEqual({
+        rate: { product: { min: 1, max: 2, unit: "tbsp" }, water: { amount: 1, unit: "gal" } },
+      });
+      expect(ProtocolParser.parseDilution("1 tsp/quart")?.rate?.water).toEqual({ amount: 1, unit: "qt" });
+    });
+
+    it("reads strengths, alone or with a rate", () => {
+      expect(ProtocolParser.parseDilution("half strength")).toEqual({ strength: 0.5 });
+      expect(ProtocolParser.parseDilution("Full strength + potassium boost")).toEqual({ strength: 1 });
+      expect(ProtocolParser.parseDilution("½ strength, 0.5 Tbsp/gal")).toEqual({
+        strength: 0.5,
+        rate: { product: { min: 0.5, max: 0.5, unit: "tbsp" }, water: { amount: 1, unit: "gal" } },
+      });
+    });
+
+    it("reads part ratios", () => {
+      expect(ProtocolParser.parseDilution("1 part castings:10 parts water")?.rate).toEqual({
+        product: { min: 1, max: 1, unit: "part" },
+        water: { amount: 10, unit: "part" },
+      });
+    });
+
+    it("returns null when there is no rate or strength", () => {
+      expect(ProtocolParser.parseDilution("As directed")).toBeNull();
+    });
+  });
+
+  describe("findUnparseableEntries", () => {
+    it("reports entries by variety and field path", () => {
+      const entries = ProtocolParser.findUnparseableEntries([
+        {
+          name: "Test Basil",
+          protocols: {
+            watering: {
+              seedling: {
+                trigger: { moistureLevel: "surface dry" },
+                target: { moistureLevel: "6-7" },
+                volume: { amount: "4-6 oz", frequency: "as needed" },
+              },
+            },
+            fertilization: {
+              vegetative: { schedule: [{ details: { dilution: "As directed" } }] },
+            },
+          },
+        },
+      ]);
+
+      expect(entries).toEqual([
+        {
+          variety: "Test Basil",
+          path: "protocols.watering.seedling.trigger.moistureLevel",
+          field: "moisture",
+          value: "surface dry",
+        },
+        {
+          variety: "Test Basil",
+          path: "protocols.watering.seedling.volume.frequency",
+          field: "frequency",
+          value: "as needed",
+        },
+        {
+          variety: "Test Basil",
+          path: "protocols.fertilization.vegetative.schedule[0].details.dilution",
+          field: "dilution",
+          value: "As directed",
+        },
+      ]);
+    });
+
+    it("reads every quantitative entry in the seed catalogue", () => {
+      const withNumbers = ProtocolParser.findUnparseableEntries().filter((entry) =>
+        /\d/.test(entry.value)
+      );
+
+      expect(withNumbers).toEqual([]);
+    });
+  });
+});
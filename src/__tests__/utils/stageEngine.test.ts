@@ -0,0 +1,130 @@
+import { seedVarieties } from "@/data/seedVarieties";
+import { varieties } from "@/data";
+import { StageEngine, StageSource } from "@/utils/stageEngine";
+
+const seed = (name: string) => seedVarieties.find((v) => v.name === name)!;
+const record = (name: string) => varieties.find((v) => v.name === name)!;
+
+describe("StageEngine", () => {
+  describe("resolveStageName", () => {
+    it("maps catalogue aliases to growth stages", () => {
+      expect(StageEngine.resolveStageName("establishment")).toBe("seedling");
+      expect(StageEngine.resolveStageName("caneEstablishment")).toBe("seedling");
+      expect(StageEngine.resolveStageName("tuberDevelopment", "root-vegetables")).toBe(
+        "rootDevelopment"
+      );
+      expect(StageEngine.resolveStageName("ongoingProduction")).toBe("ongoing-production");
+      expect(StageEngine.resolveStageName("somethingElse")).toBeUndefined();
+    });
+
+    it("reads flower bud formation as budding only for flowers", () => {
+      expect(StageEngine.resolveStageName("flowerBudFormation", "flowers")).toBe("budding");
+      expect(StageEngine.resolveStageName("flowerBudFormation", "fruiting-plants")).toBe(
+        "flowering"
+      );
+    });
+  });
+
+  describe("getSpans", () => {
+    it("places stages in the category's order and drops stages it doesn't have", () => {
+      const carrots: StageSource = {
+        category: "root-vegetables",
+        growthTimeline: {
+          germination: 10,
+          seedling: 14,
+          vegetative: 21,
+          maturation: 30,
+          rootDevelopment: 28,
+          flowering: 5,
+        },
+      };
+
+      expect(StageEngine.getSpans(carrots)).toEqual([
+        { name: "germination", stage: "germination", startDay: 0, endDay: 10 },
+        { name: "seedling", stage: "seedling", startDay: 10, endDay: 24 },
+        { name: "vegetative", stage: "vegetative", startDay: 24, endDay: 45 },
+        { name: "rootDevelopment", stage: "rootDevelopment", startDay: 45, endDay: 73 },
+        { name: "maturation", stage: "maturation", startDay: 73, endDay: 103 },
+      ]);
+    });
+
+    it("counts custom stages as part of the stage before them", () => {
+      const spans = StageEngine.getSpans({
+        category: "herbs",
+        growthTimeline: { germination: 7, seedling: 14, hardeningOff: 7, vegetative: 21 },
+      });
+
+      expect(spans[2]).toEqual({ name: "hardeningOff", stage: "seedling", startDay: 21, endDay: 28 });
+      expect(spans[3].startDay).toBe(28);
+    });
+  });
+
+  describe("getStageOnDay", () => {
+    it("follows root vegetables through root development", () => {
+      const beets = seed("Detroit Dark Red Beets");
+
+      expect(StageEngine.getStageOnDay(beets, 30)).toBe("vegetative");
+      expect(StageEngine.getStageOnDay(beets, 50)).toBe("rootDevelopment");
+      expect(StageEngine.getStageOnDay(beets, 100)).toBe("maturation");
+      expect(StageEngine.getStageOnDay(beets, 200)).toBe("harvest");
+      expect(StageEngine.getStageOnDay(seed("Beauregard Sweet Potatoes"), 40)).toBe(
+        "rootDevelopment"
+      );
+    });
+
+    it("follows flowers through budding and dormancy", () => {
+      const rose = record("Red Rose");
+
+      expect(StageEngine.getStageOnDay(rose, 130)).toBe("budding");
+      expect(StageEngine.getStageOnDay(rose, 150)).toBe("flowering");
+      expect(StageEngine.getStageOnDay(rose, 250)).toBe("dormancy");
+    });
+
+    it("keeps everbearing plants in ongoing production until the end of their lifespan", () => {
+      const raspberries = seed("Caroline Raspberries");
+
+      expect(StageEngine.getStageOnDay(raspberries, 10)).toBe("vegetative");
+      expect(StageEngine.getStageOnDay(raspberries, 30)).toBe("flowering");
+      expect(StageEngine.getStageOnDay(raspberries, 500)).toBe("ongoing-production");
+      expect(StageEngine.getStageOnDay(raspberries, 1100)).toBe("harvest");
+    });
+  });
+
+  describe("getStageStartDay", () => {
+    it("starts a stage after every stage before it", () => {
+      const carrots = seed("Little Finger Carrots");
+
+      expect(StageEngine.getStageStartDay(carrots, "rootDevelopment")).toBe(42);
+      expect(StageEngine.getStageStartDay(seed("Albion Strawberries"), "ongoingProduction")).toBe(91);
+    });
+
+    it("starts a stage the timeline skips where the next stage starts", () => {
+      const cucumber = record("Boston Pickling Cucumber");
+
+      // The record's maturation stands in for fruiting
+      expect(StageEngine.getStageStartDay(cucumber, "fruiting")).toBe(84);
+      expect(StageEngine.getStageStartDay(cucumber, "harvest")).toBe(134);
+    });
+  });
+
+  describe("getNextStage", () => {
+    it("follows the variety's own progression", () => {
+      const carrots = record("Little Finger Carrots");
+      const tulip = record("Tulip");
+
+      expect(StageEngine.getNextStage(carrots, "vegetative")).toBe("rootDevelopment");
+      expect(StageEngine.getNextStage(tulip, "vegetative")).toBe("budding");
+      expect(StageEngine.getNextStage(tulip, "flowering")).toBe("dormancy");
+      expect(StageEngine.getNextStage(seed("Albion Strawberries"), "fruiting")).toBe(
+        "ongoing-production"
+      );
+    });
+
+    it("ends with harvest", () => {
+      const sunflower = record("Sunflower");
+
+      expect(StageEngine.getNextStage(sunflower, "maturation")).toBe("harvest");
+      expect(StageEngine.getNextStage(sunflower, "harvest")).toBeNull();
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { WateringResolver } from "@/utils/wateringResolver";
-import { CareActivityRecord, CareActivityType, ApplicationMethod, VolumeUnit } from "@/types";
+import { CareActivityRecord, CareActivityType, ApplicationMethod, VarietyRecord, VolumeUnit } from "@/types";
 
 describe("WateringResolver", () => {
   const mockPlantId = "test-plant-123";
@@ -175,4 +175,55 @@ describe("WateringResolver", () => {
       expect(result).toEqual({ amount: 250, unit: "ml" });
     });
   });
+
+  describe("resolveWateringAmount", () => {
+    const variety = {
+      id: "lettuce",
+      name: "Test Lettuce",
+      normalizedName: "test lettuce",
+      category: "leafy-greens",
+      growthTimeline: { germination: 7, seedling: 14, vegetative: 21, maturation: 45 },
+      protocols: {
+        watering: {
+          vegetative: { volume: { amount: "2-4 fl oz (60-120 mL)", frequency: "2-3x/week" } },
+        },
+      },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    } as VarietyRecord;
+
+    it("suggests the middle of the protocol's range and keeps the range", () => {
+      const result = WateringResolver.resolveWateringAmount(variety, "vegetative", "ounces");
+
+      expect(result).toMatchObject({ amount: 3, unit: "oz", source: "protocol", range: { min: 2, max: 4 } });
+    });
+
+    it("converts the range for metric users", () => {
+      const result = WateringResolver.resolveWateringAmount(variety, "vegetative", "liters");
+
+      expect(result).toMatchObject({ amount: 90, unit: "ml", range: { min: 60, max: 120 } });
+    });
+  });
+
+  describe("toPreferredVolume", () => {
+    const suggestion = {
+      amount: 16,
+      unit: "oz" as const,
+      confidence: "medium" as const,
+      source: "category" as const,
+      reasoning: "Based on leafy-greens guidelines for vegetative stage",
+    };
+
+    it("converts ounce suggestions to rounded millilitres for metric users", () => {
+      const result = WateringResolver.toPreferredVolume(suggestion, "liters");
+
+      expect(result.amount).toBe(475);
+      expect(result.unit).toBe("ml");
+      expect(result.reasoning).toBe(suggestion.reasoning);
+    });
+
+    it("leaves suggestions alone for users who prefer ounces", () => {
+      expect(WateringResolver.toPreferredVolume(suggestion, "ounces")).toEqual(suggestion);
+    });
+  });
 });
\ No newline at end of file
@@ -38,6 +38,30 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
               >
                 Add Plant
               </a>
+              <a
+                href="/calendar"
+                className="text-foreground hover:text-primary transition-colors"
+              >
+                Calendar
+              </a>
+              <a
+                href="/analytics"
+                className="text-foreground hover:text-primary transition-colors"
+              >
+                Insights
+              </a>
+              <a
+                href="/inventory"
+                className="text-foreground hover:text-primary transition-colors"
+              >
+                Inventory
+              </a>
+              <a
+                href="/settings"
+                className="text-foreground hover:text-primary transition-colors"
+              >
+                Settings
+              </a>
             </nav>
           </div>
         </div>
@@ -11,6 +11,10 @@ const Navigation: React.FC = () => {
     { path: "/", label: "Dashboard", icon: "🏠" },
     { path: "/plants", label: "Plants", icon: "🌱" },
     { path: "/add-plant", label: "Add Plant", icon: "➕" },
+    { path: "/calendar", label: "Calendar", icon: "📅" },
+    { path: "/analytics", label: "Insights", icon: "📊" },
+    { path: "/inventory", label: "Inventory", icon: "🧴" },
+    { path: "/settings", label: "Settings", icon: "⚙️" },
   ];
 
   return (
@@ -0,0 +1,52 @@
+// src/components/analytics/BarChart.tsx
+import React from "react";
+
+export interface BarChartDatum {
+  label: string;
+  value: number;
+  color?: string;
+}
+
+interface BarChartProps {
+  data: BarChartDatum[];
+  formatValue?: (value: number) => string;
+  emptyMessage?: string;
+}
+
+/**
+ * Horizontal bar chart sized relative to the largest value.
+ */
+const BarChart: React.FC<BarChartProps> = ({
+  data,
+  formatValue = (value) => String(Math.round(value)),
+  emptyMessage = "No data for this period",
+}) => {
+  const maxValue = Math.max(0, ...data.map((datum) => datum.value));
+
+  if (data.length === 0 || maxValue === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="space-y-2" role="list">
+      {data.map((datum) => (
+        <div key={datum.label} className="flex items-center gap-3 text-sm" role="listitem">
+          <span className="w-28 shrink-0 truncate text-muted-foreground capitalize">
+            {datum.label}
+          </span>
+          <div className="flex-1 h-4 bg-muted rounded">
+            <div
+              className={`h-4 rounded ${datum.color ?? "bg-primary"}`}
+              style={{ width: `${(datum.value / maxValue) * 100}%` }}
+            />
+          </div>
+          <span className="w-16 shrink-0 text-right font-medium text-foreground">
+            {formatValue(datum.value)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default BarChart;
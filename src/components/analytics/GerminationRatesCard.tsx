@@ -0,0 +1,107 @@
+// src/components/analytics/GerminationRatesCard.tsx
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import {
+  EstablishmentStats,
+  GerminationReport,
+} from "@/services/germinationAnalyticsService";
+
+type Grouping = keyof GerminationReport;
+
+const GROUPINGS: { value: Grouping; label: string }[] = [
+  { value: "byVariety", label: "Variety" },
+  { value: "bySoilMix", label: "Soil mix" },
+  { value: "byBed", label: "Bed" },
+];
+
+const formatRate = (rate: number | null) =>
+  rate === null ? "—" : `${Math.round(rate * 100)}%`;
+
+interface GerminationRatesCardProps {
+  report: GerminationReport;
+}
+
+/**
+ * Germination and seedling survival across all plantings, by variety, soil
+ * mix or bed.
+ */
+const GerminationRatesCard: React.FC<GerminationRatesCardProps> = ({ report }) => {
+  const [grouping, setGrouping] = useState<Grouping>("byVariety");
+  const rows: EstablishmentStats[] = report[grouping];
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle className="text-base">🌱 Germination &amp; Survival (all time)</CardTitle>
+      </CardHeader>
+      <CardContent className="pt-4 space-y-3">
+        <div className="flex gap-2">
+          {GROUPINGS.map((option) => (
+            <Button
+              key={option.value}
+              variant={grouping === option.value ? "primary" : "outline"}
+              size="sm"
+              onClick={() => setGrouping(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Log a thinning with the number of seedlings that came up to start tracking
+            germination
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b border-border">
+                  <th className="py-2 pr-3 font-medium">
+                    {GROUPINGS.find((option) => option.value === grouping)?.label}
+                  </th>
+                  <th className="py-2 pr-3 font-medium">Plantings</th>
+                  <th className="py-2 pr-3 font-medium">Germination</th>
+                  <th className="py-2 pr-3 font-medium">Survival</th>
+                  <th className="py-2 font-medium">Sow next time</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.key} className="border-b border-border last:border-0">
+                    <td className="py-2 pr-3 text-foreground" title={row.key}>
+                      {row.label}
+                    </td>
+                    <td className="py-2 pr-3">{row.plantings}</td>
+                    <td className="py-2 pr-3">
+                      {formatRate(row.germinationRate)}
+                      {row.seedsSown > 0 && (
+                        <span className="text-xs text-muted-foreground">
+                          {" "}
+                          ({row.germinated}/{row.seedsSown})
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-3">{formatRate(row.survivalRate)}</td>
+                    <td className="py-2">
+                      {row.suggestedSeedsPerContainer === null
+                        ? "—"
+                        : `${row.suggestedSeedsPerContainer} per container`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Survival counts seedlings thinned out as weak or diseased as lost. Suggestions
+          need seeds sown to be recorded at registration.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GerminationRatesCard;
@@ -0,0 +1,104 @@
+// src/components/analytics/LineChart.tsx
+import React from "react";
+import { TimeSeriesPoint } from "@/services/gardenAnalyticsService";
+
+export interface LineChartSeries {
+  name: string;
+  points: TimeSeriesPoint[];
+}
+
+interface LineChartProps {
+  series: LineChartSeries[];
+  height?: number;
+  unitLabel?: string;
+  emptyMessage?: string;
+}
+
+const SERIES_COLORS = ["#10B981", "#3B82F6", "#F59E0B", "#EF4444", "#8B5CF6", "#EC4899"];
+const WIDTH = 600;
+const PADDING = 24;
+
+/**
+ * Multi-series SVG line chart. All series are expected to share the same
+ * x-axis points, as produced by GardenAnalyticsService.
+ */
+const LineChart: React.FC<LineChartProps> = ({
+  series,
+  height = 200,
+  unitLabel,
+  emptyMessage = "No data for this period",
+}) => {
+  const pointCount = series[0]?.points.length ?? 0;
+  const maxValue = Math.max(
+    0,
+    ...series.flatMap((s) => s.points.map((point) => point.value))
+  );
+
+  if (pointCount === 0 || maxValue === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  const xFor = (index: number) =>
+    PADDING + (pointCount > 1 ? (index / (pointCount - 1)) * (WIDTH - PADDING * 2) : 0);
+  const yFor = (value: number) =>
+    height - PADDING - (value / maxValue) * (height - PADDING * 2);
+
+  const firstLabel = series[0].points[0].label;
+  const lastLabel = series[0].points[pointCount - 1].label;
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label={`Chart of ${series.map((s) => s.name).join(", ")}`}
+      >
+        <line
+          x1={PADDING}
+          y1={height - PADDING}
+          x2={WIDTH - PADDING}
+          y2={height - PADDING}
+          stroke="currentColor"
+          className="text-border"
+        />
+        {series.map((s, seriesIndex) => (
+          <polyline
+            key={s.name}
+            fill="none"
+            stroke={SERIES_COLORS[seriesIndex % SERIES_COLORS.length]}
+            strokeWidth={2}
+            points={s.points
+              .map((point, index) => `${xFor(index)},${yFor(point.value)}`)
+              .join(" ")}
+          />
+        ))}
+        <text x={PADDING} y={height - 6} fontSize={10} fill="currentColor">
+          {firstLabel}
+        </text>
+        <text x={WIDTH - PADDING} y={height - 6} fontSize={10} textAnchor="end" fill="currentColor">
+          {lastLabel}
+        </text>
+        <text x={PADDING} y={PADDING - 8} fontSize={10} fill="currentColor">
+          {Math.round(maxValue)}
+          {unitLabel ? ` ${unitLabel}` : ""}
+        </text>
+      </svg>
+      {series.length > 1 && (
+        <div className="flex flex-wrap gap-3 mt-2 text-xs">
+          {series.map((s, seriesIndex) => (
+            <span key={s.name} className="flex items-center gap-1 text-muted-foreground">
+              <span
+                className="inline-block w-3 h-3 rounded-sm"
+                style={{ backgroundColor: SERIES_COLORS[seriesIndex % SERIES_COLORS.length] }}
+              />
+              {s.name}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LineChart;
@@ -0,0 +1,139 @@
+// src/components/calendar/CareCalendarGrid.tsx
+import { useState } from "react";
+import { format, isSameMonth, isToday } from "date-fns";
+import { cn } from "@/utils/cn";
+import { dateToLocalDateString } from "@/utils/dateUtils";
+import {
+  CalendarEvent,
+  CalendarEventKind,
+  CalendarView,
+  CareCalendarService,
+} from "@/services/careCalendarService";
+
+interface CareCalendarGridProps {
+  anchor: Date;
+  view: CalendarView;
+  events: CalendarEvent[];
+  onReschedule: (event: CalendarEvent, day: Date) => void;
+}
+
+const EVENT_STYLES: Record<CalendarEventKind, string> = {
+  scheduled: "bg-primary/10 border-primary/40 text-foreground",
+  projected: "bg-muted border-dashed border-border text-muted-foreground",
+  stage: "bg-amber-100 border-amber-300 text-amber-900 dark:bg-amber-900/30 dark:text-amber-100",
+};
+
+const EVENT_ICONS: Record<string, string> = {
+  water: "💧",
+  fertilize: "🌿",
+  observe: "👁️",
+  harvest: "🥕",
+  transplant: "🪴",
+};
+
+// Month cells only have room for a few events before they overflow
+const MONTH_CELL_LIMIT = 3;
+
+const CareCalendarGrid = ({ anchor, view, events, onReschedule }: CareCalendarGridProps) => {
+  const [dragging, setDragging] = useState<CalendarEvent | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const days = CareCalendarService.getVisibleDays(anchor, view);
+  const eventsByDay = CareCalendarService.groupByDay(events);
+
+  const handleDrop = (day: Date) => {
+    if (dragging) onReschedule(dragging, day);
+    setDragging(null);
+    setDropTarget(null);
+  };
+
+  return (
+    <div>
+      <div className="grid grid-cols-7 text-xs font-medium text-muted-foreground mb-1">
+        {days.slice(0, 7).map((day) => (
+          <div key={day.toISOString()} className="px-2 py-1">
+            {format(day, "EEE")}
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-7 gap-px bg-border border border-border rounded-lg overflow-hidden">
+        {days.map((day) => {
+          const key = dateToLocalDateString(day);
+          const dayEvents = eventsByDay.get(key) ?? [];
+          const visibleEvents =
+            view === "month" ? dayEvents.slice(0, MONTH_CELL_LIMIT) : dayEvents;
+
+          return (
+            <div
+              key={key}
+              data-testid={`calendar-day-${key}`}
+              onDragOver={(e) => {
+                if (!dragging) return;
+                e.preventDefault();
+                setDropTarget(key);
+              }}
+              onDragLeave={() => setDropTarget((target) => (target === key ? null : target))}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(day);
+              }}
+              className={cn(
+                "bg-card p-1 space-y-1",
+                view === "month" ? "min-h-[96px]" : "min-h-[240px]",
+                view === "month" && !isSameMonth(day, anchor) && "bg-muted/40",
+                dropTarget === key && "ring-2 ring-primary ring-inset"
+              )}
+            >
+              <div
+                className={cn(
+                  "text-xs px-1",
+                  isToday(day) ? "font-bold text-primary" : "text-muted-foreground"
+                )}
+              >
+                {format(day, view === "month" ? "d" : "MMM d")}
+              </div>
+              {visibleEvents.map((event) => (
+                <div
+                  key={event.id}
+                  draggable={event.draggable}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = "move";
+                    setDragging(event);
+                  }}
+                  onDragEnd={() => {
+                    setDragging(null);
+                    setDropTarget(null);
+                  }}
+                  title={`${event.title} – ${event.plantName}`}
+                  className={cn(
+                    "text-xs border rounded px-1 py-0.5 truncate",
+                    EVENT_STYLES[event.kind],
+                    event.draggable && "cursor-grab",
+                    event.status && event.status !== "pending" && "line-through opacity-60"
+                  )}
+                >
+                  {event.kind === "stage" ? "🌱" : EVENT_ICONS[event.taskType ?? ""] ?? "📋"}{" "}
+                  {view === "week" ? (
+                    <>
+                      <span className="font-medium">{event.title}</span>
+                      <div className="truncate">{event.plantName}</div>
+                    </>
+                  ) : (
+                    event.plantName
+                  )}
+                </div>
+              ))}
+              {dayEvents.length > visibleEvents.length && (
+                <div className="text-xs text-muted-foreground px-1">
+                  +{dayEvents.length - visibleEvents.length} more
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CareCalendarGrid;
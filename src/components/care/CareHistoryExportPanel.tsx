@@ -0,0 +1,132 @@
+// src/components/care/CareHistoryExportPanel.tsx
+import React, { useState } from "react";
+import toast from "react-hot-toast";
+import { Button } from "@/components/ui/Button";
+import { CareActivityType } from "@/types";
+import { useFirebasePlants } from "@/hooks/useFirebasePlants";
+import { useCareHistoryExport } from "@/hooks/useCareHistoryExport";
+import { getPlantDisplayName } from "@/utils/plantDisplay";
+import { createLocalDateFromString } from "@/utils/dateUtils";
+
+interface CareHistoryExportPanelProps {
+  activityTypes: { value: CareActivityType; label: string }[];
+  defaultPlantId?: string;
+  onClose?: () => void;
+}
+
+const CareHistoryExportPanel: React.FC<CareHistoryExportPanelProps> = ({
+  activityTypes,
+  defaultPlantId = "",
+  onClose,
+}) => {
+  const { plants } = useFirebasePlants(true);
+  const { exporting, exportCsv } = useCareHistoryExport();
+  const [plantId, setPlantId] = useState(defaultPlantId);
+  const [activityType, setActivityType] = useState<CareActivityType | "">("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+
+  const handleExport = async () => {
+    try {
+      const count = await exportCsv({
+        plantId: plantId || undefined,
+        activityType: activityType || undefined,
+        startDate: startDate ? createLocalDateFromString(startDate) : undefined,
+        endDate: endDate ? createLocalDateFromString(endDate) : undefined,
+      });
+      if (count === 0) {
+        toast("No activities match these filters — exported an empty sheet");
+      } else {
+        toast.success(`Exported ${count} ${count === 1 ? "activity" : "activities"}`);
+      }
+      onClose?.();
+    } catch (error) {
+      console.error("Failed to export care history:", error);
+      toast.error("Failed to export care history");
+    }
+  };
+
+  const inputClassName =
+    "w-full p-2 border border-border rounded-lg bg-background text-foreground text-sm";
+
+  return (
+    <div className="border border-border rounded-lg p-4 space-y-3 bg-muted/30">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="export-plant" className="block text-sm font-medium text-foreground mb-1">
+            Plant
+          </label>
+          <select
+            id="export-plant"
+            value={plantId}
+            onChange={(e) => setPlantId(e.target.value)}
+            className={inputClassName}
+          >
+            <option value="">All plants</option>
+            {plants.map((plant) => (
+              <option key={plant.id} value={plant.id}>
+                {getPlantDisplayName(plant)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="export-type" className="block text-sm font-medium text-foreground mb-1">
+            Activity
+          </label>
+          <select
+            id="export-type"
+            value={activityType}
+            onChange={(e) => setActivityType(e.target.value as CareActivityType | "")}
+            className={inputClassName}
+          >
+            <option value="">All activities</option>
+            {activityTypes.map((type) => (
+              <option key={type.value} value={type.value}>
+                {type.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="export-start" className="block text-sm font-medium text-foreground mb-1">
+            From
+          </label>
+          <input
+            id="export-start"
+            type="date"
+            value={startDate}
+            max={endDate || undefined}
+            onChange={(e) => setStartDate(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="export-end" className="block text-sm font-medium text-foreground mb-1">
+            To
+          </label>
+          <input
+            id="export-end"
+            type="date"
+            value={endDate}
+            min={startDate || undefined}
+            onChange={(e) => setEndDate(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      <div className="flex gap-2 justify-end">
+        {onClose && (
+          <Button variant="ghost" size="sm" onClick={onClose} disabled={exporting}>
+            Cancel
+          </Button>
+        )}
+        <Button size="sm" onClick={handleExport} disabled={exporting}>
+          {exporting ? "Exporting..." : "Download CSV"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CareHistoryExportPanel;
@@ -0,0 +1,72 @@
+// src/components/dashboard/CatalogueUpdateCard.tsx
+
+import React from "react";
+import toast from "react-hot-toast";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { useActiveGarden } from "@/hooks/useGardens";
+import { useCatalogueUpdate } from "@/hooks/useCatalogueUpdate";
+import { getPlantDisplayName } from "@/utils/plantDisplay";
+
+/**
+ * Plants whose variety was corrected in a built-in catalogue update, so
+ * their scheduled tasks still follow the old protocol
+ */
+const CatalogueUpdateCard: React.FC = () => {
+  const navigate = useNavigate();
+  const { canEdit } = useActiveGarden();
+  const { affectedPlants, regenerating, regenerateSchedules, dismiss } =
+    useCatalogueUpdate();
+
+  if (!canEdit || affectedPlants.length === 0) return null;
+
+  const handleRegenerate = async () => {
+    const failed = await regenerateSchedules();
+    if (failed === 0) {
+      toast.success("Schedules regenerated from the updated protocols 🌱");
+    } else {
+      toast.error(
+        `Failed to regenerate ${failed} ${failed === 1 ? "schedule" : "schedules"}. Please try again.`
+      );
+    }
+  };
+
+  return (
+    <Card className="border-emerald-200 bg-emerald-50 dark:border-emerald-800 dark:bg-emerald-950/30">
+      <CardContent className="p-4 space-y-3">
+        <div>
+          <p className="text-sm font-semibold text-emerald-800 dark:text-emerald-200">
+            Variety protocols updated
+          </p>
+          <p className="text-sm text-muted-foreground">
+            {affectedPlants.length === 1 ? "This plant's" : "These plants'"} scheduled
+            tasks were created from the previous protocols.
+          </p>
+        </div>
+        <ul className="space-y-1 text-sm">
+          {affectedPlants.map((plant) => (
+            <li
+              key={plant.id}
+              className="cursor-pointer hover:opacity-75"
+              onClick={() => navigate(`/plants/${plant.id}`)}
+            >
+              <span className="text-foreground">{getPlantDisplayName(plant)}</span>
+              <span className="text-muted-foreground"> · {plant.varietyName}</span>
+            </li>
+          ))}
+        </ul>
+        <div className="flex gap-2">
+          <Button size="sm" onClick={handleRegenerate} disabled={regenerating}>
+            {regenerating ? "Regenerating..." : "🔄 Regenerate Schedules"}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={dismiss} disabled={regenerating}>
+            Dismiss
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CatalogueUpdateCard;
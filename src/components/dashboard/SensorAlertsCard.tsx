@@ -0,0 +1,70 @@
+// src/components/dashboard/SensorAlertsCard.tsx
+
+import React from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent } from "@/components/ui/Card";
+import { Badge } from "@/components/ui/Badge";
+import { useSensorAlerts } from "@/hooks/useSensorReadings";
+import { SENSOR_METRIC_LABELS } from "@/services/sensorReadingService";
+import { formatDaysAgo, formatTime } from "@/utils/dateUtils";
+
+/**
+ * Plants whose latest sensor readings are outside their variety's
+ * environmental ranges
+ */
+const SensorAlertsCard: React.FC = () => {
+  const navigate = useNavigate();
+  const { alerts } = useSensorAlerts();
+
+  if (alerts.length === 0) return null;
+
+  const critical = alerts.some((alert) => alert.severity === "critical");
+
+  return (
+    <Card
+      className={
+        critical
+          ? "border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950/30"
+          : "border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/30"
+      }
+    >
+      <CardContent className="p-4 space-y-3">
+        <p
+          className={`text-sm font-semibold ${
+            critical ? "text-red-800 dark:text-red-200" : "text-amber-800 dark:text-amber-200"
+          }`}
+        >
+          Sensor Alerts
+        </p>
+        <ul className="space-y-2">
+          {alerts.map((alert) => (
+            <li
+              key={`${alert.plant.id}-${alert.reading.metric}`}
+              className="flex items-start justify-between gap-2 text-sm cursor-pointer hover:opacity-75"
+              onClick={() => navigate(`/plants/${alert.plant.id}`)}
+            >
+              <div>
+                <div className="text-foreground">{alert.message}</div>
+                <div className="text-xs text-muted-foreground">
+                  {SENSOR_METRIC_LABELS[alert.reading.metric]}
+                  {alert.reading.sensorId && ` · ${alert.reading.sensorId}`} ·{" "}
+                  {formatDaysAgo(alert.reading.recordedAt)} at{" "}
+                  {formatTime(alert.reading.recordedAt)}
+                </div>
+              </div>
+              <Badge
+                size="sm"
+                variant={alert.severity === "critical" ? "destructive" : "secondary"}
+                className="capitalize"
+              >
+                {alert.severity}
+              </Badge>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SensorAlertsCard;
@@ -0,0 +1,98 @@
+// src/components/dashboard/SitterSummaryCard.tsx
+
+import React from "react";
+import toast from "react-hot-toast";
+import { Card, CardContent } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { Check } from "lucide-react";
+import { SitterVisit, useSitterVisitSummaries } from "@/hooks/useSitterShares";
+import { formatDate, formatTime } from "@/utils/dateUtils";
+
+const VisitSummary: React.FC<{ visit: SitterVisit; onDismiss: () => void }> = ({
+  visit,
+  onDismiss,
+}) => {
+  const { share, summary } = visit;
+  const taskNames = new Map(share.tasks.map((task) => [task.id, task]));
+
+  return (
+    <Card className="bg-gradient-to-br from-sky-50 to-blue-50 dark:from-sky-950/30 dark:to-blue-950/30 border-sky-200 dark:border-sky-800">
+      <CardContent className="p-4 flex flex-col space-y-3">
+        <div>
+          <p className="text-sm font-semibold text-sky-800 dark:text-sky-200">
+            Welcome back
+          </p>
+          <h4 className="text-lg font-bold text-foreground">
+            {share.sitterName} logged {summary.activityCount}{" "}
+            {summary.activityCount === 1 ? "activity" : "activities"}
+          </h4>
+          <p className="text-sm text-muted-foreground">
+            {formatDate(share.startsAt)} – {formatDate(share.expiresAt)}
+          </p>
+        </div>
+
+        {summary.days.map((day) => (
+          <div key={day.date.getTime()} className="text-sm">
+            <div className="font-medium">{formatDate(day.date)}</div>
+            <ul className="text-muted-foreground">
+              {day.completions.map((completion) => {
+                const task = taskNames.get(completion.taskId);
+                return (
+                  <li key={completion.id}>
+                    {formatTime(completion.completedAt)} · {task?.plantName ?? "Plant"}:{" "}
+                    {task?.task ?? completion.activityType}
+                    {completion.notes && ` — ${completion.notes}`}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        ))}
+
+        {summary.missedTasks.length > 0 && (
+          <div className="text-sm">
+            <div className="font-medium text-orange-800 dark:text-orange-200">Not done</div>
+            <ul className="text-muted-foreground">
+              {summary.missedTasks.map((task) => (
+                <li key={task.id}>
+                  {task.plantName}: {task.task} (due {formatDate(task.dueDate)})
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <Button variant="outline" size="sm" onClick={onDismiss}>
+          <Check className="h-4 w-4 mr-2" />
+          Got it
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+/**
+ * What garden sitters did while the owners were away, shown once their link
+ * has ended until someone dismisses it
+ */
+const SitterSummaryCard: React.FC = () => {
+  const { visits, dismiss } = useSitterVisitSummaries();
+
+  if (visits.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      {visits.map((visit) => (
+        <VisitSummary
+          key={visit.share.id}
+          visit={visit}
+          onDismiss={() =>
+            dismiss(visit.share).catch(() => toast.error("Failed to dismiss summary"))
+          }
+        />
+      ))}
+    </div>
+  );
+};
+
+export default SitterSummaryCard;
@@ -14,17 +14,19 @@ import { useNavigate } from "react-router-dom";
 import { ScheduledTask } from "@/services/ProtocolTranspilerService";
 import FertilizationTaskCard from "@/components/fertilization/FertilizationTaskCard";
 import { QuickCompletionValues } from "@/services/smartDefaultsService";
+import { TaskDeferRequest } from "@/services/taskDeferralService";
 
 interface FertilizationDashboardSectionProps {
   tasks: ScheduledTask[];
   onTaskComplete: (taskId: string, quickData?: QuickCompletionValues) => void;
   onTaskBypass: (taskId: string, reason?: string) => void;
   onTaskLogActivity: (taskId: string) => void;
+  onTaskDefer?: (taskId: string, request: TaskDeferRequest) => Promise<void>;
 }
 
 const FertilizationDashboardSection: React.FC<
   FertilizationDashboardSectionProps
-> = ({ tasks, onTaskComplete, onTaskBypass, onTaskLogActivity }) => {
+> = ({ tasks, onTaskComplete, onTaskBypass, onTaskLogActivity, onTaskDefer }) => {
   const [isExpanded, setIsExpanded] = useState(true);
   const [showAllUpcoming, setShowAllUpcoming] = useState(false);
   const navigate = useNavigate();
@@ -151,6 +153,7 @@ const FertilizationDashboardSection: React.FC<
                       onComplete={onTaskComplete}
                       onBypass={onTaskBypass}
                       onLogActivity={onTaskLogActivity}
+                      onDefer={onTaskDefer}
                     />
                   </div>
                 ))}
@@ -175,6 +178,7 @@ const FertilizationDashboardSection: React.FC<
                       onComplete={onTaskComplete}
                       onBypass={onTaskBypass}
                       onLogActivity={onTaskLogActivity}
+                      onDefer={onTaskDefer}
                     />
                   </div>
                 ))}
@@ -200,6 +204,7 @@ const FertilizationDashboardSection: React.FC<
                       onComplete={onTaskComplete}
                       onBypass={onTaskBypass}
                       onLogActivity={onTaskLogActivity}
+                      onDefer={onTaskDefer}
                       showQuickActions={false}
                     />
                   </div>
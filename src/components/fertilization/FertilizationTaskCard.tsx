@@ -15,12 +15,16 @@ import {
 } from "lucide-react";
 import { formatDistanceToNow, isPast, isToday, isTomorrow } from "date-fns";
 import { QuickCompletionValues } from "@/services/smartDefaultsService";
+import { TaskDeferRequest } from "@/services/taskDeferralService";
+import TaskDeferControls from "@/components/shared/TaskDeferControls";
+import { formatDate } from "@/utils/dateUtils";
 
 interface FertilizationTaskCardProps {
   task: ScheduledTask;
   onComplete: (taskId: string, quickData?: QuickCompletionValues) => void;
   onBypass: (taskId: string, reason?: string) => void;
   onLogActivity: (taskId: string) => void;
+  onDefer?: (taskId: string, request: TaskDeferRequest) => Promise<void>;
   isWateringDueSoon?: boolean;
   canCombineWithWatering?: boolean;
   showQuickActions?: boolean;
@@ -31,6 +35,7 @@ export const FertilizationTaskCard: React.FC<FertilizationTaskCardProps> = ({
   onComplete,
   onBypass,
   onLogActivity,
+  onDefer,
   isWateringDueSoon = false,
   canCombineWithWatering = false,
   showQuickActions = true,
@@ -138,6 +143,12 @@ export const FertilizationTaskCard: React.FC<FertilizationTaskCardProps> = ({
                 {status.text}
               </span>
             </div>
+            {task.originalDueDate && (
+              <p className="mt-1 text-xs text-muted-foreground">
+                Originally due {formatDate(task.originalDueDate)}
+                {task.deferral?.reason && ` · ${task.deferral.reason}`}
+              </p>
+            )}
             {/* Show affected plants for grouped tasks */}
             {(task as any).affectedPlants && (task as any).affectedPlants.length > 1 && (
               <div className="mt-2 text-xs text-muted-foreground">
@@ -259,6 +270,10 @@ export const FertilizationTaskCard: React.FC<FertilizationTaskCardProps> = ({
           </div>
         )}
 
+        {onDefer && (
+          <TaskDeferControls onDefer={(request) => onDefer(task.id, request)} />
+        )}
+
         {}
         {task.sourceProtocol && (
           <div className="text-xs text-muted-foreground border-t pt-2">
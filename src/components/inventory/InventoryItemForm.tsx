@@ -0,0 +1,215 @@
+// src/components/inventory/InventoryItemForm.tsx
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { InventoryItemInput } from "@/services/firebase/inventoryService";
+import { InventoryCategory, InventoryForm, VolumeUnit, WeightUnit } from "@/types";
+
+const UNITS_BY_FORM: Record<InventoryForm, (VolumeUnit | WeightUnit)[]> = {
+  liquid: ["oz", "ml", "L", "gal", "cups"],
+  dry: ["lbs", "oz", "kg", "g"],
+};
+
+interface InventoryItemFormProps {
+  onSubmit: (item: InventoryItemInput) => Promise<void>;
+}
+
+const InventoryItemForm: React.FC<InventoryItemFormProps> = ({ onSubmit }) => {
+  const [name, setName] = useState("");
+  const [category, setCategory] = useState<InventoryCategory>("fertilizer");
+  const [form, setForm] = useState<InventoryForm>("liquid");
+  const [npk, setNpk] = useState("");
+  const [containerSize, setContainerSize] = useState("");
+  const [remaining, setRemaining] = useState("");
+  const [unit, setUnit] = useState<VolumeUnit | WeightUnit>("oz");
+  const [gramsPerTablespoon, setGramsPerTablespoon] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const selectClassName =
+    "w-full h-10 px-3 border border-border rounded-md bg-background text-foreground text-sm";
+
+  const handleFormChange = (value: InventoryForm) => {
+    setForm(value);
+    setUnit(UNITS_BY_FORM[value][0]);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const size = Number(containerSize);
+    const left = remaining === "" ? size : Number(remaining);
+    if (!name.trim()) {
+      setError("Enter the product name as it appears in your care logs.");
+      return;
+    }
+    if (!(size > 0) || !(left >= 0) || left > size) {
+      setError("Container size must be positive and remaining can't exceed it.");
+      return;
+    }
+
+    setError(null);
+    setSaving(true);
+    try {
+      await onSubmit({
+        name: name.trim(),
+        category,
+        form,
+        npk: npk.trim() || undefined,
+        containerSize: size,
+        remaining: left,
+        unit,
+        gramsPerTablespoon:
+          form === "dry" && Number(gramsPerTablespoon) > 0
+            ? Number(gramsPerTablespoon)
+            : undefined,
+      });
+      setName("");
+      setNpk("");
+      setContainerSize("");
+      setRemaining("");
+      setGramsPerTablespoon("");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>➕ Add Product</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="inventory-name" className="block text-sm font-medium mb-1">
+              Name
+            </label>
+            <Input
+              id="inventory-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Neptune's Harvest Fish + Seaweed"
+            />
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            <div>
+              <label htmlFor="inventory-category" className="block text-sm font-medium mb-1">
+                Type
+              </label>
+              <select
+                id="inventory-category"
+                value={category}
+                onChange={(e) => setCategory(e.target.value as InventoryCategory)}
+                className={selectClassName}
+              >
+                <option value="fertilizer">Fertilizer</option>
+                <option value="amendment">Amendment</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="inventory-form" className="block text-sm font-medium mb-1">
+                Form
+              </label>
+              <select
+                id="inventory-form"
+                value={form}
+                onChange={(e) => handleFormChange(e.target.value as InventoryForm)}
+                className={selectClassName}
+              >
+                <option value="liquid">Liquid</option>
+                <option value="dry">Dry / granular</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="inventory-npk" className="block text-sm font-medium mb-1">
+                N-P-K
+              </label>
+              <Input
+                id="inventory-npk"
+                value={npk}
+                onChange={(e) => setNpk(e.target.value)}
+                placeholder="e.g. 2-3-1"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label htmlFor="inventory-size" className="block text-sm font-medium mb-1">
+                Container size
+              </label>
+              <Input
+                id="inventory-size"
+                type="number"
+                min="0"
+                step="any"
+                value={containerSize}
+                onChange={(e) => setContainerSize(e.target.value)}
+              />
+            </div>
+            <div>
+              <label htmlFor="inventory-remaining" className="block text-sm font-medium mb-1">
+                Remaining
+              </label>
+              <Input
+                id="inventory-remaining"
+                type="number"
+                min="0"
+                step="any"
+                value={remaining}
+                onChange={(e) => setRemaining(e.target.value)}
+                placeholder="Full"
+              />
+            </div>
+            <div>
+              <label htmlFor="inventory-unit" className="block text-sm font-medium mb-1">
+                Unit
+              </label>
+              <select
+                id="inventory-unit"
+                value={unit}
+                onChange={(e) => setUnit(e.target.value as VolumeUnit | WeightUnit)}
+                className={selectClassName}
+              >
+                {UNITS_BY_FORM[form].map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {form === "dry" && (
+            <div>
+              <label htmlFor="inventory-density" className="block text-sm font-medium mb-1">
+                Grams per tablespoon
+              </label>
+              <Input
+                id="inventory-density"
+                type="number"
+                min="0"
+                step="any"
+                value={gramsPerTablespoon}
+                onChange={(e) => setGramsPerTablespoon(e.target.value)}
+                placeholder="Optional"
+              />
+              <p className="mt-1 text-xs text-muted-foreground">
+                Needed to take spoon measures (e.g. "1 Tbsp/plant") off a bag sold by weight
+              </p>
+            </div>
+          )}
+          {error && (
+            <p className="text-sm text-red-600" role="alert">
+              {error}
+            </p>
+          )}
+          <Button type="submit" disabled={saving}>
+            {saving ? "Saving..." : "Add to Inventory"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default InventoryItemForm;
@@ -0,0 +1,51 @@
+// src/components/inventory/InventoryShortfallAlert.tsx
+import React from "react";
+import { Card, CardContent } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { InventoryShortfall, InventoryService } from "@/services/inventoryService";
+import { formatDate } from "@/utils/dateUtils";
+
+interface InventoryShortfallAlertProps {
+  shortfalls: InventoryShortfall[];
+  onManageInventory?: () => void;
+}
+
+const InventoryShortfallAlert: React.FC<InventoryShortfallAlertProps> = ({
+  shortfalls,
+  onManageInventory,
+}) => {
+  if (shortfalls.length === 0) return null;
+
+  return (
+    <Card className="border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/30">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm font-medium text-amber-800 dark:text-amber-200">
+            ⚠️ Running low for upcoming feedings
+          </p>
+          {onManageInventory && (
+            <Button variant="outline" size="sm" onClick={onManageInventory}>
+              Inventory
+            </Button>
+          )}
+        </div>
+        <ul className="space-y-1">
+          {shortfalls.map((shortfall) => (
+            <li
+              key={shortfall.item.id}
+              className="text-sm text-amber-900 dark:text-amber-100"
+            >
+              <span className="font-medium">{shortfall.item.name}</span>: need{" "}
+              {InventoryService.formatQuantity(shortfall.required, shortfall.item)} for{" "}
+              {shortfall.taskCount} {shortfall.taskCount === 1 ? "task" : "tasks"} from{" "}
+              {formatDate(shortfall.firstDueDate)}, have{" "}
+              {InventoryService.formatQuantity(shortfall.remaining, shortfall.item)}
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default InventoryShortfallAlert;
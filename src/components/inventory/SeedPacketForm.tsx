@@ -0,0 +1,181 @@
+// src/components/inventory/SeedPacketForm.tsx
+import React, { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { varietyService, VarietyRecord } from "@/types/database";
+import { SeedPacketInput } from "@/services/firebase/seedPacketService";
+
+interface SeedPacketFormProps {
+  onSubmit: (packet: SeedPacketInput) => Promise<void>;
+}
+
+const SeedPacketForm: React.FC<SeedPacketFormProps> = ({ onSubmit }) => {
+  const [varieties, setVarieties] = useState<VarietyRecord[]>([]);
+  const [varietyId, setVarietyId] = useState("");
+  const [supplier, setSupplier] = useState("");
+  const [lot, setLot] = useState("");
+  const [purchaseYear, setPurchaseYear] = useState(String(new Date().getFullYear()));
+  const [seedCount, setSeedCount] = useState("");
+  const [labelRate, setLabelRate] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    varietyService
+      .getAllVarieties()
+      .then((list) => setVarieties([...list].sort((a, b) => a.name.localeCompare(b.name))))
+      .catch((err) => console.error("Failed to load varieties:", err));
+  }, []);
+
+  const selectClassName =
+    "w-full h-10 px-3 border border-border rounded-md bg-background text-foreground text-sm";
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const variety = varieties.find((v) => v.id === varietyId);
+    const year = Number(purchaseYear);
+    const count = Number(seedCount);
+    const rate = labelRate === "" ? undefined : Number(labelRate);
+    if (!variety) {
+      setError("Choose the variety this packet is for.");
+      return;
+    }
+    if (!Number.isInteger(year) || year > new Date().getFullYear() || !(count >= 0)) {
+      setError("Enter a purchase year that isn't in the future and a seed count.");
+      return;
+    }
+    if (rate !== undefined && !(rate > 0 && rate <= 100)) {
+      setError("Germination rate is a percentage between 1 and 100.");
+      return;
+    }
+
+    setError(null);
+    setSaving(true);
+    try {
+      await onSubmit({
+        varietyId: variety.id,
+        varietyName: variety.name,
+        category: variety.category,
+        supplier: supplier.trim() || undefined,
+        lot: lot.trim() || undefined,
+        purchaseYear: year,
+        seedCount: Math.round(count),
+        labelGerminationRate: rate === undefined ? undefined : rate / 100,
+      });
+      setVarietyId("");
+      setSupplier("");
+      setLot("");
+      setSeedCount("");
+      setLabelRate("");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>➕ Add Seed Packet</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="packet-variety" className="block text-sm font-medium mb-1">
+              Variety
+            </label>
+            <select
+              id="packet-variety"
+              value={varietyId}
+              onChange={(e) => setVarietyId(e.target.value)}
+              className={selectClassName}
+            >
+              <option value="">Select a variety</option>
+              {varieties.map((variety) => (
+                <option key={variety.id} value={variety.id}>
+                  {variety.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="packet-supplier" className="block text-sm font-medium mb-1">
+                Supplier
+              </label>
+              <Input
+                id="packet-supplier"
+                value={supplier}
+                onChange={(e) => setSupplier(e.target.value)}
+                placeholder="e.g. Johnny's"
+              />
+            </div>
+            <div>
+              <label htmlFor="packet-lot" className="block text-sm font-medium mb-1">
+                Lot
+              </label>
+              <Input
+                id="packet-lot"
+                value={lot}
+                onChange={(e) => setLot(e.target.value)}
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label htmlFor="packet-year" className="block text-sm font-medium mb-1">
+                Purchase year
+              </label>
+              <Input
+                id="packet-year"
+                type="number"
+                step="1"
+                value={purchaseYear}
+                onChange={(e) => setPurchaseYear(e.target.value)}
+              />
+            </div>
+            <div>
+              <label htmlFor="packet-count" className="block text-sm font-medium mb-1">
+                Seed count
+              </label>
+              <Input
+                id="packet-count"
+                type="number"
+                min="0"
+                step="1"
+                value={seedCount}
+                onChange={(e) => setSeedCount(e.target.value)}
+              />
+            </div>
+            <div>
+              <label htmlFor="packet-rate" className="block text-sm font-medium mb-1">
+                Germination %
+              </label>
+              <Input
+                id="packet-rate"
+                type="number"
+                min="1"
+                max="100"
+                step="any"
+                value={labelRate}
+                onChange={(e) => setLabelRate(e.target.value)}
+                placeholder="From label"
+              />
+            </div>
+          </div>
+          {error && (
+            <p className="text-sm text-red-600" role="alert">
+              {error}
+            </p>
+          )}
+          <Button type="submit" disabled={saving}>
+            {saving ? "Saving..." : "Add Packet"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SeedPacketForm;
@@ -2,7 +2,8 @@ import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
 import { Card, CardContent } from "@/components/ui/Card";
-import { BedRecord, bedService } from "@/types/database";
+import { BedRecord } from "@/types/database";
+import { useBeds } from "@/hooks/useBeds";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -27,8 +28,7 @@ interface BedSelectorProps {
 }
 
 export function BedSelector({ selectedBedId, onBedSelect, onBedChange }: BedSelectorProps) {
-  const [beds, setBeds] = useState<BedRecord[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const { beds, loading: isLoading, error: bedsError, addBed } = useBeds();
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
 
@@ -47,8 +47,8 @@ export function BedSelector({ selectedBedId, onBedSelect, onBedChange }: BedSele
   });
 
   useEffect(() => {
-    loadBeds();
-  }, []);
+    if (bedsError) toast.error("Failed to load beds");
+  }, [bedsError]);
 
   useEffect(() => {
     if (selectedBedId) {
@@ -59,21 +59,6 @@ export function BedSelector({ selectedBedId, onBedSelect, onBedChange }: BedSele
     }
   }, [selectedBedId, beds, onBedChange]);
 
-  const loadBeds = async () => {
-    try {
-      setIsLoading(true);
-      const activeBeds = await bedService.getActiveBeds();
-      setBeds(activeBeds);
-      return activeBeds;
-    } catch (error) {
-      console.error("Failed to load beds:", error);
-      toast.error("Failed to load beds");
-      return [];
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
   const handleCreateBed = async (data: BedFormSchema) => {
     try {
       setIsCreating(true);
@@ -90,11 +75,8 @@ export function BedSelector({ selectedBedId, onBedSelect, onBedChange }: BedSele
         isActive: true,
       };
 
-      const newBedId = await bedService.addBed(bedData);
+      const newBedId = await addBed(bedData);
       toast.success("Bed created successfully");
-      
-      // Reload beds and select the new one
-      await loadBeds();
       onBedSelect(newBedId);
       
       // Close form and reset
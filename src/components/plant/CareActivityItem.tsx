@@ -3,13 +3,20 @@ import React, { useState } from "react";
 import { CareRecord } from "@/types";
 import { formatDateTime, formatDaysAgo } from "@/utils/dateUtils";
 import { Button } from "@/components/ui/Button";
+import { PlantIssueService } from "@/services/plantIssueService";
 
 interface CareActivityItemProps {
   activity: CareRecord;
   onDeleteActivity?: (activityId: string) => void;
+  // Who logged the activity, shown in shared gardens
+  loggedByName?: string | null;
 }
 
-const CareActivityItem: React.FC<CareActivityItemProps> = ({ activity, onDeleteActivity }) => {
+const CareActivityItem: React.FC<CareActivityItemProps> = ({
+  activity,
+  onDeleteActivity,
+  loggedByName,
+}) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
 
@@ -38,6 +45,8 @@ const CareActivityItem: React.FC<CareActivityItemProps> = ({ activity, onDeleteA
         return "👁️";
       case "harvest":
         return "🌾";
+      case "issue":
+        return "🐛";
       case "transplant":
         return "🏺";
       case "moisture":
@@ -47,6 +56,21 @@ const CareActivityItem: React.FC<CareActivityItemProps> = ({ activity, onDeleteA
     }
   };
 
+  const getHarvestAmountDisplay = (
+    details: CareRecord["details"],
+    fallback = "unknown amount"
+  ): string => {
+    const parts: string[] = [];
+    if (details.harvestWeight) {
+      parts.push(`${details.harvestWeight.amount} ${details.harvestWeight.unit}`);
+    }
+    if (details.harvestCount) {
+      parts.push(`${details.harvestCount} pcs`);
+    }
+    if (parts.length > 0) return parts.join(", ");
+    return typeof details.amount === "string" ? details.amount : fallback;
+  };
+
   const getActivityTitle = (activity: CareRecord): string => {
     const details = activity.details;
 
@@ -85,11 +109,11 @@ const CareActivityItem: React.FC<CareActivityItemProps> = ({ activity, onDeleteA
         return `Health Check (${details.healthAssessment || "unknown"})`;
       }
       case "harvest": {
-        const amount =
-          typeof details.amount === "string"
-            ? details.amount
-            : "unknown amount";
-        return `Harvested ${amount}`;
+        return `Harvested ${getHarvestAmountDisplay(details)}`;
+      }
+      case "issue": {
+        if (!details.issue) return "Pest / Disease Report";
+        return `${details.issue.name} (${details.issue.status})`;
       }
       case "transplant": {
         return `Transplanted to ${details.toContainer || "new container"}`;
@@ -272,9 +296,7 @@ const CareActivityItem: React.FC<CareActivityItemProps> = ({ activity, onDeleteA
                   Amount:
                 </span>
                 <div>
-                  {typeof details.amount === "string"
-                    ? details.amount
-                    : "Not specified"}
+                  {getHarvestAmountDisplay(details, "Not specified")}
                 </div>
               </div>
               <div>
@@ -286,6 +308,16 @@ const CareActivityItem: React.FC<CareActivityItemProps> = ({ activity, onDeleteA
                 </div>
               </div>
             </div>
+            {details.harvestPortion && (
+              <div>
+                <span className="font-medium text-muted-foreground">
+                  Portion:
+                </span>
+                <div className="text-sm capitalize">
+                  {details.harvestPortion.replace(/-/g, " ")}
+                </div>
+              </div>
+            )}
             {details.harvestMethod && (
               <div>
                 <span className="font-medium text-muted-foreground">
@@ -298,6 +330,51 @@ const CareActivityItem: React.FC<CareActivityItemProps> = ({ activity, onDeleteA
         );
       }
 
+      case "issue": {
+        if (!details.issue) return null;
+        const { issue } = details;
+        return (
+          <div className="space-y-2">
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <span className="font-medium text-muted-foreground">
+                  Severity:
+                </span>
+                <div className="capitalize">{issue.severity}</div>
+              </div>
+              <div>
+                <span className="font-medium text-muted-foreground">
+                  Spread:
+                </span>
+                <div className="capitalize">{issue.spread}</div>
+              </div>
+            </div>
+            {issue.affectedParts.length > 0 && (
+              <div>
+                <span className="font-medium text-muted-foreground">
+                  Affected:
+                </span>
+                <div className="text-sm capitalize">
+                  {issue.affectedParts.join(", ").replace(/-/g, " ")}
+                </div>
+              </div>
+            )}
+            {issue.treatment && (
+              <div>
+                <span className="font-medium text-muted-foreground">
+                  Treatment:
+                </span>
+                <div className="text-sm">
+                  {issue.treatment.product} (
+                  {PlantIssueService.getTreatmentMethodLabel(issue.treatment.method)}
+                  {issue.treatment.dilution && `, ${issue.treatment.dilution}`})
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      }
+
       case "transplant": {
         return (
           <div className="space-y-2">
@@ -358,6 +435,7 @@ const CareActivityItem: React.FC<CareActivityItemProps> = ({ activity, onDeleteA
                 </h4>
                 <p className="text-xs text-muted-foreground mt-1">
                   {formatDateTime(activity.date)} • {formatDaysAgo(activity.date)}
+                  {loggedByName && <> • Logged by {loggedByName}</>}
                 </p>
               </div>
               <svg
@@ -5,6 +5,9 @@ import { Button } from "@/components/ui/Button";
 import { CareRecord } from "@/types/database";
 import { CareActivityType } from "@/types";
 import CareActivityItem from "./CareActivityItem";
+import CareHistoryExportPanel from "@/components/care/CareHistoryExportPanel";
+import { useActiveGarden } from "@/hooks/useGardens";
+import { GardenService } from "@/services/gardenService";
 import { useNavigate } from "react-router-dom";
 
 interface CareHistoryProps {
@@ -15,9 +18,13 @@ interface CareHistoryProps {
 
 const CareHistory: React.FC<CareHistoryProps> = ({ plantId, careHistory, onDeleteActivity }) => {
   const navigate = useNavigate();
+  const { garden, loggedBy } = useActiveGarden();
+  // Only shared gardens need to say who logged what
+  const showLoggedBy = GardenService.isShared(garden);
 
   const [showAll, setShowAll] = useState(false);
   const [filter, setFilter] = useState<CareActivityType | "all">("all");
+  const [showExport, setShowExport] = useState(false);
 
   // Filter care history based on selected filter
   const filteredHistory = careHistory.filter((activity) => {
@@ -78,9 +85,28 @@ const CareHistory: React.FC<CareHistoryProps> = ({ plantId, careHistory, onDelet
           <span className="text-sm font-normal text-muted-foreground">
             ({careHistory.length} activities)
           </span>
+          {careHistory.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowExport(!showExport)}
+              className="ml-auto"
+            >
+              📄 Export CSV
+            </Button>
+          )}
         </CardTitle>
       </CardHeader>
       <CardContent>
+        {showExport && (
+          <div className="mb-4">
+            <CareHistoryExportPanel
+              activityTypes={allActivityTypeFilters}
+              defaultPlantId={plantId}
+              onClose={() => setShowExport(false)}
+            />
+          </div>
+        )}
         {careHistory.length === 0 ? (
           <div className="text-center py-8">
             <div className="text-4xl mb-2">📝</div>
@@ -121,6 +147,11 @@ const CareHistory: React.FC<CareHistoryProps> = ({ plantId, careHistory, onDelet
                   key={activity.id} 
                   activity={activity} 
                   onDeleteActivity={onDeleteActivity}
+                  loggedByName={
+                    showLoggedBy
+                      ? GardenService.getLoggedByName(activity, garden, loggedBy?.userId)
+                      : null
+                  }
                 />
               ))}
             </div>
@@ -9,7 +9,7 @@ import {
   MissedOpportunity,
 } from "@/services/CatchUpAnalysisService";
 import { useNavigate } from "react-router-dom";
-import { useFirebaseAuth } from "@/hooks/useFirebaseAuth";
+import { useActiveGarden } from "@/hooks/useGardens";
 import { useFirebasePlants } from "@/hooks/useFirebasePlants";
 import { Clock, CheckCircle, Calendar, X } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
@@ -53,12 +53,12 @@ export const CatchUpAssistant = ({
   const catchUpSummary = useCatchUpSummary();
 
   const navigate = useNavigate();
-  const { user } = useFirebaseAuth();
+  const { gardenId } = useActiveGarden();
   const { plants, loading: plantsLoading } = useFirebasePlants();
 
   const loadOpportunities = useCallback(async () => {
     console.log("loadOpportunities: Starting...");
-    if (!user?.uid || plantsLoading) {
+    if (!gardenId || plantsLoading) {
       console.log("loadOpportunities: User not ready or plants loading.");
       setLoading(false); // Clear initial loading state
       return;
@@ -74,7 +74,7 @@ export const CatchUpAssistant = ({
         allOpportunities =
           await CatchUpAnalysisService.findAllMissedOpportunitiesForUser(
             targetPlants,
-            user.uid
+            gardenId
           );
       } else if (plantId && plants) {
         console.log("loadOpportunities: Fetching for single plantId.");
@@ -83,7 +83,7 @@ export const CatchUpAssistant = ({
           const singlePlantOpportunities =
             await CatchUpAnalysisService.findMissedOpportunitiesWithUserId(
               plantId,
-              user.uid,
+              gardenId,
               14,
               plant
             );
@@ -97,7 +97,7 @@ export const CatchUpAssistant = ({
         allOpportunities =
           await CatchUpAnalysisService.findAllMissedOpportunitiesForUser(
             plants,
-            user.uid
+            gardenId
           );
       }
 
@@ -119,7 +119,7 @@ export const CatchUpAssistant = ({
       console.log("loadOpportunities: Finished.");
       setAnalyzing(false);
     }
-  }, [plantId, plantIds, user?.uid, plants, plantsLoading, mode, onDataLoaded]);
+  }, [plantId, plantIds, gardenId, plants, plantsLoading, mode, onDataLoaded]);
 
   useEffect(() => {
     loadOpportunities();
@@ -1,37 +1,54 @@
 // src/components/plant/CustomVarietyForm.tsx
-import { useState } from "react";
-import { useForm } from "react-hook-form";
-import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
+import { useEffect, useMemo, useState } from "react";
 import { Button } from "@/components/ui/Button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
-import { varietyService } from "@/types/database";
+import { VarietyRecord } from "@/types/database";
+import { getVarietyService } from "@/services/serviceRegistry";
+import {
+  ProtocolIssue,
+  VarietyDraft,
+  VarietyProtocolService,
+} from "@/services/varietyProtocolService";
+import { BasicsStep } from "@/components/variety/BasicsStep";
+import { WateringStep } from "@/components/variety/WateringStep";
+import { FertilizationStep } from "@/components/variety/FertilizationStep";
+import { LightingStep } from "@/components/variety/LightingStep";
+import { EnvironmentStep } from "@/components/variety/EnvironmentStep";
+import { GrowingConditionsStep } from "@/components/variety/GrowingConditionsStep";
+import { ReviewStep } from "@/components/variety/ReviewStep";
+import { Logger } from "@/utils/logger";
 import toast from "react-hot-toast";
 
-const customVarietySchema = z.object({
-  name: z.string().min(1, "Variety name is required"),
-  category: z.enum([
-    "root-vegetables",
-    "leafy-greens",
-    "herbs",
-    "berries",
-    "fruiting-plants",
-  ]),
-  growthTimeline: z.object({
-    germination: z.number().min(1).max(90),
-    seedling: z.number().min(1).max(90),
-    vegetative: z.number().min(1).max(180),
-    rootDevelopment: z.number().min(1).max(180),
-    maturation: z.number().min(1).max(365),
-  }),
-  customMoistureRanges: z.boolean().optional(),
-  triggerMin: z.number().min(1).max(10).optional(),
-  triggerMax: z.number().min(1).max(10).optional(),
-  targetMin: z.number().min(1).max(10).optional(),
-  targetMax: z.number().min(1).max(10).optional(),
-});
-
-type CustomVarietyData = z.infer<typeof customVarietySchema>;
+const STEPS = [
+  {
+    id: "basics",
+    title: "Basics",
+    paths: ["name", "category", "description", "growthTimeline", "isEverbearing", "productiveLifespan"],
+  },
+  { id: "watering", title: "Watering", paths: ["protocols.watering"] },
+  { id: "fertilization", title: "Fertilization", paths: ["protocols.fertilization"] },
+  { id: "lighting", title: "Lighting", paths: ["protocols.lighting"] },
+  { id: "environment", title: "Environment", paths: ["protocols.environment"] },
+  {
+    id: "conditions",
+    title: "Growing Conditions",
+    paths: [
+      "protocols.soilMixture",
+      "protocols.container",
+      "protocols.succession",
+      "protocols.specialRequirements",
+    ],
+  },
+  { id: "review", title: "Review", paths: [] },
+] as const;
+
+const isInStep = (issue: ProtocolIssue, paths: readonly string[]) =>
+  paths.some(
+    (path) =>
+      issue.path === path ||
+      issue.path.startsWith(`${path}.`) ||
+      issue.path.startsWith(`${path}[`)
+  );
 
 interface CustomVarietyFormProps {
   onSuccess?: (varietyId: string) => void;
@@ -42,71 +59,71 @@ export function CustomVarietyForm({
   onSuccess,
   onCancel,
 }: CustomVarietyFormProps) {
+  const [draft, setDraft] = useState<VarietyDraft>(() =>
+    VarietyProtocolService.createDraft()
+  );
+  const [stepIndex, setStepIndex] = useState(0);
+  const [showErrors, setShowErrors] = useState(false);
+  const [templates, setTemplates] = useState<VarietyRecord[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [showMoistureCustomization, setShowMoistureCustomization] =
-    useState(false);
 
-  const {
-    register,
-    handleSubmit,
-    formState: { errors },
-    reset,
-  } = useForm<CustomVarietyData>({
-    resolver: zodResolver(customVarietySchema),
-    defaultValues: {
-      triggerMin: 3,
-      triggerMax: 4,
-      targetMin: 6,
-      targetMax: 7,
-    },
-  });
+  useEffect(() => {
+    getVarietyService()
+      .getAllVarieties()
+      .then((varieties) =>
+        setTemplates([...varieties].sort((a, b) => a.name.localeCompare(b.name)))
+      )
+      .catch((error) => Logger.error("Failed to load varieties to clone:", error));
+  }, []);
+
+  const validation = useMemo(() => VarietyProtocolService.validate(draft), [draft]);
+  const issues = validation.success ? [] : validation.issues;
+  const step = STEPS[stepIndex];
+  const stepIssues = issues.filter((issue) => isInStep(issue, step.paths));
+
+  // Shown once the user tries to leave the step, keeping the first message per field
+  const errors: Record<string, string> = {};
+  if (showErrors) {
+    for (const issue of stepIssues) {
+      errors[issue.path] ??= issue.message;
+    }
+  }
+
+  const goTo = (index: number) => {
+    setStepIndex(index);
+    setShowErrors(false);
+  };
+
+  const handleNext = () => {
+    if (stepIssues.length > 0) {
+      setShowErrors(true);
+      return;
+    }
+    goTo(stepIndex + 1);
+  };
+
+  const handleClone = (variety: VarietyRecord) => {
+    setDraft(VarietyProtocolService.cloneVariety(variety));
+    toast.success(`Copied ${variety.name}. Rename it and adjust what's different.`);
+  };
+
+  async function handleSave() {
+    if (!validation.success) return;
 
-  async function onSubmit(data: CustomVarietyData) {
     setIsLoading(true);
     try {
-      // Build watering protocols if custom moisture ranges are specified
-      let protocols = undefined;
-      if (
-        data.customMoistureRanges &&
-        data.triggerMin &&
-        data.triggerMax &&
-        data.targetMin &&
-        data.targetMax
-      ) {
-        const wateringRanges = {
-          trigger: { moistureLevel: `${data.triggerMin}-${data.triggerMax}` },
-          target: { moistureLevel: `${data.targetMin}-${data.targetMax}` },
-        };
-
-        // Apply the same watering ranges to all growth stages
-        protocols = {
-          watering: {
-            germination: wateringRanges,
-            seedling: wateringRanges,
-            vegetative: wateringRanges,
-            rootDevelopment: wateringRanges, // Fix: Add missing stage
-            flowering: wateringRanges,
-            fruiting: wateringRanges,
-            maturation: wateringRanges,
-            harvest: wateringRanges,
-            "ongoing-production": wateringRanges,
-          },
-        };
+      const { variety } = validation;
+      const existing = await getVarietyService().getVarietyByName(variety.name);
+      if (existing) {
+        toast.error(`A variety named ${variety.name} already exists`);
+        goTo(0);
+        return;
       }
 
-      const varietyId = await varietyService.addVariety({
-        name: data.name,
-        category: data.category,
-        growthTimeline: {
-          ...data.growthTimeline,
-          rootDevelopment: data.growthTimeline.rootDevelopment,
-        },
-        protocols,
-        isCustom: true,
-      });
-
-      toast.success(`Created custom variety: ${data.name}!`);
-      reset();
+      const varietyId = await getVarietyService().addVariety(variety);
+      toast.success(`Created custom variety: ${variety.name}!`);
+      setDraft(VarietyProtocolService.createDraft());
+      goTo(0);
       onSuccess?.(varietyId);
     } catch (error) {
       console.error("Failed to create variety:", error);
@@ -116,288 +133,91 @@ export function CustomVarietyForm({
     }
   }
 
+  const stepProps = { draft, onChange: setDraft, errors };
+  const isLastStep = stepIndex === STEPS.length - 1;
+
   return (
     <Card className="max-w-2xl mx-auto">
       <CardHeader>
         <CardTitle>Create Custom Plant Variety</CardTitle>
         <p className="text-sm text-muted-foreground mt-1">
           Add your own plant varieties like pumpkins, exotic herbs, or local
-          cultivars
+          cultivars, with care protocols for each growth stage
         </p>
+        <ol className="flex flex-wrap gap-1 mt-3">
+          {STEPS.map((s, index) => {
+            const hasIssues = issues.some((issue) => isInStep(issue, s.paths));
+            return (
+              <li key={s.id}>
+                <button
+                  type="button"
+                  onClick={() => goTo(index)}
+                  aria-current={index === stepIndex ? "step" : undefined}
+                  className={`px-2 py-1 rounded-md text-xs font-medium ${
+                    index === stepIndex
+                      ? "bg-garden-600 text-white"
+                      : "bg-muted text-muted-foreground hover:text-foreground"
+                  }`}
+                >
+                  {index + 1}. {s.title}
+                  {hasIssues && index < stepIndex && " ⚠️"}
+                </button>
+              </li>
+            );
+          })}
+        </ol>
       </CardHeader>
       <CardContent>
-        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
-          <div>
-            <label className="block text-sm font-medium text-foreground mb-2">
-              Variety Name *
-            </label>
-            <input
-              {...register("name")}
-              placeholder="e.g., Jack-o'-lantern Pumpkins, Cherokee Purple Tomatoes"
-              className="w-full p-3 border border-border rounded-md focus:ring-2 focus:ring-garden-500"
-            />
-            {errors.name && (
-              <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>
-            )}
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-foreground mb-2">
-              Category *
-            </label>
-            <select
-              {...register("category")}
-              className="w-full p-3 border border-border rounded-md focus:ring-2 focus:ring-garden-500"
-            >
-              <option value="fruiting-plants">
-                🎃 Fruiting Plants (pumpkins, squash, melons, etc.)
-              </option>
-              <option value="leafy-greens">
-                🥬 Leafy Greens (lettuce, spinach, kale, etc.)
-              </option>
-              <option value="root-vegetables">
-                🥕 Root Vegetables (carrots, beets, radishes, etc.)
-              </option>
-              <option value="herbs">
-                🌿 Herbs (basil, cilantro, sage, etc.)
-              </option>
-              <option value="berries">
-                🫐 Berries (strawberries, raspberries, etc.)
-              </option>
-            </select>
-            <p className="mt-1 text-xs text-muted-foreground">
-              This determines default care guidelines and protocols
+        <div className="space-y-6">
+          {showErrors && stepIssues.length > 0 && (
+            <p className="text-sm text-red-600">
+              Fix the highlighted fields to continue.
             </p>
-          </div>
-
-          {/* Growth Timeline */}
-          <div>
-            <h3 className="text-lg font-medium text-foreground mb-4">
-              Growth Timeline (days)
-            </h3>
-            <p className="text-sm text-muted-foreground mb-4">
-              How long does each growth stage typically last? These help predict
-              care needs.
-            </p>
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-foreground mb-2">
-                  Germination Days
-                </label>
-                <input
-                  type="number"
-                  {...register("growthTimeline.germination", {
-                    valueAsNumber: true,
-                  })}
-                  placeholder="7"
-                  className="w-full p-3 border border-border rounded-md focus:ring-2 focus:ring-garden-500"
-                />
-                <p className="text-xs text-muted-foreground mt-1">
-                  Days to sprout
-                </p>
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-foreground mb-2">
-                  Seedling Stage Days
-                </label>
-                <input
-                  type="number"
-                  {...register("growthTimeline.seedling", {
-                    valueAsNumber: true,
-                  })}
-                  placeholder="14"
-                  className="w-full p-3 border border-border rounded-md focus:ring-2 focus:ring-garden-500"
-                />
-                <p className="text-xs text-muted-foreground mt-1">
-                  Early growth period
-                </p>
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-foreground mb-2">
-                  Vegetative Growth Days
-                </label>
-                <input
-                  type="number"
-                  {...register("growthTimeline.vegetative", {
-                    valueAsNumber: true,
-                  })}
-                  placeholder="30"
-                  className="w-full p-3 border border-border rounded-md focus:ring-2 focus:ring-garden-500"
-                />
-                <p className="text-xs text-muted-foreground mt-1">
-                  Leaf and stem development
-                </p>
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-foreground mb-2">
-                  Root Development Days
-                </label>
-                <input
-                  type="number"
-                  {...register("growthTimeline.rootDevelopment", {
-                    valueAsNumber: true,
-                  })}
-                  placeholder="42"
-                  className="w-full p-3 border border-border rounded-md focus:ring-2 focus:ring-garden-500"
-                />
-                <p className="text-xs text-muted-foreground mt-1">
-                  Root system establishment
-                </p>
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-foreground mb-2">
-                  Total Days to Maturity
-                </label>
-                <input
-                  type="number"
-                  {...register("growthTimeline.maturation", {
-                    valueAsNumber: true,
-                  })}
-                  placeholder="60"
-                  className="w-full p-3 border border-border rounded-md focus:ring-2 focus:ring-garden-500"
-                />
-                <p className="text-xs text-muted-foreground mt-1">
-                  Ready for harvest
-                </p>
-              </div>
-            </div>
-          </div>
+          )}
+
+          {step.id === "basics" && (
+            <BasicsStep {...stepProps} templates={templates} onClone={handleClone} />
+          )}
+          {step.id === "watering" && <WateringStep {...stepProps} />}
+          {step.id === "fertilization" && <FertilizationStep {...stepProps} />}
+          {step.id === "lighting" && <LightingStep {...stepProps} />}
+          {step.id === "environment" && <EnvironmentStep {...stepProps} />}
+          {step.id === "conditions" && <GrowingConditionsStep {...stepProps} />}
+          {step.id === "review" && (
+            <ReviewStep
+              variety={validation.success ? validation.variety : null}
+              issues={issues}
+            />
+          )}
 
-          {/* Custom Moisture Ranges */}
-          <div className="border-t pt-6">
-            <div className="flex items-center justify-between mb-4">
-              <div>
-                <h3 className="text-lg font-medium text-foreground">
-                  Custom Moisture Protocol
-                </h3>
-                <p className="text-sm text-muted-foreground">
-                  Set specific watering ranges, or use category defaults
-                </p>
-              </div>
-              <button
+          <div className="flex gap-4 pt-4">
+            {stepIndex > 0 && (
+              <Button type="button" variant="outline" onClick={() => goTo(stepIndex - 1)}>
+                Back
+              </Button>
+            )}
+            {isLastStep ? (
+              <Button
                 type="button"
-                onClick={() =>
-                  setShowMoistureCustomization(!showMoistureCustomization)
-                }
-                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
-                  showMoistureCustomization ? "bg-garden-600" : "bg-gray-300"
-                }`}
+                variant="primary"
+                disabled={isLoading || !validation.success}
+                onClick={handleSave}
+                className="flex-1"
               >
-                <span
-                  className={`inline-block h-4 w-4 transform rounded-full bg-card transition-transform ${
-                    showMoistureCustomization
-                      ? "translate-x-6"
-                      : "translate-x-1"
-                  }`}
-                />
-              </button>
-            </div>
-
-            {showMoistureCustomization && (
-              <div className="space-y-4 bg-blue-50 p-4 rounded-lg">
-                <input
-                  type="hidden"
-                  {...register("customMoistureRanges")}
-                  checked={showMoistureCustomization}
-                />
-
-                <div className="text-sm text-blue-800 mb-3">
-                  💡 <strong>Moisture Meter Guide:</strong> Most plants prefer
-                  watering when moisture drops to 3-4, then watered until
-                  reaching 6-8. Adjust based on your specific variety's needs.
-                </div>
-
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <label className="block text-sm font-medium text-foreground mb-2">
-                      Water When (Min Level)
-                    </label>
-                    <input
-                      type="number"
-                      min="1"
-                      max="10"
-                      step="0.5"
-                      {...register("triggerMin", { valueAsNumber: true })}
-                      className="w-full p-3 border border-border rounded-md focus:ring-2 focus:ring-garden-500"
-                    />
-                    <p className="text-xs text-muted-foreground mt-1">
-                      Lowest moisture before watering
-                    </p>
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-foreground mb-2">
-                      Water When (Max Level)
-                    </label>
-                    <input
-                      type="number"
-                      min="1"
-                      max="10"
-                      step="0.5"
-                      {...register("triggerMax", { valueAsNumber: true })}
-                      className="w-full p-3 border border-border rounded-md focus:ring-2 focus:ring-garden-500"
-                    />
-                    <p className="text-xs text-muted-foreground mt-1">
-                      Highest moisture before watering
-                    </p>
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-foreground mb-2">
-                      Target After (Min Level)
-                    </label>
-                    <input
-                      type="number"
-                      min="1"
-                      max="10"
-                      step="0.5"
-                      {...register("targetMin", { valueAsNumber: true })}
-                      className="w-full p-3 border border-border rounded-md focus:ring-2 focus:ring-garden-500"
-                    />
-                    <p className="text-xs text-muted-foreground mt-1">
-                      Minimum moisture after watering
-                    </p>
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-foreground mb-2">
-                      Target After (Max Level)
-                    </label>
-                    <input
-                      type="number"
-                      min="1"
-                      max="10"
-                      step="0.5"
-                      {...register("targetMax", { valueAsNumber: true })}
-                      className="w-full p-3 border border-border rounded-md focus:ring-2 focus:ring-garden-500"
-                    />
-                    <p className="text-xs text-muted-foreground mt-1">
-                      Maximum moisture after watering
-                    </p>
-                  </div>
-                </div>
-                <p className="text-xs text-blue-700">
-                  💡 These ranges will apply to all growth stages initially. You
-                  can refine them later as you learn your plant's specific needs
-                  through the care logging system.
-                </p>
-              </div>
+                {isLoading ? "Creating..." : "Create Variety"}
+              </Button>
+            ) : (
+              <Button type="button" variant="primary" onClick={handleNext} className="flex-1">
+                Next
+              </Button>
             )}
-          </div>
-
-          <div className="flex gap-4 pt-4">
-            <Button
-              type="submit"
-              variant="primary"
-              disabled={isLoading}
-              className="flex-1"
-            >
-              {isLoading ? "Creating..." : "Create Variety"}
-            </Button>
             {onCancel && (
               <Button type="button" variant="outline" onClick={onCancel}>
                 Cancel
               </Button>
             )}
           </div>
-        </form>
+        </div>
       </CardContent>
     </Card>
   );
@@ -24,6 +24,8 @@ const GroupedCareActivityItem: React.FC<GroupedCareActivityItemProps> = ({
         return "👁️";
       case "harvest":
         return "🌾";
+      case "issue":
+        return "🐛";
       case "transplant":
         return "🏺";
       case "pruning":
@@ -62,6 +64,10 @@ const GroupedCareActivityItem: React.FC<GroupedCareActivityItemProps> = ({
       case "harvest": {
         return `Harvested from ${plantCount} plants`;
       }
+      case "issue": {
+        const name = details.issue?.name || "Issue";
+        return `${name} reported on ${plantCount} plants`;
+      }
       case "transplant": {
         const toContainer = details.toContainer || "new containers";
         return `Transplanted ${plantCount} plants to ${toContainer}`;
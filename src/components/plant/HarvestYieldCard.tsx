@@ -0,0 +1,64 @@
+// src/components/plant/HarvestYieldCard.tsx
+import React, { useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { CareActivityRecord, PlantRecord, WeightUnit } from "@/types";
+import { HarvestYieldService } from "@/services/harvestYieldService";
+import { formatDaysAgo } from "@/utils/dateUtils";
+
+interface HarvestYieldCardProps {
+  plant: PlantRecord;
+  careHistory: CareActivityRecord[];
+  weightUnit?: WeightUnit;
+}
+
+const HarvestYieldCard: React.FC<HarvestYieldCardProps> = ({
+  plant,
+  careHistory,
+  weightUnit,
+}) => {
+  const summary = useMemo(
+    () => HarvestYieldService.calculatePlantYield(plant, careHistory),
+    [plant, careHistory]
+  );
+
+  if (summary.harvestEvents === 0) return null;
+
+  return (
+    <Card className="border-border shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          🌾 Harvest Yield
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-4">
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          <div>
+            <span className="font-medium text-muted-foreground">Total weight</span>
+            <div className="text-lg font-semibold text-foreground">
+              {HarvestYieldService.formatWeight(summary.totalWeightGrams, weightUnit)}
+            </div>
+          </div>
+          <div>
+            <span className="font-medium text-muted-foreground">Pieces</span>
+            <div className="text-lg font-semibold text-foreground">
+              {Math.round(summary.totalPieces)}
+            </div>
+          </div>
+          <div>
+            <span className="font-medium text-muted-foreground">Harvests</span>
+            <div className="text-lg font-semibold text-foreground">
+              {summary.harvestEvents}
+            </div>
+          </div>
+        </div>
+        {summary.lastHarvestDate && (
+          <p className="text-xs text-muted-foreground mt-3">
+            Last harvest {formatDaysAgo(summary.lastHarvestDate)}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HarvestYieldCard;
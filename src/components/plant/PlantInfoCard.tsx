@@ -11,12 +11,15 @@ import { Calendar, MapPin, Package, Sun, Droplet } from "lucide-react";
 import { GrowthStage } from "@/types";
 import { varietyService } from "@/services";
 import { QuickActionButtons, QuickActionType } from "@/components/shared/QuickActionButtons";
+import { ContainerMateIssueWarning, PlantIssue } from "@/services/plantIssueService";
 
 interface PlantInfoCardProps {
   plant: PlantRecord;
   onLogCare?: (plantId: string, activityType: QuickActionType) => void;
   className?: string;
   showQuickActions?: boolean;
+  openIssues?: PlantIssue[];
+  issueWarnings?: ContainerMateIssueWarning[];
 }
 
 /**
@@ -61,6 +64,8 @@ const PlantInfoCard = ({
   onLogCare,
   className = "",
   showQuickActions = true,
+  openIssues = [],
+  issueWarnings = [],
 }: PlantInfoCardProps) => {
   const [showActions, setShowActions] = useState(false);
   const navigate = useNavigate();
@@ -129,6 +134,34 @@ const PlantInfoCard = ({
             </div>
           </div>
 
+          {(openIssues.length > 0 || issueWarnings.length > 0) && (
+            <div className="space-y-1">
+              {openIssues.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {openIssues.map((issue) => (
+                    <Badge
+                      key={issue.issueId}
+                      variant="destructive"
+                      size="sm"
+                      className="capitalize"
+                    >
+                      🐛 {issue.name} · {issue.severity}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              {issueWarnings.map(({ issue, sourcePlant }) => (
+                <div
+                  key={`${sourcePlant.id}-${issue.issueId}`}
+                  className="text-xs text-amber-700 dark:text-amber-300"
+                >
+                  ⚠️ {issue.name} on {getPlantDisplayName(sourcePlant)} in the same
+                  container
+                </div>
+              ))}
+            </div>
+          )}
+
           <div className="space-y-2 text-sm">
             <div className="flex items-center gap-2 text-muted-foreground">
               <Calendar size={14} />
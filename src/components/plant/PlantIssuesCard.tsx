@@ -0,0 +1,109 @@
+// src/components/plant/PlantIssuesCard.tsx
+import React, { useState } from "react";
+import toast from "react-hot-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { Badge } from "@/components/ui/Badge";
+import { PlantIssue, PlantIssueService } from "@/services/plantIssueService";
+import { formatDate, formatDaysAgo } from "@/utils/dateUtils";
+
+interface PlantIssuesCardProps {
+  issues: PlantIssue[];
+  onResolve: (issue: PlantIssue) => Promise<void>;
+  onLogUpdate: (issue?: PlantIssue) => void;
+}
+
+const PlantIssuesCard: React.FC<PlantIssuesCardProps> = ({
+  issues,
+  onResolve,
+  onLogUpdate,
+}) => {
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const handleResolve = async (issue: PlantIssue) => {
+    setResolvingId(issue.issueId);
+    try {
+      await onResolve(issue);
+      toast.success(`${issue.name} marked resolved`);
+    } catch (error) {
+      console.error("Failed to resolve issue:", error);
+      toast.error("Failed to resolve issue");
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <Card className="border-border shadow-sm">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-base">
+            🐛 Pests & Diseases
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={() => onLogUpdate()}>
+            Report Issue
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-3">
+        {issues.length === 0 && (
+          <p className="text-sm text-muted-foreground">No issues reported.</p>
+        )}
+        {issues.map((issue) => (
+          <div
+            key={issue.issueId}
+            className="p-3 border border-border rounded-lg space-y-2"
+          >
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <div className="font-medium text-foreground">{issue.name}</div>
+                <div className="text-xs text-muted-foreground capitalize">
+                  {issue.category} · {issue.severity} · {issue.spread}
+                  {issue.affectedParts.length > 0 &&
+                    ` · ${issue.affectedParts.join(", ").replace(/-/g, " ")}`}
+                </div>
+              </div>
+              <Badge
+                size="sm"
+                variant={issue.status === "open" ? "destructive" : "outline"}
+                className="capitalize"
+              >
+                {issue.status}
+              </Badge>
+            </div>
+            <div className="text-xs text-muted-foreground">
+              First reported {formatDate(issue.firstReported)} · updated{" "}
+              {formatDaysAgo(issue.lastUpdated)}
+              {issue.treatmentCount > 0 &&
+                ` · ${issue.treatmentCount} treatment${issue.treatmentCount > 1 ? "s" : ""}`}
+            </div>
+            {issue.treatment && (
+              <div className="text-xs text-foreground">
+                Last treatment: {issue.treatment.product} (
+                {PlantIssueService.getTreatmentMethodLabel(issue.treatment.method)}
+                {issue.treatment.dilution && `, ${issue.treatment.dilution}`})
+              </div>
+            )}
+            {issue.status === "open" && (
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => onLogUpdate(issue)}>
+                  Log Update
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleResolve(issue)}
+                  disabled={resolvingId === issue.issueId}
+                >
+                  {resolvingId === issue.issueId ? "Saving..." : "Mark Resolved"}
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PlantIssuesCard;
@@ -1,12 +1,12 @@
 // src/components/plant/PlantRegistrationForm.tsx
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Button } from "../ui/Button";
 import { Card, CardContent } from "../ui/Card";
 import { Input } from "../ui/Input";
-import { varietyService, VarietyRecord, bedService } from "@/types/database";
+import { varietyService, VarietyRecord } from "@/types/database";
 import { CustomVarietyForm } from "./CustomVarietyForm";
 import { SimplifiedLocationSelector } from "./SimplifiedLocationSelector";
 import toast from "react-hot-toast";
@@ -14,15 +14,21 @@ import SoilMixtureSelector from "./SoilMixtureSelector";
 import ReminderPreferencesSection from "@/components/plant/ReminderPreferencesSection";
 import { useFirebasePlants } from "@/hooks/useFirebasePlants";
 import { useFirebaseCareActivities } from "@/hooks/useFirebaseCareActivities";
+import { useActiveGarden } from "@/hooks/useGardens";
+import { useSeedPackets } from "@/hooks/useSeedPackets";
+import { useGerminationAnalytics } from "@/hooks/useGerminationAnalytics";
+import { SeedPacketService } from "@/services/seedPacketService";
+import { FirebaseSeedPacketService } from "@/services/firebase/seedPacketService";
 import { LoadingSpinner } from "../ui/LoadingSpinner";
-import { PlantSection, CareActivityDetails, VolumeUnit } from "@/types";
+import { PlantSection, CareActivityDetails } from "@/types";
 import { Logger } from "@/utils/logger";
 import { getTodayDateString } from "@/utils/dateUtils";
+import { getBedService } from "@/services/serviceRegistry";
 
 const careHistorySchema = z.object({
   lastWatered: z.string().optional(),
   lastWaterAmount: z.number().optional(),
-  lastWaterUnit: z.enum(["ml", "fl-oz", "cups", "liters", "gallons"]).optional(),
+  lastWaterUnit: z.enum(["oz", "ml", "cups", "L", "gal"]).optional(),
   lastFertilized: z.string().optional(),
   lastFertilizerProduct: z.string().optional(),
   lastFertilizerDilution: z.string().optional(),
@@ -75,7 +81,10 @@ export function PlantRegistrationForm({
   onCancel,
 }: PlantRegistrationFormProps) {
   const { createPlant } = useFirebasePlants();
+  const { gardenId, canEdit } = useActiveGarden();
   const { logActivity } = useFirebaseCareActivities();
+  const { packets: seedPackets } = useSeedPackets();
+  const { report: germinationReport } = useGerminationAnalytics();
 
   const [varieties, setVarieties] = useState<VarietyRecord[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -90,6 +99,8 @@ export function PlantRegistrationForm({
     pruning: true,
   });
   const [structuredSection, setStructuredSection] = useState<PlantSection | null>(null);
+  const [seedPacketId, setSeedPacketId] = useState("");
+  const [seedsPerPlant, setSeedsPerPlant] = useState(1);
 
   const {
     register,
@@ -148,6 +159,40 @@ export function PlantRegistrationForm({
   const selectedVariety = varieties.find((v) => v.id === selectedVarietyId);
   const plantCategory = selectedVariety?.category;
 
+  const varietyPackets = useMemo(
+    () =>
+      selectedVarietyId
+        ? SeedPacketService.getPacketsForVariety(seedPackets, selectedVarietyId)
+        : [],
+    [seedPackets, selectedVarietyId]
+  );
+  const selectedPacket = varietyPackets.find((packet) => packet.id === seedPacketId);
+  const packetGerminationRate = selectedPacket
+    ? SeedPacketService.getEffectiveGerminationRate(selectedPacket)
+    : null;
+  // How this variety has done in the user's own sowings, when seeds sown were recorded
+  const varietyHistory = germinationReport.byVariety.find(
+    (stats) => stats.key === selectedVarietyId && stats.suggestedSeedsPerContainer !== null
+  );
+
+  // A packet picked for one variety doesn't apply to another
+  useEffect(() => {
+    setSeedPacketId("");
+  }, [selectedVarietyId]);
+
+  const handleSeedPacketChange = (packetId: string) => {
+    setSeedPacketId(packetId);
+    const packet = varietyPackets.find((p) => p.id === packetId);
+    setSeedsPerPlant(
+      varietyHistory?.suggestedSeedsPerContainer ??
+        (packet
+          ? SeedPacketService.suggestSeedsPerSpot(
+              SeedPacketService.getEffectiveGerminationRate(packet)
+            )
+          : 1)
+    );
+  };
+
   const getVarietyDisplayName = (variety: VarietyRecord) => {
     return variety.isCustom ? `${variety.name} (Custom)` : variety.name;
   };
@@ -174,6 +219,11 @@ export function PlantRegistrationForm({
   }, {} as Record<string, VarietyRecord[]>);
 
   const onSubmit = async (data: PlantFormData) => {
+    if (gardenId && !canEdit) {
+      toast.error("You have view-only access to this garden");
+      return;
+    }
+
     try {
       setIsLoading(true);
       setSubmitError(null);
@@ -184,7 +234,7 @@ export function PlantRegistrationForm({
       }
 
       // Get the selected bed information
-      const selectedBed = await bedService.getBed(data.selectedBedId);
+      const selectedBed = await getBedService().getBed(data.selectedBedId);
       if (!selectedBed) {
         throw new Error("Selected bed/container not found");
       }
@@ -243,6 +293,7 @@ export function PlantRegistrationForm({
             structuredSection: data.sectionMode === "structured" ? structuredSection || undefined : undefined,
             quantity: data.quantity,
             setupType: data.setupType,
+            ...(selectedPacket && { seedPacketId: selectedPacket.id, seedsSown: seedsPerPlant }),
           })
         );
       }
@@ -250,6 +301,18 @@ export function PlantRegistrationForm({
       // Wait for all plants to be created
       const plantResults = await Promise.all(plantPromises);
 
+      if (selectedPacket) {
+        try {
+          await FirebaseSeedPacketService.deductSeeds(
+            selectedPacket,
+            seedsPerPlant * data.quantity
+          );
+        } catch (error) {
+          // The plants are registered; a stale seed count can be corrected on the inventory page
+          Logger.error("Failed to update seed packet count:", error);
+        }
+      }
+
       // Create care history if enabled
       if (data.enableCareHistory && data.careHistory) {
         const carePromises = [];
@@ -263,7 +326,7 @@ export function PlantRegistrationForm({
             const waterDetails: CareActivityDetails = {
               type: "water",
               waterAmount: history.lastWaterAmount || 0,
-              waterUnit: (history.lastWaterUnit as VolumeUnit) || "fl-oz",
+              waterUnit: history.lastWaterUnit || "oz",
               notes: "Backfilled during plant registration",
             };
             
@@ -469,7 +532,57 @@ export function PlantRegistrationForm({
   };
 
 
-
+  const renderSeedPacketFields = () => (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      <div>
+        <label
+          htmlFor="seedPacketId"
+          className="block text-sm font-medium text-foreground mb-2"
+        >
+          Seed Packet
+        </label>
+        <select
+          id="seedPacketId"
+          value={seedPacketId}
+          onChange={(e) => handleSeedPacketChange(e.target.value)}
+          className="w-full p-3 border border-input rounded-lg bg-card text-foreground focus:ring-2 focus:ring-primary focus:border-primary shadow-sm"
+        >
+          <option value="">Not from a tracked packet</option>
+          {varietyPackets.map((packet) => (
+            <option key={packet.id} value={packet.id}>
+              {packet.supplier || "Unknown supplier"} {packet.purchaseYear}
+              {packet.lot && ` (lot ${packet.lot})`} · {packet.seedCount} seeds
+            </option>
+          ))}
+        </select>
+      </div>
+      {selectedPacket && packetGerminationRate !== null && (
+        <div>
+          <label
+            htmlFor="seedsPerPlant"
+            className="block text-sm font-medium text-foreground mb-2"
+          >
+            Seeds sown per plant
+          </label>
+          <Input
+            id="seedsPerPlant"
+            type="number"
+            min={1}
+            step={1}
+            value={seedsPerPlant}
+            onChange={(e) => setSeedsPerPlant(Math.max(1, parseInt(e.target.value) || 1))}
+          />
+          <p className="mt-1 text-xs text-muted-foreground">
+            {SeedPacketService.getMeasuredGerminationRate(selectedPacket) !== null
+              ? "Measured"
+              : "Estimated"}{" "}
+            germination {SeedPacketService.formatRate(packetGerminationRate)} · uses{" "}
+            {seedsPerPlant * (quantity || 1)} of {selectedPacket.seedCount} seeds
+          </p>
+        </div>
+      )}
+    </div>
+  );
 
   if (showCustomVarietyForm) {
     return (
@@ -546,6 +659,7 @@ export function PlantRegistrationForm({
                 "",
                 true
               )}
+              {varietyPackets.length > 0 && renderSeedPacketFields()}
               {renderFormField(
                 "name",
                 "Plant Name",
@@ -645,6 +759,31 @@ export function PlantRegistrationForm({
                 <p className="text-xs text-muted-foreground mt-1 bg-background/50 p-2 rounded">
                   Number of plants to register from this planting
                 </p>
+                {varietyHistory && (
+                  <div className="mt-2 flex items-center justify-between gap-2 text-xs text-muted-foreground bg-background/50 p-2 rounded">
+                    <span>
+                      Across {varietyHistory.plantings} past{" "}
+                      {varietyHistory.plantings === 1 ? "planting" : "plantings"},{" "}
+                      {SeedPacketService.formatRate(varietyHistory.germinationRate ?? 0)} of seeds
+                      came up and{" "}
+                      {SeedPacketService.formatRate(varietyHistory.survivalRate ?? 0)} of seedlings
+                      survived. Sow {varietyHistory.suggestedSeedsPerContainer} per container.
+                    </span>
+                    {selectedPacket &&
+                      seedsPerPlant !== varietyHistory.suggestedSeedsPerContainer && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            setSeedsPerPlant(varietyHistory.suggestedSeedsPerContainer ?? 1)
+                          }
+                        >
+                          Use {varietyHistory.suggestedSeedsPerContainer}
+                        </Button>
+                      )}
+                  </div>
+                )}
               </div>
             </div>
 
@@ -758,11 +897,11 @@ export function PlantRegistrationForm({
                               {...register("careHistory.lastWaterUnit")}
                               className="w-full p-2 text-sm border border-border rounded bg-background text-foreground focus:ring-2 focus:ring-accent focus:border-accent"
                             >
-                              <option value="fl-oz">fl oz</option>
+                              <option value="oz">fl oz</option>
                               <option value="ml">ml</option>
                               <option value="cups">cups</option>
-                              <option value="liters">liters</option>
-                              <option value="gallons">gallons</option>
+                              <option value="L">liters</option>
+                              <option value="gal">gallons</option>
                             </select>
                           </div>
                         </div>
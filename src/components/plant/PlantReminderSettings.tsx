@@ -1,7 +1,8 @@
 // src/components/plant/PlantReminderSettings.tsx
 import { useState } from "react";
 import { Button } from "@/components/ui/Button";
-import { plantService, PlantRecord } from "@/types/database";
+import { PlantRecord } from "@/types/database";
+import { getPlantService } from "@/services/serviceRegistry";
 import ReminderPreferencesSection from "./ReminderPreferencesSection";
 import toast from "react-hot-toast";
 
@@ -42,7 +43,7 @@ const PlantReminderSettings = ({
       setIsLoading(true);
       setSaveStatus("idle");
 
-      await plantService.updatePlant(plant.id, {
+      await getPlantService().updatePlant(plant.id, {
         reminderPreferences: preferences,
         updatedAt: new Date(),
       });
@@ -3,10 +3,11 @@ import { Input } from "@/components/ui/Input";
 import { Card, CardContent } from "@/components/ui/Card";
 import { Button } from "@/components/ui/Button";
 import { Switch } from "@/components/ui/Switch";
-import { BedRecord, bedService } from "@/types/database";
+import { BedRecord } from "@/types/database";
 import { PlantSection, Position } from "@/types";
 import { BedLayoutVisualizer } from "./BedLayoutVisualizer";
 import { useFirebasePlants } from "@/hooks/useFirebasePlants";
+import { useBeds } from "@/hooks/useBeds";
 import toast from "react-hot-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -155,6 +156,12 @@ export function SimplifiedLocationSelector({
   onLocationChange,
 }: SimplifiedLocationSelectorProps) {
   const { plants, loading: plantsLoading } = useFirebasePlants();
+  const {
+    beds: storedBeds,
+    loading: storedBedsLoading,
+    error: storedBedsError,
+    addBed,
+  } = useBeds();
   const [beds, setBeds] = useState<BedRecord[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [showSectionInput, setShowSectionInput] = useState(false);
@@ -269,16 +276,14 @@ export function SimplifiedLocationSelector({
   }, [detectGridDimensions]);
 
   const loadBeds = useCallback(async () => {
-    // Don't load if plants are still loading
-    if (plantsLoading) {
+    // Don't load if plants or stored beds are still loading
+    if (plantsLoading || storedBedsLoading) {
       return;
     }
 
     try {
       setIsLoading(true);
-
-      // Get beds from IndexedDB
-      const activeBeds = await bedService.getActiveBeds();
+      if (storedBedsError) throw new Error(storedBedsError);
 
       // Get existing containers from Firebase plants and analyze their properties
       const containerMap = new Map<
@@ -324,8 +329,8 @@ export function SimplifiedLocationSelector({
         })
       );
 
-      // Combine IndexedDB beds with Firebase containers
-      const allBeds = [...activeBeds, ...containerBeds];
+      // Combine stored beds with containers named on Firebase plants
+      const allBeds = [...storedBeds, ...containerBeds];
       setBeds(allBeds);
     } catch (error) {
       console.error("Failed to load beds:", error);
@@ -333,7 +338,7 @@ export function SimplifiedLocationSelector({
     } finally {
       setIsLoading(false);
     }
-  }, [plants, plantsLoading]);
+  }, [plants, plantsLoading, storedBeds, storedBedsLoading, storedBedsError]);
 
   useEffect(() => {
     loadBeds();
@@ -428,11 +433,8 @@ export function SimplifiedLocationSelector({
         isActive: true,
       };
 
-      const newBedId = await bedService.addBed(bedData);
+      const newBedId = await addBed(bedData);
       toast.success(`${containerOption.label} created successfully`);
-
-      // Reload beds and select the new one
-      await loadBeds();
       onBedSelect(newBedId);
 
       // Close form and reset
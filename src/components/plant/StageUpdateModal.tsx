@@ -1,6 +1,6 @@
 // Create new file: src/components/plant/StageUpdateModal.tsx
 
-import React from "react";
+import React, { useEffect, useState } from "react";
 import { Button } from "@/components/ui/Button";
 import { Badge } from "@/components/ui/Badge";
 import {
@@ -9,7 +9,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/Dialog";
-import { PlantRecord } from "@/types/database";
+import { PlantRecord, VarietyRecord, varietyService } from "@/types/database";
 import { GrowthStage } from "@/types";
 import { visualCues } from "@/data/visualCues";
 import { getNextStage } from "@/utils/growthStage";
@@ -29,10 +29,18 @@ export const StageUpdateModal: React.FC<StageUpdateModalProps> = ({
   onConfirm,
   onClose,
 }) => {
-  const nextStage = getNextStage(currentStage);
-  const cues = (plant.varietyName &&
-    nextStage &&
-    visualCues[plant.varietyName]?.[nextStage]) || [
+  const [variety, setVariety] = useState<VarietyRecord | null>(null);
+  const nextStage = getNextStage(currentStage, variety);
+
+  // Imported varieties bring their own cues
+  useEffect(() => {
+    if (!isOpen || !plant.varietyId) return;
+    varietyService.getVariety(plant.varietyId).then((record) => setVariety(record ?? null));
+  }, [isOpen, plant.varietyId]);
+
+  const cues = (nextStage &&
+    (variety?.visualCues?.[nextStage] ||
+      (plant.varietyName && visualCues[plant.varietyName]?.[nextStage]))) || [
     "No specific visual cues available for this stage. Please refer to general knowledge for this variety.",
   ];
 
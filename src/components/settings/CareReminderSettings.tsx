@@ -0,0 +1,170 @@
+// src/components/settings/CareReminderSettings.tsx
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { Switch } from "@/components/ui/Switch";
+import { NotificationSettings } from "@/types";
+import { DEFAULT_NOTIFICATION_SETTINGS } from "@/services/careReminderService";
+import { canShowNotifications } from "@/hooks/useCareReminders";
+import { useUserSettings } from "@/hooks/useUserSettings";
+
+const SNOOZE_OPTIONS = [15, 30, 60, 120, 240];
+
+const CareReminderSettings = () => {
+  const { settings: userSettings, updateSettings } = useUserSettings();
+  const settings = userSettings.notifications;
+  const [permission, setPermission] = useState<NotificationPermission | "unsupported">(
+    () => (canShowNotifications() ? Notification.permission : "unsupported")
+  );
+
+  const update = (changes: Partial<NotificationSettings>) => {
+    updateSettings({ notifications: { ...settings, ...changes } });
+  };
+
+  const requestPermission = async () => {
+    setPermission(await Notification.requestPermission());
+  };
+
+  const quietHours = settings.quietHours;
+  const timeInputClassName =
+    "p-2 border border-border rounded-lg bg-background text-foreground text-sm";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>🔔 Care Reminders</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {permission === "unsupported" && (
+          <p className="text-sm text-muted-foreground">
+            This browser doesn't support notifications.
+          </p>
+        )}
+        {permission === "denied" && (
+          <p className="text-sm text-red-600">
+            Notifications are blocked. Allow them for this site in your browser settings.
+          </p>
+        )}
+        {permission === "default" && (
+          <Button variant="outline" size="sm" onClick={requestPermission}>
+            Allow Notifications
+          </Button>
+        )}
+
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="font-medium">Daily digest</div>
+            <div className="text-sm text-muted-foreground">
+              One notification listing due and overdue tasks
+            </div>
+          </div>
+          <Switch
+            checked={settings.careReminders}
+            onCheckedChange={(careReminders) => update({ careReminders })}
+            aria-label="Daily care reminder digest"
+          />
+        </div>
+
+        {settings.careReminders && (
+          <>
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="font-medium">Harvest alerts</div>
+                <div className="text-sm text-muted-foreground">
+                  Include harvest tasks in the digest
+                </div>
+              </div>
+              <Switch
+                checked={settings.harvestAlerts}
+                onCheckedChange={(harvestAlerts) => update({ harvestAlerts })}
+                aria-label="Harvest alerts"
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <label htmlFor="digest-time" className="font-medium">
+                Send at
+              </label>
+              <input
+                id="digest-time"
+                type="time"
+                value={settings.dailyDigestTime ?? DEFAULT_NOTIFICATION_SETTINGS.dailyDigestTime}
+                onChange={(e) => e.target.value && update({ dailyDigestTime: e.target.value })}
+                className={timeInputClassName}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="font-medium">Quiet hours</div>
+                  <div className="text-sm text-muted-foreground">
+                    Reminders wait until quiet hours end
+                  </div>
+                </div>
+                <Switch
+                  checked={Boolean(quietHours)}
+                  onCheckedChange={(enabled) =>
+                    update({
+                      quietHours: enabled ? DEFAULT_NOTIFICATION_SETTINGS.quietHours : null,
+                    })
+                  }
+                  aria-label="Quiet hours"
+                />
+              </div>
+              {quietHours && (
+                <div className="flex items-center gap-2 text-sm">
+                  <input
+                    type="time"
+                    aria-label="Quiet hours start"
+                    value={quietHours.start}
+                    onChange={(e) =>
+                      e.target.value &&
+                      update({ quietHours: { ...quietHours, start: e.target.value } })
+                    }
+                    className={timeInputClassName}
+                  />
+                  <span className="text-muted-foreground">to</span>
+                  <input
+                    type="time"
+                    aria-label="Quiet hours end"
+                    value={quietHours.end}
+                    onChange={(e) =>
+                      e.target.value &&
+                      update({ quietHours: { ...quietHours, end: e.target.value } })
+                    }
+                    className={timeInputClassName}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <label htmlFor="snooze-minutes" className="font-medium">
+                Snooze for
+              </label>
+              <select
+                id="snooze-minutes"
+                value={settings.snoozeMinutes ?? DEFAULT_NOTIFICATION_SETTINGS.snoozeMinutes}
+                onChange={(e) => update({ snoozeMinutes: Number(e.target.value) })}
+                className={timeInputClassName}
+              >
+                {SNOOZE_OPTIONS.map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    {minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes > 60 ? "s" : ""}`}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Per-plant reminder types can be turned off on each plant's page.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CareReminderSettings;
@@ -0,0 +1,293 @@
+// src/components/settings/GardenSharingSettings.tsx
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { useFirebaseAuth } from "@/hooks/useFirebaseAuth";
+import { useGardens } from "@/hooks/useGardens";
+import { GardenService } from "@/services/gardenService";
+import { GardenInvite, GardenRole } from "@/types";
+
+type InviteRole = GardenInvite["role"];
+
+const ROLE_LABELS: Record<GardenRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+const ROLE_DESCRIPTIONS: Record<InviteRole, string> = {
+  editor: "Can add plants and log care",
+  viewer: "Can see everything but not change it",
+};
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+const GardenSharingSettings = () => {
+  const { user } = useFirebaseAuth();
+  const {
+    gardens,
+    gardenId,
+    garden,
+    role,
+    canManageMembers,
+    invites,
+    sentInvites,
+    switchGarden,
+    inviteMember,
+    acceptInvite,
+    declineInvite,
+    cancelInvite,
+    updateMemberRole,
+    removeMember,
+  } = useGardens();
+  const [email, setEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<InviteRole>("editor");
+  const [sending, setSending] = useState(false);
+
+  if (!user) return null;
+
+  const selectClassName =
+    "p-2 border border-border rounded-lg bg-background text-foreground text-sm";
+  const members = garden
+    ? Object.values(garden.members).sort((a, b) =>
+        a.role === "owner" ? -1 : b.role === "owner" ? 1 : a.email.localeCompare(b.email)
+      )
+    : [];
+
+  const handleInvite = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const normalized = GardenService.normalizeEmail(email);
+    if (!normalized.includes("@")) {
+      toast.error("Enter an email address to invite");
+      return;
+    }
+    if (members.some((member) => member.email === normalized)) {
+      toast.error(`${normalized} is already a member`);
+      return;
+    }
+
+    setSending(true);
+    try {
+      await inviteMember(normalized, inviteRole);
+      setEmail("");
+      toast.success(`Invited ${normalized} as ${ROLE_LABELS[inviteRole].toLowerCase()}`);
+    } catch (error) {
+      toast.error(errorMessage(error, "Failed to send invite"));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleAccept = async (invite: GardenInvite) => {
+    try {
+      await acceptInvite(invite);
+      toast.success(`You joined ${invite.gardenName}`);
+    } catch (error) {
+      toast.error(errorMessage(error, "Failed to accept invite"));
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!garden || !window.confirm(`Leave ${garden.name}? You'll lose access to its plants.`)) {
+      return;
+    }
+    try {
+      await removeMember(garden, user.uid);
+      await switchGarden(GardenService.getPersonalGardenId(user.uid));
+      toast.success(`You left ${garden.name}`);
+    } catch (error) {
+      toast.error(errorMessage(error, "Failed to leave garden"));
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    try {
+      await action();
+    } catch (error) {
+      toast.error(errorMessage(error, failure));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>👥 Garden Sharing</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {invites.length > 0 && (
+          <div className="space-y-2">
+            <div className="font-medium">Invitations</div>
+            {invites.map((invite) => (
+              <div
+                key={invite.id}
+                className="flex items-center justify-between gap-2 p-3 rounded-lg bg-muted"
+              >
+                <div className="text-sm">
+                  <span className="font-medium">
+                    {invite.invitedBy.displayName ?? "Someone"}
+                  </span>{" "}
+                  invited you to <span className="font-medium">{invite.gardenName}</span> as{" "}
+                  {ROLE_LABELS[invite.role].toLowerCase()}
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => handleAccept(invite)}>
+                    Accept
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => runAction(() => declineInvite(invite), "Failed to decline invite")}
+                  >
+                    Decline
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {gardens.length > 1 && (
+          <div className="flex items-center justify-between">
+            <div>
+              <label htmlFor="active-garden" className="font-medium">
+                Garden
+              </label>
+              <div className="text-sm text-muted-foreground">
+                Plants, beds and care logs shown throughout the app
+              </div>
+            </div>
+            <select
+              id="active-garden"
+              value={gardenId ?? ""}
+              onChange={(e) => switchGarden(e.target.value)}
+              className={selectClassName}
+            >
+              {gardens.map((candidate) => (
+                <option key={candidate.id} value={candidate.id}>
+                  {candidate.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {garden && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="font-medium">Members of {garden.name}</div>
+              {role && role !== "owner" && (
+                <Button size="sm" variant="outline" onClick={handleLeave}>
+                  Leave garden
+                </Button>
+              )}
+            </div>
+            {members.map((member) => (
+              <div key={member.userId} className="flex items-center justify-between gap-2">
+                <div className="text-sm">
+                  <div className="font-medium">
+                    {member.displayName || member.email}
+                    {member.userId === user.uid && " (you)"}
+                  </div>
+                  {member.displayName && (
+                    <div className="text-muted-foreground">{member.email}</div>
+                  )}
+                </div>
+                {canManageMembers && member.role !== "owner" ? (
+                  <div className="flex items-center gap-2">
+                    <select
+                      aria-label={`Role for ${member.email}`}
+                      value={member.role}
+                      onChange={(e) =>
+                        runAction(
+                          () =>
+                            updateMemberRole(garden, member.userId, e.target.value as InviteRole),
+                          "Failed to change role"
+                        )
+                      }
+                      className={selectClassName}
+                    >
+                      <option value="editor">{ROLE_LABELS.editor}</option>
+                      <option value="viewer">{ROLE_LABELS.viewer}</option>
+                    </select>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() =>
+                        runAction(
+                          () => removeMember(garden, member.userId),
+                          "Failed to remove member"
+                        )
+                      }
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                ) : (
+                  <span className="text-sm text-muted-foreground">{ROLE_LABELS[member.role]}</span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canManageMembers && garden && (
+          <form onSubmit={handleInvite} className="space-y-2">
+            <label htmlFor="invite-email" className="font-medium block">
+              Invite someone
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                id="invite-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="name@example.com"
+                className={`${selectClassName} flex-1`}
+              />
+              <select
+                aria-label="Role"
+                value={inviteRole}
+                onChange={(e) => setInviteRole(e.target.value as InviteRole)}
+                className={selectClassName}
+              >
+                <option value="editor">{ROLE_LABELS.editor}</option>
+                <option value="viewer">{ROLE_LABELS.viewer}</option>
+              </select>
+              <Button type="submit" size="sm" disabled={sending}>
+                {sending ? "Sending..." : "Invite"}
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {ROLE_DESCRIPTIONS[inviteRole]}. They'll see the invitation here after signing in
+              with that email.
+            </p>
+          </form>
+        )}
+
+        {sentInvites.length > 0 && (
+          <div className="space-y-2">
+            <div className="font-medium">Pending invitations</div>
+            {sentInvites.map((invite) => (
+              <div key={invite.id} className="flex items-center justify-between gap-2 text-sm">
+                <span>
+                  {invite.email} · {ROLE_LABELS[invite.role]}
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => runAction(() => cancelInvite(invite), "Failed to cancel invite")}
+                >
+                  Cancel
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GardenSharingSettings;
@@ -0,0 +1,184 @@
+// src/components/settings/GardenSitterSettings.tsx
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { addDays } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { Badge } from "@/components/ui/Badge";
+import { useFirebaseAuth } from "@/hooks/useFirebaseAuth";
+import { useActiveGarden } from "@/hooks/useGardens";
+import { useSitterShares } from "@/hooks/useSitterShares";
+import { SitterShareService } from "@/services/sitterShareService";
+import { SitterShare, SitterShareStatus } from "@/types";
+import {
+  createLocalDateFromString,
+  dateToLocalDateString,
+  formatDate,
+  getTodayDateString,
+} from "@/utils/dateUtils";
+
+const STATUS_LABELS: Record<SitterShareStatus, string> = {
+  scheduled: "Scheduled",
+  active: "Active",
+  expired: "Expired",
+  revoked: "Ended",
+};
+
+const STATUS_VARIANTS: Record<SitterShareStatus, "default" | "secondary" | "outline"> = {
+  scheduled: "secondary",
+  active: "default",
+  expired: "outline",
+  revoked: "outline",
+};
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+const GardenSitterSettings = () => {
+  const { user } = useFirebaseAuth();
+  const { canEdit } = useActiveGarden();
+  const { shares, completions, createShare, revokeShare } = useSitterShares();
+  const [sitterName, setSitterName] = useState("");
+  const [firstDay, setFirstDay] = useState(getTodayDateString);
+  const [lastDay, setLastDay] = useState(() => dateToLocalDateString(addDays(new Date(), 7)));
+  const [creating, setCreating] = useState(false);
+
+  if (!user || !canEdit) return null;
+
+  const inputClassName =
+    "p-2 border border-border rounded-lg bg-background text-foreground text-sm";
+
+  const copyLink = async (share: SitterShare) => {
+    try {
+      await navigator.clipboard.writeText(SitterShareService.getLink(share.id));
+      toast.success("Link copied");
+    } catch {
+      toast.error("Couldn't copy the link");
+    }
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!sitterName.trim()) {
+      toast.error("Enter the sitter's name");
+      return;
+    }
+    const start = createLocalDateFromString(firstDay);
+    const end = createLocalDateFromString(lastDay);
+    if (end < start) {
+      toast.error("The last day must be on or after the first day");
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const shareId = await createShare(sitterName, start, end);
+      setSitterName("");
+      try {
+        await navigator.clipboard.writeText(SitterShareService.getLink(shareId));
+        toast.success("Sitter link created and copied");
+      } catch {
+        toast.success("Sitter link created");
+      }
+    } catch (error) {
+      toast.error(errorMessage(error, "Failed to create sitter link"));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (share: SitterShare) => {
+    if (!window.confirm(`End ${share.sitterName}'s access now?`)) return;
+    try {
+      await revokeShare(share);
+      toast.success(`${share.sitterName}'s link no longer works`);
+    } catch (error) {
+      toast.error(errorMessage(error, "Failed to end sitter link"));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>🧳 Garden Sitter</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleCreate} className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            Going away? Share a link that shows only the care due while you're gone. It stops
+            working after the last day, and you'll see everything the sitter logged when you're
+            back.
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              aria-label="Sitter name"
+              value={sitterName}
+              onChange={(e) => setSitterName(e.target.value)}
+              placeholder="Sitter's name"
+              className={`${inputClassName} flex-1`}
+            />
+            <input
+              aria-label="First day"
+              type="date"
+              value={firstDay}
+              onChange={(e) => setFirstDay(e.target.value)}
+              className={inputClassName}
+            />
+            <input
+              aria-label="Last day"
+              type="date"
+              value={lastDay}
+              min={firstDay}
+              onChange={(e) => setLastDay(e.target.value)}
+              className={inputClassName}
+            />
+            <Button type="submit" size="sm" disabled={creating}>
+              {creating ? "Creating..." : "Create link"}
+            </Button>
+          </div>
+        </form>
+
+        {shares.length > 0 && (
+          <div className="space-y-2">
+            <div className="font-medium">Sitter links</div>
+            {shares.map((share) => {
+              const status = SitterShareService.getStatus(share);
+              const open = status === "scheduled" || status === "active";
+              const completedCount = new Set(
+                (completions[share.id] ?? []).map((completion) => completion.taskId)
+              ).size;
+              return (
+                <div key={share.id} className="flex items-center justify-between gap-2 text-sm">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{share.sitterName}</span>
+                      <Badge size="sm" variant={STATUS_VARIANTS[status]}>
+                        {STATUS_LABELS[status]}
+                      </Badge>
+                    </div>
+                    <div className="text-muted-foreground">
+                      {formatDate(share.startsAt)} – {formatDate(share.expiresAt)} ·{" "}
+                      {completedCount} of {share.tasks.length} tasks done
+                    </div>
+                  </div>
+                  {open && (
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="outline" onClick={() => copyLink(share)}>
+                        Copy link
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleRevoke(share)}>
+                        End
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GardenSitterSettings;
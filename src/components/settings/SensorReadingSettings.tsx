@@ -0,0 +1,129 @@
+// src/components/settings/SensorReadingSettings.tsx
+import { useRef, useState } from "react";
+import toast from "react-hot-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { useFirebaseAuth } from "@/hooks/useFirebaseAuth";
+import { useActiveGarden } from "@/hooks/useGardens";
+import { useSensorImport } from "@/hooks/useSensorReadings";
+import {
+  SENSOR_METRICS,
+  SENSOR_METRIC_LABELS,
+  SensorBatchResult,
+} from "@/services/sensorReadingService";
+
+const SensorReadingSettings = () => {
+  const { user } = useFirebaseAuth();
+  const { canEdit } = useActiveGarden();
+  const { parseFile, importReadings } = useSensorImport();
+  const [fileName, setFileName] = useState("");
+  const [batch, setBatch] = useState<SensorBatchResult | null>(null);
+  const [importing, setImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  if (!user || !canEdit) return null;
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setFileName(file.name);
+    try {
+      setBatch(await parseFile(file));
+    } catch (error) {
+      console.error("Failed to read sensor readings:", error);
+      toast.error("Failed to read file");
+    }
+  };
+
+  const handleImport = async () => {
+    if (!batch || batch.readings.length === 0) return;
+    setImporting(true);
+    try {
+      const count = await importReadings(batch.readings);
+      toast.success(`Imported ${count} sensor readings`);
+      setBatch(null);
+      setFileName("");
+    } catch (error) {
+      console.error("Failed to import sensor readings:", error);
+      toast.error("Import failed. Some readings may already have been saved.");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const countsByMetric = batch
+    ? SENSOR_METRICS.map((metric) => ({
+        metric,
+        count: batch.readings.filter((reading) => reading.metric === metric).length,
+      })).filter(({ count }) => count > 0)
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>🌡️ Sensor Readings</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Import temperature, humidity, soil moisture and light readings from a JSON or CSV
+          file. Each reading needs a time and a bed (by name or ID) or plant ID. Readings
+          outside a variety's ranges show up as alerts on the dashboard.
+        </p>
+        <pre className="text-xs bg-muted rounded-lg p-2 overflow-x-auto">
+          {"timestamp,bed,temperature,humidity\n2025-07-01T08:00,Greenhouse,68,55"}
+        </pre>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          className="hidden"
+          onChange={handleFileSelected}
+        />
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          Choose file
+        </Button>
+
+        {batch && (
+          <div className="space-y-2 text-sm">
+            <div className="font-medium">{fileName}</div>
+            {countsByMetric.length > 0 ? (
+              <ul className="text-muted-foreground">
+                {countsByMetric.map(({ metric, count }) => (
+                  <li key={metric}>
+                    {SENSOR_METRIC_LABELS[metric]}: {count}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <div className="text-muted-foreground">No readings to import</div>
+            )}
+            {batch.errors.length > 0 && (
+              <ul className="text-red-600 dark:text-red-400">
+                {batch.errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            )}
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                disabled={importing || batch.readings.length === 0}
+                onClick={handleImport}
+              >
+                {importing ? "Importing..." : `Import ${batch.readings.length} readings`}
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setBatch(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SensorReadingSettings;
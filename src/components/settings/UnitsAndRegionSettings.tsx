@@ -0,0 +1,176 @@
+// src/components/settings/UnitsAndRegionSettings.tsx
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { useUserSettings } from "@/hooks/useUserSettings";
+import {
+  getDeviceTimeZone,
+  TemperaturePreference,
+  UserSettingsService,
+  VolumePreference,
+} from "@/services/userSettingsService";
+import { formatDateTime } from "@/utils/dateUtils";
+
+const COMMON_TIME_ZONES = [
+  "America/New_York",
+  "America/Chicago",
+  "America/Denver",
+  "America/Los_Angeles",
+  "America/Anchorage",
+  "Pacific/Honolulu",
+  "Europe/London",
+  "Europe/Berlin",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+  "UTC",
+];
+
+const UnitsAndRegionSettings = () => {
+  const { settings, updateSettings } = useUserSettings();
+  const [timeZone, setTimeZone] = useState(settings.location.timezone);
+  const [zipCode, setZipCode] = useState(settings.location.zipCode ?? "");
+  const [timeZoneError, setTimeZoneError] = useState<string | null>(null);
+
+  // Pick up changes that arrive from another device
+  useEffect(() => {
+    setTimeZone(settings.location.timezone);
+    setZipCode(settings.location.zipCode ?? "");
+  }, [settings.location.timezone, settings.location.zipCode]);
+
+  const saveTimeZone = (value: string) => {
+    const trimmed = value.trim();
+    if (!UserSettingsService.isValidTimeZone(trimmed)) {
+      setTimeZoneError(`"${trimmed}" isn't a recognised time zone`);
+      return;
+    }
+    setTimeZoneError(null);
+    if (trimmed !== settings.location.timezone) {
+      updateSettings({ location: { ...settings.location, timezone: trimmed } });
+    }
+  };
+
+  const saveZipCode = () => {
+    const trimmed = zipCode.trim();
+    if (trimmed === (settings.location.zipCode ?? "")) return;
+    updateSettings({
+      location: { ...settings.location, zipCode: trimmed || undefined },
+    });
+  };
+
+  const deviceTimeZone = getDeviceTimeZone();
+  const selectClassName =
+    "p-2 border border-border rounded-lg bg-background text-foreground text-sm";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>📏 Units & Region</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <label htmlFor="volume-units" className="font-medium">
+              Volume
+            </label>
+            <div className="text-sm text-muted-foreground">
+              Used for watering suggestions and new care logs
+            </div>
+          </div>
+          <select
+            id="volume-units"
+            value={settings.units.volume}
+            onChange={(e) =>
+              updateSettings({
+                units: { ...settings.units, volume: e.target.value as VolumePreference },
+              })
+            }
+            className={selectClassName}
+          >
+            <option value="ounces">Ounces (oz)</option>
+            <option value="liters">Metric (ml, L)</option>
+          </select>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <label htmlFor="temperature-units" className="font-medium">
+            Temperature
+          </label>
+          <select
+            id="temperature-units"
+            value={settings.units.temperature}
+            onChange={(e) =>
+              updateSettings({
+                units: {
+                  ...settings.units,
+                  temperature: e.target.value as TemperaturePreference,
+                },
+              })
+            }
+            className={selectClassName}
+          >
+            <option value="fahrenheit">Fahrenheit (°F)</option>
+            <option value="celsius">Celsius (°C)</option>
+          </select>
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="time-zone" className="font-medium block">
+            Time zone
+          </label>
+          <div className="flex items-center gap-2">
+            <input
+              id="time-zone"
+              list="time-zone-options"
+              value={timeZone}
+              onChange={(e) => setTimeZone(e.target.value)}
+              onBlur={() => saveTimeZone(timeZone)}
+              className={`${selectClassName} flex-1`}
+            />
+            <datalist id="time-zone-options">
+              {[deviceTimeZone, ...COMMON_TIME_ZONES.filter((zone) => zone !== deviceTimeZone)].map(
+                (zone) => (
+                  <option key={zone} value={zone} />
+                )
+              )}
+            </datalist>
+            {settings.location.timezone !== deviceTimeZone && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setTimeZone(deviceTimeZone);
+                  saveTimeZone(deviceTimeZone);
+                }}
+              >
+                Use this device's
+              </Button>
+            )}
+          </div>
+          {timeZoneError ? (
+            <p className="text-sm text-red-600">{timeZoneError}</p>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Dates and times show as {formatDateTime(new Date())}
+            </p>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <label htmlFor="zip-code" className="font-medium">
+            ZIP code
+          </label>
+          <input
+            id="zip-code"
+            value={zipCode}
+            onChange={(e) => setZipCode(e.target.value)}
+            onBlur={saveZipCode}
+            placeholder="Optional"
+            className={`${selectClassName} w-32`}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UnitsAndRegionSettings;
@@ -0,0 +1,113 @@
+// src/components/shared/TaskDeferControls.tsx
+import React, { useState } from "react";
+import { addDays } from "date-fns";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { SNOOZE_PRESET_DAYS, TaskDeferRequest } from "@/services/taskDeferralService";
+import { createLocalDateFromString, dateToLocalDateString } from "@/utils/dateUtils";
+
+interface TaskDeferControlsProps {
+  onDefer: (request: TaskDeferRequest) => Promise<void>;
+  disabled?: boolean;
+}
+
+/**
+ * Snooze presets plus a pick-a-date reschedule, each with an optional reason.
+ * Collapsed to a single button until opened.
+ */
+const TaskDeferControls: React.FC<TaskDeferControlsProps> = ({ onDefer, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  const [date, setDate] = useState(() => dateToLocalDateString(addDays(new Date(), 1)));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const submit = async (request: TaskDeferRequest) => {
+    setIsSaving(true);
+    try {
+      await onDefer({ ...request, ...(reason.trim() && { reason: reason.trim() }) });
+      setIsOpen(false);
+      setReason("");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={(e) => {
+          e.stopPropagation();
+          setIsOpen(true);
+        }}
+        disabled={disabled}
+        className="text-xs"
+      >
+        Snooze
+      </Button>
+    );
+  }
+
+  return (
+    <div
+      className="space-y-2 p-3 border border-border rounded-lg bg-background"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-xs text-muted-foreground mr-1">Snooze</span>
+        {SNOOZE_PRESET_DAYS.map((days) => (
+          <Button
+            key={days}
+            size="sm"
+            variant="outline"
+            onClick={() => submit({ kind: "snooze", option: { days } })}
+            disabled={isSaving}
+            className="text-xs"
+          >
+            {days === 7 ? "1 week" : `${days} day${days === 1 ? "" : "s"}`}
+          </Button>
+        ))}
+      </div>
+      <div className="flex items-center gap-1">
+        <Input
+          type="date"
+          value={date}
+          min={dateToLocalDateString(new Date())}
+          onChange={(e) => setDate(e.target.value)}
+          aria-label="New due date"
+          className="h-8 text-xs"
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() =>
+            submit({ kind: "reschedule", dueDate: createLocalDateFromString(date) })
+          }
+          disabled={isSaving || !date}
+          className="text-xs"
+        >
+          Reschedule
+        </Button>
+      </div>
+      <Input
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        placeholder="Reason (optional), e.g. rain forecast"
+        aria-label="Reason"
+        className="h-8 text-xs"
+      />
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={() => setIsOpen(false)}
+        disabled={isSaving}
+        className="text-xs"
+      >
+        Cancel
+      </Button>
+    </div>
+  );
+};
+
+export default TaskDeferControls;
@@ -1,8 +1,10 @@
 // src/components/OfflineIndicator.tsx
 import React, { useState, useEffect } from "react";
+import { useOutbox } from "@/hooks/useOutbox";
 
 export const OfflineIndicator: React.FC = () => {
   const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const { pendingCount, failed, retryFailed, discardFailed } = useOutbox();
 
   useEffect(() => {
     function handleOnline() {
@@ -22,11 +24,41 @@ export const OfflineIndicator: React.FC = () => {
     };
   }, []);
 
-  if (isOnline) return null;
+  if (!isOnline) {
+    return (
+      <div className="fixed top-0 left-0 right-0 bg-red-600 text-white px-4 py-2 text-center text-sm font-medium z-50">
+        📡 You're offline -{" "}
+        {pendingCount > 0
+          ? `${pendingCount} change${pendingCount === 1 ? "" : "s"} will sync when connection returns`
+          : "Data will sync when connection returns"}
+      </div>
+    );
+  }
 
-  return (
-    <div className="fixed top-0 left-0 right-0 bg-red-600 text-white px-4 py-2 text-center text-sm font-medium z-50">
-      📡 You're offline - Data will sync when connection returns
-    </div>
-  );
+  if (failed.length > 0) {
+    return (
+      <div
+        className="fixed top-0 left-0 right-0 bg-amber-600 text-white px-4 py-2 text-center text-sm font-medium z-50"
+        title={failed[0].lastError}
+      >
+        ⚠️ {failed.length} offline change{failed.length === 1 ? "" : "s"} failed to sync
+        <button onClick={retryFailed} className="ml-3 underline">
+          Retry
+        </button>
+        <button onClick={discardFailed} className="ml-3 underline">
+          Discard
+        </button>
+      </div>
+    );
+  }
+
+  if (pendingCount > 0) {
+    return (
+      <div className="fixed top-0 left-0 right-0 bg-blue-600 text-white px-4 py-2 text-center text-sm font-medium z-50">
+        🔄 Syncing {pendingCount} offline change{pendingCount === 1 ? "" : "s"}...
+      </div>
+    );
+  }
+
+  return null;
 };
@@ -0,0 +1,125 @@
+// src/components/variety/BasicsStep.tsx
+import { PlantCategory, VarietyRecord } from "@/types";
+import { PLANT_CATEGORIES } from "@/services/varietyProtocolService";
+import { Field, NumberField, Select, TextField, ValidatedStepProps } from "./fields";
+
+const CATEGORY_LABELS: Record<PlantCategory, string> = {
+  "fruiting-plants": "🎃 Fruiting Plants (pumpkins, squash, melons, etc.)",
+  "leafy-greens": "🥬 Leafy Greens (lettuce, spinach, kale, etc.)",
+  "root-vegetables": "🥕 Root Vegetables (carrots, beets, radishes, etc.)",
+  herbs: "🌿 Herbs (basil, cilantro, sage, etc.)",
+  berries: "🫐 Berries (strawberries, raspberries, etc.)",
+  flowers: "🌸 Flowers (zinnias, dahlias, sunflowers, etc.)",
+};
+
+const TIMELINE_FIELDS = [
+  { key: "germination", label: "Germination days", hint: "Days to sprout" },
+  { key: "seedling", label: "Seedling stage days", hint: "Early growth period" },
+  { key: "vegetative", label: "Vegetative growth days", hint: "Leaf and stem development" },
+  { key: "rootDevelopment", label: "Root development days", hint: "Optional" },
+  { key: "maturation", label: "Total days to maturity", hint: "Ready for harvest" },
+] as const;
+
+interface BasicsStepProps extends ValidatedStepProps {
+  templates: VarietyRecord[];
+  onClone: (variety: VarietyRecord) => void;
+}
+
+export function BasicsStep({ draft, onChange, templates, onClone, errors }: BasicsStepProps) {
+  return (
+    <div className="space-y-4">
+      {templates.length > 0 && (
+        <Field
+          label="Start from an existing variety"
+          hint="Copies its timeline and every protocol, to adjust in the next steps"
+        >
+          <Select
+            value=""
+            onChange={(e) => {
+              const template = templates.find((variety) => variety.id === e.target.value);
+              if (template) onClone(template);
+            }}
+          >
+            <option value="">Start from scratch</option>
+            {templates.map((variety) => (
+              <option key={variety.id} value={variety.id}>
+                {variety.name}
+              </option>
+            ))}
+          </Select>
+        </Field>
+      )}
+
+      <TextField
+        label="Variety name *"
+        value={draft.name}
+        onChange={(name) => onChange({ ...draft, name })}
+        placeholder="e.g., Jack-o'-lantern Pumpkins, Cherokee Purple Tomatoes"
+        error={errors.name}
+      />
+
+      <Field label="Category *" hint="This determines the growth stages protocols are set for">
+        <Select
+          value={draft.category}
+          onChange={(e) => onChange({ ...draft, category: e.target.value as PlantCategory })}
+        >
+          {PLANT_CATEGORIES.map((category) => (
+            <option key={category} value={category}>
+              {CATEGORY_LABELS[category]}
+            </option>
+          ))}
+        </Select>
+      </Field>
+
+      <TextField
+        label="Description"
+        value={draft.description}
+        onChange={(description) => onChange({ ...draft, description })}
+      />
+
+      <div>
+        <h3 className="text-lg font-medium text-foreground mb-2">Growth Timeline (days)</h3>
+        <div className="grid grid-cols-2 gap-4">
+          {TIMELINE_FIELDS.map(({ key, label, hint }) => (
+            <NumberField
+              key={key}
+              label={label}
+              hint={hint}
+              step={1}
+              value={draft.growthTimeline[key]}
+              onChange={(days) =>
+                onChange({
+                  ...draft,
+                  growthTimeline: {
+                    ...draft.growthTimeline,
+                    [key]: key === "rootDevelopment" ? days : days ?? NaN,
+                  },
+                })
+              }
+              error={errors[`growthTimeline.${key}`]}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 items-end">
+        <label className="flex items-center gap-2 text-sm font-medium text-foreground">
+          <input
+            type="checkbox"
+            checked={draft.isEverbearing ?? false}
+            onChange={(e) => onChange({ ...draft, isEverbearing: e.target.checked || undefined })}
+          />
+          Everbearing (keeps producing after the first harvest)
+        </label>
+        <NumberField
+          label="Productive lifespan (days)"
+          hint="Before replacement is recommended"
+          step={1}
+          value={draft.productiveLifespan}
+          onChange={(productiveLifespan) => onChange({ ...draft, productiveLifespan })}
+          error={errors.productiveLifespan}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+// src/components/variety/EnvironmentStep.tsx
+import { Button } from "@/components/ui/Button";
+import { EnvironmentalProtocol, TemperatureUnit } from "@/types";
+import { MeasurementService } from "@/services/measurementService";
+import {
+  Field,
+  LinesField,
+  NumberField,
+  Select,
+  TextField,
+  ValidatedStepProps,
+} from "./fields";
+
+type Constraint = NonNullable<EnvironmentalProtocol["constraints"]>[number];
+
+const CONSTRAINT_PARAMETERS: Constraint["parameter"][] = [
+  "temperature",
+  "humidity",
+  "light",
+  "other",
+];
+
+export function EnvironmentStep({ draft, onChange, errors }: ValidatedStepProps) {
+  const environment = draft.protocols.environment;
+  const temperature = {
+    ...environment?.temperature,
+    unit: environment?.temperature?.unit ?? MeasurementService.getTemperatureUnit(),
+  };
+  const humidity = environment?.humidity;
+  const pH = environment?.pH;
+  const constraints = environment?.constraints ?? [];
+  const error = (field: string) => errors[`protocols.environment.${field}`];
+
+  // pH is required once any environment field is set; validation reports it
+  const update = (changes: Partial<EnvironmentalProtocol>) =>
+    onChange({
+      ...draft,
+      protocols: {
+        ...draft.protocols,
+        environment: { ...environment, ...changes } as EnvironmentalProtocol,
+      },
+    });
+  const updateTemperature = (changes: Partial<typeof temperature>) =>
+    update({ temperature: { ...temperature, ...changes } });
+  const updatePH = (changes: Partial<EnvironmentalProtocol["pH"]>) =>
+    update({ pH: { ...pH, ...changes } as EnvironmentalProtocol["pH"] });
+  const setConstraints = (next: Constraint[]) => update({ constraints: next });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-medium text-foreground">Temperature</h3>
+          <select
+            value={temperature.unit}
+            onChange={(e) => updateTemperature({ unit: e.target.value as TemperatureUnit })}
+            className="p-1 border border-border rounded-md bg-background text-foreground text-sm"
+            aria-label="Temperature unit"
+          >
+            <option value="F">°F</option>
+            <option value="C">°C</option>
+          </select>
+        </div>
+        <div className="grid grid-cols-3 gap-3">
+          <NumberField
+            label="Critical minimum"
+            hint="Damage below this"
+            value={temperature.criticalMin}
+            onChange={(criticalMin) => updateTemperature({ criticalMin })}
+            error={error("temperature.criticalMin")}
+          />
+          <NumberField
+            label="Minimum"
+            value={temperature.min}
+            onChange={(min) => updateTemperature({ min })}
+            error={error("temperature.min")}
+          />
+          <NumberField
+            label="Optimal"
+            value={temperature.optimal}
+            onChange={(optimal) => updateTemperature({ optimal })}
+          />
+          <NumberField
+            label="Maximum"
+            value={temperature.max}
+            onChange={(max) => updateTemperature({ max })}
+          />
+          <NumberField
+            label="Critical maximum"
+            hint="Damage above this"
+            value={temperature.criticalMax}
+            onChange={(criticalMax) => updateTemperature({ criticalMax })}
+            error={error("temperature.criticalMax")}
+          />
+        </div>
+        <TextField
+          label="Applies to"
+          placeholder="e.g., fruit set"
+          value={temperature.stage}
+          onChange={(stage) => updateTemperature({ stage })}
+        />
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-lg font-medium text-foreground">Humidity (%)</h3>
+        <div className="grid grid-cols-3 gap-3">
+          <NumberField
+            label="Minimum"
+            value={humidity?.min}
+            onChange={(min) => update({ humidity: { ...humidity, min } })}
+            error={error("humidity.min")}
+          />
+          <NumberField
+            label="Optimal"
+            value={humidity?.optimal}
+            onChange={(optimal) => update({ humidity: { ...humidity, optimal } })}
+            error={error("humidity.optimal")}
+          />
+          <NumberField
+            label="Maximum"
+            value={humidity?.max}
+            onChange={(max) => update({ humidity: { ...humidity, max } })}
+            error={error("humidity.max")}
+          />
+        </div>
+        <TextField
+          label="Critical for stage"
+          placeholder="e.g., germination"
+          value={humidity?.criticalForStage}
+          onChange={(criticalForStage) => update({ humidity: { ...humidity, criticalForStage } })}
+        />
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-lg font-medium text-foreground">Soil pH</h3>
+        {error("pH") && <p className="text-xs text-red-600">{error("pH")}</p>}
+        <div className="grid grid-cols-3 gap-3">
+          <NumberField
+            label="Minimum"
+            value={pH?.min}
+            onChange={(min) => updatePH({ min })}
+            error={error("pH.min")}
+          />
+          <NumberField
+            label="Optimal"
+            value={pH?.optimal}
+            onChange={(optimal) => updatePH({ optimal })}
+            error={error("pH.optimal")}
+          />
+          <NumberField
+            label="Maximum"
+            value={pH?.max}
+            onChange={(max) => updatePH({ max })}
+            error={error("pH.max")}
+          />
+        </div>
+      </div>
+
+      <LinesField
+        label="Special conditions"
+        placeholder="One per line"
+        value={environment?.specialConditions}
+        onChange={(specialConditions) => update({ specialConditions })}
+      />
+
+      <div className="space-y-3">
+        <h3 className="text-lg font-medium text-foreground">Constraints</h3>
+        {constraints.map((constraint, index) => {
+          const updateConstraint = (changes: Partial<Constraint>) =>
+            setConstraints(
+              constraints.map((current, i) => (i === index ? { ...current, ...changes } : current))
+            );
+          const constraintError = (field: string) => error(`constraints[${index + 1}].${field}`);
+
+          return (
+            <div key={index} className="bg-muted/50 rounded-md p-3 space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <TextField
+                  label="Description *"
+                  placeholder="Drops blossoms above"
+                  value={constraint.description}
+                  onChange={(description) => updateConstraint({ description })}
+                  error={constraintError("description")}
+                />
+                <Field label="Parameter">
+                  <Select
+                    value={constraint.parameter}
+                    onChange={(e) =>
+                      updateConstraint({ parameter: e.target.value as Constraint["parameter"] })
+                    }
+                  >
+                    {CONSTRAINT_PARAMETERS.map((parameter) => (
+                      <option key={parameter} value={parameter}>
+                        {parameter}
+                      </option>
+                    ))}
+                  </Select>
+                </Field>
+                <NumberField
+                  label="Threshold *"
+                  value={constraint.threshold}
+                  onChange={(threshold) => updateConstraint({ threshold: threshold ?? NaN })}
+                  error={constraintError("threshold")}
+                />
+                <TextField
+                  label="Consequence *"
+                  placeholder="Poor fruit set"
+                  value={constraint.consequence}
+                  onChange={(consequence) => updateConstraint({ consequence })}
+                  error={constraintError("consequence")}
+                />
+              </div>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => setConstraints(constraints.filter((_, i) => i !== index))}
+              >
+                Remove constraint
+              </Button>
+            </div>
+          );
+        })}
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() =>
+            setConstraints([
+              ...constraints,
+              { description: "", parameter: "temperature", threshold: NaN, consequence: "" },
+            ])
+          }
+        >
+          Add constraint
+        </Button>
+      </div>
+    </div>
+  );
+}
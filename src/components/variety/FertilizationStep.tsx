@@ -0,0 +1,183 @@
+// src/components/variety/FertilizationStep.tsx
+import { Button } from "@/components/ui/Button";
+import { ApplicationMethod, FertilizationScheduleItem, GrowthStage } from "@/types";
+import {
+  APPLICATION_METHODS,
+  VarietyProtocolService,
+} from "@/services/varietyProtocolService";
+import {
+  Field,
+  LinesField,
+  NumberField,
+  StageSection,
+  StepProps,
+  Select,
+  TextField,
+} from "./fields";
+import { getStageProtocol, withStageProtocol } from "@/utils/varietyDraft";
+
+const METHOD_LABELS: Record<ApplicationMethod, string> = {
+  "soil-drench": "Soil drench",
+  "foliar-spray": "Foliar spray",
+  "top-dress": "Top dress",
+  "side-dress": "Side dress",
+  "mix-in-soil": "Mix into soil",
+};
+
+const newScheduleItem = (): FertilizationScheduleItem => ({
+  taskName: "",
+  details: { product: "", method: "soil-drench" },
+  startDays: 0,
+  frequencyDays: 14,
+  repeatCount: 1,
+});
+
+interface ScheduleItemEditorProps {
+  item: FertilizationScheduleItem;
+  onChange: (item: FertilizationScheduleItem) => void;
+  onRemove: () => void;
+}
+
+function ScheduleItemEditor({ item, onChange, onRemove }: ScheduleItemEditorProps) {
+  const issues = VarietyProtocolService.validateScheduleItem(item);
+  const error = (path: string) => issues.find((issue) => issue.path === path)?.message;
+  const updateDetails = (details: Partial<FertilizationScheduleItem["details"]>) =>
+    onChange({ ...item, details: { ...item.details, ...details } });
+
+  return (
+    <div className="bg-muted/50 rounded-md p-3 space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <TextField
+          label="Task name *"
+          placeholder="Light feeding"
+          value={item.taskName}
+          onChange={(taskName) => onChange({ ...item, taskName })}
+          error={error("taskName")}
+        />
+        <TextField
+          label="Product *"
+          placeholder="Neptune's Harvest Fish & Seaweed"
+          value={item.details.product}
+          onChange={(product) => updateDetails({ product })}
+          error={error("details.product")}
+        />
+        <TextField
+          label="Dilution"
+          placeholder="1 tbsp/gallon"
+          value={item.details.dilution}
+          onChange={(dilution) => updateDetails({ dilution })}
+        />
+        <TextField
+          label="Amount"
+          placeholder="Until runoff"
+          value={item.details.amount}
+          onChange={(amount) => updateDetails({ amount })}
+        />
+        <Field label="Method">
+          <Select
+            value={item.details.method ?? ""}
+            onChange={(e) =>
+              updateDetails({ method: (e.target.value || undefined) as ApplicationMethod | undefined })
+            }
+          >
+            <option value="">Not specified</option>
+            {APPLICATION_METHODS.map((method) => (
+              <option key={method} value={method}>
+                {METHOD_LABELS[method]}
+              </option>
+            ))}
+          </Select>
+        </Field>
+        <NumberField
+          label="Start (days into stage)"
+          step={1}
+          value={item.startDays}
+          onChange={(startDays) => onChange({ ...item, startDays: startDays ?? NaN })}
+          error={error("startDays")}
+        />
+        <NumberField
+          label="Every (days)"
+          step={1}
+          value={item.frequencyDays}
+          onChange={(frequencyDays) => onChange({ ...item, frequencyDays: frequencyDays ?? NaN })}
+          error={error("frequencyDays")}
+        />
+        <NumberField
+          label="Times"
+          step={1}
+          value={item.repeatCount}
+          onChange={(repeatCount) => onChange({ ...item, repeatCount: repeatCount ?? NaN })}
+          error={error("repeatCount")}
+        />
+      </div>
+      <Button type="button" size="sm" variant="ghost" onClick={onRemove}>
+        Remove task
+      </Button>
+    </div>
+  );
+}
+
+export function FertilizationStep({ draft, onChange }: StepProps) {
+  const stages = VarietyProtocolService.getStages(draft);
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Feeding tasks are scheduled from the start of each stage. The review step shows when
+        they'd fall for a plant started today.
+      </p>
+      {stages.map((stage: GrowthStage) => {
+        const protocol = getStageProtocol(draft, "fertilization", stage);
+        const schedule = protocol?.schedule ?? [];
+        const setSchedule = (next: FertilizationScheduleItem[]) =>
+          onChange(
+            withStageProtocol(draft, "fertilization", stage, { ...protocol, schedule: next })
+          );
+
+        return (
+          <StageSection
+            key={stage}
+            stage={stage}
+            enabled={!!protocol}
+            onToggle={(enabled) =>
+              onChange(
+                withStageProtocol(
+                  draft,
+                  "fertilization",
+                  stage,
+                  enabled ? { schedule: [newScheduleItem()] } : undefined
+                )
+              )
+            }
+          >
+            {schedule.map((item, index) => (
+              <ScheduleItemEditor
+                key={index}
+                item={item}
+                onChange={(updated) =>
+                  setSchedule(schedule.map((current, i) => (i === index ? updated : current)))
+                }
+                onRemove={() => setSchedule(schedule.filter((_, i) => i !== index))}
+              />
+            ))}
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => setSchedule([...schedule, newScheduleItem()])}
+            >
+              Add feeding task
+            </Button>
+            <LinesField
+              label="Notes"
+              value={protocol?.notes}
+              onChange={(notes) =>
+                onChange(withStageProtocol(draft, "fertilization", stage, { ...protocol, notes }))
+              }
+            />
+          </StageSection>
+        );
+      })}
+    </div>
+  );
+}
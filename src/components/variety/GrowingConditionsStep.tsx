@@ -0,0 +1,256 @@
+// src/components/variety/GrowingConditionsStep.tsx
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { ContainerRequirements, SoilMixture, SuccessionProtocol } from "@/types";
+import {
+  Field,
+  LinesField,
+  NumberField,
+  Select,
+  TextField,
+  ValidatedStepProps,
+} from "./fields";
+
+interface EntriesEditorProps<T extends string | number> {
+  entries: Record<string, T>;
+  onChange: (entries: Record<string, T>) => void;
+  blank: T;
+  nameLabel: string;
+  valueLabel: string;
+  addLabel: string;
+}
+
+/**
+ * Name/value rows for a record, e.g. soil components and their percentages.
+ * Renaming a row keeps its position.
+ */
+function EntriesEditor<T extends string | number>({
+  entries,
+  onChange,
+  blank,
+  nameLabel,
+  valueLabel,
+  addLabel,
+}: EntriesEditorProps<T>) {
+  const rows = Object.entries(entries);
+  const setRows = (next: [string, T][]) => onChange(Object.fromEntries(next) as Record<string, T>);
+
+  return (
+    <div className="space-y-2">
+      {rows.map(([name, value], index) => (
+        <div key={index} className="flex gap-2 items-center">
+          <Input
+            aria-label={nameLabel}
+            placeholder={nameLabel}
+            value={name}
+            onChange={(e) =>
+              setRows(rows.map((row, i) => (i === index ? [e.target.value, row[1]] : row)))
+            }
+          />
+          <Input
+            aria-label={valueLabel}
+            placeholder={valueLabel}
+            type={typeof blank === "number" ? "number" : "text"}
+            value={typeof value === "number" && Number.isNaN(value) ? "" : value}
+            onChange={(e) => {
+              const next = (
+                typeof blank === "number"
+                  ? e.target.value === ""
+                    ? NaN
+                    : Number(e.target.value)
+                  : e.target.value
+              ) as T;
+              setRows(rows.map((row, i) => (i === index ? [row[0], next] : row)));
+            }}
+          />
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            onClick={() => setRows(rows.filter((_, i) => i !== index))}
+          >
+            ✕
+          </Button>
+        </div>
+      ))}
+      {!("" in entries) && (
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => setRows([...rows, ["", blank]])}
+        >
+          {addLabel}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export function GrowingConditionsStep({ draft, onChange, errors }: ValidatedStepProps) {
+  const { soilMixture, container, succession } = draft.protocols;
+  const error = (field: string) => errors[`protocols.${field}`];
+
+  // The protocol types require some fields once a section exists; validation reports gaps
+  const updateSoil = (changes: Partial<SoilMixture>) =>
+    onChange({
+      ...draft,
+      protocols: {
+        ...draft.protocols,
+        soilMixture: { components: {}, ...soilMixture, ...changes },
+      },
+    });
+  const updateContainer = (changes: Partial<ContainerRequirements>) =>
+    onChange({
+      ...draft,
+      protocols: {
+        ...draft.protocols,
+        container: { ...container, ...changes } as ContainerRequirements,
+      },
+    });
+  const updateStaging = (changes: Partial<NonNullable<ContainerRequirements["staging"]>>) =>
+    updateContainer({
+      staging: { ...container?.staging, ...changes } as ContainerRequirements["staging"],
+    });
+  const updateSuccession = (changes: Partial<SuccessionProtocol>) =>
+    onChange({
+      ...draft,
+      protocols: {
+        ...draft.protocols,
+        succession: { ...succession, ...changes } as SuccessionProtocol,
+      },
+    });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <h3 className="text-lg font-medium text-foreground">Soil Mixture</h3>
+        <p className="text-sm text-muted-foreground">Components by percentage, adding up to 100%.</p>
+        <EntriesEditor
+          entries={soilMixture?.components ?? {}}
+          onChange={(components) => updateSoil({ components })}
+          blank={NaN}
+          nameLabel="Component"
+          valueLabel="%"
+          addLabel="Add component"
+        />
+        {error("soilMixture.components") && (
+          <p className="text-xs text-red-600">{error("soilMixture.components")}</p>
+        )}
+        <p className="text-sm text-muted-foreground">Amendments, with an amount per gallon or container.</p>
+        <EntriesEditor
+          entries={soilMixture?.amendments ?? {}}
+          onChange={(amendments) => updateSoil({ amendments })}
+          blank=""
+          nameLabel="Amendment"
+          valueLabel="Amount"
+          addLabel="Add amendment"
+        />
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-lg font-medium text-foreground">Container</h3>
+        <div className="grid grid-cols-3 gap-3">
+          <TextField
+            label="Depth"
+            placeholder='12" minimum'
+            value={container?.depth}
+            onChange={(depth) => updateContainer({ depth })}
+            error={error("container.depth")}
+          />
+          <TextField
+            label="Minimum size"
+            placeholder="5 gallon"
+            value={container?.minSize}
+            onChange={(minSize) => updateContainer({ minSize })}
+          />
+          <TextField
+            label="Drainage"
+            placeholder="Multiple holes"
+            value={container?.drainage}
+            onChange={(drainage) => updateContainer({ drainage })}
+          />
+          <TextField
+            label="Seedling container"
+            value={container?.staging?.seedling}
+            onChange={(seedling) => updateStaging({ seedling })}
+          />
+          <TextField
+            label="Intermediate container"
+            value={container?.staging?.intermediate}
+            onChange={(intermediate) => updateStaging({ intermediate })}
+          />
+          <TextField
+            label="Final container"
+            value={container?.staging?.final}
+            onChange={(final) => updateStaging({ final })}
+            error={error("container.staging.final")}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-lg font-medium text-foreground">Succession Planting</h3>
+        <div className="grid grid-cols-2 gap-3">
+          <NumberField
+            label="Days between plantings"
+            step={1}
+            value={succession?.interval}
+            onChange={(interval) => updateSuccession({ interval })}
+            error={error("succession.interval")}
+          />
+          <NumberField
+            label="Productive weeks"
+            step={1}
+            value={succession?.productiveWeeks}
+            onChange={(productiveWeeks) => updateSuccession({ productiveWeeks })}
+          />
+          <Field label="Method" error={error("succession.method")}>
+            <Select
+              value={succession?.method ?? ""}
+              onChange={(e) =>
+                updateSuccession({
+                  method: (e.target.value || undefined) as SuccessionProtocol["method"],
+                })
+              }
+            >
+              <option value="">Not set</option>
+              <option value="continuous">Continuous</option>
+              <option value="zoned">Zoned</option>
+              <option value="single">Single planting</option>
+            </Select>
+          </Field>
+          <Field label="Harvest method" error={error("succession.harvestMethod")}>
+            <Select
+              value={succession?.harvestMethod ?? ""}
+              onChange={(e) =>
+                updateSuccession({
+                  harvestMethod: (e.target.value || undefined) as SuccessionProtocol["harvestMethod"],
+                })
+              }
+            >
+              <option value="">Not set</option>
+              <option value="cut-and-come-again">Cut and come again</option>
+              <option value="single-harvest">Single harvest</option>
+              <option value="selective">Selective</option>
+            </Select>
+          </Field>
+        </div>
+        <LinesField
+          label="Succession notes"
+          value={succession?.notes}
+          onChange={(notes) => updateSuccession({ notes })}
+        />
+      </div>
+
+      <LinesField
+        label="Special requirements"
+        placeholder="One per line, e.g. Hand pollinate female flowers"
+        value={draft.protocols.specialRequirements}
+        onChange={(specialRequirements) =>
+          onChange({ ...draft, protocols: { ...draft.protocols, specialRequirements } })
+        }
+      />
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+// src/components/variety/LightingStep.tsx
+import {
+  DLI_UNIT,
+  PPFD_UNIT,
+  VarietyProtocolService,
+} from "@/services/varietyProtocolService";
+import {
+  LinesField,
+  NumberField,
+  StageSection,
+  TextField,
+  ValidatedStepProps,
+} from "./fields";
+import { getStageProtocol, withStageProtocol } from "@/utils/varietyDraft";
+
+export function LightingStep({ draft, onChange, errors }: ValidatedStepProps) {
+  const stages = VarietyProtocolService.getStages(draft);
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        PPFD in {PPFD_UNIT}, daily light integral (DLI) in {DLI_UNIT}, photoperiod in hours of
+        light per day.
+      </p>
+      {stages.map((stage) => {
+        const protocol = getStageProtocol(draft, "lighting", stage);
+        const update = (changes: Partial<NonNullable<typeof protocol>>) =>
+          onChange(withStageProtocol(draft, "lighting", stage, { ...protocol, ...changes }));
+        const ppfd = { ...protocol?.ppfd, unit: protocol?.ppfd?.unit ?? PPFD_UNIT };
+        const dli = { ...protocol?.dli, unit: protocol?.dli?.unit ?? DLI_UNIT };
+        const photoperiod = protocol?.photoperiod;
+        const error = (field: string) => errors[`protocols.lighting.${stage}.${field}`];
+
+        // The protocol types require min/max once a section exists; validation reports gaps
+        type Ppfd = NonNullable<NonNullable<typeof protocol>["ppfd"]>;
+        type Dli = NonNullable<NonNullable<typeof protocol>["dli"]>;
+        type Photoperiod = NonNullable<NonNullable<typeof protocol>["photoperiod"]>;
+
+        return (
+          <StageSection
+            key={stage}
+            stage={stage}
+            enabled={!!protocol}
+            onToggle={(enabled) =>
+              onChange(withStageProtocol(draft, "lighting", stage, enabled ? {} : undefined))
+            }
+          >
+            <div className="grid grid-cols-3 gap-3">
+              <NumberField
+                label="PPFD min"
+                value={ppfd.min}
+                onChange={(min) => update({ ppfd: { ...ppfd, min } as Ppfd })}
+                error={error("ppfd.min")}
+              />
+              <NumberField
+                label="PPFD max"
+                value={ppfd.max}
+                onChange={(max) => update({ ppfd: { ...ppfd, max } as Ppfd })}
+                error={error("ppfd.max")}
+              />
+              <NumberField
+                label="PPFD optimal"
+                value={ppfd.optimal}
+                onChange={(optimal) => update({ ppfd: { ...ppfd, optimal } as Ppfd })}
+              />
+              <NumberField
+                label="Photoperiod (hours)"
+                value={photoperiod?.hours}
+                onChange={(hours) => update({ photoperiod: { ...photoperiod, hours } as Photoperiod })}
+                error={error("photoperiod.hours")}
+              />
+              <NumberField
+                label="Min hours"
+                value={photoperiod?.minHours}
+                onChange={(minHours) =>
+                  update({ photoperiod: { ...photoperiod, minHours } as Photoperiod })
+                }
+                error={error("photoperiod.minHours")}
+              />
+              <NumberField
+                label="Max hours"
+                value={photoperiod?.maxHours}
+                onChange={(maxHours) =>
+                  update({ photoperiod: { ...photoperiod, maxHours } as Photoperiod })
+                }
+                error={error("photoperiod.maxHours")}
+              />
+              <NumberField
+                label="DLI min"
+                value={dli.min}
+                onChange={(min) => update({ dli: { ...dli, min } as Dli })}
+                error={error("dli.min")}
+              />
+              <NumberField
+                label="DLI max"
+                value={dli.max}
+                onChange={(max) => update({ dli: { ...dli, max } as Dli })}
+                error={error("dli.max")}
+              />
+            </div>
+            <TextField
+              label="Photoperiod constraint"
+              placeholder="Short-day plant: keep under 12 hours to flower"
+              value={photoperiod?.constraint}
+              onChange={(constraint) =>
+                update({ photoperiod: { ...photoperiod, constraint } as Photoperiod })
+              }
+            />
+            <LinesField label="Notes" value={protocol?.notes} onChange={(notes) => update({ notes })} />
+          </StageSection>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+// src/components/variety/ReviewStep.tsx
+import { useEffect, useState } from "react";
+import { Logger } from "@/utils/logger";
+import {
+  ProtocolIssue,
+  ProtocolTaskPreview,
+  VarietyInput,
+  VarietyProtocolService,
+} from "@/services/varietyProtocolService";
+import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
+import { formatStageName } from "@/utils/varietyDraft";
+
+interface ReviewStepProps {
+  variety: VarietyInput | null;
+  issues: ProtocolIssue[];
+}
+
+const PROTOCOL_SECTIONS = [
+  ["watering", "Watering"],
+  ["fertilization", "Fertilization"],
+  ["lighting", "Lighting"],
+  ["environment", "Environment"],
+  ["soilMixture", "Soil mixture"],
+  ["container", "Container"],
+  ["succession", "Succession planting"],
+  ["specialRequirements", "Special requirements"],
+] as const;
+
+export function ReviewStep({ variety, issues }: ReviewStepProps) {
+  const [preview, setPreview] = useState<ProtocolTaskPreview[] | null>(null);
+
+  useEffect(() => {
+    if (!variety) {
+      setPreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    VarietyProtocolService.previewTasks(variety)
+      .then((tasks) => {
+        if (!cancelled) setPreview(tasks);
+      })
+      .catch((error) => {
+        Logger.error("Failed to preview protocol tasks:", error);
+        if (!cancelled) setPreview([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [variety]);
+
+  if (!variety) {
+    return (
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-red-600">Fix these before saving:</p>
+        <ul className="list-disc pl-5 text-sm text-red-600 space-y-1">
+          {issues.map((issue) => (
+            <li key={`${issue.path}:${issue.message}`}>
+              <span className="font-mono text-xs">{issue.path || "variety"}</span>: {issue.message}
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+
+  const configured = PROTOCOL_SECTIONS.filter(([key]) => variety.protocols?.[key]);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-medium text-foreground">{variety.name}</h3>
+        <p className="text-sm text-muted-foreground">
+          {variety.growthTimeline.maturation} days to maturity ·{" "}
+          {configured.length > 0
+            ? configured.map(([, label]) => label).join(", ")
+            : "Category default care"}
+        </p>
+      </div>
+
+      <div>
+        <h4 className="font-medium text-foreground mb-2">Scheduled tasks for a plant started today</h4>
+        {preview === null ? (
+          <LoadingSpinner size="sm" />
+        ) : preview.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No fertilization tasks. Add a feeding schedule to have tasks created when plants are
+            registered.
+          </p>
+        ) : (
+          <ul className="divide-y divide-border text-sm max-h-72 overflow-y-auto">
+            {preview.map(({ day, stage, task }) => (
+              <li key={task.id} className="py-2 flex gap-3">
+                <span className="w-16 shrink-0 font-medium text-foreground">Day {day}</span>
+                <span className="flex-1">
+                  <span className="text-foreground">{task.taskName}</span>
+                  <span className="block text-xs text-muted-foreground">
+                    {formatStageName(stage)} · {task.details.product}
+                    {task.details.dilution && ` · ${task.details.dilution}`}
+                  </span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+// src/components/variety/WateringStep.tsx
+import { Button } from "@/components/ui/Button";
+import { VarietyProtocolService } from "@/services/varietyProtocolService";
+import {
+  StageSection,
+  TextField,
+  ValidatedStepProps,
+} from "./fields";
+import { getStageProtocol, withStageProtocol } from "@/utils/varietyDraft";
+
+const moistureText = (level: string | number | undefined) =>
+  level === undefined ? undefined : String(level);
+
+export function WateringStep({ draft, onChange, errors }: ValidatedStepProps) {
+  const stages = VarietyProtocolService.getStages(draft);
+
+  const copyToAllStages = (from: (typeof stages)[number]) => {
+    const protocol = getStageProtocol(draft, "watering", from);
+    onChange(
+      stages.reduce(
+        (next, stage) => withStageProtocol(next, "watering", stage, protocol && { ...protocol }),
+        draft
+      )
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        💡 Most plants prefer watering when a moisture meter reads 3-4, then watering until it
+        reaches 6-8. Levels can also be described, like "top inch dry".
+      </p>
+      {stages.map((stage) => {
+        const protocol = getStageProtocol(draft, "watering", stage);
+        const update = (changes: Partial<NonNullable<typeof protocol>>) =>
+          onChange(withStageProtocol(draft, "watering", stage, { ...protocol, ...changes }));
+        const error = (field: string) => errors[`protocols.watering.${stage}.${field}`];
+
+        return (
+          <StageSection
+            key={stage}
+            stage={stage}
+            enabled={!!protocol}
+            onToggle={(enabled) =>
+              onChange(withStageProtocol(draft, "watering", stage, enabled ? {} : undefined))
+            }
+          >
+            <div className="grid grid-cols-2 gap-3">
+              <TextField
+                label="Water when moisture is"
+                placeholder="3-4"
+                value={moistureText(protocol?.trigger?.moistureLevel)}
+                onChange={(moistureLevel) => update({ trigger: { ...protocol?.trigger, moistureLevel } })}
+                error={error("trigger.moistureLevel")}
+              />
+              <TextField
+                label="Water until moisture is"
+                placeholder="6-7"
+                value={moistureText(protocol?.target?.moistureLevel)}
+                onChange={(moistureLevel) => update({ target: { ...protocol?.target, moistureLevel } })}
+                error={error("target.moistureLevel")}
+              />
+              <TextField
+                label="Amount"
+                placeholder="4-6 oz"
+                value={moistureText(protocol?.volume?.amount)}
+                onChange={(amount) => update({ volume: { ...protocol?.volume, amount } })}
+                error={error("volume.amount")}
+              />
+              <TextField
+                label="Frequency"
+                placeholder="every 2-3 days"
+                value={protocol?.volume?.frequency}
+                onChange={(frequency) => update({ volume: { ...protocol?.volume, frequency } })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={protocol?.volume?.perPlant ?? false}
+                  onChange={(e) =>
+                    update({ volume: { ...protocol?.volume, perPlant: e.target.checked || undefined } })
+                  }
+                />
+                Amount is per plant
+              </label>
+              <Button type="button" size="sm" variant="ghost" onClick={() => copyToAllStages(stage)}>
+                Use for all stages
+              </Button>
+            </div>
+          </StageSection>
+        );
+      })}
+    </div>
+  );
+}
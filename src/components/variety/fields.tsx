@@ -0,0 +1,132 @@
+// src/components/variety/fields.tsx
+import React from "react";
+import { GrowthStage } from "@/types";
+import { VarietyDraft } from "@/services/varietyProtocolService";
+import { formatStageName } from "@/utils/varietyDraft";
+
+export interface StepProps {
+  draft: VarietyDraft;
+  onChange: (draft: VarietyDraft) => void;
+}
+
+/**
+ * Step props with the draft's validation messages, keyed by issue path
+ */
+export interface ValidatedStepProps extends StepProps {
+  errors: Record<string, string>;
+}
+
+const inputClassName =
+  "w-full p-2 border border-border rounded-md bg-background text-foreground text-sm focus:ring-2 focus:ring-garden-500";
+
+interface FieldProps {
+  label: string;
+  hint?: string;
+  error?: string;
+  children: React.ReactNode;
+}
+
+export function Field({ label, hint, error, children }: FieldProps) {
+  return (
+    <label className="block text-sm">
+      <span className="block font-medium text-foreground mb-1">{label}</span>
+      {children}
+      {hint && !error && <span className="block text-xs text-muted-foreground mt-1">{hint}</span>}
+      {error && <span className="block text-xs text-red-600 mt-1">{error}</span>}
+    </label>
+  );
+}
+
+interface NumberFieldProps extends Omit<FieldProps, "children"> {
+  value: number | undefined;
+  onChange: (value: number | undefined) => void;
+  step?: number;
+  placeholder?: string;
+}
+
+export function NumberField({ value, onChange, step, placeholder, ...field }: NumberFieldProps) {
+  return (
+    <Field {...field}>
+      <input
+        type="number"
+        step={step ?? "any"}
+        value={value === undefined || Number.isNaN(value) ? "" : value}
+        placeholder={placeholder}
+        onChange={(e) => onChange(e.target.value === "" ? undefined : Number(e.target.value))}
+        className={inputClassName}
+      />
+    </Field>
+  );
+}
+
+/**
+ * A select styled like the other step fields
+ */
+export function Select({ className, ...props }: React.SelectHTMLAttributes<HTMLSelectElement>) {
+  return <select className={className ?? inputClassName} {...props} />;
+}
+
+interface TextFieldProps extends Omit<FieldProps, "children"> {
+  value: string | undefined;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}
+
+export function TextField({ value, onChange, placeholder, ...field }: TextFieldProps) {
+  return (
+    <Field {...field}>
+      <input
+        value={value ?? ""}
+        placeholder={placeholder}
+        onChange={(e) => onChange(e.target.value)}
+        className={inputClassName}
+      />
+    </Field>
+  );
+}
+
+interface LinesFieldProps extends Omit<FieldProps, "children"> {
+  value: string[] | undefined;
+  onChange: (value: string[]) => void;
+  placeholder?: string;
+}
+
+/**
+ * A list of short notes, one per line
+ */
+export function LinesField({ value, onChange, placeholder, ...field }: LinesFieldProps) {
+  return (
+    <Field {...field}>
+      <textarea
+        rows={3}
+        value={(value ?? []).join("\n")}
+        placeholder={placeholder}
+        onChange={(e) => onChange(e.target.value.split("\n"))}
+        className={inputClassName}
+      />
+    </Field>
+  );
+}
+
+interface StageToggleProps {
+  stage: GrowthStage;
+  enabled: boolean;
+  onToggle: (enabled: boolean) => void;
+  children: React.ReactNode;
+}
+
+/**
+ * One growth stage's section of a per-stage protocol, switched on when the
+ * variety needs something specific for that stage
+ */
+export function StageSection({ stage, enabled, onToggle, children }: StageToggleProps) {
+  return (
+    <div className="border border-border rounded-lg p-3 space-y-3">
+      <label className="flex items-center gap-2 font-medium text-foreground">
+        <input type="checkbox" checked={enabled} onChange={(e) => onToggle(e.target.checked)} />
+        {formatStageName(stage)}
+      </label>
+      {enabled && children}
+    </div>
+  );
+}
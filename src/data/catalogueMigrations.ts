@@ -0,0 +1,46 @@
+// src/data/catalogueMigrations.ts
+
+/**
+ * A change to the built-in variety catalogue that existing installations
+ * need to pick up. Installations seeded before a migration's version
+ * re-sync the listed varieties (by name) from seedVarieties.
+ *
+ * To ship a correction: edit seedVarieties, then append a migration with the
+ * next version number listing the varieties you changed or added.
+ */
+export interface CatalogueMigration {
+  version: number;
+  description: string;
+  /** Names of the changed or added varieties; omit to re-sync the whole catalogue */
+  varieties?: string[];
+}
+
+export const catalogueMigrations: CatalogueMigration[] = [
+  {
+    version: 2,
+    description: "Re-sync installations seeded before the catalogue was versioned",
+  },
+  {
+    version: 3,
+    description:
+      "Keep root development, budding, flowering and dormancy stages from seed timelines and protocols",
+    varieties: [
+      "Boston Pickling Cucumber",
+      "Sugar Snap Peas",
+      "Albion Strawberries",
+      "Caroline Raspberries",
+      "Little Finger Carrots",
+      "Detroit Dark Red Beets",
+      "Beauregard Sweet Potatoes",
+      "Red Rose",
+      "Tulip",
+      "Sunflower",
+    ],
+  },
+];
+
+/** Version 1 is the catalogue as it was seeded before migrations existed */
+export const SEED_CATALOGUE_VERSION = Math.max(
+  1,
+  ...catalogueMigrations.map((migration) => migration.version)
+);
@@ -7,40 +7,19 @@ import {
   StageSpecificWateringProtocol,
   StageSpecificFertilizationProtocol,
   StageSpecificLightingProtocol,
-  GrowthStage
+  PlantCategory
 } from "@/types";
 import { generateUUID } from "@/utils/cn";
-
-// Stage name mapping (moved from seedData.ts)
-const stageNameMapping: { [key: string]: GrowthStage } = {
-  germination: "germination",
-  germinationEmergence: "germination",
-  slipProduction: "germination",
-  seedling: "seedling",
-  establishment: "seedling",
-  vegetative: "vegetative",
-  vegetativeGrowth: "vegetative",
-  vegetativeVining: "vegetative",
-  rootDevelopment: "vegetative",
-  flowering: "flowering",
-  flowerBudFormation: "flowering",
-  fruiting: "fruiting",
-  fruitingHarvesting: "fruiting",
-  podSetMaturation: "fruiting",
-  maturation: "maturation",
-  tuberDevelopment: "maturation",
-  ongoing: "ongoing-production",
-  ongoingProduction: "ongoing-production",
-  harvest: "harvest",
-};
+import { StageEngine } from "@/utils/stageEngine";
 
 // Protocol conversion functions (moved from seedData.ts)
 const convertWateringProtocol = (
-  wateringProtocol: StageSpecificWateringProtocol
+  wateringProtocol: StageSpecificWateringProtocol,
+  category: PlantCategory
 ): VarietyProtocols["watering"] => {
   const result: Partial<VarietyProtocols["watering"]> = {};
   for (const [stage, stageData] of Object.entries(wateringProtocol)) {
-    const canonicalStage = stageNameMapping[stage];
+    const canonicalStage = StageEngine.resolveStageName(stage, category);
     if (canonicalStage && stageData) {
       result[canonicalStage] = stageData;
     }
@@ -49,11 +28,12 @@ const convertWateringProtocol = (
 };
 
 const convertFertilizationProtocol = (
-  fertilizationProtocol: StageSpecificFertilizationProtocol
+  fertilizationProtocol: StageSpecificFertilizationProtocol,
+  category: PlantCategory
 ): VarietyProtocols["fertilization"] => {
   const result: Partial<VarietyProtocols["fertilization"]> = {};
   for (const [stage, stageData] of Object.entries(fertilizationProtocol)) {
-    const canonicalStage = stageNameMapping[stage];
+    const canonicalStage = StageEngine.resolveStageName(stage, category);
     if (canonicalStage && stageData) {
       result[canonicalStage] = stageData;
     }
@@ -62,11 +42,12 @@ const convertFertilizationProtocol = (
 };
 
 const convertLightingProtocol = (
-  lightingProtocol: StageSpecificLightingProtocol
+  lightingProtocol: StageSpecificLightingProtocol,
+  category: PlantCategory
 ): VarietyProtocols["lighting"] => {
   const result: Partial<VarietyProtocols["lighting"]> = {};
   for (const [stage, stageData] of Object.entries(lightingProtocol)) {
-    const canonicalStage = stageNameMapping[stage];
+    const canonicalStage = StageEngine.resolveStageName(stage, category);
     if (canonicalStage && stageData) {
       result[canonicalStage] = stageData;
     }
@@ -74,11 +55,45 @@ const convertLightingProtocol = (
   return result as VarietyProtocols["lighting"];
 };
 
-// Convert SeedVariety to VarietyRecord format
-const convertSeedVarietyToVarietyRecord = (
+// Timeline entries that stand in for maturation when a variety has none, in order of preference
+const MATURATION_STAND_INS = [
+  "maturation",
+  "fruiting",
+  "fruitingHarvesting",
+  "podSetMaturation",
+  "floweringFruiting",
+  "ongoing",
+  "tuberDevelopment",
+];
+
+const INTERMEDIATE_STAGES = ["budding", "flowering", "fruiting", "dormancy"] as const;
+type IntermediateStage = (typeof INTERMEDIATE_STAGES)[number];
+
+// Budding, flowering, fruiting and dormancy durations, where the seed timeline has them
+const getIntermediateStages = (
+  variety: SeedVariety,
+  maturationKey: string | undefined
+): Partial<Pick<GrowthTimeline, IntermediateStage>> => {
+  const stages: Partial<Pick<GrowthTimeline, IntermediateStage>> = {};
+  for (const [name, days] of Object.entries(variety.growthTimeline)) {
+    if (name === maturationKey) continue;
+    const stage = StageEngine.resolveStageName(name, variety.category);
+    if (INTERMEDIATE_STAGES.includes(stage as IntermediateStage)) {
+      const key = stage as IntermediateStage;
+      stages[key] = (stages[key] ?? 0) + days;
+    }
+  }
+  return stages;
+};
+
+// Convert SeedVariety to VarietyRecord format (also used for imported variety files)
+export const convertSeedVarietyToVarietyRecord = (
   variety: SeedVariety
 ): VarietyRecord => {
   const timelineData = variety.growthTimeline;
+  const maturationKey = MATURATION_STAND_INS.find(
+    (name) => timelineData[name] !== undefined
+  );
 
   const growthTimeline: GrowthTimeline = {
     germination:
@@ -92,29 +107,23 @@ const convertSeedVarietyToVarietyRecord = (
       timelineData.vegetativeGrowth ??
       timelineData.vegetativeVining ??
       21,
-    maturation:
-      timelineData.maturation ??
-      timelineData.fruiting ??
-      timelineData.fruitingHarvesting ??
-      timelineData.podSetMaturation ??
-      timelineData.floweringFruiting ??
-      timelineData.ongoing ??
-      timelineData.tuberDevelopment ??
-      60,
-    rootDevelopment: timelineData.rootDevelopment ?? 14,
+    maturation: maturationKey ? timelineData[maturationKey] : 60,
+    rootDevelopment:
+      timelineData.rootDevelopment ?? timelineData.tuberDevelopment ?? 14,
+    ...getIntermediateStages(variety, maturationKey),
   };
 
   let protocols: VarietyProtocols | undefined;
   if (variety.protocols) {
     protocols = {
       watering: variety.protocols.watering
-        ? convertWateringProtocol(variety.protocols.watering)
+        ? convertWateringProtocol(variety.protocols.watering, variety.category)
         : undefined,
       fertilization: variety.protocols.fertilization
-        ? convertFertilizationProtocol(variety.protocols.fertilization)
+        ? convertFertilizationProtocol(variety.protocols.fertilization, variety.category)
         : undefined,
       lighting: variety.protocols.lighting
-        ? convertLightingProtocol(variety.protocols.lighting)
+        ? convertLightingProtocol(variety.protocols.lighting, variety.category)
         : undefined,
       environment: variety.protocols.environment,
       soilMixture: variety.protocols.soilMixture,
@@ -0,0 +1,178 @@
+// src/data/pestDiseaseCatalog.ts
+
+import { AffectedPlantPart, IssueCategory } from "@/types";
+
+export interface PestDiseaseEntry {
+  id: string;
+  name: string;
+  category: IssueCategory;
+  commonParts: AffectedPlantPart[];
+  signs: string;
+  // Whether plants sharing a container or bed should be warned
+  spreadsToNeighbors: boolean;
+  // Days after a treatment to look again; each becomes a follow-up task
+  reinspectAfterDays: number[];
+}
+
+/**
+ * Common problems for the crops in seedVarieties, for structured issue
+ * logging. Treatments are logged against an issue rather than listed here.
+ */
+export const pestDiseaseCatalog: PestDiseaseEntry[] = [
+  // --- Pests ---
+  {
+    id: "aphids",
+    name: "Aphids",
+    category: "pest",
+    commonParts: ["leaves", "stems", "flowers"],
+    signs: "Clusters of small soft-bodied insects on new growth; sticky honeydew; curled leaves.",
+    spreadsToNeighbors: true,
+    reinspectAfterDays: [3, 7],
+  },
+  {
+    id: "spider-mites",
+    name: "Spider mites",
+    category: "pest",
+    commonParts: ["leaves"],
+    signs: "Fine stippling on leaves, fine webbing on undersides, bronzed foliage.",
+    spreadsToNeighbors: true,
+    reinspectAfterDays: [3, 7, 14],
+  },
+  {
+    id: "fungus-gnats",
+    name: "Fungus gnats",
+    category: "pest",
+    commonParts: ["roots"],
+    signs: "Small dark flies around the soil surface; larvae in the top inch of damp soil.",
+    spreadsToNeighbors: true,
+    reinspectAfterDays: [7, 14],
+  },
+  {
+    id: "whiteflies",
+    name: "Whiteflies",
+    category: "pest",
+    commonParts: ["leaves"],
+    signs: "Tiny white insects fly up when foliage is disturbed; yellowing leaves; honeydew.",
+    spreadsToNeighbors: true,
+    reinspectAfterDays: [3, 7],
+  },
+  {
+    id: "thrips",
+    name: "Thrips",
+    category: "pest",
+    commonParts: ["leaves", "flowers", "fruit"],
+    signs: "Silvery streaks and black specks on leaves; distorted flowers.",
+    spreadsToNeighbors: true,
+    reinspectAfterDays: [3, 7],
+  },
+  {
+    id: "slugs-snails",
+    name: "Slugs & snails",
+    category: "pest",
+    commonParts: ["leaves", "fruit"],
+    signs: "Irregular holes in leaves and fruit; slime trails.",
+    spreadsToNeighbors: false,
+    reinspectAfterDays: [2, 5],
+  },
+  {
+    id: "caterpillars",
+    name: "Caterpillars",
+    category: "pest",
+    commonParts: ["leaves", "fruit"],
+    signs: "Chewed leaves, frass (droppings) on foliage.",
+    spreadsToNeighbors: false,
+    reinspectAfterDays: [3, 7],
+  },
+  // --- Diseases ---
+  {
+    id: "powdery-mildew",
+    name: "Powdery mildew",
+    category: "disease",
+    commonParts: ["leaves", "stems"],
+    signs: "White powdery patches on leaf surfaces, starting on older leaves.",
+    spreadsToNeighbors: true,
+    reinspectAfterDays: [5, 10],
+  },
+  {
+    id: "downy-mildew",
+    name: "Downy mildew",
+    category: "disease",
+    commonParts: ["leaves"],
+    signs: "Yellow patches on top of leaves with grey-purple fuzz underneath.",
+    spreadsToNeighbors: true,
+    reinspectAfterDays: [3, 7],
+  },
+  {
+    id: "botrytis",
+    name: "Botrytis (grey mould)",
+    category: "disease",
+    commonParts: ["flowers", "fruit", "stems"],
+    signs: "Fuzzy grey mould on flowers, fruit or damaged stems.",
+    spreadsToNeighbors: true,
+    reinspectAfterDays: [3, 7],
+  },
+  {
+    id: "damping-off",
+    name: "Damping off",
+    category: "disease",
+    commonParts: ["stems", "whole-plant"],
+    signs: "Seedlings collapse at the soil line with thin, water-soaked stems.",
+    spreadsToNeighbors: true,
+    reinspectAfterDays: [2, 5],
+  },
+  {
+    id: "root-rot",
+    name: "Root rot",
+    category: "disease",
+    commonParts: ["roots", "whole-plant"],
+    signs: "Wilting despite moist soil; brown, mushy roots.",
+    spreadsToNeighbors: false,
+    reinspectAfterDays: [5, 10],
+  },
+  {
+    id: "leaf-spot",
+    name: "Leaf spot",
+    category: "disease",
+    commonParts: ["leaves"],
+    signs: "Brown or black spots, often with a yellow halo.",
+    spreadsToNeighbors: true,
+    reinspectAfterDays: [5, 10],
+  },
+  // --- Disorders ---
+  {
+    id: "blossom-end-rot",
+    name: "Blossom end rot",
+    category: "disorder",
+    commonParts: ["fruit"],
+    signs: "Dark sunken patch at the blossom end of fruit; linked to uneven watering.",
+    spreadsToNeighbors: false,
+    reinspectAfterDays: [7],
+  },
+  {
+    id: "nutrient-deficiency",
+    name: "Nutrient deficiency",
+    category: "disorder",
+    commonParts: ["leaves"],
+    signs: "Yellowing between veins, purple tints or pale new growth.",
+    spreadsToNeighbors: false,
+    reinspectAfterDays: [7, 14],
+  },
+  {
+    id: "tip-burn",
+    name: "Tip burn",
+    category: "disorder",
+    commonParts: ["leaves"],
+    signs: "Brown, crisp leaf edges, common in lettuce and strawberries.",
+    spreadsToNeighbors: false,
+    reinspectAfterDays: [7],
+  },
+  {
+    id: "other",
+    name: "Other / unidentified",
+    category: "disorder",
+    commonParts: [],
+    signs: "Anything not listed; describe it in the notes.",
+    spreadsToNeighbors: false,
+    reinspectAfterDays: [3, 7],
+  },
+];
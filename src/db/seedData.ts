@@ -1,6 +1,7 @@
 // src/db/seedData.ts
 import { db } from "@/types/database";
 import { getVarietiesForDatabase } from "@/data";
+import { SeedCatalogueService } from "@/services/seedCatalogueService";
 
 export let isDatabaseInitialized = false;
 export const resetDatabaseInitializationFlag = () => {
@@ -15,7 +16,15 @@ export const initializeDatabase = async (): Promise<void> => {
   try {
     const existingCount = await db.varieties.count();
     if (existingCount > 0) {
-      console.log("✅ Database already seeded.");
+      // Corrections and new built-in varieties reach existing installations here
+      const update = await SeedCatalogueService.migrate();
+      if (update) {
+        console.log(
+          `✅ Seed catalogue migrated to version ${update.toVersion}: ${update.added.length} added, ${update.updated.length} updated`
+        );
+      } else {
+        console.log("✅ Database already seeded.");
+      }
       isDatabaseInitialized = true;
       return;
     }
@@ -26,6 +35,7 @@ export const initializeDatabase = async (): Promise<void> => {
     const varietyRecords = await getVarietiesForDatabase();
 
     await db.varieties.bulkAdd(varietyRecords);
+    SeedCatalogueService.markSeeded();
 
     isDatabaseInitialized = true;
     console.log(`✅ Successfully seeded ${varietyRecords.length} varieties`);
@@ -1,8 +1,18 @@
 // src/hooks/useAppInitialization.ts
 import { useEffect } from "react";
 import { initializeDatabase } from "@/db/seedData";
+import { useFirebaseAuth } from "./useFirebaseAuth";
+import { FirebaseCareActivityService } from "@/services/firebase/careActivityService";
+import { FirebaseBedService } from "@/services/firebase/bedService";
+import { syncOutbox } from "./useOutbox";
+
+const UNIT_MIGRATION_KEY = "measurementUnitsMigrated";
+const BED_MIGRATION_KEY = "localBedsMigrated";
 
 export function useAppInitialization() {
+  const { user } = useFirebaseAuth();
+  const userId = user?.uid;
+
   useEffect(() => {
     const initializeApp = async () => {
       try {
@@ -16,4 +26,45 @@ export function useAppInitialization() {
 
     initializeApp();
   }, []);
+
+  // One-time fix for care activities saved with unit strings like "liters"
+  useEffect(() => {
+    if (!userId) return;
+    const migrationKey = `${UNIT_MIGRATION_KEY}:${userId}`;
+    if (localStorage.getItem(migrationKey)) return;
+
+    FirebaseCareActivityService.migrateMeasurementUnits(userId)
+      .then((count) => {
+        localStorage.setItem(migrationKey, new Date().toISOString());
+        if (count > 0) console.log(`✅ Normalized units on ${count} care activities`);
+      })
+      .catch((error) => {
+        console.error("❌ Failed to migrate care activity units:", error);
+      });
+  }, [userId]);
+
+  // One-time copy of beds created on this device before beds were in Firestore
+  useEffect(() => {
+    if (!userId) return;
+    const migrationKey = `${BED_MIGRATION_KEY}:${userId}`;
+    if (localStorage.getItem(migrationKey)) return;
+
+    FirebaseBedService.migrateLocalBeds(userId)
+      .then((count) => {
+        localStorage.setItem(migrationKey, new Date().toISOString());
+        if (count > 0) console.log(`✅ Copied ${count} beds to Firestore`);
+      })
+      .catch((error) => {
+        console.error("❌ Failed to migrate local beds:", error);
+      });
+  }, [userId]);
+
+  // Replay writes queued while offline, now and whenever the connection returns
+  useEffect(() => {
+    if (!userId) return;
+    if (navigator.onLine) syncOutbox();
+
+    window.addEventListener("online", syncOutbox);
+    return () => window.removeEventListener("online", syncOutbox);
+  }, [userId]);
 }
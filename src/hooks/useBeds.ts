@@ -0,0 +1,86 @@
+// src/hooks/useBeds.ts
+import { useCallback, useEffect, useState } from "react";
+import { useActiveGarden } from "./useGardens";
+import { FirebaseBedService } from "@/services/firebase/bedService";
+import { getBedService } from "@/services/serviceRegistry";
+import { BedRecord, bedService } from "@/types/database";
+import { Logger } from "@/utils/logger";
+
+/**
+ * Active beds in the current garden, live from Firestore while signed in (and
+ * cached locally for offline use), or from this device's Dexie table while
+ * signed out
+ */
+export function useBeds() {
+  const { gardenId } = useActiveGarden();
+  const [beds, setBeds] = useState<BedRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Dexie has no subscription here, so local writes bump this to reload
+  const [localVersion, setLocalVersion] = useState(0);
+
+  const loadLocalBeds = useCallback(async () => {
+    try {
+      setBeds(await bedService.getActiveBeds());
+    } catch (err) {
+      Logger.error("Failed to load local beds:", err);
+      setError(err instanceof Error ? err.message : "Failed to load beds");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!gardenId) {
+      loadLocalBeds();
+      return;
+    }
+
+    return FirebaseBedService.subscribeToUserBeds(
+      gardenId,
+      (userBeds) => {
+        setBeds(userBeds);
+        setLoading(false);
+        setError(null);
+        bedService.putBeds(userBeds).catch((err) => {
+          Logger.warn("Failed to cache beds locally", err);
+        });
+      },
+      (err) => {
+        setError(err.message);
+        loadLocalBeds();
+      }
+    );
+  }, [gardenId, localVersion, loadLocalBeds]);
+
+  const reloadIfLocal = useCallback(() => {
+    if (!gardenId) setLocalVersion((version) => version + 1);
+  }, [gardenId]);
+
+  const addBed = useCallback(
+    async (bed: Omit<BedRecord, "id" | "createdAt" | "updatedAt">) => {
+      const bedId = await getBedService().addBed(bed);
+      reloadIfLocal();
+      return bedId;
+    },
+    [reloadIfLocal]
+  );
+
+  const updateBed = useCallback(
+    async (bedId: string, updates: Partial<Omit<BedRecord, "id" | "createdAt">>) => {
+      await getBedService().updateBed(bedId, updates);
+      reloadIfLocal();
+    },
+    [reloadIfLocal]
+  );
+
+  const archiveBed = useCallback(
+    async (bedId: string) => {
+      await getBedService().deleteBed(bedId);
+      reloadIfLocal();
+    },
+    [reloadIfLocal]
+  );
+
+  return { beds, loading, error, addBed, updateBed, archiveBed };
+}
@@ -0,0 +1,52 @@
+// src/hooks/useCalendarFeedExport.ts
+import { useState, useCallback } from "react";
+import { addDays, startOfDay } from "date-fns";
+import { useActiveGarden } from "./useGardens";
+import { FirebaseCareActivityService } from "@/services/firebase/careActivityService";
+import { FirebasePlantService } from "@/services/firebase/plantService";
+import { FirebaseScheduledTaskService } from "@/services/firebase/scheduledTaskService";
+import { FirebaseCareSchedulingService } from "@/services/firebaseCareSchedulingService";
+import { CalendarFeedService } from "@/services/calendarFeedService";
+import { downloadTextFile } from "@/utils/download";
+
+// How far ahead projected watering is written into the file
+const WATERING_PROJECTION_DAYS = 30;
+
+/**
+ * Downloads pending protocol tasks and projected watering as an .ics file.
+ */
+export function useCalendarFeedExport() {
+  const { gardenId } = useActiveGarden();
+  const [exporting, setExporting] = useState(false);
+
+  const exportIcs = useCallback(async (): Promise<number> => {
+    if (!gardenId) throw new Error("You need to be signed in");
+
+    setExporting(true);
+    try {
+      const [plants, tasks] = await Promise.all([
+        FirebasePlantService.getAllPlantsForUser(gardenId),
+        FirebaseScheduledTaskService.getAllTasksForUser(gardenId),
+      ]);
+      const today = startOfDay(new Date());
+      const projectedTasks = await FirebaseCareSchedulingService.getProjectedTasks(
+        plants.filter((plant) => plant.isActive),
+        (plantId, type) => FirebaseCareActivityService.getLastActivityByType(plantId, gardenId, type),
+        today,
+        addDays(today, WATERING_PROJECTION_DAYS)
+      );
+
+      const scheduledTasks = tasks.filter((task) => task.status === "pending");
+      downloadTextFile(
+        CalendarFeedService.buildIcs({ scheduledTasks, projectedTasks, plants }),
+        CalendarFeedService.getFileName(),
+        "text/calendar;charset=utf-8"
+      );
+      return scheduledTasks.length;
+    } finally {
+      setExporting(false);
+    }
+  }, [gardenId]);
+
+  return { exporting, exportIcs };
+}
@@ -0,0 +1,116 @@
+// src/hooks/useCareCalendar.ts
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { differenceInCalendarDays } from "date-fns";
+import toast from "react-hot-toast";
+import { useActiveGarden } from "./useGardens";
+import { useFirebasePlants } from "./useFirebasePlants";
+import { useScheduledTasks } from "./useScheduledTasks";
+import { useProactiveStageAlerts } from "./useProactiveStageAlerts";
+import { FirebaseCareSchedulingService } from "@/services/firebaseCareSchedulingService";
+import { FirebaseCareActivityService } from "@/services/firebase/careActivityService";
+import { FirebaseScheduledTaskService } from "@/services/firebase/scheduledTaskService";
+import { CareCalendarService, CalendarEvent } from "@/services/careCalendarService";
+import { UpcomingTask } from "@/types";
+
+/**
+ * Everything the calendar shows for a date range: scheduled protocol tasks,
+ * projected recurring care and predicted stage transitions.
+ */
+export function useCareCalendar(rangeStart: Date, rangeEnd: Date) {
+  const { gardenId } = useActiveGarden();
+  const { plants, loading: plantsLoading } = useFirebasePlants();
+  const { tasks: scheduledTasks, loading: tasksLoading, error } = useScheduledTasks();
+  const [projectedTasks, setProjectedTasks] = useState<UpcomingTask[]>([]);
+  const [projecting, setProjecting] = useState(true);
+  const [refreshKey, setRefreshKey] = useState(0);
+  // Drops that are saving, so the task moves before the snapshot arrives
+  const [pendingMoves, setPendingMoves] = useState<Record<string, Date>>({});
+
+  const startTime = rangeStart.getTime();
+  const endTime = rangeEnd.getTime();
+  const lookaheadDays = Math.max(2, differenceInCalendarDays(rangeEnd, new Date()));
+  const { alerts, isLoading: alertsLoading } = useProactiveStageAlerts(lookaheadDays);
+
+  useEffect(() => {
+    const handleActivityLogged = () => setRefreshKey((key) => key + 1);
+    window.addEventListener("care-activity-logged", handleActivityLogged);
+    return () => window.removeEventListener("care-activity-logged", handleActivityLogged);
+  }, []);
+
+  useEffect(() => {
+    if (!gardenId || plantsLoading) return;
+
+    let cancelled = false;
+    setProjecting(true);
+
+    FirebaseCareSchedulingService.getProjectedTasks(
+      plants.filter((plant) => plant.isActive),
+      (plantId, type) => FirebaseCareActivityService.getLastActivityByType(plantId, gardenId, type),
+      new Date(startTime),
+      new Date(endTime)
+    )
+      .then((tasks) => {
+        if (!cancelled) setProjectedTasks(tasks);
+      })
+      .finally(() => {
+        if (!cancelled) setProjecting(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [gardenId, plants, plantsLoading, startTime, endTime, refreshKey]);
+
+  const events = useMemo(
+    () =>
+      CareCalendarService.buildEvents(
+        {
+          scheduledTasks: scheduledTasks.map((task) =>
+            pendingMoves[task.id] ? { ...task, dueDate: pendingMoves[task.id] } : task
+          ),
+          projectedTasks,
+          stageTransitions: alerts,
+          plants,
+        },
+        new Date(startTime),
+        new Date(endTime)
+      ),
+    [scheduledTasks, pendingMoves, projectedTasks, alerts, plants, startTime, endTime]
+  );
+
+  const reschedule = useCallback(
+    async (event: CalendarEvent, day: Date) => {
+      const task = scheduledTasks.find((candidate) => candidate.id === event.taskId);
+      if (!task || !event.draggable) return;
+      const dueDate = CareCalendarService.moveToDay(event.date, day);
+      if (dueDate.getTime() === event.date.getTime()) return;
+
+      const taskId = task.id;
+      setPendingMoves((moves) => ({ ...moves, [taskId]: dueDate }));
+      try {
+        await FirebaseScheduledTaskService.deferTask(
+          task,
+          dueDate,
+          { kind: "reschedule", reason: "Moved on the calendar" },
+          scheduledTasks
+        );
+      } catch {
+        toast.error("Failed to reschedule task");
+      } finally {
+        setPendingMoves((moves) => {
+          const next = { ...moves };
+          delete next[taskId];
+          return next;
+        });
+      }
+    },
+    [scheduledTasks]
+  );
+
+  return {
+    events,
+    loading: plantsLoading || tasksLoading || projecting || alertsLoading,
+    error,
+    reschedule,
+  };
+}
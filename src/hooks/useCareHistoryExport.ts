@@ -0,0 +1,57 @@
+// src/hooks/useCareHistoryExport.ts
+import { useState, useCallback } from "react";
+import { startOfDay, endOfDay } from "date-fns";
+import { useActiveGarden } from "./useGardens";
+import { FirebaseCareActivityService } from "@/services/firebase/careActivityService";
+import { FirebasePlantService } from "@/services/firebase/plantService";
+import {
+  CareHistoryExportFilter,
+  CareHistoryExportService,
+} from "@/services/careHistoryExportService";
+import { db } from "@/types/database";
+import { downloadTextFile } from "@/utils/download";
+
+/**
+ * Downloads the user's care history as CSV. Activities are fetched fresh from
+ * Firestore so the export isn't limited to what a page has subscribed to.
+ */
+export function useCareHistoryExport() {
+  const { gardenId } = useActiveGarden();
+  const [exporting, setExporting] = useState(false);
+
+  const exportCsv = useCallback(
+    async (filter: CareHistoryExportFilter): Promise<number> => {
+      if (!gardenId) throw new Error("You need to be signed in");
+
+      setExporting(true);
+      try {
+        const [activities, plants, beds] = await Promise.all([
+          filter.startDate && filter.endDate
+            ? FirebaseCareActivityService.getUserActivitiesInRange(
+                gardenId,
+                startOfDay(filter.startDate),
+                endOfDay(filter.endDate)
+              )
+            : FirebaseCareActivityService.getAllActivitiesForUser(gardenId),
+          FirebasePlantService.getAllPlantsForUser(gardenId),
+          db.beds.toArray(),
+        ]);
+
+        const rows = CareHistoryExportService.filterActivities(activities, filter);
+        const plant = plants.find((p) => p.id === filter.plantId);
+        // The byte order mark makes Excel read the file as UTF-8
+        downloadTextFile(
+          `\uFEFF${CareHistoryExportService.buildCsv(rows, plants, beds)}`,
+          CareHistoryExportService.getFileName(filter, plant),
+          "text/csv;charset=utf-8"
+        );
+        return rows.length;
+      } finally {
+        setExporting(false);
+      }
+    },
+    [gardenId]
+  );
+
+  return { exporting, exportCsv };
+}
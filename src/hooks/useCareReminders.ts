@@ -0,0 +1,262 @@
+// src/hooks/useCareReminders.ts
+import { useCallback, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import toast from "react-hot-toast";
+import { useFirebaseAuth } from "./useFirebaseAuth";
+import { useActiveGarden } from "./useGardens";
+import {
+  CareReminder,
+  CareReminderService,
+  ReminderAction,
+  ReminderDigest,
+} from "@/services/careReminderService";
+import { FirebaseCareSchedulingService } from "@/services/firebaseCareSchedulingService";
+import { FirebaseCareActivityService } from "@/services/firebase/careActivityService";
+import { FirebasePlantService } from "@/services/firebase/plantService";
+import { FirebaseScheduledTaskService } from "@/services/firebase/scheduledTaskService";
+import { DynamicSchedulingService } from "@/services/dynamicSchedulingService";
+import { UserSettingsService } from "@/services/userSettingsService";
+import { CareActivityDetails, CareActivityType } from "@/types";
+
+const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+// Notification actions aren't in the TypeScript DOM lib yet
+type ReminderNotificationOptions = NotificationOptions & {
+  actions?: { action: ReminderAction; title: string }[];
+};
+
+export const canShowNotifications = () =>
+  typeof window !== "undefined" && "Notification" in window;
+
+async function showDigest(digest: ReminderDigest): Promise<void> {
+  const options: ReminderNotificationOptions = {
+    body: digest.body,
+    tag: digest.tag,
+    icon: "/vite.svg",
+    actions: [
+      {
+        action: "mark-done",
+        title: digest.reminders.length === 1 ? "Mark done" : "Mark all done",
+      },
+      { action: "snooze", title: "Snooze" },
+    ],
+  };
+
+  const registration = await navigator.serviceWorker?.getRegistration();
+  if (registration) {
+    await registration.showNotification(digest.title, options);
+    return;
+  }
+
+  // Without a service worker (e.g. in development) actions aren't supported
+  const notification = new Notification(digest.title, {
+    body: digest.body,
+    tag: digest.tag,
+  });
+  notification.onclick = () => window.focus();
+}
+
+/**
+ * Runs the care reminder digest while the app is open and handles the
+ * "mark done" and "snooze" actions forwarded by the service worker.
+ */
+export function useCareReminders() {
+  const { user } = useFirebaseAuth();
+  const navigate = useNavigate();
+  const { gardenId, loggedBy } = useActiveGarden();
+  const userId = user?.uid;
+
+  const checkReminders = useCallback(async () => {
+    if (
+      !userId ||
+      !gardenId ||
+      !canShowNotifications() ||
+      Notification.permission !== "granted"
+    ) {
+      return;
+    }
+
+    // Wait for the user's saved settings so a disabled digest is never sent
+    const userSettings = UserSettingsService.getCurrent();
+    if (userSettings.id !== userId) return;
+
+    const settings = userSettings.notifications;
+    const state = CareReminderService.loadState();
+    if (!CareReminderService.shouldSendDigest(settings, state)) return;
+
+    try {
+      const plants = (await FirebasePlantService.getAllPlantsForUser(gardenId)).filter(
+        (plant) => plant.isActive
+      );
+      const [upcomingTasks, scheduledTasks] = await Promise.all([
+        FirebaseCareSchedulingService.getUpcomingTasks(plants, (plantId, type) =>
+          FirebaseCareActivityService.getLastActivityByType(plantId, gardenId, type)
+        ),
+        FirebaseScheduledTaskService.getAllTasksForUser(gardenId),
+      ]);
+
+      const digest = CareReminderService.buildDigest(
+        CareReminderService.applyNotificationSettings(
+          CareReminderService.collectReminders(upcomingTasks, scheduledTasks, plants),
+          settings
+        )
+      );
+      if (!digest) {
+        if (state.snoozedUntil) {
+          CareReminderService.saveState({ ...state, snoozedUntil: undefined });
+        }
+        return;
+      }
+
+      await showDigest(digest);
+      CareReminderService.saveState(CareReminderService.recordDigestSent(digest));
+    } catch (error) {
+      console.error("Failed to check care reminders:", error);
+    }
+  }, [userId, gardenId]);
+
+  // Progress is saved to the digest as each step succeeds, so a retry after a
+  // partial failure picks up where it stopped
+  const completeReminders = useCallback(
+    async (reminders: CareReminder[]) => {
+      if (!userId || !gardenId) return;
+      const completedAt = new Date();
+
+      for (const reminder of reminders) {
+        const details: CareActivityDetails =
+          reminder.taskType === "fertilize" && reminder.details?.type === "fertilize"
+            ? {
+                type: "fertilize",
+                product: reminder.details.product,
+                dilution: reminder.details.dilution,
+                amount: reminder.details.amount,
+                applicationMethod: reminder.details.method,
+                notes: `Completed from reminder: ${reminder.taskName}`,
+              }
+            : {
+                type: reminder.taskType as CareActivityType,
+                notes: `Completed from reminder: ${reminder.taskName}`,
+              };
+
+        for (const plantId of reminder.plantIds) {
+          const activityId = await FirebaseCareActivityService.createCareActivity(
+            { plantId, type: reminder.taskType, date: completedAt, details, loggedBy },
+            userId,
+            gardenId
+          );
+          CareReminderService.saveState(
+            CareReminderService.markPlantDone(
+              CareReminderService.loadState(),
+              reminder.id,
+              plantId
+            )
+          );
+          await DynamicSchedulingService.recordTaskCompletion(
+            plantId,
+            reminder.taskType,
+            reminder.dueDate,
+            completedAt,
+            activityId,
+            reminder.plantStage
+          );
+        }
+
+        if (reminder.source === "scheduled") {
+          await FirebaseScheduledTaskService.updateTaskStatus(reminder.taskId, "completed");
+        }
+        CareReminderService.saveState(
+          CareReminderService.markReminderDone(CareReminderService.loadState(), reminder.id)
+        );
+      }
+
+      window.dispatchEvent(
+        new CustomEvent("care-activity-logged", {
+          detail: { timestamp: Date.now(), source: "care-reminder" },
+        })
+      );
+    },
+    [userId, gardenId, loggedBy]
+  );
+
+  const handleAction = useCallback(
+    async (action: ReminderAction, tag: string) => {
+      const state = CareReminderService.loadState();
+      const digest = state.lastDigest;
+
+      if (action === "open" || !digest || digest.tag !== tag) {
+        navigate("/");
+        return;
+      }
+
+      if (action === "snooze") {
+        const settings = UserSettingsService.getCurrent().notifications;
+        CareReminderService.saveState(CareReminderService.snooze(state, settings));
+        toast.success(`Reminder snoozed for ${settings.snoozeMinutes} minutes`);
+        return;
+      }
+
+      try {
+        await completeReminders(digest.reminders);
+        CareReminderService.saveState({
+          ...CareReminderService.loadState(),
+          lastDigest: undefined,
+        });
+        toast.success(
+          digest.reminders.length === 1
+            ? `${digest.reminders[0].taskName} marked done`
+            : `${digest.reminders.length} tasks marked done`
+        );
+      } catch (error) {
+        console.error("Failed to complete reminder tasks:", error);
+        toast.error("Failed to mark tasks done");
+      }
+    },
+    [completeReminders, navigate]
+  );
+
+  // Actions from a notification clicked while the app was closed arrive in the URL
+  useEffect(() => {
+    if (!userId) return;
+    const params = new URLSearchParams(window.location.search);
+    const action = params.get("reminderAction") as ReminderAction | null;
+    const tag = params.get("reminderTag");
+    if (!action || !tag) return;
+
+    navigate(window.location.pathname, { replace: true });
+    handleAction(action, tag);
+  }, [userId, handleAction, navigate]);
+
+  useEffect(() => {
+    const serviceWorker = navigator.serviceWorker;
+    if (!serviceWorker) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === "care-reminder-action") {
+        handleAction(event.data.action, event.data.tag);
+      }
+    };
+
+    serviceWorker.addEventListener("message", handleMessage);
+    return () => serviceWorker.removeEventListener("message", handleMessage);
+  }, [handleAction]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    checkReminders();
+    const interval = setInterval(checkReminders, CHECK_INTERVAL_MS);
+    const handleVisibility = () => {
+      if (document.visibilityState === "visible") checkReminders();
+    };
+    document.addEventListener("visibilitychange", handleVisibility);
+    const unsubscribeSettings = UserSettingsService.subscribe(() => checkReminders());
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", handleVisibility);
+      unsubscribeSettings();
+    };
+  }, [userId, checkReminders]);
+
+  return { checkReminders };
+}
@@ -0,0 +1,64 @@
+// src/hooks/useCatalogueUpdate.ts
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useFirebaseAuth } from "./useFirebaseAuth";
+import { useFirebasePlants } from "./useFirebasePlants";
+import { FirebasePlantService } from "@/services/firebase/plantService";
+import {
+  CATALOGUE_UPDATED_EVENT,
+  CatalogueUpdate,
+  SeedCatalogueService,
+} from "@/services/seedCatalogueService";
+
+/**
+ * The pending built-in catalogue update and the plants whose schedules
+ * were generated from the protocols it replaced
+ */
+export function useCatalogueUpdate() {
+  const { user } = useFirebaseAuth();
+  const { plants } = useFirebasePlants();
+  const [update, setUpdate] = useState<CatalogueUpdate | null>(() =>
+    SeedCatalogueService.getPendingUpdate()
+  );
+  const [regenerating, setRegenerating] = useState(false);
+
+  // The migration runs during app start-up, possibly after this mounts
+  useEffect(() => {
+    const refresh = () => setUpdate(SeedCatalogueService.getPendingUpdate());
+    window.addEventListener(CATALOGUE_UPDATED_EVENT, refresh);
+    return () => window.removeEventListener(CATALOGUE_UPDATED_EVENT, refresh);
+  }, []);
+
+  const affectedPlants = useMemo(
+    () => (update ? SeedCatalogueService.getAffectedPlants(plants, update) : []),
+    [plants, update]
+  );
+
+  const dismiss = useCallback(() => SeedCatalogueService.dismissUpdate(), []);
+
+  /**
+   * Regenerates every affected plant's pending tasks, then clears the report.
+   * Returns how many plants failed; the report stays if any did.
+   */
+  const regenerateSchedules = useCallback(async () => {
+    if (!user) return 0;
+
+    setRegenerating(true);
+    let failed = 0;
+    try {
+      for (const plant of affectedPlants) {
+        try {
+          await FirebasePlantService.regenerateTasksForPlant(plant, user.uid);
+        } catch (error) {
+          failed++;
+          console.error(`Failed to regenerate tasks for plant ${plant.id}:`, error);
+        }
+      }
+      if (failed === 0) SeedCatalogueService.dismissUpdate();
+      return failed;
+    } finally {
+      setRegenerating(false);
+    }
+  }, [user, affectedPlants]);
+
+  return { update, affectedPlants, regenerating, regenerateSchedules, dismiss };
+}
@@ -1,6 +1,6 @@
 // src/hooks/useCatchUpData.ts
 import { useState, useEffect, useCallback } from "react";
-import { useFirebaseAuth } from "./useFirebaseAuth";
+import { useActiveGarden } from "./useGardens";
 import { useFirebasePlants } from "./useFirebasePlants";
 import {
   CatchUpAnalysisService,
@@ -31,11 +31,11 @@ export const useCatchUpData = ({
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const { user } = useFirebaseAuth();
+  const { gardenId } = useActiveGarden();
   const { plants, loading: plantsLoading } = useFirebasePlants();
 
   const fetchOpportunities = useCallback(async () => {
-    if (!enabled || !user?.uid || plantsLoading) {
+    if (!enabled || !gardenId || plantsLoading) {
       setLoading(false);
       return;
     }
@@ -51,7 +51,7 @@ export const useCatchUpData = ({
         allOpportunities =
           await CatchUpAnalysisService.findAllMissedOpportunitiesForUser(
             targetPlants,
-            user.uid
+            gardenId
           );
       } else if (plantId && plants) {
         const plant = plants.find((p) => p.id === plantId);
@@ -59,7 +59,7 @@ export const useCatchUpData = ({
           allOpportunities =
             await CatchUpAnalysisService.findMissedOpportunitiesWithUserId(
               plantId,
-              user.uid,
+              gardenId,
               14,
               plant
             );
@@ -68,7 +68,7 @@ export const useCatchUpData = ({
         allOpportunities =
           await CatchUpAnalysisService.findAllMissedOpportunitiesForUser(
             plants,
-            user.uid
+            gardenId
           );
       }
 
@@ -81,7 +81,7 @@ export const useCatchUpData = ({
     } finally {
       setLoading(false);
     }
-  }, [enabled, plantId, plantIds, user?.uid, plants, plantsLoading]);
+  }, [enabled, plantId, plantIds, gardenId, plants, plantsLoading]);
 
   useEffect(() => {
     fetchOpportunities();
@@ -1,6 +1,6 @@
 // src/hooks/useCatchUpSummary.ts
 import { useState, useEffect, useCallback } from "react";
-import { useFirebaseAuth } from "./useFirebaseAuth";
+import { useActiveGarden } from "./useGardens";
 import { useFirebasePlants } from "./useFirebasePlants";
 import { CatchUpAnalysisService } from "@/services/CatchUpAnalysisService";
 
@@ -18,11 +18,11 @@ export const useCatchUpSummary = (): CatchUpSummary => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const { user } = useFirebaseAuth();
+  const { gardenId } = useActiveGarden();
   const { plants, loading: plantsLoading } = useFirebasePlants();
 
   const loadCatchUpData = useCallback(async () => {
-    if (!plants || !user?.uid || plantsLoading) {
+    if (!plants || !gardenId || plantsLoading) {
       setTotalOpportunities(0);
       setPlantsNeedingCatchUp(0);
       setLoading(false);
@@ -40,7 +40,7 @@ export const useCatchUpSummary = (): CatchUpSummary => {
         const opportunities =
           await CatchUpAnalysisService.findMissedOpportunitiesWithUserId(
             plant.id,
-            user.uid,
+            gardenId,
             14,
             plant
           );
@@ -61,7 +61,7 @@ export const useCatchUpSummary = (): CatchUpSummary => {
     } finally {
       setLoading(false);
     }
-  }, [plants, user?.uid, plantsLoading]);
+  }, [plants, gardenId, plantsLoading]);
 
   useEffect(() => {
     loadCatchUpData();
@@ -1,40 +1,51 @@
 import { CareActivityRecord } from "@/types/database";
 import { FirebaseCareActivityService } from "../services/firebase/careActivityService";
 import { useFirebaseResource } from "./useFirebaseResource";
+import { useActiveGarden } from "./useGardens";
+import { GardenService } from "@/services/gardenService";
 
 interface CareActivitiesParams {
   plantId: string;
   userUid: string;
+  gardenId: string;
 }
 
 export function useFirebaseCareActivities(plantId?: string) {
+  const { gardenId } = useActiveGarden();
   const result = useFirebaseResource<CareActivityRecord, CareActivitiesParams, typeof FirebaseCareActivityService>({
     serviceName: "care activities",
     service: FirebaseCareActivityService,
     subscriptionMethod: "subscribeToPlantActivities",
-    subscriptionParams: (user, plantId) => ({
+    subscriptionParams: (user, plantId, gardenId) => ({
       plantId: plantId || "",
       userUid: user?.uid || "",
+      gardenId: gardenId || "",
     }),
-    validateParams: ({ plantId, userUid }) => {
+    validateParams: ({ plantId, userUid, gardenId }) => {
       if (
         !plantId ||
         typeof plantId !== "string" ||
         !userUid ||
-        typeof userUid !== "string"
+        typeof userUid !== "string" ||
+        !gardenId
       ) {
         return false;
       }
       return true;
     },
-    getDependencies: ({ plantId, userUid }) => [plantId, userUid],
+    getDependencies: ({ plantId, gardenId }) => [plantId, gardenId],
     crudOperations: {
       create: {
         method: "createCareActivity",
-        transform: (activity, user) => [activity, user.uid],
+        // Shared gardens show who logged each activity
+        transform: (activity, user) => [
+          { ...activity, loggedBy: activity.loggedBy ?? GardenService.getAttribution(user) },
+          user.uid,
+          gardenId,
+        ],
       },
     },
-  }, plantId);
+  }, plantId, gardenId);
 
   return {
     activities: result.data,
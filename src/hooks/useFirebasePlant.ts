@@ -3,6 +3,7 @@ import { useState, useEffect } from 'react';
 import { PlantRecord } from '@/types';
 import { FirebasePlantService } from '@/services/firebase/plantService';
 import { useFirebaseAuth } from './useFirebaseAuth';
+import { useActiveGarden } from './useGardens';
 import { Logger } from '@/utils/logger';
 
 interface UseFirebasePlantOptions {
@@ -24,6 +25,7 @@ interface UseFirebasePlantResult {
 export const useFirebasePlant = (options: UseFirebasePlantOptions = {}): UseFirebasePlantResult => {
   const { plantId, autoFetch = true, cacheTime = 5 * 60 * 1000 } = options;
   const { user } = useFirebaseAuth();
+  const { gardenId } = useActiveGarden();
   
   const [plant, setPlant] = useState<PlantRecord | null>(null);
   const [plants, setPlants] = useState<PlantRecord[]>([]);
@@ -46,13 +48,13 @@ export const useFirebasePlant = (options: UseFirebasePlantOptions = {}): UseFire
   };
 
   const fetchPlant = async (id: string): Promise<void> => {
-    if (!user) return;
+    if (!user || !gardenId) return;
     
     try {
       setIsLoading(true);
       setError(null);
       
-      const plantData = await FirebasePlantService.getPlant(id, user.uid);
+      const plantData = await FirebasePlantService.getPlant(id, gardenId);
       setPlant(plantData);
       setLastFetch(Date.now());
       
@@ -143,7 +145,7 @@ export const useFirebasePlant = (options: UseFirebasePlantOptions = {}): UseFire
     } else {
       fetchPlants();
     }
-  }, [user, plantId, autoFetch]);
+  }, [user, gardenId, plantId, autoFetch]);
 
   return {
     plant,
@@ -1,32 +1,36 @@
 import { PlantRecord } from "../types/database";
 import { FirebasePlantService } from "../services/firebase/plantService";
 import { useFirebaseResource } from "./useFirebaseResource";
+import { useActiveGarden } from "./useGardens";
 
 interface PlantsParams {
   includeInactive: boolean;
   userUid: string;
+  gardenId: string;
 }
 
 export function useFirebasePlants(includeInactive = false) {
+  const { gardenId } = useActiveGarden();
   const result = useFirebaseResource<PlantRecord, PlantsParams, typeof FirebasePlantService>({
     serviceName: "plants",
     service: FirebasePlantService,
     subscriptionMethod: "subscribeToPlantsChanges",
-    subscriptionParams: (user, includeInactive) => ({
+    subscriptionParams: (user, includeInactive, gardenId) => ({
       includeInactive,
       userUid: user?.uid || "",
+      gardenId: gardenId || "",
     }),
-    validateParams: ({ userUid }) => {
-      if (!userUid || typeof userUid !== "string") {
+    validateParams: ({ userUid, gardenId }) => {
+      if (!userUid || typeof userUid !== "string" || !gardenId) {
         return false;
       }
       return true;
     },
-    getDependencies: ({ userUid, includeInactive }) => [userUid, includeInactive],
+    getDependencies: ({ gardenId, includeInactive }) => [gardenId, includeInactive],
     crudOperations: {
       create: {
         method: "createPlant",
-        transform: (plant, user) => [plant, user.uid],
+        transform: (plant, user) => [plant, user.uid, gardenId],
       },
       update: {
         method: "updatePlant",
@@ -37,7 +41,7 @@ export function useFirebasePlants(includeInactive = false) {
         transform: (id) => [id],
       },
     },
-  }, includeInactive);
+  }, includeInactive, gardenId);
 
   return {
     plants: result.data,
@@ -112,10 +112,10 @@ export function useFirebaseResource<T, P, ServiceType>(
       let unsubscribe: () => void;
       
       if (config.serviceName === "plants") {
-        // FirebasePlantService.subscribeToPlantsChanges(userUid, callback, options)
+        // FirebasePlantService.subscribeToPlantsChanges(gardenId, callback, options)
         unsubscribe = subscriptionMethod.call(
           service, 
-          (subscriptionParams as any).userUid, 
+          (subscriptionParams as any).gardenId, 
           (newData: T[]) => {
             Logger.service(config.serviceName, `Received ${newData.length} items`);
             setData(newData);
@@ -125,11 +125,11 @@ export function useFirebaseResource<T, P, ServiceType>(
           { includeInactive: (subscriptionParams as any).includeInactive }
         );
       } else if (config.serviceName === "care activities") {
-        // FirebaseCareActivityService.subscribeToPlantActivities(plantId, userUid, callback)
+        // FirebaseCareActivityService.subscribeToPlantActivities(plantId, gardenId, callback)
         unsubscribe = subscriptionMethod.call(
           service,
           (subscriptionParams as any).plantId,
-          (subscriptionParams as any).userUid,
+          (subscriptionParams as any).gardenId,
           (newData: T[]) => {
             Logger.service(config.serviceName, `Received ${newData.length} items`);
             setData(newData);
@@ -1,6 +1,6 @@
 // src/hooks/useFirstTimeUser.ts
 import { useState, useEffect } from "react";
-import { plantService } from "@/types/database";
+import { getPlantService } from "@/services/serviceRegistry";
 
 export const useFirstTimeUser = () => {
   const [isFirstTime, setIsFirstTime] = useState<boolean | null>(null);
@@ -10,7 +10,7 @@ export const useFirstTimeUser = () => {
     const checkFirstTimeUser = async () => {
       try {
         // Check if user has any plants
-        const plants = await plantService.getActivePlants();
+        const plants = await getPlantService().getActivePlants();
 
         // Check if user has completed onboarding (you could store this in localStorage)
         const hasCompletedOnboarding = localStorage.getItem(
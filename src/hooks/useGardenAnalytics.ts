@@ -0,0 +1,61 @@
+// src/hooks/useGardenAnalytics.ts
+import { useState, useEffect } from "react";
+import { useActiveGarden } from "./useGardens";
+import { FirebaseCareActivityService } from "@/services/firebase/careActivityService";
+import { db } from "@/types/database";
+import { CareActivityRecord, TaskCompletionRecord } from "@/types";
+
+/**
+ * Loads the raw data behind the Analytics page: the user's Firestore care
+ * activities in the date range and the locally recorded task completions.
+ */
+export function useGardenAnalytics(startDate: Date, endDate: Date) {
+  const [activities, setActivities] = useState<CareActivityRecord[]>([]);
+  const [completions, setCompletions] = useState<TaskCompletionRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { gardenId } = useActiveGarden();
+
+  const startTime = startDate.getTime();
+  const endTime = endDate.getTime();
+
+  useEffect(() => {
+    if (!gardenId) {
+      setActivities([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    Promise.all([
+      FirebaseCareActivityService.getUserActivitiesInRange(
+        gardenId,
+        new Date(startTime),
+        new Date(endTime)
+      ),
+      db.taskCompletions.toArray(),
+    ])
+      .then(([userActivities, taskCompletions]) => {
+        if (cancelled) return;
+        setActivities(userActivities);
+        setCompletions(taskCompletions);
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error("Failed to load analytics data:", err);
+        setError(err instanceof Error ? err.message : "Failed to load analytics");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [gardenId, startTime, endTime]);
+
+  return { activities, completions, loading, error };
+}
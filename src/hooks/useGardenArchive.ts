@@ -0,0 +1,82 @@
+// src/hooks/useGardenArchive.ts
+import { useState, useCallback } from "react";
+import { useFirebaseAuth } from "./useFirebaseAuth";
+import { useActiveGarden } from "./useGardens";
+import {
+  GardenArchive,
+  GardenArchiveService,
+  ImportPlan,
+} from "@/services/gardenArchiveService";
+import {
+  FirebaseGardenArchiveService,
+  ImportResult,
+} from "@/services/firebase/gardenArchiveService";
+import { downloadTextFile } from "@/utils/download";
+
+export type ImportPreview =
+  | { success: true; archive: GardenArchive; plan: ImportPlan }
+  | { success: false; errors: string[] };
+
+/**
+ * Exports the signed-in user's garden as an archive file and imports one in
+ * two steps: `previewImport` builds the dry-run plan, `commitImport` writes it.
+ */
+export function useGardenArchive() {
+  const { user } = useFirebaseAuth();
+  const { gardenId } = useActiveGarden();
+  const [busy, setBusy] = useState(false);
+
+  const run = useCallback(
+    async <T>(task: (gardenId: string, userId: string) => Promise<T>) => {
+      if (!user?.uid || !gardenId) throw new Error("You need to be signed in");
+      setBusy(true);
+      try {
+        return await task(gardenId, user.uid);
+      } finally {
+        setBusy(false);
+      }
+    },
+    [user?.uid, gardenId]
+  );
+
+  const exportArchive = useCallback(
+    () =>
+      run(async (gardenId) => {
+        const data = await FirebaseGardenArchiveService.loadGarden(gardenId);
+        const archive = GardenArchiveService.buildArchive(data);
+        downloadTextFile(
+          GardenArchiveService.serializeArchive(archive),
+          GardenArchiveService.getArchiveFileName(archive.exportedAt),
+          "application/json"
+        );
+        return archive;
+      }),
+    [run]
+  );
+
+  const previewImport = useCallback(
+    (file: File) =>
+      run(async (gardenId): Promise<ImportPreview> => {
+        const parsed = GardenArchiveService.parseArchive(await file.text());
+        if (!parsed.success) return parsed;
+
+        const existing = await FirebaseGardenArchiveService.loadGarden(gardenId);
+        return {
+          success: true,
+          archive: parsed.archive,
+          plan: GardenArchiveService.planImport(parsed.archive, existing),
+        };
+      }),
+    [run]
+  );
+
+  const commitImport = useCallback(
+    (plan: ImportPlan): Promise<ImportResult> =>
+      run((gardenId, userId) =>
+        FirebaseGardenArchiveService.commitImport(plan, userId, gardenId)
+      ),
+    [run]
+  );
+
+  return { busy, exportArchive, previewImport, commitImport };
+}
@@ -0,0 +1,155 @@
+// src/hooks/useGardens.ts
+import { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from "react";
+import { useFirebaseAuth } from "./useFirebaseAuth";
+import { useUserSettings } from "./useUserSettings";
+import { FirebaseGardenService } from "@/services/firebase/gardenService";
+import { GardenService } from "@/services/gardenService";
+import { Garden, GardenInvite, GardenRole } from "@/types";
+import { Logger } from "@/utils/logger";
+
+const subscribe = (onChange: () => void) => GardenService.subscribe(onChange);
+const getSnapshot = () => GardenService.getGardens();
+
+/**
+ * Keeps the shared garden store in step with the gardens the user belongs to.
+ * Mounted once at the app root; components read them with useActiveGarden.
+ */
+export function useGardensSync() {
+  const { user } = useFirebaseAuth();
+
+  useEffect(() => {
+    if (!user) {
+      GardenService.reset();
+      return;
+    }
+
+    FirebaseGardenService.ensurePersonalGarden(user).catch((error) => {
+      Logger.error("Failed to create personal garden:", error);
+    });
+
+    return FirebaseGardenService.subscribeToUserGardens(user.uid, (gardens) =>
+      GardenService.apply(gardens)
+    );
+  }, [user]);
+}
+
+/**
+ * The garden the app is showing and what the signed-in user may do in it.
+ * Plants, beds, care activities and tasks are read and written in gardenId.
+ */
+export function useActiveGarden() {
+  const { user } = useFirebaseAuth();
+  // Subscribed so a garden picked in settings re-renders the caller
+  useUserSettings();
+  const gardens = useSyncExternalStore(subscribe, getSnapshot);
+  const userId = user?.uid;
+  const gardenId = GardenService.getActiveGardenId(userId);
+
+  return useMemo(() => {
+    const garden = gardens.find((candidate) => candidate.id === gardenId);
+    // A personal garden always belongs to its user, even before it has loaded
+    const role: GardenRole | null =
+      garden && userId
+        ? GardenService.getRole(garden, userId)
+        : userId && gardenId === GardenService.getPersonalGardenId(userId)
+          ? "owner"
+          : null;
+
+    return {
+      gardenId,
+      garden,
+      role,
+      canEdit: GardenService.canEdit(role),
+      loggedBy: user ? GardenService.getAttribution(user) : undefined,
+    };
+  }, [user, userId, gardenId, gardens]);
+}
+
+/**
+ * Switching gardens, invitations and membership management
+ */
+export function useGardens() {
+  const { user } = useFirebaseAuth();
+  const { updateSettings } = useUserSettings();
+  const gardens = useSyncExternalStore(subscribe, getSnapshot);
+  const active = useActiveGarden();
+  const [invites, setInvites] = useState<GardenInvite[]>([]);
+  const [sentInvites, setSentInvites] = useState<GardenInvite[]>([]);
+  const email = user?.email;
+  const activeGardenId = active.gardenId;
+  const canManageMembers = GardenService.canManageMembers(active.role);
+
+  useEffect(() => {
+    if (!email) {
+      setInvites([]);
+      return;
+    }
+    return FirebaseGardenService.subscribeToInvites(email, setInvites);
+  }, [email]);
+
+  useEffect(() => {
+    if (!activeGardenId || !canManageMembers) {
+      setSentInvites([]);
+      return;
+    }
+    return FirebaseGardenService.subscribeToGardenInvites(activeGardenId, setSentInvites);
+  }, [activeGardenId, canManageMembers]);
+
+  const switchGarden = useCallback(
+    (gardenId: string) => updateSettings({ activeGardenId: gardenId }),
+    [updateSettings]
+  );
+
+  const inviteMember = useCallback(
+    async (email: string, role: GardenInvite["role"]) => {
+      if (!user || !active.garden) throw new Error("User not authenticated");
+      await FirebaseGardenService.inviteMember(active.garden, email, role, user);
+    },
+    [user, active.garden]
+  );
+
+  const acceptInvite = useCallback(
+    async (invite: GardenInvite) => {
+      if (!user) throw new Error("User not authenticated");
+      await FirebaseGardenService.acceptInvite(invite, user);
+      await updateSettings({ activeGardenId: invite.gardenId });
+    },
+    [user, updateSettings]
+  );
+
+  const declineInvite = useCallback(
+    (invite: GardenInvite) => FirebaseGardenService.declineInvite(invite.id),
+    []
+  );
+
+  const cancelInvite = useCallback(
+    (invite: GardenInvite) => FirebaseGardenService.cancelInvite(invite.id),
+    []
+  );
+
+  const updateMemberRole = useCallback(
+    (garden: Garden, userId: string, role: Exclude<GardenRole, "owner">) =>
+      FirebaseGardenService.updateMemberRole(garden.id, userId, role),
+    []
+  );
+
+  const removeMember = useCallback(
+    (garden: Garden, userId: string) => FirebaseGardenService.removeMember(garden.id, userId),
+    []
+  );
+
+  return {
+    gardens,
+    ...active,
+    canManageMembers,
+    invites,
+    sentInvites,
+    switchGarden,
+    inviteMember,
+    acceptInvite,
+    declineInvite,
+    cancelInvite,
+    updateMemberRole,
+    removeMember,
+  };
+}
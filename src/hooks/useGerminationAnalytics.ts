@@ -0,0 +1,66 @@
+// src/hooks/useGerminationAnalytics.ts
+import { useEffect, useMemo, useState } from "react";
+import { useActiveGarden } from "./useGardens";
+import { FirebaseCareActivityService } from "@/services/firebase/careActivityService";
+import { FirebasePlantService } from "@/services/firebase/plantService";
+import { GerminationAnalyticsService } from "@/services/germinationAnalyticsService";
+import { CareActivityRecord, PlantRecord } from "@/types";
+
+/**
+ * Germination and survival rates across every planting the user has made,
+ * including inactive ones. Reloads whenever care is logged.
+ */
+export function useGerminationAnalytics() {
+  const { gardenId } = useActiveGarden();
+  const [plants, setPlants] = useState<PlantRecord[]>([]);
+  const [thinActivities, setThinActivities] = useState<CareActivityRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    const handleActivityLogged = () => setRefreshKey((key) => key + 1);
+    window.addEventListener("care-activity-logged", handleActivityLogged);
+    return () => window.removeEventListener("care-activity-logged", handleActivityLogged);
+  }, []);
+
+  useEffect(() => {
+    if (!gardenId) {
+      setPlants([]);
+      setThinActivities([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all([
+      FirebasePlantService.getAllPlantsForUser(gardenId),
+      FirebaseCareActivityService.getUserActivitiesByType(gardenId, "thin"),
+    ])
+      .then(([userPlants, activities]) => {
+        if (cancelled) return;
+        setPlants(userPlants);
+        setThinActivities(activities);
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error("Failed to load germination data:", err);
+        setError(err instanceof Error ? err.message : "Failed to load germination data");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [gardenId, refreshKey]);
+
+  const report = useMemo(
+    () => GerminationAnalyticsService.getReport(plants, thinActivities),
+    [plants, thinActivities]
+  );
+
+  return { report, loading, error };
+}
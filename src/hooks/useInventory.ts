@@ -0,0 +1,65 @@
+// src/hooks/useInventory.ts
+import { useCallback, useEffect, useState } from "react";
+import { useFirebaseAuth } from "./useFirebaseAuth";
+import {
+  FirebaseInventoryService,
+  InventoryItemInput,
+} from "@/services/firebase/inventoryService";
+import { InventoryItem } from "@/types";
+
+export function useInventory() {
+  const { user } = useFirebaseAuth();
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const userId = user?.uid;
+
+  useEffect(() => {
+    if (!userId) {
+      setItems([]);
+      setLoading(false);
+      return;
+    }
+
+    return FirebaseInventoryService.subscribeToUserInventory(
+      userId,
+      (userItems) => {
+        setItems(userItems);
+        setLoading(false);
+        setError(null);
+      },
+      (err) => {
+        setError(err.message);
+        setLoading(false);
+      }
+    );
+  }, [userId]);
+
+  const addItem = useCallback(
+    async (item: InventoryItemInput) => {
+      if (!userId) throw new Error("User not authenticated");
+      return FirebaseInventoryService.createItem(item, userId);
+    },
+    [userId]
+  );
+
+  const updateItem = useCallback(
+    (itemId: string, updates: Partial<InventoryItemInput>) =>
+      FirebaseInventoryService.updateItem(itemId, updates),
+    []
+  );
+
+  const deleteItem = useCallback(
+    (itemId: string) => FirebaseInventoryService.deleteItem(itemId),
+    []
+  );
+
+  // Starts a fresh container of the same size
+  const restockItem = useCallback(
+    (item: InventoryItem) =>
+      FirebaseInventoryService.updateItem(item.id, { remaining: item.containerSize }),
+    []
+  );
+
+  return { items, loading, error, addItem, updateItem, deleteItem, restockItem };
+}
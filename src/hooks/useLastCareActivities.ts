@@ -1,6 +1,6 @@
 // src/hooks/useLastCareActivities.ts
 import { useState, useEffect, useCallback } from "react";
-import { useFirebaseAuth } from "./useFirebaseAuth";
+import { useActiveGarden } from "./useGardens";
 import { FirebaseCareActivityService } from "@/services/firebase/careActivityService";
 import { CareRecord } from "@/types";
 
@@ -16,10 +16,10 @@ export function useLastCareActivities(plantId: string) {
   });
   const [loading, setLoading] = useState(true);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
-  const { user } = useFirebaseAuth();
+  const { gardenId } = useActiveGarden();
 
   useEffect(() => {
-    if (!user?.uid || !plantId) {
+    if (!gardenId || !plantId) {
       setLoading(false);
       return;
     }
@@ -29,7 +29,7 @@ export function useLastCareActivities(plantId: string) {
     // Use real-time subscription to get live updates
     const unsubscribe = FirebaseCareActivityService.subscribeToPlantActivities(
       plantId,
-      user.uid,
+      gardenId,
       (allActivities) => {
         // Find the most recent activity of each type
         const waterActivities = allActivities.filter(a => a.type === "water");
@@ -50,7 +50,7 @@ export function useLastCareActivities(plantId: string) {
     return () => {
       unsubscribe();
     };
-  }, [plantId, user?.uid, refreshTrigger]);
+  }, [plantId, gardenId, refreshTrigger]);
 
   const refetch = useCallback(() => {
     // Force a re-subscription by incrementing the refresh trigger
@@ -0,0 +1,54 @@
+// src/hooks/useOutbox.ts
+import { useCallback } from "react";
+import { useLiveQuery } from "dexie-react-hooks";
+import toast from "react-hot-toast";
+import {
+  FirebaseOutboxService,
+  OutboxReplayResult,
+} from "@/services/firebase/outboxService";
+
+const plural = (count: number) => `${count} offline change${count === 1 ? "" : "s"}`;
+
+const reportReplay = ({ applied, superseded, failed }: OutboxReplayResult) => {
+  if (applied > 0) toast.success(`Synced ${plural(applied)}`);
+  if (superseded > 0) {
+    toast(`Skipped ${plural(superseded)}: newer edits were already saved`, { icon: "⚠️" });
+  }
+  if (failed > 0) toast.error(`${plural(failed)} failed to sync`);
+};
+
+/**
+ * Replays writes queued while offline and toasts the outcome
+ */
+export async function syncOutbox(): Promise<void> {
+  try {
+    reportReplay(await FirebaseOutboxService.replay());
+  } catch (error) {
+    console.error("Failed to sync offline changes:", error);
+  }
+}
+
+/**
+ * Pending and failed offline writes, with actions to retry or drop failures
+ */
+export function useOutbox() {
+  const entries = useLiveQuery(() => FirebaseOutboxService.getEntries(), [], []);
+  const pendingCount = entries.filter((entry) => entry.status === "pending").length;
+  const failed = entries.filter((entry) => entry.status === "failed");
+
+  const retryFailed = useCallback(async () => {
+    try {
+      reportReplay(await FirebaseOutboxService.retryFailed());
+    } catch (error) {
+      console.error("Failed to retry offline changes:", error);
+      toast.error("Failed to retry offline changes");
+    }
+  }, []);
+
+  const discardFailed = useCallback(async () => {
+    await FirebaseOutboxService.discard(failed.map((entry) => entry.id));
+    toast.success(`Discarded ${plural(failed.length)}`);
+  }, [failed]);
+
+  return { pendingCount, failed, retryFailed, discardFailed };
+}
@@ -0,0 +1,125 @@
+// src/hooks/usePlantIssues.ts
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useFirebaseAuth } from "./useFirebaseAuth";
+import { useActiveGarden } from "./useGardens";
+import { useFirebasePlants } from "./useFirebasePlants";
+import { FirebaseCareActivityService } from "@/services/firebase/careActivityService";
+import { FirebaseScheduledTaskService } from "@/services/firebase/scheduledTaskService";
+import { PlantIssue, PlantIssueService } from "@/services/plantIssueService";
+import { CareActivityRecord } from "@/types";
+import { groupPlantsByConditions } from "@/utils/plantGrouping";
+
+/**
+ * A plant's pest/disease issues plus warnings about spreading issues on its
+ * container-mates. Reloads whenever care is logged.
+ */
+export function usePlantIssues(plantId?: string) {
+  const { user } = useFirebaseAuth();
+  const { plants } = useFirebasePlants();
+  const [issueActivities, setIssueActivities] = useState<CareActivityRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const { gardenId, loggedBy } = useActiveGarden();
+  const userId = user?.uid;
+
+  useEffect(() => {
+    const handleActivityLogged = () => setRefreshKey((key) => key + 1);
+    window.addEventListener("care-activity-logged", handleActivityLogged);
+    return () => window.removeEventListener("care-activity-logged", handleActivityLogged);
+  }, []);
+
+  useEffect(() => {
+    if (!gardenId) {
+      setIssueActivities([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    FirebaseCareActivityService.getUserActivitiesByType(gardenId, "issue")
+      .then((activities) => {
+        if (!cancelled) setIssueActivities(activities);
+      })
+      .catch((error) => console.error("Failed to load plant issues:", error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [gardenId, refreshKey]);
+
+  const issues = useMemo(
+    () =>
+      plantId
+        ? PlantIssueService.summarizeIssues(
+            issueActivities.filter((activity) => activity.plantId === plantId)
+          )
+        : [],
+    [issueActivities, plantId]
+  );
+
+  const containerMateWarnings = useMemo(
+    () =>
+      plantId
+        ? PlantIssueService.getContainerMateWarnings(
+            plantId,
+            groupPlantsByConditions(plants),
+            issueActivities
+          )
+        : [],
+    [plantId, plants, issueActivities]
+  );
+
+  const resolveIssue = useCallback(
+    async (issue: PlantIssue) => {
+      if (!userId || !gardenId) return;
+
+      await FirebaseCareActivityService.createCareActivity(
+        {
+          plantId: issue.plantId,
+          type: "issue",
+          date: new Date(),
+          details: {
+            type: "issue",
+            issue: {
+              issueId: issue.issueId,
+              catalogId: issue.catalogId,
+              name: issue.name,
+              category: issue.category,
+              affectedParts: issue.affectedParts,
+              severity: issue.severity,
+              spread: issue.spread,
+              status: "resolved",
+            },
+            notes: `Marked ${issue.name} resolved`,
+          },
+          loggedBy,
+        },
+        userId,
+        gardenId
+      );
+      await FirebaseScheduledTaskService.skipIssueFollowUps(gardenId, issue.plantId, issue.issueId);
+      window.dispatchEvent(
+        new CustomEvent("care-activity-logged", {
+          detail: {
+            plantId: issue.plantId,
+            activityType: "issue",
+            timestamp: Date.now(),
+            source: "plant-issues",
+          },
+        })
+      );
+    },
+    [userId, gardenId, loggedBy]
+  );
+
+  return {
+    issues,
+    openIssues: issues.filter((issue) => issue.status === "open"),
+    containerMateWarnings,
+    loading,
+    resolveIssue,
+  };
+}
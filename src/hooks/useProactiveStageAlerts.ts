@@ -4,7 +4,11 @@ import { useState, useEffect } from "react";
 import { useFirebasePlants } from "./useFirebasePlants";
 import { varietyService, PlantRecord } from "@/types/database";
 import { GrowthStage } from "@/types";
-import { estimateStageTransition, getNextStage } from "@/utils/growthStage";
+import {
+  calculateCurrentStageWithVariety,
+  estimateStageTransition,
+  getNextStage,
+} from "@/utils/growthStage";
 import { addDays, differenceInDays } from "date-fns";
 
 export interface StageAlert {
@@ -14,7 +18,11 @@ export interface StageAlert {
   daysUntilTransition: number;
 }
 
-export const useProactiveStageAlerts = (): {
+// By default only imminent transitions (within the next 2 days) are alerts;
+// the calendar asks for a longer window
+export const useProactiveStageAlerts = (
+  lookaheadDays = 2
+): {
   alerts: StageAlert[];
   isLoading: boolean;
 } => {
@@ -34,14 +42,17 @@ export const useProactiveStageAlerts = (): {
         const variety = await varietyService.getVariety(plant.varietyId);
         if (!variety) continue;
 
-        const currentStage = plant.confirmedStage || "germination"; // Assume germination if none confirmed
-        const nextStage = getNextStage(currentStage);
+        // Without a confirmed stage, go by where the timeline puts the plant
+        const currentStage =
+          plant.confirmedStage ||
+          calculateCurrentStageWithVariety(plant.plantedDate, variety);
+        const nextStage = getNextStage(currentStage, variety);
         if (!nextStage) continue;
 
         // 1. Get the originally expected date for the next transition
         const originalExpectedDate = estimateStageTransition(
           plant.plantedDate,
-          variety.growthTimeline,
+          variety,
           nextStage
         );
 
@@ -62,12 +73,12 @@ export const useProactiveStageAlerts = (): {
           );
         }
 
-        // 3. Check if the predicted transition is imminent (e.g., within the next 2 days)
+        // 3. Check if the predicted transition falls within the lookahead window
         const daysUntilTransition = differenceInDays(
           predictedTransitionDate,
           new Date()
         );
-        if (daysUntilTransition <= 2 && daysUntilTransition >= 0) {
+        if (daysUntilTransition <= lookaheadDays && daysUntilTransition >= 0) {
           potentialAlerts.push({
             plant,
             predictedNextStage: nextStage,
@@ -86,7 +97,7 @@ export const useProactiveStageAlerts = (): {
     };
 
     calculateAlerts();
-  }, [plants, plantsLoading]);
+  }, [plants, plantsLoading, lookaheadDays]);
 
   return { alerts, isLoading };
 };
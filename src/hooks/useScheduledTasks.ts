@@ -2,24 +2,24 @@
 import { useState, useEffect } from "react";
 import { FirebaseScheduledTaskService } from "../services/firebase/scheduledTaskService";
 import { ScheduledTask } from "../services/ProtocolTranspilerService";
-import { useFirebaseAuth } from "./useFirebaseAuth";
+import { useActiveGarden } from "./useGardens";
 import { addDays } from "date-fns";
 
 export function useScheduledTasks() {
   const [tasks, setTasks] = useState<ScheduledTask[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const { user } = useFirebaseAuth();
+  const { gardenId } = useActiveGarden();
 
   useEffect(() => {
-    if (!user) {
+    if (!gardenId) {
       setTasks([]);
       setLoading(false);
       return;
     }
 
     const unsubscribe = FirebaseScheduledTaskService.subscribeToUserTasks(
-      user.uid,
+      gardenId,
       (userTasks) => {
         setTasks(userTasks);
         setLoading(false);
@@ -33,7 +33,7 @@ export function useScheduledTasks() {
     );
 
     return unsubscribe;
-  }, [user]);
+  }, [gardenId]);
 
   const getFertilizationTasksBeforeNextWatering = async (plantId?: string) => {
     const allTasks = tasks.filter((t) =>
@@ -0,0 +1,58 @@
+// src/hooks/useSeedPackets.ts
+import { useCallback, useEffect, useState } from "react";
+import { useFirebaseAuth } from "./useFirebaseAuth";
+import {
+  FirebaseSeedPacketService,
+  SeedPacketInput,
+} from "@/services/firebase/seedPacketService";
+import { SeedPacket } from "@/types";
+
+export function useSeedPackets() {
+  const { user } = useFirebaseAuth();
+  const [packets, setPackets] = useState<SeedPacket[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const userId = user?.uid;
+
+  useEffect(() => {
+    if (!userId) {
+      setPackets([]);
+      setLoading(false);
+      return;
+    }
+
+    return FirebaseSeedPacketService.subscribeToUserPackets(
+      userId,
+      (userPackets) => {
+        setPackets(userPackets);
+        setLoading(false);
+        setError(null);
+      },
+      (err) => {
+        setError(err.message);
+        setLoading(false);
+      }
+    );
+  }, [userId]);
+
+  const addPacket = useCallback(
+    async (packet: SeedPacketInput) => {
+      if (!userId) throw new Error("User not authenticated");
+      return FirebaseSeedPacketService.createPacket(packet, userId);
+    },
+    [userId]
+  );
+
+  const updatePacket = useCallback(
+    (packetId: string, updates: Partial<SeedPacketInput>) =>
+      FirebaseSeedPacketService.updatePacket(packetId, updates),
+    []
+  );
+
+  const deletePacket = useCallback(
+    (packetId: string) => FirebaseSeedPacketService.deletePacket(packetId),
+    []
+  );
+
+  return { packets, loading, error, addPacket, updatePacket, deletePacket };
+}
@@ -0,0 +1,106 @@
+// src/hooks/useSensorReadings.ts
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { subHours } from "date-fns";
+import { useFirebaseAuth } from "./useFirebaseAuth";
+import { useActiveGarden } from "./useGardens";
+import { useFirebasePlants } from "./useFirebasePlants";
+import { useBeds } from "./useBeds";
+import { FirebaseSensorReadingService } from "@/services/firebase/sensorReadingService";
+import {
+  SENSOR_READING_MAX_AGE_HOURS,
+  SensorBatchResult,
+  SensorReadingInput,
+  SensorReadingService,
+} from "@/services/sensorReadingService";
+import { SensorReading, VarietyRecord, varietyService } from "@/types";
+import { Logger } from "@/utils/logger";
+
+/**
+ * The active garden's recent sensor readings, and alerts for plants whose
+ * latest readings are outside their variety's environmental protocol
+ */
+export function useSensorAlerts() {
+  const { gardenId } = useActiveGarden();
+  const { plants } = useFirebasePlants();
+  const [readings, setReadings] = useState<SensorReading[]>([]);
+  const [varieties, setVarieties] = useState<VarietyRecord[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!gardenId) {
+      setReadings([]);
+      return;
+    }
+
+    return FirebaseSensorReadingService.subscribeToRecentReadings(
+      gardenId,
+      subHours(new Date(), SENSOR_READING_MAX_AGE_HOURS),
+      (recent) => {
+        setReadings(recent);
+        setError(null);
+      },
+      (err) => setError(err.message)
+    );
+  }, [gardenId]);
+
+  const varietyIdsKey = useMemo(
+    () => [...new Set(plants.map((plant) => plant.varietyId))].sort().join(","),
+    [plants]
+  );
+
+  useEffect(() => {
+    if (!varietyIdsKey) return;
+
+    let cancelled = false;
+    Promise.all(varietyIdsKey.split(",").map((id) => varietyService.getVariety(id)))
+      .then((loaded) => {
+        if (!cancelled) {
+          setVarieties(loaded.filter((variety): variety is VarietyRecord => !!variety));
+        }
+      })
+      .catch((err) => Logger.error("Failed to load varieties for sensor alerts:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [varietyIdsKey]);
+
+  const alerts = useMemo(
+    () => SensorReadingService.getAlerts(readings, plants, varieties),
+    [readings, plants, varieties]
+  );
+
+  return { readings, alerts, error };
+}
+
+/**
+ * Reading sensor batch files and saving their readings to the active garden
+ */
+export function useSensorImport() {
+  const { user } = useFirebaseAuth();
+  const { gardenId } = useActiveGarden();
+  const { plants } = useFirebasePlants();
+  const { beds } = useBeds();
+
+  const parseFile = useCallback(
+    async (file: File): Promise<SensorBatchResult> => {
+      const text = await file.text();
+      return SensorReadingService.parseBatch(
+        text,
+        SensorReadingService.detectFormat(file.name, text),
+        { plants, beds }
+      );
+    },
+    [plants, beds]
+  );
+
+  const importReadings = useCallback(
+    async (readings: SensorReadingInput[]): Promise<number> => {
+      if (!user || !gardenId) throw new Error("You need to be signed in");
+      return FirebaseSensorReadingService.addReadings(readings, user.uid, gardenId);
+    },
+    [user, gardenId]
+  );
+
+  return { parseFile, importReadings };
+}
@@ -0,0 +1,232 @@
+// src/hooks/useSitterShares.ts
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useFirebaseAuth } from "./useFirebaseAuth";
+import { useActiveGarden } from "./useGardens";
+import { FirebaseSitterShareService } from "@/services/firebase/sitterShareService";
+import { FirebasePlantService } from "@/services/firebase/plantService";
+import { FirebaseCareActivityService } from "@/services/firebase/careActivityService";
+import { FirebaseCareSchedulingService } from "@/services/firebaseCareSchedulingService";
+import { QuickCompletionValues } from "@/services/smartDefaultsService";
+import { SitterShareService, SitterVisitSummary } from "@/services/sitterShareService";
+import { SitterCompletion, SitterShare, SitterTask } from "@/types";
+import { Logger } from "@/utils/logger";
+
+export interface SitterVisit {
+  share: SitterShare;
+  summary: SitterVisitSummary;
+}
+
+/**
+ * Live completions for each of the given shares, keyed by share ID
+ */
+function useShareCompletions(shareIds: string[]) {
+  const [completions, setCompletions] = useState<Record<string, SitterCompletion[]>>({});
+  const shareIdsKey = shareIds.join(",");
+
+  useEffect(() => {
+    const ids = shareIdsKey ? shareIdsKey.split(",") : [];
+    setCompletions({});
+    const unsubscribes = ids.map((shareId) =>
+      FirebaseSitterShareService.subscribeToCompletions(shareId, (shareCompletions) =>
+        setCompletions((current) => ({ ...current, [shareId]: shareCompletions }))
+      )
+    );
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [shareIdsKey]);
+
+  return completions;
+}
+
+/**
+ * The active garden's sitter links
+ */
+function useGardenSitterShares() {
+  const { gardenId } = useActiveGarden();
+  const [shares, setShares] = useState<SitterShare[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!gardenId) {
+      setShares([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    return FirebaseSitterShareService.subscribeToGardenShares(
+      gardenId,
+      (gardenShares) => {
+        setShares(gardenShares);
+        setLoading(false);
+        setError(null);
+      },
+      (err) => {
+        setError(err.message);
+        setLoading(false);
+      }
+    );
+  }, [gardenId]);
+
+  return { shares, loading, error };
+}
+
+/**
+ * Copies what sitters log into the active garden's care history while a
+ * member who can edit it has the app open. Mounted once at the app root.
+ */
+export function useSitterSharesSync() {
+  const { user } = useFirebaseAuth();
+  const { canEdit } = useActiveGarden();
+  const { shares } = useGardenSitterShares();
+  const userId = user?.uid;
+
+  // Visits that have started and haven't been reviewed may still have new completions
+  const openShares = useMemo(
+    () => (canEdit ? shares.filter((share) => share.startsAt <= new Date() && !share.summarySeenAt) : []),
+    [shares, canEdit]
+  );
+  const completions = useShareCompletions(openShares.map((share) => share.id));
+
+  useEffect(() => {
+    if (!userId) return;
+
+    for (const share of openShares) {
+      const pending = (completions[share.id] ?? []).filter((completion) => !completion.imported);
+      if (pending.length === 0) continue;
+
+      FirebaseSitterShareService.importCompletions(share, pending, userId)
+        .then((count) => {
+          window.dispatchEvent(
+            new CustomEvent("care-activity-logged", {
+              detail: { timestamp: Date.now(), source: "garden-sitter", count },
+            })
+          );
+        })
+        .catch((error) => {
+          Logger.error("Failed to import sitter completions:", error);
+        });
+    }
+  }, [userId, openShares, completions]);
+}
+
+/**
+ * Creating and ending sitter links for the active garden
+ */
+export function useSitterShares() {
+  const { gardenId, loggedBy } = useActiveGarden();
+  const { shares, loading, error } = useGardenSitterShares();
+  const completions = useShareCompletions(shares.map((share) => share.id));
+
+  const createShare = useCallback(
+    async (sitterName: string, firstDay: Date, lastDay: Date): Promise<SitterShare["id"]> => {
+      if (!gardenId || !loggedBy) throw new Error("You need to be signed in");
+
+      const { startsAt, expiresAt } = SitterShareService.getWindow(firstDay, lastDay);
+      const plants = (await FirebasePlantService.getAllPlantsForUser(gardenId)).filter(
+        (plant) => plant.isActive
+      );
+      const upcomingTasks = await FirebaseCareSchedulingService.getUpcomingTasks(
+        plants,
+        (plantId, type) => FirebaseCareActivityService.getLastActivityByType(plantId, gardenId, type)
+      );
+
+      return FirebaseSitterShareService.createShare({
+        gardenId,
+        sitterName: sitterName.trim(),
+        createdBy: loggedBy,
+        startsAt,
+        expiresAt,
+        tasks: SitterShareService.selectTasks(upcomingTasks, plants, expiresAt),
+      });
+    },
+    [gardenId, loggedBy]
+  );
+
+  const revokeShare = useCallback(
+    (share: SitterShare) => FirebaseSitterShareService.revokeShare(share.id),
+    []
+  );
+
+  return { shares, completions, loading, error, createShare, revokeShare };
+}
+
+/**
+ * Summaries of sitter visits that are over and haven't been dismissed
+ */
+export function useSitterVisitSummaries() {
+  const { shares } = useGardenSitterShares();
+  const unseen = useMemo(() => SitterShareService.getUnseenSummaries(shares), [shares]);
+  const completions = useShareCompletions(unseen.map((share) => share.id));
+
+  const visits = useMemo<SitterVisit[]>(
+    () =>
+      unseen.map((share) => ({
+        share,
+        summary: SitterShareService.summarize(share, completions[share.id] ?? []),
+      })),
+    [unseen, completions]
+  );
+
+  const dismiss = useCallback(
+    (share: SitterShare) => FirebaseSitterShareService.markSummarySeen(share.id),
+    []
+  );
+
+  return { visits, dismiss };
+}
+
+/**
+ * A sitter's view of a share, from the link. Works without signing in.
+ */
+export function useSitterShare(shareId: string | undefined) {
+  const [share, setShare] = useState<SitterShare | null>(null);
+  const [completions, setCompletions] = useState<SitterCompletion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!shareId) {
+      setLoading(false);
+      return;
+    }
+
+    const unsubscribeShare = FirebaseSitterShareService.subscribeToShare(
+      shareId,
+      (sharedGarden) => {
+        setShare(sharedGarden);
+        setLoading(false);
+      },
+      () => {
+        // The rules refuse links that have expired or been revoked
+        setShare(null);
+        setError("This link has expired or is no longer shared");
+        setLoading(false);
+      }
+    );
+    const unsubscribeCompletions = FirebaseSitterShareService.subscribeToCompletions(
+      shareId,
+      setCompletions
+    );
+
+    return () => {
+      unsubscribeShare();
+      unsubscribeCompletions();
+    };
+  }, [shareId]);
+
+  const completeTask = useCallback(
+    async (task: SitterTask, values?: QuickCompletionValues) => {
+      if (!share || !SitterShareService.isActive(share)) {
+        throw new Error("This link is no longer active");
+      }
+      await FirebaseSitterShareService.logCompletion(
+        share.id,
+        SitterShareService.createCompletion(task, values)
+      );
+    },
+    [share]
+  );
+
+  return { share, completions, loading, error, completeTask };
+}
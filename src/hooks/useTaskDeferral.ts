@@ -0,0 +1,53 @@
+// src/hooks/useTaskDeferral.ts
+import { useCallback } from "react";
+import toast from "react-hot-toast";
+import { format } from "date-fns";
+import { FirebaseScheduledTaskService } from "@/services/firebase/scheduledTaskService";
+import { ScheduledTask } from "@/services/ProtocolTranspilerService";
+import { TaskDeferralService, TaskDeferRequest } from "@/services/taskDeferralService";
+
+/**
+ * Snoozes or reschedules scheduled tasks by ID. Grouped dashboard tasks stand
+ * for several scheduled tasks, which all move together. allTasks is used to
+ * find each task's coordinated tasks. Resolves to whether the move was saved.
+ */
+export function useTaskDeferral(allTasks: ScheduledTask[]) {
+  const deferTasks = useCallback(
+    async (taskIds: string[], request: TaskDeferRequest) => {
+      const tasks = allTasks.filter((task) => taskIds.includes(task.id));
+      if (tasks.length === 0) {
+        toast.error("Task not found");
+        return false;
+      }
+
+      try {
+        const dueDates = await Promise.all(
+          tasks.map(async (task) => {
+            const dueDate = TaskDeferralService.resolveDueDate(task, request);
+            await FirebaseScheduledTaskService.deferTask(
+              task,
+              dueDate,
+              { kind: request.kind, ...(request.reason && { reason: request.reason }) },
+              allTasks
+            );
+            return dueDate;
+          })
+        );
+        toast.success(
+          `${request.kind === "snooze" ? "Snoozed" : "Rescheduled"} to ${format(
+            dueDates[0],
+            "EEE, MMM d"
+          )}`
+        );
+        return true;
+      } catch (error) {
+        console.error("Failed to move task:", error);
+        toast.error(`Failed to ${request.kind} task`);
+        return false;
+      }
+    },
+    [allTasks]
+  );
+
+  return { deferTasks };
+}
@@ -0,0 +1,72 @@
+// src/hooks/useUserSettings.ts
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+import toast from "react-hot-toast";
+import { useFirebaseAuth } from "./useFirebaseAuth";
+import { FirebaseUserSettingsService } from "@/services/firebase/userSettingsService";
+import { UserSettingsService } from "@/services/userSettingsService";
+import { CareReminderService } from "@/services/careReminderService";
+import { UserSettings } from "@/types";
+
+const subscribe = (onChange: () => void) => UserSettingsService.subscribe(onChange);
+const getSnapshot = () => UserSettingsService.getCurrent();
+
+/**
+ * Keeps the shared settings store in step with the user's Firestore record.
+ * Mounted once at the app root; components read settings with useUserSettings.
+ */
+export function useUserSettingsSync() {
+  const { user } = useFirebaseAuth();
+  const userId = user?.uid;
+
+  useEffect(() => {
+    if (!userId) {
+      UserSettingsService.reset();
+      return;
+    }
+
+    return FirebaseUserSettingsService.subscribeToSettings(userId, (saved) => {
+      if (saved) {
+        UserSettingsService.apply(UserSettingsService.withDefaults(userId, saved));
+        return;
+      }
+
+      // First visit: create the record, carrying over reminder settings saved on this device
+      const legacyNotifications = CareReminderService.takeLegacySettings();
+      const settings = UserSettingsService.withDefaults(
+        userId,
+        legacyNotifications ? { notifications: legacyNotifications } : null
+      );
+      UserSettingsService.apply(settings);
+      FirebaseUserSettingsService.saveSettings(userId, settings).catch((error) => {
+        console.error("Failed to create user settings:", error);
+      });
+    });
+  }, [userId]);
+}
+
+export function useUserSettings() {
+  const { user } = useFirebaseAuth();
+  const settings = useSyncExternalStore(subscribe, getSnapshot);
+  const userId = user?.uid;
+
+  const updateSettings = useCallback(
+    async (changes: Partial<Omit<UserSettings, "id">>) => {
+      if (!userId) return;
+
+      const previous = UserSettingsService.getCurrent();
+      const next: UserSettings = { ...previous, ...changes, id: userId };
+      UserSettingsService.apply(next);
+
+      try {
+        await FirebaseUserSettingsService.saveSettings(userId, next);
+      } catch (error) {
+        console.error("Failed to save settings:", error);
+        UserSettingsService.apply(previous);
+        toast.error("Failed to save settings");
+      }
+    },
+    [userId]
+  );
+
+  return { settings, updateSettings };
+}
@@ -0,0 +1,71 @@
+// src/hooks/useVarietyFiles.ts
+import { useState, useCallback } from "react";
+import { VarietyRecord } from "@/types/database";
+import { getVarietyService } from "@/services/serviceRegistry";
+import {
+  VarietyFile,
+  VarietyFileService,
+  VarietyImportPlan,
+} from "@/services/varietyFileService";
+import { downloadTextFile } from "@/utils/download";
+
+export type VarietyImportPreview =
+  | { success: true; file: VarietyFile; plan: VarietyImportPlan }
+  | { success: false; errors: string[] };
+
+/**
+ * Exports varieties as protocol files and imports them in two steps:
+ * `previewImport` validates the file and matches it against the catalogue,
+ * `commitImport` adds the new varieties.
+ */
+export function useVarietyFiles() {
+  const [busy, setBusy] = useState(false);
+
+  const run = useCallback(async <T>(task: () => Promise<T>) => {
+    setBusy(true);
+    try {
+      return await task();
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const exportVarieties = useCallback((varieties: VarietyRecord[]) => {
+    const file = VarietyFileService.buildFile(varieties);
+    downloadTextFile(
+      VarietyFileService.serializeFile(file),
+      VarietyFileService.getFileName(file),
+      "application/json"
+    );
+    return file;
+  }, []);
+
+  const previewImport = useCallback(
+    (file: File) =>
+      run(async (): Promise<VarietyImportPreview> => {
+        const parsed = VarietyFileService.parseFile(await file.text());
+        if (!parsed.success) return parsed;
+
+        const existing = await getVarietyService().getAllVarieties();
+        return {
+          success: true,
+          file: parsed.file,
+          plan: VarietyFileService.planImport(parsed.file, existing),
+        };
+      }),
+    [run]
+  );
+
+  const commitImport = useCallback(
+    (plan: VarietyImportPlan) =>
+      run(async () => {
+        for (const variety of plan.create) {
+          await getVarietyService().addVariety(variety);
+        }
+        return plan.create.length;
+      }),
+    [run]
+  );
+
+  return { busy, exportVarieties, previewImport, commitImport };
+}
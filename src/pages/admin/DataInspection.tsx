@@ -2,8 +2,8 @@ import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { useFirebasePlants } from '@/hooks/useFirebasePlants';
-import { useFirebaseCareActivities } from '@/hooks/useFirebaseCareActivities';
-import { inspectPlantData, generatePlantDataReport, createDataBackup } from '@/utils/dataMigration';
+import { useNavigate } from 'react-router-dom';
+import { inspectPlantData, generatePlantDataReport } from '@/utils/dataMigration';
 
 interface DataStats {
   totalPlants: number;
@@ -16,9 +16,9 @@ interface DataStats {
 
 export function DataInspection() {
   const { plants, loading: plantsLoading } = useFirebasePlants(true); // Include inactive
-  const { activities, loading: activitiesLoading } = useFirebaseCareActivities();
   const [stats, setStats] = useState<DataStats | null>(null);
   const [inspectionDetails, setInspectionDetails] = useState<any>(null);
+  const navigate = useNavigate();
 
   useEffect(() => {
     if (plants.length > 0) {
@@ -78,22 +78,7 @@ export function DataInspection() {
     inspectPlantData(plants);
   };
 
-  const handleCreateBackup = () => {
-    const backup = createDataBackup(plants, activities);
-    
-    // Download as file
-    const blob = new Blob([backup], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `smartgarden-backup-${new Date().toISOString().split('T')[0]}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  };
-
-  if (plantsLoading || activitiesLoading) {
+  if (plantsLoading) {
     return (
       <Card>
         <CardContent className="p-6">
@@ -120,8 +105,11 @@ export function DataInspection() {
             <Button onClick={handleInspectConsole} variant="outline">
               Inspect in Console
             </Button>
-            <Button onClick={handleCreateBackup} variant="outline">
-              Create Backup
+            <Button onClick={() => navigate('/admin/garden-archive')} variant="outline">
+              Backup &amp; Restore
+            </Button>
+            <Button onClick={() => navigate('/admin/variety-protocols')} variant="outline">
+              Variety Protocols
             </Button>
           </div>
           
@@ -0,0 +1,175 @@
+// src/pages/admin/GardenArchive.tsx
+import { useRef, useState } from "react";
+import toast from "react-hot-toast";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { ImportPreview, useGardenArchive } from "@/hooks/useGardenArchive";
+import {
+  ARCHIVE_COLLECTIONS,
+  ARCHIVE_COLLECTION_LABELS,
+  GardenArchiveService,
+} from "@/services/gardenArchiveService";
+
+export function GardenArchive() {
+  const { busy, exportArchive, previewImport, commitImport } = useGardenArchive();
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [fileName, setFileName] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    try {
+      const archive = await exportArchive();
+      toast.success(
+        `Exported ${archive.data.plants.length} plants and ${archive.data.careActivities.length} care activities`
+      );
+    } catch (error) {
+      console.error("Failed to export garden:", error);
+      toast.error("Failed to export garden");
+    }
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setFileName(file.name);
+    try {
+      setPreview(await previewImport(file));
+    } catch (error) {
+      console.error("Failed to read archive:", error);
+      toast.error("Failed to read archive");
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!preview?.success) return;
+    try {
+      const result = await commitImport(preview.plan);
+      toast.success(
+        `Imported ${result.plants} plants and ${result.careActivities} care activities`
+      );
+      setPreview(null);
+      setFileName("");
+    } catch (error) {
+      console.error("Failed to import archive:", error);
+      toast.error("Import failed. Some records may already have been written.");
+    }
+  };
+
+  const handleCancel = () => {
+    setPreview(null);
+    setFileName("");
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>📦 Export Garden</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Downloads every plant, care activity, scheduled task, bed, custom variety and
+            task bypass as a single archive file.
+          </p>
+          <Button onClick={handleExport} disabled={busy}>
+            Download Archive
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>📥 Import Garden</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Records already in your garden are matched and skipped. Nothing is written
+            until you confirm the preview.
+          </p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFileSelected}
+            className="hidden"
+            data-testid="archive-file-input"
+          />
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={busy}
+          >
+            Choose Archive…
+          </Button>
+
+          {preview && !preview.success && (
+            <div className="border border-red-200 bg-red-50 dark:bg-red-950/30 rounded-lg p-4" role="alert">
+              <div className="font-medium text-red-700 dark:text-red-300">
+                {fileName} can't be imported
+              </div>
+              <ul className="list-disc list-inside text-sm text-red-700 dark:text-red-300 mt-2">
+                {preview.errors.map((error, i) => (
+                  <li key={i}>{error}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {preview?.success && (
+            <div className="space-y-4">
+              <div className="text-sm text-muted-foreground">
+                {fileName} · exported {format(preview.archive.exportedAt, "MMM d, yyyy h:mm a")}
+              </div>
+              <table className="min-w-full divide-y divide-border text-sm">
+                <thead>
+                  <tr>
+                    <th className="py-2 text-left font-medium text-muted-foreground">Collection</th>
+                    <th className="py-2 text-right font-medium text-muted-foreground">New</th>
+                    <th className="py-2 text-right font-medium text-muted-foreground">Already present</th>
+                    <th className="py-2 text-right font-medium text-muted-foreground">Skipped</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {ARCHIVE_COLLECTIONS.map((collection) => {
+                    const diff = preview.plan.diff[collection];
+                    return (
+                      <tr key={collection}>
+                        <td className="py-2 font-medium">{ARCHIVE_COLLECTION_LABELS[collection]}</td>
+                        <td className="py-2 text-right text-green-600">{diff.create}</td>
+                        <td className="py-2 text-right text-muted-foreground">{diff.duplicates}</td>
+                        <td className="py-2 text-right text-yellow-600">{diff.skipped}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              {preview.plan.warnings.length > 0 && (
+                <ul className="list-disc list-inside text-sm text-yellow-700 dark:text-yellow-300">
+                  {preview.plan.warnings.map((warning, i) => (
+                    <li key={i}>{warning}</li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="flex gap-3">
+                <Button
+                  onClick={handleCommit}
+                  disabled={busy || !GardenArchiveService.hasChanges(preview.plan)}
+                >
+                  Import
+                </Button>
+                <Button variant="ghost" onClick={handleCancel} disabled={busy}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
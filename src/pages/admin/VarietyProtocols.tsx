@@ -0,0 +1,227 @@
+// src/pages/admin/VarietyProtocols.tsx
+import { useEffect, useMemo, useRef, useState } from "react";
+import toast from "react-hot-toast";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { VarietyRecord, varietyService } from "@/types/database";
+import { VarietyImportPreview, useVarietyFiles } from "@/hooks/useVarietyFiles";
+import { Logger } from "@/utils/logger";
+import { ProtocolParser } from "@/utils/protocolParser";
+
+const ALL_CUSTOM = "__custom__";
+const ALL_VARIETIES = "__all__";
+
+export function VarietyProtocols() {
+  const { busy, exportVarieties, previewImport, commitImport } = useVarietyFiles();
+  const [varieties, setVarieties] = useState<VarietyRecord[]>([]);
+  const [selection, setSelection] = useState(ALL_CUSTOM);
+  const [preview, setPreview] = useState<VarietyImportPreview | null>(null);
+  const [fileName, setFileName] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadVarieties = () =>
+    varietyService
+      .getAllVarieties()
+      .then(setVarieties)
+      .catch((error) => Logger.error("Failed to load varieties:", error));
+
+  useEffect(() => {
+    loadVarieties();
+  }, []);
+
+  const unparseable = useMemo(
+    () => ProtocolParser.findUnparseableEntries(varieties),
+    [varieties]
+  );
+
+  const customVarieties = varieties.filter((variety) => variety.isCustom);
+  const selected =
+    selection === ALL_VARIETIES
+      ? varieties
+      : selection === ALL_CUSTOM
+        ? customVarieties
+        : varieties.filter((variety) => variety.id === selection);
+
+  const handleExport = () => {
+    try {
+      const file = exportVarieties(selected);
+      toast.success(
+        file.varieties.length === 1
+          ? `Exported ${file.varieties[0].name}`
+          : `Exported ${file.varieties.length} varieties`
+      );
+    } catch (error) {
+      console.error("Failed to export varieties:", error);
+      toast.error("Failed to export varieties");
+    }
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setFileName(file.name);
+    try {
+      setPreview(await previewImport(file));
+    } catch (error) {
+      console.error("Failed to read variety file:", error);
+      toast.error("Failed to read variety file");
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!preview?.success) return;
+    try {
+      const count = await commitImport(preview.plan);
+      toast.success(`Imported ${count} ${count === 1 ? "variety" : "varieties"}`);
+      setPreview(null);
+      setFileName("");
+      loadVarieties();
+    } catch (error) {
+      console.error("Failed to import varieties:", error);
+      toast.error("Import failed. Some varieties may already have been added.");
+    }
+  };
+
+  const handleCancel = () => {
+    setPreview(null);
+    setFileName("");
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>🌱 Export Variety Protocols</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Downloads a variety's growth timeline, care protocols and visual cues as a file
+            anyone can import. See VARIETY_PROTOCOL_FORMAT.md for the format.
+          </p>
+          <select
+            value={selection}
+            onChange={(e) => setSelection(e.target.value)}
+            className="w-full p-2 border border-border rounded-md bg-background text-foreground text-sm"
+            aria-label="Varieties to export"
+          >
+            <option value={ALL_CUSTOM}>All custom varieties ({customVarieties.length})</option>
+            <option value={ALL_VARIETIES}>Entire catalogue ({varieties.length})</option>
+            {varieties.map((variety) => (
+              <option key={variety.id} value={variety.id}>
+                {variety.name}
+                {variety.isCustom ? " (custom)" : ""}
+              </option>
+            ))}
+          </select>
+          <Button onClick={handleExport} disabled={selected.length === 0}>
+            Download Variety File
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>📥 Import Variety Protocols</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Imported varieties are added as custom varieties. Varieties with a name already in
+            your catalogue are skipped. Nothing is added until you confirm the preview.
+          </p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFileSelected}
+            className="hidden"
+            data-testid="variety-file-input"
+          />
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={busy}
+          >
+            Choose Variety File…
+          </Button>
+
+          {preview && !preview.success && (
+            <div className="border border-red-200 bg-red-50 dark:bg-red-950/30 rounded-lg p-4" role="alert">
+              <div className="font-medium text-red-700 dark:text-red-300">
+                {fileName} can't be imported
+              </div>
+              <ul className="list-disc list-inside text-sm text-red-700 dark:text-red-300 mt-2">
+                {preview.errors.map((error, i) => (
+                  <li key={i}>{error}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {preview?.success && (
+            <div className="space-y-4">
+              <div className="text-sm text-muted-foreground">
+                {fileName} · exported {format(preview.file.exportedAt, "MMM d, yyyy h:mm a")}
+              </div>
+              <ul className="divide-y divide-border text-sm">
+                {preview.plan.create.map((variety) => (
+                  <li key={variety.name} className="py-2 flex justify-between">
+                    <span className="font-medium">{variety.name}</span>
+                    <span className="text-green-600">New</span>
+                  </li>
+                ))}
+                {preview.plan.duplicates.map((name) => (
+                  <li key={name} className="py-2 flex justify-between">
+                    <span className="font-medium">{name}</span>
+                    <span className="text-muted-foreground">Already in catalogue</span>
+                  </li>
+                ))}
+              </ul>
+
+              <div className="flex gap-3">
+                <Button
+                  onClick={handleCommit}
+                  disabled={busy || preview.plan.create.length === 0}
+                >
+                  Import
+                </Button>
+                <Button variant="ghost" onClick={handleCancel} disabled={busy}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>🔎 Protocol Text Check</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Watering amounts, frequencies, moisture levels and dilutions the app can't read as
+            numbers. Suggestions and schedules fall back to category defaults for these.
+          </p>
+          {unparseable.length === 0 ? (
+            <p className="text-sm">Every protocol entry can be read.</p>
+          ) : (
+            <ul className="divide-y divide-border text-sm">
+              {unparseable.map((entry) => (
+                <li key={`${entry.variety}-${entry.path}`} className="py-2">
+                  <div className="flex justify-between gap-2">
+                    <span className="font-medium">{entry.variety}</span>
+                    <span className="text-muted-foreground">"{entry.value}"</span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">{entry.path}</div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+// src/pages/analytics/index.tsx
+import { useState, useMemo } from "react";
+import { subDays, endOfDay } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
+import BarChart from "@/components/analytics/BarChart";
+import LineChart from "@/components/analytics/LineChart";
+import GerminationRatesCard from "@/components/analytics/GerminationRatesCard";
+import { useFirebasePlants } from "@/hooks/useFirebasePlants";
+import { useGardenAnalytics } from "@/hooks/useGardenAnalytics";
+import { useGerminationAnalytics } from "@/hooks/useGerminationAnalytics";
+import { useBeds } from "@/hooks/useBeds";
+import { useUserSettings } from "@/hooks/useUserSettings";
+import {
+  AnalyticsFilter,
+  GardenAnalyticsService,
+} from "@/services/gardenAnalyticsService";
+import { MeasurementService } from "@/services/measurementService";
+import { getPlantDisplayName } from "@/utils/plantDisplay";
+import {
+  createLocalDateFromString,
+  dateToLocalDateString,
+} from "@/utils/dateUtils";
+
+const RANGE_PRESETS = [7, 30, 90];
+const MAX_WATERING_SERIES = 6;
+
+const Analytics = () => {
+  const { plants, loading: plantsLoading } = useFirebasePlants();
+  const { beds } = useBeds();
+  const [startDate, setStartDate] = useState(() => subDays(new Date(), 30));
+  const [endDate, setEndDate] = useState(() => endOfDay(new Date()));
+  const [plantId, setPlantId] = useState("");
+  const [bedId, setBedId] = useState("");
+  const { settings } = useUserSettings();
+  const volumeUnit =
+    MeasurementService.getUnitSystem(settings) === "metric" ? "ml" : "oz";
+
+  const { activities, completions, loading, error } = useGardenAnalytics(
+    startDate,
+    endDate
+  );
+  const { report: germinationReport } = useGerminationAnalytics();
+
+  const filter: AnalyticsFilter = useMemo(
+    () => ({
+      startDate,
+      endDate,
+      plantId: plantId || undefined,
+      bedId: bedId || undefined,
+    }),
+    [startDate, endDate, plantId, bedId]
+  );
+
+  const charts = useMemo(
+    () => ({
+      watering: GardenAnalyticsService.getWateringVolumeSeries(activities, plants, filter),
+      timeliness: GardenAnalyticsService.getFertilizationTimeliness(completions, plants, filter),
+      activityCounts: GardenAnalyticsService.getActivityCountsByType(activities, plants, filter),
+      partialWatering: GardenAnalyticsService.getPartialWateringStats(activities, plants, filter),
+    }),
+    [activities, completions, plants, filter]
+  );
+
+  const applyPreset = (days: number) => {
+    setStartDate(subDays(new Date(), days));
+    setEndDate(endOfDay(new Date()));
+  };
+
+  const selectablePlants = bedId
+    ? plants.filter((plant) => plant.structuredSection?.bedId === bedId)
+    : plants;
+
+  if (plantsLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 py-6">
+      <h1 className="text-2xl font-bold text-foreground">Garden Insights</h1>
+
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {RANGE_PRESETS.map((days) => (
+              <Button
+                key={days}
+                variant="outline"
+                size="sm"
+                onClick={() => applyPreset(days)}
+              >
+                Last {days} days
+              </Button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div>
+              <label htmlFor="analytics-start" className="block text-sm font-medium text-foreground mb-1">
+                From
+              </label>
+              <input
+                id="analytics-start"
+                type="date"
+                value={dateToLocalDateString(startDate)}
+                max={dateToLocalDateString(endDate)}
+                onChange={(e) =>
+                  e.target.value && setStartDate(createLocalDateFromString(e.target.value))
+                }
+                className="w-full p-2 border border-border rounded-lg bg-background text-foreground"
+              />
+            </div>
+            <div>
+              <label htmlFor="analytics-end" className="block text-sm font-medium text-foreground mb-1">
+                To
+              </label>
+              <input
+                id="analytics-end"
+                type="date"
+                value={dateToLocalDateString(endDate)}
+                min={dateToLocalDateString(startDate)}
+                onChange={(e) =>
+                  e.target.value &&
+                  setEndDate(endOfDay(createLocalDateFromString(e.target.value)))
+                }
+                className="w-full p-2 border border-border rounded-lg bg-background text-foreground"
+              />
+            </div>
+            <div>
+              <label htmlFor="analytics-bed" className="block text-sm font-medium text-foreground mb-1">
+                Bed
+              </label>
+              <select
+                id="analytics-bed"
+                value={bedId}
+                onChange={(e) => {
+                  setBedId(e.target.value);
+                  setPlantId("");
+                }}
+                className="w-full p-2 border border-border rounded-lg bg-background text-foreground"
+              >
+                <option value="">All beds</option>
+                {beds.map((bed) => (
+                  <option key={bed.id} value={bed.id}>
+                    {bed.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="analytics-plant" className="block text-sm font-medium text-foreground mb-1">
+                Plant
+              </label>
+              <select
+                id="analytics-plant"
+                value={plantId}
+                onChange={(e) => setPlantId(e.target.value)}
+                className="w-full p-2 border border-border rounded-lg bg-background text-foreground"
+              >
+                <option value="">All plants</option>
+                {selectablePlants.map((plant) => (
+                  <option key={plant.id} value={plant.id}>
+                    {getPlantDisplayName(plant)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <p className="text-sm text-red-600" role="alert">
+          Failed to load analytics: {error}
+        </p>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <LoadingSpinner />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="text-base">💧 Watering Volume ({volumeUnit} per day)</CardTitle>
+            </CardHeader>
+            <CardContent className="pt-4">
+              <LineChart
+                series={charts.watering.slice(0, MAX_WATERING_SERIES).map((series) => ({
+                  name: series.plantName,
+                  points: series.points.map((point) => ({
+                    ...point,
+                    value: Math.round(
+                      MeasurementService.convertVolume(point.value, "oz", volumeUnit)
+                    ),
+                  })),
+                }))}
+                unitLabel={volumeUnit}
+              />
+              {charts.watering.length > MAX_WATERING_SERIES && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  Showing the {MAX_WATERING_SERIES} most-watered of {charts.watering.length} plants.
+                  Filter by bed or plant to see the rest.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">🌱 Fertilization Timeliness</CardTitle>
+            </CardHeader>
+            <CardContent className="pt-4 space-y-3">
+              {charts.timeliness.total === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No completed fertilization tasks in this period
+                </p>
+              ) : (
+                <>
+                  <div className="text-3xl font-bold text-foreground">
+                    {Math.round(charts.timeliness.onTimeRate * 100)}%
+                    <span className="text-sm font-normal text-muted-foreground ml-2">
+                      on time
+                    </span>
+                  </div>
+                  <BarChart
+                    data={[
+                      { label: "Early", value: charts.timeliness.early, color: "bg-blue-500" },
+                      { label: "On time", value: charts.timeliness.onTime, color: "bg-emerald-500" },
+                      { label: "Late", value: charts.timeliness.late, color: "bg-amber-500" },
+                    ]}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Average variance: {charts.timeliness.averageVarianceDays.toFixed(1)} days
+                  </p>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">📋 Activities by Type</CardTitle>
+            </CardHeader>
+            <CardContent className="pt-4">
+              <BarChart
+                data={charts.activityCounts.map(({ type, count }) => ({
+                  label: type,
+                  value: count,
+                }))}
+              />
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="text-base">⚠️ Partial Watering Frequency</CardTitle>
+            </CardHeader>
+            <CardContent className="pt-4 space-y-3">
+              <p className="text-sm text-muted-foreground">
+                {charts.partialWatering.partialWaterings} of{" "}
+                {charts.partialWatering.totalWaterings} waterings were partial (
+                {Math.round(charts.partialWatering.partialRate * 100)}%)
+              </p>
+              <LineChart
+                series={[{ name: "Partial waterings", points: charts.partialWatering.points }]}
+                height={140}
+                emptyMessage="No partial waterings in this period"
+              />
+            </CardContent>
+          </Card>
+
+          <GerminationRatesCard report={germinationReport} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Analytics;
@@ -0,0 +1,109 @@
+// src/pages/calendar/index.tsx
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import toast from "react-hot-toast";
+import { Card, CardContent } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import CareCalendarGrid from "@/components/calendar/CareCalendarGrid";
+import { useCareCalendar } from "@/hooks/useCareCalendar";
+import { useCalendarFeedExport } from "@/hooks/useCalendarFeedExport";
+import { CalendarView, CareCalendarService } from "@/services/careCalendarService";
+
+const CareCalendar = () => {
+  const [view, setView] = useState<CalendarView>("month");
+  const [anchor, setAnchor] = useState(() => new Date());
+
+  const range = useMemo(
+    () => CareCalendarService.getVisibleRange(anchor, view),
+    [anchor, view]
+  );
+  const { events, loading, error, reschedule } = useCareCalendar(range.start, range.end);
+  const { exporting, exportIcs } = useCalendarFeedExport();
+
+  const handleExport = async () => {
+    try {
+      const count = await exportIcs();
+      toast.success(
+        `Exported ${count} scheduled ${count === 1 ? "task" : "tasks"} plus projected watering`
+      );
+    } catch (err) {
+      console.error("Failed to export calendar:", err);
+      toast.error("Failed to export calendar");
+    }
+  };
+
+  const title =
+    view === "month"
+      ? format(anchor, "MMMM yyyy")
+      : `${format(range.start, "MMM d")} – ${format(range.end, "MMM d, yyyy")}`;
+
+  return (
+    <div className="space-y-6 py-6">
+      <div className="flex items-center justify-between gap-2">
+        <h1 className="text-2xl font-bold text-foreground">Care Calendar</h1>
+        <Button variant="outline" size="sm" onClick={handleExport} disabled={exporting}>
+          {exporting ? "Exporting..." : "Export .ics"}
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                aria-label="Previous"
+                onClick={() => setAnchor(CareCalendarService.shiftAnchor(anchor, view, -1))}
+              >
+                ‹
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setAnchor(new Date())}>
+                Today
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                aria-label="Next"
+                onClick={() => setAnchor(CareCalendarService.shiftAnchor(anchor, view, 1))}
+              >
+                ›
+              </Button>
+              <h2 className="text-lg font-semibold text-foreground ml-2">{title}</h2>
+            </div>
+            <div className="flex gap-2">
+              {(["month", "week"] as const).map((option) => (
+                <Button
+                  key={option}
+                  variant={view === option ? "primary" : "outline"}
+                  size="sm"
+                  onClick={() => setView(option)}
+                >
+                  {option === "month" ? "Month" : "Week"}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <CareCalendarGrid
+            anchor={anchor}
+            view={view}
+            events={events}
+            onReschedule={reschedule}
+          />
+
+          <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+            <span>Solid: scheduled task (drag to reschedule)</span>
+            <span>Dashed: projected recurring care</span>
+            <span>🌱 Predicted stage change</span>
+            {loading && <span>Updating…</span>}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CareCalendar;
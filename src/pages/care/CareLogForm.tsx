@@ -8,6 +8,10 @@ import { Button } from "@/components/ui/Button";
 import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
 import { useFirebasePlants } from "@/hooks/useFirebasePlants";
 import { useFirebaseCareActivities } from "@/hooks/useFirebaseCareActivities";
+import { useUserSettings } from "@/hooks/useUserSettings";
+import { useFirebaseAuth } from "@/hooks/useFirebaseAuth";
+import { useActiveGarden } from "@/hooks/useGardens";
+import { usePlantIssues } from "@/hooks/usePlantIssues";
 import {
   varietyService,
   VarietyRecord,
@@ -16,7 +20,7 @@ import {
 import { groupPlantsByConditions } from "@/utils/plantGrouping";
 import { seedVarieties } from "@/data/seedVarieties";
 import { calculateCurrentStageWithVariety } from "@/utils/growthStage";
-import { GrowthStage } from "@/types";
+import { GrowthStage, IssueDetails } from "@/types";
 import {
   Droplets,
   Beaker,
@@ -40,10 +44,25 @@ import {
   SectionApplyOption 
 } from "@/services/sectionBulkService";
 import { PartialWateringService, PartialWateringAnalysis } from "@/services/partialWateringService";
+import { PlantIssueService } from "@/services/plantIssueService";
+import { FirebaseScheduledTaskService } from "@/services/firebase/scheduledTaskService";
+import { pestDiseaseCatalog } from "@/data/pestDiseaseCatalog";
+
+const AFFECTED_PARTS = ["leaves", "stems", "roots", "flowers", "fruit", "whole-plant"] as const;
+const TREATMENT_METHODS = [
+  "foliar-spray",
+  "soil-drench",
+  "hand-removal",
+  "prune-affected",
+  "isolate",
+  "top-dress",
+  "side-dress",
+  "mix-in-soil",
+] as const;
 
 const careFormSchema = z.object({
   groupId: z.string().min(1, "Please select a plant section"),
-  type: z.enum(["water", "fertilize", "observe", "photo", "note", "pruning", "moisture"]),
+  type: z.enum(["water", "fertilize", "observe", "photo", "note", "pruning", "moisture", "harvest", "issue"]),
   date: z
     .string()
     .min(1, "Date is required")
@@ -64,6 +83,24 @@ const careFormSchema = z.object({
   fertilizerApplicationUnit: z.enum(["oz", "ml", "cups", "gal", "quart", "liter"]).optional(),
   moistureBefore: z.number().min(1).max(10).optional(),
   moistureAfter: z.number().min(1).max(10).optional(),
+  // Harvest fields
+  harvestWeightValue: z.number().positive().optional(),
+  harvestWeightUnit: z.enum(["oz", "lbs", "g", "kg"]).optional(),
+  harvestCount: z.number().int().positive().optional(),
+  harvestPortion: z
+    .enum(["whole-plant", "outer-leaves", "cut-and-come-again", "fruit", "roots", "flowers"])
+    .optional(),
+  harvestQuality: z.enum(["excellent", "good", "fair", "poor", "unsaleable"]).optional(),
+  // Issue fields
+  issueId: z.string().optional(),
+  issueCatalogId: z.string().optional(),
+  issueAffectedParts: z.array(z.enum(AFFECTED_PARTS)).optional(),
+  issueSeverity: z.enum(["low", "moderate", "severe"]).optional(),
+  issueSpread: z.enum(["isolated", "spreading", "widespread"]).optional(),
+  issueStatus: z.enum(["open", "resolved"]).optional(),
+  treatmentProduct: z.string().optional(),
+  treatmentMethod: z.enum(TREATMENT_METHODS).optional(),
+  treatmentDilution: z.string().optional(),
 });
 
 type CareFormData = z.infer<typeof careFormSchema>;
@@ -72,7 +109,7 @@ interface CareLogFormProps {
   onSuccess?: () => void;
   onCancel?: () => void;
   preselectedPlantId?: string;
-  preselectedActivityType?: "water" | "fertilize" | "observe" | "pruning" | "moisture";
+  preselectedActivityType?: "water" | "fertilize" | "observe" | "pruning" | "moisture" | "harvest" | "issue";
   preselectedProduct?: string;
 }
 
@@ -142,6 +179,62 @@ const formatAmountText = (amount: string) => {
   ));
 };
 
+// Weight and count describe everything picked from the selected section;
+// HarvestYieldService splits section harvests back out per plant.
+const buildHarvestDetails = (
+  data: CareFormData
+): Partial<CareActivityDetails> => {
+  const details: Partial<CareActivityDetails> = {};
+  if (data.harvestWeightValue && data.harvestWeightUnit) {
+    details.harvestWeight = {
+      amount: data.harvestWeightValue,
+      unit: data.harvestWeightUnit,
+    };
+  }
+  if (data.harvestCount) {
+    details.harvestCount = data.harvestCount;
+  }
+  if (data.harvestPortion) {
+    details.harvestPortion = data.harvestPortion;
+  }
+  if (data.harvestQuality) {
+    details.quality = data.harvestQuality;
+  }
+  return details;
+};
+
+// Every report on an existing issue keeps its issueId; a new report starts one.
+// A treatment is only recorded when both a product and a method are given.
+const buildIssueDetails = (
+  data: CareFormData
+): Partial<CareActivityDetails> => {
+  const entry = data.issueCatalogId
+    ? PlantIssueService.getCatalogEntry(data.issueCatalogId)
+    : undefined;
+  if (!entry) return {};
+
+  const issue: IssueDetails = {
+    issueId: data.issueId || PlantIssueService.createIssueId(),
+    catalogId: entry.id,
+    name: entry.name,
+    category: entry.category,
+    affectedParts: data.issueAffectedParts ?? [],
+    severity: data.issueSeverity ?? "moderate",
+    spread: data.issueSpread ?? "isolated",
+    status: data.issueStatus ?? "open",
+  };
+  const product = data.treatmentProduct?.trim();
+  if (product && data.treatmentMethod) {
+    const dilution = data.treatmentDilution?.trim();
+    issue.treatment = {
+      product,
+      method: data.treatmentMethod,
+      ...(dilution && { dilution }),
+    };
+  }
+  return { issue };
+};
+
 export function CareLogForm({
   onSuccess,
   onCancel,
@@ -151,6 +244,10 @@ export function CareLogForm({
 }: CareLogFormProps) {
   const { plants, loading: plantsLoading } = useFirebasePlants();
   const { logActivity } = useFirebaseCareActivities();
+  const { settings: userSettings } = useUserSettings();
+  const { user } = useFirebaseAuth();
+  const { gardenId, canEdit } = useActiveGarden();
+  const prefersMetric = userSettings.units.volume === "liters";
   
   // Group plants by sections/containers
   const plantGroups = plants.length > 0 ? groupPlantsByConditions(plants) : [];
@@ -183,7 +280,7 @@ export function CareLogForm({
     preselectedPlantId || searchParams.get("plantId") || "";
   const activityTypeFromParams =
     preselectedActivityType ||
-    (searchParams.get("type") as "water" | "fertilize" | "observe" | "pruning" | "moisture") ||
+    (searchParams.get("type") as "water" | "fertilize" | "observe" | "pruning" | "moisture" | "harvest" | "issue") ||
     "water";
 
   const {
@@ -202,7 +299,13 @@ export function CareLogForm({
       type: activityTypeFromParams,
       date: getTodayDateString(),
       waterValue: null,
-      waterUnit: "oz",
+      waterUnit: prefersMetric ? "ml" : "oz",
+      harvestWeightUnit: prefersMetric ? "g" : "oz",
+      issueId: searchParams.get("issueId") || "",
+      issueAffectedParts: [],
+      issueSeverity: "moderate",
+      issueSpread: "isolated",
+      issueStatus: "open",
     },
   });
 
@@ -214,6 +317,9 @@ export function CareLogForm({
   const fertilizerDilutionPerUnit = watch("fertilizerDilutionPerUnit");
   const fertilizerApplicationAmount = watch("fertilizerApplicationAmount");
   const fertilizerApplicationUnit = watch("fertilizerApplicationUnit");
+  const selectedIssueId = watch("issueId");
+  const issueCatalogId = watch("issueCatalogId");
+  const issueAffectedParts = watch("issueAffectedParts") ?? [];
   
   
   // Get the selected group and its plants
@@ -244,6 +350,9 @@ export function CareLogForm({
              group.plantedDate.getTime() === selectedGroup.plantedDate.getTime();
     }) : [];
   const otherSameVarietyPlantIds = otherSameVarietyGroups.flatMap(group => group.plants.map(p => p.id));
+  const { openIssues } = usePlantIssues(
+    activityType === "issue" ? selectedGroup?.plants[0]?.id : undefined
+  );
   const totalSameVarietyPlants = selectedPlantIds.length + otherSameVarietyPlantIds.length;
 
   useEffect(() => {
@@ -423,6 +532,42 @@ export function CareLogForm({
     }
   }, [searchParams, setValue]);
 
+  // Prefill from the open issue being updated
+  useEffect(() => {
+    const issue = openIssues.find((i) => i.issueId === selectedIssueId);
+    if (!issue) return;
+    setValue("issueCatalogId", issue.catalogId);
+    setValue("issueAffectedParts", issue.affectedParts);
+    setValue("issueSeverity", issue.severity);
+    setValue("issueSpread", issue.spread);
+  }, [selectedIssueId, openIssues, setValue]);
+
+  // Suggest the usual affected parts for a newly reported problem
+  useEffect(() => {
+    if (selectedIssueId || !issueCatalogId) return;
+    const entry = PlantIssueService.getCatalogEntry(issueCatalogId);
+    if (entry) setValue("issueAffectedParts", entry.commonParts);
+  }, [issueCatalogId, selectedIssueId, setValue]);
+
+  // Schedules re-inspections after a treatment, or drops pending ones once resolved
+  const syncIssueFollowUps = async (plantId: string, issue: IssueDetails, treatedAt: Date) => {
+    if (!user?.uid || !gardenId) return;
+
+    try {
+      if (issue.status === "resolved") {
+        await FirebaseScheduledTaskService.skipIssueFollowUps(gardenId, plantId, issue.issueId);
+        return;
+      }
+      const followUps = PlantIssueService.buildFollowUpTasks(plantId, issue, treatedAt, currentStage);
+      if (followUps.length > 0) {
+        await FirebaseScheduledTaskService.createMultipleTasks(followUps, user.uid, gardenId);
+      }
+    } catch (followUpError) {
+      console.error(`Failed to update issue follow-ups for plant ${plantId}:`, followUpError);
+      // Don't fail the issue report if follow-up scheduling fails
+    }
+  };
+
   // Handle bulk care submission for section apply
   const handleBulkCareSubmission = async (plantIds: string[]): Promise<BulkCareResult[]> => {
     if (!lastSubmittedData) {
@@ -433,6 +578,9 @@ export function CareLogForm({
     
     // Generate a unique section ID for this bulk application
     const sectionId = `section_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    // Built once so every plant in the section shares the same issueId
+    const issueDetails =
+      lastSubmittedData.type === "issue" ? buildIssueDetails(lastSubmittedData) : {};
 
     for (const plantId of plantIds) {
       try {
@@ -500,6 +648,10 @@ export function CareLogForm({
               scale: "1-10",
             };
           }
+        } else if (lastSubmittedData.type === "harvest") {
+          Object.assign(details, buildHarvestDetails(lastSubmittedData));
+        } else if (lastSubmittedData.type === "issue") {
+          Object.assign(details, issueDetails);
         }
 
         await logActivity({
@@ -508,6 +660,14 @@ export function CareLogForm({
           date: createDateForCareLogging(lastSubmittedData.date),
           details: details as CareActivityDetails,
         });
+
+        if (details.issue) {
+          await syncIssueFollowUps(
+            plantId,
+            details.issue,
+            createDateForCareLogging(lastSubmittedData.date)
+          );
+        }
         
         // If this is a fertilizer activity that requires water, also log a watering activity
         if (lastSubmittedData.type === "fertilize" && selectedFertilizer?.method && requiresWater(selectedFertilizer.method)) {
@@ -619,6 +779,11 @@ export function CareLogForm({
   // src/pages/care/CareLogForm.tsx
 
   const onSubmit = async (data: CareFormData) => {
+    if (gardenId && !canEdit) {
+      toast.error("You have view-only access to this garden");
+      return;
+    }
+
     // Manual validation for water activities
     if (data.type === "water" && (!data.waterValue || data.waterValue <= 0)) {
       setError("waterValue", {
@@ -628,6 +793,24 @@ export function CareLogForm({
       return;
     }
 
+    // Manual validation for harvest activities
+    if (data.type === "harvest" && !data.harvestWeightValue && !data.harvestCount) {
+      setError("harvestWeightValue", {
+        type: "manual",
+        message: "Enter a harvest weight or a piece count.",
+      });
+      return;
+    }
+
+    // Manual validation for issue reports
+    if (data.type === "issue" && !data.issueCatalogId) {
+      setError("issueCatalogId", {
+        type: "manual",
+        message: "Choose the pest, disease or disorder you're reporting.",
+      });
+      return;
+    }
+
     // Manual validation for structured fertilizer inputs
     if (data.type === "fertilize" && useStructuredFertilizer) {
       if (!data.fertilizerApplicationAmount || !data.fertilizerApplicationUnit) {
@@ -732,6 +915,10 @@ export function CareLogForm({
             scale: "1-10",
           };
         }
+      } else if (data.type === "harvest") {
+        Object.assign(details, buildHarvestDetails(data));
+      } else if (data.type === "issue") {
+        Object.assign(details, buildIssueDetails(data));
       }
 
       // Now all submissions are "bulk" since we're working with groups
@@ -753,7 +940,7 @@ export function CareLogForm({
               ...details as CareActivityDetails,
               sectionBased: true,
               sectionId: sectionId,
-              plantsInSection: selectedPlantIds.length,
+              plantsInSection: targetPlantIds.length,
             };
             
             // For watering, store the total section amount
@@ -770,6 +957,10 @@ export function CareLogForm({
               date: createDateForCareLogging(data.date),
               details: bulkDetails,
             });
+
+            if (bulkDetails.issue) {
+              await syncIssueFollowUps(plantId, bulkDetails.issue, createDateForCareLogging(data.date));
+            }
             
             // If this is a fertilizer activity that requires water, also log a watering activity
             if (data.type === "fertilize" && selectedFertilizer?.method && requiresWater(selectedFertilizer.method)) {
@@ -893,6 +1084,10 @@ export function CareLogForm({
         return <FileText className="h-4 w-4" />;
       case "pruning":
         return <span className="text-sm">✂️</span>;
+      case "harvest":
+        return <span className="text-sm">🌾</span>;
+      case "issue":
+        return <span className="text-sm">🐛</span>;
       default:
         return <Droplets className="h-4 w-4" />;
     }
@@ -912,6 +1107,10 @@ export function CareLogForm({
         return "General Note";
       case "pruning":
         return "Pruning";
+      case "harvest":
+        return "Harvest";
+      case "issue":
+        return "Pest / Disease";
       default:
         return "Activity";
     }
@@ -1502,6 +1701,353 @@ export function CareLogForm({
     );
   };
 
+  const renderHarvestFields = () => {
+    return (
+      <Card className="border-border shadow-sm">
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2 text-base">
+            🌾 Harvest Details
+          </CardTitle>
+          <p className="text-xs text-muted-foreground">
+            Record the total picked from this section
+          </p>
+        </CardHeader>
+        <CardContent className="pt-0 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label
+                htmlFor="harvestWeightValue"
+                className="block text-sm font-medium text-foreground mb-2"
+              >
+                Weight
+              </label>
+              <input
+                id="harvestWeightValue"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="Weight"
+                {...register("harvestWeightValue", {
+                  setValueAs: (value) =>
+                    value === "" || value === null ? undefined : Number(value),
+                })}
+                className="w-full p-3 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-ring focus:border-ring"
+              />
+              {errors.harvestWeightValue && (
+                <p className="mt-1 text-sm text-red-600" role="alert">
+                  {errors.harvestWeightValue.message}
+                </p>
+              )}
+            </div>
+            <div>
+              <label
+                htmlFor="harvestWeightUnit"
+                className="block text-sm font-medium text-foreground mb-2"
+              >
+                Unit
+              </label>
+              <select
+                id="harvestWeightUnit"
+                {...register("harvestWeightUnit")}
+                className="w-full p-3 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-ring focus:border-ring"
+              >
+                <option value="oz">oz</option>
+                <option value="lbs">lbs</option>
+                <option value="g">g</option>
+                <option value="kg">kg</option>
+              </select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label
+                htmlFor="harvestCount"
+                className="block text-sm font-medium text-foreground mb-2"
+              >
+                Piece Count
+              </label>
+              <input
+                id="harvestCount"
+                type="number"
+                min="1"
+                step="1"
+                placeholder="e.g. 12 berries"
+                {...register("harvestCount", {
+                  setValueAs: (value) =>
+                    value === "" || value === null ? undefined : Number(value),
+                })}
+                className="w-full p-3 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-ring focus:border-ring"
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="harvestPortion"
+                className="block text-sm font-medium text-foreground mb-2"
+              >
+                Portion Harvested
+              </label>
+              <select
+                id="harvestPortion"
+                {...register("harvestPortion", {
+                  setValueAs: (value) => value || undefined,
+                })}
+                className="w-full p-3 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-ring focus:border-ring"
+              >
+                <option value="">Not specified</option>
+                <option value="whole-plant">Whole plant</option>
+                <option value="outer-leaves">Outer leaves</option>
+                <option value="cut-and-come-again">Cut and come again</option>
+                <option value="fruit">Fruit</option>
+                <option value="roots">Roots</option>
+                <option value="flowers">Flowers</option>
+              </select>
+            </div>
+          </div>
+          <div>
+            <label
+              htmlFor="harvestQuality"
+              className="block text-sm font-medium text-foreground mb-2"
+            >
+              Quality
+            </label>
+            <select
+              id="harvestQuality"
+              {...register("harvestQuality", {
+                setValueAs: (value) => value || undefined,
+              })}
+              className="w-full p-3 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-ring focus:border-ring"
+            >
+              <option value="">Not specified</option>
+              <option value="excellent">Excellent</option>
+              <option value="good">Good</option>
+              <option value="fair">Fair</option>
+              <option value="poor">Poor</option>
+              <option value="unsaleable">Unsaleable</option>
+            </select>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderIssueFields = () => {
+    const catalogEntry = issueCatalogId
+      ? PlantIssueService.getCatalogEntry(issueCatalogId)
+      : undefined;
+    const categories = [
+      { value: "pest", label: "Pests" },
+      { value: "disease", label: "Diseases" },
+      { value: "disorder", label: "Disorders" },
+    ] as const;
+    const toggleAffectedPart = (part: (typeof AFFECTED_PARTS)[number]) => {
+      setValue(
+        "issueAffectedParts",
+        issueAffectedParts.includes(part)
+          ? issueAffectedParts.filter((p) => p !== part)
+          : [...issueAffectedParts, part]
+      );
+    };
+
+    return (
+      <Card className="border-border shadow-sm">
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2 text-base">
+            🐛 Pest / Disease Details
+          </CardTitle>
+          <p className="text-xs text-muted-foreground">
+            Logging a treatment schedules re-inspection reminders
+          </p>
+        </CardHeader>
+        <CardContent className="pt-0 space-y-4">
+          {openIssues.length > 0 && (
+            <div>
+              <label
+                htmlFor="issueId"
+                className="block text-sm font-medium text-foreground mb-2"
+              >
+                Issue
+              </label>
+              <select
+                id="issueId"
+                {...register("issueId")}
+                className="w-full p-3 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-ring focus:border-ring"
+              >
+                <option value="">New issue</option>
+                {openIssues.map((issue) => (
+                  <option key={issue.issueId} value={issue.issueId}>
+                    {issue.name} (reported {format(issue.firstReported, "MMM d")})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <label
+              htmlFor="issueCatalogId"
+              className="block text-sm font-medium text-foreground mb-2"
+            >
+              Problem
+            </label>
+            <select
+              id="issueCatalogId"
+              {...register("issueCatalogId", {
+                setValueAs: (value) => value || undefined,
+              })}
+              className="w-full p-3 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-ring focus:border-ring"
+            >
+              <option value="">Select a problem...</option>
+              {categories.map((category) => (
+                <optgroup key={category.value} label={category.label}>
+                  {pestDiseaseCatalog
+                    .filter((entry) => entry.category === category.value)
+                    .map((entry) => (
+                      <option key={entry.id} value={entry.id}>
+                        {entry.name}
+                      </option>
+                    ))}
+                </optgroup>
+              ))}
+            </select>
+            {catalogEntry && (
+              <p className="mt-1 text-xs text-muted-foreground">{catalogEntry.signs}</p>
+            )}
+            {errors.issueCatalogId && (
+              <p className="mt-1 text-sm text-red-600" role="alert">
+                {errors.issueCatalogId.message}
+              </p>
+            )}
+          </div>
+          <div>
+            <span className="block text-sm font-medium text-foreground mb-2">
+              Affected Parts
+            </span>
+            <div className="flex flex-wrap gap-2">
+              {AFFECTED_PARTS.map((part) => (
+                <label
+                  key={part}
+                  className="flex items-center gap-2 px-3 py-2 border border-border rounded-lg text-sm capitalize cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={issueAffectedParts.includes(part)}
+                    onChange={() => toggleAffectedPart(part)}
+                  />
+                  {part.replace(/-/g, " ")}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label
+                htmlFor="issueSeverity"
+                className="block text-sm font-medium text-foreground mb-2"
+              >
+                Severity
+              </label>
+              <select
+                id="issueSeverity"
+                {...register("issueSeverity")}
+                className="w-full p-3 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-ring focus:border-ring"
+              >
+                <option value="low">Low</option>
+                <option value="moderate">Moderate</option>
+                <option value="severe">Severe</option>
+              </select>
+            </div>
+            <div>
+              <label
+                htmlFor="issueSpread"
+                className="block text-sm font-medium text-foreground mb-2"
+              >
+                Spread
+              </label>
+              <select
+                id="issueSpread"
+                {...register("issueSpread")}
+                className="w-full p-3 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-ring focus:border-ring"
+              >
+                <option value="isolated">Isolated</option>
+                <option value="spreading">Spreading</option>
+                <option value="widespread">Widespread</option>
+              </select>
+            </div>
+          </div>
+          <div>
+            <label
+              htmlFor="issueStatus"
+              className="block text-sm font-medium text-foreground mb-2"
+            >
+              Status
+            </label>
+            <select
+              id="issueStatus"
+              {...register("issueStatus")}
+              className="w-full p-3 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-ring focus:border-ring"
+            >
+              <option value="open">Open</option>
+              <option value="resolved">Resolved</option>
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label
+                htmlFor="treatmentProduct"
+                className="block text-sm font-medium text-foreground mb-2"
+              >
+                Treatment
+              </label>
+              <input
+                id="treatmentProduct"
+                type="text"
+                placeholder="e.g. Neem oil"
+                {...register("treatmentProduct")}
+                className="w-full p-3 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-ring focus:border-ring"
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="treatmentMethod"
+                className="block text-sm font-medium text-foreground mb-2"
+              >
+                Method
+              </label>
+              <select
+                id="treatmentMethod"
+                {...register("treatmentMethod", {
+                  setValueAs: (value) => value || undefined,
+                })}
+                className="w-full p-3 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-ring focus:border-ring"
+              >
+                <option value="">No treatment</option>
+                {TREATMENT_METHODS.map((method) => (
+                  <option key={method} value={method}>
+                    {PlantIssueService.getTreatmentMethodLabel(method)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label
+              htmlFor="treatmentDilution"
+              className="block text-sm font-medium text-foreground mb-2"
+            >
+              Dilution
+            </label>
+            <input
+              id="treatmentDilution"
+              type="text"
+              placeholder="e.g. 1 tsp/quart"
+              {...register("treatmentDilution")}
+              className="w-full p-3 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-ring focus:border-ring"
+            />
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
   const renderActivitySpecificFields = () => {
     switch (activityType) {
       case "water":
@@ -1510,6 +2056,10 @@ export function CareLogForm({
         return renderFertilizingFields();
       case "moisture":
         return renderMoistureFields();
+      case "harvest":
+        return renderHarvestFields();
+      case "issue":
+        return renderIssueFields();
       default:
         return null;
     }
@@ -1658,6 +2208,8 @@ export function CareLogForm({
                     <option value="photo">📸 Photo Log</option>
                     <option value="note">📝 General Note</option>
                     <option value="pruning">✂️ Pruning</option>
+                    <option value="harvest">🌾 Harvest</option>
+                    <option value="issue">🐛 Pest / Disease</option>
                   </select>
                   {errors.type && (
                     <p className="mt-1 text-sm text-red-600" role="alert">
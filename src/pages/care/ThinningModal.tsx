@@ -11,6 +11,7 @@ interface ThinningModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSubmit?: (data: {
+    originalCount: number;
     finalCount: number;
     reason: ThinningReason;
     notes: string;
@@ -23,12 +24,16 @@ const ThinningModal = ({
   onClose,
   onSubmit,
 }: ThinningModalProps) => {
-  const [finalCount, setFinalCount] = useState(plant.currentPlantCount || 1);
+  const [originalCount, setOriginalCount] = useState(
+    plant.currentPlantCount || plant.seedsSown || 1
+  );
+  const [finalCount, setFinalCount] = useState(1);
   const [reason, setReason] = useState<ThinningReason>("overcrowding");
   const [notes, setNotes] = useState("");
 
   const handleSubmit = () => {
     onSubmit?.({
+      originalCount,
       finalCount,
       reason,
       notes,
@@ -49,11 +54,33 @@ const ThinningModal = ({
             </Button>
           </CardTitle>
           <p className="text-sm text-muted-foreground">
-            Reduce from{" "}
-            {plant.currentPlantCount || plant.originalPlantCount || 1} plants
+            Reduce from {originalCount} plants
           </p>
         </CardHeader>
         <CardContent className="space-y-4">
+          <div>
+            <label
+              htmlFor="original-count"
+              className="text-sm font-medium block mb-2"
+            >
+              Seedlings That Came Up
+            </label>
+            <Input
+              id="original-count"
+              type="number"
+              min="1"
+              step="1"
+              value={originalCount}
+              onChange={(e) => setOriginalCount(parseInt(e.target.value))}
+            />
+            {!!plant.seedsSown && !plant.lastThinningDate && (
+              <p className="mt-1 text-xs text-muted-foreground">
+                {plant.seedsSown} seeds were sown here; this updates the
+                packet's germination rate
+              </p>
+            )}
+          </div>
+
           <div>
             <label
               htmlFor="final-count"
@@ -68,7 +95,7 @@ const ThinningModal = ({
               step="1"
               value={finalCount}
               onChange={(e) => setFinalCount(parseInt(e.target.value))}
-              max={plant.currentPlantCount || plant.originalPlantCount || 1}
+              max={originalCount}
             />
           </div>
 
@@ -110,7 +137,7 @@ const ThinningModal = ({
           <div className="flex gap-3">
             <Button
               onClick={handleSubmit}
-              disabled={finalCount >= (plant.currentPlantCount || 1)}
+              disabled={!(finalCount >= 1) || finalCount >= originalCount}
               className="flex-1"
             >
               Log Thinning
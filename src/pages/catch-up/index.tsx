@@ -4,18 +4,23 @@ import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/Button";
 import { Card, CardContent } from "@/components/ui/Card";
 import { useFirebasePlants } from "@/hooks/useFirebasePlants";
-import { useFirebaseAuth } from "@/hooks/useFirebaseAuth";
+import { useActiveGarden } from "@/hooks/useGardens";
 import { useScheduledTasks } from "@/hooks/useScheduledTasks";
+import { useTaskDeferral } from "@/hooks/useTaskDeferral";
+import TaskDeferControls from "@/components/shared/TaskDeferControls";
+import { TaskDeferRequest } from "@/services/taskDeferralService";
 import { FirebaseCareSchedulingService } from "@/services/firebaseCareSchedulingService";
 import { FirebaseCareActivityService } from "@/services/firebase/careActivityService";
 import { ArrowLeft, Filter, X } from "lucide-react";
 import { UpcomingTask } from "@/types";
+import { formatDate } from "@/utils/dateUtils";
 
 export const CatchUpPage = () => {
   const navigate = useNavigate();
   const { plants, loading } = useFirebasePlants();
-  const { user } = useFirebaseAuth();
-  const { getUpcomingFertilizationTasks } = useScheduledTasks();
+  const { gardenId } = useActiveGarden();
+  const { tasks: scheduledTasks, getUpcomingFertilizationTasks } = useScheduledTasks();
+  const { deferTasks } = useTaskDeferral(scheduledTasks);
   const [upcomingTasks, setUpcomingTasks] = useState<UpcomingTask[]>([]);
   const [tasksLoading, setTasksLoading] = useState(true);
   const [activityFilter, setActivityFilter] = useState<string>("all");
@@ -25,14 +30,14 @@ export const CatchUpPage = () => {
   // Load upcoming tasks
   useEffect(() => {
     const loadTasks = async () => {
-      if (!plants || !user?.uid) {
+      if (!plants || !gardenId) {
         setTasksLoading(false);
         return;
       }
 
       try {
         const getLastActivityByType = async (plantId: string, type: any) => {
-          return FirebaseCareActivityService.getLastActivityByType(plantId, user.uid, type);
+          return FirebaseCareActivityService.getLastActivityByType(plantId, gardenId, type);
         };
         
         // Get standard care tasks (watering, observation)
@@ -92,6 +97,7 @@ export const CatchUpPage = () => {
             // Add this plant to the existing group
             const existingTask = groupedTasks.get(groupKey);
             existingTask.plantIds.push(task.plantId);
+            existingTask.taskIds.push(task.id);
             existingTask.plantCount = existingTask.plantIds.length;
             existingTask.affectedPlants.push({
               id: plant.id,
@@ -104,6 +110,7 @@ export const CatchUpPage = () => {
               ...task,
               id: `grouped-catchup-${groupKey}`, // Use different ID to avoid conflicts
               plantIds: [task.plantId], // Array of all plant IDs in this group
+              taskIds: [task.id], // Scheduled tasks behind this group, for snoozing
               plantCount: 1,
               varietyName: plant.varietyName,
               affectedPlants: [{
@@ -169,6 +176,8 @@ export const CatchUpPage = () => {
             priority,
             category: 'fertilizing' as const,
             plantStage: plantStage as any, // Use calculated stage
+            scheduledTaskIds: task.taskIds,
+            ...(task.originalDueDate && { originalDueDate: task.originalDueDate }),
           };
         });
         
@@ -185,7 +194,16 @@ export const CatchUpPage = () => {
     };
 
     loadTasks();
-  }, [plants, user?.uid]); // Remove getUpcomingFertilizationTasks to prevent infinite loop
+  }, [plants, gardenId]); // Remove getUpcomingFertilizationTasks to prevent infinite loop
+
+  // Moved tasks leave the list; they come back at their new date on the next load
+  const handleDefer = async (task: UpcomingTask, request: TaskDeferRequest) => {
+    if (!task.scheduledTaskIds) return;
+    const moved = await deferTasks(task.scheduledTaskIds, request);
+    if (moved) {
+      setUpcomingTasks((prev) => prev.filter((t) => t.id !== task.id));
+    }
+  };
 
   // Filtered tasks and filter options
   const filteredTasks = useMemo(() => {
@@ -412,6 +430,11 @@ export const CatchUpPage = () => {
                       <p className="text-muted-foreground mb-2">
                         <strong className="text-foreground">{task.task}</strong> - {task.dueIn}
                       </p>
+                      {task.originalDueDate && (
+                        <p className="text-xs text-muted-foreground mb-2">
+                          Originally due {formatDate(task.originalDueDate)}
+                        </p>
+                      )}
                       
                       <div className="text-sm text-muted-foreground">
                         Growth Stage: <span className="text-foreground">{task.plantStage}</span> | Category: <span className="text-foreground">{task.category}</span>
@@ -532,6 +555,11 @@ export const CatchUpPage = () => {
                       )}
                     </div>
                   </div>
+                  {task.scheduledTaskIds && task.scheduledTaskIds.length > 0 && (
+                    <div className="mt-3">
+                      <TaskDeferControls onDefer={(request) => handleDefer(task, request)} />
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             ))}
@@ -3,8 +3,9 @@
 import React, { useState } from "react";
 import { Card, CardContent, CardHeader } from "@/components/ui/Card";
 import TaskItem from "./TaskItem";
-import { TaskGroup as TaskGroupType } from "@/types";
+import { TaskGroup as TaskGroupType, UpcomingTask } from "@/types";
 import { QuickCompletionValues } from "@/services/smartDefaultsService";
+import { TaskDeferRequest } from "@/services/taskDeferralService";
 
 interface TaskGroupProps {
   group: TaskGroupType;
@@ -13,6 +14,7 @@ interface TaskGroupProps {
     values: QuickCompletionValues
   ) => Promise<void>;
   onBypass?: (taskId: string, reason: string) => Promise<void>;
+  onDefer?: (task: UpcomingTask, request: TaskDeferRequest) => Promise<void>;
   onToggleExpanded?: (groupType: string) => void;
 }
 
@@ -20,6 +22,7 @@ const TaskGroup: React.FC<TaskGroupProps> = ({
   group,
   onQuickComplete,
   onBypass,
+  onDefer,
   onToggleExpanded,
 }) => {
   const [isExpanded, setIsExpanded] = useState(group.isExpanded);
@@ -86,6 +89,7 @@ const TaskGroup: React.FC<TaskGroupProps> = ({
                 task={task}
                 onQuickComplete={onQuickComplete}
                 onBypass={onBypass}
+                onDefer={onDefer}
               />
             ))}
           </div>
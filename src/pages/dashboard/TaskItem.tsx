@@ -3,12 +3,15 @@ import React, { useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/Button";
 import { StatusBadge } from "@/components/ui/StatusBadge";
+import TaskDeferControls from "@/components/shared/TaskDeferControls";
 import { UpcomingTask } from "@/types";
 import { CheckCircle2, Clock } from "lucide-react";
 import {
   QuickCompleteOption,
   QuickCompletionValues,
 } from "@/services/smartDefaultsService";
+import { TaskDeferRequest } from "@/services/taskDeferralService";
+import { formatDate } from "@/utils/dateUtils";
 
 interface TaskItemProps {
   task: UpcomingTask;
@@ -17,6 +20,7 @@ interface TaskItemProps {
     values: QuickCompletionValues
   ) => Promise<void>;
   onBypass?: (taskId: string, reason: string) => Promise<void>;
+  onDefer?: (task: UpcomingTask, request: TaskDeferRequest) => Promise<void>;
   className?: string;
 }
 
@@ -24,6 +28,7 @@ const TaskItem: React.FC<TaskItemProps> = ({
   task,
   onQuickComplete,
   onBypass,
+  onDefer,
   className = "",
 }) => {
   const navigate = useNavigate();
@@ -124,6 +129,11 @@ const TaskItem: React.FC<TaskItemProps> = ({
             <p className={`text-xs ${getPriorityColor(task.priority)}`}>
               {task.dueIn}
             </p>
+            {task.originalDueDate && (
+              <p className="text-xs text-muted-foreground">
+                Originally due {formatDate(task.originalDueDate)}
+              </p>
+            )}
           </div>
 
           <div className="flex flex-col gap-2 ml-4">
@@ -172,6 +182,12 @@ const TaskItem: React.FC<TaskItemProps> = ({
                 Log Manually
               </Button>
             </div>
+            {onDefer && task.scheduledTaskIds && task.scheduledTaskIds.length > 0 && (
+              <TaskDeferControls
+                onDefer={(request) => onDefer(task, request)}
+                disabled={isLoading}
+              />
+            )}
           </div>
         </div>
       </div>
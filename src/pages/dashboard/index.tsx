@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/Button";
 import { Card, CardContent } from "@/components/ui/Card";
 import { OfflineIndicator } from "@/components/ui/OfflineIndicator";
 import { useFirebaseAuth } from "@/hooks/useFirebaseAuth";
+import { useActiveGarden } from "@/hooks/useGardens";
 import { useFirebasePlants } from "@/hooks/useFirebasePlants";
 import { useFirebaseCareActivities } from "@/hooks/useFirebaseCareActivities";
 import { useNavigate } from "react-router-dom";
@@ -17,7 +18,15 @@ import PlantGroupCard from "@/components/plant/PlantGroupCard";
 import BulkActivityModal from "@/components/plant/BulkActivityModal";
 import { QuickActionType } from "@/components/shared/QuickActionButtons";
 import { useScheduledTasks } from "@/hooks/useScheduledTasks";
+import { useTaskDeferral } from "@/hooks/useTaskDeferral";
+import { TaskDeferRequest } from "@/services/taskDeferralService";
 import FertilizationDashboardSection from "@/components/fertilization/FertilizationDashboardSection";
+import InventoryShortfallAlert from "@/components/inventory/InventoryShortfallAlert";
+import SitterSummaryCard from "@/components/dashboard/SitterSummaryCard";
+import SensorAlertsCard from "@/components/dashboard/SensorAlertsCard";
+import CatalogueUpdateCard from "@/components/dashboard/CatalogueUpdateCard";
+import { useInventory } from "@/hooks/useInventory";
+import { InventoryService } from "@/services/inventoryService";
 import toast from "react-hot-toast";
 import { QuickCompletionValues } from "@/services/smartDefaultsService";
 import { DynamicSchedulingService } from "@/services/dynamicSchedulingService";
@@ -34,6 +43,7 @@ import {
 export const Dashboard = () => {
   const { plants, loading } = useFirebasePlants();
   const { user, signOut } = useFirebaseAuth();
+  const { gardenId } = useActiveGarden();
   const { logActivity } = useFirebaseCareActivities();
   const navigate = useNavigate();
   const [plantGroups, setPlantGroups] = useState<PlantGroup[]>([]);
@@ -54,10 +64,17 @@ export const Dashboard = () => {
 
   const {
     getUpcomingFertilizationTasks,
-    // ❌ REMOVED: tasks,
+    tasks: scheduledTasks,
     // ❌ REMOVED: loading: scheduleLoading,
     error,
   } = useScheduledTasks();
+  const { deferTasks } = useTaskDeferral(scheduledTasks);
+  const { items: inventoryItems } = useInventory();
+
+  const inventoryShortfalls = useMemo(
+    () => InventoryService.getShortfalls(inventoryItems, scheduledTasks),
+    [inventoryItems, scheduledTasks]
+  );
 
   // Define helper functions before using them in useMemo
   // Get all visible plants (not in hidden groups)
@@ -177,6 +194,7 @@ export const Dashboard = () => {
         // Add this plant to the existing group
         const existingTask = groupedTasks.get(groupKey);
         existingTask.plantIds.push(task.plantId);
+        existingTask.taskIds.push(task.id);
         existingTask.plantCount = existingTask.plantIds.length;
         existingTask.affectedPlants.push({
           id: plant.id,
@@ -189,6 +207,7 @@ export const Dashboard = () => {
           ...task,
           id: `grouped-${groupKey}`, // Use a grouped ID
           plantIds: [task.plantId], // Array of all plant IDs in this group
+          taskIds: [task.id], // Scheduled tasks behind this group, for snoozing
           plantCount: 1,
           varietyName: plant.varietyName,
           affectedPlants: [
@@ -213,11 +232,11 @@ export const Dashboard = () => {
     const loadCatchUpCount = async () => {
       console.log("🚀 loadCatchUpCount called", {
         plantsLength: plants?.length,
-        userUid: user?.uid,
+        gardenId,
         careStatusLoading,
       });
 
-      if (!plants || !user?.uid) {
+      if (!plants || !gardenId) {
         console.log("❌ Early exit - no plants or user");
         setPlantsNeedingCatchUp(0);
         setCareStatusLoading(false);
@@ -255,7 +274,7 @@ export const Dashboard = () => {
         const getLastActivityByType = async (plantId: string, type: any) => {
           return FirebaseCareActivityService.getLastActivityByType(
             plantId,
-            user.uid,
+            gardenId,
             type
           );
         };
@@ -337,7 +356,7 @@ export const Dashboard = () => {
     };
 
     loadCatchUpCount();
-  }, [plants, user?.uid, activityLoggedTrigger, hiddenGroups]); // Remove fertilization dependency to prevent infinite loop
+  }, [plants, gardenId, activityLoggedTrigger, hiddenGroups]); // Remove fertilization dependency to prevent infinite loop
 
   // Save hidden groups to localStorage whenever it changes
   useEffect(() => {
@@ -450,6 +469,12 @@ export const Dashboard = () => {
     );
   };
 
+  const handleTaskDefer = async (taskId: string, request: TaskDeferRequest) => {
+    const task = upcomingFertilization.find((t) => t.id === taskId);
+    if (!task) return;
+    await deferTasks(task.taskIds ?? [task.id], request);
+  };
+
   const handleTaskLogActivity = (taskId: string) => {
     const task = upcomingFertilization.find((t) => t.id === taskId);
     if (task) {
@@ -612,6 +637,12 @@ export const Dashboard = () => {
           </div>
         </div>
 
+        <SitterSummaryCard />
+
+        <SensorAlertsCard />
+
+        <CatalogueUpdateCard />
+
         {/* Summary Cards */}
         <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
           {/* Plant Care Status Card - Only catch-up UI element on dashboard */}
@@ -729,11 +760,17 @@ export const Dashboard = () => {
           </Card>
         )}
 
+        <InventoryShortfallAlert
+          shortfalls={inventoryShortfalls}
+          onManageInventory={() => navigate("/inventory")}
+        />
+
         <FertilizationDashboardSection
           tasks={upcomingFertilization}
           onTaskComplete={handleTaskComplete}
           onTaskBypass={handleTaskBypass}
           onTaskLogActivity={handleTaskLogActivity}
+          onTaskDefer={handleTaskDefer}
         />
 
         {/* Plant Groups */}
@@ -0,0 +1,306 @@
+// src/pages/inventory/index.tsx
+import { useMemo, useState } from "react";
+import toast from "react-hot-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { Badge } from "@/components/ui/Badge";
+import { Input } from "@/components/ui/Input";
+import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
+import InventoryItemForm from "@/components/inventory/InventoryItemForm";
+import InventoryShortfallAlert from "@/components/inventory/InventoryShortfallAlert";
+import SeedPacketForm from "@/components/inventory/SeedPacketForm";
+import { useInventory } from "@/hooks/useInventory";
+import { useSeedPackets } from "@/hooks/useSeedPackets";
+import { useScheduledTasks } from "@/hooks/useScheduledTasks";
+import { InventoryService } from "@/services/inventoryService";
+import { SeedPacketService } from "@/services/seedPacketService";
+import { InventoryItemInput } from "@/services/firebase/inventoryService";
+import { SeedPacketInput } from "@/services/firebase/seedPacketService";
+import { InventoryItem, SeedPacket } from "@/types";
+
+const Inventory = () => {
+  const { items, loading, error, addItem, updateItem, deleteItem, restockItem } = useInventory();
+  const {
+    packets,
+    loading: packetsLoading,
+    error: packetsError,
+    addPacket,
+    updatePacket,
+    deletePacket,
+  } = useSeedPackets();
+  const { tasks } = useScheduledTasks();
+  const [adjustingId, setAdjustingId] = useState<string | null>(null);
+  const [adjustValue, setAdjustValue] = useState("");
+  const [countingPacketId, setCountingPacketId] = useState<string | null>(null);
+  const [packetCount, setPacketCount] = useState("");
+
+  const shortfalls = useMemo(
+    () => InventoryService.getShortfalls(items, tasks),
+    [items, tasks]
+  );
+
+  const handleAdd = async (item: InventoryItemInput) => {
+    try {
+      await addItem(item);
+      toast.success(`Added ${item.name}`);
+    } catch (err) {
+      console.error("Failed to add inventory item:", err);
+      toast.error("Failed to add product");
+    }
+  };
+
+  const handleRestock = async (item: InventoryItem) => {
+    try {
+      await restockItem(item);
+      toast.success(`${item.name} restocked`);
+    } catch (err) {
+      console.error("Failed to restock inventory item:", err);
+      toast.error("Failed to restock");
+    }
+  };
+
+  const handleAdjust = async (item: InventoryItem) => {
+    const value = Number(adjustValue);
+    if (adjustValue === "" || !(value >= 0)) {
+      toast.error("Enter how much is left");
+      return;
+    }
+    try {
+      await updateItem(item.id, { remaining: value });
+      setAdjustingId(null);
+    } catch (err) {
+      console.error("Failed to adjust inventory item:", err);
+      toast.error("Failed to update remaining amount");
+    }
+  };
+
+  const handleDelete = async (item: InventoryItem) => {
+    if (!window.confirm(`Remove ${item.name} from your inventory?`)) return;
+    try {
+      await deleteItem(item.id);
+    } catch (err) {
+      console.error("Failed to delete inventory item:", err);
+      toast.error("Failed to remove product");
+    }
+  };
+
+  const handleAddPacket = async (packet: SeedPacketInput) => {
+    try {
+      await addPacket(packet);
+      toast.success(`Added ${packet.varietyName} seed`);
+    } catch (err) {
+      console.error("Failed to add seed packet:", err);
+      toast.error("Failed to add seed packet");
+    }
+  };
+
+  const handleCountPacket = async (packet: SeedPacket) => {
+    const value = Number(packetCount);
+    if (packetCount === "" || !Number.isInteger(value) || value < 0) {
+      toast.error("Enter how many seeds are left");
+      return;
+    }
+    try {
+      await updatePacket(packet.id, { seedCount: value });
+      setCountingPacketId(null);
+    } catch (err) {
+      console.error("Failed to update seed packet:", err);
+      toast.error("Failed to update seed count");
+    }
+  };
+
+  const handleDeletePacket = async (packet: SeedPacket) => {
+    if (!window.confirm(`Remove this ${packet.varietyName} packet?`)) return;
+    try {
+      await deletePacket(packet.id);
+    } catch (err) {
+      console.error("Failed to delete seed packet:", err);
+      toast.error("Failed to remove seed packet");
+    }
+  };
+
+  return (
+    <div className="space-y-6 py-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Inventory</h1>
+        <p className="text-sm text-muted-foreground">
+          Logged fertilizer applications and registered plants are taken off stock automatically
+        </p>
+      </div>
+
+      <InventoryShortfallAlert shortfalls={shortfalls} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>🧴 On the Shelf</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {loading && (
+            <div className="flex items-center justify-center py-4">
+              <LoadingSpinner />
+            </div>
+          )}
+          {error && <p className="text-sm text-red-600">Error loading inventory: {error}</p>}
+          {!loading && items.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No products yet. Add the fertilizers and amendments you have on hand below.
+            </p>
+          )}
+          {items.map((item) => {
+            const percent = InventoryService.getRemainingPercent(item);
+            return (
+              <div key={item.id} className="p-3 border border-border rounded-lg space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <div className="font-medium text-foreground">{item.name}</div>
+                    <div className="text-xs text-muted-foreground capitalize">
+                      {item.category} · {item.form}
+                      {item.npk && ` · ${item.npk}`}
+                    </div>
+                  </div>
+                  <Badge size="sm" variant={percent <= 20 ? "destructive" : "outline"}>
+                    {InventoryService.formatQuantity(item.remaining, item)} of{" "}
+                    {InventoryService.formatQuantity(item.containerSize, item)}
+                  </Badge>
+                </div>
+                <div className="h-2 bg-muted rounded-full overflow-hidden">
+                  <div
+                    className={`h-full ${percent <= 20 ? "bg-red-500" : "bg-green-500"}`}
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+                {adjustingId === item.id ? (
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={adjustValue}
+                      onChange={(e) => setAdjustValue(e.target.value)}
+                      aria-label={`Remaining ${item.unit}`}
+                      className="w-32"
+                    />
+                    <span className="text-sm text-muted-foreground">{item.unit}</span>
+                    <Button size="sm" onClick={() => handleAdjust(item)}>
+                      Save
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setAdjustingId(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => handleRestock(item)}>
+                      Restock
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setAdjustingId(item.id);
+                        setAdjustValue(String(Math.round(item.remaining * 100) / 100));
+                      }}
+                    >
+                      Adjust
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(item)}>
+                      Remove
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <InventoryItemForm onSubmit={handleAdd} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>🌰 Seed Packets</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {packetsLoading && (
+            <div className="flex items-center justify-center py-4">
+              <LoadingSpinner />
+            </div>
+          )}
+          {packetsError && (
+            <p className="text-sm text-red-600">Error loading seed packets: {packetsError}</p>
+          )}
+          {!packetsLoading && packets.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No seed packets yet. Packets added here can be picked when registering plants.
+            </p>
+          )}
+          {packets.map((packet) => {
+            const measured = SeedPacketService.getMeasuredGerminationRate(packet);
+            const rate = measured ?? SeedPacketService.estimateGerminationRate(packet);
+            return (
+              <div key={packet.id} className="p-3 border border-border rounded-lg space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <div className="font-medium text-foreground">{packet.varietyName}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {packet.supplier || "Unknown supplier"} · {packet.purchaseYear}
+                      {packet.lot && ` · lot ${packet.lot}`}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {measured !== null
+                        ? `${SeedPacketService.formatRate(rate)} germination measured (${packet.seedsGerminated} of ${packet.seedsSown} seeds)`
+                        : `~${SeedPacketService.formatRate(rate)} germination expected for its age`}
+                    </div>
+                  </div>
+                  <Badge size="sm" variant={packet.seedCount === 0 ? "destructive" : "outline"}>
+                    {packet.seedCount} seeds
+                  </Badge>
+                </div>
+                {countingPacketId === packet.id ? (
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={packetCount}
+                      onChange={(e) => setPacketCount(e.target.value)}
+                      aria-label="Seeds left"
+                      className="w-32"
+                    />
+                    <span className="text-sm text-muted-foreground">seeds</span>
+                    <Button size="sm" onClick={() => handleCountPacket(packet)}>
+                      Save
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setCountingPacketId(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setCountingPacketId(packet.id);
+                        setPacketCount(String(packet.seedCount));
+                      }}
+                    >
+                      Adjust
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDeletePacket(packet)}>
+                      Remove
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <SeedPacketForm onSubmit={handleAddPacket} />
+    </div>
+  );
+};
+
+export default Inventory;
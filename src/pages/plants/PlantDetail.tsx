@@ -7,8 +7,9 @@ import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
 import { FirebasePlantService } from "@/services/firebase/plantService";
 import { FirebaseCareActivityService } from "@/services/firebase/careActivityService";
 import { useFirebaseAuth } from "@/hooks/useFirebaseAuth";
+import { useActiveGarden } from "@/hooks/useGardens";
 import { useFirebaseCareActivities } from "@/hooks/useFirebaseCareActivities";
-import { PlantRecord, GrowthStage } from "@/types";
+import { PlantRecord, GrowthStage, ThinningReason } from "@/types";
 import CareHistory from "@/components/plant/CareHistory";
 import PlantReminderSettings from "@/components/plant/PlantReminderSettings";
 import { getPlantDisplayName } from "@/utils/plantDisplay";
@@ -21,11 +22,19 @@ import { useDynamicStage } from "@/hooks/useDynamicStage";
 import { Badge } from "@/components/ui/Badge";
 import { ArrowLeft } from "lucide-react";
 import { CatchUpAssistant } from "@/components/plant/CatchUpAssistant";
+import HarvestYieldCard from "@/components/plant/HarvestYieldCard";
+import PlantIssuesCard from "@/components/plant/PlantIssuesCard";
+import { usePlantIssues } from "@/hooks/usePlantIssues";
+import { PlantIssue } from "@/services/plantIssueService";
+import ThinningModal from "@/pages/care/ThinningModal";
+import { useSeedPackets } from "@/hooks/useSeedPackets";
+import { FirebaseSeedPacketService } from "@/services/firebase/seedPacketService";
 
 const PlantDetail: React.FC = () => {
   const { plantId } = useParams<{ plantId: string }>();
   const navigate = useNavigate();
   const { user } = useFirebaseAuth();
+  const { gardenId } = useActiveGarden();
 
   const [plant, setPlant] = useState<PlantRecord | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -33,6 +42,7 @@ const PlantDetail: React.FC = () => {
   const [showReminderSettings, setShowReminderSettings] = useState(false);
   const [isStageModalOpen, setIsStageModalOpen] = useState(false);
   const [isRegeneratingTasks, setIsRegeneratingTasks] = useState(false);
+  const [isThinningModalOpen, setIsThinningModalOpen] = useState(false);
 
   useEffect(() => {
     if (!plantId) {
@@ -51,10 +61,14 @@ const PlantDetail: React.FC = () => {
   }, [plantId]);
 
   // Only call the hook when we have a valid plantId
-  const { activities: careHistory } = useFirebaseCareActivities(
+  const { activities: careHistory, logActivity } = useFirebaseCareActivities(
     plantId && typeof plantId === "string" ? plantId : undefined
   );
+  const { packets: seedPackets } = useSeedPackets();
   const plantStage = useDynamicStage(plant!);
+  const { issues, openIssues, containerMateWarnings, resolveIssue } = usePlantIssues(
+    plantId && typeof plantId === "string" ? plantId : undefined
+  );
 
   useEffect(() => {
     if (user) {
@@ -77,7 +91,7 @@ const PlantDetail: React.FC = () => {
       return;
     }
 
-    if (!user?.uid) {
+    if (!user?.uid || !gardenId) {
       setError("User not authenticated");
       setIsLoading(false);
       return;
@@ -95,7 +109,7 @@ const PlantDetail: React.FC = () => {
     setError(null);
 
     const unsubscribe = FirebasePlantService.subscribeToPlantsChanges(
-      user.uid, // Already passing userId
+      gardenId,
       (plants) => {
         const foundPlant = plants.find((p) => p.id === plantId);
         if (foundPlant) {
@@ -110,7 +124,7 @@ const PlantDetail: React.FC = () => {
 
     return () => unsubscribe();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [plantId, user?.uid]);
+  }, [plantId, user?.uid, gardenId]);
 
   const handleConfirmStageChange = async (newStage: GrowthStage) => {
     if (!plant || !user) return;
@@ -119,7 +133,8 @@ const PlantDetail: React.FC = () => {
       await StageManagementService.confirmNewStage(
         plant.id,
         newStage,
-        user.uid
+        user.uid,
+        plant.gardenId ?? gardenId
       );
       toast.dismiss();
       toast.success("Plant stage updated successfully!");
@@ -149,6 +164,57 @@ const PlantDetail: React.FC = () => {
     navigate(`/log-care?${params.toString()}`);
   };
 
+  const handleLogIssue = (issue?: PlantIssue) => {
+    const params = new URLSearchParams();
+    if (plantId) params.set("plantId", plantId);
+    params.set("type", "issue");
+    if (issue) params.set("issueId", issue.issueId);
+    navigate(`/log-care?${params.toString()}`);
+  };
+
+  const handleThinning = async (data: {
+    originalCount: number;
+    finalCount: number;
+    reason: ThinningReason;
+    notes: string;
+  }) => {
+    if (!plant) return;
+    try {
+      await logActivity({
+        plantId: plant.id,
+        type: "thin",
+        date: new Date(),
+        details: {
+          type: "thin",
+          originalCount: data.originalCount,
+          finalCount: data.finalCount,
+          reason: data.reason,
+          ...(data.notes && { notes: data.notes }),
+        },
+      });
+
+      // Only the first thinning reflects what came up from the seeds sown
+      const packet = seedPackets.find((p) => p.id === plant.seedPacketId);
+      if (packet && plant.seedsSown && !plant.lastThinningDate) {
+        await FirebaseSeedPacketService.recordGermination(
+          packet,
+          plant.seedsSown,
+          data.originalCount
+        );
+      }
+
+      await FirebasePlantService.updatePlant(plant.id, {
+        currentPlantCount: data.finalCount,
+        originalPlantCount: plant.originalPlantCount ?? data.originalCount,
+        lastThinningDate: new Date(),
+      });
+      toast.success(`Thinned to ${data.finalCount} from ${data.originalCount} 🌱`);
+    } catch (error) {
+      console.error("Failed to log thinning:", error);
+      toast.error("Failed to log thinning");
+    }
+  };
+
   const handleDeleteActivity = async (activityId: string) => {
     try {
       await FirebaseCareActivityService.deleteCareActivity(activityId);
@@ -268,6 +334,13 @@ const PlantDetail: React.FC = () => {
             >
               {isRegeneratingTasks ? "Regenerating..." : "🔄 Regenerate Tasks"}
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsThinningModalOpen(true)}
+            >
+              Thin Seedlings
+            </Button>
             <Button
               onClick={handleLogCare}
               className="bg-primary hover:bg-primary/90"
@@ -278,7 +351,12 @@ const PlantDetail: React.FC = () => {
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <PlantInfoCard plant={plant} showQuickActions={false} />
+            <PlantInfoCard
+              plant={plant}
+              showQuickActions={false}
+              openIssues={openIssues}
+              issueWarnings={containerMateWarnings}
+            />
             <NextActivityCard plantId={plant.id} onTaskClick={handleLogCare} />
           </div>
 
@@ -293,6 +371,14 @@ const PlantDetail: React.FC = () => {
             }}
           />
 
+          <PlantIssuesCard
+            issues={issues}
+            onResolve={resolveIssue}
+            onLogUpdate={handleLogIssue}
+          />
+
+          <HarvestYieldCard plant={plant} careHistory={careHistory} />
+
           <CareHistory 
             plantId={plant.id} 
             careHistory={careHistory} 
@@ -308,6 +394,16 @@ const PlantDetail: React.FC = () => {
         onConfirm={handleConfirmStageChange}
         onClose={() => setIsStageModalOpen(false)}
       />
+
+      {/* Mounted on open so its counts start from the plant's latest numbers */}
+      {isThinningModalOpen && (
+        <ThinningModal
+          plant={plant}
+          isOpen={isThinningModalOpen}
+          onClose={() => setIsThinningModalOpen(false)}
+          onSubmit={handleThinning}
+        />
+      )}
     </>
   );
 };
@@ -1,11 +1,26 @@
 // src/pages/settings/index.tsx
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import CareReminderSettings from "@/components/settings/CareReminderSettings";
+import GardenSharingSettings from "@/components/settings/GardenSharingSettings";
+import GardenSitterSettings from "@/components/settings/GardenSitterSettings";
+import SensorReadingSettings from "@/components/settings/SensorReadingSettings";
+import UnitsAndRegionSettings from "@/components/settings/UnitsAndRegionSettings";
 
 const Settings = () => {
   return (
     <div className="space-y-6">
       <h1 className="text-2xl font-bold">Settings</h1>
 
+      <GardenSharingSettings />
+
+      <GardenSitterSettings />
+
+      <UnitsAndRegionSettings />
+
+      <CareReminderSettings />
+
+      <SensorReadingSettings />
+
       <Card>
         <CardHeader>
           <CardTitle>Sync Settings</CardTitle>
@@ -0,0 +1,154 @@
+// src/pages/sitter/index.tsx
+import { useState } from "react";
+import { useParams } from "react-router-dom";
+import toast from "react-hot-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
+import QuickCompletionButtons from "@/pages/care/QuickCompletionButtons";
+import { useSitterShare } from "@/hooks/useSitterShares";
+import { QuickCompletionValues } from "@/services/smartDefaultsService";
+import { SitterShareService } from "@/services/sitterShareService";
+import { SitterTask } from "@/types";
+import { formatDate, formatDueIn, formatTime } from "@/utils/dateUtils";
+
+const TASK_ICONS: Partial<Record<SitterTask["activityType"], string>> = {
+  water: "💧",
+  fertilize: "🌱",
+  observe: "👁️",
+};
+
+/**
+ * What a garden sitter sees from their link: the tasks due while the owners
+ * are away, each completed with one tap. No account needed.
+ */
+const SitterPage = () => {
+  const { shareId } = useParams<{ shareId: string }>();
+  const { share, completions, loading, error, completeTask } = useSitterShare(shareId);
+  const [savingTaskId, setSavingTaskId] = useState<string | null>(null);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  const status = share ? SitterShareService.getStatus(share) : null;
+
+  if (!share || status === "expired" || status === "revoked") {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardContent className="p-6 text-center space-y-2">
+            <div className="text-4xl">🌿</div>
+            <h1 className="text-xl font-bold">This link isn't active</h1>
+            <p className="text-muted-foreground">
+              {error ?? "The garden owners have ended this share. Thanks for your help!"}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const handleComplete = async (task: SitterTask, values?: QuickCompletionValues) => {
+    setSavingTaskId(task.id);
+    try {
+      await completeTask(task, values);
+      toast.success(`${task.plantName}: done`);
+    } catch (completeError) {
+      toast.error(
+        completeError instanceof Error ? completeError.message : "Failed to save, try again"
+      );
+    } finally {
+      setSavingTaskId(null);
+    }
+  };
+
+  // Completions arrive oldest first
+  const lastCompletion = (taskId: string) =>
+    [...completions].reverse().find((completion) => completion.taskId === taskId);
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-xl mx-auto space-y-4">
+        <div>
+          <h1 className="text-2xl font-bold">Hi {share.sitterName} 👋</h1>
+          <p className="text-muted-foreground">
+            Thanks for looking after the garden from {formatDate(share.startsAt)} to{" "}
+            {formatDate(share.expiresAt)}.
+          </p>
+        </div>
+
+        {status === "scheduled" ? (
+          <Card>
+            <CardContent className="p-4 text-center text-muted-foreground">
+              Your tasks will appear here on {formatDate(share.startsAt)}.
+            </CardContent>
+          </Card>
+        ) : share.tasks.length === 0 ? (
+          <Card>
+            <CardContent className="p-4 text-center text-muted-foreground">
+              Nothing needs doing right now. Enjoy the garden!
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Tasks</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {share.tasks.map((task) => {
+                const done = lastCompletion(task.id);
+                const saving = savingTaskId === task.id;
+                return (
+                  <div
+                    key={task.id}
+                    className={`border border-border rounded-lg p-3 space-y-2 ${
+                      done ? "bg-green-50 dark:bg-green-950/30" : ""
+                    }`}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <div className="font-medium">
+                          {TASK_ICONS[task.activityType] ?? "📋"} {task.plantName}
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          {task.task} · {formatDueIn(task.dueDate)}
+                        </div>
+                      </div>
+                      {done ? (
+                        <span className="text-sm text-green-700 dark:text-green-300 whitespace-nowrap">
+                          ✓ Done {formatDate(done.completedAt)} {formatTime(done.completedAt)}
+                        </span>
+                      ) : (
+                        <Button
+                          size="sm"
+                          disabled={saving}
+                          onClick={() => handleComplete(task)}
+                        >
+                          {saving ? "Saving..." : "Done"}
+                        </Button>
+                      )}
+                    </div>
+                    {!done && (task.activityType === "water" || task.activityType === "fertilize") && (
+                      <QuickCompletionButtons
+                        plant={task.plant}
+                        activityType={task.activityType}
+                        onQuickComplete={(values) => handleComplete(task, values)}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SitterPage;
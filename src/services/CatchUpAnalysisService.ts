@@ -80,7 +80,7 @@ export class CatchUpAnalysisService {
   // Main method to find missed opportunities for a specific plant
   static async findMissedOpportunitiesWithUserId(
     plantId: string,
-    userId: string,
+    gardenId: string,
     lookbackDays: number = 14,
     plantData?: PlantRecord
   ): Promise<MissedOpportunity[]> {
@@ -92,7 +92,7 @@ export class CatchUpAnalysisService {
       const recentActivities =
         await FirebaseCareActivityService.getRecentActivitiesForPlant(
           plantId,
-          userId,
+          gardenId,
           lookbackDays
         );
       console.log(`findMissedOpportunitiesWithUserId: Found ${recentActivities.length} recent activities.`);
@@ -136,6 +136,7 @@ export class CatchUpAnalysisService {
           water: 9,
           fertilize: 8,
           observe: 7,
+          issue: 7,
           harvest: 6,
           moisture: 5,
           pruning: 5,
@@ -470,7 +471,7 @@ export class CatchUpAnalysisService {
   // Find all missed opportunities for multiple plants
   static async findAllMissedOpportunitiesForUser(
     plants: PlantRecord[],
-    userId: string,
+    gardenId: string,
     lookbackDays: number = 14
   ): Promise<MissedOpportunity[]> {
     const allOpportunities: MissedOpportunity[] = [];
@@ -479,7 +480,7 @@ export class CatchUpAnalysisService {
       try {
         const plantOpportunities = await this.findMissedOpportunitiesWithUserId(
           plant.id,
-          userId,
+          gardenId,
           lookbackDays,
           plant
         );
@@ -507,6 +508,7 @@ export class CatchUpAnalysisService {
         water: 9,
         fertilize: 8,
         observe: 7,
+        issue: 7,
         harvest: 6,
         moisture: 5,
         pruning: 5,
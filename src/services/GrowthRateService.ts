@@ -1,4 +1,4 @@
-import { plantService, varietyService } from "@/types/database";
+import { getPlantService, getVarietyService } from "./serviceRegistry";
 import { differenceInDays } from "date-fns";
 import { estimateStageTransition } from "@/utils/growthStage";
 
@@ -10,10 +10,10 @@ export class GrowthRateService {
    */
   static async updateGrowthRateModifier(plantId: string): Promise<void> {
     try {
-      const plant = await plantService.getPlant(plantId);
+      const plant = await getPlantService().getPlant(plantId);
       if (!plant) throw new Error("Plant not found for growth rate analysis.");
 
-      const variety = await varietyService.getVariety(plant.varietyId);
+      const variety = await getVarietyService().getVariety(plant.varietyId);
       if (!variety)
         throw new Error("Variety not found for growth rate analysis.");
 
@@ -29,7 +29,7 @@ export class GrowthRateService {
       // 1. Get the originally expected date for the confirmed stage.
       const expectedTransitionDate = estimateStageTransition(
         plant.plantedDate,
-        variety.growthTimeline,
+        variety,
         plant.confirmedStage
       );
 
@@ -60,7 +60,7 @@ export class GrowthRateService {
       const growthRateModifier = actualDuration / expectedDuration;
 
       // 5. Update the plant record with the new modifier.
-      await plantService.updatePlant(plant.id, {
+      await getPlantService().updatePlant(plant.id, {
         growthRateModifier,
       });
 
@@ -35,7 +35,11 @@ export class PlantRegistrationService {
         
         // Save tasks to Firebase instead of temporary store
         if (scheduledTasks.length > 0) {
-          await FirebaseScheduledTaskService.createMultipleTasks(scheduledTasks, userId);
+          await FirebaseScheduledTaskService.createMultipleTasks(
+            scheduledTasks,
+            userId,
+            plantData.gardenId ?? userId
+          );
           console.log(`✅ Created ${scheduledTasks.length} scheduled tasks for plant ${plantData.id}`);
         }
         
@@ -134,7 +138,8 @@ export class PlantRegistrationService {
       console.log(`🔄 Regenerating tasks for plant ${plantData.id}...`);
       
       // Delete existing pending tasks for this plant
-      await FirebaseScheduledTaskService.deletePendingTasksForPlant(plantData.id, userId);
+      const gardenId = plantData.gardenId ?? userId;
+      await FirebaseScheduledTaskService.deletePendingTasksForPlant(plantData.id, gardenId);
       
       const variety = await varietyService.getVariety(plantData.varietyId);
       if (!variety) {
@@ -150,7 +155,11 @@ export class PlantRegistrationService {
         
         // Save new tasks to Firebase
         if (scheduledTasks.length > 0) {
-          await FirebaseScheduledTaskService.createMultipleTasks(scheduledTasks, userId);
+          await FirebaseScheduledTaskService.createMultipleTasks(
+            scheduledTasks,
+            userId,
+            gardenId
+          );
           console.log(`✅ Regenerated ${scheduledTasks.length} scheduled tasks for plant ${plantData.id}`);
         }
       }
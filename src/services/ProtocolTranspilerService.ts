@@ -5,22 +5,43 @@ import {
   GrowthStage,
   CareActivityType,
   FertilizationScheduleItem,
-  GrowthTimeline,
   ApplicationMethod,
+  IssueTreatmentMethod,
 } from "@/types";
+import { StageEngine } from "@/utils/stageEngine";
+
+export interface FertilizeTaskDetails {
+  type: "fertilize";
+  product: string;
+  dilution: string;
+  amount: string;
+  method: ApplicationMethod;
+}
+
+// Re-inspection created when a treatment is logged against a pest/disease
+// issue; product, dilution and method describe the treatment being checked
+export interface IssueFollowUpTaskDetails {
+  type: "issue-follow-up";
+  issueId: string;
+  product: string;
+  dilution: string;
+  amount: string;
+  method: IssueTreatmentMethod;
+}
+
+// Why and when a task's due date was last moved off its schedule
+export interface TaskDeferral {
+  kind: "snooze" | "reschedule";
+  reason?: string;
+  deferredAt: Date;
+}
 
 export interface ScheduledTask {
   id: string;
   plantId: string;
   taskName: string;
   taskType: CareActivityType;
-  details: {
-    type: "fertilize";
-    product: string;
-    dilution: string;
-    amount: string;
-    method: ApplicationMethod;
-  };
+  details: FertilizeTaskDetails | IssueFollowUpTaskDetails;
   dueDate: Date;
   status: "pending" | "completed" | "skipped" | "bypassed";
   sourceProtocol: {
@@ -30,22 +51,13 @@ export interface ScheduledTask {
   };
   coordinatedWith?: string[];
   priority?: "low" | "normal" | "high" | "critical";
+  // The due date the schedule first gave, kept across repeated snoozes
+  originalDueDate?: Date;
+  deferral?: TaskDeferral;
   createdAt: Date;
   updatedAt: Date;
 }
 
-// Define the canonical order of growth stages
-const STAGE_ORDER: GrowthStage[] = [
-  "germination",
-  "seedling", 
-  "vegetative",
-  "flowering",
-  "fruiting",
-  "maturation",
-  "ongoing-production",
-  "harvest",
-];
-
 export class ProtocolTranspilerService {
   static async transpileProtocolFromStage(
     plant: PlantRecord,
@@ -58,16 +70,13 @@ export class ProtocolTranspilerService {
       return tasks;
     }
 
-    const startStageIndex = STAGE_ORDER.indexOf(startStage);
-    if (startStageIndex === -1) {
+    const startStagePosition = StageEngine.getStagePosition(variety, startStage);
+    if (startStagePosition === undefined) {
       console.error(`Invalid start stage provided: ${startStage}`);
       return [];
     }
 
-    const anchorStageStartDays = this.calculateStageStartDaysForAnyStage(
-      variety.growthTimeline,
-      startStage
-    );
+    const anchorStageStartDays = StageEngine.getStageStartDay(variety, startStage);
 
     // Process all fertilization protocol stages defined in the variety
     const fertilizationStages = Object.keys(variety.protocols.fertilization);
@@ -80,17 +89,12 @@ export class ProtocolTranspilerService {
       }
 
       // Calculate stage start days using timeline data or custom stages
-      const stageStartDays = this.calculateStageStartDaysForAnyStage(
-        variety.growthTimeline,
-        stageName
-      );
-
-
+      const stageStartDays = StageEngine.getStageStartDay(variety, stageName);
 
       // Check if this stage should be included based on the startStage parameter
-      const currentStageIndex = STAGE_ORDER.indexOf(stageName as GrowthStage);
-      if (currentStageIndex !== -1 && currentStageIndex < startStageIndex) {
-        // Skip stages that come before our start stage in the canonical order
+      const stagePosition = StageEngine.getStagePosition(variety, stageName);
+      if (stagePosition !== undefined && stagePosition < startStagePosition) {
+        // Skip stages that come before our start stage in the variety's progression
         continue;
       }
 
@@ -149,7 +153,7 @@ export class ProtocolTranspilerService {
     }
     
     // For existing plants, determine current stage and generate future tasks from now
-    const currentStage = this.determineCurrentStage(variety.growthTimeline, plantAge);
+    const currentStage = StageEngine.getStageOnDay(variety, plantAge);
     
     return this.transpileProtocolFromStage(
       plant,
@@ -159,115 +163,6 @@ export class ProtocolTranspilerService {
     );
   }
 
-  private static determineCurrentStage(
-    growthTimeline: any,
-    plantAge: number
-  ): GrowthStage {
-    // Calculate cumulative days for each standard stage
-    const germinationEnd = growthTimeline.germination || 0;
-    const establishmentEnd = germinationEnd + (growthTimeline.establishment || 0);
-    const vegetativeEnd = establishmentEnd + (growthTimeline.vegetative || 0);
-    const floweringEnd = vegetativeEnd + (growthTimeline.flowering || 0);
-    const fruitingEnd = floweringEnd + (growthTimeline.fruiting || 0);
-    
-    if (plantAge < germinationEnd) return "germination";
-    if (plantAge < establishmentEnd) return "seedling"; // establishment maps to seedling stage
-    if (plantAge < vegetativeEnd) return "vegetative";
-    if (plantAge < floweringEnd) return "flowering";
-    if (plantAge < fruitingEnd) return "fruiting";
-    
-    // After fruiting, most plants go to maturation or ongoing production
-    return "ongoing-production";
-  }
-
-  private static calculateStageStartDays(
-    growthTimeline: GrowthTimeline, // Corrected from Record<string, number>
-    stageName: GrowthStage
-  ): number {
-    switch (stageName) {
-      case "germination":
-        return 0;
-      case "seedling":
-        return growthTimeline.germination;
-      case "vegetative":
-        return growthTimeline.germination + growthTimeline.seedling;
-      case "flowering":
-        return (
-          growthTimeline.germination +
-          growthTimeline.seedling +
-          growthTimeline.vegetative
-        );
-      case "fruiting":
-      case "maturation":
-      case "ongoing-production":
-      case "harvest":
-        return growthTimeline.maturation;
-      default:
-        console.warn(
-          `Unknown stage name: ${stageName} in calculateStageStartDays`
-        );
-        return 0;
-    }
-  }
-
-  private static calculateStageStartDaysForAnyStage(
-    growthTimeline: any, // Use any to handle extended timelines
-    stageName: string
-  ): number {
-    // Handle special berry stages BEFORE checking timeline directly
-    // This prevents returning duration instead of start day
-    switch (stageName) {
-      case "caneEstablishment":
-      case "establishment":
-        return growthTimeline.germination || 0; // These start after germination
-      case "vegetative":
-        // For strawberries: germination (14) + establishment (14) = 28
-        return (growthTimeline.germination || 0) + (growthTimeline.establishment || growthTimeline.seedling || 0);
-      case "flowering":
-        // For strawberries: germination (14) + establishment (14) + vegetative (28) = 56
-        return (growthTimeline.germination || 0) + 
-               (growthTimeline.establishment || growthTimeline.seedling || 0) + 
-               (growthTimeline.vegetative || 0);
-      case "fruiting":
-        // For strawberries: germination (14) + establishment (14) + vegetative (28) + flowering (28) = 84
-        return (growthTimeline.germination || 0) + 
-               (growthTimeline.establishment || growthTimeline.seedling || 0) + 
-               (growthTimeline.vegetative || 0) + 
-               (growthTimeline.flowering || 0);
-      case "floweringFruiting":
-        // Use floweringFruiting from timeline if available, otherwise use flowering stage
-        return growthTimeline.floweringFruiting || 
-               growthTimeline.flowering || 
-               (growthTimeline.germination || 0) + (growthTimeline.seedling || 0) + (growthTimeline.vegetative || 0);
-      case "ongoing":
-      case "ongoing-production":
-      case "ongoingProduction":
-        // Calculate ongoing production start day as sum of all previous stage durations
-        const germinationDays = growthTimeline.germination || 0;
-        const establishmentDays = growthTimeline.establishment || growthTimeline.seedling || 0;
-        const vegetativeDays = growthTimeline.vegetative || 0;
-        const floweringDays = growthTimeline.flowering || 0;
-        const fruitingDays = growthTimeline.fruiting || 0;
-        return germinationDays + establishmentDays + vegetativeDays + floweringDays + fruitingDays;
-    }
-
-    // Try the standard stage calculation for STAGE_ORDER stages
-    if (STAGE_ORDER.includes(stageName as GrowthStage)) {
-      return this.calculateStageStartDays(growthTimeline, stageName as GrowthStage);
-    }
-
-    // Handle custom stages that might be directly defined in timeline
-    // This should only be used for stages that ARE start days, not durations
-    if (growthTimeline[stageName] !== undefined) {
-      return growthTimeline[stageName];
-    }
-
-    console.warn(
-      `Unknown stage name: ${stageName} in calculateStageStartDaysForAnyStage`
-    );
-    return 0;
-  }
-
   /**
    * Create individual task instances for a schedule item
    */
@@ -284,11 +179,13 @@ export class ProtocolTranspilerService {
     
     // For existing plants using current date as anchor, we need different logic
     const isExistingPlant = plantAge > 7;
+    const isOngoingProduction =
+      StageEngine.resolveStageName(stage) === "ongoing-production";
     
     if (isExistingPlant) {
       // For existing plants, calculate when tasks should have started relative to planted date
       // Special case: ongoingProduction stage startDays are absolute from planted date, not relative to stage start
-      const taskStartDayFromPlanting = (stage === "ongoing-production") ? 
+      const taskStartDayFromPlanting = isOngoingProduction ? 
         scheduleItem.startDays : 
         stageStartDays + scheduleItem.startDays;
       const taskStartDate = new Date(plant.plantedDate.getTime() + taskStartDayFromPlanting * 24 * 60 * 60 * 1000);
@@ -310,7 +207,7 @@ export class ProtocolTranspilerService {
         
         // Generate upcoming tasks (including potentially overdue ones)
         // For ongoing production, extend beyond original repeat count if needed
-        const maxTasks = stage === "ongoing-production" ? Math.max(scheduleItem.repeatCount, missedCycles + 10) : scheduleItem.repeatCount;
+        const maxTasks = isOngoingProduction ? Math.max(scheduleItem.repeatCount, missedCycles + 10) : scheduleItem.repeatCount;
         
         for (let i = missedCycles; i < maxTasks; i++) {
           const dueDate = new Date(taskStartDate.getTime() + i * scheduleItem.frequencyDays * 24 * 60 * 60 * 1000);
@@ -344,7 +241,19 @@ export class ProtocolTranspilerService {
       }
     }
 
-    return tasks;
+    return this.coordinateSeries(tasks);
+  }
+
+  /**
+   * Links each task in a series (the repeats of one schedule item, or the
+   * re-inspections after one treatment) to the tasks after it, so moving one
+   * carries the rest of the series along
+   */
+  static coordinateSeries(tasks: ScheduledTask[]): ScheduledTask[] {
+    return tasks.map((task, index) => {
+      const followUps = tasks.slice(index + 1).map((followUp) => followUp.id);
+      return followUps.length > 0 ? { ...task, coordinatedWith: followUps } : task;
+    });
   }
 
   private static createTask(
@@ -14,13 +14,15 @@ export class StageManagementService {
    * @param plantId - The ID of the plant being updated.
    * @param newStage - The new GrowthStage confirmed by the user.
    * @param userId - The ID of the current user.
+   * @param gardenId - The garden the plant belongs to; defaults to the user's personal garden.
    */
   static async confirmNewStage(
     plantId: string,
     newStage: GrowthStage,
-    userId: string
+    userId: string,
+    gardenId: string = userId
   ): Promise<void> {
-    const plant = await FirebasePlantService.getPlant(plantId, userId);
+    const plant = await FirebasePlantService.getPlant(plantId, gardenId);
     if (!plant) throw new Error("Plant not found during stage update.");
 
     const variety = await varietyService.getVariety(plant.varietyId);
@@ -37,8 +39,8 @@ export class StageManagementService {
     // 2. Delete all future pending tasks for this plant.
     await FirebaseScheduledTaskService.deletePendingTasksForPlant(
       plantId,
-      userId
-    ); // ✅ Pass userId
+      gardenId
+    );
 
     // 3. Recalculate and create new tasks from this new anchor date.
     const updatedPlant = {
@@ -53,7 +55,7 @@ export class StageManagementService {
     );
 
     if (newTasks.length > 0) {
-      await FirebaseScheduledTaskService.createMultipleTasks(newTasks, userId);
+      await FirebaseScheduledTaskService.createMultipleTasks(newTasks, userId, gardenId);
       toast.success(`${newTasks.length} new care tasks have been scheduled.`);
     }
   }
@@ -1,6 +1,6 @@
 // src/services/bulkActivityService.ts
 import { CareActivityType } from "@/types";
-import { careService } from "@/types/database";
+import { getCareService } from "./serviceRegistry";
 import { CareActivityDetails } from "@/types/database";
 
 export interface BulkActivityData {
@@ -19,7 +19,7 @@ export class BulkActivityService {
 
     for (const plantId of plantIds) {
       try {
-        const careId = await careService.addCareActivity({
+        const careId = await getCareService().addCareActivity({
           plantId,
           type: activityData.type,
           date,
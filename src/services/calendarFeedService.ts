@@ -0,0 +1,199 @@
+// src/services/calendarFeedService.ts
+import { addDays, differenceInCalendarDays, format } from "date-fns";
+import { PlantRecord, UpcomingTask } from "@/types";
+import { ScheduledTask } from "./ProtocolTranspilerService";
+import { getPlantDisplayName } from "@/utils/plantDisplay";
+
+export interface CalendarFeedInput {
+  scheduledTasks: ScheduledTask[];
+  projectedTasks: UpcomingTask[];
+  plants: PlantRecord[];
+}
+
+const PRODUCT_ID = "-//Garden Tracker//Care Schedule//EN";
+const UID_DOMAIN = "garden-tracker.app";
+
+// RFC 5545 §3.1: content lines longer than 75 octets are folded
+const MAX_LINE_OCTETS = 75;
+
+const utf8Length = (char: string) => {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+};
+
+const formatDate = (date: Date) => format(date, "yyyyMMdd");
+
+const formatUtcDateTime = (date: Date) =>
+  date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+/**
+ * Builds an iCalendar (RFC 5545) file of pending protocol tasks and projected
+ * watering, for subscribing to the garden from a regular calendar app.
+ *
+ * UIDs only depend on the task (or plant, for watering series), so importing
+ * a newer export updates the existing events rather than duplicating them.
+ */
+export class CalendarFeedService {
+  static buildIcs(
+    { scheduledTasks, projectedTasks, plants }: CalendarFeedInput,
+    now: Date = new Date()
+  ): string {
+    const plantsById = new Map(plants.map((plant) => [plant.id, plant]));
+    const stamp = formatUtcDateTime(now);
+
+    const events = [
+      ...scheduledTasks
+        .filter((task) => task.status === "pending")
+        .map((task) => this.buildTaskEvent(task, plantsById.get(task.plantId), stamp)),
+      ...this.groupWateringSeries(projectedTasks).map((series) =>
+        this.buildWateringEvent(series, stamp)
+      ),
+    ];
+
+    return [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      `PRODID:${PRODUCT_ID}`,
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      "X-WR-CALNAME:Garden Care",
+      ...events.flat(),
+      "END:VCALENDAR",
+    ]
+      .map((line) => this.foldLine(line))
+      .join("\r\n")
+      .concat("\r\n");
+  }
+
+  static getFileName(now: Date = new Date()): string {
+    return `garden-care-${format(now, "yyyy-MM-dd")}.ics`;
+  }
+
+  static getTaskDescription(task: ScheduledTask): string {
+    const { product, dilution, amount, method } = task.details ?? {};
+    return [
+      product && `Product: ${product}`,
+      dilution && `Dilution: ${dilution}`,
+      amount && `Amount: ${amount}`,
+      method && `Method: ${method.replace(/-/g, " ")}`,
+    ]
+      .filter(Boolean)
+      .join("\n");
+  }
+
+  /**
+   * Escapes TEXT values: backslash, semicolon, comma and newline (§3.3.11)
+   */
+  static escapeText(value: string): string {
+    return value
+      .replace(/\\/g, "\\\\")
+      .replace(/;/g, "\\;")
+      .replace(/,/g, "\\,")
+      .replace(/\r?\n/g, "\\n");
+  }
+
+  static foldLine(line: string): string {
+    const parts: string[] = [];
+    let current = "";
+    let octets = 0;
+
+    for (const char of line) {
+      const size = utf8Length(char);
+      // Continuation lines start with a space, which counts toward the limit
+      const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+      if (octets + size > limit) {
+        parts.push(current);
+        current = "";
+        octets = 0;
+      }
+      current += char;
+      octets += size;
+    }
+    parts.push(current);
+
+    return parts.join("\r\n ");
+  }
+
+  private static buildTaskEvent(
+    task: ScheduledTask,
+    plant: PlantRecord | undefined,
+    stamp: string
+  ): string[] {
+    const plantName = plant ? getPlantDisplayName(plant) : "Unknown plant";
+    return this.buildEvent({
+      uid: `scheduled-${task.id}@${UID_DOMAIN}`,
+      stamp,
+      lastModified: formatUtcDateTime(task.updatedAt),
+      start: task.dueDate,
+      summary: `${task.taskName} – ${plantName}`,
+      description: this.getTaskDescription(task),
+      categories: task.taskType,
+    });
+  }
+
+  private static buildWateringEvent(series: UpcomingTask[], stamp: string): string[] {
+    const [first, second] = series;
+    const intervalDays = second
+      ? differenceInCalendarDays(second.dueDate, first.dueDate)
+      : 0;
+
+    return this.buildEvent({
+      uid: `projected-water-${first.plantId}@${UID_DOMAIN}`,
+      stamp,
+      start: first.dueDate,
+      summary: `${first.task} – ${first.plantName}`,
+      description: "Projected from recent watering. Check soil moisture before watering.",
+      categories: "water",
+      rrule:
+        intervalDays > 0
+          ? `FREQ=DAILY;INTERVAL=${intervalDays};COUNT=${series.length}`
+          : undefined,
+    });
+  }
+
+  private static buildEvent(event: {
+    uid: string;
+    stamp: string;
+    lastModified?: string;
+    start: Date;
+    summary: string;
+    description: string;
+    categories: string;
+    rrule?: string;
+  }): string[] {
+    // Care tasks are day-level, so they export as all-day events
+    return [
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${event.stamp}`,
+      ...(event.lastModified ? [`LAST-MODIFIED:${event.lastModified}`] : []),
+      `DTSTART;VALUE=DATE:${formatDate(event.start)}`,
+      `DTEND;VALUE=DATE:${formatDate(addDays(event.start, 1))}`,
+      ...(event.rrule ? [`RRULE:${event.rrule}`] : []),
+      `SUMMARY:${this.escapeText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${this.escapeText(event.description)}`] : []),
+      `CATEGORIES:${this.escapeText(event.categories)}`,
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT",
+    ];
+  }
+
+  /**
+   * One series per plant (or plant group), oldest occurrence first
+   */
+  private static groupWateringSeries(projectedTasks: UpcomingTask[]): UpcomingTask[][] {
+    const series = new Map<string, UpcomingTask[]>();
+    for (const task of projectedTasks) {
+      if (task.type !== "water") continue;
+      const occurrences = series.get(task.plantId) ?? [];
+      occurrences.push(task);
+      series.set(task.plantId, occurrences);
+    }
+    return [...series.values()].map((occurrences) =>
+      occurrences.sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime())
+    );
+  }
+}
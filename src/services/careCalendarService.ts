@@ -0,0 +1,166 @@
+// src/services/careCalendarService.ts
+import {
+  addDays,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { PlantRecord } from "@/types/database";
+import { UpcomingTask } from "@/types";
+import { ScheduledTask } from "./ProtocolTranspilerService";
+import { dateToLocalDateString } from "@/utils/dateUtils";
+import { getPlantDisplayName } from "@/utils/plantDisplay";
+
+export type CalendarView = "month" | "week";
+
+export type CalendarEventKind = "scheduled" | "projected" | "stage";
+
+export interface CalendarEvent {
+  id: string;
+  kind: CalendarEventKind;
+  title: string;
+  date: Date;
+  plantName: string;
+  taskType?: string;
+  // Firestore id of the ScheduledTask, only set for "scheduled" events
+  taskId?: string;
+  status?: ScheduledTask["status"];
+  draggable: boolean;
+}
+
+export interface CalendarStageTransition {
+  plant: PlantRecord;
+  predictedNextStage: string;
+  predictedTransitionDate: Date;
+}
+
+export interface CalendarEventSources {
+  scheduledTasks: ScheduledTask[];
+  projectedTasks: UpcomingTask[];
+  stageTransitions: CalendarStageTransition[];
+  plants: PlantRecord[];
+}
+
+const KIND_ORDER: Record<CalendarEventKind, number> = {
+  stage: 0,
+  scheduled: 1,
+  projected: 2,
+};
+
+/**
+ * Turns scheduled tasks, projected recurring care and predicted stage
+ * transitions into a single list of dated calendar events.
+ */
+export class CareCalendarService {
+  static getVisibleRange(anchor: Date, view: CalendarView): { start: Date; end: Date } {
+    if (view === "week") {
+      return { start: startOfWeek(anchor), end: endOfWeek(anchor) };
+    }
+    // Month grids start and end on full weeks so leading/trailing days show too
+    return {
+      start: startOfWeek(startOfMonth(anchor)),
+      end: endOfWeek(endOfMonth(anchor)),
+    };
+  }
+
+  static getVisibleDays(anchor: Date, view: CalendarView): Date[] {
+    const { start, end } = this.getVisibleRange(anchor, view);
+    return eachDayOfInterval({ start, end });
+  }
+
+  static buildEvents(
+    { scheduledTasks, projectedTasks, stageTransitions, plants }: CalendarEventSources,
+    rangeStart: Date,
+    rangeEnd: Date
+  ): CalendarEvent[] {
+    const inRange = (date: Date) => date >= rangeStart && date <= rangeEnd;
+    const plantNames = new Map(plants.map((plant) => [plant.id, getPlantDisplayName(plant)]));
+    const events: CalendarEvent[] = [];
+
+    for (const task of scheduledTasks) {
+      if (!inRange(task.dueDate)) continue;
+      events.push({
+        id: `scheduled-${task.id}`,
+        kind: "scheduled",
+        title: task.taskName,
+        date: task.dueDate,
+        plantName: plantNames.get(task.plantId) ?? "Unknown plant",
+        taskType: task.taskType,
+        taskId: task.id,
+        status: task.status,
+        draggable: task.status === "pending",
+      });
+    }
+
+    for (const task of projectedTasks) {
+      if (!inRange(task.dueDate)) continue;
+      events.push({
+        id: `projected-${task.id}`,
+        kind: "projected",
+        title: task.task,
+        date: task.dueDate,
+        plantName: task.plantName,
+        taskType: task.type,
+        draggable: false,
+      });
+    }
+
+    for (const transition of stageTransitions) {
+      if (!inRange(transition.predictedTransitionDate)) continue;
+      events.push({
+        id: `stage-${transition.plant.id}-${transition.predictedNextStage}`,
+        kind: "stage",
+        title: `Enters ${transition.predictedNextStage}`,
+        date: transition.predictedTransitionDate,
+        plantName: getPlantDisplayName(transition.plant),
+        draggable: false,
+      });
+    }
+
+    return events.sort(
+      (a, b) =>
+        startOfDay(a.date).getTime() - startOfDay(b.date).getTime() ||
+        KIND_ORDER[a.kind] - KIND_ORDER[b.kind] ||
+        a.plantName.localeCompare(b.plantName)
+    );
+  }
+
+  /**
+   * Groups events by local calendar day, keyed as yyyy-MM-dd
+   */
+  static groupByDay(events: CalendarEvent[]): Map<string, CalendarEvent[]> {
+    const byDay = new Map<string, CalendarEvent[]>();
+    for (const event of events) {
+      const key = dateToLocalDateString(event.date);
+      const dayEvents = byDay.get(key);
+      if (dayEvents) {
+        dayEvents.push(event);
+      } else {
+        byDay.set(key, [event]);
+      }
+    }
+    return byDay;
+  }
+
+  /**
+   * New due date when a task is dropped on another day; the time of day is kept
+   */
+  static moveToDay(dueDate: Date, day: Date): Date {
+    const moved = new Date(day);
+    moved.setHours(
+      dueDate.getHours(),
+      dueDate.getMinutes(),
+      dueDate.getSeconds(),
+      dueDate.getMilliseconds()
+    );
+    return moved;
+  }
+
+  static shiftAnchor(anchor: Date, view: CalendarView, direction: 1 | -1): Date {
+    if (view === "week") return addDays(anchor, 7 * direction);
+    return new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1);
+  }
+}
@@ -0,0 +1,143 @@
+// src/services/careHistoryExportService.ts
+import { format, isAfter, isBefore, startOfDay, endOfDay } from "date-fns";
+import {
+  BedRecord,
+  CareActivityRecord,
+  CareActivityType,
+  PlantRecord,
+} from "@/types";
+import { getPlantDisplayName } from "@/utils/plantDisplay";
+
+export interface CareHistoryExportFilter {
+  plantId?: string;
+  startDate?: Date;
+  endDate?: Date;
+  activityType?: CareActivityType;
+}
+
+type CsvValue = string | number | boolean | undefined;
+
+interface CsvColumn {
+  header: string;
+  value: (activity: CareActivityRecord, plant?: PlantRecord, bed?: BedRecord) => CsvValue;
+}
+
+const getWaterAmount = ({ details }: CareActivityRecord) =>
+  typeof details.amount === "object" ? details.amount : undefined;
+
+const CSV_COLUMNS: CsvColumn[] = [
+  { header: "Date", value: (a) => format(a.date, "yyyy-MM-dd") },
+  { header: "Time", value: (a) => format(a.date, "HH:mm") },
+  { header: "Activity", value: (a) => a.type },
+  { header: "Plant", value: (_, plant) => (plant ? getPlantDisplayName(plant) : undefined) },
+  { header: "Plant ID", value: (a) => a.plantId },
+  { header: "Variety", value: (_, plant) => plant?.varietyName },
+  { header: "Location", value: (_, plant) => plant?.location },
+  { header: "Container", value: (_, plant) => plant?.container },
+  { header: "Bed", value: (_, _plant, bed) => bed?.name },
+  { header: "Section", value: (_, plant) => plant?.section ?? plant?.structuredSection?.description },
+  {
+    header: "Water Amount",
+    value: (a) => a.details.waterAmount ?? getWaterAmount(a)?.value,
+  },
+  {
+    header: "Water Unit",
+    value: (a) => a.details.waterUnit ?? getWaterAmount(a)?.unit,
+  },
+  { header: "Partial Watering", value: (a) => a.details.isPartialWatering },
+  { header: "Moisture Before", value: (a) => a.details.moistureLevel?.before },
+  { header: "Moisture After", value: (a) => a.details.moistureLevel?.after },
+  { header: "Moisture Scale", value: (a) => a.details.moistureLevel?.scale },
+  { header: "Product", value: (a) => a.details.product },
+  { header: "Dilution", value: (a) => a.details.dilution },
+  {
+    header: "Amount",
+    value: (a) => (typeof a.details.amount === "string" ? a.details.amount : undefined),
+  },
+  { header: "Method", value: (a) => a.details.applicationMethod ?? a.details.method },
+  { header: "Quality", value: (a) => a.details.quality },
+  { header: "Harvest Weight", value: (a) => a.details.harvestWeight?.amount },
+  { header: "Harvest Weight Unit", value: (a) => a.details.harvestWeight?.unit },
+  { header: "Harvest Count", value: (a) => a.details.harvestCount },
+  { header: "Observations", value: (a) => a.details.observations },
+  { header: "Notes", value: (a) => a.details.notes ?? a.notes },
+];
+
+// Spreadsheets treat cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@]/;
+
+/**
+ * Flattens care activities into a CSV with one row per activity, for season
+ * reviews in a spreadsheet.
+ */
+export class CareHistoryExportService {
+  static readonly headers = CSV_COLUMNS.map((column) => column.header);
+
+  /**
+   * Keeps activities for the chosen plant, type and inclusive date range,
+   * oldest first
+   */
+  static filterActivities(
+    activities: CareActivityRecord[],
+    filter: CareHistoryExportFilter
+  ): CareActivityRecord[] {
+    return activities
+      .filter((activity) => {
+        if (filter.plantId && activity.plantId !== filter.plantId) return false;
+        if (filter.activityType && activity.type !== filter.activityType) return false;
+        if (filter.startDate && isBefore(activity.date, startOfDay(filter.startDate))) {
+          return false;
+        }
+        if (filter.endDate && isAfter(activity.date, endOfDay(filter.endDate))) {
+          return false;
+        }
+        return true;
+      })
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  static buildCsv(
+    activities: CareActivityRecord[],
+    plants: PlantRecord[],
+    beds: BedRecord[] = []
+  ): string {
+    const plantsById = new Map(plants.map((plant) => [plant.id, plant]));
+    const bedsById = new Map(beds.map((bed) => [bed.id, bed]));
+
+    const rows = activities.map((activity) => {
+      const plant = plantsById.get(activity.plantId);
+      const bedId = plant?.structuredSection?.bedId;
+      const bed = bedId ? bedsById.get(bedId) : undefined;
+      return CSV_COLUMNS.map((column) =>
+        this.formatCell(column.value(activity, plant, bed))
+      );
+    });
+
+    return [this.headers.map((header) => this.formatCell(header)), ...rows]
+      .map((row) => row.join(","))
+      .join("\r\n");
+  }
+
+  static getFileName(filter: CareHistoryExportFilter, plant?: PlantRecord): string {
+    const parts = ["care-history"];
+    if (plant) {
+      parts.push(
+        getPlantDisplayName(plant)
+          .toLowerCase()
+          .replace(/[^a-z0-9]+/g, "-")
+          .replace(/^-|-$/g, "")
+      );
+    }
+    if (filter.activityType) parts.push(filter.activityType);
+    parts.push(format(new Date(), "yyyy-MM-dd"));
+    return `${parts.filter(Boolean).join("-")}.csv`;
+  }
+
+  private static formatCell(value: CsvValue): string {
+    if (value === undefined) return "";
+    if (typeof value !== "string") return String(value);
+
+    const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
@@ -0,0 +1,314 @@
+// src/services/careReminderService.ts
+import { addHours, addMinutes, format, isSameDay, subDays } from "date-fns";
+import {
+  CareActivityType,
+  GrowthStage,
+  NotificationSettings,
+  PlantRecord,
+  QuietHours,
+  ReminderPreferences,
+  UpcomingTask,
+} from "@/types";
+import { ScheduledTask } from "./ProtocolTranspilerService";
+import { getPlantDisplayName } from "@/utils/plantDisplay";
+
+export interface CareReminder {
+  id: string;
+  source: "care" | "scheduled";
+  taskId: string;
+  taskName: string;
+  taskType: CareActivityType;
+  plantIds: string[];
+  plantName: string;
+  plantStage: GrowthStage;
+  dueDate: Date;
+  isOverdue: boolean;
+  details?: ScheduledTask["details"];
+}
+
+export interface ReminderDigest {
+  tag: string;
+  title: string;
+  body: string;
+  reminders: CareReminder[];
+}
+
+export interface ReminderState {
+  lastDigestDate?: string; // yyyy-MM-dd
+  snoozedUntil?: string; // ISO timestamp
+  lastDigest?: ReminderDigest;
+}
+
+export type ReminderAction = "mark-done" | "snooze" | "open";
+
+export const DEFAULT_NOTIFICATION_SETTINGS: Required<NotificationSettings> = {
+  careReminders: true,
+  harvestAlerts: true,
+  dailyDigestTime: "08:00",
+  quietHours: { start: "21:00", end: "07:00" },
+  snoozeMinutes: 60,
+};
+
+const LEGACY_SETTINGS_STORAGE_KEY = "careReminderSettings";
+const STATE_STORAGE_KEY = "careReminderState";
+
+// Tasks due within this window are included so the morning digest covers the day
+const DUE_SOON_HOURS = 24;
+// Matches the catch-up window used for overdue scheduled tasks
+const OVERDUE_LOOKBACK_DAYS = 14;
+const MAX_DIGEST_LINES = 5;
+
+const PREFERENCE_BY_TASK_TYPE: Partial<Record<CareActivityType, keyof ReminderPreferences>> = {
+  water: "watering",
+  fertilize: "fertilizing",
+  observe: "observation",
+  lighting: "lighting",
+  pruning: "pruning",
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+/**
+ * Decides which care tasks to remind about and when. Reminders are batched
+ * into one daily digest that respects quiet hours and per-plant reminder
+ * preferences; the hook that owns the timer does the actual notifying.
+ */
+export class CareReminderService {
+  static wantsReminder(plant: PlantRecord | undefined, taskType: CareActivityType): boolean {
+    const key = PREFERENCE_BY_TASK_TYPE[taskType];
+    if (!plant || !key) return true;
+    return plant.reminderPreferences?.[key] ?? true;
+  }
+
+  /**
+   * Gathers due-soon and overdue tasks from both the computed care schedule
+   * and the stored fertilization schedule, soonest first
+   */
+  static collectReminders(
+    upcomingTasks: UpcomingTask[],
+    scheduledTasks: ScheduledTask[],
+    plants: PlantRecord[],
+    now: Date = new Date()
+  ): CareReminder[] {
+    const plantsById = new Map(plants.map((plant) => [plant.id, plant]));
+    const dueBy = addHours(now, DUE_SOON_HOURS);
+    const reminders: CareReminder[] = [];
+
+    for (const task of upcomingTasks) {
+      if (task.dueDate > dueBy) continue;
+      const plantIds = (task.plantIds ?? [task.plantId]).filter((id) => plantsById.has(id));
+      const taskType = task.type as CareActivityType;
+      const wanted = plantIds.filter((id) => this.wantsReminder(plantsById.get(id), taskType));
+      if (wanted.length === 0) continue;
+
+      reminders.push({
+        id: `care:${task.id}`,
+        source: "care",
+        taskId: task.id,
+        taskName: task.task,
+        taskType,
+        plantIds: wanted,
+        plantName: task.plantName,
+        plantStage: task.plantStage,
+        dueDate: task.dueDate,
+        isOverdue: task.dueDate < now,
+      });
+    }
+
+    const oldestOverdue = subDays(now, OVERDUE_LOOKBACK_DAYS);
+    for (const task of scheduledTasks) {
+      const plant = plantsById.get(task.plantId);
+      if (
+        task.status !== "pending" ||
+        !plant ||
+        task.dueDate > dueBy ||
+        task.dueDate < oldestOverdue ||
+        !this.wantsReminder(plant, task.taskType)
+      ) {
+        continue;
+      }
+
+      reminders.push({
+        id: `scheduled:${task.id}`,
+        source: "scheduled",
+        taskId: task.id,
+        taskName: task.taskName,
+        taskType: task.taskType,
+        plantIds: [plant.id],
+        plantName: getPlantDisplayName(plant),
+        plantStage: task.sourceProtocol.stage,
+        dueDate: task.dueDate,
+        isOverdue: task.dueDate < now,
+        details: task.details,
+      });
+    }
+
+    return reminders.sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+  }
+
+  /**
+   * Harvest reminders have their own switch within the digest
+   */
+  static applyNotificationSettings(
+    reminders: CareReminder[],
+    settings: NotificationSettings
+  ): CareReminder[] {
+    return settings.harvestAlerts
+      ? reminders
+      : reminders.filter((reminder) => reminder.taskType !== "harvest");
+  }
+
+  /**
+   * Quiet hours may wrap past midnight, e.g. 21:00–07:00
+   */
+  static isWithinQuietHours(now: Date, quietHours?: QuietHours | null): boolean {
+    if (!quietHours) return false;
+    const minutes = now.getHours() * 60 + now.getMinutes();
+    const start = toMinutes(quietHours.start);
+    const end = toMinutes(quietHours.end);
+    if (start === end) return false;
+    return start < end
+      ? minutes >= start && minutes < end
+      : minutes >= start || minutes < end;
+  }
+
+  static shouldSendDigest(
+    settings: NotificationSettings,
+    state: ReminderState,
+    now: Date = new Date()
+  ): boolean {
+    if (!settings.careReminders) return false;
+    if (this.isWithinQuietHours(now, settings.quietHours)) return false;
+
+    if (state.snoozedUntil) {
+      return now >= new Date(state.snoozedUntil);
+    }
+    if (state.lastDigestDate === format(now, "yyyy-MM-dd")) return false;
+
+    const digestTime = settings.dailyDigestTime ?? DEFAULT_NOTIFICATION_SETTINGS.dailyDigestTime;
+    return now.getHours() * 60 + now.getMinutes() >= toMinutes(digestTime);
+  }
+
+  static buildDigest(reminders: CareReminder[], now: Date = new Date()): ReminderDigest | null {
+    if (reminders.length === 0) return null;
+
+    const overdue = reminders.filter((reminder) => reminder.isOverdue).length;
+    const title =
+      reminders.length === 1
+        ? `${reminders[0].taskName}: ${reminders[0].plantName}`
+        : `${reminders.length} garden tasks need attention`;
+
+    const lines = reminders.slice(0, MAX_DIGEST_LINES).map((reminder) => {
+      const when = reminder.isOverdue
+        ? "overdue"
+        : isSameDay(reminder.dueDate, now)
+          ? "today"
+          : "tomorrow";
+      return `• ${reminder.taskName} – ${reminder.plantName} (${when})`;
+    });
+    if (reminders.length > MAX_DIGEST_LINES) {
+      lines.push(`…and ${reminders.length - MAX_DIGEST_LINES} more`);
+    }
+    if (overdue > 0 && reminders.length > 1) {
+      lines.unshift(`${overdue} overdue`);
+    }
+
+    return {
+      tag: `care-digest-${format(now, "yyyy-MM-dd-HHmm")}`,
+      title,
+      body: lines.join("\n"),
+      reminders,
+    };
+  }
+
+  /**
+   * Sending a digest also ends any snooze
+   */
+  static recordDigestSent(digest: ReminderDigest, now: Date = new Date()): ReminderState {
+    return {
+      lastDigestDate: format(now, "yyyy-MM-dd"),
+      lastDigest: digest,
+    };
+  }
+
+  /**
+   * Takes a plant off a reminder in the saved digest once its care is logged,
+   * so retrying "mark done" after a partial failure doesn't log it twice
+   */
+  static markPlantDone(state: ReminderState, reminderId: string, plantId: string): ReminderState {
+    if (!state.lastDigest) return state;
+    return {
+      ...state,
+      lastDigest: {
+        ...state.lastDigest,
+        reminders: state.lastDigest.reminders.map((reminder) =>
+          reminder.id === reminderId
+            ? { ...reminder, plantIds: reminder.plantIds.filter((id) => id !== plantId) }
+            : reminder
+        ),
+      },
+    };
+  }
+
+  /**
+   * Drops a fully completed reminder from the saved digest
+   */
+  static markReminderDone(state: ReminderState, reminderId: string): ReminderState {
+    if (!state.lastDigest) return state;
+    return {
+      ...state,
+      lastDigest: {
+        ...state.lastDigest,
+        reminders: state.lastDigest.reminders.filter((reminder) => reminder.id !== reminderId),
+      },
+    };
+  }
+
+  static snooze(
+    state: ReminderState,
+    settings: NotificationSettings,
+    now: Date = new Date()
+  ): ReminderState {
+    const minutes = settings.snoozeMinutes ?? DEFAULT_NOTIFICATION_SETTINGS.snoozeMinutes;
+    return { ...state, snoozedUntil: addMinutes(now, minutes).toISOString() };
+  }
+
+  /**
+   * Reminder settings used to live in localStorage before they moved to the
+   * user's settings record; returns them once so they can be carried over
+   */
+  static takeLegacySettings(): Partial<NotificationSettings> | null {
+    try {
+      const saved = localStorage.getItem(LEGACY_SETTINGS_STORAGE_KEY);
+      if (!saved) return null;
+      localStorage.removeItem(LEGACY_SETTINGS_STORAGE_KEY);
+      return JSON.parse(saved);
+    } catch (error) {
+      console.warn("Failed to read legacy reminder settings:", error);
+      return null;
+    }
+  }
+
+  static loadState(): ReminderState {
+    try {
+      const saved = localStorage.getItem(STATE_STORAGE_KEY);
+      if (!saved) return {};
+      const state = JSON.parse(saved) as ReminderState;
+      // Dates come back from JSON as strings
+      state.lastDigest?.reminders.forEach((reminder) => {
+        reminder.dueDate = new Date(reminder.dueDate);
+      });
+      return state;
+    } catch (error) {
+      console.warn("Failed to load reminder state:", error);
+      return {};
+    }
+  }
+
+  static saveState(state: ReminderState): void {
+    localStorage.setItem(STATE_STORAGE_KEY, JSON.stringify(state));
+  }
+}
@@ -1,11 +1,5 @@
 // src/services/careSchedulingService.ts
-import {
-  plantService,
-  careService,
-  varietyService,
-  PlantRecord,
-  CareActivityRecord,
-} from "@/types/database";
+import { PlantRecord, CareActivityRecord } from "@/types/database";
 import { GrowthStage, CareActivityType, UpcomingTask } from "@/types";
 import { calculateCurrentStageWithVariety } from "@/utils/growthStage";
 import { getPlantDisplayName } from "@/utils/plantDisplay";
@@ -18,6 +12,7 @@ import {
 } from "@/utils/dateUtils";
 import { Logger } from "@/utils/logger";
 import { WateringResolver } from "@/utils/wateringResolver";
+import { getCareService, getPlantService, getVarietyService } from "./serviceRegistry";
 
 interface TaskConfig {
   type: CareActivityType;
@@ -60,7 +55,7 @@ const TASK_TYPE_MAP: Record<
 export class CareSchedulingService {
   public static async getUpcomingTasks(): Promise<UpcomingTask[]> {
     try {
-      const plants = await plantService.getActivePlants();
+      const plants = await getPlantService().getActivePlants();
       const allTasks: UpcomingTask[] = [];
 
       for (const plant of plants) {
@@ -80,7 +75,7 @@ export class CareSchedulingService {
     plant: PlantRecord
   ): Promise<UpcomingTask[]> {
     try {
-      const variety = await varietyService.getVariety(plant.varietyId);
+      const variety = await getVarietyService().getVariety(plant.varietyId);
       if (!variety) return [];
 
       const currentStage = calculateCurrentStageWithVariety(
@@ -114,7 +109,7 @@ export class CareSchedulingService {
   public static async getNextTaskForPlant(
     plantId: string
   ): Promise<UpcomingTask | null> {
-    const plants = await plantService.getActivePlants();
+    const plants = await getPlantService().getActivePlants();
     const plant = plants.find((p) => p.id === plantId);
 
     if (!plant) return null;
@@ -146,7 +141,7 @@ export class CareSchedulingService {
     if (taskType === "water") {
       const lastActivity = await WateringResolver.getLastWateringActivity(
         plant.id, 
-        (plantId: string, type: CareActivityType) => careService.getLastActivityByType(plantId, type)
+        (plantId: string, type: CareActivityType) => getCareService().getLastActivityByType(plantId, type)
       );
       if (lastActivity?.details.isPartialWatering) {
         thresholdDays = 7; // Show partial watering follow-up tasks for up to a week
@@ -188,10 +183,10 @@ export class CareSchedulingService {
     if (activityType === "water") {
       lastActivity = await WateringResolver.getLastWateringActivity(
         plant.id, 
-        (plantId: string, type: CareActivityType) => careService.getLastActivityByType(plantId, type)
+        (plantId: string, type: CareActivityType) => getCareService().getLastActivityByType(plantId, type)
       );
     } else {
-      lastActivity = await careService.getLastActivityByType(
+      lastActivity = await getCareService().getLastActivityByType(
         plant.id,
         activityType
       );
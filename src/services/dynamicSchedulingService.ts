@@ -1,9 +1,10 @@
 // src/services/dynamicSchedulingService.ts
-import { db, TaskCompletionRecord, careService } from "@/types/database";
+import { db, TaskCompletionRecord } from "@/types/database";
 import { CareActivityType, GrowthStage } from "@/types";
 import { addDays, differenceInDays } from "date-fns";
 import { generateUUID } from "@/utils/cn";
 import { Logger } from "@/utils/logger";
+import { getCareService } from "./serviceRegistry";
 
 export interface SchedulingAdjustment {
   plantId: string;
@@ -50,12 +51,13 @@ export class DynamicSchedulingService {
   static async getNextDueDateForTask(
     plantId: string,
     taskType: CareActivityType,
-    lastCompletionDate: Date
+    lastCompletionDate: Date,
+    baseIntervalDays: number = 7
   ): Promise<Date> {
     try {
       // Check if last watering was partial and needs early follow-up
       if (taskType === "water") {
-        const lastWateringActivity = await careService.getLastActivityByType(
+        const lastWateringActivity = await getCareService().getLastActivityByType(
           plantId,
           "water"
         );
@@ -72,22 +74,40 @@ export class DynamicSchedulingService {
         }
       }
 
-      const patterns = await this.getCompletionPatterns(plantId, taskType);
-
-      // Base interval of 7 days, adjusted by patterns
-      let intervalDays = 7;
-
-      if (patterns.recommendedAdjustment !== 0 && patterns.consistency > 0.5) {
-        intervalDays += patterns.recommendedAdjustment;
-      }
-
+      const intervalDays = await this.getRecurringIntervalDays(
+        plantId,
+        taskType,
+        baseIntervalDays
+      );
       return addDays(lastCompletionDate, intervalDays);
     } catch (error) {
       Logger.error("Failed to get next due date for task:", error);
-      // Fallback to default 7-day interval
-      return addDays(lastCompletionDate, 7);
+      // Fallback to the unadjusted base interval
+      return addDays(lastCompletionDate, baseIntervalDays);
     }
   }
+  /**
+   * Days between routine occurrences of a task, ignoring one-off follow-ups
+   * such as the early check after a partial watering. The base interval
+   * (e.g. from the plant's protocol frequency) is adjusted by how early or
+   * late the task is usually completed.
+   */
+  static async getRecurringIntervalDays(
+    plantId: string,
+    taskType: CareActivityType,
+    baseIntervalDays: number = 7
+  ): Promise<number> {
+    const patterns = await this.getCompletionPatterns(plantId, taskType);
+
+    let intervalDays = baseIntervalDays;
+
+    if (patterns.recommendedAdjustment !== 0 && patterns.consistency > 0.5) {
+      intervalDays += patterns.recommendedAdjustment;
+    }
+
+    return Math.max(1, intervalDays);
+  }
+
   static async getCompletionPatterns(
     plantId: string,
     taskType: CareActivityType,
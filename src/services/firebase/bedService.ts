@@ -0,0 +1,200 @@
+// src/services/firebase/bedService.ts
+import {
+  collection,
+  addDoc,
+  query,
+  where,
+  orderBy,
+  onSnapshot,
+  getDoc,
+  getDocs,
+  updateDoc,
+  doc,
+  writeBatch,
+  Timestamp,
+} from "firebase/firestore";
+import { db } from "./config";
+import { BedRecord, db as localDb } from "@/types/database";
+import { Logger } from "@/utils/logger";
+import { FirebaseOutboxService } from "./outboxService";
+
+export interface FirebaseBed extends Omit<BedRecord, "id" | "createdAt" | "updatedAt"> {
+  userId: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export type BedInput = Omit<BedRecord, "id" | "createdAt" | "updatedAt">;
+
+const WRITE_BATCH_SIZE = 400;
+
+const convertFromFirebase = (id: string, data: FirebaseBed): BedRecord => ({
+  id,
+  name: data.name,
+  type: data.type,
+  dimensions: data.dimensions,
+  ...(data.orientation && { orientation: data.orientation }),
+  ...(data.referencePoint && { referencePoint: data.referencePoint }),
+  isActive: data.isActive,
+  ...(data.gardenId && { gardenId: data.gardenId }),
+  createdAt: data.createdAt.toDate(),
+  updatedAt: data.updatedAt.toDate(),
+});
+
+const isPermissionDenied = (error: unknown) =>
+  (error as { code?: string } | null)?.code === "permission-denied";
+
+// Firestore rejects undefined fields, so optional values are only set when present
+const withoutUndefined = <T extends object>(value: T): T =>
+  Object.fromEntries(
+    Object.entries(value).filter(([, field]) => field !== undefined)
+  ) as T;
+
+export class FirebaseBedService {
+  private static bedsCollection = collection(db, "beds");
+
+  static async createBed(
+    bed: BedInput,
+    userId: string,
+    gardenId: string = userId
+  ): Promise<string> {
+    const firebaseBed = withoutUndefined({
+      ...bed,
+      userId,
+      gardenId,
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    });
+
+    const docRef = FirebaseOutboxService.isOffline()
+      ? await FirebaseOutboxService.queueCreate(this.bedsCollection, firebaseBed)
+      : await addDoc(this.bedsCollection, firebaseBed);
+    return docRef.id;
+  }
+
+  static async updateBed(
+    bedId: string,
+    updates: Partial<Omit<BedRecord, "id" | "createdAt">>
+  ): Promise<void> {
+    const bedDoc = doc(this.bedsCollection, bedId);
+    if (FirebaseOutboxService.isOffline()) {
+      await FirebaseOutboxService.queueUpdate(bedDoc, withoutUndefined(updates));
+      return;
+    }
+    await updateDoc(bedDoc, {
+      ...withoutUndefined(updates),
+      updatedAt: Timestamp.now(),
+    });
+  }
+
+  /**
+   * Beds are archived rather than deleted, since plants keep pointing at them
+   * through structuredSection.bedId
+   */
+  static async archiveBed(bedId: string): Promise<void> {
+    await this.updateBed(bedId, { isActive: false });
+  }
+
+  static async getBed(bedId: string, gardenId: string): Promise<BedRecord | null> {
+    const snapshot = await getDoc(doc(this.bedsCollection, bedId));
+    if (!snapshot.exists()) return null;
+
+    const data = snapshot.data() as FirebaseBed;
+    return (data.gardenId ?? data.userId) === gardenId
+      ? convertFromFirebase(snapshot.id, data)
+      : null;
+  }
+
+  /**
+   * Active beds in a garden, by name
+   */
+  static async getUserBeds(gardenId: string): Promise<BedRecord[]> {
+    const snapshot = await getDocs(this.activeBedsQuery(gardenId));
+    return snapshot.docs.map((bedDoc) =>
+      convertFromFirebase(bedDoc.id, bedDoc.data() as FirebaseBed)
+    );
+  }
+
+  static subscribeToUserBeds(
+    gardenId: string,
+    callback: (beds: BedRecord[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return onSnapshot(
+      this.activeBedsQuery(gardenId),
+      (snapshot) => {
+        callback(
+          snapshot.docs.map((bedDoc) =>
+            convertFromFirebase(bedDoc.id, bedDoc.data() as FirebaseBed)
+          )
+        );
+      },
+      (error) => {
+        Logger.error("Bed query failed:", error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Writes beds under their existing IDs, so plants that reference them by
+   * bedId keep resolving
+   */
+  static async saveBeds(
+    beds: BedRecord[],
+    userId: string,
+    gardenId: string = userId
+  ): Promise<void> {
+    for (let i = 0; i < beds.length; i += WRITE_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      beds.slice(i, i + WRITE_BATCH_SIZE).forEach((bed) => {
+        const { id, createdAt, updatedAt, ...fields } = bed;
+        batch.set(
+          doc(this.bedsCollection, id),
+          withoutUndefined({
+            ...fields,
+            userId,
+            gardenId: fields.gardenId ?? gardenId,
+            createdAt: Timestamp.fromDate(createdAt),
+            updatedAt: Timestamp.fromDate(updatedAt ?? createdAt),
+          })
+        );
+      });
+      await batch.commit();
+    }
+  }
+
+  /**
+   * Copies beds created on this device before they were stored in Firestore.
+   * The local table also caches beds loaded from Firestore, including other
+   * members' beds, so only beds Firestore doesn't have yet are copied.
+   */
+  static async migrateLocalBeds(userId: string): Promise<number> {
+    const localBeds = await localDb.beds.toArray();
+    const stored = await Promise.all(localBeds.map((bed) => this.existsInFirestore(bed.id)));
+    const newBeds = localBeds.filter((_, index) => !stored[index]);
+    await this.saveBeds(newBeds, userId);
+    return newBeds.length;
+  }
+
+  private static async existsInFirestore(bedId: string): Promise<boolean> {
+    try {
+      const snapshot = await getDoc(doc(this.bedsCollection, bedId));
+      return snapshot.exists();
+    } catch (error) {
+      // Missing beds are always readable, so a denied read is a bed in a
+      // garden the user isn't in (any more)
+      if (isPermissionDenied(error)) return true;
+      throw error;
+    }
+  }
+
+  private static activeBedsQuery(gardenId: string) {
+    return query(
+      this.bedsCollection,
+      where("gardenId", "==", gardenId),
+      where("isActive", "==", true),
+      orderBy("name", "asc")
+    );
+  }
+}
@@ -7,9 +7,12 @@ import {
   where,
   orderBy,
   limit,
+  getDoc,
   getDocs,
   doc,
   deleteDoc,
+  writeBatch,
+  Timestamp,
 } from "firebase/firestore";
 import { db } from "./config";
 import {
@@ -18,13 +21,22 @@ import {
   convertCareActivityFromFirebase,
 } from "../../types";
 import { CareRecord } from "../../types";
+import { MeasurementService } from "../measurementService";
+import { GardenService } from "../gardenService";
+import { FirebaseInventoryService } from "./inventoryService";
+import { FirebaseOutboxService } from "./outboxService";
+import { Logger } from "@/utils/logger";
+
+// Firestore allows up to 500 writes per batch
+const WRITE_BATCH_SIZE = 400;
 
 export class FirebaseCareActivityService {
   private static careActivitiesCollection = collection(db, "careActivities");
 
   static async createCareActivity(
     activity: Omit<CareRecord, "id" | "createdAt" | "updatedAt">,
-    userId: string
+    userId: string,
+    gardenId: string = userId
   ): Promise<string> {
     const activityWithDates: CareRecord = {
       ...activity,
@@ -35,24 +47,44 @@ export class FirebaseCareActivityService {
 
     const firebaseActivity = convertCareActivityToFirebase(
       activityWithDates,
-      userId
+      userId,
+      gardenId
     );
+    // Offline logs are queued; stock is deducted when they sync
+    if (FirebaseOutboxService.isOffline()) {
+      const queuedRef = await FirebaseOutboxService.queueCreate(
+        this.careActivitiesCollection,
+        firebaseActivity
+      );
+      return queuedRef.id;
+    }
+
     const docRef = await addDoc(
       this.careActivitiesCollection,
       firebaseActivity
     );
+
+    // Stock tracking is best-effort; it must never lose the care log itself
+    if (activity.type === "fertilize") {
+      try {
+        await FirebaseInventoryService.recordFertilizerUsage(userId, activity.details);
+      } catch (error) {
+        Logger.error("Failed to update fertilizer inventory:", error);
+      }
+    }
+
     return docRef.id;
   }
 
   static subscribeToPlantActivities(
     plantId: string,
-    userId: string,
+    gardenId: string,
     callback: (activities: CareRecord[]) => void,
     limitCount = 50
   ): () => void {
     const activitiesQuery = query(
       this.careActivitiesCollection,
-      where("userId", "==", userId),
+      where("gardenId", "==", gardenId),
       where("plantId", "==", plantId),
       orderBy("date", "desc"),
       limit(limitCount)
@@ -68,13 +100,13 @@ export class FirebaseCareActivityService {
   }
 
   static subscribeToUserActivities(
-    userId: string,
+    gardenId: string,
     callback: (activities: CareRecord[]) => void,
     limitCount = 100
   ): () => void {
     const activitiesQuery = query(
       this.careActivitiesCollection,
-      where("userId", "==", userId),
+      where("gardenId", "==", gardenId),
       orderBy("date", "desc"),
       limit(limitCount)
     );
@@ -93,13 +125,13 @@ export class FirebaseCareActivityService {
    */
   static async getLastActivityByType(
     plantId: string,
-    userId: string,
+    gardenId: string,
     type: string
   ): Promise<CareRecord | null> {
     try {
       const activitiesQuery = query(
         this.careActivitiesCollection,
-        where("userId", "==", userId),
+        where("gardenId", "==", gardenId),
         where("plantId", "==", plantId),
         where("type", "==", type),
         orderBy("date", "desc"),
@@ -124,7 +156,7 @@ export class FirebaseCareActivityService {
   // ✅ ADD THIS NEW METHOD
   static async getRecentActivitiesForPlant(
     plantId: string,
-    userId: string,
+    gardenId: string,
     lookbackDays: number = 14
   ): Promise<CareRecord[]> {
     try {
@@ -133,7 +165,7 @@ export class FirebaseCareActivityService {
 
       const q = query(
         this.careActivitiesCollection,
-        where("userId", "==", userId),
+        where("gardenId", "==", gardenId),
         where("plantId", "==", plantId),
         where("date", ">=", cutoffDate),
         orderBy("date", "desc")
@@ -156,12 +188,185 @@ export class FirebaseCareActivityService {
     }
   }
 
+  /**
+   * Get all of a garden's activities between two dates, newest first
+   */
+  static async getUserActivitiesInRange(
+    gardenId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<CareRecord[]> {
+    try {
+      const q = query(
+        this.careActivitiesCollection,
+        where("gardenId", "==", gardenId),
+        where("date", ">=", startDate),
+        where("date", "<=", endDate),
+        orderBy("date", "desc")
+      );
+
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map((doc) => {
+        const data = doc.data() as FirebaseCareRecord;
+        return convertCareActivityFromFirebase({ ...data, id: doc.id });
+      });
+    } catch (error) {
+      console.error("Failed to get activities in range:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get all of a garden's activities of one type, newest first
+   */
+  static async getUserActivitiesByType(
+    gardenId: string,
+    type: string
+  ): Promise<CareRecord[]> {
+    try {
+      const q = query(
+        this.careActivitiesCollection,
+        where("gardenId", "==", gardenId),
+        where("type", "==", type),
+        orderBy("date", "desc")
+      );
+
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map((doc) => {
+        const data = doc.data() as FirebaseCareRecord;
+        return convertCareActivityFromFirebase({ ...data, id: doc.id });
+      });
+    } catch (error) {
+      console.error("Failed to get activities by type:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get every activity logged in a garden, newest first
+   */
+  static async getAllActivitiesForUser(gardenId: string): Promise<CareRecord[]> {
+    const q = query(
+      this.careActivitiesCollection,
+      where("gardenId", "==", gardenId),
+      orderBy("date", "desc")
+    );
+
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map((doc) => {
+      const data = doc.data() as FirebaseCareRecord;
+      return convertCareActivityFromFirebase({ ...data, id: doc.id });
+    });
+  }
+
+  /**
+   * Get every activity logged for a plant, newest first
+   */
+  static async getPlantActivities(plantId: string, gardenId: string): Promise<CareRecord[]> {
+    const q = query(
+      this.careActivitiesCollection,
+      where("gardenId", "==", gardenId),
+      where("plantId", "==", plantId),
+      orderBy("date", "desc")
+    );
+
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map((doc) => {
+      const data = doc.data() as FirebaseCareRecord;
+      return convertCareActivityFromFirebase({ ...data, id: doc.id });
+    });
+  }
+
+  /**
+   * Get a garden's latest activities across all plants, newest first
+   */
+  static async getRecentActivitiesForUser(
+    gardenId: string,
+    limitCount = 10
+  ): Promise<CareRecord[]> {
+    const q = query(
+      this.careActivitiesCollection,
+      where("gardenId", "==", gardenId),
+      orderBy("date", "desc"),
+      limit(limitCount)
+    );
+
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map((doc) => {
+      const data = doc.data() as FirebaseCareRecord;
+      return convertCareActivityFromFirebase({ ...data, id: doc.id });
+    });
+  }
+
+  /**
+   * Writes activities under their existing IDs, e.g. ones only logged locally
+   */
+  static async saveActivities(
+    activities: CareRecord[],
+    userId: string,
+    gardenId: string = userId
+  ): Promise<void> {
+    for (let i = 0; i < activities.length; i += WRITE_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      activities.slice(i, i + WRITE_BATCH_SIZE).forEach((activity) =>
+        batch.set(doc(this.careActivitiesCollection, activity.id), {
+          ...convertCareActivityToFirebase(activity, userId, activity.gardenId ?? gardenId),
+          createdAt: Timestamp.fromDate(activity.createdAt),
+          updatedAt: Timestamp.fromDate(activity.updatedAt ?? activity.createdAt),
+        })
+      );
+      await batch.commit();
+    }
+  }
+
+  /**
+   * Rewrites unit strings on a user's activities that don't match the unit
+   * types (e.g. "liters", "gallons"). Returns how many were updated.
+   *
+   * Activities from before gardens existed are moved into the personal garden
+   * when it's created, so this fails until then and runs again next time.
+   */
+  static async migrateMeasurementUnits(userId: string): Promise<number> {
+    const gardenId = GardenService.getPersonalGardenId(userId);
+    const gardenSnapshot = await getDoc(doc(db, "gardens", gardenId));
+    if (!gardenSnapshot.exists()) {
+      throw new Error("Personal garden has not been created yet");
+    }
+
+    const q = query(
+      this.careActivitiesCollection,
+      where("gardenId", "==", gardenId),
+      where("userId", "==", userId)
+    );
+    const querySnapshot = await getDocs(q);
+
+    const updates = querySnapshot.docs.flatMap((activityDoc) => {
+      const data = activityDoc.data() as FirebaseCareRecord;
+      const details = data.details && MeasurementService.migrateCareActivityDetails(data.details);
+      return details ? [{ ref: activityDoc.ref, details }] : [];
+    });
+
+    for (let i = 0; i < updates.length; i += WRITE_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      updates
+        .slice(i, i + WRITE_BATCH_SIZE)
+        .forEach(({ ref, details }) => batch.update(ref, { details }));
+      await batch.commit();
+    }
+
+    return updates.length;
+  }
+
   /**
    * Delete a care activity by ID
    */
   static async deleteCareActivity(activityId: string): Promise<void> {
     try {
       const activityDoc = doc(this.careActivitiesCollection, activityId);
+      if (FirebaseOutboxService.isOffline()) {
+        await FirebaseOutboxService.queueDelete(activityDoc);
+        return;
+      }
       await deleteDoc(activityDoc);
     } catch (error) {
       console.error("Error deleting care activity:", error);
@@ -0,0 +1,125 @@
+// src/services/firebase/gardenArchiveService.ts
+import {
+  collection,
+  doc,
+  Timestamp,
+  writeBatch,
+  DocumentData,
+} from "firebase/firestore";
+import { db as firestore } from "./config";
+import { db } from "@/types/database";
+import { FirebasePlantService } from "./plantService";
+import { FirebaseCareActivityService } from "./careActivityService";
+import { FirebaseScheduledTaskService } from "./scheduledTaskService";
+import {
+  ARCHIVE_COLLECTIONS,
+  ArchiveCollection,
+  GardenArchiveData,
+  ImportPlan,
+} from "../gardenArchiveService";
+
+// Firestore allows 500 writes per batch
+const BATCH_SIZE = 400;
+
+export type ImportResult = Record<ArchiveCollection, number>;
+
+/**
+ * Reads a user's whole garden for export and writes planned imports. Plants,
+ * care activities and scheduled tasks live in Firestore; beds, custom
+ * varieties and task bypasses are still local to this device.
+ */
+export class FirebaseGardenArchiveService {
+  static async loadGarden(gardenId: string): Promise<GardenArchiveData> {
+    const [plants, careActivities, scheduledTasks, beds, varieties, taskBypasses] =
+      await Promise.all([
+        FirebasePlantService.getAllPlantsForUser(gardenId),
+        FirebaseCareActivityService.getAllActivitiesForUser(gardenId),
+        FirebaseScheduledTaskService.getAllTasksForUser(gardenId),
+        db.beds.toArray(),
+        db.varieties.toArray(),
+        db.taskBypasses.toArray(),
+      ]);
+
+    return {
+      plants,
+      careActivities,
+      scheduledTasks,
+      beds,
+      customVarieties: varieties.filter((variety) => variety.isCustom),
+      taskBypasses,
+    };
+  }
+
+  /**
+   * Writes the records of an import plan. Local tables are written first so
+   * plants never point at beds or varieties that failed to save.
+   */
+  static async commitImport(
+    plan: ImportPlan,
+    userId: string,
+    gardenId: string = userId
+  ): Promise<ImportResult> {
+    const { records } = plan;
+
+    await db.transaction("rw", db.beds, db.varieties, db.taskBypasses, async () => {
+      await db.beds.bulkAdd(records.beds);
+      await db.varieties.bulkAdd(records.customVarieties);
+      await db.taskBypasses.bulkAdd(records.taskBypasses);
+    });
+
+    const writes: { path: string; id: string; data: DocumentData }[] = [
+      ...records.plants.map(({ id, ...plant }) => ({
+        path: "plants",
+        id,
+        data: { ...plant, userId, gardenId },
+      })),
+      ...records.careActivities.map(({ id, ...activity }) => ({
+        path: "careActivities",
+        id,
+        data: { ...activity, userId, gardenId },
+      })),
+      ...records.scheduledTasks.map(({ id, ...task }) => ({
+        path: "scheduledTasks",
+        id,
+        data: { ...task, userId, gardenId },
+      })),
+    ];
+
+    for (let start = 0; start < writes.length; start += BATCH_SIZE) {
+      const batch = writeBatch(firestore);
+      for (const write of writes.slice(start, start + BATCH_SIZE)) {
+        batch.set(
+          doc(collection(firestore, write.path), write.id),
+          this.toFirestoreData(write.data)
+        );
+      }
+      await batch.commit();
+    }
+
+    return ARCHIVE_COLLECTIONS.reduce(
+      (result, name) => ({ ...result, [name]: records[name].length }),
+      {} as ImportResult
+    );
+  }
+
+  /**
+   * Converts dates to Timestamps and drops undefined fields, which Firestore
+   * rejects
+   */
+  private static toFirestoreData(value: DocumentData): DocumentData {
+    const result: DocumentData = {};
+    for (const [key, field] of Object.entries(value)) {
+      if (field === undefined) continue;
+      if (field instanceof Date) {
+        result[key] = Timestamp.fromDate(field);
+      } else if (Array.isArray(field)) {
+        result[key] = field.filter((item) => item !== undefined);
+      } else if (field !== null && typeof field === "object") {
+        result[key] = this.toFirestoreData(field);
+      } else {
+        result[key] = field;
+      }
+    }
+    return result;
+  }
+}
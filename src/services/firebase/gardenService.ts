@@ -0,0 +1,283 @@
+// src/services/firebase/gardenService.ts
+import {
+  collection,
+  query,
+  where,
+  onSnapshot,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  doc,
+  writeBatch,
+  arrayUnion,
+  arrayRemove,
+  deleteField,
+  Timestamp,
+} from "firebase/firestore";
+import { db } from "./config";
+import { Garden, GardenInvite, GardenMember, GardenRole } from "@/types";
+import { GardenService, GardenUser } from "../gardenService";
+import { Logger } from "@/utils/logger";
+
+interface FirebaseGardenMember extends Omit<GardenMember, "joinedAt"> {
+  joinedAt: Timestamp;
+}
+
+export interface FirebaseGarden extends Omit<Garden, "id" | "members" | "createdAt" | "updatedAt"> {
+  members: Record<string, FirebaseGardenMember>;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface FirebaseGardenInvite extends Omit<GardenInvite, "id" | "createdAt"> {
+  createdAt: Timestamp;
+}
+
+// Firestore allows up to 500 writes per batch
+const WRITE_BATCH_SIZE = 400;
+
+// Collections whose documents belong to a garden
+const GARDEN_SCOPED_COLLECTIONS = ["plants", "careActivities", "scheduledTasks", "beds"];
+
+const memberToFirebase = (member: GardenMember): FirebaseGardenMember => ({
+  ...member,
+  joinedAt: Timestamp.fromDate(member.joinedAt),
+});
+
+const convertFromFirebase = (id: string, data: FirebaseGarden): Garden => ({
+  id,
+  name: data.name,
+  ownerId: data.ownerId,
+  members: Object.fromEntries(
+    Object.entries(data.members).map(([userId, member]) => [
+      userId,
+      { ...member, joinedAt: member.joinedAt.toDate() },
+    ])
+  ),
+  memberIds: data.memberIds,
+  createdAt: data.createdAt.toDate(),
+  updatedAt: data.updatedAt.toDate(),
+});
+
+const convertInviteFromFirebase = (id: string, data: FirebaseGardenInvite): GardenInvite => ({
+  id,
+  gardenId: data.gardenId,
+  gardenName: data.gardenName,
+  email: data.email,
+  role: data.role,
+  invitedBy: data.invitedBy,
+  status: data.status,
+  createdAt: data.createdAt.toDate(),
+});
+
+export class FirebaseGardenService {
+  private static gardensCollection = collection(db, "gardens");
+  private static invitesCollection = collection(db, "gardenInvites");
+
+  /**
+   * Creates the user's personal garden the first time they sign in. Anything
+   * they created before gardens existed is moved into it first: the rules
+   * only let them find those records while they have no personal garden.
+   */
+  static async ensurePersonalGarden(user: GardenUser): Promise<void> {
+    const gardenDoc = doc(this.gardensCollection, GardenService.getPersonalGardenId(user.uid));
+    const snapshot = await getDoc(gardenDoc);
+    if (snapshot.exists()) return;
+
+    const moved = await this.migrateToPersonalGarden(user.uid);
+    if (moved > 0) Logger.info(`Moved ${moved} records into your garden`);
+
+    const garden = GardenService.createPersonalGarden(user);
+    const firebaseGarden: FirebaseGarden = {
+      name: garden.name,
+      ownerId: garden.ownerId,
+      members: Object.fromEntries(
+        Object.entries(garden.members).map(([userId, member]) => [
+          userId,
+          memberToFirebase(member),
+        ])
+      ),
+      memberIds: garden.memberIds,
+      createdAt: Timestamp.fromDate(garden.createdAt),
+      updatedAt: Timestamp.fromDate(garden.updatedAt),
+    };
+    await setDoc(gardenDoc, firebaseGarden);
+  }
+
+  static subscribeToUserGardens(
+    userId: string,
+    callback: (gardens: Garden[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return onSnapshot(
+      query(this.gardensCollection, where("memberIds", "array-contains", userId)),
+      (snapshot) => {
+        callback(
+          snapshot.docs
+            .map((gardenDoc) => convertFromFirebase(gardenDoc.id, gardenDoc.data() as FirebaseGarden))
+            .sort((a, b) => a.name.localeCompare(b.name))
+        );
+      },
+      (error) => {
+        Logger.error("Garden query failed:", error);
+        onError?.(error);
+      }
+    );
+  }
+
+  static async renameGarden(gardenId: string, name: string): Promise<void> {
+    await updateDoc(doc(this.gardensCollection, gardenId), {
+      name,
+      updatedAt: Timestamp.now(),
+    });
+  }
+
+  /**
+   * Invites someone by email. Inviting the same address again replaces the
+   * earlier invite, e.g. to change the role.
+   */
+  static async inviteMember(
+    garden: Garden,
+    email: string,
+    role: GardenInvite["role"],
+    invitedBy: GardenUser
+  ): Promise<void> {
+    const normalizedEmail = GardenService.normalizeEmail(email);
+    const invite: FirebaseGardenInvite = {
+      gardenId: garden.id,
+      gardenName: garden.name,
+      email: normalizedEmail,
+      role,
+      invitedBy: GardenService.getAttribution(invitedBy),
+      status: "pending",
+      createdAt: Timestamp.now(),
+    };
+    await setDoc(
+      doc(this.invitesCollection, GardenService.getInviteId(garden.id, normalizedEmail)),
+      invite
+    );
+  }
+
+  /**
+   * Pending invites sent to an email address
+   */
+  static subscribeToInvites(
+    email: string,
+    callback: (invites: GardenInvite[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return this.subscribeToPendingInvites("email", GardenService.normalizeEmail(email), callback, onError);
+  }
+
+  /**
+   * Pending invites a garden has sent, for its owner
+   */
+  static subscribeToGardenInvites(
+    gardenId: string,
+    callback: (invites: GardenInvite[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return this.subscribeToPendingInvites("gardenId", gardenId, callback, onError);
+  }
+
+  /**
+   * Joins the garden with the invited role. The security rules only let the
+   * invitee add themselves while a matching invite is pending.
+   */
+  static async acceptInvite(invite: GardenInvite, user: GardenUser): Promise<void> {
+    const batch = writeBatch(db);
+    batch.update(doc(this.gardensCollection, invite.gardenId), {
+      [`members.${user.uid}`]: memberToFirebase(GardenService.createMember(user, invite.role)),
+      memberIds: arrayUnion(user.uid),
+      updatedAt: Timestamp.now(),
+    });
+    batch.update(doc(this.invitesCollection, invite.id), { status: "accepted" });
+    await batch.commit();
+  }
+
+  static async declineInvite(inviteId: string): Promise<void> {
+    await updateDoc(doc(this.invitesCollection, inviteId), { status: "declined" });
+  }
+
+  static async cancelInvite(inviteId: string): Promise<void> {
+    await deleteDoc(doc(this.invitesCollection, inviteId));
+  }
+
+  static async updateMemberRole(
+    gardenId: string,
+    userId: string,
+    role: Exclude<GardenRole, "owner">
+  ): Promise<void> {
+    await updateDoc(doc(this.gardensCollection, gardenId), {
+      [`members.${userId}.role`]: role,
+      updatedAt: Timestamp.now(),
+    });
+  }
+
+  /**
+   * Removes a member, or lets a member leave. What they logged stays in the
+   * garden with their name on it.
+   */
+  static async removeMember(gardenId: string, userId: string): Promise<void> {
+    await updateDoc(doc(this.gardensCollection, gardenId), {
+      [`members.${userId}`]: deleteField(),
+      memberIds: arrayRemove(userId),
+      updatedAt: Timestamp.now(),
+    });
+  }
+
+  /**
+   * Puts everything a user created before gardens existed into their personal
+   * garden. Returns how many documents were updated.
+   */
+  static async migrateToPersonalGarden(userId: string): Promise<number> {
+    const gardenId = GardenService.getPersonalGardenId(userId);
+    let updated = 0;
+
+    for (const collectionName of GARDEN_SCOPED_COLLECTIONS) {
+      const snapshot = await getDocs(
+        query(collection(db, collectionName), where("userId", "==", userId))
+      );
+      const unassigned = snapshot.docs.filter((scopedDoc) => !scopedDoc.data().gardenId);
+
+      for (let i = 0; i < unassigned.length; i += WRITE_BATCH_SIZE) {
+        const batch = writeBatch(db);
+        unassigned
+          .slice(i, i + WRITE_BATCH_SIZE)
+          .forEach((scopedDoc) => batch.update(scopedDoc.ref, { gardenId }));
+        await batch.commit();
+      }
+      updated += unassigned.length;
+    }
+
+    return updated;
+  }
+
+  private static subscribeToPendingInvites(
+    field: "email" | "gardenId",
+    value: string,
+    callback: (invites: GardenInvite[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return onSnapshot(
+      query(
+        this.invitesCollection,
+        where(field, "==", value),
+        where("status", "==", "pending")
+      ),
+      (snapshot) => {
+        callback(
+          snapshot.docs.map((inviteDoc) =>
+            convertInviteFromFirebase(inviteDoc.id, inviteDoc.data() as FirebaseGardenInvite)
+          )
+        );
+      },
+      (error) => {
+        Logger.error("Garden invite query failed:", error);
+        onError?.(error);
+      }
+    );
+  }
+}
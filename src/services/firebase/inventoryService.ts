@@ -0,0 +1,142 @@
+// src/services/firebase/inventoryService.ts
+import {
+  collection,
+  addDoc,
+  query,
+  where,
+  orderBy,
+  onSnapshot,
+  getDocs,
+  updateDoc,
+  deleteDoc,
+  doc,
+  increment,
+  Timestamp,
+} from "firebase/firestore";
+import { db } from "./config";
+import { CareActivityDetails, InventoryItem } from "@/types";
+import { InventoryService } from "../inventoryService";
+import { Logger } from "@/utils/logger";
+
+export interface FirebaseInventoryItem
+  extends Omit<InventoryItem, "id" | "createdAt" | "updatedAt"> {
+  userId: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export type InventoryItemInput = Omit<InventoryItem, "id" | "createdAt" | "updatedAt">;
+
+export interface InventoryUsage {
+  item: InventoryItem;
+  used: number;
+}
+
+const convertFromFirebase = (id: string, data: FirebaseInventoryItem): InventoryItem => ({
+  id,
+  name: data.name,
+  category: data.category,
+  form: data.form,
+  ...(data.npk && { npk: data.npk }),
+  containerSize: data.containerSize,
+  // Usage is taken off with an increment, which can overshoot the stock left
+  remaining: Math.max(0, data.remaining),
+  unit: data.unit,
+  ...(data.gramsPerTablespoon && { gramsPerTablespoon: data.gramsPerTablespoon }),
+  createdAt: data.createdAt.toDate(),
+  updatedAt: data.updatedAt.toDate(),
+});
+
+// Firestore rejects undefined fields, so optional values are only set when present
+const withoutUndefined = <T extends object>(value: T): T =>
+  Object.fromEntries(
+    Object.entries(value).filter(([, field]) => field !== undefined)
+  ) as T;
+
+export class FirebaseInventoryService {
+  private static inventoryCollection = collection(db, "inventoryItems");
+
+  static async createItem(item: InventoryItemInput, userId: string): Promise<string> {
+    const docRef = await addDoc(
+      this.inventoryCollection,
+      withoutUndefined({
+        ...item,
+        userId,
+        createdAt: Timestamp.now(),
+        updatedAt: Timestamp.now(),
+      })
+    );
+    return docRef.id;
+  }
+
+  static async updateItem(itemId: string, updates: Partial<InventoryItemInput>): Promise<void> {
+    await updateDoc(doc(this.inventoryCollection, itemId), {
+      ...withoutUndefined(updates),
+      updatedAt: Timestamp.now(),
+    });
+  }
+
+  static async deleteItem(itemId: string): Promise<void> {
+    await deleteDoc(doc(this.inventoryCollection, itemId));
+  }
+
+  static async getUserInventory(userId: string): Promise<InventoryItem[]> {
+    const snapshot = await getDocs(
+      query(this.inventoryCollection, where("userId", "==", userId), orderBy("name", "asc"))
+    );
+    return snapshot.docs.map((itemDoc) =>
+      convertFromFirebase(itemDoc.id, itemDoc.data() as FirebaseInventoryItem)
+    );
+  }
+
+  static subscribeToUserInventory(
+    userId: string,
+    callback: (items: InventoryItem[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return onSnapshot(
+      query(this.inventoryCollection, where("userId", "==", userId), orderBy("name", "asc")),
+      (snapshot) => {
+        callback(
+          snapshot.docs.map((itemDoc) =>
+            convertFromFirebase(itemDoc.id, itemDoc.data() as FirebaseInventoryItem)
+          )
+        );
+      },
+      (error) => {
+        Logger.error("Inventory query failed:", error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Takes a logged fertilizer application off the matching product's stock.
+   * The stock is decremented on the server, so two devices logging at once
+   * both count. Returns null when the product isn't tracked or its usage can't be worked out.
+   */
+  static async recordFertilizerUsage(
+    userId: string,
+    details: CareActivityDetails
+  ): Promise<InventoryUsage | null> {
+    const items = await this.getUserInventory(userId);
+    const item = InventoryService.findItemForProduct(items, details.product);
+    if (!item) return null;
+
+    const used = InventoryService.estimateUsage(item, {
+      dilution: details.dilution,
+      amount:
+        typeof details.amount === "object"
+          ? `${details.amount.value} ${details.amount.unit}`
+          : details.amount,
+      method: details.applicationMethod,
+    });
+    if (used === null) return null;
+
+    await updateDoc(doc(this.inventoryCollection, item.id), {
+      remaining: increment(-used),
+      updatedAt: Timestamp.now(),
+    });
+    return { item, used };
+  }
+}
@@ -0,0 +1,213 @@
+// src/services/firebase/outboxService.ts
+import {
+  CollectionReference,
+  DocumentReference,
+  deleteDoc,
+  doc,
+  getDoc,
+  setDoc,
+  Timestamp,
+  updateDoc,
+} from "firebase/firestore";
+import { db } from "./config";
+import { db as localDb } from "@/types/database";
+import { CareActivityDetails, OutboxEntry } from "../../types";
+import { FirebaseInventoryService } from "./inventoryService";
+import { Logger } from "@/utils/logger";
+
+export interface OutboxReplayResult {
+  applied: number;
+  // Changed on the server after the offline edit was made, so the server's copy was kept
+  superseded: number;
+  failed: number;
+}
+
+// Firestore Timestamps lose their class in IndexedDB; Dates don't, and Firestore
+// stores them as Timestamps again when the entry is replayed
+const toStorable = (value: unknown): unknown => {
+  if (value instanceof Date || value === null || typeof value !== "object") return value;
+  if (typeof (value as Timestamp).toDate === "function") return (value as Timestamp).toDate();
+  if (Array.isArray(value)) return value.map(toStorable);
+  return Object.fromEntries(
+    Object.entries(value).map(([key, entry]) => [key, toStorable(entry)])
+  );
+};
+
+// Firestore reports "unavailable" when it can't reach the server
+const isOfflineError = (error: unknown) =>
+  (error as { code?: string } | null)?.code === "unavailable";
+
+/**
+ * Persistent queue for Firestore writes made while offline. Entries replay in
+ * order once the connection returns; an update or delete is dropped if the
+ * document changed on the server after the offline edit was made.
+ */
+export class FirebaseOutboxService {
+  private static replaying: Promise<OutboxReplayResult> | null = null;
+
+  static isOffline(): boolean {
+    return typeof navigator !== "undefined" && !navigator.onLine;
+  }
+
+  /**
+   * Queues a new document under a client-generated ID, so the caller can use
+   * the ID straight away
+   */
+  static async queueCreate(
+    collectionRef: CollectionReference,
+    data: object
+  ): Promise<DocumentReference> {
+    const docRef = doc(collectionRef);
+    await this.queueCreateAt(docRef, data);
+    return docRef;
+  }
+
+  /**
+   * Queues a new document under an ID the caller allocated with doc(), e.g.
+   * when other queued documents refer to it
+   */
+  static async queueCreateAt(docRef: DocumentReference, data: object): Promise<void> {
+    await this.enqueue(docRef, "create", data);
+  }
+
+  static async queueUpdate(docRef: DocumentReference, data: object): Promise<void> {
+    await this.enqueue(docRef, "update", data);
+  }
+
+  static async queueDelete(docRef: DocumentReference): Promise<void> {
+    await this.enqueue(docRef, "delete");
+  }
+
+  static async getEntries(): Promise<OutboxEntry[]> {
+    return localDb.outbox.orderBy("id").toArray();
+  }
+
+  /**
+   * Last write wins on updatedAt. Creates always apply, since their IDs are
+   * new; updates and deletes lose to a document that's gone or was changed
+   * later on another device.
+   */
+  static resolveConflict(
+    entry: Pick<OutboxEntry, "operation" | "queuedAt">,
+    remote: { exists: boolean; updatedAt?: Date }
+  ): "apply" | "supersede" {
+    if (entry.operation === "create") return "apply";
+    if (!remote.exists) return "supersede";
+    return remote.updatedAt && remote.updatedAt > entry.queuedAt ? "supersede" : "apply";
+  }
+
+  /**
+   * Replays queued writes in order. A failed entry holds back later entries
+   * for the same document until it's retried or discarded.
+   */
+  static replay(): Promise<OutboxReplayResult> {
+    // "online" can fire again while a replay is still running
+    this.replaying ??= this.replayPending().finally(() => {
+      this.replaying = null;
+    });
+    return this.replaying;
+  }
+
+  static async retryFailed(): Promise<OutboxReplayResult> {
+    await localDb.outbox.where("status").equals("failed").modify({ status: "pending" });
+    return this.replay();
+  }
+
+  static async discard(entryIds: number[]): Promise<void> {
+    await localDb.outbox.bulkDelete(entryIds);
+  }
+
+  private static async enqueue(
+    docRef: DocumentReference,
+    operation: OutboxEntry["operation"],
+    data?: object
+  ): Promise<void> {
+    await localDb.outbox.add({
+      collection: docRef.parent.id,
+      docId: docRef.id,
+      operation,
+      ...(data && { data: toStorable(data) as Record<string, unknown> }),
+      queuedAt: new Date(),
+      status: "pending",
+      attempts: 0,
+    });
+  }
+
+  private static async replayPending(): Promise<OutboxReplayResult> {
+    const result: OutboxReplayResult = { applied: 0, superseded: 0, failed: 0 };
+    const heldBack = new Set<string>();
+
+    for (const entry of await this.getEntries()) {
+      const key = `${entry.collection}/${entry.docId}`;
+      if (entry.status === "failed" || heldBack.has(key)) {
+        heldBack.add(key);
+        continue;
+      }
+
+      try {
+        const outcome = await this.apply(entry);
+        await localDb.outbox.delete(entry.id);
+        if (outcome === "apply") result.applied++;
+        else result.superseded++;
+      } catch (error) {
+        // Still offline: leave this and everything after it queued
+        if (isOfflineError(error)) break;
+
+        Logger.error(`Failed to sync ${entry.operation} of ${key}:`, error);
+        await localDb.outbox.update(entry.id, {
+          status: "failed",
+          attempts: entry.attempts + 1,
+          lastError: (error as Error).message,
+        });
+        heldBack.add(key);
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+
+  private static async apply(entry: OutboxEntry): Promise<"apply" | "supersede"> {
+    const docRef = doc(db, entry.collection, entry.docId);
+
+    if (entry.operation === "create") {
+      await setDoc(docRef, entry.data ?? {});
+      await this.afterCreate(entry);
+      return "apply";
+    }
+
+    const snapshot = await getDoc(docRef);
+    const updatedAt = snapshot.exists()
+      ? (snapshot.data().updatedAt as Timestamp | undefined)?.toDate()
+      : undefined;
+    const resolution = this.resolveConflict(entry, {
+      exists: snapshot.exists(),
+      updatedAt,
+    });
+    if (resolution === "supersede") return resolution;
+
+    if (entry.operation === "update") {
+      // Stamped with when the edit was made, so later offline edits elsewhere still win
+      await updateDoc(docRef, { ...entry.data, updatedAt: entry.queuedAt });
+    } else {
+      await deleteDoc(docRef);
+    }
+    return resolution;
+  }
+
+  // Side effects the online write path runs straight after a create
+  private static async afterCreate(entry: OutboxEntry): Promise<void> {
+    const data = entry.data ?? {};
+    if (entry.collection !== "careActivities" || data.type !== "fertilize") return;
+
+    // Stock tracking is best-effort; it must never hold up the sync
+    try {
+      await FirebaseInventoryService.recordFertilizerUsage(
+        data.userId as string,
+        data.details as CareActivityDetails
+      );
+    } catch (error) {
+      Logger.error("Failed to update fertilizer inventory:", error);
+    }
+  }
+}
@@ -10,6 +10,7 @@ import {
   Timestamp,
   writeBatch,
   serverTimestamp,
+  getDocs,
 } from "firebase/firestore";
 import { db } from "./config";
 import {
@@ -22,6 +23,7 @@ import { Logger } from "@/utils/logger";
 import { seedVarieties } from "@/data/seedVarieties";
 import { ProtocolTranspilerService } from "../ProtocolTranspilerService";
 import { FirebaseScheduledTaskService } from "./scheduledTaskService";
+import { FirebaseOutboxService } from "./outboxService";
 
 export class FirebasePlantService {
   private static plantsCollection = collection(db, "plants");
@@ -33,13 +35,21 @@ export class FirebasePlantService {
     const plantRef = doc(this.plantsCollection, plantId);
     const firebaseUpdates = {
       ...updates,
-      updatedAt: serverTimestamp(),
       ...(updates.plantedDate && {
         plantedDate: Timestamp.fromDate(updates.plantedDate),
       }),
     };
 
-    await updateDoc(plantRef, firebaseUpdates);
+    if (FirebaseOutboxService.isOffline()) {
+      // A server timestamp can't be queued, so the edit carries the time it was made
+      await FirebaseOutboxService.queueUpdate(plantRef, {
+        ...firebaseUpdates,
+        updatedAt: Timestamp.now(),
+      });
+      return;
+    }
+
+    await updateDoc(plantRef, { ...firebaseUpdates, updatedAt: serverTimestamp() });
   }
 
   /**
@@ -50,11 +60,13 @@ export class FirebasePlantService {
     plantRecord: PlantRecord,
     userId: string
   ): Promise<void> {
+    // Tasks stay in the plant's garden, whoever regenerates them
+    const gardenId = plantRecord.gardenId ?? userId;
     try {
       console.log(`🔄 Regenerating tasks for plant ${plantRecord.id}...`);
       
       // Delete existing pending tasks for this plant
-      await FirebaseScheduledTaskService.deletePendingTasksForPlant(plantRecord.id, userId);
+      await FirebaseScheduledTaskService.deletePendingTasksForPlant(plantRecord.id, gardenId);
       
       // Generate new tasks if the variety has protocols
       const seedVariety = seedVarieties.find(v => v.name === plantRecord.varietyName);
@@ -85,7 +97,7 @@ export class FirebasePlantService {
         );
         
         if (scheduledTasks.length > 0) {
-          await FirebaseScheduledTaskService.createMultipleTasks(scheduledTasks, userId);
+          await FirebaseScheduledTaskService.createMultipleTasks(scheduledTasks, userId, gardenId);
           console.log(`✅ Regenerated ${scheduledTasks.length} scheduled tasks for plant ${plantRecord.id}`);
         }
       }
@@ -111,22 +123,61 @@ export class FirebasePlantService {
     await batch.commit();
   }
 
-  public static subscribeToPlantsChanges(
+  /**
+   * Writes plants under their existing IDs, e.g. ones only registered locally.
+   * Unlike createPlant, no tasks are generated.
+   */
+  static async savePlants(
+    plants: PlantRecord[],
     userId: string,
+    gardenId: string = userId
+  ): Promise<void> {
+    const batch = writeBatch(db);
+    plants.forEach((plant) =>
+      batch.set(doc(this.plantsCollection, plant.id), {
+        ...convertPlantToFirebase(plant, userId, plant.gardenId ?? gardenId),
+        createdAt: Timestamp.fromDate(plant.createdAt),
+        updatedAt: Timestamp.fromDate(plant.updatedAt ?? plant.createdAt),
+      })
+    );
+    await batch.commit();
+  }
+
+  /**
+   * Get every plant in a garden, including inactive ones
+   */
+  static async getAllPlantsForUser(gardenId: string): Promise<PlantRecord[]> {
+    const q = query(this.plantsCollection, where("gardenId", "==", gardenId));
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs.map((doc) => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        ...data,
+        plantedDate: (data.plantedDate as Timestamp)?.toDate(),
+        createdAt: (data.createdAt as Timestamp)?.toDate(),
+        updatedAt: (data.updatedAt as Timestamp)?.toDate(),
+      } as PlantRecord;
+    });
+  }
+
+  public static subscribeToPlantsChanges(
+    gardenId: string,
     callback: (plants: PlantRecord[]) => void,
     options: { includeInactive: boolean } = { includeInactive: false }
   ): () => void {
-    Logger.database("plants", "Creating plants query for userId:", userId);
+    Logger.database("plants", "Creating plants query for gardenId:", gardenId);
 
     let q;
     if (options.includeInactive) {
-      // Query for all plants belonging to the user
-      q = query(this.plantsCollection, where("userId", "==", userId));
+      // Query for all plants in the garden
+      q = query(this.plantsCollection, where("gardenId", "==", gardenId));
     } else {
-      // Query for only active plants belonging to the user
+      // Query for only active plants in the garden
       q = query(
         this.plantsCollection,
-        where("userId", "==", userId),
+        where("gardenId", "==", gardenId),
         where("isActive", "==", true)
       );
     }
@@ -154,7 +205,7 @@ export class FirebasePlantService {
       },
       (error) => {
         Logger.error("Plants query failed:", error);
-        Logger.error("Query details:", { userId, options });
+        Logger.error("Query details:", { gardenId, options });
       }
     );
 
@@ -164,7 +215,7 @@ export class FirebasePlantService {
   // src/services/firebase/plantService.ts
   static async getPlant(
     plantId: string,
-    userId: string
+    gardenId: string
   ): Promise<PlantRecord | null> {
     return new Promise((resolve) => {
       const plantRef = doc(this.plantsCollection, plantId);
@@ -174,8 +225,8 @@ export class FirebasePlantService {
           if (doc.exists()) {
             const data = doc.data() as FirebasePlantRecord;
 
-            // ✅ Verify ownership before returning data
-            if (data.userId !== userId) {
+            // ✅ Verify the plant is in this garden before returning data
+            if ((data.gardenId ?? data.userId) !== gardenId) {
               console.error("❌ User does not own this plant");
               resolve(null);
               return;
@@ -198,7 +249,8 @@ export class FirebasePlantService {
   // src/services/firebase/plantService.ts - Fix the plant creation
   static async createPlant(
     plant: Omit<PlantRecord, "id" | "createdAt" | "updatedAt">,
-    userId: string
+    userId: string,
+    gardenId: string = userId
   ): Promise<string> {
     const plantWithDates: PlantRecord = {
       ...plant,
@@ -207,8 +259,10 @@ export class FirebasePlantService {
       updatedAt: new Date(),
     };
 
-    const firebasePlant = convertPlantToFirebase(plantWithDates, userId);
-    const docRef = await addDoc(this.plantsCollection, firebasePlant);
+    const firebasePlant = convertPlantToFirebase(plantWithDates, userId, gardenId);
+    const docRef = FirebaseOutboxService.isOffline()
+      ? await FirebaseOutboxService.queueCreate(this.plantsCollection, firebasePlant)
+      : await addDoc(this.plantsCollection, firebasePlant);
     
     // Update the plant with the Firebase-generated ID
     const finalPlantRecord: PlantRecord = {
@@ -245,8 +299,9 @@ export class FirebasePlantService {
           variety
         );
         
+        // Offline, these queue in the outbox behind the plant itself
         if (scheduledTasks.length > 0) {
-          await FirebaseScheduledTaskService.createMultipleTasks(scheduledTasks, userId);
+          await FirebaseScheduledTaskService.createMultipleTasks(scheduledTasks, userId, gardenId);
           console.log(`✅ Created ${scheduledTasks.length} scheduled tasks for new plant ${docRef.id}`);
         }
       }
@@ -0,0 +1,242 @@
+// src/services/firebase/repositories.ts
+import {
+  IBedRepository,
+  ICareRepository,
+  IPlantRepository,
+  IVarietyRepository,
+} from "../interfaces";
+import {
+  BedRecord,
+  CareActivityRecord,
+  CareActivityType,
+  PlantRecord,
+  VarietyRecord,
+} from "../../types";
+import { FirebasePlantService } from "./plantService";
+import { FirebaseCareActivityService } from "./careActivityService";
+import { FirebaseBedService } from "./bedService";
+import { FirebaseVarietyService } from "./varietyService";
+
+export type UserIdProvider = () => string | undefined;
+// The garden reads and writes go to; a user's personal garden has their uid
+export type GardenIdProvider = () => string | undefined;
+
+const requireUserId = (getUserId: UserIdProvider): string => {
+  const userId = getUserId();
+  if (!userId) throw new Error("Not signed in: Firestore data needs a user");
+  return userId;
+};
+
+const requireGardenId = (getGardenId: GardenIdProvider): string => {
+  const gardenId = getGardenId();
+  if (!gardenId) throw new Error("Not signed in: Firestore data needs a garden");
+  return gardenId;
+};
+
+/**
+ * Plants in Firestore for the signed-in user. Writes made offline go through
+ * the outbox like any other FirebasePlantService write.
+ */
+export class FirestorePlantRepository implements IPlantRepository {
+  constructor(
+    private getUserId: UserIdProvider,
+    private getGardenId: GardenIdProvider = getUserId
+  ) {}
+
+  async addPlant(plant: Omit<PlantRecord, "id" | "createdAt" | "updatedAt">): Promise<string> {
+    return FirebasePlantService.createPlant(
+      plant,
+      requireUserId(this.getUserId),
+      requireGardenId(this.getGardenId)
+    );
+  }
+
+  async getActivePlants(): Promise<PlantRecord[]> {
+    const plants = await FirebasePlantService.getAllPlantsForUser(
+      requireGardenId(this.getGardenId)
+    );
+    return plants.filter((plant) => plant.isActive);
+  }
+
+  async getPlant(id: string): Promise<PlantRecord | undefined> {
+    const plant = await FirebasePlantService.getPlant(id, requireGardenId(this.getGardenId));
+    return plant ?? undefined;
+  }
+
+  async updatePlant(
+    id: string,
+    updates: Partial<Omit<PlantRecord, "id" | "createdAt">>
+  ): Promise<void> {
+    requireUserId(this.getUserId);
+    await FirebasePlantService.updatePlant(id, updates);
+  }
+
+  async deletePlant(id: string): Promise<void> {
+    requireUserId(this.getUserId);
+    await FirebasePlantService.deletePlant(id);
+  }
+
+  async putPlants(plants: PlantRecord[]): Promise<void> {
+    await FirebasePlantService.savePlants(
+      plants,
+      requireUserId(this.getUserId),
+      requireGardenId(this.getGardenId)
+    );
+  }
+}
+
+/**
+ * Care activities in Firestore for the signed-in user
+ */
+export class FirestoreCareRepository implements ICareRepository {
+  constructor(
+    private getUserId: UserIdProvider,
+    private getGardenId: GardenIdProvider = getUserId
+  ) {}
+
+  async addCareActivity(
+    activity: Omit<CareActivityRecord, "id" | "createdAt" | "updatedAt">
+  ): Promise<string> {
+    return FirebaseCareActivityService.createCareActivity(
+      activity,
+      requireUserId(this.getUserId),
+      requireGardenId(this.getGardenId)
+    );
+  }
+
+  async getLastActivityByType(
+    plantId: string,
+    type: CareActivityType
+  ): Promise<CareActivityRecord | null> {
+    return FirebaseCareActivityService.getLastActivityByType(
+      plantId,
+      requireGardenId(this.getGardenId),
+      type
+    );
+  }
+
+  async getPlantCareHistory(plantId: string): Promise<CareActivityRecord[]> {
+    return FirebaseCareActivityService.getPlantActivities(
+      plantId,
+      requireGardenId(this.getGardenId)
+    );
+  }
+
+  async getRecentActivities(limit?: number): Promise<CareActivityRecord[]> {
+    return FirebaseCareActivityService.getRecentActivitiesForUser(
+      requireGardenId(this.getGardenId),
+      limit
+    );
+  }
+
+  async putActivities(activities: CareActivityRecord[]): Promise<void> {
+    await FirebaseCareActivityService.saveActivities(
+      activities,
+      requireUserId(this.getUserId),
+      requireGardenId(this.getGardenId)
+    );
+  }
+}
+
+/**
+ * Beds in Firestore for the signed-in user. Deleting a bed archives it.
+ */
+export class FirestoreBedRepository implements IBedRepository {
+  constructor(
+    private getUserId: UserIdProvider,
+    private getGardenId: GardenIdProvider = getUserId
+  ) {}
+
+  async addBed(bed: Omit<BedRecord, "id" | "createdAt" | "updatedAt">): Promise<string> {
+    return FirebaseBedService.createBed(
+      bed,
+      requireUserId(this.getUserId),
+      requireGardenId(this.getGardenId)
+    );
+  }
+
+  async getActiveBeds(): Promise<BedRecord[]> {
+    return FirebaseBedService.getUserBeds(requireGardenId(this.getGardenId));
+  }
+
+  async getBed(id: string): Promise<BedRecord | undefined> {
+    const bed = await FirebaseBedService.getBed(id, requireGardenId(this.getGardenId));
+    return bed ?? undefined;
+  }
+
+  async updateBed(
+    id: string,
+    updates: Partial<Omit<BedRecord, "id" | "createdAt">>
+  ): Promise<void> {
+    requireUserId(this.getUserId);
+    await FirebaseBedService.updateBed(id, updates);
+  }
+
+  async deleteBed(id: string): Promise<void> {
+    requireUserId(this.getUserId);
+    await FirebaseBedService.archiveBed(id);
+  }
+
+  async putBeds(beds: BedRecord[]): Promise<void> {
+    await FirebaseBedService.saveBeds(
+      beds,
+      requireUserId(this.getUserId),
+      requireGardenId(this.getGardenId)
+    );
+  }
+}
+
+/**
+ * Varieties the signed-in user's garden added to the catalogue. Built-in
+ * varieties aren't stored in Firestore.
+ */
+export class FirestoreVarietyRepository implements IVarietyRepository {
+  constructor(
+    private getUserId: UserIdProvider,
+    private getGardenId: GardenIdProvider = getUserId
+  ) {}
+
+  async addVariety(
+    variety: Omit<VarietyRecord, "id" | "createdAt" | "updatedAt" | "normalizedName">
+  ): Promise<string> {
+    const existing = await this.getVarietyByName(variety.name);
+    if (existing) return existing.id;
+
+    return FirebaseVarietyService.createVariety(
+      { ...variety, normalizedName: variety.name.toLowerCase() },
+      requireUserId(this.getUserId),
+      requireGardenId(this.getGardenId)
+    );
+  }
+
+  async getVariety(id: string): Promise<VarietyRecord | undefined> {
+    const variety = await FirebaseVarietyService.getVariety(
+      id,
+      requireGardenId(this.getGardenId)
+    );
+    return variety ?? undefined;
+  }
+
+  async getAllVarieties(): Promise<VarietyRecord[]> {
+    return FirebaseVarietyService.getGardenVarieties(requireGardenId(this.getGardenId));
+  }
+
+  async getVarietiesByCategory(category: string): Promise<VarietyRecord[]> {
+    const varieties = await this.getAllVarieties();
+    return varieties.filter((variety) => variety.category === category);
+  }
+
+  async getVarietyByName(name: string): Promise<VarietyRecord | undefined> {
+    const normalizedName = name.toLowerCase();
+    const varieties = await this.getAllVarieties();
+    return varieties.find((variety) => variety.normalizedName === normalizedName);
+  }
+
+  async putVarieties(varieties: VarietyRecord[]): Promise<void> {
+    await FirebaseVarietyService.saveVarieties(
+      varieties,
+      requireUserId(this.getUserId),
+      requireGardenId(this.getGardenId)
+    );
+  }
+}
@@ -13,11 +13,14 @@ import {
   doc, // <-- Import getDocs for one-time fetch
 } from "firebase/firestore";
 import { db } from "./config";
-import { ScheduledTask } from "../ProtocolTranspilerService";
+import { ScheduledTask, TaskDeferral } from "../ProtocolTranspilerService";
+import { TaskDeferralService } from "../taskDeferralService";
+import { FirebaseOutboxService } from "./outboxService";
 
 export interface FirebaseScheduledTask {
   id?: string;
   userId: string;
+  gardenId?: string;
   plantId: string;
   taskName: string;
   taskType: string;
@@ -27,6 +30,7 @@ export interface FirebaseScheduledTask {
     dilution: string;
     amount: string;
     method: string;
+    issueId?: string;
   };
   dueDate: Timestamp;
   status: string;
@@ -35,19 +39,113 @@ export interface FirebaseScheduledTask {
     originalStartDays: number;
     isDynamic: boolean;
   };
+  coordinatedWith?: string[];
+  priority?: ScheduledTask["priority"];
+  originalDueDate?: Timestamp;
+  deferral?: {
+    kind: TaskDeferral["kind"];
+    reason?: string;
+    deferredAt: Timestamp;
+  };
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
 
+const convertTaskFromFirebase = (
+  id: string,
+  data: FirebaseScheduledTask
+): ScheduledTask => ({
+  id,
+  plantId: data.plantId,
+  taskName: data.taskName,
+  taskType: data.taskType as ScheduledTask["taskType"],
+  details: data.details as ScheduledTask["details"],
+  dueDate: data.dueDate.toDate(),
+  status: data.status as ScheduledTask["status"],
+  sourceProtocol: data.sourceProtocol as ScheduledTask["sourceProtocol"],
+  ...(data.coordinatedWith && { coordinatedWith: data.coordinatedWith }),
+  ...(data.priority && { priority: data.priority }),
+  ...(data.originalDueDate && { originalDueDate: data.originalDueDate.toDate() }),
+  ...(data.deferral && {
+    deferral: {
+      kind: data.deferral.kind,
+      ...(data.deferral.reason && { reason: data.deferral.reason }),
+      deferredAt: data.deferral.deferredAt.toDate(),
+    },
+  }),
+  createdAt: data.createdAt.toDate(),
+  updatedAt: data.updatedAt.toDate(),
+});
+
+const WRITE_BATCH_SIZE = 400;
+
 export class FirebaseScheduledTaskService {
   private static tasksCollection = collection(db, "scheduledTasks");
 
   static async createTask(
     task: ScheduledTask,
-    userId: string
+    userId: string,
+    gardenId: string = userId
   ): Promise<string> {
-    const firebaseTask: Omit<FirebaseScheduledTask, "id"> = {
+    const firebaseTask = this.toFirebaseTask(task, userId, gardenId);
+
+    const docRef = FirebaseOutboxService.isOffline()
+      ? await FirebaseOutboxService.queueCreate(this.tasksCollection, firebaseTask)
+      : await addDoc(this.tasksCollection, firebaseTask);
+    return docRef.id;
+  }
+
+  /**
+   * Tasks refer to their coordinated tasks by ID, so Firestore IDs are
+   * allocated up front and the links rewritten to them. Offline, the tasks are
+   * queued in the outbox one after another, behind any write they depend on
+   * (such as the new plant they belong to).
+   */
+  static async createMultipleTasks(
+    tasks: ScheduledTask[],
+    userId: string,
+    gardenId: string = userId
+  ): Promise<string[]> {
+    const taskDocs = tasks.map(() => doc(this.tasksCollection));
+    const taskIds = new Map(tasks.map((task, index) => [task.id, taskDocs[index].id]));
+    const firebaseTasks = tasks.map((task) =>
+      this.toFirebaseTask(
+        {
+          ...task,
+          ...(task.coordinatedWith && {
+            coordinatedWith: task.coordinatedWith.map((id) => taskIds.get(id) ?? id),
+          }),
+        },
+        userId,
+        gardenId
+      )
+    );
+
+    if (FirebaseOutboxService.isOffline()) {
+      for (const [index, taskDoc] of taskDocs.entries()) {
+        await FirebaseOutboxService.queueCreateAt(taskDoc, firebaseTasks[index]);
+      }
+    } else {
+      for (let i = 0; i < taskDocs.length; i += WRITE_BATCH_SIZE) {
+        const batch = writeBatch(db);
+        taskDocs
+          .slice(i, i + WRITE_BATCH_SIZE)
+          .forEach((taskDoc, offset) => batch.set(taskDoc, firebaseTasks[i + offset]));
+        await batch.commit();
+      }
+    }
+
+    return taskDocs.map((taskDoc) => taskDoc.id);
+  }
+
+  private static toFirebaseTask(
+    task: ScheduledTask,
+    userId: string,
+    gardenId: string
+  ): Omit<FirebaseScheduledTask, "id"> {
+    return {
       userId,
+      gardenId,
       plantId: task.plantId,
       taskName: task.taskName,
       taskType: task.taskType,
@@ -55,22 +153,11 @@ export class FirebaseScheduledTaskService {
       dueDate: Timestamp.fromDate(task.dueDate),
       status: task.status,
       sourceProtocol: task.sourceProtocol,
+      ...(task.coordinatedWith && { coordinatedWith: task.coordinatedWith }),
+      ...(task.priority && { priority: task.priority }),
       createdAt: Timestamp.now(),
       updatedAt: Timestamp.now(),
     };
-
-    const docRef = await addDoc(this.tasksCollection, firebaseTask);
-    return docRef.id;
-  }
-
-  static async createMultipleTasks(
-    tasks: ScheduledTask[],
-    userId: string
-  ): Promise<string[]> {
-    const promises = tasks.map((task) => this.createTask(task, userId));
-    const taskIds = await Promise.all(promises);
-
-    return taskIds;
   }
 
   static async getTasksForPlant(plantId: string): Promise<ScheduledTask[]> {
@@ -85,20 +172,7 @@ export class FirebaseScheduledTaskService {
       const tasks: ScheduledTask[] = [];
 
       querySnapshot.forEach((doc) => {
-        const data = doc.data() as FirebaseScheduledTask;
-        tasks.push({
-          id: doc.id,
-          plantId: data.plantId,
-          taskName: data.taskName,
-          taskType: data.taskType as ScheduledTask["taskType"],
-          details: data.details as ScheduledTask["details"],
-          dueDate: data.dueDate.toDate(),
-          status: data.status as ScheduledTask["status"],
-          sourceProtocol:
-            data.sourceProtocol as ScheduledTask["sourceProtocol"],
-          createdAt: data.createdAt.toDate(),
-          updatedAt: data.updatedAt.toDate(),
-        });
+        tasks.push(convertTaskFromFirebase(doc.id, doc.data() as FirebaseScheduledTask));
       });
 
       return tasks;
@@ -108,14 +182,30 @@ export class FirebaseScheduledTaskService {
     }
   }
 
+  /**
+   * Get every task in a garden regardless of status, oldest first
+   */
+  static async getAllTasksForUser(gardenId: string): Promise<ScheduledTask[]> {
+    const q = query(
+      this.tasksCollection,
+      where("gardenId", "==", gardenId),
+      orderBy("dueDate", "asc")
+    );
+
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map((doc) =>
+      convertTaskFromFirebase(doc.id, doc.data() as FirebaseScheduledTask)
+    );
+  }
+
   static subscribeToUserTasks(
-    userId: string,
+    gardenId: string,
     callback: (tasks: ScheduledTask[]) => void,
     errorCallback: (error: Error) => void // Add an error callback
   ) {
     const q = query(
       this.tasksCollection,
-      where("userId", "==", userId),
+      where("gardenId", "==", gardenId),
       where("status", "==", "pending"),
       orderBy("dueDate", "asc")
     );
@@ -123,22 +213,9 @@ export class FirebaseScheduledTaskService {
     return onSnapshot(
       q,
       (snapshot) => {
-        const tasks: ScheduledTask[] = snapshot.docs.map((doc) => {
-          const data = doc.data() as FirebaseScheduledTask;
-          return {
-            id: doc.id,
-            plantId: data.plantId,
-            taskName: data.taskName,
-            taskType: data.taskType as ScheduledTask["taskType"],
-            details: data.details as ScheduledTask["details"],
-            dueDate: data.dueDate.toDate(),
-            status: data.status as ScheduledTask["status"],
-            sourceProtocol:
-              data.sourceProtocol as ScheduledTask["sourceProtocol"],
-            createdAt: data.createdAt.toDate(),
-            updatedAt: data.updatedAt.toDate(),
-          };
-        });
+        const tasks: ScheduledTask[] = snapshot.docs.map((doc) =>
+          convertTaskFromFirebase(doc.id, doc.data() as FirebaseScheduledTask)
+        );
         callback(tasks);
       },
       (error) => {
@@ -150,12 +227,12 @@ export class FirebaseScheduledTaskService {
   }
   static async deletePendingTasksForPlant(
     plantId: string,
-    userId: string
+    gardenId: string
   ): Promise<void> {
     try {
       const q = query(
         this.tasksCollection,
-        where("userId", "==", userId), // ✅ Add this line
+        where("gardenId", "==", gardenId),
         where("plantId", "==", plantId),
         where("status", "==", "pending")
       );
@@ -206,20 +283,7 @@ export class FirebaseScheduledTaskService {
       const tasks: ScheduledTask[] = [];
 
       querySnapshot.forEach((doc) => {
-        const data = doc.data() as FirebaseScheduledTask;
-        tasks.push({
-          id: doc.id,
-          plantId: data.plantId,
-          taskName: data.taskName,
-          taskType: data.taskType as ScheduledTask["taskType"],
-          details: data.details as ScheduledTask["details"],
-          dueDate: data.dueDate.toDate(),
-          status: data.status as ScheduledTask["status"],
-          sourceProtocol:
-            data.sourceProtocol as ScheduledTask["sourceProtocol"],
-          createdAt: data.createdAt.toDate(),
-          updatedAt: data.updatedAt.toDate(),
-        });
+        tasks.push(convertTaskFromFirebase(doc.id, doc.data() as FirebaseScheduledTask));
       });
 
       return tasks;
@@ -236,6 +300,10 @@ export class FirebaseScheduledTaskService {
   ): Promise<void> {
     try {
       const taskDoc = doc(this.tasksCollection, taskId);
+      if (FirebaseOutboxService.isOffline()) {
+        await FirebaseOutboxService.queueUpdate(taskDoc, { status });
+        return;
+      }
       await updateDoc(taskDoc, {
         status,
         updatedAt: Timestamp.now(),
@@ -245,4 +313,87 @@ export class FirebaseScheduledTaskService {
       throw error;
     }
   }
+
+  /**
+   * Skips the pending re-inspection tasks for an issue, e.g. once it's resolved.
+   * Returns how many were skipped.
+   */
+  static async skipIssueFollowUps(
+    gardenId: string,
+    plantId: string,
+    issueId: string
+  ): Promise<number> {
+    try {
+      const q = query(
+        this.tasksCollection,
+        where("gardenId", "==", gardenId),
+        where("plantId", "==", plantId),
+        where("status", "==", "pending")
+      );
+      const querySnapshot = await getDocs(q);
+      const followUps = querySnapshot.docs.filter((taskDoc) => {
+        const data = taskDoc.data() as FirebaseScheduledTask;
+        return data.details?.type === "issue-follow-up" && data.details.issueId === issueId;
+      });
+      if (followUps.length === 0) return 0;
+
+      const batch = writeBatch(db);
+      followUps.forEach((taskDoc) => {
+        batch.update(taskDoc.ref, { status: "skipped", updatedAt: Timestamp.now() });
+      });
+      await batch.commit();
+      return followUps.length;
+    } catch (error) {
+      console.error("Failed to skip issue follow-up tasks:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Snoozes or reschedules a task, recording its original due date and the
+   * reason. Pending coordinated tasks in allTasks shift by the same amount.
+   * Returns how many tasks moved.
+   */
+  static async deferTask(
+    task: ScheduledTask,
+    dueDate: Date,
+    deferral: Omit<TaskDeferral, "deferredAt">,
+    allTasks: ScheduledTask[] = []
+  ): Promise<number> {
+    try {
+      const changes = TaskDeferralService.planMove(task, dueDate, allTasks);
+      const deferredAt = new Date();
+      const updates = changes.map((change) => {
+        const update = TaskDeferralService.getDeferralUpdate(change, deferral, deferredAt);
+        return {
+          taskDoc: doc(this.tasksCollection, change.task.id),
+          data: {
+            dueDate: Timestamp.fromDate(update.dueDate),
+            originalDueDate: Timestamp.fromDate(update.originalDueDate),
+            deferral: {
+              ...update.deferral,
+              deferredAt: Timestamp.fromDate(deferredAt),
+            },
+          },
+        };
+      });
+
+      if (FirebaseOutboxService.isOffline()) {
+        for (const { taskDoc, data } of updates) {
+          await FirebaseOutboxService.queueUpdate(taskDoc, data);
+        }
+        return changes.length;
+      }
+
+      const batch = writeBatch(db);
+      updates.forEach(({ taskDoc, data }) =>
+        batch.update(taskDoc, { ...data, updatedAt: Timestamp.now() })
+      );
+      await batch.commit();
+      return changes.length;
+    } catch (error) {
+      console.error("Failed to defer task:", error);
+      throw error;
+    }
+  }
 }
@@ -0,0 +1,140 @@
+// src/services/firebase/seedPacketService.ts
+import {
+  collection,
+  addDoc,
+  query,
+  where,
+  orderBy,
+  onSnapshot,
+  getDocs,
+  updateDoc,
+  deleteDoc,
+  doc,
+  Timestamp,
+} from "firebase/firestore";
+import { db } from "./config";
+import { SeedPacket } from "@/types";
+import { Logger } from "@/utils/logger";
+
+export interface FirebaseSeedPacket
+  extends Omit<SeedPacket, "id" | "createdAt" | "updatedAt"> {
+  userId: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export type SeedPacketInput = Omit<SeedPacket, "id" | "createdAt" | "updatedAt">;
+
+const convertFromFirebase = (id: string, data: FirebaseSeedPacket): SeedPacket => ({
+  id,
+  varietyId: data.varietyId,
+  varietyName: data.varietyName,
+  category: data.category,
+  ...(data.lot && { lot: data.lot }),
+  ...(data.supplier && { supplier: data.supplier }),
+  purchaseYear: data.purchaseYear,
+  seedCount: data.seedCount,
+  ...(data.labelGerminationRate !== undefined && {
+    labelGerminationRate: data.labelGerminationRate,
+  }),
+  ...(data.seedsSown !== undefined && { seedsSown: data.seedsSown }),
+  ...(data.seedsGerminated !== undefined && { seedsGerminated: data.seedsGerminated }),
+  createdAt: data.createdAt.toDate(),
+  updatedAt: data.updatedAt.toDate(),
+});
+
+// Firestore rejects undefined fields, so optional values are only set when present
+const withoutUndefined = <T extends object>(value: T): T =>
+  Object.fromEntries(
+    Object.entries(value).filter(([, field]) => field !== undefined)
+  ) as T;
+
+export class FirebaseSeedPacketService {
+  private static packetsCollection = collection(db, "seedPackets");
+
+  static async createPacket(packet: SeedPacketInput, userId: string): Promise<string> {
+    const docRef = await addDoc(
+      this.packetsCollection,
+      withoutUndefined({
+        ...packet,
+        userId,
+        createdAt: Timestamp.now(),
+        updatedAt: Timestamp.now(),
+      })
+    );
+    return docRef.id;
+  }
+
+  static async updatePacket(packetId: string, updates: Partial<SeedPacketInput>): Promise<void> {
+    await updateDoc(doc(this.packetsCollection, packetId), {
+      ...withoutUndefined(updates),
+      updatedAt: Timestamp.now(),
+    });
+  }
+
+  static async deletePacket(packetId: string): Promise<void> {
+    await deleteDoc(doc(this.packetsCollection, packetId));
+  }
+
+  static async getUserPackets(userId: string): Promise<SeedPacket[]> {
+    const snapshot = await getDocs(
+      query(
+        this.packetsCollection,
+        where("userId", "==", userId),
+        orderBy("varietyName", "asc")
+      )
+    );
+    return snapshot.docs.map((packetDoc) =>
+      convertFromFirebase(packetDoc.id, packetDoc.data() as FirebaseSeedPacket)
+    );
+  }
+
+  static subscribeToUserPackets(
+    userId: string,
+    callback: (packets: SeedPacket[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return onSnapshot(
+      query(
+        this.packetsCollection,
+        where("userId", "==", userId),
+        orderBy("varietyName", "asc")
+      ),
+      (snapshot) => {
+        callback(
+          snapshot.docs.map((packetDoc) =>
+            convertFromFirebase(packetDoc.id, packetDoc.data() as FirebaseSeedPacket)
+          )
+        );
+      },
+      (error) => {
+        Logger.error("Seed packet query failed:", error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Takes seeds sown at registration off the packet's count
+   */
+  static async deductSeeds(packet: SeedPacket, count: number): Promise<void> {
+    await this.updatePacket(packet.id, {
+      seedCount: Math.max(0, packet.seedCount - count),
+    });
+  }
+
+  /**
+   * Adds a thinning outcome to the packet's measured germination totals
+   */
+  static async recordGermination(
+    packet: SeedPacket,
+    sown: number,
+    germinated: number
+  ): Promise<void> {
+    if (sown <= 0) return;
+    await this.updatePacket(packet.id, {
+      seedsSown: (packet.seedsSown ?? 0) + sown,
+      seedsGerminated: (packet.seedsGerminated ?? 0) + Math.min(germinated, sown),
+    });
+  }
+}
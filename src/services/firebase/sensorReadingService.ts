@@ -0,0 +1,102 @@
+// src/services/firebase/sensorReadingService.ts
+import {
+  collection,
+  query,
+  where,
+  orderBy,
+  onSnapshot,
+  doc,
+  writeBatch,
+  Timestamp,
+} from "firebase/firestore";
+import { db } from "./config";
+import { SensorReading } from "@/types";
+import { SensorReadingInput } from "../sensorReadingService";
+import { Logger } from "@/utils/logger";
+
+export interface FirebaseSensorReading
+  extends Omit<SensorReading, "id" | "recordedAt" | "createdAt" | "updatedAt"> {
+  userId: string; // Who imported it
+  recordedAt: Timestamp;
+  createdAt: Timestamp;
+}
+
+// Firestore allows up to 500 writes per batch
+const WRITE_BATCH_SIZE = 400;
+
+const convertFromFirebase = (id: string, data: FirebaseSensorReading): SensorReading => ({
+  id,
+  gardenId: data.gardenId,
+  ...(data.sensorId && { sensorId: data.sensorId }),
+  ...(data.bedId && { bedId: data.bedId }),
+  ...(data.plantId && { plantId: data.plantId }),
+  metric: data.metric,
+  value: data.value,
+  ...(data.unit && { unit: data.unit }),
+  recordedAt: data.recordedAt.toDate(),
+  createdAt: data.createdAt.toDate(),
+});
+
+export class FirebaseSensorReadingService {
+  private static readingsCollection = collection(db, "sensorReadings");
+
+  /**
+   * Writes a batch of readings, returning how many were written
+   */
+  static async addReadings(
+    readings: SensorReadingInput[],
+    userId: string,
+    gardenId: string = userId
+  ): Promise<number> {
+    const createdAt = Timestamp.now();
+
+    for (let i = 0; i < readings.length; i += WRITE_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      readings.slice(i, i + WRITE_BATCH_SIZE).forEach((reading) => {
+        const firebaseReading: FirebaseSensorReading = {
+          ...reading,
+          gardenId,
+          userId,
+          recordedAt: Timestamp.fromDate(reading.recordedAt),
+          createdAt,
+        };
+        batch.set(doc(this.readingsCollection), firebaseReading);
+      });
+      await batch.commit();
+    }
+
+    return readings.length;
+  }
+
+  /**
+   * Readings for a garden recorded since the given time, newest first
+   */
+  static subscribeToRecentReadings(
+    gardenId: string,
+    since: Date,
+    callback: (readings: SensorReading[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    const q = query(
+      this.readingsCollection,
+      where("gardenId", "==", gardenId),
+      where("recordedAt", ">=", Timestamp.fromDate(since)),
+      orderBy("recordedAt", "desc")
+    );
+
+    return onSnapshot(
+      q,
+      (snapshot) => {
+        callback(
+          snapshot.docs.map((readingDoc) =>
+            convertFromFirebase(readingDoc.id, readingDoc.data() as FirebaseSensorReading)
+          )
+        );
+      },
+      (error) => {
+        Logger.error("Sensor reading query failed:", error);
+        onError?.(error);
+      }
+    );
+  }
+}
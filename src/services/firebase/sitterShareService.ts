@@ -0,0 +1,272 @@
+// src/services/firebase/sitterShareService.ts
+import {
+  collection,
+  addDoc,
+  query,
+  where,
+  onSnapshot,
+  setDoc,
+  updateDoc,
+  doc,
+  writeBatch,
+  Timestamp,
+} from "firebase/firestore";
+import { db } from "./config";
+import {
+  SitterCompletion,
+  SitterShare,
+  SitterTask,
+  convertCareActivityToFirebase,
+} from "@/types";
+import { SitterShareService } from "../sitterShareService";
+import { Logger } from "@/utils/logger";
+
+interface FirebaseSitterTask extends Omit<SitterTask, "dueDate" | "plant"> {
+  dueDate: Timestamp;
+  plant: Omit<SitterTask["plant"], "plantedDate" | "createdAt"> & {
+    plantedDate: Timestamp;
+    createdAt: Timestamp;
+  };
+}
+
+export interface FirebaseSitterShare
+  extends Omit<
+    SitterShare,
+    "id" | "tasks" | "startsAt" | "expiresAt" | "revokedAt" | "summarySeenAt" | "createdAt"
+  > {
+  tasks: FirebaseSitterTask[];
+  startsAt: Timestamp;
+  expiresAt: Timestamp;
+  revokedAt?: Timestamp;
+  summarySeenAt?: Timestamp;
+  createdAt: Timestamp;
+}
+
+export interface FirebaseSitterCompletion extends Omit<SitterCompletion, "id" | "completedAt"> {
+  completedAt: Timestamp;
+}
+
+export type SitterShareInput = Omit<SitterShare, "id" | "createdAt">;
+
+// Firestore allows up to 500 writes per batch
+const WRITE_BATCH_SIZE = 400;
+
+const taskToFirebase = (task: SitterTask): FirebaseSitterTask => ({
+  ...task,
+  dueDate: Timestamp.fromDate(task.dueDate),
+  plant: {
+    ...task.plant,
+    plantedDate: Timestamp.fromDate(task.plant.plantedDate),
+    createdAt: Timestamp.fromDate(task.plant.createdAt),
+  },
+});
+
+const convertFromFirebase = (id: string, data: FirebaseSitterShare): SitterShare => ({
+  id,
+  gardenId: data.gardenId,
+  sitterName: data.sitterName,
+  createdBy: data.createdBy,
+  startsAt: data.startsAt.toDate(),
+  expiresAt: data.expiresAt.toDate(),
+  tasks: data.tasks.map((task) => ({
+    ...task,
+    dueDate: task.dueDate.toDate(),
+    plant: {
+      ...task.plant,
+      plantedDate: task.plant.plantedDate.toDate(),
+      createdAt: task.plant.createdAt.toDate(),
+    },
+  })),
+  ...(data.revokedAt && { revokedAt: data.revokedAt.toDate() }),
+  ...(data.summarySeenAt && { summarySeenAt: data.summarySeenAt.toDate() }),
+  createdAt: data.createdAt.toDate(),
+});
+
+const convertCompletionFromFirebase = (
+  id: string,
+  data: FirebaseSitterCompletion
+): SitterCompletion => ({
+  id,
+  taskId: data.taskId,
+  plantIds: data.plantIds,
+  activityType: data.activityType,
+  completedAt: data.completedAt.toDate(),
+  ...(data.amount && { amount: data.amount }),
+  ...(data.notes && { notes: data.notes }),
+  imported: data.imported,
+});
+
+/**
+ * Sitter links live in "sitterShares", keyed by an unguessable ID. What the
+ * sitter does goes into the share's "completions" subcollection, which is the
+ * only place the link can write; garden members copy completions into
+ * careActivities.
+ */
+export class FirebaseSitterShareService {
+  private static sharesCollection = collection(db, "sitterShares");
+
+  private static completionsCollection(shareId: string) {
+    return collection(db, "sitterShares", shareId, "completions");
+  }
+
+  static async createShare(share: SitterShareInput): Promise<string> {
+    const shareDoc = doc(this.sharesCollection);
+    const firebaseShare: FirebaseSitterShare = {
+      gardenId: share.gardenId,
+      sitterName: share.sitterName,
+      createdBy: share.createdBy,
+      startsAt: Timestamp.fromDate(share.startsAt),
+      expiresAt: Timestamp.fromDate(share.expiresAt),
+      tasks: share.tasks.map(taskToFirebase),
+      createdAt: Timestamp.now(),
+    };
+    await setDoc(shareDoc, firebaseShare);
+    return shareDoc.id;
+  }
+
+  /**
+   * Ends a share early; the link stops working straight away
+   */
+  static async revokeShare(shareId: string): Promise<void> {
+    await updateDoc(doc(this.sharesCollection, shareId), { revokedAt: Timestamp.now() });
+  }
+
+  static async markSummarySeen(shareId: string): Promise<void> {
+    await updateDoc(doc(this.sharesCollection, shareId), { summarySeenAt: Timestamp.now() });
+  }
+
+  static subscribeToShare(
+    shareId: string,
+    callback: (share: SitterShare | null) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return onSnapshot(
+      doc(this.sharesCollection, shareId),
+      (snapshot) => {
+        callback(
+          snapshot.exists()
+            ? convertFromFirebase(snapshot.id, snapshot.data() as FirebaseSitterShare)
+            : null
+        );
+      },
+      (error) => {
+        Logger.error("Sitter share query failed:", error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Every sitter link for a garden, newest visit first
+   */
+  static subscribeToGardenShares(
+    gardenId: string,
+    callback: (shares: SitterShare[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return onSnapshot(
+      query(this.sharesCollection, where("gardenId", "==", gardenId)),
+      (snapshot) => {
+        callback(
+          snapshot.docs
+            .map((shareDoc) =>
+              convertFromFirebase(shareDoc.id, shareDoc.data() as FirebaseSitterShare)
+            )
+            .sort((a, b) => b.startsAt.getTime() - a.startsAt.getTime())
+        );
+      },
+      (error) => {
+        Logger.error("Sitter share query failed:", error);
+        onError?.(error);
+      }
+    );
+  }
+
+  static async logCompletion(
+    shareId: string,
+    completion: Omit<SitterCompletion, "id">
+  ): Promise<string> {
+    const firebaseCompletion: FirebaseSitterCompletion = {
+      ...completion,
+      completedAt: Timestamp.fromDate(completion.completedAt),
+    };
+    const docRef = await addDoc(this.completionsCollection(shareId), firebaseCompletion);
+    return docRef.id;
+  }
+
+  static subscribeToCompletions(
+    shareId: string,
+    callback: (completions: SitterCompletion[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return onSnapshot(
+      this.completionsCollection(shareId),
+      (snapshot) => {
+        callback(
+          snapshot.docs
+            .map((completionDoc) =>
+              convertCompletionFromFirebase(
+                completionDoc.id,
+                completionDoc.data() as FirebaseSitterCompletion
+              )
+            )
+            .sort((a, b) => a.completedAt.getTime() - b.completedAt.getTime())
+        );
+      },
+      (error) => {
+        Logger.error("Sitter completion query failed:", error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Copies completions into the garden's care history under stable IDs, so two
+   * members importing at once write the same activities. Returns how many
+   * activities were written.
+   */
+  static async importCompletions(
+    share: SitterShare,
+    completions: SitterCompletion[],
+    userId: string
+  ): Promise<number> {
+    const careActivities = collection(db, "careActivities");
+    const writes = completions
+      .filter((completion) => !completion.imported)
+      .map((completion) => ({
+        completion,
+        activities: SitterShareService.buildActivities(share, completion),
+      }));
+    let imported = 0;
+
+    for (let i = 0; i < writes.length; ) {
+      const batch = writeBatch(db);
+      let batchSize = 0;
+      while (
+        i < writes.length &&
+        (batchSize === 0 || batchSize + writes[i].activities.length < WRITE_BATCH_SIZE)
+      ) {
+        const { completion, activities } = writes[i];
+        activities.forEach((activity) => {
+          batch.set(
+            doc(careActivities, SitterShareService.getActivityId(completion, activity.plantId)),
+            convertCareActivityToFirebase(
+              { ...activity, id: "", createdAt: new Date() },
+              userId,
+              share.gardenId
+            )
+          );
+        });
+        batch.update(doc(this.completionsCollection(share.id), completion.id), {
+          imported: true,
+        });
+        batchSize += activities.length + 1;
+        imported += activities.length;
+        i++;
+      }
+      await batch.commit();
+    }
+
+    return imported;
+  }
+}
@@ -0,0 +1,49 @@
+// src/services/firebase/userSettingsService.ts
+import { doc, getDoc, onSnapshot, setDoc, Timestamp } from "firebase/firestore";
+import { db } from "./config";
+import { UserSettings } from "@/types";
+import { StoredUserSettings } from "../userSettingsService";
+import { Logger } from "@/utils/logger";
+
+/**
+ * One settings document per user, keyed by their uid
+ */
+export class FirebaseUserSettingsService {
+  private static settingsDoc(userId: string) {
+    return doc(db, "userSettings", userId);
+  }
+
+  static async getSettings(userId: string): Promise<StoredUserSettings | null> {
+    const snapshot = await getDoc(this.settingsDoc(userId));
+    return snapshot.exists() ? (snapshot.data() as StoredUserSettings) : null;
+  }
+
+  static subscribeToSettings(
+    userId: string,
+    callback: (settings: StoredUserSettings | null) => void
+  ): () => void {
+    return onSnapshot(
+      this.settingsDoc(userId),
+      (snapshot) => {
+        callback(snapshot.exists() ? (snapshot.data() as StoredUserSettings) : null);
+      },
+      (error) => {
+        Logger.error("User settings query failed:", error);
+      }
+    );
+  }
+
+  static async saveSettings(userId: string, settings: UserSettings): Promise<void> {
+    const { zipCode, ...location } = settings.location;
+
+    // Firestore rejects undefined fields, so optional values are only set when present
+    await setDoc(this.settingsDoc(userId), {
+      userId,
+      units: settings.units,
+      notifications: settings.notifications,
+      location: zipCode ? { ...location, zipCode } : location,
+      ...(settings.activeGardenId && { activeGardenId: settings.activeGardenId }),
+      updatedAt: Timestamp.now(),
+    });
+  }
+}
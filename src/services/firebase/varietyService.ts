@@ -0,0 +1,135 @@
+// src/services/firebase/varietyService.ts
+import {
+  collection,
+  addDoc,
+  query,
+  where,
+  getDoc,
+  getDocs,
+  doc,
+  writeBatch,
+  Timestamp,
+} from "firebase/firestore";
+import { db } from "./config";
+import { VarietyRecord } from "@/types/database";
+import { FirebaseOutboxService } from "./outboxService";
+
+export interface FirebaseVariety extends Omit<VarietyRecord, "id" | "createdAt" | "updatedAt"> {
+  userId: string;
+  gardenId: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export type VarietyInput = Omit<VarietyRecord, "id" | "createdAt" | "updatedAt">;
+
+const WRITE_BATCH_SIZE = 400;
+
+const convertFromFirebase = (id: string, data: FirebaseVariety): VarietyRecord => ({
+  id,
+  name: data.name,
+  normalizedName: data.normalizedName,
+  category: data.category,
+  ...(data.description && { description: data.description }),
+  growthTimeline: data.growthTimeline,
+  ...(data.protocols && { protocols: data.protocols }),
+  ...(data.isEverbearing !== undefined && { isEverbearing: data.isEverbearing }),
+  ...(data.productiveLifespan !== undefined && {
+    productiveLifespan: data.productiveLifespan,
+  }),
+  ...(data.isCustom !== undefined && { isCustom: data.isCustom }),
+  ...(data.visualCues && { visualCues: data.visualCues }),
+  createdAt: data.createdAt.toDate(),
+  updatedAt: data.updatedAt.toDate(),
+});
+
+// Firestore rejects undefined fields at any depth, and protocols nest deeply
+const withoutUndefined = <T>(value: T): T => {
+  if (Array.isArray(value)) return value.map(withoutUndefined) as T;
+  if (value === null || typeof value !== "object" || value instanceof Timestamp) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, field]) => field !== undefined)
+      .map(([key, field]) => [key, withoutUndefined(field)])
+  ) as T;
+};
+
+/**
+ * Varieties a garden added to the catalogue, such as custom and imported
+ * varieties. The built-in catalogue is seeded on every device and is not
+ * stored here.
+ */
+export class FirebaseVarietyService {
+  private static varietiesCollection = collection(db, "varieties");
+
+  static async createVariety(
+    variety: VarietyInput,
+    userId: string,
+    gardenId: string = userId
+  ): Promise<string> {
+    const firebaseVariety = withoutUndefined({
+      ...variety,
+      userId,
+      gardenId,
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    });
+
+    const docRef = FirebaseOutboxService.isOffline()
+      ? await FirebaseOutboxService.queueCreate(this.varietiesCollection, firebaseVariety)
+      : await addDoc(this.varietiesCollection, firebaseVariety);
+    return docRef.id;
+  }
+
+  static async getVariety(varietyId: string, gardenId: string): Promise<VarietyRecord | null> {
+    const snapshot = await getDoc(doc(this.varietiesCollection, varietyId));
+    if (!snapshot.exists()) return null;
+
+    const data = snapshot.data() as FirebaseVariety;
+    return data.gardenId === gardenId ? convertFromFirebase(snapshot.id, data) : null;
+  }
+
+  /**
+   * A garden's varieties, by name
+   */
+  static async getGardenVarieties(gardenId: string): Promise<VarietyRecord[]> {
+    const snapshot = await getDocs(
+      query(this.varietiesCollection, where("gardenId", "==", gardenId))
+    );
+    return snapshot.docs
+      .map((varietyDoc) =>
+        convertFromFirebase(varietyDoc.id, varietyDoc.data() as FirebaseVariety)
+      )
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Writes varieties under their existing IDs, so plants that reference them
+   * by varietyId keep resolving
+   */
+  static async saveVarieties(
+    varieties: VarietyRecord[],
+    userId: string,
+    gardenId: string = userId
+  ): Promise<void> {
+    for (let i = 0; i < varieties.length; i += WRITE_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      varieties.slice(i, i + WRITE_BATCH_SIZE).forEach((variety) => {
+        const { id, createdAt, updatedAt, ...fields } = variety;
+        batch.set(
+          doc(this.varietiesCollection, id),
+          withoutUndefined({
+            ...fields,
+            userId,
+            gardenId,
+            createdAt: Timestamp.fromDate(createdAt),
+            updatedAt: Timestamp.fromDate(updatedAt ?? createdAt),
+          })
+        );
+      });
+      await batch.commit();
+    }
+  }
+}
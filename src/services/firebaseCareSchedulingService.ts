@@ -9,10 +9,13 @@ import {
   formatDueIn,
   calculatePriority,
   ensureDateObject,
+  dateToLocalDateString,
 } from "@/utils/dateUtils";
 import { Logger } from "@/utils/logger";
 import { WateringResolver } from "@/utils/wateringResolver";
+import { ProtocolParser } from "@/utils/protocolParser";
 import { seedVarieties, SeedVariety } from "@/data/seedVarieties";
+import { getVarietyByName } from "@/data";
 import { CareRecord } from "@/types";
 
 interface TaskConfig {
@@ -20,7 +23,7 @@ interface TaskConfig {
   taskName: string;
   category: "watering" | "fertilizing" | "observation" | "maintenance";
   dueSoonThreshold: number; // days
-  fallbackInterval: number; // days for new plants
+  fallbackInterval: number; // days for new plants whose protocol gives no frequency
 }
 
 const TASK_CONFIGS: Record<string, TaskConfig> = {
@@ -40,6 +43,19 @@ const TASK_CONFIGS: Record<string, TaskConfig> = {
   },
 };
 
+interface PlantTaskGroup {
+  key: string;
+  plants: PlantRecord[];
+  isGroup: boolean;
+  container?: string;
+  section?: string;
+  varietyName?: string;
+  plantCount: number;
+}
+
+// Keeps a calendar range from producing an unbounded number of occurrences
+const MAX_PROJECTED_OCCURRENCES = 62;
+
 const TASK_TYPE_MAP: Record<
   string,
   keyof NonNullable<PlantRecord["reminderPreferences"]>
@@ -103,45 +119,82 @@ export class FirebaseCareSchedulingService {
     return filteredTasks.length > 0 ? filteredTasks[0] : null;
   }
 
-  private static async getTasksForPlant(
-    plant: PlantRecord,
-    getLastActivityByType: (plantId: string, type: CareActivityType) => Promise<CareRecord | null>
+  /**
+   * Projects recurring watering and health-check tasks across a date range,
+   * e.g. for the calendar. Each occurrence repeats at the plant's usual
+   * interval from the next due date; grouped plants share one entry.
+   */
+  public static async getProjectedTasks(
+    plants: PlantRecord[],
+    getLastActivityByType: (plantId: string, type: CareActivityType) => Promise<CareRecord | null>,
+    rangeStart: Date,
+    rangeEnd: Date
   ): Promise<UpcomingTask[]> {
     try {
-      // Find variety by name in seed data instead of IndexedDB lookup
-      const seedVariety = seedVarieties.find((v: SeedVariety) => v.name === plant.varietyName);
-      
-      if (!seedVariety) {
-        console.warn(`No variety found for ${plant.varietyName}`);
-        return [];
+      const projected: UpcomingTask[] = [];
+      const today = new Date();
+
+      for (const group of this.groupPlantsForTasks(plants)) {
+        const plant = group.plants[0];
+        const currentStage = this.getCurrentStage(plant);
+        if (!currentStage) continue;
+        const isGroup = group.isGroup && group.plants.length > 1;
+
+        for (const taskType of Object.keys(TASK_CONFIGS)) {
+          const config = TASK_CONFIGS[taskType];
+          const protocolInterval = this.getProtocolInterval(plant, currentStage, config);
+          let dueDate = await this.calculateNextDueDate(
+            plant,
+            config.type,
+            protocolInterval ?? config.fallbackInterval,
+            getLastActivityByType,
+            protocolInterval
+          );
+          const intervalDays = await DynamicSchedulingService.getRecurringIntervalDays(
+            plant.id,
+            config.type,
+            protocolInterval
+          );
+
+          for (let i = 0; i < MAX_PROJECTED_OCCURRENCES && dueDate <= rangeEnd; i++) {
+            if (dueDate >= rangeStart) {
+              const dateKey = dateToLocalDateString(dueDate);
+              const task: UpcomingTask = {
+                id: isGroup
+                  ? `${taskType}-group-${group.key}-${dateKey}`
+                  : `${taskType}-${plant.id}-${dateKey}`,
+                plantId: isGroup ? group.key : plant.id,
+                ...(isGroup && { plantIds: group.plants.map((p) => p.id) }),
+                plantName: isGroup ? this.getGroupLabel(group) : getPlantDisplayName(plant),
+                task: config.taskName,
+                type: taskType,
+                dueIn: formatDueIn(dueDate),
+                priority: calculatePriority(differenceInDays(today, dueDate)),
+                plantStage: currentStage,
+                dueDate,
+                category: config.category,
+              };
+              projected.push(...this.filterTasksByPreferences(plant, [task]));
+            }
+            dueDate = addDays(dueDate, intervalDays);
+          }
+        }
       }
 
-      // Convert SeedVariety to VarietyRecord format for compatibility
-      const variety = {
-        id: plant.varietyId || 'seed-variety',
-        name: seedVariety.name,
-        normalizedName: seedVariety.name.toLowerCase(),
-        category: seedVariety.category,
-        description: undefined,
-        growthTimeline: {
-          germination: seedVariety.growthTimeline.germination || 14,
-          seedling: seedVariety.growthTimeline.seedling || 14,
-          vegetative: seedVariety.growthTimeline.vegetative || 28,
-          maturation: seedVariety.growthTimeline.maturation || 56,
-          rootDevelopment: seedVariety.growthTimeline.rootDevelopment
-        },
-        protocols: seedVariety.protocols,
-        isEverbearing: seedVariety.isEverbearing,
-        productiveLifespan: seedVariety.productiveLifespan,
-        isCustom: false,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
+      return projected.sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+    } catch (error) {
+      Logger.error("Error projecting recurring tasks:", error);
+      return [];
+    }
+  }
 
-      const currentStage = calculateCurrentStageWithVariety(
-        plant.plantedDate,
-        variety
-      );
+  private static async getTasksForPlant(
+    plant: PlantRecord,
+    getLastActivityByType: (plantId: string, type: CareActivityType) => Promise<CareRecord | null>
+  ): Promise<UpcomingTask[]> {
+    try {
+      const currentStage = this.getCurrentStage(plant);
+      if (!currentStage) return [];
 
       const tasks: UpcomingTask[] = [];
 
@@ -168,6 +221,18 @@ export class FirebaseCareSchedulingService {
     }
   }
 
+  private static getCurrentStage(plant: PlantRecord): GrowthStage | null {
+    // Find variety by name in seed data instead of IndexedDB lookup
+    const seedVariety = seedVarieties.find((v: SeedVariety) => v.name === plant.varietyName);
+    
+    if (!seedVariety) {
+      console.warn(`No variety found for ${plant.varietyName}`);
+      return null;
+    }
+
+    return calculateCurrentStageWithVariety(plant.plantedDate, seedVariety);
+  }
+
   private static async createTaskForType(
     plant: PlantRecord,
     currentStage: GrowthStage,
@@ -177,11 +242,13 @@ export class FirebaseCareSchedulingService {
     const config = TASK_CONFIGS[taskType];
     if (!config) return null;
 
+    const protocolInterval = this.getProtocolInterval(plant, currentStage, config);
     const nextDueDate = await this.calculateNextDueDate(
       plant,
       config.type,
-      config.fallbackInterval,
-      getLastActivityByType
+      protocolInterval ?? config.fallbackInterval,
+      getLastActivityByType,
+      protocolInterval
     );
 
     const today = new Date();
@@ -221,11 +288,30 @@ export class FirebaseCareSchedulingService {
     return null;
   }
 
+  /**
+   * Days between checks given by the stage's protocol frequency, e.g. every
+   * 2 days for "2-3x/week". Used for a new plant's first check and as the
+   * base of the recurring interval; undefined when the protocol gives none.
+   */
+  private static getProtocolInterval(
+    plant: PlantRecord,
+    currentStage: GrowthStage,
+    config: TaskConfig
+  ): number | undefined {
+    if (config.type !== "water") return undefined;
+
+    const wateringProtocol =
+      getVarietyByName(plant.varietyName)?.protocols?.watering?.[currentStage];
+    const frequency = ProtocolParser.parseFrequency(wateringProtocol?.volume?.frequency);
+    return frequency ? ProtocolParser.toIntervalDays(frequency) : undefined;
+  }
+
   private static async calculateNextDueDate(
     plant: PlantRecord,
     activityType: CareActivityType,
     fallbackInterval: number,
-    getLastActivityByType: (plantId: string, type: CareActivityType) => Promise<CareRecord | null>
+    getLastActivityByType: (plantId: string, type: CareActivityType) => Promise<CareRecord | null>,
+    recurringInterval?: number
   ): Promise<Date> {
     let lastActivity: CareRecord | null = null;
 
@@ -244,7 +330,8 @@ export class FirebaseCareSchedulingService {
       return await DynamicSchedulingService.getNextDueDateForTask(
         plant.id,
         activityType,
-        lastActivityDate
+        lastActivityDate,
+        recurringInterval
       );
     } else {
       const daysSincePlanting = differenceInDays(new Date(), plant.plantedDate);
@@ -271,17 +358,7 @@ export class FirebaseCareSchedulingService {
    * Group plants for task generation - group by variety, container, planting date, and conditions
    */
   private static groupPlantsForTasks(plants: PlantRecord[]) {
-    interface PlantGroup {
-      key: string;
-      plants: PlantRecord[];
-      isGroup: boolean;
-      container?: string;
-      section?: string;
-      varietyName?: string;
-      plantCount: number;
-    }
-
-    const groups = new Map<string, PlantGroup>();
+    const groups = new Map<string, PlantTaskGroup>();
 
     for (const plant of plants) {
       // Create grouping key based on variety, container, planting date, and location
@@ -339,7 +416,7 @@ export class FirebaseCareSchedulingService {
    * Generate tasks for a plant group (multiple plants with same conditions)
    */
   private static async getTasksForGroup(
-    group: { key: string; plants: PlantRecord[]; container?: string; section?: string; varietyName?: string; plantCount: number },
+    group: PlantTaskGroup,
     getLastActivityByType: (plantId: string, type: CareActivityType) => Promise<CareRecord | null>
   ): Promise<UpcomingTask[]> {
     if (group.plants.length === 0) return [];
@@ -356,8 +433,12 @@ export class FirebaseCareSchedulingService {
       ...task,
       id: `${task.type}-group-${group.key}`,
       plantId: group.key, // Use group key instead of individual plant ID
-      plantName: `${group.container} (${group.plantCount}x ${group.varietyName})${group.section ? ` - ${group.section}` : ''}`,
+      plantIds: group.plants.map((plant) => plant.id),
+      plantName: this.getGroupLabel(group),
     }));
   }
 
-}
\ No newline at end of file
+  private static getGroupLabel(group: PlantTaskGroup): string {
+    return `${group.container} (${group.plantCount}x ${group.varietyName})${group.section ? ` - ${group.section}` : ''}`;
+  }
+}
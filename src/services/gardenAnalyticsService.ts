@@ -0,0 +1,226 @@
+// src/services/gardenAnalyticsService.ts
+import {
+  CareActivityRecord,
+  CareActivityType,
+  PlantRecord,
+  TaskCompletionRecord,
+} from "@/types";
+import { eachDayOfInterval, format, isWithinInterval, startOfDay } from "date-fns";
+import { MeasurementService } from "./measurementService";
+
+export interface AnalyticsFilter {
+  startDate: Date;
+  endDate: Date;
+  plantId?: string;
+  bedId?: string;
+}
+
+export interface TimeSeriesPoint {
+  date: Date;
+  label: string;
+  value: number;
+}
+
+export interface WateringVolumeSeries {
+  plantId: string;
+  plantName: string;
+  totalOz: number;
+  points: TimeSeriesPoint[];
+}
+
+export interface FertilizationTimeliness {
+  total: number;
+  onTime: number;
+  early: number;
+  late: number;
+  onTimeRate: number;
+  averageVarianceDays: number;
+}
+
+export interface ActivityTypeCount {
+  type: CareActivityType;
+  count: number;
+}
+
+export interface PartialWateringStats {
+  totalWaterings: number;
+  partialWaterings: number;
+  partialRate: number;
+  points: TimeSeriesPoint[];
+}
+
+// Completions within a day of the due date count as on time
+const ON_TIME_TOLERANCE_DAYS = 1;
+
+/**
+ * Aggregates Firestore care activities and local task completions into the
+ * series shown on the Analytics page.
+ */
+export class GardenAnalyticsService {
+  /**
+   * Narrows plants to the selected plant or bed
+   */
+  static filterPlants(plants: PlantRecord[], filter: AnalyticsFilter): PlantRecord[] {
+    return plants.filter((plant) => {
+      if (filter.plantId && plant.id !== filter.plantId) return false;
+      if (filter.bedId && plant.structuredSection?.bedId !== filter.bedId) return false;
+      return true;
+    });
+  }
+
+  /**
+   * Keeps activities for the filtered plants that fall inside the date range
+   */
+  static filterActivities(
+    activities: CareActivityRecord[],
+    plants: PlantRecord[],
+    filter: AnalyticsFilter
+  ): CareActivityRecord[] {
+    const plantIds = new Set(this.filterPlants(plants, filter).map((p) => p.id));
+    const interval = { start: startOfDay(filter.startDate), end: filter.endDate };
+
+    return activities.filter(
+      (activity) =>
+        plantIds.has(activity.plantId) && isWithinInterval(activity.date, interval)
+    );
+  }
+
+  /**
+   * Reads the watered volume in fluid ounces. Older records store it as
+   * `waterAmount`/`waterUnit`, newer ones as an `amount` object.
+   */
+  static getWaterVolumeOz(activity: CareActivityRecord): number {
+    const { details } = activity;
+    // Unrecognised unit strings are counted as ounces, as they always have been
+    const toOz = (value: number, unit: string) =>
+      MeasurementService.convertVolume(
+        value,
+        MeasurementService.normalizeVolumeUnit(unit) ?? "oz",
+        "oz"
+      );
+
+    if (typeof details.amount === "object" && details.amount?.value) {
+      return toOz(details.amount.value, details.amount.unit);
+    }
+    if (details.waterAmount && details.waterUnit) {
+      return toOz(details.waterAmount, details.waterUnit);
+    }
+    return 0;
+  }
+
+  static getWateringVolumeSeries(
+    activities: CareActivityRecord[],
+    plants: PlantRecord[],
+    filter: AnalyticsFilter
+  ): WateringVolumeSeries[] {
+    const days = this.getDays(filter);
+    const waterings = this.filterActivities(activities, plants, filter).filter(
+      (activity) => activity.type === "water"
+    );
+
+    return this.filterPlants(plants, filter)
+      .map((plant) => {
+        const totals = new Map<string, number>();
+        for (const activity of waterings) {
+          if (activity.plantId !== plant.id) continue;
+          const key = format(activity.date, "yyyy-MM-dd");
+          totals.set(key, (totals.get(key) ?? 0) + this.getWaterVolumeOz(activity));
+        }
+
+        const points = days.map((day) => ({
+          date: day,
+          label: format(day, "MMM d"),
+          value: totals.get(format(day, "yyyy-MM-dd")) ?? 0,
+        }));
+
+        return {
+          plantId: plant.id,
+          plantName: plant.name || plant.varietyName,
+          totalOz: points.reduce((sum, point) => sum + point.value, 0),
+          points,
+        };
+      })
+      .filter((series) => series.totalOz > 0)
+      .sort((a, b) => b.totalOz - a.totalOz);
+  }
+
+  static getFertilizationTimeliness(
+    completions: TaskCompletionRecord[],
+    plants: PlantRecord[],
+    filter: AnalyticsFilter
+  ): FertilizationTimeliness {
+    const plantIds = new Set(this.filterPlants(plants, filter).map((p) => p.id));
+    const interval = { start: startOfDay(filter.startDate), end: filter.endDate };
+    const relevant = completions.filter(
+      (completion) =>
+        completion.taskType === "fertilize" &&
+        plantIds.has(completion.plantId) &&
+        isWithinInterval(completion.actualCompletionDate, interval)
+    );
+
+    const early = relevant.filter((c) => c.varianceDays < -ON_TIME_TOLERANCE_DAYS).length;
+    const late = relevant.filter((c) => c.varianceDays > ON_TIME_TOLERANCE_DAYS).length;
+    const onTime = relevant.length - early - late;
+    const totalVariance = relevant.reduce((sum, c) => sum + c.varianceDays, 0);
+
+    return {
+      total: relevant.length,
+      onTime,
+      early,
+      late,
+      onTimeRate: relevant.length > 0 ? onTime / relevant.length : 0,
+      averageVarianceDays: relevant.length > 0 ? totalVariance / relevant.length : 0,
+    };
+  }
+
+  static getActivityCountsByType(
+    activities: CareActivityRecord[],
+    plants: PlantRecord[],
+    filter: AnalyticsFilter
+  ): ActivityTypeCount[] {
+    const counts = new Map<CareActivityType, number>();
+    for (const activity of this.filterActivities(activities, plants, filter)) {
+      counts.set(activity.type, (counts.get(activity.type) ?? 0) + 1);
+    }
+
+    return Array.from(counts.entries())
+      .map(([type, count]) => ({ type, count }))
+      .sort((a, b) => b.count - a.count);
+  }
+
+  static getPartialWateringStats(
+    activities: CareActivityRecord[],
+    plants: PlantRecord[],
+    filter: AnalyticsFilter
+  ): PartialWateringStats {
+    const waterings = this.filterActivities(activities, plants, filter).filter(
+      (activity) => activity.type === "water"
+    );
+    const partial = waterings.filter((activity) => activity.details.isPartialWatering);
+
+    const partialByDay = new Map<string, number>();
+    for (const activity of partial) {
+      const key = format(activity.date, "yyyy-MM-dd");
+      partialByDay.set(key, (partialByDay.get(key) ?? 0) + 1);
+    }
+
+    return {
+      totalWaterings: waterings.length,
+      partialWaterings: partial.length,
+      partialRate: waterings.length > 0 ? partial.length / waterings.length : 0,
+      points: this.getDays(filter).map((day) => ({
+        date: day,
+        label: format(day, "MMM d"),
+        value: partialByDay.get(format(day, "yyyy-MM-dd")) ?? 0,
+      })),
+    };
+  }
+
+  private static getDays(filter: AnalyticsFilter): Date[] {
+    if (filter.startDate > filter.endDate) return [];
+    return eachDayOfInterval({
+      start: startOfDay(filter.startDate),
+      end: startOfDay(filter.endDate),
+    });
+  }
+}
@@ -0,0 +1,525 @@
+// src/services/gardenArchiveService.ts
+import { z } from "zod";
+import { format } from "date-fns";
+import {
+  BedRecord,
+  CareActivityRecord,
+  PlantRecord,
+  TaskBypassRecord,
+  VarietyRecord,
+} from "@/types";
+import { ScheduledTask } from "./ProtocolTranspilerService";
+import { generateUUID } from "@/utils/cn";
+
+export const GARDEN_ARCHIVE_FORMAT = "smart-garden-archive";
+export const GARDEN_ARCHIVE_VERSION = 1;
+
+export interface GardenArchiveData {
+  plants: PlantRecord[];
+  careActivities: CareActivityRecord[];
+  scheduledTasks: ScheduledTask[];
+  beds: BedRecord[];
+  customVarieties: VarietyRecord[];
+  taskBypasses: TaskBypassRecord[];
+}
+
+export type ArchiveCollection = keyof GardenArchiveData;
+
+export interface GardenArchive {
+  format: typeof GARDEN_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: Date;
+  data: GardenArchiveData;
+}
+
+export type ArchiveParseResult =
+  | { success: true; archive: GardenArchive }
+  | { success: false; errors: string[] };
+
+export interface CollectionDiff {
+  create: number;
+  duplicates: number;
+  skipped: number;
+}
+
+export type ImportDiff = Record<ArchiveCollection, CollectionDiff>;
+
+export interface ImportPlan {
+  /** Records that will be written, already carrying their new IDs */
+  records: GardenArchiveData;
+  /** Archive ID → ID in this garden, for created and duplicate records */
+  idMap: Record<ArchiveCollection, Map<string, string>>;
+  diff: ImportDiff;
+  warnings: string[];
+}
+
+export const ARCHIVE_COLLECTIONS: ArchiveCollection[] = [
+  "beds",
+  "customVarieties",
+  "plants",
+  "careActivities",
+  "scheduledTasks",
+  "taskBypasses",
+];
+
+export const ARCHIVE_COLLECTION_LABELS: Record<ArchiveCollection, string> = {
+  plants: "Plants",
+  careActivities: "Care activities",
+  scheduledTasks: "Scheduled tasks",
+  beds: "Beds",
+  customVarieties: "Custom varieties",
+  taskBypasses: "Task bypasses",
+};
+
+const MAX_REPORTED_ERRORS = 10;
+
+const CARE_ACTIVITY_TYPES = [
+  "water",
+  "fertilize",
+  "observe",
+  "harvest",
+  "transplant",
+  "photo",
+  "note",
+  "lighting",
+  "pruning",
+  "thin",
+  "moisture",
+] as const;
+
+const date = z.coerce.date({ invalid_type_error: "Invalid date" });
+
+const baseRecordSchema = z.object({
+  id: z.string().min(1, "Missing ID"),
+  createdAt: date,
+  updatedAt: date.optional(),
+});
+
+const plantSchema = baseRecordSchema
+  .extend({
+    varietyId: z.string(),
+    varietyName: z.string().min(1, "Variety name is required"),
+    name: z.string().optional(),
+    plantedDate: date,
+    location: z.string(),
+    container: z.string(),
+    isActive: z.boolean(),
+    stageConfirmedDate: date.optional(),
+    lastThinningDate: date.optional(),
+    structuredSection: z
+      .object({ bedId: z.string() })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough();
+
+const careActivitySchema = baseRecordSchema
+  .extend({
+    plantId: z.string().min(1, "Missing plant ID"),
+    type: z.enum(CARE_ACTIVITY_TYPES),
+    date,
+    details: z.object({ type: z.enum(CARE_ACTIVITY_TYPES) }).passthrough(),
+  })
+  .passthrough();
+
+const scheduledTaskSchema = baseRecordSchema
+  .extend({
+    plantId: z.string().min(1, "Missing plant ID"),
+    taskName: z.string(),
+    taskType: z.enum(CARE_ACTIVITY_TYPES),
+    details: z.object({
+      type: z.string(),
+      product: z.string(),
+      dilution: z.string(),
+      amount: z.string(),
+      method: z.string(),
+    }),
+    dueDate: date,
+    status: z.enum(["pending", "completed", "skipped", "bypassed"]),
+    sourceProtocol: z.object({
+      stage: z.string(),
+      originalStartDays: z.number(),
+      isDynamic: z.boolean(),
+    }),
+    coordinatedWith: z.array(z.string()).optional(),
+  })
+  .passthrough();
+
+const bedSchema = baseRecordSchema
+  .extend({
+    name: z.string().min(1, "Bed name is required"),
+    dimensions: z.object({
+      length: z.number(),
+      width: z.number(),
+      unit: z.enum(["inches", "cm", "feet", "mm"]),
+    }),
+    type: z.enum([
+      "raised-bed",
+      "container",
+      "ground-bed",
+      "greenhouse-bench",
+      "other",
+    ]),
+    isActive: z.boolean(),
+  })
+  .passthrough();
+
+const varietySchema = baseRecordSchema
+  .extend({
+    name: z.string().min(1, "Variety name is required"),
+    normalizedName: z.string().min(1, "Normalized name is required"),
+    category: z.enum([
+      "root-vegetables",
+      "leafy-greens",
+      "herbs",
+      "berries",
+      "fruiting-plants",
+      "flowers",
+    ]),
+    growthTimeline: z.object({}).passthrough(),
+  })
+  .passthrough();
+
+const taskBypassSchema = baseRecordSchema
+  .extend({
+    taskId: z.string(),
+    plantId: z.string().min(1, "Missing plant ID"),
+    taskType: z.enum(CARE_ACTIVITY_TYPES),
+    reason: z.string(),
+    scheduledDate: date,
+    bypassDate: date,
+    plantStage: z.string(),
+  })
+  .passthrough();
+
+const archiveSchema = z.object({
+  format: z.literal(GARDEN_ARCHIVE_FORMAT, {
+    errorMap: () => ({ message: "Not a Smart Garden archive" }),
+  }),
+  version: z
+    .number()
+    .int()
+    .max(GARDEN_ARCHIVE_VERSION, {
+      message: `Archive was made by a newer version of the app (supported up to version ${GARDEN_ARCHIVE_VERSION})`,
+    }),
+  exportedAt: date,
+  data: z.object({
+    plants: z.array(plantSchema),
+    careActivities: z.array(careActivitySchema),
+    scheduledTasks: z.array(scheduledTaskSchema),
+    beds: z.array(bedSchema),
+    customVarieties: z.array(varietySchema),
+    taskBypasses: z.array(taskBypassSchema),
+  }),
+});
+
+const dayKey = (value: Date) => format(value, "yyyy-MM-dd");
+const normalize = (value: string | undefined) => (value ?? "").trim().toLowerCase();
+
+const emptyDiff = (): ImportDiff => ({
+  plants: { create: 0, duplicates: 0, skipped: 0 },
+  careActivities: { create: 0, duplicates: 0, skipped: 0 },
+  scheduledTasks: { create: 0, duplicates: 0, skipped: 0 },
+  beds: { create: 0, duplicates: 0, skipped: 0 },
+  customVarieties: { create: 0, duplicates: 0, skipped: 0 },
+  taskBypasses: { create: 0, duplicates: 0, skipped: 0 },
+});
+
+/**
+ * Builds and reads versioned garden archives so a whole garden can be backed
+ * up offline or moved to another account. Importing is split into a pure
+ * planning step, which produces the dry-run diff, and a separate commit.
+ */
+export class GardenArchiveService {
+  static buildArchive(
+    data: GardenArchiveData,
+    exportedAt: Date = new Date()
+  ): GardenArchive {
+    return {
+      format: GARDEN_ARCHIVE_FORMAT,
+      version: GARDEN_ARCHIVE_VERSION,
+      exportedAt,
+      data,
+    };
+  }
+
+  static serializeArchive(archive: GardenArchive): string {
+    return JSON.stringify(archive, null, 2);
+  }
+
+  static getArchiveFileName(exportedAt: Date = new Date()): string {
+    return `smartgarden-archive-${dayKey(exportedAt)}.json`;
+  }
+
+  /**
+   * Validates raw archive text and revives its dates. Errors name the
+   * offending record, e.g. `plants[3].plantedDate: Invalid date`.
+   */
+  static parseArchive(json: string): ArchiveParseResult {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch {
+      return { success: false, errors: ["File is not valid JSON"] };
+    }
+
+    const result = archiveSchema.safeParse(raw);
+    if (!result.success) {
+      const errors = result.error.issues.map((issue) => {
+        const path = this.formatIssuePath(issue.path);
+        return path ? `${path}: ${issue.message}` : issue.message;
+      });
+      if (errors.length > MAX_REPORTED_ERRORS) {
+        const remaining = errors.length - MAX_REPORTED_ERRORS;
+        return {
+          success: false,
+          errors: [
+            ...errors.slice(0, MAX_REPORTED_ERRORS),
+            `...and ${remaining} more problem${remaining === 1 ? "" : "s"}`,
+          ],
+        };
+      }
+      return { success: false, errors };
+    }
+
+    // The schemas pass unknown fields through, so the parsed records keep
+    // every optional property the app stores
+    return { success: true, archive: result.data as unknown as GardenArchive };
+  }
+
+  /**
+   * Works out what importing `archive` into a garden that already holds
+   * `existing` would do. Records matching existing ones are reused instead
+   * of duplicated, everything else gets a fresh ID and all references
+   * between records are rewritten to the new IDs. Nothing is written here.
+   */
+  static planImport(
+    archive: GardenArchive,
+    existing: GardenArchiveData,
+    createId: () => string = generateUUID
+  ): ImportPlan {
+    const { data } = archive;
+    const diff = emptyDiff();
+    const warnings: string[] = [];
+    const idMap: ImportPlan["idMap"] = {
+      plants: new Map(),
+      careActivities: new Map(),
+      scheduledTasks: new Map(),
+      beds: new Map(),
+      customVarieties: new Map(),
+      taskBypasses: new Map(),
+    };
+    const records: GardenArchiveData = {
+      plants: [],
+      careActivities: [],
+      scheduledTasks: [],
+      beds: [],
+      customVarieties: [],
+      taskBypasses: [],
+    };
+
+    const bedMatches = this.indexExisting(existing.beds, (bed) => normalize(bed.name));
+    for (const bed of data.beds) {
+      const match = this.takeMatch(bedMatches, normalize(bed.name));
+      if (match) {
+        idMap.beds.set(bed.id, match);
+        diff.beds.duplicates++;
+        continue;
+      }
+      const id = createId();
+      idMap.beds.set(bed.id, id);
+      records.beds.push({ ...bed, id });
+      diff.beds.create++;
+    }
+
+    const varietyMatches = this.indexExisting(existing.customVarieties, (variety) =>
+      normalize(variety.normalizedName)
+    );
+    for (const variety of data.customVarieties) {
+      const match = this.takeMatch(varietyMatches, normalize(variety.normalizedName));
+      if (match) {
+        idMap.customVarieties.set(variety.id, match);
+        diff.customVarieties.duplicates++;
+        continue;
+      }
+      const id = createId();
+      idMap.customVarieties.set(variety.id, id);
+      records.customVarieties.push({ ...variety, id });
+      diff.customVarieties.create++;
+    }
+
+    const plantKey = (plant: PlantRecord, bedId: string | undefined) =>
+      [
+        normalize(plant.varietyName),
+        normalize(plant.name),
+        dayKey(plant.plantedDate),
+        normalize(plant.location),
+        normalize(plant.container),
+        bedId ?? "",
+      ].join("|");
+    const plantMatches = this.indexExisting(existing.plants, (plant) =>
+      plantKey(plant, plant.structuredSection?.bedId)
+    );
+    for (const plant of data.plants) {
+      const archivedBedId = plant.structuredSection?.bedId;
+      const bedId = archivedBedId ? idMap.beds.get(archivedBedId) : undefined;
+      if (archivedBedId && !bedId) {
+        warnings.push(
+          `${plant.name || plant.varietyName} is placed in a bed that is not in the archive; its bed position was dropped`
+        );
+      }
+
+      const match = this.takeMatch(plantMatches, plantKey(plant, bedId));
+      if (match) {
+        idMap.plants.set(plant.id, match);
+        diff.plants.duplicates++;
+        continue;
+      }
+
+      const id = createId();
+      idMap.plants.set(plant.id, id);
+      records.plants.push({
+        ...plant,
+        id,
+        varietyId: idMap.customVarieties.get(plant.varietyId) ?? plant.varietyId,
+        structuredSection:
+          plant.structuredSection && bedId
+            ? { ...plant.structuredSection, bedId }
+            : undefined,
+      });
+      diff.plants.create++;
+    }
+
+    const activityKey = (activity: CareActivityRecord, plantId: string) =>
+      [plantId, activity.type, activity.date.getTime()].join("|");
+    const activityMatches = this.indexExisting(existing.careActivities, (activity) =>
+      activityKey(activity, activity.plantId)
+    );
+    for (const activity of data.careActivities) {
+      const plantId = idMap.plants.get(activity.plantId);
+      if (!plantId) {
+        diff.careActivities.skipped++;
+        continue;
+      }
+      const match = this.takeMatch(activityMatches, activityKey(activity, plantId));
+      if (match) {
+        idMap.careActivities.set(activity.id, match);
+        diff.careActivities.duplicates++;
+        continue;
+      }
+      const id = createId();
+      idMap.careActivities.set(activity.id, id);
+      records.careActivities.push({ ...activity, id, plantId });
+      diff.careActivities.create++;
+    }
+
+    // Task IDs are assigned before the records are built so coordinatedWith
+    // can point at tasks that appear later in the archive
+    const taskKey = (task: ScheduledTask, plantId: string) =>
+      [plantId, normalize(task.taskName), dayKey(task.dueDate)].join("|");
+    const taskMatches = this.indexExisting(existing.scheduledTasks, (task) =>
+      taskKey(task, task.plantId)
+    );
+    const newTasks: ScheduledTask[] = [];
+    for (const task of data.scheduledTasks) {
+      const plantId = idMap.plants.get(task.plantId);
+      if (!plantId) {
+        diff.scheduledTasks.skipped++;
+        continue;
+      }
+      const match = this.takeMatch(taskMatches, taskKey(task, plantId));
+      if (match) {
+        idMap.scheduledTasks.set(task.id, match);
+        diff.scheduledTasks.duplicates++;
+        continue;
+      }
+      const id = createId();
+      idMap.scheduledTasks.set(task.id, id);
+      newTasks.push({ ...task, id, plantId });
+      diff.scheduledTasks.create++;
+    }
+    records.scheduledTasks = newTasks.map((task) =>
+      task.coordinatedWith
+        ? {
+            ...task,
+            coordinatedWith: task.coordinatedWith
+              .map((taskId) => idMap.scheduledTasks.get(taskId))
+              .filter((taskId): taskId is string => Boolean(taskId)),
+          }
+        : task
+    );
+
+    const bypassKey = (bypass: TaskBypassRecord, plantId: string, taskId: string) =>
+      [plantId, taskId, bypass.taskType, bypass.bypassDate.getTime()].join("|");
+    const bypassMatches = this.indexExisting(existing.taskBypasses, (bypass) =>
+      bypassKey(bypass, bypass.plantId, bypass.taskId)
+    );
+    for (const bypass of data.taskBypasses) {
+      const plantId = idMap.plants.get(bypass.plantId);
+      if (!plantId) {
+        diff.taskBypasses.skipped++;
+        continue;
+      }
+      // Bypasses of dashboard-generated tasks reference IDs that were never
+      // stored, so only scheduled task IDs are rewritten
+      const taskId = idMap.scheduledTasks.get(bypass.taskId) ?? bypass.taskId;
+      const match = this.takeMatch(bypassMatches, bypassKey(bypass, plantId, taskId));
+      if (match) {
+        idMap.taskBypasses.set(bypass.id, match);
+        diff.taskBypasses.duplicates++;
+        continue;
+      }
+      const id = createId();
+      idMap.taskBypasses.set(bypass.id, id);
+      records.taskBypasses.push({ ...bypass, id, plantId, taskId });
+      diff.taskBypasses.create++;
+    }
+
+    for (const collection of ["careActivities", "scheduledTasks", "taskBypasses"] as const) {
+      const skipped = diff[collection].skipped;
+      if (skipped > 0) {
+        warnings.push(
+          `${skipped} ${ARCHIVE_COLLECTION_LABELS[collection].toLowerCase()} reference plants that are not in the archive and will be skipped`
+        );
+      }
+    }
+
+    return { records, idMap, diff, warnings };
+  }
+
+  static hasChanges(plan: ImportPlan): boolean {
+    return ARCHIVE_COLLECTIONS.some((collection) => plan.diff[collection].create > 0);
+  }
+
+  private static formatIssuePath(path: (string | number)[]): string {
+    // Drop the "data." prefix so paths read as collection[index].field
+    const segments = path[0] === "data" ? path.slice(1) : path;
+    return segments.reduce<string>((result, segment) => {
+      if (typeof segment === "number") return `${result}[${segment}]`;
+      return result ? `${result}.${segment}` : segment;
+    }, "");
+  }
+
+  /**
+   * Groups existing record IDs by match key. Identical records (plants
+   * registered as a batch, for example) each claim one existing match.
+   */
+  private static indexExisting<T extends { id: string }>(
+    items: T[],
+    getKey: (item: T) => string
+  ): Map<string, string[]> {
+    const index = new Map<string, string[]>();
+    for (const item of items) {
+      const key = getKey(item);
+      index.set(key, [...(index.get(key) ?? []), item.id]);
+    }
+    return index;
+  }
+
+  private static takeMatch(
+    index: Map<string, string[]>,
+    key: string
+  ): string | undefined {
+    return index.get(key)?.shift();
+  }
+}
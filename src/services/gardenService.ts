@@ -0,0 +1,149 @@
+// src/services/gardenService.ts
+import {
+  CareActivityAttribution,
+  CareActivityRecord,
+  Garden,
+  GardenMember,
+  GardenRole,
+} from "@/types";
+import { UserSettingsService } from "./userSettingsService";
+
+// The parts of a Firebase user that gardens record about their members
+export interface GardenUser {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+}
+
+type GardensListener = (gardens: Garden[]) => void;
+
+let currentGardens: Garden[] = [];
+let gardensLoaded = false;
+const listeners = new Set<GardensListener>();
+
+/**
+ * Roles and membership rules for shared gardens, plus the gardens the
+ * signed-in user belongs to so services outside of React can scope their
+ * queries. The Firestore subscription in useGardensSync keeps it up to date.
+ */
+export class GardenService {
+  /**
+   * Every user has a personal garden keyed by their uid, which is where
+   * everything they created before gardens were shared lives
+   */
+  static getPersonalGardenId(userId: string): string {
+    return userId;
+  }
+
+  static normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
+  static getInviteId(gardenId: string, email: string): string {
+    return `${gardenId}_${this.normalizeEmail(email)}`;
+  }
+
+  static getRole(garden: Garden, userId: string): GardenRole | null {
+    return garden.members[userId]?.role ?? null;
+  }
+
+  static canEdit(role: GardenRole | null): boolean {
+    return role === "owner" || role === "editor";
+  }
+
+  static canManageMembers(role: GardenRole | null): boolean {
+    return role === "owner";
+  }
+
+  static getAttribution(user: GardenUser): CareActivityAttribution {
+    const displayName = user.displayName || user.email;
+    return { userId: user.uid, ...(displayName && { displayName }) };
+  }
+
+  static createMember(user: GardenUser, role: GardenRole, joinedAt = new Date()): GardenMember {
+    return {
+      userId: user.uid,
+      email: this.normalizeEmail(user.email ?? ""),
+      ...(user.displayName && { displayName: user.displayName }),
+      role,
+      joinedAt,
+    };
+  }
+
+  static createPersonalGarden(user: GardenUser, now = new Date()): Garden {
+    return {
+      id: this.getPersonalGardenId(user.uid),
+      name: user.displayName ? `${user.displayName}'s Garden` : "My Garden",
+      ownerId: user.uid,
+      members: { [user.uid]: this.createMember(user, "owner", now) },
+      memberIds: [user.uid],
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * Who logged an activity, as shown in a shared garden. Prefers the name the
+   * garden has for a current member over the one saved with the activity.
+   */
+  static getLoggedByName(
+    activity: Pick<CareActivityRecord, "loggedBy">,
+    garden: Garden | undefined,
+    currentUserId: string | undefined
+  ): string | null {
+    const loggedBy = activity.loggedBy;
+    if (!loggedBy) return null;
+    if (loggedBy.userId === currentUserId) return "You";
+
+    const member = garden?.members[loggedBy.userId];
+    return member?.displayName || loggedBy.displayName || member?.email || "Another member";
+  }
+
+  static isShared(garden: Garden | undefined): boolean {
+    return !!garden && garden.memberIds.length > 1;
+  }
+
+  /**
+   * The garden the app is showing: the one picked in settings while the user
+   * is still a member of it, otherwise their personal garden
+   */
+  static getActiveGardenId(userId: string | undefined): string | undefined {
+    if (!userId) return undefined;
+
+    const selected = UserSettingsService.getCurrent().activeGardenId;
+    if (!selected) return this.getPersonalGardenId(userId);
+    // Trust the saved choice until memberships have loaded
+    if (!gardensLoaded) return selected;
+
+    const isMember = currentGardens.some(
+      (garden) => garden.id === selected && garden.memberIds.includes(userId)
+    );
+    return isMember ? selected : this.getPersonalGardenId(userId);
+  }
+
+  static getGardens(): Garden[] {
+    return currentGardens;
+  }
+
+  static apply(gardens: Garden[]): void {
+    currentGardens = gardens;
+    gardensLoaded = true;
+    listeners.forEach((listener) => listener(gardens));
+  }
+
+  /**
+   * Forgets the user's gardens, e.g. after sign-out
+   */
+  static reset(): void {
+    currentGardens = [];
+    gardensLoaded = false;
+    listeners.forEach((listener) => listener(currentGardens));
+  }
+
+  static subscribe(listener: GardensListener): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+}
@@ -0,0 +1,156 @@
+// src/services/germinationAnalyticsService.ts
+import { CareActivityRecord, PlantRecord } from "@/types";
+import { SeedPacketService } from "./seedPacketService";
+
+/**
+ * How one planting established: seeds sown per container (when recorded at
+ * registration), seedlings that came up, and seedlings later thinned out as
+ * weak or diseased.
+ */
+export interface PlantEstablishment {
+  plant: PlantRecord;
+  seedsSown?: number;
+  seedlings: number;
+  lost: number;
+}
+
+export interface EstablishmentStats {
+  key: string;
+  label: string;
+  plantings: number;
+  // Germination only counts plantings whose seeds sown are known
+  seedsSown: number;
+  germinated: number;
+  seedlings: number;
+  lost: number;
+  germinationRate: number | null;
+  survivalRate: number | null;
+  suggestedSeedsPerContainer: number | null;
+}
+
+export interface GerminationReport {
+  byVariety: EstablishmentStats[];
+  bySoilMix: EstablishmentStats[];
+  byBed: EstablishmentStats[];
+}
+
+type GroupKey = (plant: PlantRecord) => { key: string; label: string } | null;
+
+const varietyKey: GroupKey = (plant) => ({ key: plant.varietyId, label: plant.varietyName });
+
+// Preset mixes are stored as "Name: 40% Coco Coir, ..."; the name is enough to label them
+const soilMixKey: GroupKey = (plant) => {
+  const mix = plant.soilMix?.trim();
+  return mix ? { key: mix, label: mix.split(":")[0].trim() } : null;
+};
+
+// The container description ends with " - <section>" when a section was given
+const bedKey: GroupKey = (plant) => {
+  const suffix = plant.section ? ` - ${plant.section}` : "";
+  const label =
+    suffix && plant.container.endsWith(suffix)
+      ? plant.container.slice(0, -suffix.length)
+      : plant.container;
+  return { key: plant.structuredSection?.bedId ?? label, label };
+};
+
+/**
+ * Germination and seedling survival rates from thinning records, grouped by
+ * variety, soil mix and bed, with a seeds-per-container suggestion for the
+ * next sowing.
+ */
+export class GerminationAnalyticsService {
+  /**
+   * Seedling counts come from the first thinning's original count, falling
+   * back to the plant's recorded original count. Plants with neither are
+   * left out.
+   */
+  static getPlantEstablishments(
+    plants: PlantRecord[],
+    activities: CareActivityRecord[]
+  ): PlantEstablishment[] {
+    const thinsByPlant = new Map<string, CareActivityRecord[]>();
+    for (const activity of activities) {
+      if (activity.type !== "thin") continue;
+      thinsByPlant.set(activity.plantId, [...(thinsByPlant.get(activity.plantId) ?? []), activity]);
+    }
+
+    return plants.flatMap((plant) => {
+      const thins = (thinsByPlant.get(plant.id) ?? []).sort(
+        (a, b) => a.date.getTime() - b.date.getTime()
+      );
+      const seedlings = thins[0]?.details.originalCount ?? plant.originalPlantCount;
+      if (!seedlings) return [];
+
+      const lost = thins.reduce(
+        (total, thin) =>
+          total +
+          (thin.details.removedPlants ?? []).filter((removed) => removed.condition !== "healthy")
+            .length,
+        0
+      );
+      return [
+        {
+          plant,
+          ...(plant.seedsSown && { seedsSown: plant.seedsSown }),
+          seedlings,
+          lost: Math.min(lost, seedlings),
+        },
+      ];
+    });
+  }
+
+  static summarize(establishments: PlantEstablishment[], group: GroupKey): EstablishmentStats[] {
+    const groups = new Map<string, EstablishmentStats>();
+
+    for (const establishment of establishments) {
+      const id = group(establishment.plant);
+      if (!id) continue;
+      const stats = groups.get(id.key) ?? {
+        ...id,
+        plantings: 0,
+        seedsSown: 0,
+        germinated: 0,
+        seedlings: 0,
+        lost: 0,
+        germinationRate: null,
+        survivalRate: null,
+        suggestedSeedsPerContainer: null,
+      };
+
+      stats.plantings += 1;
+      stats.seedlings += establishment.seedlings;
+      stats.lost += establishment.lost;
+      if (establishment.seedsSown) {
+        stats.seedsSown += establishment.seedsSown;
+        stats.germinated += Math.min(establishment.seedlings, establishment.seedsSown);
+      }
+      groups.set(id.key, stats);
+    }
+
+    return [...groups.values()]
+      .map((stats) => {
+        const germinationRate = stats.seedsSown > 0 ? stats.germinated / stats.seedsSown : null;
+        const survivalRate = (stats.seedlings - stats.lost) / stats.seedlings;
+        return {
+          ...stats,
+          germinationRate,
+          survivalRate,
+          suggestedSeedsPerContainer:
+            germinationRate === null
+              ? null
+              : SeedPacketService.suggestSeedsPerSpot(germinationRate * survivalRate),
+        };
+      })
+      .sort((a, b) => b.plantings - a.plantings || a.label.localeCompare(b.label));
+  }
+
+  static getReport(plants: PlantRecord[], activities: CareActivityRecord[]): GerminationReport {
+    const establishments = this.getPlantEstablishments(plants, activities);
+    return {
+      byVariety: this.summarize(establishments, varietyKey),
+      bySoilMix: this.summarize(establishments, soilMixKey),
+      byBed: this.summarize(establishments, bedKey),
+    };
+  }
+}
@@ -0,0 +1,286 @@
+// src/services/harvestYieldService.ts
+import {
+  BedRecord,
+  CareActivityRecord,
+  PlantRecord,
+  Weight,
+  WeightUnit,
+} from "@/types";
+import { getPlantDisplayName } from "@/utils/plantDisplay";
+import { MeasurementService } from "./measurementService";
+
+export type GardenSeason = "spring" | "summer" | "fall" | "winter";
+
+export interface YieldTotals {
+  harvestEvents: number;
+  totalWeightGrams: number;
+  totalPieces: number;
+  lastHarvestDate?: Date;
+}
+
+export interface PlantYieldSummary extends YieldTotals {
+  plantId: string;
+  plantName: string;
+  varietyId: string;
+  varietyName: string;
+  bedId?: string;
+}
+
+export interface VarietyYieldSummary extends YieldTotals {
+  varietyId: string;
+  varietyName: string;
+  plantCount: number;
+  weightPerPlantGrams: number;
+  piecesPerPlant: number;
+}
+
+export interface BedYieldSummary extends YieldTotals {
+  bedId: string;
+  bedName: string;
+  plantCount: number;
+}
+
+export interface SeasonYieldSummary extends YieldTotals {
+  season: GardenSeason;
+  year: number;
+  label: string;
+}
+
+export interface GardenYieldReport {
+  totals: YieldTotals;
+  byPlant: PlantYieldSummary[];
+  byVariety: VarietyYieldSummary[];
+  byBed: BedYieldSummary[];
+  bySeason: SeasonYieldSummary[];
+}
+
+interface HarvestShare {
+  activity: CareActivityRecord;
+  eventKey: string;
+  weightGrams: number;
+  pieces: number;
+}
+
+const SEASON_ORDER: GardenSeason[] = ["winter", "spring", "summer", "fall"];
+
+const emptyTotals = (): YieldTotals => ({
+  harvestEvents: 0,
+  totalWeightGrams: 0,
+  totalPieces: 0,
+});
+
+/**
+ * Totals harvest weights and piece counts recorded on `harvest` care
+ * activities so varieties, beds and seasons can be compared by what they
+ * actually produced.
+ */
+export class HarvestYieldService {
+  static toGrams(weight: Weight): number {
+    return MeasurementService.convertWeight(weight.amount, weight.unit, "g");
+  }
+
+  static fromGrams(grams: number, unit: WeightUnit): number {
+    return MeasurementService.convertWeight(grams, "g", unit);
+  }
+
+  /**
+   * Without a unit, picks g/kg or oz/lbs from the user's unit system
+   */
+  static formatWeight(grams: number, unit?: WeightUnit): string {
+    if (!unit) return MeasurementService.formatWeight(grams, "g");
+    const value = this.fromGrams(grams, unit);
+    const rounded = Math.round(value * 100) / 100;
+    return `${rounded} ${unit}`;
+  }
+
+  /**
+   * Seasons follow the meteorological calendar. December is counted
+   * toward the winter that continues into the following January.
+   */
+  static getSeason(date: Date): { season: GardenSeason; year: number } {
+    const month = date.getMonth();
+    if (month >= 2 && month <= 4) return { season: "spring", year: date.getFullYear() };
+    if (month >= 5 && month <= 7) return { season: "summer", year: date.getFullYear() };
+    if (month >= 8 && month <= 10) return { season: "fall", year: date.getFullYear() };
+    return {
+      season: "winter",
+      year: month === 11 ? date.getFullYear() + 1 : date.getFullYear(),
+    };
+  }
+
+  static getSeasonLabel(season: GardenSeason, year: number): string {
+    return `${season.charAt(0).toUpperCase()}${season.slice(1)} ${year}`;
+  }
+
+  static calculatePlantYield(
+    plant: PlantRecord,
+    activities: CareActivityRecord[]
+  ): PlantYieldSummary {
+    return this.buildReport([plant], activities).byPlant[0];
+  }
+
+  static buildReport(
+    plants: PlantRecord[],
+    activities: CareActivityRecord[],
+    beds: BedRecord[] = []
+  ): GardenYieldReport {
+    const plantsById = new Map(plants.map((plant) => [plant.id, plant]));
+    const bedsById = new Map(beds.map((bed) => [bed.id, bed]));
+    const shares = this.getHarvestShares(
+      activities.filter((activity) => plantsById.has(activity.plantId))
+    );
+
+    const totals = emptyTotals();
+    const byPlant = new Map<string, PlantYieldSummary>();
+    const byVariety = new Map<string, VarietyYieldSummary>();
+    const byBed = new Map<string, BedYieldSummary>();
+    const bySeason = new Map<string, SeasonYieldSummary>();
+    const seenEvents = new Map<YieldTotals, Set<string>>();
+
+    // Every plant gets a row, so varieties that never produced still show up
+    for (const plant of plants) {
+      byPlant.set(plant.id, {
+        ...emptyTotals(),
+        plantId: plant.id,
+        plantName: getPlantDisplayName(plant),
+        varietyId: plant.varietyId,
+        varietyName: plant.varietyName,
+        bedId: plant.structuredSection?.bedId,
+      });
+
+      const varietyKey = plant.varietyId || plant.varietyName;
+      const variety = byVariety.get(varietyKey) ?? {
+        ...emptyTotals(),
+        varietyId: plant.varietyId,
+        varietyName: plant.varietyName,
+        plantCount: 0,
+        weightPerPlantGrams: 0,
+        piecesPerPlant: 0,
+      };
+      variety.plantCount += this.getPlantCount(plant);
+      byVariety.set(varietyKey, variety);
+
+      const bedId = plant.structuredSection?.bedId;
+      if (bedId) {
+        const bed = byBed.get(bedId) ?? {
+          ...emptyTotals(),
+          bedId,
+          bedName: bedsById.get(bedId)?.name ?? "Unknown Bed",
+          plantCount: 0,
+        };
+        bed.plantCount += this.getPlantCount(plant);
+        byBed.set(bedId, bed);
+      }
+    }
+
+    for (const share of shares) {
+      const plant = plantsById.get(share.activity.plantId)!;
+      const { season, year } = this.getSeason(share.activity.date);
+      const seasonKey = `${year}-${season}`;
+      if (!bySeason.has(seasonKey)) {
+        bySeason.set(seasonKey, {
+          ...emptyTotals(),
+          season,
+          year,
+          label: this.getSeasonLabel(season, year),
+        });
+      }
+
+      const bedId = plant.structuredSection?.bedId;
+      const targets: YieldTotals[] = [
+        totals,
+        byPlant.get(plant.id)!,
+        byVariety.get(plant.varietyId || plant.varietyName)!,
+        bySeason.get(seasonKey)!,
+        ...(bedId ? [byBed.get(bedId)!] : []),
+      ];
+
+      for (const target of targets) {
+        const events = seenEvents.get(target) ?? new Set<string>();
+        seenEvents.set(target, events);
+        this.addShare(target, share, !events.has(share.eventKey));
+        events.add(share.eventKey);
+      }
+    }
+
+    for (const variety of byVariety.values()) {
+      variety.weightPerPlantGrams =
+        variety.plantCount > 0 ? variety.totalWeightGrams / variety.plantCount : 0;
+      variety.piecesPerPlant =
+        variety.plantCount > 0 ? variety.totalPieces / variety.plantCount : 0;
+    }
+
+    const byWeight = (a: YieldTotals, b: YieldTotals) =>
+      b.totalWeightGrams - a.totalWeightGrams || b.totalPieces - a.totalPieces;
+
+    return {
+      totals,
+      byPlant: Array.from(byPlant.values()).sort(byWeight),
+      byVariety: Array.from(byVariety.values()).sort(
+        (a, b) =>
+          b.weightPerPlantGrams - a.weightPerPlantGrams ||
+          b.piecesPerPlant - a.piecesPerPlant
+      ),
+      byBed: Array.from(byBed.values()).sort(byWeight),
+      bySeason: Array.from(bySeason.values()).sort(
+        (a, b) =>
+          a.year - b.year ||
+          SEASON_ORDER.indexOf(a.season) - SEASON_ORDER.indexOf(b.season)
+      ),
+    };
+  }
+
+  /**
+   * A harvest logged for a whole plant section is stored once per plant with
+   * the same sectionId. The entered weight and count describe the whole
+   * section, so they are split evenly across those records to avoid counting
+   * the same harvest several times. Each record carries the section's plant
+   * count, so a single plant's history splits the same way as the whole
+   * garden's; older records without it are split among the records passed in.
+   */
+  private static getHarvestShares(
+    activities: CareActivityRecord[]
+  ): HarvestShare[] {
+    const harvests = activities.filter((activity) => activity.type === "harvest");
+
+    const sectionSizes = new Map<string, number>();
+    for (const activity of harvests) {
+      const sectionId = activity.details.sectionId;
+      if (sectionId) {
+        sectionSizes.set(sectionId, (sectionSizes.get(sectionId) ?? 0) + 1);
+      }
+    }
+
+    return harvests.map((activity) => {
+      const { harvestWeight, harvestCount, sectionId, plantsInSection } = activity.details;
+      const divisor = sectionId
+        ? plantsInSection ?? sectionSizes.get(sectionId) ?? 1
+        : 1;
+      return {
+        activity,
+        eventKey: sectionId ?? activity.id,
+        weightGrams: harvestWeight ? this.toGrams(harvestWeight) / divisor : 0,
+        pieces: harvestCount ? harvestCount / divisor : 0,
+      };
+    });
+  }
+
+  private static addShare(
+    target: YieldTotals,
+    share: HarvestShare,
+    isNewEvent: boolean
+  ): void {
+    if (isNewEvent) target.harvestEvents += 1;
+    target.totalWeightGrams += share.weightGrams;
+    target.totalPieces += share.pieces;
+    if (!target.lastHarvestDate || share.activity.date > target.lastHarvestDate) {
+      target.lastHarvestDate = share.activity.date;
+    }
+  }
+
+  private static getPlantCount(plant: PlantRecord): number {
+    // Registration creates one record per plant, so `quantity` is the size
+    // of the whole batch; only a thinned same-container record holds several
+    return plant.currentPlantCount ?? 1;
+  }
+}
@@ -1,5 +1,5 @@
 // Service interfaces for dependency injection
-import { PlantRecord, VarietyRecord, CareActivityRecord } from "@/types/database";
+import { PlantRecord, VarietyRecord, CareActivityRecord, BedRecord } from "@/types/database";
 import { UpcomingTask, CareActivityType, GrowthStage, ReminderPreferences } from "@/types";
 
 // Import types from the service implementations
@@ -74,6 +74,32 @@ export interface IVarietyService {
   getVarietyByName(name: string): Promise<VarietyRecord | undefined>;
 }
 
+export interface IBedService {
+  addBed(bed: Omit<BedRecord, "id" | "createdAt" | "updatedAt">): Promise<string>;
+  getActiveBeds(): Promise<BedRecord[]>;
+  getBed(id: string): Promise<BedRecord | undefined>;
+  updateBed(id: string, updates: Partial<Omit<BedRecord, "id" | "createdAt">>): Promise<void>;
+  deleteBed(id: string): Promise<void>;
+}
+
+// Repository Interfaces: a data service backed by one store. putX writes records
+// under their existing IDs, so the sync layer can mirror one store into another.
+export interface IPlantRepository extends IPlantService {
+  putPlants(plants: PlantRecord[]): Promise<void>;
+}
+
+export interface ICareRepository extends ICareService {
+  putActivities(activities: CareActivityRecord[]): Promise<void>;
+}
+
+export interface IBedRepository extends IBedService {
+  putBeds(beds: BedRecord[]): Promise<void>;
+}
+
+export interface IVarietyRepository extends IVarietyService {
+  putVarieties(varieties: VarietyRecord[]): Promise<void>;
+}
+
 // Service Keys (constants for service registration)
 export const SERVICE_KEYS = {
   CARE_SCHEDULING: 'CareSchedulingService',
@@ -81,6 +107,7 @@ export const SERVICE_KEYS = {
   PLANT_SERVICE: 'PlantService',
   CARE_SERVICE: 'CareService',
   VARIETY_SERVICE: 'VarietyService',
+  BED_SERVICE: 'BedService',
 } as const;
 
 // Dependency Injection Container
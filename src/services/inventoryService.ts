@@ -0,0 +1,164 @@
+// src/services/inventoryService.ts
+import { addDays } from "date-fns";
+import { InventoryItem, VolumeUnit, WeightUnit } from "@/types";
+import { ScheduledTask } from "./ProtocolTranspilerService";
+import { MeasurementService } from "./measurementService";
+import { getWaterAmountForMethod } from "@/utils/fertilizationUtils";
+import { AmountUnit, DilutionUnit, ProtocolParser } from "@/utils/protocolParser";
+
+export interface FertilizerUsageDetails {
+  product?: string;
+  dilution?: string;
+  amount?: string;
+  method?: string;
+}
+
+export interface InventoryShortfall {
+  item: InventoryItem;
+  required: number;
+  remaining: number;
+  taskCount: number;
+  firstDueDate: Date;
+}
+
+// Converts spoon measures of a dry product to weight via its density
+const ML_PER_TABLESPOON = MeasurementService.convertVolume(1 / 16, "cups", "ml");
+
+const normalizeName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+/**
+ * Works out how much product a fertilizer application uses and whether the
+ * shelf will cover what's scheduled. Quantities are always in the item's
+ * own unit.
+ */
+export class InventoryService {
+  /**
+   * Converts an amount into the item's unit. "oz" means fluid ounces for
+   * liquids and weight for dry products; spoon measures of a dry product
+   * need its gramsPerTablespoon.
+   */
+  static toItemUnits(
+    value: number,
+    unit: AmountUnit | DilutionUnit,
+    item: InventoryItem
+  ): number | null {
+    if (item.form === "liquid") {
+      const ml = ProtocolParser.toMilliliters(value, unit);
+      return ml === null
+        ? null
+        : MeasurementService.convertVolume(ml, "ml", item.unit as VolumeUnit);
+    }
+
+    const weightUnit = MeasurementService.normalizeWeightUnit(unit);
+    if (weightUnit) {
+      return MeasurementService.convertWeight(value, weightUnit, item.unit as WeightUnit);
+    }
+    const ml = ProtocolParser.toMilliliters(value, unit);
+    if (ml === null || !item.gramsPerTablespoon) return null;
+    const grams = (ml / ML_PER_TABLESPOON) * item.gramsPerTablespoon;
+    return MeasurementService.convertWeight(grams, "g", item.unit as WeightUnit);
+  }
+
+  /**
+   * Product used by one application, or null when it can't be worked out.
+   * Dry products use the amount as given; otherwise the dilution rate is
+   * applied to the water volume, falling back to the method's usual volume.
+   * Ranges are taken at their midpoint.
+   */
+  static estimateUsage(item: InventoryItem, details: FertilizerUsageDetails): number | null {
+    const amount = ProtocolParser.parseAmount(details.amount);
+    if (item.form === "dry" && amount) {
+      const used = this.toItemUnits(ProtocolParser.midpoint(amount), amount.unit, item);
+      if (used !== null) return used;
+    }
+
+    const rate = ProtocolParser.parseDilution(details.dilution)?.rate;
+    if (!rate) return null;
+    const perWaterMl = ProtocolParser.toMilliliters(rate.water.amount, rate.water.unit);
+    if (!perWaterMl) return null;
+
+    const water = ProtocolParser.parseVolume(details.amount);
+    const waterMl = water
+      ? MeasurementService.convertVolume(ProtocolParser.midpoint(water), water.unit, "ml")
+      : getWaterAmountForMethod(details.method ?? "soil-drench").amount;
+    return this.toItemUnits(
+      (ProtocolParser.midpoint(rate.product) * waterMl) / perWaterMl,
+      rate.product.unit,
+      item
+    );
+  }
+
+  /**
+   * The item a logged product name refers to: an exact name match, or else
+   * one whose name contains (or is contained in) the product name
+   */
+  static findItemForProduct(
+    items: InventoryItem[],
+    product: string | undefined
+  ): InventoryItem | undefined {
+    if (!product) return undefined;
+    const target = normalizeName(product);
+    if (!target) return undefined;
+    return (
+      items.find((item) => normalizeName(item.name) === target) ??
+      items.find((item) => {
+        const name = normalizeName(item.name);
+        return name.length > 0 && (target.includes(name) || name.includes(target));
+      })
+    );
+  }
+
+  /**
+   * Tracked products that pending fertilize tasks due within the horizon
+   * (including overdue ones) will use more of than is on hand
+   */
+  static getShortfalls(
+    items: InventoryItem[],
+    tasks: ScheduledTask[],
+    now: Date = new Date(),
+    horizonDays = 14
+  ): InventoryShortfall[] {
+    const horizon = addDays(now, horizonDays);
+    const needs = new Map<string, Omit<InventoryShortfall, "remaining">>();
+
+    for (const task of tasks) {
+      if (task.status !== "pending" || task.taskType !== "fertilize") continue;
+      if (task.details.type !== "fertilize" || task.dueDate > horizon) continue;
+
+      const item = this.findItemForProduct(items, task.details.product);
+      if (!item) continue;
+      const usage = this.estimateUsage(item, task.details);
+      if (usage === null) continue;
+
+      const need = needs.get(item.id);
+      needs.set(item.id, {
+        item,
+        required: (need?.required ?? 0) + usage,
+        taskCount: (need?.taskCount ?? 0) + 1,
+        firstDueDate:
+          need && need.firstDueDate < task.dueDate ? need.firstDueDate : task.dueDate,
+      });
+    }
+
+    return [...needs.values()]
+      .filter((need) => need.required > need.item.remaining)
+      .map((need) => ({ ...need, remaining: need.item.remaining }))
+      .sort((a, b) => a.firstDueDate.getTime() - b.firstDueDate.getTime());
+  }
+
+  static formatQuantity(value: number, item: Pick<InventoryItem, "form" | "unit">): string {
+    return item.form === "liquid"
+      ? MeasurementService.formatVolume(value, item.unit as VolumeUnit)
+      : MeasurementService.formatWeight(value, item.unit as WeightUnit);
+  }
+
+  static getRemainingPercent(item: InventoryItem): number {
+    if (item.containerSize <= 0) return 0;
+    return Math.max(0, Math.min(100, Math.round((item.remaining / item.containerSize) * 100)));
+  }
+}
@@ -0,0 +1,311 @@
+// src/services/measurementService.ts
+import {
+  BedRecord,
+  CareActivityDetails,
+  LengthUnit,
+  PlantRecord,
+  PositionUnit,
+  TemperatureUnit,
+  UserSettings,
+  VolumeUnit,
+  WeightUnit,
+} from "@/types";
+import { UserSettingsService } from "./userSettingsService";
+
+export type UnitSystem = "imperial" | "metric";
+
+// Exact definitions (US customary fluid ounce, international pound and inch)
+const ML_PER_VOLUME_UNIT: Record<VolumeUnit, number> = {
+  ml: 1,
+  L: 1000,
+  oz: 29.5735295625,
+  cups: 236.5882365,
+  gal: 3785.411784,
+};
+
+const GRAMS_PER_WEIGHT_UNIT: Record<WeightUnit, number> = {
+  g: 1,
+  kg: 1000,
+  oz: 28.349523125,
+  lbs: 453.59237,
+};
+
+const CM_PER_LENGTH_UNIT: Record<LengthUnit, number> = {
+  cm: 1,
+  m: 100,
+  inches: 2.54,
+  ft: 30.48,
+};
+
+const CM_PER_POSITION_UNIT: Record<PositionUnit, number> = {
+  mm: 0.1,
+  cm: 1,
+  inches: 2.54,
+  feet: 30.48,
+};
+
+// Spellings found in older records, protocol text and free-form input
+const VOLUME_UNIT_ALIASES: Record<string, VolumeUnit> = {
+  oz: "oz",
+  "fl oz": "oz",
+  "fl. oz": "oz",
+  ounce: "oz",
+  ounces: "oz",
+  ml: "ml",
+  milliliter: "ml",
+  milliliters: "ml",
+  millilitre: "ml",
+  millilitres: "ml",
+  l: "L",
+  liter: "L",
+  liters: "L",
+  litre: "L",
+  litres: "L",
+  gal: "gal",
+  gallon: "gal",
+  gallons: "gal",
+  cup: "cups",
+  cups: "cups",
+};
+
+const WEIGHT_UNIT_ALIASES: Record<string, WeightUnit> = {
+  oz: "oz",
+  ounce: "oz",
+  ounces: "oz",
+  lb: "lbs",
+  lbs: "lbs",
+  pound: "lbs",
+  pounds: "lbs",
+  g: "g",
+  gram: "g",
+  grams: "g",
+  kg: "kg",
+  kilogram: "kg",
+  kilograms: "kg",
+};
+
+const LENGTH_UNIT_ALIASES: Record<string, LengthUnit> = {
+  in: "inches",
+  inch: "inches",
+  inches: "inches",
+  '"': "inches",
+  ft: "ft",
+  foot: "ft",
+  feet: "ft",
+  "'": "ft",
+  cm: "cm",
+  centimeter: "cm",
+  centimeters: "cm",
+  m: "m",
+  meter: "m",
+  meters: "m",
+  metre: "m",
+  metres: "m",
+};
+
+const POSITION_UNIT_BY_LENGTH_UNIT: Partial<Record<LengthUnit, PositionUnit>> = {
+  inches: "inches",
+  ft: "feet",
+  cm: "cm",
+};
+
+// Results within floating point noise of a short decimal snap to it (so
+// 16 oz is 473.176473 ml, not 473.17647300000004). Anything further away is
+// left at full precision, which keeps converting there and back lossless.
+const SNAP_DIGITS = 10;
+const SNAP_TOLERANCE = 1e-14;
+
+const clean = (value: number, scale = Math.abs(value)) => {
+  const snapped = Number(value.toPrecision(SNAP_DIGITS));
+  return Math.abs(snapped - value) <= scale * SNAP_TOLERANCE ? snapped : value;
+};
+
+const roundTo = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+const formatNumber = (value: number, unit: string) => {
+  const decimals = Math.abs(value) >= 100 ? 0 : Math.abs(value) >= 10 ? 1 : 2;
+  return `${roundTo(value, decimals)} ${unit}`;
+};
+
+/**
+ * Single home for unit conversion, unit-string normalisation and
+ * preference-aware display of volumes, weights, lengths and temperatures.
+ */
+export class MeasurementService {
+  static convertVolume(value: number, from: VolumeUnit, to: VolumeUnit): number {
+    if (from === to) return value;
+    return clean((value * ML_PER_VOLUME_UNIT[from]) / ML_PER_VOLUME_UNIT[to]);
+  }
+
+  static convertWeight(value: number, from: WeightUnit, to: WeightUnit): number {
+    if (from === to) return value;
+    return clean((value * GRAMS_PER_WEIGHT_UNIT[from]) / GRAMS_PER_WEIGHT_UNIT[to]);
+  }
+
+  static convertLength(value: number, from: LengthUnit, to: LengthUnit): number {
+    if (from === to) return value;
+    return clean((value * CM_PER_LENGTH_UNIT[from]) / CM_PER_LENGTH_UNIT[to]);
+  }
+
+  static convertPosition(value: number, from: PositionUnit, to: PositionUnit): number {
+    if (from === to) return value;
+    return clean((value * CM_PER_POSITION_UNIT[from]) / CM_PER_POSITION_UNIT[to]);
+  }
+
+  static convertTemperature(value: number, from: TemperatureUnit, to: TemperatureUnit): number {
+    if (from === to) return value;
+    // The 32° offset means noise scales with the offset, not just the result
+    const converted = from === "F" ? ((value - 32) * 5) / 9 : (value * 9) / 5 + 32;
+    return clean(converted, Math.abs(converted) + 32);
+  }
+
+  static normalizeVolumeUnit(unit: string | undefined | null): VolumeUnit | null {
+    if (!unit) return null;
+    return VOLUME_UNIT_ALIASES[unit.trim().toLowerCase()] ?? null;
+  }
+
+  static normalizeWeightUnit(unit: string | undefined | null): WeightUnit | null {
+    if (!unit) return null;
+    return WEIGHT_UNIT_ALIASES[unit.trim().toLowerCase()] ?? null;
+  }
+
+  static normalizeLengthUnit(unit: string | undefined | null): LengthUnit | null {
+    if (!unit) return null;
+    return LENGTH_UNIT_ALIASES[unit.trim().toLowerCase()] ?? null;
+  }
+
+  static normalizePositionUnit(unit: string | undefined | null): PositionUnit | null {
+    if (!unit) return null;
+    if (unit.trim().toLowerCase() === "mm") return "mm";
+    const length = this.normalizeLengthUnit(unit);
+    return length ? POSITION_UNIT_BY_LENGTH_UNIT[length] ?? null : null;
+  }
+
+  static getUnitSystem(
+    settings: Pick<UserSettings, "units"> = UserSettingsService.getCurrent()
+  ): UnitSystem {
+    return settings.units.volume === "liters" ? "metric" : "imperial";
+  }
+
+  static getTemperatureUnit(
+    settings: Pick<UserSettings, "units"> = UserSettingsService.getCurrent()
+  ): TemperatureUnit {
+    return settings.units.temperature === "celsius" ? "C" : "F";
+  }
+
+  /**
+   * Everyday unit for a volume in the given system, e.g. oz below a gallon
+   */
+  static getDisplayVolumeUnit(value: number, unit: VolumeUnit, system: UnitSystem): VolumeUnit {
+    const ml = value * ML_PER_VOLUME_UNIT[unit];
+    if (system === "metric") return ml >= 1000 ? "L" : "ml";
+    return ml >= ML_PER_VOLUME_UNIT.gal ? "gal" : "oz";
+  }
+
+  static getDisplayWeightUnit(value: number, unit: WeightUnit, system: UnitSystem): WeightUnit {
+    const grams = value * GRAMS_PER_WEIGHT_UNIT[unit];
+    if (system === "metric") return grams >= 1000 ? "kg" : "g";
+    return grams >= GRAMS_PER_WEIGHT_UNIT.lbs ? "lbs" : "oz";
+  }
+
+  static formatVolume(
+    value: number,
+    unit: VolumeUnit,
+    system: UnitSystem = this.getUnitSystem()
+  ): string {
+    const displayUnit = this.getDisplayVolumeUnit(value, unit, system);
+    return formatNumber(this.convertVolume(value, unit, displayUnit), displayUnit);
+  }
+
+  static formatWeight(
+    value: number,
+    unit: WeightUnit,
+    system: UnitSystem = this.getUnitSystem()
+  ): string {
+    const displayUnit = this.getDisplayWeightUnit(value, unit, system);
+    return formatNumber(this.convertWeight(value, unit, displayUnit), displayUnit);
+  }
+
+  static formatLength(
+    value: number,
+    unit: LengthUnit,
+    system: UnitSystem = this.getUnitSystem()
+  ): string {
+    const cm = value * CM_PER_LENGTH_UNIT[unit];
+    const displayUnit: LengthUnit =
+      system === "metric" ? (cm >= 100 ? "m" : "cm") : cm >= CM_PER_LENGTH_UNIT.ft ? "ft" : "inches";
+    return formatNumber(this.convertLength(value, unit, displayUnit), displayUnit);
+  }
+
+  static formatTemperature(
+    value: number,
+    unit: TemperatureUnit,
+    displayUnit: TemperatureUnit = this.getTemperatureUnit()
+  ): string {
+    return `${Math.round(this.convertTemperature(value, unit, displayUnit))}°${displayUnit}`;
+  }
+
+  /**
+   * Rewrites unit strings that don't match the unit types (e.g. "liters",
+   * "gallons", "lb") on a care activity. Returns null when nothing changed.
+   */
+  static migrateCareActivityDetails(details: CareActivityDetails): CareActivityDetails | null {
+    let changed = false;
+    const migrated = { ...details };
+
+    const fixVolume = <T extends { unit: VolumeUnit }>(amount: T): T => {
+      const unit = this.normalizeVolumeUnit(amount.unit);
+      if (!unit || unit === amount.unit) return amount;
+      changed = true;
+      return { ...amount, unit };
+    };
+
+    if (migrated.waterUnit) {
+      const unit = this.normalizeVolumeUnit(migrated.waterUnit);
+      if (unit && unit !== migrated.waterUnit) {
+        migrated.waterUnit = unit;
+        changed = true;
+      }
+    }
+    if (migrated.amount && typeof migrated.amount === "object") {
+      migrated.amount = fixVolume(migrated.amount);
+    }
+    if (migrated.totalSectionAmount) {
+      migrated.totalSectionAmount = fixVolume(migrated.totalSectionAmount);
+    }
+    if (migrated.recommendedAmount) {
+      migrated.recommendedAmount = fixVolume(migrated.recommendedAmount);
+    }
+    if (migrated.harvestWeight) {
+      const unit = this.normalizeWeightUnit(migrated.harvestWeight.unit);
+      if (unit && unit !== migrated.harvestWeight.unit) {
+        migrated.harvestWeight = { ...migrated.harvestWeight, unit };
+        changed = true;
+      }
+    }
+
+    return changed ? migrated : null;
+  }
+
+  static migrateBedRecord(bed: BedRecord): BedRecord | null {
+    const unit = this.normalizePositionUnit(bed.dimensions?.unit);
+    if (!unit || unit === bed.dimensions.unit) return null;
+    return { ...bed, dimensions: { ...bed.dimensions, unit } };
+  }
+
+  static migratePlantRecord(plant: PlantRecord): PlantRecord | null {
+    const position = plant.structuredSection?.position;
+    const unit = this.normalizePositionUnit(position?.unit);
+    if (!plant.structuredSection || !position || !unit || unit === position.unit) return null;
+    return {
+      ...plant,
+      structuredSection: {
+        ...plant.structuredSection,
+        position: { ...position, unit },
+      },
+    };
+  }
+}
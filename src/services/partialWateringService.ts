@@ -1,5 +1,6 @@
 // src/services/partialWateringService.ts
 import { WateringResolver } from "@/utils/wateringResolver";
+import { MeasurementService } from "./measurementService";
 import { varietyService, PlantRecord } from "@/types/database";
 import { calculateCurrentStageWithVariety } from "@/utils/growthStage";
 import { CareActivityDetails, VolumeUnit } from "@/types/consolidated";
@@ -46,11 +47,12 @@ export class PartialWateringService {
       );
 
       // Convert to same units for comparison (normalize to oz)
-      const recommendedInOz = this.convertToOz(
+      const recommendedInOz = MeasurementService.convertVolume(
         wateringRecommendation.amount,
-        wateringRecommendation.unit as VolumeUnit
+        wateringRecommendation.unit,
+        "oz"
       );
-      const actualInOz = this.convertToOz(actualAmount, actualUnit);
+      const actualInOz = MeasurementService.convertVolume(actualAmount, actualUnit, "oz");
 
       const completeness = actualInOz / recommendedInOz;
       const isPartial = completeness < 0.8; // Less than 80% is considered partial
@@ -82,16 +84,16 @@ export class PartialWateringService {
         completeness,
         recommendedAmount: {
           value: wateringRecommendation.amount,
-          unit: wateringRecommendation.unit as VolumeUnit,
+          unit: wateringRecommendation.unit,
         },
         actualAmount: { value: actualAmount, unit: actualUnit },
-        deficit: { value: this.convertFromOz(deficit, actualUnit), unit: actualUnit },
+        deficit: { value: MeasurementService.convertVolume(deficit, "oz", actualUnit), unit: actualUnit },
         shouldScheduleFollowUp,
         followUpDays,
         message,
         canAddSupplement: isPartial && deficit > 0,
         supplementAmount: { 
-          value: this.convertFromOz(deficit, actualUnit), 
+          value: MeasurementService.convertVolume(deficit, "oz", actualUnit), 
           unit: actualUnit 
         },
       };
@@ -149,32 +151,4 @@ export class PartialWateringService {
       supplementAmount: { value: 0, unit: actualUnit },
     };
   }
-
-  private static convertToOz(amount: number, unit: VolumeUnit): number {
-    switch (unit) {
-      case "ml":
-        return amount * 0.033814; // ml to fl oz
-      case "cups":
-        return amount * 8; // cups to fl oz
-      case "L":
-        return amount * 33.814; // liters to fl oz
-      case "oz":
-      default:
-        return amount;
-    }
-  }
-
-  private static convertFromOz(ozAmount: number, targetUnit: VolumeUnit): number {
-    switch (targetUnit) {
-      case "ml":
-        return ozAmount / 0.033814;
-      case "cups":
-        return ozAmount / 8;
-      case "L":
-        return ozAmount / 33.814;
-      case "oz":
-      default:
-        return ozAmount;
-    }
-  }
 }
\ No newline at end of file
@@ -0,0 +1,175 @@
+// src/services/plantIssueService.ts
+import { addDays } from "date-fns";
+import {
+  CareActivityRecord,
+  GrowthStage,
+  IssueDetails,
+  IssueSeverity,
+  IssueTreatmentMethod,
+  PlantRecord,
+} from "@/types";
+import { pestDiseaseCatalog, PestDiseaseEntry } from "@/data/pestDiseaseCatalog";
+import { ProtocolTranspilerService, ScheduledTask } from "./ProtocolTranspilerService";
+import { findContainerMates } from "@/utils/containerGrouping";
+import { PlantGroup } from "@/utils/plantGrouping";
+import { generateUUID } from "@/utils/cn";
+
+/**
+ * An issue's current state, folded from every report logged against it.
+ * `treatment` is the most recent one logged, even if later reports had none.
+ */
+export interface PlantIssue extends IssueDetails {
+  plantId: string;
+  firstReported: Date;
+  lastUpdated: Date;
+  reportCount: number;
+  treatmentCount: number;
+  lastActivityId: string;
+}
+
+export interface ContainerMateIssueWarning {
+  issue: PlantIssue;
+  sourcePlant: PlantRecord;
+}
+
+const SEVERITY_ORDER: Record<IssueSeverity, number> = {
+  severe: 0,
+  moderate: 1,
+  low: 2,
+};
+
+const TREATMENT_METHOD_LABELS: Record<IssueTreatmentMethod, string> = {
+  "soil-drench": "Soil drench",
+  "foliar-spray": "Foliar spray",
+  "top-dress": "Top dress",
+  "side-dress": "Side dress",
+  "mix-in-soil": "Mix in soil",
+  "hand-removal": "Hand removal",
+  "prune-affected": "Prune affected growth",
+  isolate: "Isolate plant",
+};
+
+export class PlantIssueService {
+  static getCatalogEntry(catalogId: string): PestDiseaseEntry | undefined {
+    return pestDiseaseCatalog.find((entry) => entry.id === catalogId);
+  }
+
+  static getTreatmentMethodLabel(method: IssueTreatmentMethod): string {
+    return TREATMENT_METHOD_LABELS[method] ?? method;
+  }
+
+  static createIssueId(): string {
+    return generateUUID();
+  }
+
+  /**
+   * Folds a plant's issue activities into one entry per issue. Open issues
+   * come first, most severe first; resolved ones follow, newest first.
+   */
+  static summarizeIssues(activities: CareActivityRecord[]): PlantIssue[] {
+    const issues = new Map<string, PlantIssue>();
+    const reports = activities
+      .filter((activity) => activity.type === "issue" && activity.details.issue)
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    for (const activity of reports) {
+      const details = activity.details.issue!;
+      // A section report shares one issueId across every plant it covered
+      const key = `${activity.plantId}:${details.issueId}`;
+      const existing = issues.get(key);
+      const treatment = details.treatment ?? existing?.treatment;
+      issues.set(key, {
+        ...details,
+        ...(treatment && { treatment }),
+        plantId: activity.plantId,
+        firstReported: existing?.firstReported ?? activity.date,
+        lastUpdated: activity.date,
+        reportCount: (existing?.reportCount ?? 0) + 1,
+        treatmentCount: (existing?.treatmentCount ?? 0) + (details.treatment ? 1 : 0),
+        lastActivityId: activity.id,
+      });
+    }
+
+    return [...issues.values()].sort((a, b) => {
+      if (a.status !== b.status) return a.status === "open" ? -1 : 1;
+      if (a.status === "open" && a.severity !== b.severity) {
+        return SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity];
+      }
+      return b.lastUpdated.getTime() - a.lastUpdated.getTime();
+    });
+  }
+
+  static getOpenIssues(activities: CareActivityRecord[]): PlantIssue[] {
+    return this.summarizeIssues(activities).filter((issue) => issue.status === "open");
+  }
+
+  /**
+   * Re-inspection tasks for a logged treatment, spaced per the catalogue
+   */
+  static buildFollowUpTasks(
+    plantId: string,
+    issue: IssueDetails,
+    treatedAt: Date,
+    stage: GrowthStage
+  ): ScheduledTask[] {
+    const { treatment } = issue;
+    if (!treatment || issue.status !== "open") return [];
+
+    const reinspectAfterDays = this.getCatalogEntry(issue.catalogId)?.reinspectAfterDays ?? [3, 7];
+    const now = new Date();
+
+    const followUps: ScheduledTask[] = reinspectAfterDays.map((days) => ({
+      id: `${plantId}-issue-${issue.issueId}-${days}-${treatedAt.getTime()}`,
+      plantId,
+      taskName: `Re-inspect for ${issue.name}`,
+      taskType: "observe",
+      details: {
+        type: "issue-follow-up",
+        issueId: issue.issueId,
+        product: treatment.product,
+        dilution: treatment.dilution ?? "",
+        amount: "",
+        method: treatment.method,
+      },
+      dueDate: addDays(treatedAt, days),
+      status: "pending",
+      sourceProtocol: {
+        stage,
+        originalStartDays: days,
+        isDynamic: false,
+      },
+      priority: issue.severity === "severe" ? "high" : "normal",
+      createdAt: now,
+      updatedAt: now,
+    }));
+    return ProtocolTranspilerService.coordinateSeries(followUps);
+  }
+
+  /**
+   * Open issues on plants sharing this plant's container that are likely to
+   * spread to it. Issues on the plant's own group are not included.
+   */
+  static getContainerMateWarnings(
+    plantId: string,
+    plantGroups: PlantGroup[],
+    issueActivities: CareActivityRecord[]
+  ): ContainerMateIssueWarning[] {
+    const ownGroup = plantGroups.find((group) =>
+      group.plants.some((plant) => plant.id === plantId)
+    );
+    if (!ownGroup) return [];
+
+    const matesById = new Map(
+      findContainerMates(ownGroup, plantGroups)
+        .flatMap((group) => group.plants)
+        .map((plant) => [plant.id, plant])
+    );
+    const mateActivities = issueActivities.filter((activity) =>
+      matesById.has(activity.plantId)
+    );
+
+    return this.getOpenIssues(mateActivities)
+      .filter((issue) => this.getCatalogEntry(issue.catalogId)?.spreadsToNeighbors)
+      .map((issue) => ({ issue, sourcePlant: matesById.get(issue.plantId)! }));
+  }
+}
@@ -0,0 +1,214 @@
+// src/services/seedCatalogueService.ts
+import { varieties as builtInVarieties } from "@/data";
+import {
+  SEED_CATALOGUE_VERSION,
+  catalogueMigrations,
+} from "@/data/catalogueMigrations";
+import { PlantRecord, VarietyRecord } from "@/types";
+import { db } from "@/types/database";
+import { generateUUID } from "@/utils/cn";
+
+const VERSION_STORAGE_KEY = "seedCatalogueVersion";
+const UPDATE_STORAGE_KEY = "seedCatalogueUpdate";
+
+export const CATALOGUE_UPDATED_EVENT = "seed-catalogue-updated";
+
+/**
+ * Built-in varieties that changed in a migration. Kept until the user has
+ * regenerated the affected plants' schedules or dismissed the report.
+ */
+export interface CatalogueUpdate {
+  fromVersion: number;
+  toVersion: number;
+  appliedAt: string; // ISO timestamp
+  added: string[];
+  updated: string[];
+  /** Database ids of the added and updated varieties */
+  varietyIds: string[];
+  /** Custom varieties sharing a name with a built-in, left as they were */
+  skippedCustom: string[];
+}
+
+export interface CatalogueMigrationPlan {
+  records: VarietyRecord[];
+  update: CatalogueUpdate;
+}
+
+// Fields a migration may change; ids and timestamps belong to the installation
+const contentOf = (variety: VarietyRecord) =>
+  stableStringify({
+    name: variety.name,
+    category: variety.category,
+    description: variety.description,
+    growthTimeline: variety.growthTimeline,
+    protocols: variety.protocols,
+    isEverbearing: variety.isEverbearing,
+    productiveLifespan: variety.productiveLifespan,
+  });
+
+const stableStringify = (value: unknown): string =>
+  JSON.stringify(value, (_key, nested) =>
+    nested && typeof nested === "object" && !Array.isArray(nested)
+      ? Object.fromEntries(
+          Object.keys(nested)
+            .sort()
+            .map((key) => [key, nested[key]])
+        )
+      : nested
+  );
+
+export class SeedCatalogueService {
+  /**
+   * Catalogue version this installation has. Installations seeded before
+   * the catalogue was versioned have no stored version and count as 1.
+   */
+  static getStoredVersion(): number {
+    const stored = Number(localStorage.getItem(VERSION_STORAGE_KEY));
+    return Number.isInteger(stored) && stored > 0 ? stored : 1;
+  }
+
+  /** Called after a fresh seed, which already has the current catalogue */
+  static markSeeded(): void {
+    localStorage.setItem(VERSION_STORAGE_KEY, String(SEED_CATALOGUE_VERSION));
+  }
+
+  /**
+   * Works out which built-in varieties to add or update, matching existing
+   * records by normalizedName. Existing records keep their id and createdAt.
+   * Custom varieties are never touched.
+   */
+  static planMigration(
+    existing: VarietyRecord[],
+    fromVersion: number,
+    now: Date = new Date(),
+    createId: () => string = generateUUID
+  ): CatalogueMigrationPlan {
+    const pending = catalogueMigrations.filter(
+      (migration) => migration.version > fromVersion
+    );
+    const resyncAll = pending.some((migration) => !migration.varieties);
+    const names = new Set(
+      pending.flatMap((migration) =>
+        (migration.varieties ?? []).map((name) => name.toLowerCase())
+      )
+    );
+    const existingByName = new Map(
+      existing.map((variety) => [
+        variety.normalizedName || variety.name.toLowerCase(),
+        variety,
+      ])
+    );
+
+    const records: VarietyRecord[] = [];
+    const update: CatalogueUpdate = {
+      fromVersion,
+      toVersion: SEED_CATALOGUE_VERSION,
+      appliedAt: now.toISOString(),
+      added: [],
+      updated: [],
+      varietyIds: [],
+      skippedCustom: [],
+    };
+
+    for (const builtIn of builtInVarieties) {
+      if (!resyncAll && !names.has(builtIn.normalizedName)) continue;
+
+      const current = existingByName.get(builtIn.normalizedName);
+      if (current?.isCustom) {
+        update.skippedCustom.push(current.name);
+        continue;
+      }
+      if (current && contentOf(current) === contentOf(builtIn)) continue;
+
+      const record: VarietyRecord = {
+        ...builtIn,
+        id: current?.id ?? createId(),
+        createdAt: current?.createdAt ?? now,
+        updatedAt: now,
+      };
+      records.push(record);
+      update.varietyIds.push(record.id);
+      (current ? update.updated : update.added).push(builtIn.name);
+    }
+
+    return { records, update };
+  }
+
+  /**
+   * Brings an already-seeded database up to the current catalogue version.
+   * Returns the update, or null when the database was already current.
+   */
+  static async migrate(): Promise<CatalogueUpdate | null> {
+    const fromVersion = this.getStoredVersion();
+    if (fromVersion >= SEED_CATALOGUE_VERSION) return null;
+
+    const existing = await db.varieties.toArray();
+    const { records, update } = this.planMigration(existing, fromVersion);
+
+    if (records.length > 0) {
+      await db.varieties.bulkPut(records);
+    }
+    localStorage.setItem(VERSION_STORAGE_KEY, String(SEED_CATALOGUE_VERSION));
+
+    if (update.added.length > 0 || update.updated.length > 0) {
+      this.savePendingUpdate(update);
+    }
+    return update;
+  }
+
+  /**
+   * Plants growing a variety that changed in the update. Their scheduled
+   * tasks were generated from the old protocols.
+   */
+  static getAffectedPlants(
+    plants: PlantRecord[],
+    update: CatalogueUpdate
+  ): PlantRecord[] {
+    const ids = new Set(update.varietyIds);
+    const names = new Set(
+      [...update.added, ...update.updated].map((name) => name.toLowerCase())
+    );
+    return plants.filter(
+      (plant) =>
+        plant.isActive &&
+        (ids.has(plant.varietyId) || names.has(plant.varietyName?.toLowerCase()))
+    );
+  }
+
+  static getPendingUpdate(): CatalogueUpdate | null {
+    try {
+      const saved = localStorage.getItem(UPDATE_STORAGE_KEY);
+      return saved ? (JSON.parse(saved) as CatalogueUpdate) : null;
+    } catch (error) {
+      console.warn("Failed to load catalogue update:", error);
+      return null;
+    }
+  }
+
+  static dismissUpdate(): void {
+    localStorage.removeItem(UPDATE_STORAGE_KEY);
+    window.dispatchEvent(new CustomEvent(CATALOGUE_UPDATED_EVENT));
+  }
+
+  // An unacknowledged earlier update is merged so no changed variety drops off the report
+  private static savePendingUpdate(update: CatalogueUpdate): void {
+    const previous = this.getPendingUpdate();
+    const merged: CatalogueUpdate = previous
+      ? {
+          ...update,
+          fromVersion: previous.fromVersion,
+          added: [...new Set([...previous.added, ...update.added])],
+          updated: [...new Set([...previous.updated, ...update.updated])],
+          varietyIds: [...new Set([...previous.varietyIds, ...update.varietyIds])],
+          skippedCustom: [
+            ...new Set([...previous.skippedCustom, ...update.skippedCustom]),
+          ],
+        }
+      : update;
+
+    localStorage.setItem(UPDATE_STORAGE_KEY, JSON.stringify(merged));
+    window.dispatchEvent(
+      new CustomEvent(CATALOGUE_UPDATED_EVENT, { detail: merged })
+    );
+  }
+}
@@ -0,0 +1,450 @@
+// src/services/sensorReadingService.ts
+import { z } from "zod";
+import { subHours } from "date-fns";
+import {
+  BedRecord,
+  PlantRecord,
+  SensorAlert,
+  SensorMetric,
+  SensorReading,
+  TemperatureUnit,
+  VarietyRecord,
+} from "@/types";
+import { MeasurementService } from "./measurementService";
+import { getPlantDisplayName } from "@/utils/plantDisplay";
+
+export type SensorBatchFormat = "json" | "csv";
+
+export type SensorReadingInput = Omit<
+  SensorReading,
+  "id" | "createdAt" | "updatedAt" | "gardenId"
+>;
+
+export interface SensorBatchResult {
+  readings: SensorReadingInput[];
+  errors: string[];
+}
+
+export interface SensorTargets {
+  plants: PlantRecord[];
+  beds: BedRecord[];
+}
+
+export const SENSOR_METRICS: SensorMetric[] = [
+  "temperature",
+  "humidity",
+  "soilMoisture",
+  "lightLevel",
+];
+
+export const SENSOR_METRIC_LABELS: Record<SensorMetric, string> = {
+  temperature: "Temperature",
+  humidity: "Humidity",
+  soilMoisture: "Soil moisture",
+  lightLevel: "Light",
+};
+
+// Readings older than this no longer describe conditions in the garden
+export const SENSOR_READING_MAX_AGE_HOURS = 24;
+
+const MAX_REPORTED_ERRORS = 10;
+
+// Column names sensor exports commonly use, after lowercasing and dropping separators
+const FIELD_ALIASES: Record<string, string> = {
+  metric: "metric",
+  type: "metric",
+  value: "value",
+  reading: "value",
+  unit: "unit",
+  units: "unit",
+  recordedat: "recordedAt",
+  timestamp: "recordedAt",
+  time: "recordedAt",
+  date: "recordedAt",
+  datetime: "recordedAt",
+  sensorid: "sensorId",
+  sensor: "sensorId",
+  bedid: "bedId",
+  bed: "bed",
+  plantid: "plantId",
+};
+
+const METRIC_ALIASES: Record<string, SensorMetric> = {
+  temperature: "temperature",
+  temp: "temperature",
+  humidity: "humidity",
+  rh: "humidity",
+  soilmoisture: "soilMoisture",
+  moisture: "soilMoisture",
+  lightlevel: "lightLevel",
+  light: "lightLevel",
+  lux: "lightLevel",
+};
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[\s_-]/g, "");
+
+const rowSchema = z.object({
+  metric: z.enum(SENSOR_METRICS as [SensorMetric, ...SensorMetric[]], {
+    errorMap: () => ({ message: `Metric must be one of ${SENSOR_METRICS.join(", ")}` }),
+  }),
+  value: z.coerce.number({ invalid_type_error: "Value must be a number" }).finite(),
+  unit: z
+    .string()
+    .transform((unit) => unit.replace("°", "").trim().toUpperCase())
+    .pipe(z.enum(["F", "C"], { errorMap: () => ({ message: "Unit must be F or C" }) }))
+    .optional(),
+  recordedAt: z.coerce.date({ invalid_type_error: "Invalid date" }),
+  sensorId: z.string().optional(),
+  bedId: z.string().optional(),
+  bed: z.string().optional(),
+  plantId: z.string().optional(),
+});
+
+type SensorRow = z.infer<typeof rowSchema>;
+
+/**
+ * Splits CSV text into rows of fields. Handles quoted fields with commas,
+ * doubled quotes and line breaks.
+ */
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ""));
+};
+
+/**
+ * Readings from a row. A row either names its metric in a "metric" column, or
+ * has a column per metric ("temperature", "humidity", ...) as many sensor
+ * exports do.
+ */
+const expandRow = (raw: Record<string, unknown>): Record<string, unknown>[] => {
+  const fields: Record<string, unknown> = {};
+  const metricValues: [SensorMetric, unknown][] = [];
+
+  for (const [key, value] of Object.entries(raw)) {
+    if (value === "" || value === null || value === undefined) continue;
+    const normalized = normalizeKey(key);
+    const field = FIELD_ALIASES[normalized];
+    if (field) {
+      fields[field] = typeof value === "string" ? value.trim() : value;
+    } else if (METRIC_ALIASES[normalized]) {
+      metricValues.push([METRIC_ALIASES[normalized], value]);
+    }
+  }
+
+  if (typeof fields.metric === "string") {
+    fields.metric = METRIC_ALIASES[normalizeKey(fields.metric)] ?? fields.metric;
+  }
+  if (fields.metric !== undefined || metricValues.length === 0) return [fields];
+
+  return metricValues.map(([metric, value]) => ({ ...fields, metric, value }));
+};
+
+/**
+ * Environmental sensor readings: parsing JSON and CSV batches, matching them
+ * to beds and plants, and checking them against each variety's
+ * environmental protocol.
+ */
+export class SensorReadingService {
+  static detectFormat(fileName: string, text: string): SensorBatchFormat {
+    if (fileName.toLowerCase().endsWith(".csv")) return "csv";
+    if (fileName.toLowerCase().endsWith(".json")) return "json";
+    return /^\s*[[{]/.test(text) ? "json" : "csv";
+  }
+
+  /**
+   * Parses a batch into readings. JSON may be an array of readings or an
+   * object with a "readings" array; CSV needs a header row. Every reading
+   * must name a bed (by ID or name) or a plant in this garden. Rows that
+   * fail are reported and left out.
+   */
+  static parseBatch(
+    text: string,
+    format: SensorBatchFormat,
+    targets: SensorTargets,
+    defaultTemperatureUnit: TemperatureUnit = MeasurementService.getTemperatureUnit()
+  ): SensorBatchResult {
+    let rawRows: Record<string, unknown>[];
+    try {
+      rawRows = format === "json" ? this.readJsonRows(text) : this.readCsvRows(text);
+    } catch (error) {
+      return {
+        readings: [],
+        errors: [error instanceof Error ? error.message : "Could not read the batch"],
+      };
+    }
+
+    const bedsById = new Map(targets.beds.map((bed) => [bed.id, bed]));
+    const bedsByName = new Map(targets.beds.map((bed) => [bed.name.trim().toLowerCase(), bed]));
+    const plantIds = new Set(targets.plants.map((plant) => plant.id));
+    const readings: SensorReadingInput[] = [];
+    const errors: string[] = [];
+
+    rawRows.forEach((rawRow, index) => {
+      // Row numbers as the user sees them in the file
+      const rowLabel = format === "csv" ? `Row ${index + 2}` : `Reading ${index + 1}`;
+
+      for (const fields of expandRow(rawRow)) {
+        const parsed = rowSchema.safeParse(fields);
+        if (!parsed.success) {
+          const [issue] = parsed.error.issues;
+          errors.push(`${rowLabel}: ${issue.message} (${issue.path.join(".")})`);
+          continue;
+        }
+
+        const row: SensorRow = parsed.data;
+        const bed = row.bedId
+          ? bedsById.get(row.bedId)
+          : row.bed
+          ? bedsByName.get(row.bed.toLowerCase()) ?? bedsById.get(row.bed)
+          : undefined;
+
+        if (row.plantId && !plantIds.has(row.plantId)) {
+          errors.push(`${rowLabel}: No plant with ID ${row.plantId}`);
+          continue;
+        }
+        if (!row.plantId && !bed) {
+          errors.push(
+            row.bedId || row.bed
+              ? `${rowLabel}: No bed called ${row.bedId ?? row.bed}`
+              : `${rowLabel}: Each reading needs a bed or plant`
+          );
+          continue;
+        }
+
+        readings.push({
+          ...(row.sensorId && { sensorId: row.sensorId }),
+          ...(row.plantId ? { plantId: row.plantId } : { bedId: bed!.id }),
+          metric: row.metric,
+          value: row.value,
+          ...(row.metric === "temperature" && { unit: row.unit ?? defaultTemperatureUnit }),
+          recordedAt: row.recordedAt,
+        });
+      }
+    });
+
+    return {
+      readings,
+      errors:
+        errors.length > MAX_REPORTED_ERRORS
+          ? [
+              ...errors.slice(0, MAX_REPORTED_ERRORS),
+              `...and ${errors.length - MAX_REPORTED_ERRORS} more`,
+            ]
+          : errors,
+    };
+  }
+
+  private static readJsonRows(text: string): Record<string, unknown>[] {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      throw new Error("The file isn't valid JSON");
+    }
+
+    const rows = Array.isArray(json)
+      ? json
+      : json && typeof json === "object" && Array.isArray((json as { readings?: unknown }).readings)
+      ? (json as { readings: unknown[] }).readings
+      : null;
+    if (!rows) throw new Error('Expected an array of readings or { "readings": [...] }');
+
+    return rows.map((row) =>
+      row && typeof row === "object" ? (row as Record<string, unknown>) : {}
+    );
+  }
+
+  private static readCsvRows(text: string): Record<string, unknown>[] {
+    const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ""));
+    if (!header) throw new Error("The file is empty");
+
+    return rows.map((fields) =>
+      Object.fromEntries(header.map((column, i) => [column.trim(), fields[i] ?? ""]))
+    );
+  }
+
+  /**
+   * The newest reading of each metric for every active plant, from readings
+   * of the plant itself or of its bed
+   */
+  static getLatestByPlant(
+    readings: SensorReading[],
+    plants: PlantRecord[],
+    now = new Date()
+  ): Map<string, SensorReading[]> {
+    const cutoff = subHours(now, SENSOR_READING_MAX_AGE_HOURS);
+    const latest = new Map<string, Map<SensorMetric, SensorReading>>();
+
+    for (const plant of plants) {
+      if (!plant.isActive) continue;
+      const bedId = plant.structuredSection?.bedId;
+      const byMetric = new Map<SensorMetric, SensorReading>();
+
+      for (const reading of readings) {
+        if (reading.recordedAt < cutoff || reading.recordedAt > now) continue;
+        if (reading.plantId !== plant.id && (!bedId || reading.bedId !== bedId)) continue;
+
+        const current = byMetric.get(reading.metric);
+        if (!current || reading.recordedAt > current.recordedAt) {
+          byMetric.set(reading.metric, reading);
+        }
+      }
+      if (byMetric.size > 0) latest.set(plant.id, byMetric);
+    }
+
+    return new Map(
+      [...latest].map(([plantId, byMetric]) => [plantId, [...byMetric.values()]])
+    );
+  }
+
+  /**
+   * Alerts for plants whose latest readings fall outside their variety's
+   * environmental protocol. Beyond criticalMin/criticalMax is critical;
+   * outside min/max is a warning. Critical alerts come first.
+   */
+  static getAlerts(
+    readings: SensorReading[],
+    plants: PlantRecord[],
+    varieties: VarietyRecord[],
+    now = new Date()
+  ): SensorAlert[] {
+    const varietiesById = new Map(varieties.map((variety) => [variety.id, variety]));
+    const plantsById = new Map(plants.map((plant) => [plant.id, plant]));
+    const alerts: SensorAlert[] = [];
+
+    for (const [plantId, latest] of this.getLatestByPlant(readings, plants, now)) {
+      const plant = plantsById.get(plantId)!;
+      const environment = varietiesById.get(plant.varietyId)?.protocols?.environment;
+      if (!environment) continue;
+
+      for (const reading of latest) {
+        const alert = this.checkReading(reading, plant, environment);
+        if (alert) alerts.push(alert);
+      }
+    }
+
+    return alerts.sort(
+      (a, b) =>
+        Number(b.severity === "critical") - Number(a.severity === "critical") ||
+        b.reading.recordedAt.getTime() - a.reading.recordedAt.getTime()
+    );
+  }
+
+  private static checkReading(
+    reading: SensorReading,
+    plant: PlantRecord,
+    environment: NonNullable<NonNullable<VarietyRecord["protocols"]>["environment"]>
+  ): SensorAlert | null {
+    const plantName = getPlantDisplayName(plant);
+    const alert = (severity: SensorAlert["severity"], message: string): SensorAlert => ({
+      reading,
+      plant,
+      severity,
+      message: `${message} for ${plantName}`,
+    });
+
+    if (reading.metric === "temperature" && environment.temperature) {
+      const range = environment.temperature;
+      const value = MeasurementService.convertTemperature(
+        reading.value,
+        reading.unit ?? range.unit,
+        range.unit
+      );
+      const shown = MeasurementService.formatTemperature(value, range.unit);
+      const limit = (bound: number) => MeasurementService.formatTemperature(bound, range.unit);
+
+      if (range.criticalMin !== undefined && value < range.criticalMin) {
+        return alert(
+          "critical",
+          `${shown} is below the critical minimum of ${limit(range.criticalMin)}`
+        );
+      }
+      if (range.criticalMax !== undefined && value > range.criticalMax) {
+        return alert(
+          "critical",
+          `${shown} is above the critical maximum of ${limit(range.criticalMax)}`
+        );
+      }
+      if (range.min !== undefined && value < range.min) {
+        return alert(
+          "warning",
+          `${shown} is below the ${limit(range.min)} minimum`
+        );
+      }
+      if (range.max !== undefined && value > range.max) {
+        return alert(
+          "warning",
+          `${shown} is above the ${limit(range.max)} maximum`
+        );
+      }
+    }
+
+    if (reading.metric === "humidity" && environment.humidity) {
+      const { min, max } = environment.humidity;
+      const shown = `${Math.round(reading.value)}%`;
+
+      if (min !== undefined && reading.value < min) {
+        return alert(
+          "warning",
+          `Humidity of ${shown} is below the ${min}% minimum`
+        );
+      }
+      if (max !== undefined && reading.value > max) {
+        return alert(
+          "warning",
+          `Humidity of ${shown} is above the ${max}% maximum`
+        );
+      }
+    }
+
+    return null;
+  }
+
+  static formatValue(reading: Pick<SensorReading, "metric" | "value" | "unit">): string {
+    switch (reading.metric) {
+      case "temperature":
+        return MeasurementService.formatTemperature(reading.value, reading.unit ?? "F");
+      case "humidity":
+        return `${Math.round(reading.value)}%`;
+      case "soilMoisture":
+        return `${reading.value}/10`;
+      case "lightLevel":
+        return `${Math.round(reading.value)} lux`;
+    }
+  }
+}
@@ -1,8 +1,12 @@
 // src/services/serviceRegistry.ts - Central service registration and configuration
-import { container, SERVICE_KEYS, ICareSchedulingService, IDynamicSchedulingService, IPlantService, ICareService, IVarietyService } from "./interfaces";
+import { container, SERVICE_KEYS, ICareSchedulingService, IDynamicSchedulingService, IPlantService, ICareService, IVarietyService, IPlantRepository, ICareRepository, IBedRepository, IVarietyRepository } from "./interfaces";
 import { CareSchedulingService } from "./careSchedulingService.new";
 import { DynamicSchedulingService } from "./dynamicSchedulingService.new";
-import { plantService, careService, varietyService } from "@/types/database";
+import { plantService, careService, varietyService, bedService } from "@/types/database";
+import { auth } from "./firebase/config";
+import { FirestoreBedRepository, FirestoreCareRepository, FirestorePlantRepository, FirestoreVarietyRepository } from "./firebase/repositories";
+import { SyncedBedRepository, SyncedCareRepository, SyncedPlantRepository, SyncedVarietyRepository } from "./syncedRepositories";
+import { GardenService } from "./gardenService";
 import { Logger } from "@/utils/logger";
 
 /**
@@ -24,10 +28,27 @@ export class ServiceRegistry {
     Logger.info("Bootstrapping service registry...");
 
     try {
-      // Register database services as singletons (they're already singletons)
-      container.registerSingleton(SERVICE_KEYS.PLANT_SERVICE, plantService);
-      container.registerSingleton(SERVICE_KEYS.CARE_SERVICE, careService);
-      container.registerSingleton(SERVICE_KEYS.VARIETY_SERVICE, varietyService);
+      // Plants, care activities, beds and added varieties live in the active Firestore
+      // garden for signed-in users and are mirrored into Dexie, which also holds the
+      // built-in variety catalogue
+      const currentUserId = () => auth.currentUser?.uid;
+      const currentGardenId = () => GardenService.getActiveGardenId(currentUserId());
+      container.registerSingleton(
+        SERVICE_KEYS.PLANT_SERVICE,
+        new SyncedPlantRepository(new FirestorePlantRepository(currentUserId, currentGardenId), plantService, currentUserId)
+      );
+      container.registerSingleton(
+        SERVICE_KEYS.CARE_SERVICE,
+        new SyncedCareRepository(new FirestoreCareRepository(currentUserId, currentGardenId), careService, currentUserId)
+      );
+      container.registerSingleton(
+        SERVICE_KEYS.BED_SERVICE,
+        new SyncedBedRepository(new FirestoreBedRepository(currentUserId, currentGardenId), bedService, currentUserId)
+      );
+      container.registerSingleton(
+        SERVICE_KEYS.VARIETY_SERVICE,
+        new SyncedVarietyRepository(new FirestoreVarietyRepository(currentUserId, currentGardenId), varietyService, currentUserId)
+      );
 
       // Register dynamic scheduling service as singleton
       container.register(SERVICE_KEYS.DYNAMIC_SCHEDULING, () => {
@@ -118,13 +139,16 @@ export const getDynamicSchedulingService = () =>
   ServiceRegistry.getSingleton<IDynamicSchedulingService>(SERVICE_KEYS.DYNAMIC_SCHEDULING);
 
 export const getPlantService = () => 
-  ServiceRegistry.getSingleton(SERVICE_KEYS.PLANT_SERVICE);
+  ServiceRegistry.getSingleton<IPlantRepository>(SERVICE_KEYS.PLANT_SERVICE);
 
 export const getCareService = () => 
-  ServiceRegistry.getSingleton(SERVICE_KEYS.CARE_SERVICE);
+  ServiceRegistry.getSingleton<ICareRepository>(SERVICE_KEYS.CARE_SERVICE);
 
 export const getVarietyService = () => 
-  ServiceRegistry.getSingleton(SERVICE_KEYS.VARIETY_SERVICE);
+  ServiceRegistry.getSingleton<IVarietyRepository>(SERVICE_KEYS.VARIETY_SERVICE);
+
+export const getBedService = () => 
+  ServiceRegistry.getSingleton<IBedRepository>(SERVICE_KEYS.BED_SERVICE);
 
 // Auto-bootstrap in non-test environments
 if (process.env.NODE_ENV !== 'test') {
@@ -0,0 +1,213 @@
+// src/services/sitterShareService.ts
+import { endOfDay, startOfDay } from "date-fns";
+import {
+  CareActivityAttribution,
+  CareActivityDetails,
+  CareActivityRecord,
+  CareActivityType,
+  PlantRecord,
+  SitterCompletion,
+  SitterPlant,
+  SitterShare,
+  SitterShareStatus,
+  SitterTask,
+  UpcomingTask,
+} from "@/types";
+import { QuickCompletionValues } from "./smartDefaultsService";
+
+// Task types a sitter can complete with one tap
+const SITTER_ACTIVITY_TYPES: CareActivityType[] = ["water", "observe", "fertilize"];
+
+export interface SitterVisitDay {
+  date: Date;
+  completions: SitterCompletion[];
+}
+
+export interface SitterVisitSummary {
+  activityCount: number; // One per plant, as logged in the care history
+  days: SitterVisitDay[];
+  missedTasks: SitterTask[];
+}
+
+export type SitterActivity = Omit<CareActivityRecord, "id" | "createdAt" | "updatedAt">;
+
+const toSitterPlant = (plant: PlantRecord): SitterPlant => ({
+  id: plant.id,
+  varietyId: plant.varietyId,
+  varietyName: plant.varietyName,
+  ...(plant.name && { name: plant.name }),
+  plantedDate: plant.plantedDate,
+  location: plant.location,
+  container: plant.container,
+  isActive: plant.isActive,
+  createdAt: plant.createdAt,
+});
+
+/**
+ * Garden sitter links: which tasks a sitter sees, when their link works, and
+ * how what they did is written into the garden's care history.
+ */
+export class SitterShareService {
+  /**
+   * The upcoming tasks due by the end of the sitter's last day, including
+   * anything already overdue
+   */
+  static selectTasks(
+    upcomingTasks: UpcomingTask[],
+    plants: PlantRecord[],
+    expiresAt: Date
+  ): SitterTask[] {
+    const cutoff = endOfDay(expiresAt);
+    const plantsById = new Map(plants.map((plant) => [plant.id, plant]));
+
+    return upcomingTasks.flatMap((task) => {
+      const activityType = task.type as CareActivityType;
+      if (!SITTER_ACTIVITY_TYPES.includes(activityType) || task.dueDate > cutoff) return [];
+
+      const plantIds = task.plantIds ?? [task.plantId];
+      const plant = plantsById.get(plantIds[0]);
+      if (!plant) return [];
+
+      return [
+        {
+          id: task.id,
+          plantIds,
+          plantName: task.plantName,
+          task: task.task,
+          activityType,
+          dueDate: task.dueDate,
+          plant: toSitterPlant(plant),
+        },
+      ];
+    });
+  }
+
+  static getStatus(share: SitterShare, now = new Date()): SitterShareStatus {
+    if (share.revokedAt) return "revoked";
+    if (now < share.startsAt) return "scheduled";
+    if (now > share.expiresAt) return "expired";
+    return "active";
+  }
+
+  static isActive(share: SitterShare, now = new Date()): boolean {
+    return this.getStatus(share, now) === "active";
+  }
+
+  /**
+   * A share covers whole days: from the start of the first to the end of the last
+   */
+  static getWindow(firstDay: Date, lastDay: Date): { startsAt: Date; expiresAt: Date } {
+    return { startsAt: startOfDay(firstDay), expiresAt: endOfDay(lastDay) };
+  }
+
+  static getAttribution(share: SitterShare): CareActivityAttribution {
+    return {
+      userId: `sitter:${share.id}`,
+      displayName: share.sitterName,
+      sitterShareId: share.id,
+    };
+  }
+
+  static getLink(shareId: string, origin = window.location.origin): string {
+    return `${origin}/sit/${shareId}`;
+  }
+
+  /**
+   * What the sitter recorded when they tapped a quick completion button
+   */
+  static createCompletion(
+    task: SitterTask,
+    values: QuickCompletionValues = {},
+    completedAt = new Date()
+  ): Omit<SitterCompletion, "id"> {
+    const notes = values.notes?.trim();
+    return {
+      taskId: task.id,
+      plantIds: task.plantIds,
+      activityType: task.activityType,
+      completedAt,
+      ...(task.activityType === "water" &&
+        values.waterValue &&
+        values.waterUnit && { amount: { value: values.waterValue, unit: values.waterUnit } }),
+      ...(notes && { notes }),
+      imported: false,
+    };
+  }
+
+  /**
+   * The care activities a completion adds, one per plant, tagged with the
+   * sitter. Only plants the shared task covers are logged, whatever the link
+   * sent.
+   */
+  static buildActivities(share: SitterShare, completion: SitterCompletion): SitterActivity[] {
+    const task = share.tasks.find((candidate) => candidate.id === completion.taskId);
+    if (!task) return [];
+
+    const details: CareActivityDetails = {
+      type: task.activityType,
+      ...(completion.amount && { amount: completion.amount }),
+      notes: completion.notes ?? `${task.task} by ${share.sitterName} while you were away`,
+    };
+
+    return completion.plantIds
+      .filter((plantId) => task.plantIds.includes(plantId))
+      .map((plantId) => ({
+        plantId,
+        type: task.activityType,
+        date: completion.completedAt,
+        details,
+        gardenId: share.gardenId,
+        loggedBy: this.getAttribution(share),
+      }));
+  }
+
+  /**
+   * Stable ID for an imported activity, so importing twice writes the same document
+   */
+  static getActivityId(completion: SitterCompletion, plantId: string): string {
+    return `sitter_${completion.id}_${plantId}`;
+  }
+
+  /**
+   * What the sitter did, by day, and which tasks they never got to
+   */
+  static summarize(share: SitterShare, completions: SitterCompletion[]): SitterVisitSummary {
+    const sorted = [...completions].sort(
+      (a, b) => a.completedAt.getTime() - b.completedAt.getTime()
+    );
+    const days: SitterVisitDay[] = [];
+    for (const completion of sorted) {
+      const date = startOfDay(completion.completedAt);
+      const day = days.find((candidate) => candidate.date.getTime() === date.getTime());
+      if (day) {
+        day.completions.push(completion);
+      } else {
+        days.push({ date, completions: [completion] });
+      }
+    }
+
+    const completedTaskIds = new Set(completions.map((completion) => completion.taskId));
+    return {
+      activityCount: completions.reduce(
+        (count, completion) => count + completion.plantIds.length,
+        0
+      ),
+      days,
+      missedTasks: share.tasks.filter((task) => !completedTaskIds.has(task.id)),
+    };
+  }
+
+  /**
+   * Visits that are over, whose summary the owners haven't dismissed yet
+   */
+  static getUnseenSummaries(shares: SitterShare[], now = new Date()): SitterShare[] {
+    return shares.filter((share) => {
+      const status = this.getStatus(share, now);
+      return (
+        !share.summarySeenAt &&
+        now >= share.startsAt &&
+        (status === "expired" || status === "revoked")
+      );
+    });
+  }
+}
@@ -1,15 +1,11 @@
 // src/services/smartDefaultsService.ts
 
-import {
-  varietyService,
-  careService,
-  PlantRecord,
-  VarietyRecord,
-} from "@/types/database";
-import { GrowthStage, PlantCategory, CareActivityType } from "@/types";
+import { PlantRecord, VarietyRecord } from "@/types/database";
+import { GrowthStage, PlantCategory, CareActivityType, VolumeUnit } from "@/types";
 import { calculateCurrentStage } from "@/utils/growthStage";
 import { WateringResolver } from "@/utils/wateringResolver";
 import { Logger } from "@/utils/logger";
+import { getCareService, getVarietyService } from "./serviceRegistry";
 
 export interface QuickCompleteOption {
   label: string;
@@ -18,7 +14,7 @@ export interface QuickCompleteOption {
 
 export interface QuickCompletionValues {
   waterValue?: number;
-  waterUnit?: "oz" | "ml" | "cups" | "liters" | "gallons";
+  waterUnit?: VolumeUnit;
   product?: string;
   dilution?: string;
   amount?: string;
@@ -32,7 +28,7 @@ export interface SmartDefaults {
 
 interface WateringDefaults {
   suggestedAmount: number;
-  unit: "oz" | "ml" | "cups" | "liters" | "gallons";
+  unit: VolumeUnit;
   confidence: "high" | "medium" | "low";
   source: "protocol" | "category" | "universal";
   reasoning: string;
@@ -57,7 +53,7 @@ export class SmartDefaultsService {
     plant: PlantRecord
   ): Promise<SmartDefaults | null> {
     try {
-      const variety = await varietyService.getVariety(plant.varietyId);
+      const variety = await getVarietyService().getVariety(plant.varietyId);
       if (!variety) return null;
 
       const currentStage = calculateCurrentStage(
@@ -234,7 +230,7 @@ export class SmartDefaultsService {
     isForDashboard = false // Add parameter to distinguish dashboard vs full form
   ): Promise<QuickCompleteOption[] | null> {
     try {
-      const variety = await varietyService.getVariety(plant.varietyId);
+      const variety = await getVarietyService().getVariety(plant.varietyId);
       if (!variety) return null;
 
       const currentStage = calculateCurrentStage(
@@ -273,14 +269,14 @@ export class SmartDefaultsService {
     options: QuickCompleteOption[]
   ): Promise<void> {
     try {
-      const recentWatering = await careService.getLastActivityByType(
+      const recentWatering = await getCareService().getLastActivityByType(
         plant.id,
         "water"
       );
       if (recentWatering && recentWatering.details.type === "water") {
         const lastAmount = recentWatering.details.amount as unknown as {
           value: number;
-          unit: "oz" | "ml" | "cups" | "liters" | "gallons";
+          unit: VolumeUnit;
         };
 
         if (lastAmount && lastAmount.value > 0) {
@@ -331,10 +327,13 @@ export class SmartDefaultsService {
       },
     });
 
-    // Add light/heavy variants for full forms only
+    // Add light/heavy variants for full forms only, at the ends of the
+    // protocol's range when it gives one
     if (!isForDashboard) {
-      const lightAmount = Math.round(wateringAmount.amount * 0.75);
-      const heavyAmount = Math.round(wateringAmount.amount * 1.25);
+      const lightAmount =
+        wateringAmount.range?.min ?? Math.round(wateringAmount.amount * 0.75);
+      const heavyAmount =
+        wateringAmount.range?.max ?? Math.round(wateringAmount.amount * 1.25);
 
       if (lightAmount !== wateringAmount.amount && lightAmount > 0) {
         options.push({
@@ -1,10 +1,12 @@
-import { PlantRecord, bedService, plantService } from "@/types/database";
+import { PlantRecord } from "@/types/database";
 import { 
   Position, 
   SuccessionSpacing, 
   SuccessionPlanting, 
   PositionUnit 
 } from "@/types";
+import { MeasurementService } from "./measurementService";
+import { getBedService, getPlantService } from "./serviceRegistry";
 
 /**
  * Service for calculating succession planting spacing and scheduling
@@ -14,13 +16,13 @@ export class SuccessionPlanningService {
    * Calculate available space in a bed for succession planting
    */
   async calculateAvailableSpace(bedId: string): Promise<SuccessionSpacing> {
-    const bed = await bedService.getBed(bedId);
+    const bed = await getBedService().getBed(bedId);
     if (!bed) {
       throw new Error(`Bed not found: ${bedId}`);
     }
 
     // Get all active plants in this bed
-    const allPlants = await plantService.getActivePlants();
+    const allPlants = await getPlantService().getActivePlants();
     const plantsInBed = allPlants.filter(plant => 
       plant.structuredSection?.bedId === bedId
     );
@@ -35,9 +37,11 @@ export class SuccessionPlanningService {
     for (const plant of plantsInBed) {
       const section = plant.structuredSection;
       if (section && section.position) {
-        const plantArea = section.position.length * (section.position.width || section.position.length);
+        // Positions may be recorded in different units from the bed
+        const position = this.toUnit(section.position, bed.dimensions.unit);
+        const plantArea = position.length * (position.width || position.length);
         occupiedSpace += plantArea;
-        occupiedPositions.push(section.position);
+        occupiedPositions.push(position);
       }
     }
 
@@ -59,6 +63,19 @@ export class SuccessionPlanningService {
     };
   }
 
+  private toUnit(position: Position, unit: PositionUnit): Position {
+    if (position.unit === unit) return position;
+    const convert = (value: number) =>
+      MeasurementService.convertPosition(value, position.unit, unit);
+    return {
+      ...position,
+      start: convert(position.start),
+      length: convert(position.length),
+      width: position.width === undefined ? undefined : convert(position.width),
+      unit,
+    };
+  }
+
   /**
    * Find available positions for new plantings in a bed
    */
@@ -167,38 +184,11 @@ export class SuccessionPlanningService {
     };
   }
 
-  /**
-   * Convert position units (helper function)
-   */
-  convertUnits(
-    value: number,
-    fromUnit: PositionUnit,
-    toUnit: PositionUnit
-  ): number {
-    const toInches = {
-      inches: 1,
-      feet: 12,
-      cm: 0.393701,
-      mm: 0.0393701,
-    };
-
-    const fromInches = {
-      inches: 1,
-      feet: 1/12,
-      cm: 2.54,
-      mm: 25.4,
-    };
-
-    // Convert to inches first, then to target unit
-    const inInches = value * toInches[fromUnit];
-    return inInches * fromInches[toUnit];
-  }
-
   /**
    * Get plants in a specific bed
    */
   async getPlantsInBed(bedId: string): Promise<PlantRecord[]> {
-    const allPlants = await plantService.getActivePlants();
+    const allPlants = await getPlantService().getActivePlants();
     return allPlants.filter(plant => 
       plant.structuredSection?.bedId === bedId
     );
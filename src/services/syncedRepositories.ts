@@ -0,0 +1,318 @@
+// src/services/syncedRepositories.ts
+import { PlantRecord, CareActivityRecord, BedRecord, VarietyRecord } from "@/types/database";
+import { CareActivityType } from "@/types";
+import { Logger } from "@/utils/logger";
+import {
+  IBedRepository,
+  ICareRepository,
+  IPlantRepository,
+  IVarietyRepository,
+} from "./interfaces";
+import { UserIdProvider } from "./firebase/repositories";
+
+// Keeping the local copy current must never fail the read or write itself
+const mirror = async (write: () => Promise<void>): Promise<void> => {
+  try {
+    await write();
+  } catch (error) {
+    Logger.warn("Failed to mirror records to the local store", error);
+  }
+};
+
+// Reads from Firestore and caches the result locally, falling back to the
+// cache when Firestore can't be reached
+const readThrough = async <T>(
+  readRemote: () => Promise<T>,
+  readLocal: () => Promise<T>,
+  cache: (value: T) => Promise<void>
+): Promise<T> => {
+  try {
+    const value = await readRemote();
+    await mirror(() => cache(value));
+    return value;
+  } catch (error) {
+    Logger.warn("Falling back to local records", error);
+    return readLocal();
+  }
+};
+
+/**
+ * Plants from Firestore while signed in, mirrored into Dexie so they're still
+ * there offline. Signed out, plants live in Dexie only.
+ */
+export class SyncedPlantRepository implements IPlantRepository {
+  constructor(
+    private remote: IPlantRepository,
+    private local: IPlantRepository,
+    private getUserId: UserIdProvider
+  ) {}
+
+  async addPlant(plant: Omit<PlantRecord, "id" | "createdAt" | "updatedAt">): Promise<string> {
+    if (!this.getUserId()) return this.local.addPlant(plant);
+
+    const id = await this.remote.addPlant(plant);
+    const now = new Date();
+    await mirror(() => this.local.putPlants([{ ...plant, id, createdAt: now, updatedAt: now }]));
+    return id;
+  }
+
+  async getActivePlants(): Promise<PlantRecord[]> {
+    if (!this.getUserId()) return this.local.getActivePlants();
+
+    return readThrough(
+      () => this.remote.getActivePlants(),
+      () => this.local.getActivePlants(),
+      (plants) => this.local.putPlants(plants)
+    );
+  }
+
+  async getPlant(id: string): Promise<PlantRecord | undefined> {
+    if (!this.getUserId()) return this.local.getPlant(id);
+
+    return readThrough(
+      () => this.remote.getPlant(id),
+      () => this.local.getPlant(id),
+      async (plant) => {
+        if (plant) await this.local.putPlants([plant]);
+      }
+    );
+  }
+
+  async updatePlant(
+    id: string,
+    updates: Partial<Omit<PlantRecord, "id" | "createdAt">>
+  ): Promise<void> {
+    if (!this.getUserId()) return this.local.updatePlant(id, updates);
+
+    await this.remote.updatePlant(id, updates);
+    await mirror(() => this.local.updatePlant(id, updates));
+  }
+
+  async deletePlant(id: string): Promise<void> {
+    if (!this.getUserId()) return this.local.deletePlant(id);
+
+    await this.remote.deletePlant(id);
+    await mirror(() => this.local.deletePlant(id));
+  }
+
+  async putPlants(plants: PlantRecord[]): Promise<void> {
+    if (this.getUserId()) await this.remote.putPlants(plants);
+    await mirror(() => this.local.putPlants(plants));
+  }
+}
+
+/**
+ * Care activities from Firestore while signed in, mirrored into Dexie.
+ * Signed out, activities live in Dexie only.
+ */
+export class SyncedCareRepository implements ICareRepository {
+  constructor(
+    private remote: ICareRepository,
+    private local: ICareRepository,
+    private getUserId: UserIdProvider
+  ) {}
+
+  async addCareActivity(
+    activity: Omit<CareActivityRecord, "id" | "createdAt" | "updatedAt">
+  ): Promise<string> {
+    if (!this.getUserId()) return this.local.addCareActivity(activity);
+
+    const id = await this.remote.addCareActivity(activity);
+    const now = new Date();
+    await mirror(() =>
+      this.local.putActivities([{ ...activity, id, createdAt: now, updatedAt: now }])
+    );
+    return id;
+  }
+
+  async getLastActivityByType(
+    plantId: string,
+    type: CareActivityType
+  ): Promise<CareActivityRecord | null> {
+    if (!this.getUserId()) return this.local.getLastActivityByType(plantId, type);
+
+    return readThrough(
+      () => this.remote.getLastActivityByType(plantId, type),
+      () => this.local.getLastActivityByType(plantId, type),
+      async (activity) => {
+        if (activity) await this.local.putActivities([activity]);
+      }
+    );
+  }
+
+  async getPlantCareHistory(plantId: string): Promise<CareActivityRecord[]> {
+    if (!this.getUserId()) return this.local.getPlantCareHistory(plantId);
+
+    return readThrough(
+      () => this.remote.getPlantCareHistory(plantId),
+      () => this.local.getPlantCareHistory(plantId),
+      (activities) => this.local.putActivities(activities)
+    );
+  }
+
+  async getRecentActivities(limit?: number): Promise<CareActivityRecord[]> {
+    if (!this.getUserId()) return this.local.getRecentActivities(limit);
+
+    return readThrough(
+      () => this.remote.getRecentActivities(limit),
+      () => this.local.getRecentActivities(limit),
+      (activities) => this.local.putActivities(activities)
+    );
+  }
+
+  async putActivities(activities: CareActivityRecord[]): Promise<void> {
+    if (this.getUserId()) await this.remote.putActivities(activities);
+    await mirror(() => this.local.putActivities(activities));
+  }
+}
+
+/**
+ * Beds from Firestore while signed in, mirrored into Dexie, so a plant's
+ * structuredSection.bedId resolves on every device. Signed out, beds live in
+ * Dexie only.
+ */
+export class SyncedBedRepository implements IBedRepository {
+  constructor(
+    private remote: IBedRepository,
+    private local: IBedRepository,
+    private getUserId: UserIdProvider
+  ) {}
+
+  async addBed(bed: Omit<BedRecord, "id" | "createdAt" | "updatedAt">): Promise<string> {
+    if (!this.getUserId()) return this.local.addBed(bed);
+
+    const id = await this.remote.addBed(bed);
+    const now = new Date();
+    await mirror(() => this.local.putBeds([{ ...bed, id, createdAt: now, updatedAt: now }]));
+    return id;
+  }
+
+  async getActiveBeds(): Promise<BedRecord[]> {
+    if (!this.getUserId()) return this.local.getActiveBeds();
+
+    return readThrough(
+      () => this.remote.getActiveBeds(),
+      () => this.local.getActiveBeds(),
+      (beds) => this.local.putBeds(beds)
+    );
+  }
+
+  async getBed(id: string): Promise<BedRecord | undefined> {
+    if (!this.getUserId()) return this.local.getBed(id);
+
+    return readThrough(
+      () => this.remote.getBed(id),
+      () => this.local.getBed(id),
+      async (bed) => {
+        if (bed) await this.local.putBeds([bed]);
+      }
+    );
+  }
+
+  async updateBed(
+    id: string,
+    updates: Partial<Omit<BedRecord, "id" | "createdAt">>
+  ): Promise<void> {
+    if (!this.getUserId()) return this.local.updateBed(id, updates);
+
+    await this.remote.updateBed(id, updates);
+    await mirror(() => this.local.updateBed(id, updates));
+  }
+
+  async deleteBed(id: string): Promise<void> {
+    if (!this.getUserId()) return this.local.deleteBed(id);
+
+    await this.remote.deleteBed(id);
+    await mirror(() => this.local.deleteBed(id));
+  }
+
+  async putBeds(beds: BedRecord[]): Promise<void> {
+    if (this.getUserId()) await this.remote.putBeds(beds);
+    await mirror(() => this.local.putBeds(beds));
+  }
+}
+
+/**
+ * The built-in catalogue seeded into Dexie, plus the varieties a garden added,
+ * which live in Firestore while signed in and are pulled into Dexie before
+ * local lookups. Signed out, varieties live in Dexie only.
+ */
+export class SyncedVarietyRepository implements IVarietyRepository {
+  constructor(
+    private remote: IVarietyRepository,
+    private local: IVarietyRepository,
+    private getUserId: UserIdProvider
+  ) {}
+
+  async addVariety(
+    variety: Omit<VarietyRecord, "id" | "createdAt" | "updatedAt" | "normalizedName">
+  ): Promise<string> {
+    if (!this.getUserId()) return this.local.addVariety(variety);
+
+    const existing = await this.getVarietyByName(variety.name);
+    if (existing) return existing.id;
+
+    const id = await this.remote.addVariety(variety);
+    const now = new Date();
+    await mirror(() =>
+      this.local.putVarieties([
+        {
+          ...variety,
+          id,
+          normalizedName: variety.name.toLowerCase(),
+          createdAt: now,
+          updatedAt: now,
+        },
+      ])
+    );
+    return id;
+  }
+
+  async getVariety(id: string): Promise<VarietyRecord | undefined> {
+    const variety = await this.local.getVariety(id);
+    if (variety || !this.getUserId()) return variety;
+
+    return readThrough(
+      () => this.remote.getVariety(id),
+      () => this.local.getVariety(id),
+      async (remoteVariety) => {
+        if (remoteVariety) await this.local.putVarieties([remoteVariety]);
+      }
+    );
+  }
+
+  async getAllVarieties(): Promise<VarietyRecord[]> {
+    await this.pullGardenVarieties();
+    return this.local.getAllVarieties();
+  }
+
+  async getVarietiesByCategory(category: string): Promise<VarietyRecord[]> {
+    await this.pullGardenVarieties();
+    return this.local.getVarietiesByCategory(category);
+  }
+
+  async getVarietyByName(name: string): Promise<VarietyRecord | undefined> {
+    const variety = await this.local.getVarietyByName(name);
+    if (variety || !this.getUserId()) return variety;
+
+    await this.pullGardenVarieties();
+    return this.local.getVarietyByName(name);
+  }
+
+  async putVarieties(varieties: VarietyRecord[]): Promise<void> {
+    if (this.getUserId()) await this.remote.putVarieties(varieties);
+    await mirror(() => this.local.putVarieties(varieties));
+  }
+
+  // Lists are answered from Dexie, which already holds the built-in catalogue
+  private async pullGardenVarieties(): Promise<void> {
+    if (!this.getUserId()) return;
+
+    try {
+      const varieties = await this.remote.getAllVarieties();
+      await mirror(() => this.local.putVarieties(varieties));
+    } catch (error) {
+      Logger.warn("Falling back to local varieties", error);
+    }
+  }
+}
@@ -0,0 +1,99 @@
+// src/services/taskDeferralService.ts
+import { addDays, isBefore, set } from "date-fns";
+import { ScheduledTask, TaskDeferral } from "./ProtocolTranspilerService";
+
+export type SnoozeOption = { days: number } | { until: Date };
+
+export type TaskDeferRequest =
+  | { kind: "snooze"; option: SnoozeOption; reason?: string }
+  | { kind: "reschedule"; dueDate: Date; reason?: string };
+
+export interface TaskDueDateChange {
+  task: ScheduledTask;
+  dueDate: Date;
+  // Set on tasks that move because a coordinated task did
+  movedWith?: ScheduledTask;
+}
+
+export const SNOOZE_PRESET_DAYS = [1, 3, 7];
+
+// Moves to another day keep the task's time of day
+const withTimeOf = (day: Date, time: Date) =>
+  set(day, {
+    hours: time.getHours(),
+    minutes: time.getMinutes(),
+    seconds: time.getSeconds(),
+    milliseconds: time.getMilliseconds(),
+  });
+
+/**
+ * Snoozing and rescheduling for scheduled tasks. A move shifts the task's
+ * pending coordinated tasks by the same amount so they keep their spacing.
+ */
+export class TaskDeferralService {
+  /**
+   * Snoozing by days counts from today for overdue tasks, so an overdue task
+   * doesn't come back still overdue
+   */
+  static getSnoozeDate(task: ScheduledTask, option: SnoozeOption, now: Date = new Date()): Date {
+    if ("until" in option) return withTimeOf(option.until, task.dueDate);
+    const from = isBefore(task.dueDate, now) ? withTimeOf(now, task.dueDate) : task.dueDate;
+    return addDays(from, option.days);
+  }
+
+  static resolveDueDate(
+    task: ScheduledTask,
+    request: TaskDeferRequest,
+    now: Date = new Date()
+  ): Date {
+    return request.kind === "snooze"
+      ? this.getSnoozeDate(task, request.option, now)
+      : withTimeOf(request.dueDate, task.dueDate);
+  }
+
+  /**
+   * The task plus its pending coordinated tasks, each with its new due date.
+   * Unknown or finished coordinated tasks are left alone.
+   */
+  static planMove(
+    task: ScheduledTask,
+    dueDate: Date,
+    allTasks: ScheduledTask[]
+  ): TaskDueDateChange[] {
+    const shift = dueDate.getTime() - task.dueDate.getTime();
+    const coordinated = (task.coordinatedWith ?? [])
+      .map((id) => allTasks.find((candidate) => candidate.id === id))
+      .filter(
+        (candidate): candidate is ScheduledTask =>
+          !!candidate && candidate.id !== task.id && candidate.status === "pending"
+      );
+
+    return [
+      { task, dueDate },
+      ...coordinated.map((candidate) => ({
+        task: candidate,
+        dueDate: new Date(candidate.dueDate.getTime() + shift),
+        movedWith: task,
+      })),
+    ];
+  }
+
+  /**
+   * The fields a move writes: the original due date is only recorded on the
+   * first move, so later snoozes still point back at the schedule.
+   */
+  static getDeferralUpdate(
+    change: TaskDueDateChange,
+    deferral: Omit<TaskDeferral, "deferredAt">,
+    deferredAt: Date = new Date()
+  ): Required<Pick<ScheduledTask, "dueDate" | "originalDueDate" | "deferral">> {
+    const reason = change.movedWith
+      ? `Moved with "${change.movedWith.taskName}"${deferral.reason ? `: ${deferral.reason}` : ""}`
+      : deferral.reason;
+    return {
+      dueDate: change.dueDate,
+      originalDueDate: change.task.originalDueDate ?? change.task.dueDate,
+      deferral: { kind: deferral.kind, ...(reason && { reason }), deferredAt },
+    };
+  }
+}
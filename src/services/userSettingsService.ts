@@ -0,0 +1,99 @@
+// src/services/userSettingsService.ts
+import { NotificationSettings, UserSettings } from "@/types";
+import { setAppTimeZone } from "@/utils/dateUtils";
+import { DEFAULT_NOTIFICATION_SETTINGS } from "./careReminderService";
+
+export type VolumePreference = UserSettings["units"]["volume"];
+export type TemperaturePreference = UserSettings["units"]["temperature"];
+
+/**
+ * Settings as stored, where any field may be missing from older records
+ */
+export interface StoredUserSettings {
+  units?: Partial<UserSettings["units"]>;
+  notifications?: Partial<NotificationSettings>;
+  location?: Partial<UserSettings["location"]>;
+  activeGardenId?: string;
+}
+
+type UserSettingsListener = (settings: UserSettings) => void;
+
+export const getDeviceTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+};
+
+export const DEFAULT_USER_SETTINGS: Omit<UserSettings, "id"> = {
+  units: {
+    temperature: "fahrenheit",
+    volume: "ounces",
+  },
+  notifications: { ...DEFAULT_NOTIFICATION_SETTINGS },
+  location: {
+    timezone: getDeviceTimeZone(),
+  },
+};
+
+let currentSettings: UserSettings = { id: "", ...DEFAULT_USER_SETTINGS };
+const listeners = new Set<UserSettingsListener>();
+
+/**
+ * Holds the signed-in user's settings so services and utilities outside of
+ * React (watering amounts, reminders, date formatting) can read them. The
+ * Firestore subscription in useUserSettingsSync keeps it up to date.
+ */
+export class UserSettingsService {
+  /**
+   * Fills in anything missing from a stored record, including settings added
+   * after the record was first saved
+   */
+  static withDefaults(userId: string, saved?: StoredUserSettings | null): UserSettings {
+    return {
+      id: userId,
+      units: { ...DEFAULT_USER_SETTINGS.units, ...saved?.units },
+      notifications: { ...DEFAULT_NOTIFICATION_SETTINGS, ...saved?.notifications },
+      location: { ...DEFAULT_USER_SETTINGS.location, ...saved?.location },
+      ...(saved?.activeGardenId && { activeGardenId: saved.activeGardenId }),
+    };
+  }
+
+  static isValidTimeZone(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  static getCurrent(): UserSettings {
+    return currentSettings;
+  }
+
+  static apply(settings: UserSettings): void {
+    currentSettings = settings;
+    setAppTimeZone(
+      this.isValidTimeZone(settings.location.timezone)
+        ? settings.location.timezone
+        : undefined
+    );
+    listeners.forEach((listener) => listener(settings));
+  }
+
+  /**
+   * Goes back to defaults, e.g. after sign-out
+   */
+  static reset(): void {
+    this.apply({ id: "", ...DEFAULT_USER_SETTINGS });
+  }
+
+  static subscribe(listener: UserSettingsListener): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+}
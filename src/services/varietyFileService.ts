@@ -0,0 +1,451 @@
+// src/services/varietyFileService.ts
+import { z } from "zod";
+import { format } from "date-fns";
+import {
+  CATEGORY_STAGES,
+  GrowthStage,
+  PlantCategory,
+  VarietyProtocols,
+  VarietyRecord,
+} from "@/types";
+import { ComprehensivePlantProtocols, SeedVariety } from "@/data/seedVarieties";
+import { convertSeedVarietyToVarietyRecord } from "@/data";
+import { visualCues as builtInVisualCues } from "@/data/visualCues";
+import {
+  APPLICATION_METHODS,
+  DLI_UNIT,
+  PLANT_CATEGORIES,
+  PPFD_UNIT,
+  VarietyInput,
+} from "./varietyProtocolService";
+
+export const VARIETY_FILE_FORMAT = "smart-garden-variety";
+export const VARIETY_FILE_VERSION = 1;
+
+export type VisualCues = Partial<Record<GrowthStage, string[]>>;
+
+/**
+ * One variety in a protocol file: the same shape as an entry in
+ * src/data/seedVarieties.ts, plus optional description and visual cues.
+ * Stage names in protocols and the timeline may use the seed catalogue's
+ * aliases (e.g. "establishment"); they're mapped to growth stages on import.
+ */
+export interface VarietyFileEntry extends SeedVariety {
+  description?: string;
+  visualCues?: VisualCues;
+}
+
+export interface VarietyFile {
+  format: typeof VARIETY_FILE_FORMAT;
+  version: number;
+  exportedAt: Date;
+  varieties: VarietyFileEntry[];
+}
+
+export type VarietyFileParseResult =
+  | { success: true; file: VarietyFile }
+  | { success: false; errors: string[] };
+
+export interface VarietyImportPlan {
+  /** Varieties to add, ready for varietyService.addVariety */
+  create: VarietyInput[];
+  /** Names of varieties already in the catalogue, which are left as they are */
+  duplicates: string[];
+}
+
+const MAX_REPORTED_ERRORS = 10;
+
+const GROWTH_STAGES = [...new Set(Object.values(CATEGORY_STAGES).flat())] as [
+  GrowthStage,
+  ...GrowthStage[],
+];
+
+const text = z.string().trim().min(1, "Must not be empty");
+const notes = z.array(text).optional();
+const stageName = z.string().trim().min(1, "Stage names must not be empty");
+const days = z.number().int("Use whole days").min(0, "Days can't be negative");
+const percent = z.number().min(0).max(100, "Percentages go up to 100");
+
+const moistureLevel = z.union(
+  [z.number().min(1).max(10), text],
+  { errorMap: () => ({ message: 'Use a meter level from 1 to 10 or a description like "3-4"' }) }
+);
+
+const range = <T extends z.ZodRawShape>(shape: T) =>
+  z
+    .object(shape)
+    .strict()
+    .refine(
+      (value) => {
+        const { min, max } = value as { min?: number; max?: number };
+        return min === undefined || max === undefined || min <= max;
+      },
+      { message: "min must not be above max" }
+    );
+
+const moistureSchema = z.object({ moistureLevel, description: text.optional() }).strict();
+
+const wateringStageSchema = z
+  .object({
+    trigger: moistureSchema.optional(),
+    target: moistureSchema.optional(),
+    volume: z
+      .object({
+        amount: z.union([text, z.number().positive()]).optional(),
+        frequency: text.optional(),
+        perPlant: z.boolean().optional(),
+      })
+      .strict()
+      .optional(),
+    notes,
+  })
+  .strict();
+
+const lightingStageSchema = z
+  .object({
+    ppfd: range({
+      min: z.number().min(0),
+      max: z.number().min(0),
+      optimal: z.number().min(0).optional(),
+      unit: z.literal(PPFD_UNIT, {
+        errorMap: () => ({ message: `PPFD unit must be "${PPFD_UNIT}"` }),
+      }),
+    }).optional(),
+    photoperiod: z
+      .object({
+        hours: z.number().min(0).max(24),
+        maxHours: z.number().min(0).max(24).optional(),
+        minHours: z.number().min(0).max(24).optional(),
+        constraint: text.optional(),
+      })
+      .strict()
+      .optional(),
+    dli: range({
+      min: z.number().min(0),
+      max: z.number().min(0),
+      unit: z.literal(DLI_UNIT, {
+        errorMap: () => ({ message: `DLI unit must be "${DLI_UNIT}"` }),
+      }),
+    }).optional(),
+    notes,
+  })
+  .strict();
+
+const scheduleItemSchema = z
+  .object({
+    taskName: text,
+    details: z
+      .object({
+        product: text,
+        dilution: text.optional(),
+        amount: text.optional(),
+        method: z.enum(APPLICATION_METHODS).optional(),
+      })
+      .strict(),
+    startDays: days,
+    frequencyDays: days,
+    repeatCount: z.number().int().min(1, "repeatCount must be at least 1"),
+  })
+  .strict();
+
+const fertilizationStageSchema = z
+  .object({ schedule: z.array(scheduleItemSchema).optional(), notes })
+  .strict();
+
+const environmentSchema = z
+  .object({
+    temperature: range({
+      min: z.number().optional(),
+      max: z.number().optional(),
+      optimal: z.number().optional(),
+      unit: z.enum(["F", "C"], {
+        errorMap: () => ({ message: 'Temperature unit must be "F" or "C"' }),
+      }),
+      criticalMax: z.number().optional(),
+      criticalMin: z.number().optional(),
+      stage: text.optional(),
+    }).optional(),
+    humidity: range({
+      min: percent.optional(),
+      max: percent.optional(),
+      optimal: percent.optional(),
+      criticalForStage: text.optional(),
+    }).optional(),
+    pH: range({
+      min: z.number().min(0).max(14),
+      max: z.number().min(0).max(14),
+      optimal: z.number().min(0).max(14),
+    }),
+    specialConditions: notes,
+    constraints: z
+      .array(
+        z
+          .object({
+            description: text,
+            parameter: z.enum(["temperature", "humidity", "light", "other"]),
+            threshold: z.number(),
+            consequence: text,
+          })
+          .strict()
+      )
+      .optional(),
+  })
+  .strict();
+
+const protocolsSchema = z
+  .object({
+    watering: z.record(stageName, wateringStageSchema).optional(),
+    fertilization: z.record(stageName, fertilizationStageSchema).optional(),
+    lighting: z.record(stageName, lightingStageSchema).optional(),
+    environment: environmentSchema.optional(),
+    soilMixture: z
+      .object({
+        components: z.record(text, percent),
+        amendments: z.record(text, text).optional(),
+      })
+      .strict()
+      .optional(),
+    container: z
+      .object({
+        minSize: text.optional(),
+        depth: text,
+        drainage: text.optional(),
+        staging: z
+          .object({
+            seedling: text.optional(),
+            intermediate: text.optional(),
+            final: text,
+          })
+          .strict()
+          .optional(),
+      })
+      .strict()
+      .optional(),
+    succession: z
+      .object({
+        interval: days,
+        method: z.enum(["continuous", "zoned", "single"]),
+        harvestMethod: z.enum(["cut-and-come-again", "single-harvest", "selective"]),
+        productiveWeeks: z.number().int().min(0).optional(),
+        notes,
+      })
+      .strict()
+      .optional(),
+    specialRequirements: notes,
+  })
+  .strict();
+
+const entrySchema = z
+  .object({
+    name: text,
+    category: z.enum(PLANT_CATEGORIES as [PlantCategory, ...PlantCategory[]], {
+      errorMap: () => ({ message: `Category must be one of: ${PLANT_CATEGORIES.join(", ")}` }),
+    }),
+    description: text.optional(),
+    growthTimeline: z
+      .record(stageName, days)
+      .refine((timeline) => Object.keys(timeline).length > 0, {
+        message: "Growth timeline needs at least one stage",
+      }),
+    protocols: protocolsSchema.optional(),
+    isEverbearing: z.boolean().optional(),
+    productiveLifespan: z.number().int().min(1).optional(),
+    visualCues: z
+      .record(
+        z.enum(GROWTH_STAGES, {
+          errorMap: () => ({ message: `Visual cue stages must be one of: ${GROWTH_STAGES.join(", ")}` }),
+        }),
+        z.array(text)
+      )
+      .optional(),
+  })
+  .strict();
+
+const fileSchema = z
+  .object({
+    format: z.literal(VARIETY_FILE_FORMAT, {
+      errorMap: () => ({ message: "Not a Smart Garden variety file" }),
+    }),
+    version: z
+      .number()
+      .int()
+      .max(VARIETY_FILE_VERSION, {
+        message: `File was made by a newer version of the app (supported up to version ${VARIETY_FILE_VERSION})`,
+      }),
+    exportedAt: z.coerce.date({ invalid_type_error: "Invalid date" }),
+    varieties: z.array(entrySchema).min(1, "File has no varieties"),
+  })
+  .strict();
+
+const normalize = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Reads and writes versioned variety protocol files, so tuned protocols for
+ * new cultivars can be shared without code changes. The format is described
+ * in VARIETY_PROTOCOL_FORMAT.md.
+ */
+export class VarietyFileService {
+  /**
+   * The file entry for a built-in or custom variety. Built-ins carry the
+   * visual cues from the knowledge base.
+   */
+  static toEntry(variety: VarietyRecord): VarietyFileEntry {
+    const cues = variety.visualCues ?? builtInVisualCues[variety.name];
+    const growthTimeline = Object.fromEntries(
+      Object.entries(variety.growthTimeline).filter(([, value]) => value !== undefined)
+    ) as Record<string, number>;
+
+    return {
+      name: variety.name,
+      category: variety.category,
+      ...(variety.description && { description: variety.description }),
+      growthTimeline,
+      ...(variety.protocols && {
+        protocols: variety.protocols as ComprehensivePlantProtocols,
+      }),
+      ...(variety.isEverbearing !== undefined && { isEverbearing: variety.isEverbearing }),
+      ...(variety.productiveLifespan !== undefined && {
+        productiveLifespan: variety.productiveLifespan,
+      }),
+      ...(cues && { visualCues: cues }),
+    };
+  }
+
+  static buildFile(varieties: VarietyRecord[], exportedAt: Date = new Date()): VarietyFile {
+    return {
+      format: VARIETY_FILE_FORMAT,
+      version: VARIETY_FILE_VERSION,
+      exportedAt,
+      varieties: varieties.map((variety) => this.toEntry(variety)),
+    };
+  }
+
+  /**
+   * JSON drops the undefined protocol sections built-ins carry
+   */
+  static serializeFile(file: VarietyFile): string {
+    return JSON.stringify(file, null, 2);
+  }
+
+  static getFileName(file: VarietyFile): string {
+    const day = format(file.exportedAt, "yyyy-MM-dd");
+    if (file.varieties.length === 1) {
+      const slug = normalize(file.varieties[0].name)
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-|-$/g, "");
+      return `smartgarden-variety-${slug}-${day}.json`;
+    }
+    return `smartgarden-varieties-${day}.json`;
+  }
+
+  /**
+   * Validates raw file text. Unknown fields are rejected so typos don't
+   * silently drop protocol data. Errors name the variety, e.g.
+   * `Astro Arugula: protocols.lighting.vegetative.ppfd.unit: PPFD unit must be "µmol/m²/s"`.
+   */
+  static parseFile(json: string): VarietyFileParseResult {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json.replace(/^\uFEFF/, ""));
+    } catch {
+      return { success: false, errors: ["File is not valid JSON"] };
+    }
+
+    const result = fileSchema.safeParse(raw);
+    if (!result.success) {
+      const errors = result.error.issues.map((issue) => this.formatIssue(raw, issue));
+      if (errors.length > MAX_REPORTED_ERRORS) {
+        const remaining = errors.length - MAX_REPORTED_ERRORS;
+        return {
+          success: false,
+          errors: [
+            ...errors.slice(0, MAX_REPORTED_ERRORS),
+            `...and ${remaining} more problem${remaining === 1 ? "" : "s"}`,
+          ],
+        };
+      }
+      return { success: false, errors };
+    }
+
+    const names = result.data.varieties.map((variety) => normalize(variety.name));
+    const repeated = result.data.varieties.filter(
+      (variety, i) => names.indexOf(normalize(variety.name)) !== i
+    );
+    if (repeated.length > 0) {
+      return {
+        success: false,
+        errors: repeated.map((variety) => `${variety.name}: appears more than once in the file`),
+      };
+    }
+
+    return { success: true, file: result.data as VarietyFile };
+  }
+
+  /**
+   * Converts a file entry the same way the built-in catalogue is loaded,
+   * mapping stage aliases to growth stages, and marks it custom
+   */
+  static toVarietyInput(entry: VarietyFileEntry): VarietyInput {
+    const record = convertSeedVarietyToVarietyRecord(entry);
+    const protocols = record.protocols
+      ? (Object.fromEntries(
+          Object.entries(record.protocols).filter(
+            ([, section]) => section !== undefined && Object.keys(section).length > 0
+          )
+        ) as VarietyProtocols)
+      : undefined;
+
+    return {
+      name: entry.name.trim(),
+      category: record.category,
+      ...(entry.description && { description: entry.description }),
+      growthTimeline: record.growthTimeline,
+      ...(protocols && Object.keys(protocols).length > 0 && { protocols }),
+      ...(entry.isEverbearing !== undefined && { isEverbearing: entry.isEverbearing }),
+      ...(entry.productiveLifespan !== undefined && {
+        productiveLifespan: entry.productiveLifespan,
+      }),
+      ...(entry.visualCues && { visualCues: entry.visualCues }),
+      isCustom: true,
+    };
+  }
+
+  /**
+   * Works out which varieties in `file` are new to a catalogue holding
+   * `existing`. Varieties are matched by name; nothing is written here.
+   */
+  static planImport(file: VarietyFile, existing: VarietyRecord[]): VarietyImportPlan {
+    const existingNames = new Set(existing.map((variety) => normalize(variety.name)));
+    const plan: VarietyImportPlan = { create: [], duplicates: [] };
+
+    for (const entry of file.varieties) {
+      if (existingNames.has(normalize(entry.name))) {
+        plan.duplicates.push(entry.name);
+      } else {
+        plan.create.push(this.toVarietyInput(entry));
+      }
+    }
+
+    return plan;
+  }
+
+  private static formatIssue(raw: unknown, issue: z.ZodIssue): string {
+    const [root, index, ...rest] = issue.path;
+    if (root !== "varieties" || typeof index !== "number") {
+      const path = issue.path.join(".");
+      return path ? `${path}: ${issue.message}` : issue.message;
+    }
+
+    // Name the variety when the file gives one, so errors read as
+    // "Astro Arugula: growthTimeline.seedling: ..." rather than by position
+    const varieties = (raw as { varieties?: { name?: unknown }[] }).varieties;
+    const name = varieties?.[index]?.name;
+    const label =
+      typeof name === "string" && name.trim() ? name.trim() : `Variety ${index + 1}`;
+    const path = rest.reduce<string>((result, segment) => {
+      if (typeof segment === "number") return `${result}[${segment}]`;
+      return result ? `${result}.${segment}` : String(segment);
+    }, "");
+    return path ? `${label}: ${path}: ${issue.message}` : `${label}: ${issue.message}`;
+  }
+}
@@ -0,0 +1,477 @@
+// src/services/varietyProtocolService.ts
+import { z } from "zod";
+import { addMinutes, differenceInDays } from "date-fns";
+import {
+  CATEGORY_STAGES,
+  FertilizationScheduleItem,
+  GrowthStage,
+  GrowthTimeline,
+  PlantCategory,
+  PlantRecord,
+  VarietyProtocols,
+  VarietyRecord,
+} from "@/types";
+import { MeasurementService } from "./measurementService";
+import { ProtocolTranspilerService, ScheduledTask } from "./ProtocolTranspilerService";
+
+export type VarietyInput = Omit<
+  VarietyRecord,
+  "id" | "createdAt" | "updatedAt" | "normalizedName"
+>;
+
+/**
+ * A custom variety while it's being edited. Protocols may hold empty stages
+ * and sections, which are dropped when the variety is saved.
+ */
+export interface VarietyDraft {
+  name: string;
+  category: PlantCategory;
+  description?: string;
+  growthTimeline: GrowthTimeline;
+  protocols: VarietyProtocols;
+  isEverbearing?: boolean;
+  productiveLifespan?: number;
+}
+
+export interface ProtocolIssue {
+  path: string;
+  message: string;
+}
+
+export type VarietyValidationResult =
+  | { success: true; variety: VarietyInput }
+  | { success: false; issues: ProtocolIssue[] };
+
+export interface ProtocolTaskPreview {
+  day: number; // Days after planting
+  stage: GrowthStage;
+  task: ScheduledTask;
+}
+
+export const PLANT_CATEGORIES: PlantCategory[] = [
+  "fruiting-plants",
+  "leafy-greens",
+  "root-vegetables",
+  "herbs",
+  "berries",
+  "flowers",
+];
+
+export const APPLICATION_METHODS = [
+  "soil-drench",
+  "foliar-spray",
+  "top-dress",
+  "side-dress",
+  "mix-in-soil",
+] as const;
+
+export const PPFD_UNIT = "µmol/m²/s";
+export const DLI_UNIT = "mol/m²/day";
+
+const DEFAULT_TIMELINE: GrowthTimeline = {
+  germination: 7,
+  seedling: 14,
+  vegetative: 30,
+  maturation: 60,
+};
+
+const count = (max: number) => z.number().int("Use whole days").min(0).max(max);
+
+const optionalText = z.string().trim().optional();
+
+// A moisture meter level (1-10) or a description like "3-4" or "surface dry"
+const moistureLevelSchema = z.union([
+  z.number().min(1, "Moisture is on a 1-10 scale").max(10, "Moisture is on a 1-10 scale"),
+  z.string().trim().min(1),
+]);
+
+const range = <T extends z.ZodRawShape>(shape: T, params?: z.RawCreateParams) =>
+  z
+    .object(shape, params)
+    .refine(
+      (value) => {
+        const { min, max } = value as { min?: number; max?: number };
+        return min === undefined || max === undefined || min <= max;
+      },
+      { message: "Minimum must not be above maximum", path: ["min"] }
+    );
+
+export const fertilizationScheduleItemSchema = z
+  .object({
+    taskName: z.string({ required_error: "Task name is required" }).trim().min(1, "Task name is required"),
+    // Blank details are pruned away entirely; report the missing product instead
+    details: z.preprocess(
+      (details) => details ?? {},
+      z.object({
+        product: z.string({ required_error: "Product is required" }).trim().min(1, "Product is required"),
+        dilution: optionalText,
+        amount: optionalText,
+        method: z.enum(APPLICATION_METHODS).optional(),
+      })
+    ),
+    startDays: count(730),
+    frequencyDays: count(365),
+    repeatCount: z.number().int("Use a whole number").min(1, "Repeat at least once").max(100),
+  })
+  .refine((item) => item.repeatCount === 1 || item.frequencyDays > 0, {
+    message: "Repeating tasks need a frequency",
+    path: ["frequencyDays"],
+  });
+
+const wateringStageSchema = z.object({
+  trigger: z.object({ moistureLevel: moistureLevelSchema.optional() }).optional(),
+  target: z.object({ moistureLevel: moistureLevelSchema.optional() }).optional(),
+  volume: z
+    .object({
+      amount: z.union([z.string().trim(), z.number().positive()]).optional(),
+      frequency: optionalText,
+      perPlant: z.boolean().optional(),
+    })
+    .optional(),
+});
+
+const fertilizationStageSchema = z.object({
+  schedule: z.array(fertilizationScheduleItemSchema).optional(),
+  notes: z.array(z.string()).optional(),
+});
+
+const lightingStageSchema = z.object({
+  ppfd: range({
+    min: z.number().min(0),
+    max: z.number().min(0),
+    optimal: z.number().min(0).optional(),
+    unit: z.string(),
+  }).optional(),
+  photoperiod: z
+    .object({
+      hours: z.number().min(0).max(24, "A day has 24 hours"),
+      maxHours: z.number().min(0).max(24, "A day has 24 hours").optional(),
+      minHours: z.number().min(0).max(24, "A day has 24 hours").optional(),
+      constraint: optionalText,
+    })
+    .optional(),
+  dli: range({ min: z.number().min(0), max: z.number().min(0), unit: z.string() }).optional(),
+  notes: z.array(z.string()).optional(),
+});
+
+const stageRecord = <T extends z.ZodTypeAny>(schema: T) =>
+  z.record(z.string(), schema).optional();
+
+const phLevel = z
+  .number({ required_error: "Environment protocols need a pH range" })
+  .min(0)
+  .max(14);
+
+const environmentSchema = z.object({
+  temperature: range({
+    min: z.number().optional(),
+    max: z.number().optional(),
+    optimal: z.number().optional(),
+    unit: z.enum(["F", "C"]),
+    criticalMax: z.number().optional(),
+    criticalMin: z.number().optional(),
+    stage: optionalText,
+  })
+    .refine(
+      (t) => t.criticalMin === undefined || t.min === undefined || t.criticalMin <= t.min,
+      { message: "Critical minimum must not be above the minimum", path: ["criticalMin"] }
+    )
+    .refine(
+      (t) => t.criticalMax === undefined || t.max === undefined || t.criticalMax >= t.max,
+      { message: "Critical maximum must not be below the maximum", path: ["criticalMax"] }
+    )
+    .optional(),
+  humidity: range({
+    min: z.number().min(0).max(100).optional(),
+    max: z.number().min(0).max(100).optional(),
+    optimal: z.number().min(0).max(100).optional(),
+    criticalForStage: optionalText,
+  }).optional(),
+  pH: range(
+    { min: phLevel, max: phLevel, optimal: phLevel },
+    { required_error: "Environment protocols need a pH range" }
+  ),
+  specialConditions: z.array(z.string()).optional(),
+  constraints: z
+    .array(
+      z.object({
+        description: z.string().trim().min(1, "Description is required"),
+        parameter: z.enum(["temperature", "humidity", "light", "other"]),
+        threshold: z.number(),
+        consequence: z.string().trim().min(1, "Consequence is required"),
+      })
+    )
+    .optional(),
+});
+
+const soilMixtureSchema = z.object({
+  components: z
+    .record(z.string().trim().min(1, "Name each component"), z.number().min(0).max(100))
+    .refine(
+      (components) => {
+        const total = Object.values(components).reduce((sum, percent) => sum + percent, 0);
+        return total === 0 || Math.abs(total - 100) < 0.5;
+      },
+      { message: "Components should add up to 100%" }
+    ),
+  amendments: z
+    .record(z.string().trim().min(1, "Name each amendment"), z.string())
+    .optional(),
+});
+
+const containerSchema = z.object({
+  minSize: optionalText,
+  depth: z.string().trim().min(1, "Container depth is required"),
+  drainage: optionalText,
+  staging: z
+    .object({
+      seedling: optionalText,
+      intermediate: optionalText,
+      final: z.string().trim().min(1, "Final container is required"),
+    })
+    .optional(),
+});
+
+const successionSchema = z.object({
+  interval: count(365),
+  method: z.enum(["continuous", "zoned", "single"]),
+  harvestMethod: z.enum(["cut-and-come-again", "single-harvest", "selective"]),
+  productiveWeeks: z.number().int().min(0).optional(),
+  notes: z.array(z.string()).optional(),
+});
+
+export const varietyProtocolsSchema = z.object({
+  watering: stageRecord(wateringStageSchema),
+  fertilization: stageRecord(fertilizationStageSchema),
+  lighting: stageRecord(lightingStageSchema),
+  environment: environmentSchema.optional(),
+  soilMixture: soilMixtureSchema.optional(),
+  container: containerSchema.optional(),
+  succession: successionSchema.optional(),
+  specialRequirements: z.array(z.string()).optional(),
+});
+
+const timelineDays = (label: string) =>
+  z
+    .number({ invalid_type_error: `${label} days are required` })
+    .int("Use whole days")
+    .min(1, `${label} must be at least 1 day`)
+    .max(365);
+
+export const varietyDraftSchema = z.object({
+  name: z.string().trim().min(1, "Variety name is required"),
+  category: z.enum(PLANT_CATEGORIES as [PlantCategory, ...PlantCategory[]]),
+  description: optionalText,
+  growthTimeline: z
+    .object({
+      germination: timelineDays("Germination"),
+      seedling: timelineDays("Seedling"),
+      vegetative: timelineDays("Vegetative"),
+      maturation: timelineDays("Maturation").max(3650),
+      rootDevelopment: timelineDays("Root development").optional(),
+    })
+    .passthrough(),
+  protocols: varietyProtocolsSchema,
+  isEverbearing: z.boolean().optional(),
+  productiveLifespan: z.number().int().min(1).optional(),
+});
+
+const isBlank = (value: unknown): boolean => {
+  if (value === undefined || value === null) return true;
+  if (typeof value === "string") return value.trim() === "";
+  if (typeof value === "number") return Number.isNaN(value);
+  if (Array.isArray(value)) return value.every(isBlank);
+  // A unit on its own, like a temperature scale picked in a select, isn't a value
+  if (typeof value === "object") {
+    return Object.entries(value).every(([key, field]) => key === "unit" || isBlank(field));
+  }
+  return false;
+};
+
+/**
+ * Fills in the units the editor doesn't ask for
+ */
+const withUnits = (protocols: VarietyProtocols): VarietyProtocols => ({
+  ...protocols,
+  ...(protocols.lighting && {
+    lighting: Object.fromEntries(
+      Object.entries(protocols.lighting).map(([stage, lighting]) => [
+        stage,
+        {
+          ...lighting,
+          ...(lighting?.ppfd && {
+            ppfd: { ...lighting.ppfd, unit: lighting.ppfd.unit || PPFD_UNIT },
+          }),
+          ...(lighting?.dli && {
+            dli: { ...lighting.dli, unit: lighting.dli.unit || DLI_UNIT },
+          }),
+        },
+      ])
+    ),
+  }),
+  ...(protocols.environment?.temperature && {
+    environment: {
+      ...protocols.environment,
+      temperature: {
+        ...protocols.environment.temperature,
+        unit: protocols.environment.temperature.unit || MeasurementService.getTemperatureUnit(),
+      },
+    },
+  }),
+});
+
+/**
+ * Drops blank strings, NaN, empty arrays and objects left by untouched
+ * fields, so only what the user filled in is saved or validated
+ */
+const prune = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    const items = value.map(prune).filter((item) => !isBlank(item));
+    return items.length > 0 ? items : undefined;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .map(([key, field]) => [key, prune(field)] as const)
+      .filter(([, field]) => !isBlank(field));
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  }
+  if (typeof value === "string") return value.trim() || undefined;
+  if (typeof value === "number" && Number.isNaN(value)) return undefined;
+  return value;
+};
+
+const formatPath = (path: (string | number)[]) =>
+  path
+    .map((segment, i) =>
+      typeof segment === "number" ? `[${segment + 1}]` : i ? `.${segment}` : segment
+    )
+    .join("");
+
+/**
+ * Authoring custom varieties: drafts, validation of every protocol section,
+ * and a preview of the tasks the protocols would schedule.
+ */
+export class VarietyProtocolService {
+  static createDraft(category: PlantCategory = "fruiting-plants"): VarietyDraft {
+    return {
+      name: "",
+      category,
+      growthTimeline: { ...DEFAULT_TIMELINE },
+      protocols: {},
+    };
+  }
+
+  /**
+   * A draft copied from an existing variety, to adapt into a new one
+   */
+  static cloneVariety(variety: VarietyRecord): VarietyDraft {
+    const copy = JSON.parse(JSON.stringify(variety)) as VarietyRecord;
+    return {
+      name: `${variety.name} (custom)`,
+      category: copy.category,
+      ...(copy.description && { description: copy.description }),
+      growthTimeline: copy.growthTimeline,
+      protocols: copy.protocols ?? {},
+      ...(copy.isEverbearing !== undefined && { isEverbearing: copy.isEverbearing }),
+      ...(copy.productiveLifespan !== undefined && {
+        productiveLifespan: copy.productiveLifespan,
+      }),
+    };
+  }
+
+  /**
+   * The stages protocols can be set for: the category's stages, then any
+   * others a cloned variety already has protocols for
+   */
+  static getStages(draft: Pick<VarietyDraft, "category" | "protocols">): GrowthStage[] {
+    const stages = [...CATEGORY_STAGES[draft.category]];
+    const { watering, fertilization, lighting } = draft.protocols;
+    for (const section of [watering, fertilization, lighting]) {
+      for (const stage of Object.keys(section ?? {}) as GrowthStage[]) {
+        if (!stages.includes(stage)) stages.push(stage);
+      }
+    }
+    return stages;
+  }
+
+  static validateScheduleItem(item: FertilizationScheduleItem): ProtocolIssue[] {
+    const result = fertilizationScheduleItemSchema.safeParse(prune(item) ?? {});
+    return result.success
+      ? []
+      : result.error.issues.map((issue) => ({
+          path: formatPath(issue.path),
+          message: issue.message,
+        }));
+  }
+
+  static validate(draft: VarietyDraft): VarietyValidationResult {
+    const pruned = {
+      ...draft,
+      protocols: withUnits((prune(draft.protocols) as VarietyProtocols | undefined) ?? {}),
+    };
+    const result = varietyDraftSchema.safeParse(pruned);
+    if (!result.success) {
+      return {
+        success: false,
+        issues: result.error.issues.map((issue) => ({
+          path: formatPath(issue.path),
+          message: issue.message,
+        })),
+      };
+    }
+
+    // Saved as entered: the schema only checks, so fields it doesn't list (like
+    // stage notes on a cloned variety) are kept
+    const { protocols, ...variety } = pruned;
+    return {
+      success: true,
+      variety: {
+        ...(prune(variety) as Omit<VarietyInput, "protocols" | "isCustom">),
+        ...(Object.keys(protocols).length > 0 && { protocols }),
+        isCustom: true,
+      },
+    };
+  }
+
+  /**
+   * The fertilization tasks ProtocolTranspilerService would schedule for a
+   * plant of this variety planted now, in order
+   */
+  static async previewTasks(variety: VarietyInput): Promise<ProtocolTaskPreview[]> {
+    // The transpiler compares against the clock, so the preview plant is planted
+    // just ahead of now to keep tasks due on planting day
+    const now = new Date();
+    const plantedDate = addMinutes(now, 1);
+    const plant: PlantRecord = {
+      id: "preview",
+      varietyId: "preview",
+      varietyName: variety.name,
+      plantedDate,
+      location: "Indoor",
+      container: "",
+      isActive: true,
+      createdAt: now,
+    };
+    const record: VarietyRecord = {
+      ...variety,
+      id: "preview",
+      normalizedName: variety.name.toLowerCase(),
+      createdAt: now,
+    };
+
+    const tasks = await ProtocolTranspilerService.transpileProtocolFromStage(
+      plant,
+      record,
+      "germination",
+      plantedDate
+    );
+
+    return tasks
+      .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime())
+      .map((task) => ({
+        day: differenceInDays(task.dueDate, plantedDate),
+        stage: task.sourceProtocol.stage,
+        task,
+      }));
+  }
+}
@@ -34,6 +34,8 @@ jest.mock("firebase/firestore", () => ({
   addDoc: jest.fn(() => Promise.resolve({ id: "mock-doc-id" })),
   updateDoc: jest.fn(() => Promise.resolve()),
   deleteDoc: jest.fn(() => Promise.resolve()),
+  setDoc: jest.fn(() => Promise.resolve()),
+  getDoc: jest.fn(() => Promise.resolve({ exists: () => false, data: () => undefined })),
   getDocs: jest.fn(() => Promise.resolve({ docs: [] })),
   onSnapshot: jest.fn((_, callback) => {
     // Mock onSnapshot to immediately call callback with empty data
@@ -51,6 +53,9 @@ jest.mock("firebase/firestore", () => ({
     delete: jest.fn(),
     commit: jest.fn(() => Promise.resolve()),
   })),
+  arrayUnion: jest.fn((...values) => ({ arrayUnion: values })),
+  arrayRemove: jest.fn((...values) => ({ arrayRemove: values })),
+  deleteField: jest.fn(() => ({ deleteField: true })),
   Timestamp: {
     now: jest.fn(() => ({ toDate: () => new Date() })),
     fromDate: jest.fn((date) => ({ toDate: () => date })),
@@ -64,23 +69,39 @@ jest.mock("firebase/storage", () => ({
   getDownloadURL: jest.fn(() => Promise.resolve("mock-url")),
 }));
 
-// Keep only non-Firebase mocks
-Object.defineProperty(window, "matchMedia", {
-  writable: true,
-  value: jest.fn().mockImplementation((query) => ({
-    matches: false,
-    media: query,
-    onchange: null,
-    addListener: jest.fn(),
-    removeListener: jest.fn(),
-    addEventListener: jest.fn(),
-    removeEventListener: jest.fn(),
-    dispatchEvent: jest.fn(),
-  })),
-});
+// Keep only non-Firebase mocks (suites run in node, like the rules tests, have no window)
+if (typeof window !== "undefined") {
+  Object.defineProperty(window, "matchMedia", {
+    writable: true,
+    value: jest.fn().mockImplementation((query) => ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addListener: jest.fn(),
+      removeListener: jest.fn(),
+      addEventListener: jest.fn(),
+      removeEventListener: jest.fn(),
+      dispatchEvent: jest.fn(),
+    })),
+  });
+}
+
+// Keeps Dates as Dates, like the real structuredClone, so IndexedDB records round-trip
+const cloneValue = (value: unknown): unknown => {
+  if (value instanceof Date) return new Date(value.getTime());
+  if (Array.isArray(value)) return value.map(cloneValue);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, entry]) => entry !== undefined)
+        .map(([key, entry]) => [key, cloneValue(entry)])
+    );
+  }
+  return value;
+};
 
 if (!global.structuredClone) {
-  global.structuredClone = <T>(obj: T): T => JSON.parse(JSON.stringify(obj));
+  global.structuredClone = <T>(obj: T): T => cloneValue(obj) as T;
 }
 
 jestPreviewConfigure({
@@ -63,7 +63,8 @@ export type CareActivityType =
   | "lighting"
   | "pruning"
   | "thin"
-  | "moisture";
+  | "moisture"
+  | "issue";
 
 // Application Methods - Consolidated from core.ts and scheduling.ts
 export type ApplicationMethod =
@@ -95,6 +96,56 @@ export type HealthAssessment =
   | "concerning"
   | "critical";
 
+export type IssueCategory = "pest" | "disease" | "disorder";
+
+export type IssueSeverity = "low" | "moderate" | "severe";
+
+export type IssueSpread = "isolated" | "spreading" | "widespread";
+
+export type IssueStatus = "open" | "resolved";
+
+export type AffectedPlantPart =
+  | "leaves"
+  | "stems"
+  | "roots"
+  | "flowers"
+  | "fruit"
+  | "whole-plant";
+
+export type IssueTreatmentMethod =
+  | ApplicationMethod
+  | "hand-removal"
+  | "prune-affected"
+  | "isolate";
+
+export interface IssueTreatment {
+  product: string;
+  method: IssueTreatmentMethod;
+  dilution?: string;
+}
+
+// One report on a pest/disease issue. Every report on the same problem shares
+// an issueId; the latest one carries the issue's current state.
+export interface IssueDetails {
+  issueId: string;
+  catalogId: string;
+  name: string;
+  category: IssueCategory;
+  affectedParts: AffectedPlantPart[];
+  severity: IssueSeverity;
+  spread: IssueSpread;
+  status: IssueStatus;
+  treatment?: IssueTreatment;
+}
+
+export type HarvestPortion =
+  | "whole-plant"
+  | "outer-leaves"
+  | "cut-and-come-again"
+  | "fruit"
+  | "roots"
+  | "flowers";
+
 export type ThinningReason =
   | "overcrowding"
   | "weak-seedlings"
@@ -194,6 +245,10 @@ export interface GrowthTimeline {
   vegetative: number;
   maturation: number;
   rootDevelopment?: number;
+  budding?: number;
+  flowering?: number;
+  fruiting?: number;
+  dormancy?: number;
 }
 
 export interface FertilizerDetails {
@@ -400,6 +455,10 @@ export interface PlantRecord extends BaseRecord {
   lastThinningDate?: Date;
   section?: string;
   structuredSection?: PlantSection;
+  // Seed packet the plant was started from, and how many seeds went in per plant
+  seedPacketId?: string;
+  seedsSown?: number;
+  gardenId?: string; // Shared garden the plant belongs to; a user's own garden has their uid
 }
 
 export interface VarietyRecord extends BaseRecord {
@@ -412,10 +471,43 @@ export interface VarietyRecord extends BaseRecord {
   isEverbearing?: boolean;
   productiveLifespan?: number;
   isCustom?: boolean;
+  // Stage identification cues for imported varieties; built-ins use src/data/visualCues.ts
+  visualCues?: Partial<Record<GrowthStage, string[]>>;
 }
 
 export interface BedRecord extends BaseRecord, BedReference {
   isActive: boolean;
+  gardenId?: string;
+}
+
+export type InventoryCategory = "fertilizer" | "amendment";
+export type InventoryForm = "liquid" | "dry";
+
+export interface InventoryItem extends BaseRecord {
+  name: string;
+  category: InventoryCategory;
+  form: InventoryForm;
+  npk?: string; // guaranteed analysis, e.g. "2-3-1"
+  // Quantities are in `unit`: a VolumeUnit for liquids, a WeightUnit for dry products
+  containerSize: number;
+  remaining: number;
+  unit: VolumeUnit | WeightUnit;
+  // Lets spoon measures of a dry product be taken off its weight
+  gramsPerTablespoon?: number;
+}
+
+export interface SeedPacket extends BaseRecord {
+  varietyId: string;
+  varietyName: string;
+  category: PlantCategory;
+  lot?: string;
+  supplier?: string;
+  purchaseYear: number;
+  seedCount: number;
+  labelGerminationRate?: number; // 0-1, as printed on the packet
+  // Running totals from thinning, used in place of the label rate once known
+  seedsSown?: number;
+  seedsGerminated?: number;
 }
 
 export interface CareActivityDetails {
@@ -454,9 +546,15 @@ export interface CareActivityDetails {
   observations?: string;
   photos?: string[];
 
+  // Pest/disease issue details
+  issue?: IssueDetails;
+
   // Harvest details
   quality?: QualityRating;
   harvestMethod?: string;
+  harvestWeight?: Weight;
+  harvestCount?: number; // Number of pieces (fruits, roots, heads, stems)
+  harvestPortion?: HarvestPortion;
 
   // Transplant details
   fromContainer?: string;
@@ -500,6 +598,15 @@ export interface CareActivityRecord extends BaseRecord {
   notes?: string;
   stage?: GrowthStage;
   plantAge?: number;
+
+  gardenId?: string;
+  loggedBy?: CareActivityAttribution; // Who logged it, for gardens shared by a household
+}
+
+export interface CareActivityAttribution {
+  userId: string;
+  displayName?: string;
+  sitterShareId?: string; // Set when logged through a garden sitter link
 }
 
 export interface TaskBypassRecord extends BaseRecord {
@@ -550,6 +657,7 @@ export interface QuickCompleteOption {
 export interface UpcomingTask {
   id: string;
   plantId: string;
+  plantIds?: string[]; // Every plant covered by a grouped task
   plantName: string;
   task: string;
   type: string;
@@ -560,6 +668,9 @@ export interface UpcomingTask {
   plantStage: GrowthStage;
   canBypass?: boolean;
   quickCompleteOptions?: QuickCompleteOption[];
+  // Scheduled tasks behind this entry, which can be snoozed or rescheduled
+  scheduledTaskIds?: string[];
+  originalDueDate?: Date; // Set when a scheduled task was moved off its schedule
 }
 
 export interface TaskGroup {
@@ -570,6 +681,19 @@ export interface TaskGroup {
   isExpanded: boolean;
 }
 
+// A Firestore write made while offline, kept in IndexedDB until it can be replayed
+export interface OutboxEntry {
+  id: number; // Auto-incremented, so entries replay in the order they were made
+  collection: string; // Firestore collection, e.g. "plants"
+  docId: string;
+  operation: "create" | "update" | "delete";
+  data?: Record<string, unknown>;
+  queuedAt: Date; // When the change was made, compared with the server's updatedAt
+  status: "pending" | "failed";
+  attempts: number;
+  lastError?: string;
+}
+
 // ============================================================================
 // FIREBASE TYPES
 // ============================================================================
@@ -577,6 +701,7 @@ export interface TaskGroup {
 export interface FirebasePlantRecord {
   id?: string;
   userId: string;
+  gardenId?: string;
   varietyId: string;
   varietyName: string;
   name?: string;
@@ -589,6 +714,8 @@ export interface FirebasePlantRecord {
   quantity?: number;
   setupType?: "multiple-containers" | "same-container";
   reminderPreferences?: ReminderPreferences;
+  seedPacketId?: string;
+  seedsSown?: number;
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
@@ -596,6 +723,8 @@ export interface FirebasePlantRecord {
 export interface FirebaseCareRecord {
   id?: string;
   userId: string;
+  gardenId?: string;
+  loggedBy?: CareActivityAttribution;
   plantId: string;
   type: CareActivityType;
   date: Timestamp;
@@ -651,20 +780,135 @@ export interface FirebaseScheduledTask {
 // USER TYPES
 // ============================================================================
 
+// Owners manage members; editors log care and change plants; viewers only look
+export type GardenRole = "owner" | "editor" | "viewer";
+
+export interface GardenMember {
+  userId: string;
+  email: string;
+  displayName?: string;
+  role: GardenRole;
+  joinedAt: Date;
+}
+
+/**
+ * A garden shared by a household. Every user has a personal garden whose ID
+ * is their uid; plants, beds, care activities and tasks belong to one garden.
+ */
+export interface Garden {
+  id: string;
+  name: string;
+  ownerId: string;
+  members: Record<string, GardenMember>; // Keyed by uid
+  memberIds: string[]; // Same uids as members, so gardens can be queried by member
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface GardenInvite {
+  id: string; // `${gardenId}_${email}`, so security rules can look it up
+  gardenId: string;
+  gardenName: string;
+  email: string; // Lowercased
+  role: Exclude<GardenRole, "owner">;
+  invitedBy: CareActivityAttribution;
+  status: "pending" | "accepted" | "declined";
+  createdAt: Date;
+}
+
+// The plant fields a sitter's device needs for quick completion options
+export type SitterPlant = Pick<
+  PlantRecord,
+  "id" | "varietyId" | "varietyName" | "name" | "plantedDate" | "location" | "container" | "isActive" | "createdAt"
+>;
+
+// A care task due while the owners are away, as shown on the sitter link
+export interface SitterTask {
+  id: string; // The UpcomingTask id it was taken from
+  plantIds: string[];
+  plantName: string;
+  task: string;
+  activityType: CareActivityType;
+  dueDate: Date;
+  plant: SitterPlant; // The first plant, for quick completion options
+}
+
+// A time-boxed link that lets someone outside the garden log care for it
+export interface SitterShare {
+  id: string; // Random token in the link; shares are never listed publicly
+  gardenId: string;
+  sitterName: string;
+  createdBy: CareActivityAttribution;
+  startsAt: Date;
+  expiresAt: Date;
+  tasks: SitterTask[];
+  revokedAt?: Date;
+  summarySeenAt?: Date; // When an owner dismissed the summary of the sitter's visit
+  createdAt: Date;
+}
+
+export type SitterShareStatus = "scheduled" | "active" | "expired" | "revoked";
+
+// A task the sitter marked done, copied into the garden's care log
+export interface SitterCompletion {
+  id: string;
+  taskId: string;
+  plantIds: string[];
+  activityType: CareActivityType;
+  completedAt: Date;
+  amount?: { value: number; unit: VolumeUnit };
+  notes?: string;
+  imported: boolean;
+}
+
+export type SensorMetric = "temperature" | "humidity" | "soilMoisture" | "lightLevel";
+
+// A reading from an environmental sensor, for a whole bed or a single plant
+export interface SensorReading extends BaseRecord {
+  gardenId: string;
+  sensorId?: string;
+  bedId?: string;
+  plantId?: string;
+  metric: SensorMetric;
+  value: number; // Percent for humidity, 1-10 for soil moisture, lux for light
+  unit?: TemperatureUnit; // Temperature readings only
+  recordedAt: Date;
+}
+
+export type SensorAlertSeverity = "warning" | "critical";
+
+export interface SensorAlert {
+  reading: SensorReading;
+  plant: PlantRecord;
+  severity: SensorAlertSeverity;
+  message: string;
+}
+
+export interface QuietHours {
+  start: string; // "HH:mm", local time
+  end: string;
+}
+
+export interface NotificationSettings {
+  careReminders: boolean;
+  harvestAlerts: boolean;
+  dailyDigestTime?: string; // "HH:mm", local time
+  quietHours?: QuietHours | null;
+  snoozeMinutes?: number;
+}
+
 export interface UserSettings {
   id: string;
   units: {
     temperature: "fahrenheit" | "celsius";
     volume: "ounces" | "liters";
   };
-  notifications: {
-    careReminders: boolean;
-    harvestAlerts: boolean;
-  };
+  notifications: NotificationSettings;
   location: {
     timezone: string;
     zipCode?: string;
   };
+  activeGardenId?: string; // Garden the app shows; the user's own garden when unset
 }
 
 export interface UserProfile {
@@ -787,9 +1031,11 @@ export const fromFirebaseTimestamp = (timestamp: Timestamp): Date => {
 
 export const convertPlantToFirebase = (
   plant: PlantRecord,
-  userId: string
+  userId: string,
+  gardenId: string = userId
 ): Omit<FirebasePlantRecord, "id"> => ({
   userId,
+  gardenId,
   varietyId: plant.varietyId,
   varietyName: plant.varietyName,
   name: plant.name || plant.varietyName,
@@ -802,6 +1048,8 @@ export const convertPlantToFirebase = (
   quantity: plant.quantity,
   setupType: plant.setupType,
   reminderPreferences: plant.reminderPreferences,
+  ...(plant.seedPacketId && { seedPacketId: plant.seedPacketId }),
+  ...(plant.seedsSown && { seedsSown: plant.seedsSown }),
   createdAt: Timestamp.now(),
   updatedAt: Timestamp.now(),
 });
@@ -822,15 +1070,21 @@ export const convertPlantFromFirebase = (
   quantity: firebasePlant.quantity,
   setupType: firebasePlant.setupType,
   reminderPreferences: firebasePlant.reminderPreferences,
+  ...(firebasePlant.seedPacketId && { seedPacketId: firebasePlant.seedPacketId }),
+  ...(firebasePlant.seedsSown && { seedsSown: firebasePlant.seedsSown }),
+  ...(firebasePlant.gardenId && { gardenId: firebasePlant.gardenId }),
   createdAt: fromFirebaseTimestamp(firebasePlant.createdAt),
   updatedAt: fromFirebaseTimestamp(firebasePlant.updatedAt),
 });
 
 export const convertCareActivityToFirebase = (
   activity: CareActivityRecord,
-  userId: string
+  userId: string,
+  gardenId: string = userId
 ): Omit<FirebaseCareRecord, "id"> => ({
   userId,
+  gardenId,
+  loggedBy: activity.loggedBy ?? { userId },
   plantId: activity.plantId,
   type: activity.type,
   date: toFirebaseTimestamp(activity.date),
@@ -847,6 +1101,9 @@ export const convertCareActivityFromFirebase = (
   type: firebaseActivity.type,
   date: fromFirebaseTimestamp(firebaseActivity.date),
   details: firebaseActivity.details as CareActivityDetails,
+  ...(firebaseActivity.gardenId && { gardenId: firebaseActivity.gardenId }),
+  // Activities logged before gardens were shared were always logged by their owner
+  loggedBy: firebaseActivity.loggedBy ?? { userId: firebaseActivity.userId },
   createdAt: fromFirebaseTimestamp(firebaseActivity.createdAt),
   updatedAt: fromFirebaseTimestamp(firebaseActivity.updatedAt),
 });
\ No newline at end of file
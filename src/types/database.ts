@@ -9,9 +9,11 @@ import {
   TaskBypassRecord,
   TaskCompletionRecord,
   ScheduledTask,
+  OutboxEntry,
 } from "./consolidated";
 import { generateUUID } from "@/utils/cn";
 import { Logger } from "@/utils/logger";
+import { MeasurementService } from "@/services/measurementService";
 
 // Database class
 class SmartGardenDatabase extends Dexie {
@@ -22,10 +24,62 @@ class SmartGardenDatabase extends Dexie {
   taskBypasses!: Table<TaskBypassRecord>;
   taskCompletions!: Table<TaskCompletionRecord>;
   scheduledTasks!: Table<ScheduledTask>;
+  outbox!: Table<OutboxEntry, number, Omit<OutboxEntry, "id">>;
 
   constructor() {
     super("SmartGardenDatabase");
 
+    // Queue for Firestore writes made while offline
+    this.version(10).stores({
+      plants: "++id, varietyId, isActive, plantedDate, growthRateModifier",
+      varieties: "++id, &normalizedName, name, category",
+      beds: "++id, name, type, isActive",
+      careActivities: "++id, plantId, type, date",
+      taskBypasses: "++id, taskId, plantId, taskType, bypassDate",
+      scheduledTasks:
+        "++id, plantId, [plantId+status], [dueDate+status], taskType",
+      taskCompletions:
+        "++id, plantId, taskType, [scheduledDate+actualCompletionDate], scheduledDate, actualCompletionDate",
+      outbox: "++id, status",
+    });
+
+    // Rewrites unit strings that don't match the unit types, e.g. "liters"
+    this.version(9)
+      .stores({
+        plants: "++id, varietyId, isActive, plantedDate, growthRateModifier",
+        varieties: "++id, &normalizedName, name, category",
+        beds: "++id, name, type, isActive",
+        careActivities: "++id, plantId, type, date",
+        taskBypasses: "++id, taskId, plantId, taskType, bypassDate",
+        scheduledTasks:
+          "++id, plantId, [plantId+status], [dueDate+status], taskType",
+        taskCompletions:
+          "++id, plantId, taskType, [scheduledDate+actualCompletionDate], scheduledDate, actualCompletionDate",
+      })
+      .upgrade(async (tx) => {
+        await tx
+          .table<CareActivityRecord>("careActivities")
+          .toCollection()
+          .modify((activity) => {
+            const details = MeasurementService.migrateCareActivityDetails(activity.details);
+            if (details) activity.details = details;
+          });
+        await tx
+          .table<BedRecord>("beds")
+          .toCollection()
+          .modify((bed) => {
+            const migrated = MeasurementService.migrateBedRecord(bed);
+            if (migrated) bed.dimensions = migrated.dimensions;
+          });
+        await tx
+          .table<PlantRecord>("plants")
+          .toCollection()
+          .modify((plant) => {
+            const migrated = MeasurementService.migratePlantRecord(plant);
+            if (migrated) plant.structuredSection = migrated.structuredSection;
+          });
+      });
+
     this.version(8).stores({
       plants: "++id, varietyId, isActive, plantedDate, growthRateModifier",
       varieties: "++id, &normalizedName, name, category",
@@ -121,6 +175,10 @@ export const plantService = {
     const updateData = { isActive: false, updatedAt: new Date() };
     await db.plants.update(id, updateData);
   },
+
+  async putPlants(plants: PlantRecord[]): Promise<void> {
+    await db.plants.bulkPut(plants);
+  },
 };
 
 export const varietyService = {
@@ -194,6 +252,10 @@ export const varietyService = {
     const normalizedName = name.toLowerCase();
     return db.varieties.where("normalizedName").equals(normalizedName).first();
   },
+
+  async putVarieties(varieties: VarietyRecord[]): Promise<void> {
+    await db.varieties.bulkPut(varieties);
+  },
 };
 
 export const careService = {
@@ -243,6 +305,10 @@ export const careService = {
   async getRecentActivities(limit: number = 10): Promise<CareActivityRecord[]> {
     return db.careActivities.orderBy("date").reverse().limit(limit).toArray();
   },
+
+  async putActivities(activities: CareActivityRecord[]): Promise<void> {
+    await db.careActivities.bulkPut(activities);
+  },
 };
 
 export const bedService = {
@@ -291,6 +357,10 @@ export const bedService = {
     const updateData = { isActive: false, updatedAt: new Date() };
     await db.beds.update(id, updateData);
   },
+
+  async putBeds(beds: BedRecord[]): Promise<void> {
+    await db.beds.bulkPut(beds);
+  },
 };
 
 // Re-export types for backward compatibility
@@ -8,9 +8,6 @@
 import { PlantRecord } from '@/types/database';
 import { Logger } from '@/utils/logger';
 
-// Current schema version
-const CURRENT_SCHEMA_VERSION = '2024-08-07';
-
 interface MigrationResult {
   success: boolean;
   errors: string[];
@@ -171,29 +168,6 @@ export async function generatePlantDataReport(plants: any[]): Promise<{
   return { summary, details };
 }
 
-/**
- * Creates a backup of current plant data before migration
- */
-export function createDataBackup(plants: any[], careActivities: any[] = []): string {
-  const backup = {
-    version: CURRENT_SCHEMA_VERSION,
-    timestamp: new Date().toISOString(),
-    plants,
-    careActivities,
-    metadata: {
-      plantCount: plants.length,
-      careActivityCount: careActivities.length,
-    }
-  };
-
-  const backupData = JSON.stringify(backup, null, 2);
-  
-  // In a real implementation, you might want to save this to a file or send to a backup service
-  Logger.info(`Data backup created with ${plants.length} plants and ${careActivities.length} care activities`);
-  
-  return backupData;
-}
-
 /**
  * Batch migrates plant records with progress tracking
  */
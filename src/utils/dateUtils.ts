@@ -1,8 +1,20 @@
 // src/utils/dateUtils.ts
 import { differenceInDays } from "date-fns";
 
+// IANA time zone from the user's settings; undefined means the device's zone
+let appTimeZone: string | undefined;
+
+export function setAppTimeZone(timeZone: string | undefined): void {
+  appTimeZone = timeZone;
+}
+
+export function getAppTimeZone(): string | undefined {
+  return appTimeZone;
+}
+
 export function formatDate(date: Date): string {
   return new Intl.DateTimeFormat("en-US", {
+    timeZone: appTimeZone,
     month: "short",
     day: "numeric",
     year: "numeric",
@@ -17,6 +29,7 @@ export function getDaysSincePlanting(plantedDate: Date): number {
 
 export function formatDateTime(date: Date): string {
   return new Intl.DateTimeFormat("en-US", {
+    timeZone: appTimeZone,
     month: "short",
     day: "numeric",
     hour: "numeric",
@@ -26,6 +39,7 @@ export function formatDateTime(date: Date): string {
 
 export function formatTime(date: Date): string {
   return new Intl.DateTimeFormat("en-US", {
+    timeZone: appTimeZone,
     hour: "numeric",
     minute: "2-digit",
   }).format(date);
@@ -0,0 +1,20 @@
+// src/utils/download.ts
+
+/**
+ * Saves text content as a file through a temporary download link.
+ */
+export function downloadTextFile(
+  content: string,
+  fileName: string,
+  mimeType: string
+): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
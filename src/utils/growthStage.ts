@@ -1,10 +1,9 @@
 // src/utils/growthStage.ts - Complete updated file
 import { GrowthStage } from "../types";
 import { addDays, differenceInDays } from "date-fns";
-import { VarietyRecord } from "@/types/database";
 import { seedVarieties } from "@/data/seedVarieties";
-import { GrowthTimeline } from "@/types";
 import { Logger } from "./logger";
+import { StageEngine, StageSource } from "./stageEngine";
 
 export interface GrowthStageInfo {
   stage: GrowthStage;
@@ -38,38 +37,20 @@ export function calculateStageFromSeedVarieties(
 
   if (daysSincePlanted < 0) return "germination";
 
-  let cumulativeDays = 0;
-
-  // Use Object.entries to get both stage and duration at once
-  for (const [stage, duration] of Object.entries(variety.growthTimeline)) {
-    if (daysSincePlanted < cumulativeDays + duration) {
-      return stage as GrowthStage;
-    }
-    cumulativeDays += duration;
-  }
-
-  // Past all defined stages
-  if (variety.isEverbearing) {
-    const effectiveLifespan = variety.productiveLifespan ?? 730;
-    if (daysSincePlanted < effectiveLifespan) {
-      return "ongoing-production";
-    }
-  }
-
-  return "harvest";
+  return StageEngine.getStageOnDay(variety, daysSincePlanted);
 }
 
 /**
  * Calculates the current growth stage of a plant based on its variety's timeline.
  * This is the primary function to use for stage calculation as it handles everbearing logic.
  * @param anchorDate - The date the plant was planted.
- * @param variety - The VarietyRecord for the plant, containing growth timeline and everbearing info.
+ * @param variety - The variety (record or seed variety), containing growth timeline and everbearing info.
  * @param currentDate - The current date to calculate from (defaults to now).
  * @returns The calculated GrowthStage.
  */
 export function calculateCurrentStageWithVariety(
   anchorDate: Date,
-  variety: VarietyRecord | undefined | null,
+  variety: (StageSource & { name: string }) | undefined | null,
   currentDate: Date = new Date(),
   startingStage: GrowthStage = "germination"
 ): GrowthStage {
@@ -81,51 +62,12 @@ export function calculateCurrentStageWithVariety(
   const daysSinceAnchor = differenceInDays(currentDate, anchorDate);
   if (daysSinceAnchor < 0) return startingStage;
 
-  const timeline = variety.growthTimeline;
-
-  // ✅ FIXED: Use Object.entries to avoid TypeScript indexing issues
-  const timelineEntries = Object.entries(timeline) as [
-    keyof GrowthTimeline,
-    number
-  ][];
-
+  const stage = StageEngine.getStageOnDay(variety, daysSinceAnchor);
   Logger.growthStage(
     variety.name,
-    `Available stages: ${timelineEntries.map(([stage]) => stage).join(", ")}`
+    `Plant is in "${stage}" stage (day ${daysSinceAnchor})`
   );
-
-  let cumulativeDays = 0;
-
-  // ✅ FIXED: Iterate through the timeline entries directly
-  for (const [stage, stageDuration] of timelineEntries) {
-    if (stageDuration === undefined) continue;
-
-    Logger.growthStage(
-      variety.name,
-      `Stage "${stage}": days ${cumulativeDays}-${
-        cumulativeDays + stageDuration
-      } (duration: ${stageDuration})`
-    );
-
-    if (daysSinceAnchor < cumulativeDays + stageDuration) {
-      Logger.growthStage(
-        variety.name,
-        `Plant is in "${stage}" stage (day ${daysSinceAnchor})`
-      );
-      return stage as GrowthStage;
-    }
-    cumulativeDays += stageDuration;
-  }
-
-  // If we've gone past all defined stages
-  if (variety.isEverbearing) {
-    const effectiveLifespan = variety.productiveLifespan ?? 730;
-    if (daysSinceAnchor < effectiveLifespan) {
-      return "ongoing-production";
-    }
-  }
-
-  return "harvest";
+  return stage;
 }
 
 /**
@@ -160,20 +102,18 @@ export function calculateCurrentStage(
 /**
  * Determines the next logical growth stage.
  * @param currentStage The current stage of the plant.
+ * @param variety The plant's variety; without a timeline, StageEngine's stage order is used.
  * @returns The next GrowthStage, or null if it's the final stage.
  */
-export function getNextStage(currentStage: GrowthStage): GrowthStage | null {
-  const stages: GrowthStage[] = [
-    "germination",
-    "seedling",
-    "vegetative",
-    "budding",
-    "flowering",
-    "maturation",
-    "ongoing-production",
-    "harvest",
-    "dormancy",
-  ];
+export function getNextStage(
+  currentStage: GrowthStage,
+  variety?: StageSource | null
+): GrowthStage | null {
+  if (variety?.growthTimeline) {
+    return StageEngine.getNextStage(variety, currentStage);
+  }
+
+  const stages = StageEngine.getStageOrder(variety?.category);
   const currentIndex = stages.indexOf(currentStage);
 
   if (currentIndex === -1 || currentIndex >= stages.length - 1) {
@@ -225,30 +165,13 @@ export function getStageProgress(
 
 export function estimateStageTransition(
   plantedDate: Date,
-  timeline: VarietyTimeline,
+  variety: StageSource,
   targetStage: GrowthStage
 ): Date {
-  let daysToTarget = 0;
-
-  switch (targetStage) {
-    case "seedling":
-      daysToTarget = timeline.germination;
-      break;
-    case "vegetative":
-      daysToTarget = timeline.germination + timeline.seedling;
-      break;
-    case "flowering":
-      daysToTarget =
-        timeline.germination + timeline.seedling + timeline.vegetative;
-      break;
-    case "maturation":
-    case "ongoing-production":
-    case "harvest":
-      daysToTarget = timeline.maturation;
-      break;
-  }
-
-  return addDays(plantedDate, daysToTarget);
+  return addDays(
+    plantedDate,
+    StageEngine.getStageStartDay(variety, targetStage)
+  );
 }
 
 export function formatStageProgress(progress: number): string {
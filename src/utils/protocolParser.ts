@@ -0,0 +1,373 @@
+// src/utils/protocolParser.ts
+import { VolumeUnit, WeightUnit } from "@/types";
+import { seedVarieties } from "@/data/seedVarieties";
+import { MeasurementService } from "@/services/measurementService";
+
+/** A value as written in a protocol; single values have min === max */
+export interface NumericRange {
+  min: number;
+  max: number;
+}
+
+export interface VolumeRange extends NumericRange {
+  unit: VolumeUnit;
+}
+
+/** How often a task repeats, both as times per week and as days apart */
+export interface FrequencyRange {
+  timesPerWeek: NumericRange;
+  intervalDays: NumericRange;
+}
+
+// Kitchen measures protocols use that aren't a VolumeUnit
+type KitchenUnit = "tsp" | "tbsp" | "qt";
+
+export type DilutionUnit = VolumeUnit | KitchenUnit | "part";
+
+/** A product amount; "oz" is fluid for liquids and weight for dry products */
+export type AmountUnit = VolumeUnit | KitchenUnit | WeightUnit;
+
+export interface AmountRange extends NumericRange {
+  unit: AmountUnit;
+}
+
+export interface DilutionRate {
+  product: NumericRange & { unit: DilutionUnit };
+  water: { amount: number; unit: DilutionUnit };
+}
+
+/**
+ * A fertilizer dilution. Strength is a fraction of the label rate ("½
+ * strength" is 0.5); a rate is product per water ("1-2 Tbsp/gal").
+ * Protocols may give either or both.
+ */
+export interface Dilution {
+  strength?: number;
+  rate?: DilutionRate;
+}
+
+export type ProtocolStringField = "volume" | "frequency" | "moisture" | "dilution";
+
+export interface UnparseableProtocolEntry {
+  variety: string;
+  path: string;
+  field: ProtocolStringField;
+  value: string;
+}
+
+type WateringStageText = {
+  trigger?: { moistureLevel?: string | number };
+  target?: { moistureLevel?: string | number };
+  volume?: { amount?: string | number; frequency?: string };
+};
+
+/** Anything with protocols worth auditing: seed varieties or variety records */
+export interface ProtocolSource {
+  name: string;
+  protocols?: {
+    watering?: { [stage: string]: WateringStageText | undefined };
+    fertilization?: {
+      [stage: string]: { schedule?: { details: { dilution?: string } }[] } | undefined;
+    };
+  };
+}
+
+// Soil moisture meters read 1 (dry) to 10 (wet)
+const MOISTURE_SCALE: NumericRange = { min: 1, max: 10 };
+
+const NUMBER = "(\\d+(?:\\.\\d+)?)";
+const RANGE = `${NUMBER}(?:\\s*(?:-|to)\\s*${NUMBER})?`;
+const VOLUME_UNITS =
+  "fl\\.?\\s*oz|ounces?|oz|milliliters?|millilitres?|ml|liters?|litres?|l|gallons?|gal|quarts?|qt|cups?";
+const SPOON_UNITS = "tablespoons?|tbsp|teaspoons?|tsp";
+const WEIGHT_UNITS = "pounds?|lbs?|kilograms?|kg|grams?|g";
+
+const VOLUME_REGEX = new RegExp(`${RANGE}\\s*(${VOLUME_UNITS})\\b`, "i");
+const AMOUNT_REGEX = new RegExp(
+  `${RANGE}\\s*(${SPOON_UNITS}|${VOLUME_UNITS}|${WEIGHT_UNITS})\\b`,
+  "i"
+);
+const TIMES_PER_WEEK_REGEX = new RegExp(`${RANGE}\\s*x\\s*(?:/|per|a)\\s*week`);
+const EVERY_N_DAYS_REGEX = new RegExp(`every\\s+${RANGE}\\s*days?`);
+const DILUTION_RATE_REGEX = new RegExp(
+  `${RANGE}\\s*(${SPOON_UNITS}|${VOLUME_UNITS})\\s*(?:/|per|in)\\s*${NUMBER}?\\s*(${VOLUME_UNITS})\\b`,
+  "i"
+);
+const DILUTION_RATIO_REGEX = new RegExp(`${NUMBER}\\s*parts?\\b[^:]*:\\s*${NUMBER}\\s*parts?`);
+const STRENGTH_REGEX = new RegExp(`(full|half|quarter|${NUMBER})\\s*strength`);
+
+const FRACTIONS: Record<string, number> = { "¼": 0.25, "½": 0.5, "¾": 0.75 };
+const STRENGTH_WORDS: Record<string, number> = { full: 1, half: 0.5, quarter: 0.25 };
+
+const KITCHEN_UNIT_ALIASES: Record<string, KitchenUnit> = {
+  tsp: "tsp",
+  teaspoon: "tsp",
+  teaspoons: "tsp",
+  tbsp: "tbsp",
+  tablespoon: "tbsp",
+  tablespoons: "tbsp",
+  qt: "qt",
+  quart: "qt",
+  quarts: "qt",
+};
+
+const CUPS_PER_KITCHEN_UNIT: Record<KitchenUnit, number> = {
+  tsp: 1 / 48,
+  tbsp: 1 / 16,
+  qt: 4,
+};
+
+// Writes "1½" as "1.5", en dashes as hyphens and collapses whitespace
+const normalizeText = (text: string) =>
+  text
+    .replace(/(\d)?([¼½¾])/g, (_, whole: string | undefined, fraction: string) =>
+      String(Number(whole ?? 0) + FRACTIONS[fraction])
+    )
+    .replace(/[–—]/g, "-")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const toRange = (low: string, high: string | undefined): NumericRange => {
+  const a = Number(low);
+  const b = high === undefined ? a : Number(high);
+  return { min: Math.min(a, b), max: Math.max(a, b) };
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Quarts aren't a VolumeUnit, so quart volumes are given in ounces
+const toVolumeRange = (range: NumericRange, unitText: string): VolumeRange | null => {
+  const unit = unitText.toLowerCase().replace(/\s+/g, " ");
+  if (KITCHEN_UNIT_ALIASES[unit] === "qt") {
+    const cups = CUPS_PER_KITCHEN_UNIT.qt;
+    return {
+      min: round(MeasurementService.convertVolume(range.min * cups, "cups", "oz")),
+      max: round(MeasurementService.convertVolume(range.max * cups, "cups", "oz")),
+      unit: "oz",
+    };
+  }
+  const volumeUnit = MeasurementService.normalizeVolumeUnit(unit);
+  return volumeUnit ? { ...range, unit: volumeUnit } : null;
+};
+
+const toDilutionUnit = (unitText: string): DilutionUnit | null => {
+  const unit = unitText.toLowerCase().replace(/\s+/g, " ");
+  return KITCHEN_UNIT_ALIASES[unit] ?? MeasurementService.normalizeVolumeUnit(unit);
+};
+
+const toAmountUnit = (unitText: string): AmountUnit | null => {
+  const unit = unitText.toLowerCase().replace(/\s+/g, " ");
+  return (
+    KITCHEN_UNIT_ALIASES[unit] ??
+    MeasurementService.normalizeVolumeUnit(unit) ??
+    MeasurementService.normalizeWeightUnit(unit)
+  );
+};
+
+const withinScale = (range: NumericRange) =>
+  range.min >= MOISTURE_SCALE.min && range.max <= MOISTURE_SCALE.max;
+
+/**
+ * Reads the free-text amounts, frequencies, moisture levels and dilutions
+ * in variety protocols. Each parser returns null for text it can't read
+ * ("As needed", "Keep surface moist") rather than guessing.
+ *
+ * Protocols that change partway through a stage ("every 2-3 days (weeks
+ * 1-3), every 3-4 days (weeks 3-6)") are read from their first value.
+ */
+export class ProtocolParser {
+  /** "16-24 oz (470-710 mL)" → 16-24 oz. Quarts are converted to ounces. */
+  static parseVolume(text: string | number | undefined): VolumeRange | null {
+    if (typeof text !== "string") return null;
+    const match = normalizeText(text).match(VOLUME_REGEX);
+    return match ? toVolumeRange(toRange(match[1], match[2]), match[3]) : null;
+  }
+
+  /**
+   * A product amount in any volume, spoon or weight unit, e.g. "2 Tbsp per
+   * plant" or "4 oz". Unlike parseVolume, quarts and spoons keep their unit.
+   */
+  static parseAmount(text: string | undefined): AmountRange | null {
+    if (!text) return null;
+    const match = normalizeText(text).match(AMOUNT_REGEX);
+    const unit = match && toAmountUnit(match[3]);
+    return match && unit ? { ...toRange(match[1], match[2]), unit } : null;
+  }
+
+  /** "2-3x/week", "every 2-3 days", "daily", "weekly" */
+  static parseFrequency(text: string | undefined): FrequencyRange | null {
+    if (!text) return null;
+    const firstClause = normalizeText(text).toLowerCase().split(/[,;(]|\bthen\b/)[0];
+
+    const timesPerWeek = firstClause.match(TIMES_PER_WEEK_REGEX);
+    if (timesPerWeek) {
+      return this.fromTimesPerWeek(toRange(timesPerWeek[1], timesPerWeek[2]));
+    }
+    const everyNDays = firstClause.match(EVERY_N_DAYS_REGEX);
+    if (everyNDays) {
+      return this.fromIntervalDays(toRange(everyNDays[1], everyNDays[2]));
+    }
+    if (/\bdaily\b|every\s+day\b/.test(firstClause)) {
+      return this.fromIntervalDays({ min: 1, max: 1 });
+    }
+    if (/every\s+other\s+day/.test(firstClause)) {
+      return this.fromIntervalDays({ min: 2, max: 2 });
+    }
+    if (/\btwice\s+(?:a|per)\s+week\b/.test(firstClause)) {
+      return this.fromTimesPerWeek({ min: 2, max: 2 });
+    }
+    if (/\bweekly\b|\bonce\s+(?:a|per)\s+week\b/.test(firstClause)) {
+      return this.fromTimesPerWeek({ min: 1, max: 1 });
+    }
+    return null;
+  }
+
+  /**
+   * Meter readings on the 1-10 scale: "3-4", "6/10", "<4", or a reading
+   * given alongside a description, as in "top 1 inch dry (~4-5)"
+   */
+  static parseMoistureLevel(value: string | number | undefined): NumericRange | null {
+    if (typeof value === "number") {
+      const range = { min: value, max: value };
+      return withinScale(range) ? range : null;
+    }
+    if (!value) return null;
+
+    const text = normalizeText(value);
+    const approximate = text.match(new RegExp(`~\\s*${RANGE}`));
+    if (approximate) {
+      const range = toRange(approximate[1], approximate[2]);
+      return withinScale(range) ? range : null;
+    }
+
+    const leading = text.match(new RegExp(`^([<>])?\\s*${RANGE}(?:\\s*/\\s*10)?(?![\\d.]|\\s*[a-z])`, "i"));
+    if (!leading) return null;
+    const range = toRange(leading[2], leading[3]);
+    const bounded =
+      leading[1] === "<"
+        ? { min: MOISTURE_SCALE.min, max: range.max }
+        : leading[1] === ">"
+          ? { min: range.min, max: MOISTURE_SCALE.max }
+          : range;
+    return withinScale(bounded) ? bounded : null;
+  }
+
+  /** "1-2 Tbsp/gal", "½ strength", "1 part castings:10 parts water" */
+  static parseDilution(text: string | undefined): Dilution | null {
+    if (!text) return null;
+    const normalized = normalizeText(text);
+    const dilution: Dilution = {};
+
+    const strength = normalized.toLowerCase().match(STRENGTH_REGEX);
+    if (strength) {
+      dilution.strength = STRENGTH_WORDS[strength[1]] ?? Number(strength[2]);
+    }
+
+    const rate = normalized.match(DILUTION_RATE_REGEX);
+    const productUnit = rate && toDilutionUnit(rate[3]);
+    const waterUnit = rate && toDilutionUnit(rate[5]);
+    if (rate && productUnit && waterUnit) {
+      dilution.rate = {
+        product: { ...toRange(rate[1], rate[2]), unit: productUnit },
+        water: { amount: Number(rate[4] ?? 1), unit: waterUnit },
+      };
+    }
+
+    const ratio = normalized.toLowerCase().match(DILUTION_RATIO_REGEX);
+    if (!dilution.rate && ratio) {
+      dilution.rate = {
+        product: { ...toRange(ratio[1], undefined), unit: "part" },
+        water: { amount: Number(ratio[2]), unit: "part" },
+      };
+    }
+
+    return dilution.strength !== undefined || dilution.rate ? dilution : null;
+  }
+
+  /**
+   * Days until the next occurrence, taking the frequent end of the range
+   * so a plant is never checked later than its protocol asks
+   */
+  static toIntervalDays(frequency: FrequencyRange): number {
+    return Math.max(1, Math.round(frequency.intervalDays.min));
+  }
+
+  /** Null for weights and parts, which have no fixed volume */
+  static toMilliliters(value: number, unit: AmountUnit | DilutionUnit): number | null {
+    if (unit in CUPS_PER_KITCHEN_UNIT) {
+      const cups = value * CUPS_PER_KITCHEN_UNIT[unit as KitchenUnit];
+      return MeasurementService.convertVolume(cups, "cups", "ml");
+    }
+    const volumeUnit = MeasurementService.normalizeVolumeUnit(unit);
+    return volumeUnit ? MeasurementService.convertVolume(value, volumeUnit, "ml") : null;
+  }
+
+  /** The middle of a range, e.g. for a single suggested amount */
+  static midpoint(range: NumericRange): number {
+    return round((range.min + range.max) / 2);
+  }
+
+  /**
+   * Protocol text none of the parsers can read, by variety and field
+   * path. Qualitative entries ("As needed") are listed too, since nothing
+   * can be scheduled or suggested from them.
+   */
+  static findUnparseableEntries(
+    sources: ProtocolSource[] = seedVarieties
+  ): UnparseableProtocolEntry[] {
+    const entries: UnparseableProtocolEntry[] = [];
+
+    for (const source of sources) {
+      const report = (
+        path: string,
+        field: ProtocolStringField,
+        value: string | number | undefined,
+        parsed: unknown
+      ) => {
+        if (value !== undefined && value !== "" && !parsed) {
+          entries.push({ variety: source.name, path, field, value: String(value) });
+        }
+      };
+
+      for (const [stage, protocol] of Object.entries(source.protocols?.watering ?? {})) {
+        if (!protocol) continue;
+        const path = `protocols.watering.${stage}`;
+        const { trigger, target, volume } = protocol;
+        report(`${path}.trigger.moistureLevel`, "moisture", trigger?.moistureLevel, this.parseMoistureLevel(trigger?.moistureLevel));
+        report(`${path}.target.moistureLevel`, "moisture", target?.moistureLevel, this.parseMoistureLevel(target?.moistureLevel));
+        report(`${path}.volume.amount`, "volume", volume?.amount, this.parseVolume(volume?.amount));
+        report(`${path}.volume.frequency`, "frequency", volume?.frequency, this.parseFrequency(volume?.frequency));
+      }
+
+      for (const [stage, protocol] of Object.entries(source.protocols?.fertilization ?? {})) {
+        protocol?.schedule?.forEach((item, i) => {
+          const dilution = item.details.dilution;
+          report(
+            `protocols.fertilization.${stage}.schedule[${i}].details.dilution`,
+            "dilution",
+            dilution,
+            this.parseDilution(dilution)
+          );
+        });
+      }
+    }
+
+    return entries;
+  }
+
+  private static fromTimesPerWeek(timesPerWeek: NumericRange): FrequencyRange | null {
+    if (timesPerWeek.min <= 0) return null;
+    return {
+      timesPerWeek,
+      intervalDays: { min: round(7 / timesPerWeek.max), max: round(7 / timesPerWeek.min) },
+    };
+  }
+
+  private static fromIntervalDays(intervalDays: NumericRange): FrequencyRange | null {
+    if (intervalDays.min <= 0) return null;
+    return {
+      timesPerWeek: { min: round(7 / intervalDays.max), max: round(7 / intervalDays.min) },
+      intervalDays,
+    };
+  }
+}
@@ -0,0 +1,261 @@
+// src/utils/stageEngine.ts
+import {
+  CATEGORY_STAGES,
+  GrowthStage,
+  GrowthTimeline,
+  PlantCategory,
+  isValidStageForCategory,
+} from "@/types";
+
+/**
+ * Anything with a growth timeline: seed varieties (whose timelines use the
+ * catalogue's own stage names) or variety records
+ */
+export interface StageSource {
+  category?: PlantCategory;
+  growthTimeline: GrowthTimeline | { [stageName: string]: number | undefined };
+  isEverbearing?: boolean;
+  productiveLifespan?: number;
+}
+
+/** One timeline entry placed on the plant's calendar, in days since planting */
+export interface StageSpan {
+  name: string;
+  stage: GrowthStage;
+  startDay: number;
+  endDay: number;
+}
+
+// Order used when a variety has no category
+const DEFAULT_STAGE_ORDER: readonly GrowthStage[] = [
+  "germination",
+  "seedling",
+  "vegetative",
+  "rootDevelopment",
+  "budding",
+  "flowering",
+  "fruiting",
+  "maturation",
+  "ongoing-production",
+  "harvest",
+  "dormancy",
+];
+
+// Stage names used by the seed catalogue, mapped to growth stages
+const STAGE_ALIASES: { [stageName: string]: GrowthStage } = {
+  germination: "germination",
+  germinationEmergence: "germination",
+  slipProduction: "germination",
+  seedling: "seedling",
+  establishment: "seedling",
+  caneEstablishment: "seedling",
+  vegetative: "vegetative",
+  vegetativeGrowth: "vegetative",
+  vegetativeVining: "vegetative",
+  rootDevelopment: "rootDevelopment",
+  tuberDevelopment: "rootDevelopment",
+  budding: "budding",
+  flowering: "flowering",
+  flowerBudFormation: "flowering",
+  floweringFruiting: "flowering",
+  fruiting: "fruiting",
+  fruitingHarvesting: "fruiting",
+  podSetMaturation: "fruiting",
+  maturation: "maturation",
+  ongoing: "ongoing-production",
+  ongoingProduction: "ongoing-production",
+  "ongoing-production": "ongoing-production",
+  harvest: "harvest",
+  dormancy: "dormancy",
+};
+
+// Names that mean a different stage in some categories
+const CATEGORY_STAGE_ALIASES: Partial<
+  Record<PlantCategory, { [stageName: string]: GrowthStage }>
+> = {
+  flowers: { flowerBudFormation: "budding" },
+};
+
+const DEFAULT_PRODUCTIVE_LIFESPAN = 730;
+
+/**
+ * Works out growth stages from a variety's timeline. Timeline entries are
+ * stage durations in days; they are placed in the variety category's stage
+ * order (CATEGORY_STAGES), so a stage listed out of order or a stage the
+ * category doesn't have can't shift the rest of the calendar. After the last
+ * entry an everbearing plant is in ongoing production until the end of its
+ * productive lifespan, and every other plant is ready for harvest.
+ */
+export class StageEngine {
+  /** The growth stage a timeline or protocol stage name refers to */
+  static resolveStageName(
+    stageName: string,
+    category?: PlantCategory
+  ): GrowthStage | undefined {
+    return (
+      (category && CATEGORY_STAGE_ALIASES[category]?.[stageName]) ||
+      STAGE_ALIASES[stageName]
+    );
+  }
+
+  static getStageOrder(category?: PlantCategory): readonly GrowthStage[] {
+    return category ? CATEGORY_STAGES[category] : DEFAULT_STAGE_ORDER;
+  }
+
+  /**
+   * Names the catalogue doesn't know are kept, so their days still count,
+   * and are treated as part of the stage before them
+   */
+  static getSpans(source: StageSource): StageSpan[] {
+    const order = this.getStageOrder(source.category);
+    const entries: { name: string; stage: GrowthStage; duration: number; rank: number }[] = [];
+    let previousStage: GrowthStage = order[0];
+
+    for (const [name, duration] of Object.entries(
+      source.growthTimeline as { [stageName: string]: number | undefined }
+    )) {
+      if (typeof duration !== "number" || !Number.isFinite(duration)) continue;
+
+      const resolved = this.resolveStageName(name, source.category);
+      if (
+        resolved &&
+        source.category &&
+        !isValidStageForCategory(resolved, source.category)
+      ) {
+        continue;
+      }
+
+      const stage = resolved ?? previousStage;
+      entries.push({
+        name,
+        stage,
+        duration: Math.max(0, duration),
+        rank: order.indexOf(stage),
+      });
+      previousStage = stage;
+    }
+
+    // Array.prototype.sort is stable, so entries of one stage keep their order
+    entries.sort((a, b) => a.rank - b.rank);
+
+    let day = 0;
+    return entries.map(({ name, stage, duration }) => {
+      const span = { name, stage, startDay: day, endDay: day + duration };
+      day += duration;
+      return span;
+    });
+  }
+
+  static getStageOnDay(source: StageSource, day: number): GrowthStage {
+    const spans = this.getSpans(source);
+    if (day < 0) return spans[0]?.stage ?? "germination";
+
+    const span = spans.find((s) => day < s.endDay);
+    if (span) return span.stage;
+
+    if (source.isEverbearing && day < this.getProductiveLifespan(source)) {
+      return "ongoing-production";
+    }
+    return "harvest";
+  }
+
+  /**
+   * The day a stage begins. The name may be a catalogue alias or a custom
+   * timeline entry; a stage the timeline skips begins where the next stage
+   * in the category order does.
+   */
+  static getStageStartDay(source: StageSource, stageName: string): number {
+    const spans = this.getSpans(source);
+    const timelineEnd = spans.length > 0 ? spans[spans.length - 1].endDay : 0;
+
+    const named = spans.find((s) => s.name === stageName);
+    if (named) return named.startDay;
+
+    const stage = this.resolveStageName(stageName, source.category);
+    if (!stage) return 0;
+
+    const span = spans.find((s) => s.stage === stage);
+    if (span) return span.startDay;
+
+    if (stage === "harvest" && source.isEverbearing) {
+      return Math.max(timelineEnd, this.getProductiveLifespan(source));
+    }
+    if (stage === "ongoing-production" || stage === "harvest") {
+      return timelineEnd;
+    }
+
+    const rank = this.getRank(stage, source.category);
+    const later = spans.find((s) => this.getRank(s.stage, source.category) > rank);
+    return later ? later.startDay : timelineEnd;
+  }
+
+  /**
+   * Where a stage falls in the variety's progression, for comparing stages.
+   * Returns undefined for names that aren't growth stages.
+   */
+  static getStagePosition(
+    source: StageSource,
+    stageName: string
+  ): number | undefined {
+    const progression = this.getProgression(source);
+    const stage = this.resolveStageName(stageName, source.category);
+    if (!stage) return undefined;
+
+    const index = progression.indexOf(stage);
+    if (index !== -1) return index;
+
+    // Not in this timeline: slot it in before the next stage in category order
+    const rank = this.getRank(stage, source.category);
+    const later = progression.findIndex(
+      (s) => !this.isTerminal(s) && this.getRank(s, source.category) > rank
+    );
+    const terminalStart = progression.findIndex((s) => this.isTerminal(s));
+    return (later !== -1 ? later : terminalStart) - 0.5;
+  }
+
+  /** The stage after the given one in this variety's progression, or null at the end */
+  static getNextStage(
+    source: StageSource,
+    currentStage: GrowthStage
+  ): GrowthStage | null {
+    const position = this.getStagePosition(source, currentStage);
+    if (position === undefined) return null;
+
+    const progression = this.getProgression(source);
+    return progression.find((_, index) => index > position) ?? null;
+  }
+
+  /**
+   * The stages a plant of this variety passes through, in order: stages with
+   * time on the timeline, then ongoing production (everbearing) and harvest
+   */
+  static getProgression(source: StageSource): GrowthStage[] {
+    const progression: GrowthStage[] = [];
+    for (const span of this.getSpans(source)) {
+      if (span.endDay > span.startDay && !progression.includes(span.stage)) {
+        progression.push(span.stage);
+      }
+    }
+
+    const terminal: GrowthStage[] = source.isEverbearing
+      ? ["ongoing-production", "harvest"]
+      : ["harvest"];
+    for (const stage of terminal) {
+      if (!progression.includes(stage)) progression.push(stage);
+    }
+    return progression;
+  }
+
+  private static getProductiveLifespan(source: StageSource): number {
+    return source.productiveLifespan ?? DEFAULT_PRODUCTIVE_LIFESPAN;
+  }
+
+  private static isTerminal(stage: GrowthStage): boolean {
+    return stage === "ongoing-production" || stage === "harvest";
+  }
+
+  private static getRank(stage: GrowthStage, category?: PlantCategory): number {
+    const rank = this.getStageOrder(category).indexOf(stage);
+    return rank === -1 ? DEFAULT_STAGE_ORDER.indexOf(stage) : rank;
+  }
+}
@@ -0,0 +1,45 @@
+// src/utils/varietyDraft.ts
+import { GrowthStage, VarietyProtocols } from "@/types";
+import { VarietyDraft } from "@/services/varietyProtocolService";
+
+type StageSection = "watering" | "fertilization" | "lighting";
+type StageProtocol<S extends StageSection> = NonNullable<
+  NonNullable<VarietyProtocols[S]>[GrowthStage]
+>;
+
+/**
+ * "ongoing-production" → "Ongoing production", "rootDevelopment" → "Root development"
+ */
+export function formatStageName(stage: string): string {
+  const words = stage
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .replace(/-/g, " ")
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export function getStageProtocol<S extends StageSection>(
+  draft: VarietyDraft,
+  section: S,
+  stage: GrowthStage
+): StageProtocol<S> | undefined {
+  return draft.protocols[section]?.[stage] as StageProtocol<S> | undefined;
+}
+
+/**
+ * A copy of the draft with one stage of a per-stage protocol replaced
+ */
+export function withStageProtocol<S extends StageSection>(
+  draft: VarietyDraft,
+  section: S,
+  stage: GrowthStage,
+  protocol: StageProtocol<S> | undefined
+): VarietyDraft {
+  const stages = { ...(draft.protocols[section] ?? {}) } as Record<string, unknown>;
+  if (protocol) {
+    stages[stage] = protocol;
+  } else {
+    delete stages[stage];
+  }
+  return { ...draft, protocols: { ...draft.protocols, [section]: stages } };
+}
@@ -4,15 +4,24 @@ import {
   CategoryWateringConfig,
   isValidStageForCategory,
   CareActivityType,
+  VolumeUnit,
 } from "@/types";
 import { requiresWater } from "@/utils/fertilizationUtils";
+import {
+  UserSettingsService,
+  VolumePreference,
+} from "@/services/userSettingsService";
+import { MeasurementService } from "@/services/measurementService";
+import { NumericRange, ProtocolParser } from "@/utils/protocolParser";
 
 interface WateringAmount {
   amount: number;
-  unit: "oz" | "ml" | "cups" | "liters" | "gallons";
+  unit: VolumeUnit;
   confidence: "high" | "medium" | "low";
   source: "protocol" | "category" | "universal";
   reasoning: string;
+  // The protocol's own range, when it gives one; amount is its midpoint
+  range?: NumericRange;
 }
 
 export class WateringResolver {
@@ -76,7 +85,45 @@ export class WateringResolver {
     } as CategoryWateringConfig<"flowers">,
   } as const;
 
+  /**
+   * Suggested amount for the stage, in the user's preferred volume units
+   * unless a preference is passed explicitly
+   */
   static resolveWateringAmount(
+    variety: VarietyRecord,
+    currentStage: GrowthStage,
+    volumePreference: VolumePreference = UserSettingsService.getCurrent().units.volume
+  ): WateringAmount {
+    return this.toPreferredVolume(
+      this.resolveBaseAmount(variety, currentStage),
+      volumePreference
+    );
+  }
+
+  /**
+   * Guides are written in ounces; metric users get millilitres rounded to
+   * the nearest 5 ml so suggestions stay easy to measure
+   */
+  static toPreferredVolume(
+    amount: WateringAmount,
+    volumePreference: VolumePreference
+  ): WateringAmount {
+    if (volumePreference !== "liters" || amount.unit !== "oz") {
+      return amount;
+    }
+    const toMl = (value: number) =>
+      Math.round(MeasurementService.convertVolume(value, "oz", "ml") / 5) * 5;
+    return {
+      ...amount,
+      amount: toMl(amount.amount),
+      unit: "ml",
+      ...(amount.range && {
+        range: { min: toMl(amount.range.min), max: toMl(amount.range.max) },
+      }),
+    };
+  }
+
+  private static resolveBaseAmount(
     variety: VarietyRecord,
     currentStage: GrowthStage
   ): WateringAmount {
@@ -132,61 +179,20 @@ export class WateringResolver {
       return null;
     }
 
-    // Parse the amount from protocol (e.g., "16-24 oz" -> 20)
-    const amountStr = String(stageProtocol.volume.amount);
-    const parsedAmount = this.parseWateringAmount(amountStr);
-
-    if (parsedAmount) {
-      return {
-        amount: parsedAmount.amount,
-        unit: parsedAmount.unit,
-        confidence: "high",
-        source: "protocol",
-        reasoning: `From ${variety.name} protocol for ${currentStage} stage`,
-      };
-    }
-
-    return null;
-  }
-
-  private static parseWateringAmount(amountStr: string): {
-    amount: number;
-    unit: "oz" | "ml" | "cups" | "liters" | "gallons";
-  } | null {
-    // Handle ranges like "16-24 oz" by taking the midpoint
-    const rangeMatch = amountStr.match(
-      /(\d+)-(\d+)\s*(oz|ml|cups|liters|gallons)/i
-    );
-    if (rangeMatch) {
-      const min = parseInt(rangeMatch[1]);
-      const max = parseInt(rangeMatch[2]);
-      const unit = rangeMatch[3].toLowerCase() as
-        | "oz"
-        | "ml"
-        | "cups"
-        | "liters"
-        | "gallons";
-      return {
-        amount: Math.round((min + max) / 2),
-        unit,
-      };
-    }
-
-    // Handle single values like "20 oz"
-    const singleMatch = amountStr.match(/(\d+)\s*(oz|ml|cups|liters|gallons)/i);
-    if (singleMatch) {
-      return {
-        amount: parseInt(singleMatch[1]),
-        unit: singleMatch[2].toLowerCase() as
-          | "oz"
-          | "ml"
-          | "cups"
-          | "liters"
-          | "gallons",
-      };
+    // Ranges like "16-24 oz" suggest their midpoint
+    const volume = ProtocolParser.parseVolume(String(stageProtocol.volume.amount));
+    if (!volume) {
+      return null;
     }
 
-    return null;
+    return {
+      amount: ProtocolParser.midpoint(volume),
+      unit: volume.unit,
+      confidence: "high",
+      source: "protocol",
+      reasoning: `From ${variety.name} protocol for ${currentStage} stage`,
+      ...(volume.min !== volume.max && { range: { min: volume.min, max: volume.max } }),
+    };
   }
 
   /**
@@ -262,11 +268,9 @@ export class WateringResolver {
     }
 
     // Parse string amounts like "250ml" or "1 cup"
-    if (typeof activity.details.amount === "string") {
-      const parsed = this.parseWateringAmount(activity.details.amount);
-      if (parsed) {
-        return parsed;
-      }
+    const parsed = ProtocolParser.parseVolume(activity.details.amount);
+    if (parsed) {
+      return { amount: ProtocolParser.midpoint(parsed), unit: parsed.unit };
     }
 
     // Fallback to estimates based on method
@@ -9,6 +9,8 @@ export default defineConfig({
     registerType: "autoUpdate",
     workbox: {
       globPatterns: ["**/*.{js,css,html,ico,png,svg,jpg,jpeg}"],
+      // Handles the mark done / snooze actions on care reminder notifications
+      importScripts: ["care-reminders-sw.js"],
       // Skip caching Firebase URLs to ensure real-time updates work
       navigateFallbackDenylist: [/^\/api\//, /firestore\.googleapis\.com/],
       runtimeCaching: [
@@ -24,7 +26,8 @@ export default defineConfig({
           }
         },
         {
-          // Explicitly exclude Firebase Firestore from caching
+          // Explicitly exclude Firebase Firestore from caching; offline writes
+          // are queued in the IndexedDB outbox instead (FirebaseOutboxService)
           urlPattern: /^https:\/\/firestore\.googleapis\.com\//,
           handler: "NetworkOnly"
         }